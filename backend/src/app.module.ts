@@ -16,6 +16,9 @@ import { RoomModule } from './modules/room/room.module';
 import { MessageModule } from './modules/message/message.module';
 import { SessionModule } from './modules/session/session.module';
 import { HistoryModule } from './modules/history/history.module';
+import { AttachmentModule } from './modules/attachment/attachment.module';
+import { ModerationModule } from './modules/moderation/moderation.module';
+import { AdminModule } from './modules/admin/admin.module';
 
 // Chat Gateway Module
 import { ChatGatewayModule } from './gateways/chat-gateway.module';
@@ -31,6 +34,7 @@ import { HealthController } from './health.controller';
 
 // Security Guards
 import { CustomThrottlerGuard } from './common/guards/throttler.guard';
+import { SessionTokenGuard } from './modules/session/guards/session-token.guard';
 
 /**
  * Root Application Module
@@ -131,6 +135,9 @@ import { CustomThrottlerGuard } from './common/guards/throttler.guard';
     MessageModule,
     SessionModule,
     HistoryModule,
+    AttachmentModule,
+    ModerationModule,
+    AdminModule,
 
     // WebSocket gateway module
     ChatGatewayModule,
@@ -145,6 +152,11 @@ import { CustomThrottlerGuard } from './common/guards/throttler.guard';
       provide: APP_GUARD,
       useClass: CustomThrottlerGuard,
     },
+    // Require a signed session token on every route not marked @Public()
+    {
+      provide: APP_GUARD,
+      useClass: SessionTokenGuard,
+    },
   ],
 })
 export class AppModule {}
@@ -1,17 +1,35 @@
 /**
  * @fileoverview Session Decorator
- * @description Custom decorator to extract session ID from request headers
+ * @description Custom decorators to read the verified session from a request
  * @module common/decorators/session
  */
 
-import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import {
+  createParamDecorator,
+  ExecutionContext,
+  SetMetadata,
+} from '@nestjs/common';
 import { Request } from 'express';
+import { SessionTokenClaims } from '../utils/session-token.util';
+
+/**
+ * Metadata key for routes that don't need a session token
+ */
+export const IS_PUBLIC_KEY = 'isPublic';
+
+/**
+ * Request after the session token guard has run
+ */
+export interface SessionRequest extends Request {
+  sessionId?: string;
+  sessionToken?: SessionTokenClaims;
+}
 
 /**
  * Session ID Parameter Decorator
  * 
- * @description Extracts the session ID from the 'x-session-id' header.
- * Used to identify anonymous users across requests.
+ * @description Returns the session ID resolved from the request's signed
+ * session token. Client-supplied session IDs are never trusted.
  * 
  * @example
  * // In a controller method:
@@ -22,34 +40,36 @@ import { Request } from 'express';
  */
 export const SessionId = createParamDecorator(
   (data: unknown, ctx: ExecutionContext): string | undefined => {
-    const request = ctx.switchToHttp().getRequest<Request>();
-    return request.headers['x-session-id'] as string | undefined;
+    const request = ctx.switchToHttp().getRequest<SessionRequest>();
+    return request.sessionId;
   },
 );
 
 /**
- * Session Required Guard Decorator
+ * Session Token Parameter Decorator
  * 
- * @description Validates that a session ID is present in the request.
- * Throws an UnauthorizedException if missing.
+ * @description Returns the verified claims of the request's session token,
+ * for endpoints that rotate or revoke it.
  * 
  * @example
- * // In a controller method:
- * @Get('history')
- * @RequireSession()
- * async getHistory(@SessionId() sessionId: string) {
- *   // sessionId is guaranteed to be present
- * }
+ * @Delete('token')
+ * async revoke(@SessionToken() token: SessionTokenClaims) { ... }
  */
-export const RequireSession = createParamDecorator(
-  (data: unknown, ctx: ExecutionContext): string => {
-    const request = ctx.switchToHttp().getRequest<Request>();
-    const sessionId = request.headers['x-session-id'] as string;
-    
-    if (!sessionId) {
-      throw new Error('Session ID is required');
-    }
-    
-    return sessionId;
+export const SessionToken = createParamDecorator(
+  (data: unknown, ctx: ExecutionContext): SessionTokenClaims | undefined => {
+    const request = ctx.switchToHttp().getRequest<SessionRequest>();
+    return request.sessionToken;
   },
 );
+
+/**
+ * Public Route Decorator
+ *
+ * @description Lets a route through without a session token.
+ *
+ * @example
+ * @Public()
+ * @Get()
+ * check() { ... }
+ */
+export const Public = () => SetMetadata(IS_PUBLIC_KEY, true);
@@ -52,16 +52,16 @@ export class RoomNotFoundException extends BusinessException {
 /**
  * Room Full Exception
  *
- * @description Thrown when attempting to join a room that already has 2 participants
+ * @description Thrown when attempting to join a room that has reached its capacity
  *
  * @example
- * throw new RoomFullException('ABC123');
+ * throw new RoomFullException('ABC123', 10);
  */
 export class RoomFullException extends BusinessException {
-  constructor(roomCode: string) {
+  constructor(roomCode: string, maxParticipants: number) {
     super(
       'ROOM_FULL',
-      `Room '${roomCode}' already has the maximum of 2 participants`,
+      `Room '${roomCode}' already has the maximum of ${maxParticipants} participants`,
       HttpStatus.BAD_REQUEST,
     );
   }
@@ -85,6 +85,115 @@ export class RoomClosedException extends BusinessException {
   }
 }
 
+/**
+ * Room Expiry Limit Exception
+ *
+ * @description Thrown when extending a room would keep it open longer
+ * than the maximum lifetime allowed from now
+ *
+ * @example
+ * throw new RoomExpiryLimitException(168);
+ */
+export class RoomExpiryLimitException extends BusinessException {
+  constructor(maxHours: number) {
+    super(
+      'ROOM_EXPIRY_LIMIT',
+      `Rooms cannot stay open for more than ${maxHours} hours from now`,
+      HttpStatus.BAD_REQUEST,
+    );
+  }
+}
+
+/**
+ * Participant Banned Exception
+ *
+ * @description Thrown when a user removed by the room host tries to rejoin
+ *
+ * @example
+ * throw new ParticipantBannedException('ABC123');
+ */
+export class ParticipantBannedException extends BusinessException {
+  constructor(roomCode: string) {
+    super(
+      'PARTICIPANT_BANNED',
+      `You were removed from room '${roomCode}' and cannot rejoin`,
+      HttpStatus.FORBIDDEN,
+    );
+  }
+}
+
+/**
+ * Room Access Denied Exception
+ *
+ * @description Thrown when joining a passphrase-protected room without a
+ * correct passphrase or a usable invite token
+ *
+ * @example
+ * throw new RoomAccessDeniedException('ABC123');
+ */
+export class RoomAccessDeniedException extends BusinessException {
+  constructor(roomCode: string) {
+    super(
+      'ROOM_ACCESS_DENIED',
+      `Room '${roomCode}' requires a valid passphrase or invite`,
+      HttpStatus.FORBIDDEN,
+    );
+  }
+}
+
+/**
+ * Too Many Join Attempts Exception
+ *
+ * @description Thrown when a room has seen too many failed passphrase or
+ * invite attempts and is temporarily refusing new ones
+ *
+ * @example
+ * throw new TooManyJoinAttemptsException(900);
+ */
+export class TooManyJoinAttemptsException extends BusinessException {
+  constructor(retryAfterSeconds: number) {
+    super(
+      'TOO_MANY_JOIN_ATTEMPTS',
+      `Too many failed attempts to join this room. Try again in ${Math.ceil(retryAfterSeconds / 60)} minutes`,
+      HttpStatus.TOO_MANY_REQUESTS,
+    );
+  }
+}
+
+/**
+ * Invalid Room Settings Exception
+ *
+ * @description Thrown when room options can't be combined, such as an
+ * end-to-end encrypted room for more than two people
+ *
+ * @example
+ * throw new InvalidRoomSettingsException('End-to-end encrypted rooms are limited to 2 participants');
+ */
+export class InvalidRoomSettingsException extends BusinessException {
+  constructor(reason: string) {
+    super('INVALID_ROOM_SETTINGS', reason, HttpStatus.BAD_REQUEST);
+  }
+}
+
+/**
+ * Room Code Unavailable Exception
+ *
+ * @description Thrown when no unused room code could be generated, which
+ * means the configured code space is nearly exhausted
+ *
+ * @example
+ * throw new RoomCodeUnavailableException();
+ */
+export class RoomCodeUnavailableException extends BusinessException {
+  constructor() {
+    super(
+      'ROOM_CODE_UNAVAILABLE',
+      'Could not allocate a room code. Please try again.',
+      HttpStatus.SERVICE_UNAVAILABLE,
+    );
+  }
+}
+
 /**
  * Invalid Room Code Exception
  *
@@ -97,7 +206,7 @@ export class InvalidRoomCodeException extends BusinessException {
   constructor(roomCode: string) {
     super(
       'INVALID_ROOM_CODE',
-      `Room code '${roomCode}' is not valid. Must be 6 alphanumeric characters.`,
+      `Room code '${roomCode}' is not valid`,
       HttpStatus.BAD_REQUEST,
     );
   }
@@ -133,7 +242,7 @@ export class SessionNotFoundException extends BusinessException {
   constructor() {
     super(
       'SESSION_NOT_FOUND',
-      'Session ID is required. Please include X-Session-Id header.',
+      'Session is required. Please include a session token.',
       HttpStatus.UNAUTHORIZED,
     );
   }
@@ -192,3 +301,253 @@ export class DuplicateReactionException extends BusinessException {
     );
   }
 }
+
+/**
+ * Attachment Not Found Exception
+ *
+ * @description Thrown when an attachment doesn't exist or isn't visible to the user
+ *
+ * @example
+ * throw new AttachmentNotFoundException('attachment-uuid');
+ */
+export class AttachmentNotFoundException extends BusinessException {
+  constructor(attachmentId: string) {
+    super(
+      'ATTACHMENT_NOT_FOUND',
+      `Attachment with ID '${attachmentId}' not found`,
+      HttpStatus.NOT_FOUND,
+    );
+  }
+}
+
+/**
+ * Attachment Too Large Exception
+ *
+ * @description Thrown when an uploaded file exceeds the configured size limit
+ *
+ * @example
+ * throw new AttachmentTooLargeException(10485760);
+ */
+export class AttachmentTooLargeException extends BusinessException {
+  constructor(maxSizeBytes: number) {
+    super(
+      'ATTACHMENT_TOO_LARGE',
+      `Attachments cannot exceed ${Math.floor(maxSizeBytes / 1024 / 1024)} MB`,
+      HttpStatus.PAYLOAD_TOO_LARGE,
+    );
+  }
+}
+
+/**
+ * Unsupported Attachment Type Exception
+ *
+ * @description Thrown when an uploaded file's type is not allowed, or its
+ * contents don't match the declared type
+ *
+ * @example
+ * throw new UnsupportedAttachmentTypeException('application/x-msdownload');
+ */
+export class UnsupportedAttachmentTypeException extends BusinessException {
+  constructor(mimeType: string) {
+    super(
+      'UNSUPPORTED_ATTACHMENT_TYPE',
+      `Files of type '${mimeType}' are not allowed`,
+      HttpStatus.UNSUPPORTED_MEDIA_TYPE,
+    );
+  }
+}
+
+/**
+ * Invalid Attachment Exception
+ *
+ * @description Thrown when a message references an attachment that can't be
+ * used with it (missing file, uploaded by someone else, or for another room)
+ *
+ * @example
+ * throw new InvalidAttachmentException('Image messages require an attachment');
+ */
+export class InvalidAttachmentException extends BusinessException {
+  constructor(reason: string) {
+    super('INVALID_ATTACHMENT', reason, HttpStatus.BAD_REQUEST);
+  }
+}
+
+/**
+ * Invalid Encryption Payload Exception
+ *
+ * @description Thrown when an end-to-end encrypted room receives plaintext
+ * or malformed ciphertext or keys, or a plain room receives ciphertext
+ *
+ * @example
+ * throw new InvalidEncryptionPayloadException('Messages in this room must be encrypted');
+ */
+export class InvalidEncryptionPayloadException extends BusinessException {
+  constructor(reason: string) {
+    super('INVALID_ENCRYPTION_PAYLOAD', reason, HttpStatus.BAD_REQUEST);
+  }
+}
+
+/**
+ * Invalid Message TTL Exception
+ *
+ * @description Thrown when a disappearing message's lifetime or timer
+ * start is out of range
+ *
+ * @example
+ * throw new InvalidMessageTtlException('Messages must last at least 5 seconds');
+ */
+export class InvalidMessageTtlException extends BusinessException {
+  constructor(reason: string) {
+    super('INVALID_MESSAGE_TTL', reason, HttpStatus.BAD_REQUEST);
+  }
+}
+
+/**
+ * Audio Too Long Exception
+ *
+ * @description Thrown when an uploaded voice note exceeds the configured
+ * maximum duration
+ *
+ * @example
+ * throw new AudioTooLongException(300000);
+ */
+export class AudioTooLongException extends BusinessException {
+  constructor(maxDurationMs: number) {
+    super(
+      'AUDIO_TOO_LONG',
+      `Voice notes cannot exceed ${Math.floor(maxDurationMs / 1000)} seconds`,
+      HttpStatus.BAD_REQUEST,
+    );
+  }
+}
+
+/**
+ * Invalid Recovery Key Exception
+ *
+ * @description Thrown when a recovery key doesn't match any identity
+ *
+ * @example
+ * throw new InvalidRecoveryKeyException();
+ */
+export class InvalidRecoveryKeyException extends BusinessException {
+  constructor() {
+    super(
+      'INVALID_RECOVERY_KEY',
+      'This recovery key is not valid',
+      HttpStatus.UNAUTHORIZED,
+    );
+  }
+}
+
+/**
+ * Invalid Session Token Exception
+ *
+ * @description Thrown when a session token is missing, forged, expired
+ * or revoked
+ *
+ * @example
+ * throw new InvalidSessionTokenException();
+ */
+export class InvalidSessionTokenException extends BusinessException {
+  constructor(reason = 'Session token is missing, expired or revoked') {
+    super('INVALID_SESSION_TOKEN', reason, HttpStatus.UNAUTHORIZED);
+  }
+}
+
+/**
+ * Message Rejected Exception
+ *
+ * @description Thrown when a message trips a moderation rule whose
+ * action is to reject it
+ *
+ * @example
+ * throw new MessageRejectedException('Links to that site are not allowed here');
+ */
+export class MessageRejectedException extends BusinessException {
+  constructor(reason: string) {
+    super('MESSAGE_REJECTED', reason, HttpStatus.UNPROCESSABLE_ENTITY);
+  }
+}
+
+/**
+ * Duplicate Report Exception
+ *
+ * @description Thrown when a participant reports a message they have
+ * already reported
+ *
+ * @example
+ * throw new DuplicateReportException('message-uuid');
+ */
+export class DuplicateReportException extends BusinessException {
+  constructor(messageId: string) {
+    super(
+      'DUPLICATE_REPORT',
+      `You have already reported message '${messageId}'`,
+      HttpStatus.CONFLICT,
+    );
+  }
+}
+
+/**
+ * Invalid Report Exception
+ *
+ * @description Thrown when a report has an unknown reason or its details
+ * are too long
+ *
+ * @example
+ * throw new InvalidReportException('Report details cannot exceed 500 characters');
+ */
+export class InvalidReportException extends BusinessException {
+  constructor(reason: string) {
+    super('INVALID_REPORT', reason, HttpStatus.BAD_REQUEST);
+  }
+}
+
+/**
+ * Invalid Operator Key Exception
+ *
+ * @description Thrown when an admin API request has no operator API key,
+ * a key that isn't configured, or the admin API has no keys at all
+ *
+ * @example
+ * throw new InvalidOperatorKeyException();
+ */
+export class InvalidOperatorKeyException extends BusinessException {
+  constructor(reason = 'A valid operator API key is required') {
+    super('INVALID_OPERATOR_KEY', reason, HttpStatus.UNAUTHORIZED);
+  }
+}
+
+/**
+ * Invalid Chat Archive Exception
+ *
+ * @description Thrown when an uploaded chat archive isn't a JSON export,
+ * doesn't match the export layout or fails its integrity check
+ *
+ * @example
+ * throw new InvalidChatArchiveException('The archive is incomplete or corrupted');
+ */
+export class InvalidChatArchiveException extends BusinessException {
+  constructor(reason: string) {
+    super('INVALID_CHAT_ARCHIVE', reason, HttpStatus.BAD_REQUEST);
+  }
+}
+
+/**
+ * Erasure Job Not Found Exception
+ *
+ * @description Thrown when a session erasure job doesn't exist, or its
+ * status has expired
+ *
+ * @example
+ * throw new ErasureJobNotFoundException();
+ */
+export class ErasureJobNotFoundException extends BusinessException {
+  constructor() {
+    super(
+      'ERASURE_JOB_NOT_FOUND',
+      'Erasure job not found or its status has expired',
+      HttpStatus.NOT_FOUND,
+    );
+  }
+}
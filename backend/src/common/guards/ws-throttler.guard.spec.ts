@@ -0,0 +1,243 @@
+/**
+ * @fileoverview WebSocket Throttler Guard Unit Tests
+ * @description Tests for distributed rate limiting and escalation
+ */
+
+import { ExecutionContext } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import Redis from 'ioredis';
+import { WsThrottlerGuard } from './ws-throttler.guard';
+
+describe('WsThrottlerGuard', () => {
+  let guard: WsThrottlerGuard;
+  let redisClient: {
+    status: string;
+    defineCommand: jest.Mock;
+    wsSlidingWindow: jest.Mock;
+    set: jest.Mock;
+  };
+  let client: {
+    id: string;
+    data: Record<string, any>;
+    handshake: { headers: Record<string, string>; address: string };
+    emit: jest.Mock;
+    disconnect: jest.Mock;
+  };
+
+  let config: Record<string, number>;
+
+  const createContext = (event = 'send_message'): ExecutionContext =>
+    ({
+      switchToWs: () => ({
+        getClient: () => client,
+        getPattern: () => event,
+      }),
+    }) as unknown as ExecutionContext;
+
+  const createGuard = (): WsThrottlerGuard => {
+    const configService = {
+      get: jest.fn((key: string, fallback: unknown) => config[key] ?? fallback),
+    };
+    const created = new WsThrottlerGuard(
+      configService as unknown as ConfigService,
+      redisClient as unknown as Redis,
+    );
+    created.onModuleInit();
+    return created;
+  };
+
+  const ipWindowKey = (): unknown =>
+    (redisClient.wsSlidingWindow.mock.calls[0] as unknown[])[1];
+
+  beforeEach(() => {
+    config = {
+      WS_MESSAGE_RATE_LIMIT: 2,
+      WS_RATE_LIMIT_BLOCK_DURATION_MS: 30000,
+      WS_TRUSTED_PROXIES: 1,
+    };
+    redisClient = {
+      status: 'ready',
+      defineCommand: jest.fn(),
+      wsSlidingWindow: jest.fn().mockResolvedValue([0, 0, 0, 0]),
+      set: jest.fn().mockResolvedValue('OK'),
+    };
+    client = {
+      id: 'socket-1',
+      data: { sessionId: 'session-123' },
+      // Connected through nginx, which appended the client's address
+      handshake: {
+        headers: { 'x-forwarded-for': '203.0.113.7' },
+        address: '172.18.0.2',
+      },
+      emit: jest.fn(),
+      disconnect: jest.fn(),
+    };
+
+    guard = createGuard();
+  });
+
+  it('should check the session and IP windows in Redis', async () => {
+    await expect(guard.canActivate(createContext())).resolves.toBe(true);
+
+    expect(redisClient.defineCommand).toHaveBeenCalledWith(
+      'wsSlidingWindow',
+      expect.objectContaining({ numberOfKeys: 6 }),
+    );
+    expect(redisClient.wsSlidingWindow).toHaveBeenCalledWith(
+      'ws-rate:session:session-123:send_message',
+      'ws-rate:ip:203.0.113.7:send_message',
+      'ws-rate:session:session-123:block',
+      'ws-rate:ip:203.0.113.7:block',
+      'ws-rate:session:session-123:strikes',
+      'ws-rate:ip:203.0.113.7:strikes',
+      expect.any(Number),
+      10000,
+      2,
+      8,
+      expect.any(String),
+      600000,
+    );
+    expect(client.emit).not.toHaveBeenCalled();
+  });
+
+  it('should only warn on the first strike', async () => {
+    redisClient.wsSlidingWindow.mockResolvedValue([1, 1, 4000, 1]);
+
+    await expect(guard.canActivate(createContext())).resolves.toBe(false);
+
+    expect(client.emit).toHaveBeenCalledWith(
+      'error',
+      expect.objectContaining({
+        type: 'RATE_LIMIT',
+        action: 'warn',
+        retryAfter: 4,
+      }),
+    );
+    expect(redisClient.set).not.toHaveBeenCalled();
+    expect(client.disconnect).not.toHaveBeenCalled();
+  });
+
+  it('should block the offending subject on later strikes', async () => {
+    redisClient.wsSlidingWindow.mockResolvedValue([2, 2, 4000, 1]);
+
+    await expect(guard.canActivate(createContext())).resolves.toBe(false);
+
+    expect(redisClient.set).toHaveBeenCalledWith(
+      'ws-rate:ip:203.0.113.7:block',
+      '1',
+      'PX',
+      30000,
+    );
+    expect(client.emit).toHaveBeenCalledWith(
+      'error',
+      expect.objectContaining({ action: 'block', retryAfter: 30 }),
+    );
+    expect(client.disconnect).not.toHaveBeenCalled();
+  });
+
+  it('should disconnect repeat offenders', async () => {
+    redisClient.wsSlidingWindow.mockResolvedValue([4, 1, 4000, 1]);
+
+    await expect(guard.canActivate(createContext())).resolves.toBe(false);
+
+    expect(redisClient.set).toHaveBeenCalledWith(
+      'ws-rate:session:session-123:block',
+      '1',
+      'PX',
+      30000,
+    );
+    expect(client.emit).toHaveBeenCalledWith(
+      'error',
+      expect.objectContaining({ action: 'disconnect' }),
+    );
+    expect(client.disconnect).toHaveBeenCalledWith(true);
+  });
+
+  it('should not escalate again within the same burst', async () => {
+    redisClient.wsSlidingWindow.mockResolvedValue([3, 1, 2500, 0]);
+
+    await expect(guard.canActivate(createContext())).resolves.toBe(false);
+
+    expect(client.emit).toHaveBeenCalledWith('error', {
+      message: 'Too many requests. Please slow down.',
+      type: 'RATE_LIMIT',
+      retryAfter: 3,
+    });
+    expect(redisClient.set).not.toHaveBeenCalled();
+  });
+
+  it('should reject events while the subject is blocked', async () => {
+    redisClient.wsSlidingWindow.mockResolvedValue([-1, 1, 12000, 0]);
+
+    await expect(guard.canActivate(createContext())).resolves.toBe(false);
+
+    expect(client.emit).toHaveBeenCalledWith('error', {
+      message: 'Rate limit exceeded. Please wait 12 seconds.',
+      type: 'RATE_LIMIT',
+      retryAfter: 12,
+    });
+  });
+
+  it('should fall back to per-node counters while Redis is down', async () => {
+    redisClient.status = 'reconnecting';
+
+    await expect(guard.canActivate(createContext())).resolves.toBe(true);
+    await expect(guard.canActivate(createContext())).resolves.toBe(true);
+    await expect(guard.canActivate(createContext())).resolves.toBe(false);
+
+    expect(redisClient.wsSlidingWindow).not.toHaveBeenCalled();
+    expect(client.emit).toHaveBeenCalledWith(
+      'error',
+      expect.objectContaining({ type: 'RATE_LIMIT', action: 'warn' }),
+    );
+  });
+
+  describe('client IP', () => {
+    it('should not trust X-Forwarded-For by default', async () => {
+      delete config.WS_TRUSTED_PROXIES;
+      guard = createGuard();
+
+      await guard.canActivate(createContext());
+
+      expect(ipWindowKey()).toBe('ws-rate:ip:172.18.0.2:send_message');
+    });
+
+    it('should ignore X-Forwarded-For entries added by the client', async () => {
+      client.handshake.headers['x-forwarded-for'] =
+        '198.51.100.1, 198.51.100.2, 203.0.113.7';
+
+      await guard.canActivate(createContext());
+
+      expect(ipWindowKey()).toBe('ws-rate:ip:203.0.113.7:send_message');
+    });
+
+    it('should count the configured number of proxies from the right', async () => {
+      config.WS_TRUSTED_PROXIES = 2;
+      guard = createGuard();
+      client.handshake.headers['x-forwarded-for'] =
+        '198.51.100.1, 203.0.113.7, 10.0.0.5';
+
+      await guard.canActivate(createContext());
+
+      expect(ipWindowKey()).toBe('ws-rate:ip:203.0.113.7:send_message');
+    });
+
+    it('should use the socket address without trusted proxies', async () => {
+      config.WS_TRUSTED_PROXIES = 0;
+      guard = createGuard();
+      client.handshake.headers['x-forwarded-for'] = '198.51.100.1';
+
+      await guard.canActivate(createContext());
+
+      expect(ipWindowKey()).toBe('ws-rate:ip:172.18.0.2:send_message');
+    });
+
+    it('should use the socket address when the header is missing', async () => {
+      client.handshake.headers = {};
+
+      await guard.canActivate(createContext());
+
+      expect(ipWindowKey()).toBe('ws-rate:ip:172.18.0.2:send_message');
+    });
+  });
+});
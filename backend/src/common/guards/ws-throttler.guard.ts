@@ -1,90 +1,264 @@
 /**
  * @fileoverview WebSocket Throttler Guard
- * @description Rate limiting for WebSocket events
+ * @description Distributed rate limiting for WebSocket events
  * @module common/guards/ws-throttler
  */
 
-import { CanActivate, ExecutionContext, Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import {
+  CanActivate,
+  ExecutionContext,
+  Inject,
+  Injectable,
+  Logger,
+  OnModuleInit,
+} from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import Redis from 'ioredis';
 import { Socket } from 'socket.io';
+import { REDIS_CLIENT } from '../../config/redis.module';
+import { generateId } from '../utils/uuid.util';
 
 /**
- * In-memory rate limiter for WebSocket events
- * In production, this should use Redis for distributed rate limiting
+ * Redis keys for rate limiting. A subject is either a session or a client
+ * IP, so reconnecting or opening more sockets doesn't reset the counters.
  */
-interface RateLimitEntry {
+const CACHE_KEYS = {
+  WINDOW: (subject: string, event: string) => `ws-rate:${subject}:${event}`,
+  BLOCK: (subject: string) => `ws-rate:${subject}:block`,
+  STRIKES: (subject: string) => `ws-rate:${subject}:strikes`,
+};
+
+/**
+ * Sliding Window Script
+ *
+ * @description Checks the session and IP subjects in one atomic step:
+ * - KEYS[1..2]: event windows (sorted sets of event timestamps)
+ * - KEYS[3..4]: blocks, KEYS[5..6]: strike hashes
+ * - ARGV: now, windowMs, sessionMax, ipMax, member, strikeWindowMs
+ *
+ * Returns `{strikes, subject, retryAfterMs, newStrike}`: strikes is 0 when
+ * the event is allowed and -1 when the subject is blocked. Events that go
+ * over the limit only add a strike once per full window, so one burst is
+ * a single violation.
+ */
+const SLIDING_WINDOW_SCRIPT = `
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+for i = 1, 2 do
+  local ttl = redis.call('PTTL', KEYS[i + 2])
+  if ttl > 0 then
+    return {-1, i, ttl, 0}
+  end
+end
+local limits = {tonumber(ARGV[3]), tonumber(ARGV[4])}
+for i = 1, 2 do
+  redis.call('ZREMRANGEBYSCORE', KEYS[i], '-inf', now - window)
+  if redis.call('ZCARD', KEYS[i]) >= limits[i] then
+    local oldest = redis.call('ZRANGE', KEYS[i], 0, 0, 'WITHSCORES')
+    local retryAfter = tonumber(oldest[2]) + window - now
+    local strikesKey = KEYS[i + 4]
+    local cooldown = tonumber(redis.call('HGET', strikesKey, 'cooldown') or '0')
+    if now < cooldown then
+      local strikes = tonumber(redis.call('HGET', strikesKey, 'count') or '1')
+      return {strikes, i, retryAfter, 0}
+    end
+    local strikes = redis.call('HINCRBY', strikesKey, 'count', 1)
+    redis.call('HSET', strikesKey, 'cooldown', now + retryAfter)
+    redis.call('PEXPIRE', strikesKey, ARGV[6])
+    return {strikes, i, retryAfter, 1}
+  end
+end
+for i = 1, 2 do
+  redis.call('ZADD', KEYS[i], now, ARGV[5])
+  redis.call('PEXPIRE', KEYS[i], window)
+end
+return {0, 0, 0, 0}
+`;
+
+/**
+ * Redis client with the sliding window script registered
+ */
+type RateLimitRedis = Redis & {
+  wsSlidingWindow(...args: (string | number)[]): Promise<number[]>;
+};
+
+/**
+ * Outcome of checking one event against the session and IP limits
+ */
+interface RateLimitResult {
+  /** Strikes for the subject that hit its limit; 0 if allowed, -1 if blocked */
+  strikes: number;
+  /** Which subject hit its limit or is blocked */
+  subject: string | null;
+  retryAfterMs: number;
+  /** Whether this event added a strike, so the escalation policy applies */
+  newStrike: boolean;
+}
+
+/**
+ * Escalation step applied to a new strike
+ */
+type RateLimitAction = 'warn' | 'block' | 'disconnect';
+
+/**
+ * Per-node counters, used only while Redis is unavailable
+ */
+interface LocalStrikes {
   count: number;
-  resetTime: number;
+  cooldownUntil: number;
+  expiresAt: number;
 }
 
+/**
+ * Sweep the per-node counters once they grow past this many keys
+ */
+const LOCAL_SWEEP_THRESHOLD = 10000;
+
 /**
  * WebSocket Throttler Guard
- * 
+ *
  * @description Rate limits WebSocket events to prevent spam and abuse.
- * 
+ * Counters live in Redis so every instance behind the Redis adapter sees
+ * the same limits, and each event counts against both the session and the
+ * client IP (with a higher IP limit for shared networks).
+ *
+ * Repeat offenders are escalated: the first strikes only warn, later ones
+ * block the session or IP for a while, and past that the socket is
+ * disconnected. Strikes are forgotten after a quiet strike window.
+ *
  * Configuration:
- * - MESSAGE_LIMIT: Max messages per window
- * - WINDOW_MS: Time window in milliseconds
- * - BLOCK_DURATION_MS: How long to block after limit exceeded
- * 
+ * - WS_*_RATE_LIMIT: Max events per window, per event type
+ * - WS_RATE_LIMIT_WINDOW_MS: Sliding window in milliseconds
+ * - WS_RATE_LIMIT_IP_MULTIPLIER: IP limit as a multiple of the session limit
+ * - WS_RATE_LIMIT_BLOCK_DURATION_MS: How long a block lasts
+ * - WS_RATE_LIMIT_WARN_STRIKES / WS_RATE_LIMIT_DISCONNECT_STRIKES: Escalation steps
+ * - WS_RATE_LIMIT_STRIKE_WINDOW_MS: How long strikes are remembered
+ * - WS_TRUSTED_PROXIES: Reverse proxies in front of the server, whose
+ *   X-Forwarded-For entries are trusted (none unless configured)
+ *
  * @class WsThrottlerGuard
  */
 @Injectable()
 export class WsThrottlerGuard implements CanActivate, OnModuleInit {
   private readonly logger = new Logger(WsThrottlerGuard.name);
-  
+
   // Rate limit configuration per event type (initialized in onModuleInit)
   private limits: Record<string, { max: number; windowMs: number }>;
 
-  // In-memory storage (use Redis in production for horizontal scaling)
-  private readonly rateLimits: Map<string, RateLimitEntry> = new Map();
-  
-  // Blocked clients (exceeded rate limit)
-  private readonly blockedClients: Map<string, number> = new Map();
+  private maxWindowMs: number;
+  private ipMultiplier: number;
   private blockDurationMs: number;
+  private warnStrikes: number;
+  private disconnectStrikes: number;
+  private strikeWindowMs: number;
+  private trustedProxies: number;
+
+  // Per-node fallback while Redis is down
+  private readonly localWindows: Map<string, number[]> = new Map();
+  private readonly localBlocks: Map<string, number> = new Map();
+  private readonly localStrikes: Map<string, LocalStrikes> = new Map();
 
-  constructor(private readonly configService: ConfigService) {}
+  constructor(
+    private readonly configService: ConfigService,
+    @Inject(REDIS_CLIENT)
+    private readonly redisClient: Redis,
+  ) {}
 
   onModuleInit(): void {
-    const windowMs = this.configService.get<number>('WS_RATE_LIMIT_WINDOW_MS', 10000);
-    const joinWindowMs = this.configService.get<number>('WS_JOIN_RATE_LIMIT_WINDOW_MS', 60000);
-    
+    const windowMs = this.configService.get<number>(
+      'WS_RATE_LIMIT_WINDOW_MS',
+      10000,
+    );
+    const joinWindowMs = this.configService.get<number>(
+      'WS_JOIN_RATE_LIMIT_WINDOW_MS',
+      60000,
+    );
+
     this.limits = {
-      send_message: { 
-        max: this.configService.get<number>('WS_MESSAGE_RATE_LIMIT', 25), 
+      send_message: {
+        max: this.configService.get<number>('WS_MESSAGE_RATE_LIMIT', 25),
         windowMs,
       },
-      typing: { 
-        max: this.configService.get<number>('WS_TYPING_RATE_LIMIT', 50), 
+      typing: {
+        max: this.configService.get<number>('WS_TYPING_RATE_LIMIT', 50),
         windowMs,
       },
-      add_reaction: { 
-        max: this.configService.get<number>('WS_REACTION_RATE_LIMIT', 15), 
+      add_reaction: {
+        max: this.configService.get<number>('WS_REACTION_RATE_LIMIT', 15),
         windowMs,
       },
-      remove_reaction: { 
-        max: this.configService.get<number>('WS_REACTION_RATE_LIMIT', 15), 
+      remove_reaction: {
+        max: this.configService.get<number>('WS_REACTION_RATE_LIMIT', 15),
         windowMs,
       },
-      delete_message: { 
-        max: this.configService.get<number>('WS_DELETE_RATE_LIMIT', 5), 
+      edit_message: {
+        max: this.configService.get<number>('WS_EDIT_RATE_LIMIT', 10),
         windowMs,
       },
-      join_room: { 
-        max: this.configService.get<number>('WS_JOIN_RATE_LIMIT', 10), 
+      delete_message: {
+        max: this.configService.get<number>('WS_DELETE_RATE_LIMIT', 5),
+        windowMs,
+      },
+      mark_read: {
+        max: this.configService.get<number>('WS_READ_RATE_LIMIT', 30),
+        windowMs,
+      },
+      join_room: {
+        max: this.configService.get<number>('WS_JOIN_RATE_LIMIT', 10),
+        windowMs: joinWindowMs,
+      },
+      leave_room: {
+        max: this.configService.get<number>('WS_JOIN_RATE_LIMIT', 10),
+        windowMs: joinWindowMs,
+      },
+      extend_room: {
+        max: this.configService.get<number>('WS_EXTEND_RATE_LIMIT', 5),
+        windowMs: joinWindowMs,
+      },
+      kick_participant: {
+        max: this.configService.get<number>('WS_KICK_RATE_LIMIT', 10),
+        windowMs: joinWindowMs,
+      },
+      share_public_key: {
+        max: this.configService.get<number>('WS_KEY_SHARE_RATE_LIMIT', 5),
         windowMs: joinWindowMs,
       },
-      leave_room: { 
-        max: this.configService.get<number>('WS_JOIN_RATE_LIMIT', 10), 
+      report_message: {
+        max: this.configService.get<number>('WS_REPORT_RATE_LIMIT', 5),
         windowMs: joinWindowMs,
       },
-      default: { 
-        max: this.configService.get<number>('WS_DEFAULT_RATE_LIMIT', 100), 
+      default: {
+        max: this.configService.get<number>('WS_DEFAULT_RATE_LIMIT', 100),
         windowMs,
       },
     };
-    
-    this.blockDurationMs = this.configService.get<number>('WS_RATE_LIMIT_BLOCK_DURATION_MS', 10000);
+
+    this.maxWindowMs = Math.max(
+      ...Object.values(this.limits).map((limit) => limit.windowMs),
+    );
+    this.ipMultiplier = Number(
+      this.configService.get<number>('WS_RATE_LIMIT_IP_MULTIPLIER', 4),
+    );
+    this.blockDurationMs = Number(
+      this.configService.get<number>('WS_RATE_LIMIT_BLOCK_DURATION_MS', 10000),
+    );
+    this.warnStrikes = Number(
+      this.configService.get<number>('WS_RATE_LIMIT_WARN_STRIKES', 1),
+    );
+    this.disconnectStrikes = Number(
+      this.configService.get<number>('WS_RATE_LIMIT_DISCONNECT_STRIKES', 4),
+    );
+    this.strikeWindowMs = Number(
+      this.configService.get<number>('WS_RATE_LIMIT_STRIKE_WINDOW_MS', 600000),
+    );
+    this.trustedProxies = Number(
+      this.configService.get<number>('WS_TRUSTED_PROXIES', 0),
+    );
+
+    this.redisClient.defineCommand('wsSlidingWindow', {
+      numberOfKeys: 6,
+      lua: SLIDING_WINDOW_SCRIPT,
+    });
   }
 
   /**
@@ -93,77 +267,264 @@ export class WsThrottlerGuard implements CanActivate, OnModuleInit {
   async canActivate(context: ExecutionContext): Promise<boolean> {
     const client = context.switchToWs().getClient<Socket>();
     const eventName = context.switchToWs().getPattern();
-    
-    const clientId = client.id;
-    const sessionId = client.data?.sessionId || clientId;
-    
-    // Check if client is blocked
-    const blockedUntil = this.blockedClients.get(sessionId);
-    if (blockedUntil && Date.now() < blockedUntil) {
-      const remainingSeconds = Math.ceil((blockedUntil - Date.now()) / 1000);
+
+    const limit = this.limits[eventName] || this.limits.default;
+    const subjects = [
+      `session:${client.data?.sessionId || client.id}`,
+      `ip:${this.getClientIp(client)}`,
+    ];
+
+    const result = await this.checkLimit(subjects, eventName, limit);
+    if (result.strikes === 0) {
+      return true;
+    }
+
+    const retryAfter = Math.ceil(result.retryAfterMs / 1000);
+
+    if (!result.newStrike || !result.subject) {
       client.emit('error', {
-        message: `Rate limit exceeded. Please wait ${remainingSeconds} seconds.`,
+        message:
+          result.strikes < 0
+            ? `Rate limit exceeded. Please wait ${retryAfter} seconds.`
+            : 'Too many requests. Please slow down.',
         type: 'RATE_LIMIT',
+        retryAfter,
       });
       return false;
-    } else if (blockedUntil) {
-      // Unblock if time has passed
-      this.blockedClients.delete(sessionId);
-    }
-
-    // Get limits for this event type
-    const limit = this.limits[eventName] || this.limits.default;
-    const key = `${sessionId}:${eventName}`;
-    const now = Date.now();
-
-    // Get or create rate limit entry
-    let entry = this.rateLimits.get(key);
-    if (!entry || now > entry.resetTime) {
-      entry = { count: 0, resetTime: now + limit.windowMs };
-      this.rateLimits.set(key, entry);
     }
 
-    // Increment count
-    entry.count++;
+    const action = this.getAction(result.strikes);
+    this.logger.warn(
+      `Rate limit exceeded for ${result.subject.slice(0, 16)}... on event ${eventName} ` +
+        `(strike ${result.strikes}, ${action})`,
+    );
 
-    // Check if limit exceeded
-    if (entry.count > limit.max) {
-      this.logger.warn(
-        `Rate limit exceeded for session ${sessionId.slice(0, 8)}... on event ${eventName}`
-      );
-      
-      // Block client
-      this.blockedClients.set(sessionId, now + this.blockDurationMs);
-      
+    if (action === 'warn') {
       client.emit('error', {
-        message: 'Too many requests. You have been temporarily rate limited.',
+        message: 'Too many requests. Please slow down.',
         type: 'RATE_LIMIT',
-        retryAfter: this.blockDurationMs / 1000,
+        action,
+        retryAfter,
       });
-      
       return false;
     }
 
-    return true;
+    await this.block(result.subject);
+
+    client.emit('error', {
+      message:
+        action === 'disconnect'
+          ? 'Too many requests. You have been disconnected.'
+          : 'Too many requests. You have been temporarily rate limited.',
+      type: 'RATE_LIMIT',
+      action,
+      retryAfter: Math.ceil(this.blockDurationMs / 1000),
+    });
+
+    if (action === 'disconnect') {
+      client.disconnect(true);
+    }
+
+    return false;
   }
 
   /**
-   * Clean up expired entries (call periodically)
+   * Maps a subject's strike count onto the escalation policy
    */
-  cleanup(): void {
+  private getAction(strikes: number): RateLimitAction {
+    if (strikes >= this.disconnectStrikes) {
+      return 'disconnect';
+    }
+    return strikes <= this.warnStrikes ? 'warn' : 'block';
+  }
+
+  /**
+   * Client IP as seen by the outermost trusted proxy
+   *
+   * @description Each proxy appends the address it received the request
+   * from, so only the entries added by our own proxies can be trusted;
+   * anything to their left is whatever the client sent. Counting
+   * WS_TRUSTED_PROXIES entries from the right gives the address the first
+   * trusted proxy saw. Without enough entries (or with no trusted proxies,
+   * the default) the socket address is used. Trusting proxies is only safe
+   * when clients can't reach the server except through them.
+   */
+  private getClientIp(client: Socket): string {
+    const forwarded = client.handshake?.headers?.['x-forwarded-for'];
+    const entries = (
+      Array.isArray(forwarded) ? forwarded.join(',') : forwarded || ''
+    )
+      .split(',')
+      .map((entry) => entry.trim())
+      .filter(Boolean);
+
+    const forwardedIp =
+      this.trustedProxies > 0 && entries.length >= this.trustedProxies
+        ? entries[entries.length - this.trustedProxies]
+        : undefined;
+
+    return forwardedIp || client.handshake?.address || 'unknown';
+  }
+
+  /**
+   * Checks an event against the sliding windows of every subject, in Redis
+   * when it's reachable and per node otherwise
+   */
+  private async checkLimit(
+    subjects: string[],
+    eventName: string,
+    limit: { max: number; windowMs: number },
+  ): Promise<RateLimitResult> {
+    // Env values arrive as strings
+    const windowMs = Number(limit.windowMs);
+    const maxima = [Number(limit.max), Number(limit.max) * this.ipMultiplier];
     const now = Date.now();
-    
-    // Clean rate limit entries
-    for (const [key, entry] of this.rateLimits) {
-      if (now > entry.resetTime) {
-        this.rateLimits.delete(key);
+
+    if (this.redisClient.status === 'ready') {
+      try {
+        const [strikes, subjectIndex, retryAfterMs, newStrike] = await (
+          this.redisClient as RateLimitRedis
+        ).wsSlidingWindow(
+          CACHE_KEYS.WINDOW(subjects[0], eventName),
+          CACHE_KEYS.WINDOW(subjects[1], eventName),
+          CACHE_KEYS.BLOCK(subjects[0]),
+          CACHE_KEYS.BLOCK(subjects[1]),
+          CACHE_KEYS.STRIKES(subjects[0]),
+          CACHE_KEYS.STRIKES(subjects[1]),
+          now,
+          windowMs,
+          maxima[0],
+          maxima[1],
+          generateId(),
+          this.strikeWindowMs,
+        );
+
+        return {
+          strikes,
+          subject: subjectIndex > 0 ? subjects[subjectIndex - 1] : null,
+          retryAfterMs,
+          newStrike: newStrike === 1,
+        };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        this.logger.warn(`Redis rate limit check failed: ${message}`);
+      }
+    }
+
+    return this.checkLocalLimit(subjects, eventName, windowMs, maxima, now);
+  }
+
+  /**
+   * Per-node version of the sliding window script
+   */
+  private checkLocalLimit(
+    subjects: string[],
+    eventName: string,
+    windowMs: number,
+    maxima: number[],
+    now: number,
+  ): RateLimitResult {
+    if (this.localWindows.size > LOCAL_SWEEP_THRESHOLD) {
+      this.sweepLocal(now);
+    }
+
+    for (const subject of subjects) {
+      const blockedUntil = this.localBlocks.get(subject);
+      if (blockedUntil && now < blockedUntil) {
+        return {
+          strikes: -1,
+          subject,
+          retryAfterMs: blockedUntil - now,
+          newStrike: false,
+        };
       }
     }
-    
-    // Clean blocked clients
-    for (const [key, blockedUntil] of this.blockedClients) {
+
+    const windows = subjects.map((subject) => {
+      const key = CACHE_KEYS.WINDOW(subject, eventName);
+      const events = (this.localWindows.get(key) || []).filter(
+        (timestamp) => timestamp > now - windowMs,
+      );
+      this.localWindows.set(key, events);
+      return events;
+    });
+
+    for (let i = 0; i < subjects.length; i++) {
+      if (windows[i].length < maxima[i]) {
+        continue;
+      }
+
+      const retryAfterMs = windows[i][0] + windowMs - now;
+      let strikes = this.localStrikes.get(subjects[i]);
+      if (strikes && now < strikes.expiresAt && now < strikes.cooldownUntil) {
+        return {
+          strikes: strikes.count,
+          subject: subjects[i],
+          retryAfterMs,
+          newStrike: false,
+        };
+      }
+
+      strikes = {
+        count: strikes && now < strikes.expiresAt ? strikes.count + 1 : 1,
+        cooldownUntil: now + retryAfterMs,
+        expiresAt: now + this.strikeWindowMs,
+      };
+      this.localStrikes.set(subjects[i], strikes);
+      return {
+        strikes: strikes.count,
+        subject: subjects[i],
+        retryAfterMs,
+        newStrike: true,
+      };
+    }
+
+    windows.forEach((events) => events.push(now));
+    return { strikes: 0, subject: null, retryAfterMs: 0, newStrike: false };
+  }
+
+  /**
+   * Blocks a session or IP on every node
+   */
+  private async block(subject: string): Promise<void> {
+    if (this.redisClient.status === 'ready') {
+      try {
+        await this.redisClient.set(
+          CACHE_KEYS.BLOCK(subject),
+          '1',
+          'PX',
+          this.blockDurationMs,
+        );
+        return;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        this.logger.warn(`Failed to store rate limit block: ${message}`);
+      }
+    }
+
+    this.localBlocks.set(subject, Date.now() + this.blockDurationMs);
+  }
+
+  /**
+   * Drops expired per-node counters
+   */
+  private sweepLocal(now: number): void {
+    for (const [key, events] of this.localWindows) {
+      if (
+        !events.length ||
+        events[events.length - 1] < now - this.maxWindowMs
+      ) {
+        this.localWindows.delete(key);
+      }
+    }
+    for (const [key, blockedUntil] of this.localBlocks) {
       if (now > blockedUntil) {
-        this.blockedClients.delete(key);
+        this.localBlocks.delete(key);
+      }
+    }
+    for (const [key, strikes] of this.localStrikes) {
+      if (now > strikes.expiresAt) {
+        this.localStrikes.delete(key);
       }
     }
   }
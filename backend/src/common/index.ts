@@ -6,6 +6,8 @@
 
 // Utilities
 export * from './utils/uuid.util';
+export * from './utils/search.util';
+export * from './utils/audio-probe.util';
 
 // Decorators
 export * from './decorators/session.decorator';
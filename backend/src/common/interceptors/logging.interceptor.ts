@@ -13,7 +13,7 @@ import {
 } from '@nestjs/common';
 import { Observable } from 'rxjs';
 import { tap } from 'rxjs/operators';
-import { Request } from 'express';
+import { SessionRequest } from '../decorators/session.decorator';
 
 /**
  * Logging Interceptor
@@ -43,9 +43,10 @@ export class LoggingInterceptor implements NestInterceptor {
    * @returns {Observable<unknown>} Response observable with logging side effects
    */
   intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
-    const request = context.switchToHttp().getRequest<Request>();
+    const request = context.switchToHttp().getRequest<SessionRequest>();
     const { method, url, body } = request;
-    const sessionId = request.headers['x-session-id'] as string;
+    // Set by SessionTokenGuard, which runs before interceptors
+    const sessionId = request.sessionId;
     const startTime = Date.now();
 
     // Log incoming request
@@ -9,6 +9,7 @@ import {
   NestInterceptor,
   ExecutionContext,
   CallHandler,
+  StreamableFile,
 } from '@nestjs/common';
 import { Observable } from 'rxjs';
 import { map } from 'rxjs/operators';
@@ -83,6 +84,11 @@ export class TransformInterceptor<T>
    * @returns {SuccessResponse<T>} Transformed response
    */
   private transformResponse(data: T): SuccessResponse<T> {
+    // File downloads are streamed to the client unwrapped
+    if (data instanceof StreamableFile) {
+      return data as unknown as SuccessResponse<T>;
+    }
+
     // If data already has the success structure, return as-is
     if (this.isAlreadyTransformed(data)) {
       return data as unknown as SuccessResponse<T>;
@@ -84,12 +84,17 @@ export class SanitizePipe implements PipeTransform {
 
   /**
    * Recursively sanitize object properties
+   * (except the content of end-to-end encrypted messages)
    */
   private sanitizeObject(obj: Record<string, any>): Record<string, any> {
     const sanitized: Record<string, any> = {};
 
     for (const [key, value] of Object.entries(obj)) {
-      if (typeof value === 'string') {
+      // Ciphertext from encrypted rooms is opaque and would only be
+      // mangled here; MessageService checks its format instead
+      if (key === 'content' && obj.encrypted === true) {
+        sanitized[key] = value;
+      } else if (typeof value === 'string') {
         sanitized[key] = this.sanitizeString(value);
       } else if (typeof value === 'object' && value !== null) {
         sanitized[key] = Array.isArray(value)
@@ -0,0 +1,423 @@
+/**
+ * @fileoverview Audio Probe Utility Functions
+ * @description Reads codec and duration from recorded audio without decoding it
+ * @module common/utils/audio-probe
+ */
+
+/**
+ * Audio container formats recognised by probeAudio
+ */
+export type AudioContainer = 'webm' | 'ogg' | 'mp4';
+
+/**
+ * Result of probing an audio file
+ */
+export interface AudioProbeResult {
+  container: AudioContainer;
+
+  /**
+   * Codec of the first audio track (e.g. 'opus', 'vorbis', 'aac'), if found
+   */
+  codec: string | null;
+
+  /**
+   * Playback duration in milliseconds, if it could be determined
+   */
+  durationMs: number | null;
+}
+
+/**
+ * Probes an audio file's container, codec, and duration
+ *
+ * @description Covers the formats browsers' MediaRecorder produces:
+ * WebM and Ogg (Opus/Vorbis) and MP4 (AAC/Opus), including streamed files
+ * whose headers carry no duration. Only container metadata is read, so the
+ * result is cheap to compute and independent of what the client claims.
+ *
+ * @param {Buffer} buffer - File contents
+ * @returns {AudioProbeResult | null} Probe result, or null if the container is not recognised
+ *
+ * @example
+ * probeAudio(recording);
+ * // Returns: { container: 'webm', codec: 'opus', durationMs: 4180 }
+ */
+export function probeAudio(buffer: Buffer): AudioProbeResult | null {
+  try {
+    if (buffer.length >= 4 && buffer.readUInt32BE(0) === EBML_ID.HEADER) {
+      return probeWebm(buffer);
+    }
+    if (buffer.toString('latin1', 0, 4) === 'OggS') {
+      return probeOgg(buffer);
+    }
+    if (buffer.toString('latin1', 4, 8) === 'ftyp') {
+      return probeMp4(buffer);
+    }
+  } catch {
+    // Truncated or malformed files are treated as unrecognised
+  }
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// WebM (Matroska)
+// ---------------------------------------------------------------------------
+
+const EBML_ID = {
+  HEADER: 0x1a45dfa3,
+  SEGMENT: 0x18538067,
+  INFO: 0x1549a966,
+  TIMECODE_SCALE: 0x2ad7b1,
+  DURATION: 0x4489,
+  TRACKS: 0x1654ae6b,
+  TRACK_ENTRY: 0xae,
+  CODEC_ID: 0x86,
+  CLUSTER: 0x1f43b675,
+  TIMECODE: 0xe7,
+  BLOCK_GROUP: 0xa0,
+  BLOCK: 0xa1,
+  SIMPLE_BLOCK: 0xa3,
+};
+
+/**
+ * Master elements whose children are read. Recorders often write these with
+ * an unknown size, so children are scanned inline rather than nested.
+ */
+const EBML_MASTERS = new Set([
+  EBML_ID.SEGMENT,
+  EBML_ID.INFO,
+  EBML_ID.TRACKS,
+  EBML_ID.TRACK_ENTRY,
+  EBML_ID.CLUSTER,
+  EBML_ID.BLOCK_GROUP,
+]);
+
+/**
+ * Reads an EBML variable-length integer
+ *
+ * @param {Buffer} buffer - File contents
+ * @param {number} offset - Position of the first byte
+ * @param {boolean} keepMarker - Keep the length marker bit (element IDs do)
+ * @returns Value (null for "unknown size") and encoded length, or null if invalid
+ */
+function readVint(
+  buffer: Buffer,
+  offset: number,
+  keepMarker: boolean,
+): { value: number | null; length: number } | null {
+  const first = buffer[offset];
+  if (first === undefined || first === 0) return null;
+
+  const length = Math.clz32(first) - 23;
+  if (offset + length > buffer.length) return null;
+
+  let value = keepMarker ? first : first & (0xff >> length);
+  let allOnes = value === 0xff >> length;
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + buffer[offset + i];
+    allOnes = allOnes && buffer[offset + i] === 0xff;
+  }
+
+  return { value: !keepMarker && allOnes ? null : value, length };
+}
+
+/**
+ * Reads a big-endian unsigned integer element of any length
+ */
+function readUInt(buffer: Buffer, start: number, end: number): number {
+  let value = 0;
+  for (let i = start; i < end; i++) {
+    value = value * 256 + buffer[i];
+  }
+  return value;
+}
+
+function probeWebm(buffer: Buffer): AudioProbeResult {
+  let timecodeScale = 1_000_000; // nanoseconds per timecode tick
+  let declaredDuration: number | null = null;
+  let codec: string | null = null;
+  let clusterTimecode = 0;
+  let lastTimecode: number | null = null;
+
+  let offset = 0;
+  while (offset < buffer.length) {
+    const id = readVint(buffer, offset, true);
+    if (!id) break;
+    const size = readVint(buffer, offset + id.length, false);
+    if (!size) break;
+
+    const dataStart = offset + id.length + size.length;
+    const dataEnd =
+      size.value === null
+        ? buffer.length
+        : Math.min(buffer.length, dataStart + size.value);
+
+    if (EBML_MASTERS.has(id.value as number)) {
+      offset = dataStart;
+      continue;
+    }
+
+    switch (id.value) {
+      case EBML_ID.TIMECODE_SCALE:
+        timecodeScale = readUInt(buffer, dataStart, dataEnd);
+        break;
+      case EBML_ID.DURATION:
+        declaredDuration =
+          dataEnd - dataStart === 4
+            ? buffer.readFloatBE(dataStart)
+            : buffer.readDoubleBE(dataStart);
+        break;
+      case EBML_ID.CODEC_ID:
+        codec ??= normalizeMatroskaCodec(
+          buffer.toString('latin1', dataStart, dataEnd),
+        );
+        break;
+      case EBML_ID.TIMECODE:
+        clusterTimecode = readUInt(buffer, dataStart, dataEnd);
+        break;
+      case EBML_ID.SIMPLE_BLOCK:
+      case EBML_ID.BLOCK: {
+        // Track number (vint) followed by a signed 16-bit relative timecode
+        const track = readVint(buffer, dataStart, false);
+        if (track && dataStart + track.length + 2 <= dataEnd) {
+          const timecode =
+            clusterTimecode + buffer.readInt16BE(dataStart + track.length);
+          lastTimecode = Math.max(lastTimecode ?? 0, timecode);
+        }
+        break;
+      }
+    }
+
+    offset = dataEnd;
+  }
+
+  const ticks = declaredDuration || lastTimecode;
+
+  return {
+    container: 'webm',
+    codec,
+    durationMs: ticks ? Math.round((ticks * timecodeScale) / 1_000_000) : null,
+  };
+}
+
+function normalizeMatroskaCodec(codecId: string): string {
+  return codecId
+    .replace(/\0+$/, '')
+    .replace(/^A_/, '')
+    .split('/')[0]
+    .toLowerCase();
+}
+
+// ---------------------------------------------------------------------------
+// Ogg
+// ---------------------------------------------------------------------------
+
+/**
+ * Ogg page header: "OggS", version, type, granule (int64 LE) at offset 6,
+ * serial, sequence, checksum, segment count at 26, then the segment table
+ */
+const OGG_GRANULE_OFFSET = 6;
+const OGG_SEGMENT_COUNT_OFFSET = 26;
+
+function probeOgg(buffer: Buffer): AudioProbeResult {
+  const segments = buffer[OGG_SEGMENT_COUNT_OFFSET];
+  const packet = OGG_SEGMENT_COUNT_OFFSET + 1 + segments;
+
+  let codec: string | null = null;
+  let sampleRate = 0;
+  let preSkip = 0;
+
+  if (buffer.toString('latin1', packet, packet + 8) === 'OpusHead') {
+    codec = 'opus';
+    sampleRate = 48000; // Opus granules always count 48 kHz samples
+    preSkip = buffer.readUInt16LE(packet + 10);
+  } else if (buffer.toString('latin1', packet + 1, packet + 7) === 'vorbis') {
+    codec = 'vorbis';
+    sampleRate = buffer.readUInt32LE(packet + 12);
+  }
+
+  // The granule position of the last page is the total sample count
+  let durationMs: number | null = null;
+  let page = buffer.lastIndexOf('OggS');
+  while (page >= 0 && sampleRate > 0) {
+    const granule =
+      page + OGG_GRANULE_OFFSET + 8 <= buffer.length
+        ? buffer.readBigInt64LE(page + OGG_GRANULE_OFFSET)
+        : -1n;
+    if (granule >= 0n) {
+      const samples = Math.max(0, Number(granule) - preSkip);
+      durationMs = Math.round((samples / sampleRate) * 1000);
+      break;
+    }
+    // -1 means no packet ends on this page; try the previous one
+    page = buffer.lastIndexOf('OggS', page - 1);
+  }
+
+  return { container: 'ogg', codec, durationMs };
+}
+
+// ---------------------------------------------------------------------------
+// MP4
+// ---------------------------------------------------------------------------
+
+/**
+ * Boxes whose children are read
+ */
+const MP4_CONTAINERS = new Set([
+  'moov',
+  'trak',
+  'mdia',
+  'minf',
+  'stbl',
+  'moof',
+  'traf',
+]);
+
+/**
+ * Leaf boxes that carry codec or timing information
+ */
+const MP4_FULL_BOXES = new Set(['mvhd', 'mdhd', 'stsd', 'tfhd', 'trun']);
+
+const MP4_CODECS: Record<string, string> = {
+  mp4a: 'aac',
+  Opus: 'opus',
+};
+
+interface Mp4State {
+  codec: string | null;
+  movieTimescale: number;
+  movieDuration: number;
+  mediaTimescale: number;
+  mediaDuration: number;
+  defaultSampleDuration: number;
+  fragmentDuration: number;
+}
+
+function probeMp4(buffer: Buffer): AudioProbeResult {
+  const state: Mp4State = {
+    codec: null,
+    movieTimescale: 0,
+    movieDuration: 0,
+    mediaTimescale: 0,
+    mediaDuration: 0,
+    defaultSampleDuration: 0,
+    fragmentDuration: 0,
+  };
+
+  readMp4Boxes(buffer, 0, buffer.length, state);
+
+  // Fragmented recordings leave the header durations at zero
+  let durationMs: number | null = null;
+  if (state.movieTimescale && state.movieDuration) {
+    durationMs = (state.movieDuration / state.movieTimescale) * 1000;
+  } else if (state.mediaTimescale && state.mediaDuration) {
+    durationMs = (state.mediaDuration / state.mediaTimescale) * 1000;
+  } else if (state.mediaTimescale && state.fragmentDuration) {
+    durationMs = (state.fragmentDuration / state.mediaTimescale) * 1000;
+  }
+
+  return {
+    container: 'mp4',
+    codec: state.codec,
+    durationMs: durationMs === null ? null : Math.round(durationMs),
+  };
+}
+
+function readMp4Boxes(
+  buffer: Buffer,
+  start: number,
+  end: number,
+  state: Mp4State,
+): void {
+  let offset = start;
+
+  while (offset + 8 <= end) {
+    let size = buffer.readUInt32BE(offset);
+    const type = buffer.toString('latin1', offset + 4, offset + 8);
+    let header = 8;
+
+    if (size === 1) {
+      size = Number(buffer.readBigUInt64BE(offset + 8));
+      header = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < header) break;
+
+    const boxEnd = Math.min(end, offset + size);
+    const body = offset + header;
+
+    if (MP4_CONTAINERS.has(type)) {
+      readMp4Boxes(buffer, body, boxEnd, state);
+    } else if (MP4_FULL_BOXES.has(type)) {
+      readMp4Box(buffer, type, body, state);
+    }
+
+    offset = boxEnd;
+  }
+}
+
+function readMp4Box(
+  buffer: Buffer,
+  type: string,
+  body: number,
+  state: Mp4State,
+): void {
+  // Boxes read here are full boxes: a version byte and 24-bit flags come first
+  const version = buffer[body];
+  const flags = readUInt(buffer, body + 1, body + 4);
+
+  switch (type) {
+    case 'mvhd':
+    case 'mdhd': {
+      // Skip creation and modification times
+      const timescaleOffset = body + 4 + (version === 1 ? 16 : 8);
+      const timescale = buffer.readUInt32BE(timescaleOffset);
+      const duration =
+        version === 1
+          ? Number(buffer.readBigUInt64BE(timescaleOffset + 4))
+          : buffer.readUInt32BE(timescaleOffset + 4);
+
+      if (type === 'mvhd') {
+        state.movieTimescale = timescale;
+        state.movieDuration = duration;
+      } else {
+        state.mediaTimescale ||= timescale;
+        state.mediaDuration ||= duration;
+      }
+      break;
+    }
+    case 'stsd': {
+      // First sample entry's type names the codec
+      const entryType = buffer.toString('latin1', body + 12, body + 16);
+      state.codec ??= MP4_CODECS[entryType] ?? entryType.trim().toLowerCase();
+      break;
+    }
+    case 'tfhd': {
+      // track_ID, then optional fields in flag order
+      let position = body + 8;
+      if (flags & 0x1) position += 8; // base_data_offset
+      if (flags & 0x2) position += 4; // sample_description_index
+      if (flags & 0x8)
+        state.defaultSampleDuration = buffer.readUInt32BE(position);
+      break;
+    }
+    case 'trun': {
+      const sampleCount = buffer.readUInt32BE(body + 4);
+      let position = body + 8;
+      if (flags & 0x1) position += 4; // data_offset
+      if (flags & 0x4) position += 4; // first_sample_flags
+
+      if (!(flags & 0x100)) {
+        state.fragmentDuration += sampleCount * state.defaultSampleDuration;
+        break;
+      }
+
+      const fieldSize =
+        4 * [0x100, 0x200, 0x400, 0x800].filter((flag) => flags & flag).length;
+      for (let i = 0; i < sampleCount; i++) {
+        state.fragmentDuration += buffer.readUInt32BE(position + i * fieldSize);
+      }
+      break;
+    }
+  }
+}
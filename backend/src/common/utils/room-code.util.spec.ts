@@ -0,0 +1,98 @@
+/**
+ * @fileoverview Room Code Utility Unit Tests
+ * @description Tests for room code generation and validation
+ */
+
+import {
+  generateRoomCode,
+  isValidRoomCode,
+  DEFAULT_ROOM_CODE_ALPHABET,
+  ROOM_CODE_PATTERN,
+  ROOM_CODE_WORDS,
+} from './room-code.util';
+
+describe('room-code.util', () => {
+  describe('generateRoomCode', () => {
+    it('should generate 6-character codes from the default alphabet', () => {
+      for (let i = 0; i < 100; i++) {
+        const code = generateRoomCode();
+
+        expect(code).toHaveLength(6);
+        expect(
+          [...code].every((c) => DEFAULT_ROOM_CODE_ALPHABET.includes(c)),
+        ).toBe(true);
+      }
+    });
+
+    it('should leave ambiguous characters out of the default alphabet', () => {
+      for (const char of ['0', 'O', '1', 'I']) {
+        expect(DEFAULT_ROOM_CODE_ALPHABET).not.toContain(char);
+      }
+    });
+
+    it('should honour a custom length and alphabet', () => {
+      const code = generateRoomCode({ alphabet: 'XY', length: 10 });
+
+      expect(code).toMatch(/^[XY]{10}$/);
+    });
+
+    it('should generate hyphen-separated word codes', () => {
+      const code = generateRoomCode({ words: true, wordCount: 4 });
+      const words = code.split('-');
+
+      expect(words).toHaveLength(4);
+      expect(words.every((word) => ROOM_CODE_WORDS.includes(word))).toBe(true);
+      expect(code).toMatch(ROOM_CODE_PATTERN);
+    });
+
+    it('should use a word list without duplicates', () => {
+      expect(new Set(ROOM_CODE_WORDS).size).toBe(ROOM_CODE_WORDS.length);
+    });
+  });
+
+  describe('isValidRoomCode', () => {
+    it('should accept generated codes', () => {
+      expect(isValidRoomCode(generateRoomCode())).toBe(true);
+      expect(isValidRoomCode('K7QZ3M')).toBe(true);
+    });
+
+    it('should reject codes with ambiguous characters', () => {
+      expect(isValidRoomCode('ABC1O0')).toBe(false);
+    });
+
+    it('should reject codes of the wrong length or case', () => {
+      expect(isValidRoomCode('K7QZ3')).toBe(false);
+      expect(isValidRoomCode('K7QZ3MM')).toBe(false);
+      expect(isValidRoomCode('k7qz3m')).toBe(false);
+    });
+
+    it('should check codes against a custom format', () => {
+      expect(isValidRoomCode('XYYX', { alphabet: 'XY', length: 4 })).toBe(true);
+      expect(isValidRoomCode('XYZX', { alphabet: 'XY', length: 4 })).toBe(
+        false,
+      );
+    });
+
+    it('should validate word codes', () => {
+      expect(isValidRoomCode('AMBER-FALCON-RIVER', { words: true })).toBe(true);
+      expect(isValidRoomCode('AMBER-FALCON', { words: true })).toBe(false);
+      expect(isValidRoomCode('AMBER-FALCON-QWERTY', { words: true })).toBe(
+        false,
+      );
+    });
+  });
+
+  describe('ROOM_CODE_PATTERN', () => {
+    it('should accept random, legacy and word codes', () => {
+      expect(ROOM_CODE_PATTERN.test('K7QZ3M')).toBe(true);
+      expect(ROOM_CODE_PATTERN.test('ABC100')).toBe(true);
+      expect(ROOM_CODE_PATTERN.test('AMBER-FALCON-RIVER')).toBe(true);
+    });
+
+    it('should reject stray hyphens and other characters', () => {
+      expect(ROOM_CODE_PATTERN.test('-AMBER')).toBe(false);
+      expect(ROOM_CODE_PATTERN.test('AMBER--FALCON')).toBe(false);
+      expect(ROOM_CODE_PATTERN.test('AMBER FALCON')).toBe(false);
+    });
+  });
+});
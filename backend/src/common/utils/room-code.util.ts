@@ -0,0 +1,137 @@
+/**
+ * @fileoverview Room Code Utility Functions
+ * @description Generation and validation of shareable room codes
+ * @module common/utils/room-code
+ */
+
+import { randomInt } from 'crypto';
+
+/**
+ * Default room code alphabet
+ *
+ * @description Uppercase letters and digits without the characters that
+ * are easily confused when read aloud or typed: 0/O and 1/I.
+ */
+export const DEFAULT_ROOM_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export const DEFAULT_ROOM_CODE_LENGTH = 6;
+
+export const DEFAULT_ROOM_CODE_WORD_COUNT = 3;
+
+/**
+ * Any code the app has issued: random codes (including the older
+ * 6-character base36 ones) and hyphen-separated word codes.
+ * Used to sanity-check user input before looking a code up.
+ */
+export const ROOM_CODE_PATTERN = /^[A-Z0-9]+(?:-[A-Z0-9]+)*$/;
+
+/**
+ * Word list for human-friendly codes (256 words, so three words give
+ * about 16.7 million combinations)
+ */
+export const ROOM_CODE_WORDS: readonly string[] = `
+  ACORN AMBER ANCHOR APPLE ARROW ASPEN ATLAS AUTUMN BADGE BAGEL BAMBOO BANJO
+  BASALT BASIL BEACON BEETLE BISON BLAZE BLOOM BLUFF BONSAI BRAMBLE BREEZE
+  BRICK BROOK BUBBLE CABIN CACTUS CAMEL CANDLE CANOE CANYON CARROT CASHEW
+  CASTLE CEDAR CELLO CHALK CHERRY CHESS CIDER CINDER CIRCUS CITRUS CLOVER
+  COBALT COCOA COMET CONDOR CORAL COSMOS COTTON COYOTE CRANE CRATER CRICKET
+  CRYSTAL CUMIN CYPRESS DAISY DAWN DELTA DESERT DINGO DOLPHIN DRAGON DRIFT
+  DUNE EAGLE ECHO EMBER EMERALD ENGINE FALCON FEATHER FERN FERRET FIDDLE FIG
+  FINCH FJORD FLAME FLINT FOREST FOSSIL FOX FROST GALAXY GARDEN GARNET
+  GAZELLE GECKO GEYSER GINGER GLACIER GOOSE GRANITE GRAPE GRAVEL GROVE GUITAR
+  GULL HARBOR HAZEL HEMLOCK HERON HICKORY HONEY HORIZON HUSKY ICEBERG IGLOO
+  IGUANA INDIGO IRIS ISLAND IVORY JACKET JADE JAGUAR JASMINE JELLY JUNGLE
+  KAYAK KELP KETTLE KIWI KOALA LAGOON LANTERN LARK LAVA LEMON LENTIL LILAC
+  LILY LINEN LOTUS LUNAR LYNX MAGNET MANGO MANTIS MAPLE MARBLE MEADOW MELON
+  METEOR MINT MIRROR MOCHA MOOSE MOSAIC MOSS MUFFIN NEBULA NECTAR NICKEL
+  NUTMEG OASIS OCEAN OLIVE ONYX OPAL ORBIT ORCHID OTTER OWL PADDLE PANDA
+  PAPAYA PARROT PEBBLE PECAN PEPPER PETAL PICKLE PIGEON PINE PIXEL PLANET
+  PLUM POLAR PONY POPPY PRAIRIE PRISM PUFFIN PUMPKIN QUAIL QUARTZ QUILL
+  RABBIT RADISH RAIN RAVEN REEF RIBBON RIDGE RIVER ROBIN ROCKET RUBY SADDLE
+  SAFFRON SAGE SALMON SANDAL SAPPHIRE SATIN SEQUOIA SHADOW SHELL SIERRA
+  SILVER SKETCH SPARROW SPICE SPRUCE SQUID STONE STORM SUMMIT SUNSET SWAN
+  TANGO TAPIR TEAL TEMPLE THISTLE THUNDER TIGER TIMBER TOPAZ TORCH TULIP
+  TUNDRA TURTLE TUXEDO VALLEY VELVET VIOLET VOYAGE WAFFLE WALNUT WALRUS
+  WILLOW WINDOW WINTER WIZARD WOMBAT YARROW YETI ZEBRA ZEPHYR ZINNIA
+`
+  .trim()
+  .split(/\s+/);
+
+/**
+ * Room code format options
+ */
+export interface RoomCodeOptions {
+  /** Characters random codes are drawn from */
+  alphabet?: string;
+  /** Length of random codes */
+  length?: number;
+  /** Produce word codes (e.g. "AMBER-FALCON-RIVER") instead of random ones */
+  words?: boolean;
+  /** Number of words in word codes */
+  wordCount?: number;
+}
+
+/**
+ * Generates a room code
+ *
+ * @description Every character (or word) is picked independently with
+ * crypto.randomInt, which is uniform and unpredictable. Codes are not
+ * checked for uniqueness here; callers retry on collision.
+ *
+ * @param {RoomCodeOptions} options - Code format
+ * @returns {string} Uppercase room code
+ *
+ * @example
+ * generateRoomCode(); // "K7QZ3M"
+ * generateRoomCode({ words: true }); // "AMBER-FALCON-RIVER"
+ */
+export function generateRoomCode(options: RoomCodeOptions = {}): string {
+  if (options.words) {
+    const wordCount = options.wordCount ?? DEFAULT_ROOM_CODE_WORD_COUNT;
+    return Array.from(
+      { length: wordCount },
+      () => ROOM_CODE_WORDS[randomInt(ROOM_CODE_WORDS.length)],
+    ).join('-');
+  }
+
+  const alphabet = options.alphabet ?? DEFAULT_ROOM_CODE_ALPHABET;
+  const length = options.length ?? DEFAULT_ROOM_CODE_LENGTH;
+
+  let code = '';
+  for (let i = 0; i < length; i++) {
+    code += alphabet[randomInt(alphabet.length)];
+  }
+  return code;
+}
+
+/**
+ * Validates a room code against a code format
+ *
+ * @param {string} code - The room code to validate
+ * @param {RoomCodeOptions} options - Code format to check against
+ * @returns {boolean} True if generateRoomCode could have produced the code
+ *
+ * @example
+ * isValidRoomCode("K7QZ3M"); // true
+ * isValidRoomCode("ABC1O0"); // false (ambiguous characters)
+ * isValidRoomCode("AMBER-FALCON-RIVER", { words: true }); // true
+ */
+export function isValidRoomCode(
+  code: string,
+  options: RoomCodeOptions = {},
+): boolean {
+  if (options.words) {
+    const words = code.split('-');
+    return (
+      words.length === (options.wordCount ?? DEFAULT_ROOM_CODE_WORD_COUNT) &&
+      words.every((word) => ROOM_CODE_WORDS.includes(word))
+    );
+  }
+
+  const alphabet = options.alphabet ?? DEFAULT_ROOM_CODE_ALPHABET;
+  const length = options.length ?? DEFAULT_ROOM_CODE_LENGTH;
+
+  return (
+    code.length === length && [...code].every((char) => alphabet.includes(char))
+  );
+}
@@ -0,0 +1,126 @@
+/**
+ * @fileoverview Search Utility Functions
+ * @description Helpers for building highlighted snippets from text search results
+ * @module common/utils/search
+ */
+
+/**
+ * A highlighted range within a snippet (start inclusive, end exclusive)
+ */
+export interface HighlightRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * A snippet of message content with highlighted matches
+ */
+export interface HighlightedSnippet {
+  snippet: string;
+  highlights: HighlightRange[];
+}
+
+/**
+ * Extracts the terms to highlight from a search query
+ *
+ * @description Mirrors how MongoDB parses `$text` queries closely enough for
+ * highlighting: quoted phrases are kept whole, negated terms (`-word`) are
+ * dropped, and the remaining words are split on whitespace.
+ *
+ * @param {string} query - Raw search query
+ * @returns {string[]} Lowercased terms, longest first
+ *
+ * @example
+ * extractSearchTerms('"google docs" link -spam');
+ * // Returns: ['google docs', 'link']
+ */
+export function extractSearchTerms(query: string): string[] {
+  const terms = new Set<string>();
+
+  const phrases = query.match(/"[^"]+"/g) || [];
+  for (const phrase of phrases) {
+    const term = phrase.slice(1, -1).trim().toLowerCase();
+    if (term) terms.add(term);
+  }
+
+  const words = query.replace(/"[^"]+"/g, ' ').split(/\s+/);
+  for (const word of words) {
+    const term = word.replace(/"/g, '').toLowerCase();
+    if (term && !term.startsWith('-')) terms.add(term);
+  }
+
+  // Longest first so overlapping matches prefer the longer term
+  return [...terms].sort((a, b) => b.length - a.length);
+}
+
+/**
+ * Builds a snippet around the first match with highlight ranges
+ *
+ * @description Centers a window of at most `maxLength` characters on the
+ * earliest match and reports every match inside it. Whitespace is collapsed
+ * so offsets line up with the returned snippet. Highlights are returned as
+ * offsets rather than markup so clients never have to render HTML.
+ *
+ * @param {string} content - Full message content
+ * @param {string[]} terms - Terms from extractSearchTerms
+ * @param {number} maxLength - Maximum snippet length
+ * @returns {HighlightedSnippet} Snippet and highlight ranges
+ *
+ * @example
+ * buildHighlightedSnippet('Here is the link you wanted', ['link'], 100);
+ * // Returns: { snippet: 'Here is the link you wanted', highlights: [{ start: 12, end: 16 }] }
+ */
+export function buildHighlightedSnippet(
+  content: string,
+  terms: string[],
+  maxLength: number,
+): HighlightedSnippet {
+  const text = content.replace(/\s+/g, ' ').trim();
+  const matches = findMatches(text, terms);
+
+  // Start a little before the first match so it has some context
+  let start = 0;
+  if (text.length > maxLength && matches.length > 0) {
+    const context = Math.floor(maxLength / 4);
+    start = Math.max(
+      0,
+      Math.min(matches[0].start - context, text.length - maxLength),
+    );
+  }
+  const end = Math.min(text.length, start + maxLength);
+
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+  const offset = prefix.length - start;
+
+  const highlights = matches
+    .filter((m) => m.start >= start && m.end <= end)
+    .map((m) => ({ start: m.start + offset, end: m.end + offset }));
+
+  return {
+    snippet: `${prefix}${text.slice(start, end)}${suffix}`,
+    highlights,
+  };
+}
+
+/**
+ * Finds non-overlapping case-insensitive matches of the terms
+ *
+ * @param {string} text - Text to search
+ * @param {string[]} terms - Terms to find (longest first)
+ * @returns {HighlightRange[]} Matches ordered by position
+ */
+function findMatches(text: string, terms: string[]): HighlightRange[] {
+  if (terms.length === 0) return [];
+
+  const pattern = new RegExp(
+    terms.map((t) => t.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|'),
+    'gi',
+  );
+
+  const matches: HighlightRange[] = [];
+  for (const match of text.matchAll(pattern)) {
+    matches.push({ start: match.index, end: match.index + match[0].length });
+  }
+  return matches;
+}
@@ -0,0 +1,109 @@
+/**
+ * @fileoverview Secret Utility Functions
+ * @description Hashing and verification for room passphrases, invite tokens
+ * and recovery keys
+ * @module common/utils/secret
+ */
+
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number,
+) => Promise<Buffer>;
+
+const SCRYPT_KEY_LENGTH = 32;
+const SALT_LENGTH = 16;
+const INVITE_TOKEN_BYTES = 24;
+const RECOVERY_KEY_BYTES = 32;
+
+/**
+ * Hashes a room passphrase for storage
+ *
+ * @description Uses scrypt with a random salt. The result is
+ * self-describing so the parameters can change later.
+ *
+ * @param {string} passphrase - Plain-text passphrase
+ * @returns {Promise<string>} Hash in the form `scrypt$<salt>$<hash>`
+ *
+ * @example
+ * const stored = await hashPassphrase('correct horse battery staple');
+ */
+export async function hashPassphrase(passphrase: string): Promise<string> {
+  const salt = randomBytes(SALT_LENGTH);
+  const hash = await scryptAsync(passphrase, salt, SCRYPT_KEY_LENGTH);
+  return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`;
+}
+
+/**
+ * Checks a passphrase against a stored hash
+ *
+ * @param {string} passphrase - Plain-text passphrase to check
+ * @param {string} stored - Hash produced by hashPassphrase
+ * @returns {Promise<boolean>} True if the passphrase matches
+ *
+ * @example
+ * await verifyPassphrase('correct horse battery staple', stored); // true
+ */
+export async function verifyPassphrase(
+  passphrase: string,
+  stored: string,
+): Promise<boolean> {
+  const [scheme, saltHex, hashHex] = stored.split('$');
+  if (scheme !== 'scrypt' || !saltHex || !hashHex) {
+    return false;
+  }
+
+  const expected = Buffer.from(hashHex, 'hex');
+  const actual = await scryptAsync(
+    passphrase,
+    Buffer.from(saltHex, 'hex'),
+    expected.length,
+  );
+  return timingSafeEqual(actual, expected);
+}
+
+/**
+ * Generates an unguessable invite token
+ *
+ * @returns {string} URL-safe token (32 characters)
+ *
+ * @example
+ * const token = generateInviteToken();
+ * // Returns: "q3Hk0d2Jx..."
+ */
+export function generateInviteToken(): string {
+  return randomBytes(INVITE_TOKEN_BYTES).toString('base64url');
+}
+
+/**
+ * Hashes an invite token for storage and lookup
+ *
+ * @description Tokens are long and random, so a fast unsalted hash is
+ * enough to keep them out of the database in usable form.
+ *
+ * @param {string} token - Invite token
+ * @returns {string} SHA-256 hex digest
+ */
+export function hashInviteToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Generates a recovery key for a persistent identity
+ *
+ * @description The key is the only credential for the identity, so it
+ * carries 256 bits of entropy. Stored with hashInviteToken like invite
+ * tokens.
+ *
+ * @returns {string} URL-safe key (43 characters)
+ *
+ * @example
+ * const key = generateRecoveryKey();
+ * // Returns: "vN7c1Qe..."
+ */
+export function generateRecoveryKey(): string {
+  return randomBytes(RECOVERY_KEY_BYTES).toString('base64url');
+}
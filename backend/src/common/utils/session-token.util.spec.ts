@@ -0,0 +1,67 @@
+/**
+ * @fileoverview Session Token Utility Unit Tests
+ * @description Tests for session token signing and verification
+ */
+
+import {
+  signSessionToken,
+  verifySessionToken,
+  SessionTokenClaims,
+} from './session-token.util';
+
+describe('session-token.util', () => {
+  const secret = 'test-secret';
+  const now = Date.UTC(2025, 11, 18, 10, 0, 0);
+
+  const claims: SessionTokenClaims = {
+    sub: 'session-123',
+    jti: 'token-1',
+    ver: 2,
+    iat: now / 1000,
+    exp: now / 1000 + 3600,
+  };
+
+  it('should round-trip the claims', () => {
+    const token = signSessionToken(claims, secret);
+
+    expect(token.split('.')).toHaveLength(3);
+    expect(verifySessionToken(token, secret, 0, now)).toEqual(claims);
+  });
+
+  it('should reject a token signed with another secret', () => {
+    const token = signSessionToken(claims, 'other-secret');
+
+    expect(verifySessionToken(token, secret, 0, now)).toBeNull();
+  });
+
+  it('should reject a token whose claims were changed', () => {
+    const [header, , signature] = signSessionToken(claims, secret).split('.');
+    const forged = Buffer.from(
+      JSON.stringify({ ...claims, sub: 'session-456' }),
+    ).toString('base64url');
+
+    expect(
+      verifySessionToken(`${header}.${forged}.${signature}`, secret, 0, now),
+    ).toBeNull();
+  });
+
+  it('should reject an expired token', () => {
+    const token = signSessionToken(claims, secret);
+
+    expect(verifySessionToken(token, secret, 0, now + 3600 * 1000)).toBeNull();
+  });
+
+  it('should accept an expired token within the grace period', () => {
+    const token = signSessionToken(claims, secret);
+    const later = now + 2 * 3600 * 1000;
+
+    expect(verifySessionToken(token, secret, 3600, later)).toBeNull();
+    expect(verifySessionToken(token, secret, 7200, later)).toEqual(claims);
+  });
+
+  it('should reject malformed tokens', () => {
+    expect(verifySessionToken('', secret, 0, now)).toBeNull();
+    expect(verifySessionToken('session-123', secret, 0, now)).toBeNull();
+    expect(verifySessionToken('a.b.c', secret, 0, now)).toBeNull();
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * @fileoverview Session Token Utility Functions
+ * @description Signing and verification of session tokens
+ * @module common/utils/session-token
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * Claims carried by a session token
+ */
+export interface SessionTokenClaims {
+  /** Session ID the token was issued for */
+  sub: string;
+  /** Token ID, used to revoke a single token */
+  jti: string;
+  /** Session token version; bumping it revokes every older token */
+  ver: number;
+  /** Issued at (seconds since epoch) */
+  iat: number;
+  /** Expires at (seconds since epoch) */
+  exp: number;
+}
+
+const HEADER = Buffer.from(
+  JSON.stringify({ alg: 'HS256', typ: 'JWT' }),
+).toString('base64url');
+
+/**
+ * Signs session token claims
+ *
+ * @description Produces a compact HS256 JWT, so tokens can be inspected
+ * with standard tooling.
+ *
+ * @param {SessionTokenClaims} claims - Token claims
+ * @param {string} secret - Server signing secret
+ * @returns {string} Signed token
+ *
+ * @example
+ * const token = signSessionToken({ sub, jti, ver: 0, iat, exp }, secret);
+ */
+export function signSessionToken(
+  claims: SessionTokenClaims,
+  secret: string,
+): string {
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  return `${HEADER}.${payload}.${sign(`${HEADER}.${payload}`, secret)}`;
+}
+
+/**
+ * Verifies a session token's signature and expiry
+ *
+ * @description Revocation is checked by the caller; this only proves the
+ * server issued the token and that it hasn't expired.
+ *
+ * @param {string} token - Token to verify
+ * @param {string} secret - Server signing secret
+ * @param {number} [graceSeconds] - How long after expiry the token is still accepted
+ * @param {number} [now] - Current time in milliseconds
+ * @returns {SessionTokenClaims | null} Claims, or null if the token is invalid
+ *
+ * @example
+ * const claims = verifySessionToken(token, secret);
+ * if (!claims) throw new InvalidSessionTokenException();
+ */
+export function verifySessionToken(
+  token: string,
+  secret: string,
+  graceSeconds = 0,
+  now: number = Date.now(),
+): SessionTokenClaims | null {
+  const [header, payload, signature] = token.split('.');
+  if (header !== HEADER || !payload || !signature) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(`${header}.${payload}`, secret));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return null;
+  }
+
+  let claims: SessionTokenClaims;
+  try {
+    claims = JSON.parse(
+      Buffer.from(payload, 'base64url').toString('utf8'),
+    ) as SessionTokenClaims;
+  } catch {
+    return null;
+  }
+
+  if (
+    typeof claims.sub !== 'string' ||
+    typeof claims.jti !== 'string' ||
+    typeof claims.ver !== 'number' ||
+    typeof claims.exp !== 'number' ||
+    (claims.exp + graceSeconds) * 1000 <= now
+  ) {
+    return null;
+  }
+
+  return claims;
+}
+
+/**
+ * HMAC-SHA256 of the signing input, base64url encoded
+ */
+function sign(input: string, secret: string): string {
+  return createHmac('sha256', secret).update(input).digest('base64url');
+}
@@ -1,6 +1,6 @@
 /**
  * @fileoverview UUID v7 Utility Functions
- * @description Provides UUID v7 generation and room code creation utilities
+ * @description Provides UUID v7 generation and parsing utilities
  * @module common/utils/uuid
  */
 
@@ -23,42 +23,6 @@ export function generateId(): string {
   return uuidv7();
 }
 
-/**
- * Generates a human-readable room code from UUID v7
- *
- * @description Creates a 6-character alphanumeric code that is:
- * - Easy to read and share verbally
- * - Collision-resistant for typical usage patterns
- * - Time-influenced for natural distribution
- *
- * Algorithm:
- * 1. Generate UUID v7 for timestamp component
- * 2. Extract and encode timestamp portion to base36
- * 3. Add random characters for collision resistance
- *
- * @returns {string} 6-character uppercase alphanumeric room code
- *
- * @example
- * const code = generateRoomCode();
- * // Returns: "ABC123"
- */
-export function generateRoomCode(): string {
-  const uuid = uuidv7();
-  // Extract timestamp portion (first 12 hex chars = 48 bits)
-  const timestampHex = uuid.replace(/-/g, '').slice(0, 12);
-
-  // Convert to base36 and take last 3 characters
-  const timestampPart = parseInt(timestampHex, 16)
-    .toString(36)
-    .toUpperCase()
-    .slice(-3);
-
-  // Generate 3 random characters
-  const randomPart = Math.random().toString(36).slice(2, 5).toUpperCase();
-
-  return timestampPart + randomPart;
-}
-
 /**
  * Validates if a string is a valid UUID v7 format
  *
@@ -90,18 +54,3 @@ export function extractTimestamp(uuid: string): Date {
   const timestamp = parseInt(timestampHex, 16);
   return new Date(timestamp);
 }
-
-/**
- * Validates if a string is a valid room code format
- *
- * @param {string} code - The room code to validate
- * @returns {boolean} True if the code is 6 uppercase alphanumeric characters
- *
- * @example
- * isValidRoomCode("ABC123"); // true
- * isValidRoomCode("abc"); // false
- */
-export function isValidRoomCode(code: string): boolean {
-  const roomCodeRegex = /^[A-Z0-9]{6}$/;
-  return roomCodeRegex.test(code);
-}
\ No newline at end of file
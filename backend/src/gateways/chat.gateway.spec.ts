@@ -4,20 +4,45 @@
  */
 
 import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
 import { ChatGateway } from './chat.gateway';
 import { SessionService } from '../modules/session/services/session.service';
+import { SessionTokenService } from '../modules/session/services/session-token.service';
 import { RoomService } from '../modules/room/services/room.service';
 import { MessageService } from '../modules/message/services/message.service';
-import { REDIS_PUBLISHER, REDIS_SUBSCRIBER } from '../config/redis.module';
+import { MessageRepository } from '../modules/message/repositories/message.repository';
+import { AttachmentService } from '../modules/attachment/services/attachment.service';
+import { ModerationService } from '../modules/moderation/services/moderation.service';
+import { ReportService } from '../modules/moderation/services/report.service';
+import { RepeatFilter } from '../modules/moderation/filters/repeat.filter';
+import { REDIS_CLIENT } from '../config/redis.module';
 import { RoomStatus } from '../modules/room/schemas/room.schema';
 import { ContentType, ReactionType } from '../modules/message/schemas/message.schema';
+import { MessageResponseDto } from '../modules/message/dto/message.dto';
 import { Server, Socket } from 'socket.io';
+import { Queue } from 'bullmq';
+import Redis from 'ioredis';
 
 describe('ChatGateway', () => {
   let gateway: ChatGateway;
-  let sessionService: jest.Mocked<SessionService>;
-  let roomService: jest.Mocked<RoomService>;
-  let messageService: jest.Mocked<MessageService>;
+  let sessionService: {
+    getUserId: jest.Mock;
+    connectSocket: jest.Mock;
+    disconnectSocket: jest.Mock;
+    setCurrentRoom: jest.Mock;
+    getUsersPresence: jest.Mock;
+  };
+  let sessionTokenService: { verifyToken: jest.Mock; isTokenActive: jest.Mock };
+  let roomService: { getRoomById: jest.Mock; leaveRoom: jest.Mock };
+  let messageService: {
+    getMessages: jest.Mock;
+    sendMessage: jest.Mock;
+    editMessage: jest.Mock;
+    deleteMessage: jest.Mock;
+    markRead: jest.Mock;
+    addReaction: jest.Mock;
+    removeReaction: jest.Mock;
+  };
 
   const mockUserId = 'user-123';
   const mockSessionId = 'session-123';
@@ -28,7 +53,12 @@ describe('ChatGateway', () => {
     roomCode: 'ABC123',
     status: RoomStatus.ACTIVE,
     participants: [
-      { userId: mockUserId, displayName: 'User One', isActive: true },
+      {
+        userId: mockUserId,
+        displayName: 'User One',
+        isActive: true,
+        joinedAt: new Date(),
+      },
     ],
   };
 
@@ -48,7 +78,7 @@ describe('ChatGateway', () => {
   const mockSocket: Partial<Socket> = {
     id: 'socket-123',
     handshake: {
-      auth: { sessionId: mockSessionId },
+      auth: {},
       headers: {},
       query: {},
       time: new Date().toISOString(),
@@ -61,7 +91,9 @@ describe('ChatGateway', () => {
     join: jest.fn(),
     leave: jest.fn(),
     to: jest.fn().mockReturnThis(),
+    except: jest.fn().mockReturnThis(),
     emit: jest.fn(),
+    disconnect: jest.fn(),
     data: {},
   };
 
@@ -69,56 +101,72 @@ describe('ChatGateway', () => {
     to: jest.fn().mockReturnThis(),
     emit: jest.fn(),
     in: jest.fn().mockReturnThis(),
+    socketsJoin: jest.fn(),
+    socketsLeave: jest.fn(),
   };
 
   beforeEach(async () => {
-    const mockSessionService = {
-      getOrCreateUserId: jest.fn().mockResolvedValue(mockUserId),
+    sessionService = {
       getUserId: jest.fn().mockResolvedValue(mockUserId),
-      getUserDisplayName: jest.fn().mockResolvedValue('User One'),
+      connectSocket: jest.fn().mockResolvedValue(null),
+      disconnectSocket: jest.fn().mockResolvedValue(null),
+      setCurrentRoom: jest.fn().mockResolvedValue(undefined),
+      getUsersPresence: jest.fn().mockResolvedValue(new Map()),
     };
 
-    const mockRoomService = {
+    sessionTokenService = {
+      verifyToken: jest.fn().mockResolvedValue({ sub: mockSessionId }),
+      isTokenActive: jest.fn().mockResolvedValue(true),
+    };
+
+    roomService = {
       getRoomById: jest.fn().mockResolvedValue(mockRoom),
-      validateParticipant: jest.fn().mockResolvedValue({
-        userId: mockUserId,
-        displayName: 'User One',
-      }),
       leaveRoom: jest.fn().mockResolvedValue(mockRoom),
     };
 
-    const mockMessageService = {
+    messageService = {
+      getMessages: jest.fn().mockResolvedValue({ messages: [] }),
       sendMessage: jest.fn().mockResolvedValue(mockMessage),
-      deleteMessage: jest.fn().mockResolvedValue({ messageId: 'msg-123', deleted: true }),
-      addReaction: jest.fn().mockResolvedValue({ type: ReactionType.LIKE, count: 1 }),
-      removeReaction: jest.fn().mockResolvedValue({ type: ReactionType.LIKE, count: 0 }),
+      editMessage: jest.fn().mockResolvedValue({
+        ...mockMessage,
+        content: 'Edited',
+        isEdited: true,
+      }),
+      deleteMessage: jest
+        .fn()
+        .mockResolvedValue({ ...mockMessage, isDeleted: true }),
+      markRead: jest.fn().mockResolvedValue({
+        roomId: 'room-123',
+        userId: mockUserId,
+        lastReadMessageId: 'msg-123',
+        readAt: new Date(),
+        expiringMessages: [],
+      }),
+      addReaction: jest.fn().mockResolvedValue(mockMessage),
+      removeReaction: jest.fn().mockResolvedValue(mockMessage),
     };
 
-    const mockRedis = {
-      on: jest.fn(),
-      subscribe: jest.fn(),
-      publish: jest.fn(),
-      duplicate: jest.fn().mockReturnThis(),
+    const mockConfigService = {
+      get: jest.fn((_key: string, defaultValue?: unknown) => defaultValue),
     };
 
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         ChatGateway,
-        { provide: SessionService, useValue: mockSessionService },
-        { provide: RoomService, useValue: mockRoomService },
-        { provide: MessageService, useValue: mockMessageService },
-        { provide: REDIS_PUBLISHER, useValue: mockRedis },
-        { provide: REDIS_SUBSCRIBER, useValue: mockRedis },
+        { provide: SessionService, useValue: sessionService },
+        { provide: SessionTokenService, useValue: sessionTokenService },
+        { provide: RoomService, useValue: roomService },
+        { provide: MessageService, useValue: messageService },
+        { provide: ConfigService, useValue: mockConfigService },
+        { provide: REDIS_CLIENT, useValue: {} },
       ],
     }).compile();
 
     gateway = module.get<ChatGateway>(ChatGateway);
-    sessionService = module.get(SessionService);
-    roomService = module.get(RoomService);
-    messageService = module.get(MessageService);
+    gateway.onModuleInit();
 
-    // Set the server
-    gateway.server = mockServer as Server;
+    // Set the server (normally injected by @WebSocketServer)
+    (gateway as unknown as { server: Server }).server = mockServer as Server;
   });
 
   afterEach(() => {
@@ -126,26 +174,28 @@ describe('ChatGateway', () => {
   });
 
   describe('handleConnection', () => {
-    it('should authenticate socket with valid session', async () => {
-      await gateway.handleConnection(mockSocket as Socket);
+    it('should register the socket of an authenticated session', async () => {
+      const socket = {
+        ...mockSocket,
+        data: { sessionId: mockSessionId },
+      } as Socket;
 
-      expect(sessionService.getOrCreateUserId).toHaveBeenCalledWith(mockSessionId);
-      expect(mockSocket.data?.userId).toBe(mockUserId);
+      await gateway.handleConnection(socket);
+
+      expect(sessionService.connectSocket).toHaveBeenCalledWith(
+        mockSessionId,
+        'socket-123',
+      );
+      expect(mockSocket.join).toHaveBeenCalledWith(`session:${mockSessionId}`);
     });
 
-    it('should disconnect socket without session ID', async () => {
-      const socketWithoutAuth: Partial<Socket> = {
-        ...mockSocket,
-        handshake: {
-          ...mockSocket.handshake,
-          auth: {},
-        } as any,
-        disconnect: jest.fn(),
-      };
+    it('should disconnect socket without session', async () => {
+      const socket = { ...mockSocket, data: {} } as Socket;
 
-      await gateway.handleConnection(socketWithoutAuth as Socket);
+      await gateway.handleConnection(socket);
 
-      expect(socketWithoutAuth.disconnect).toHaveBeenCalled();
+      expect(mockSocket.disconnect).toHaveBeenCalled();
+      expect(sessionService.connectSocket).not.toHaveBeenCalled();
     });
   });
 
@@ -155,8 +205,9 @@ describe('ChatGateway', () => {
 
       await gateway.handleDisconnect(socket);
 
-      // Should not throw
-      expect(true).toBe(true);
+      expect(sessionService.disconnectSocket).toHaveBeenCalledWith(
+        'socket-123',
+      );
     });
   });
 
@@ -168,25 +219,49 @@ describe('ChatGateway', () => {
       await gateway.handleJoinRoom(payload, socket);
 
       expect(mockSocket.join).toHaveBeenCalledWith('room-123');
-      expect(roomService.validateParticipant).toHaveBeenCalled();
+      expect(roomService.getRoomById).toHaveBeenCalledWith('room-123');
+      expect(mockSocket.emit).toHaveBeenCalledWith(
+        'room_joined',
+        expect.any(Object),
+      );
     });
 
     it('should emit error for invalid room', async () => {
       const socket = { ...mockSocket, data: { userId: mockUserId, sessionId: mockSessionId } } as Socket;
-      roomService.validateParticipant.mockRejectedValue(new Error('Not in room'));
+      roomService.getRoomById.mockRejectedValue(new Error('Room not found'));
 
       await gateway.handleJoinRoom({ roomId: 'invalid-room' }, socket);
 
       expect(mockSocket.emit).toHaveBeenCalledWith('error', expect.any(Object));
+      expect(mockSocket.join).not.toHaveBeenCalled();
+    });
+
+    it('should emit error when the user is not a participant', async () => {
+      const socket = {
+        ...mockSocket,
+        data: { userId: mockUserId, sessionId: mockSessionId },
+      } as Socket;
+      sessionService.getUserId.mockResolvedValue('stranger');
+
+      await gateway.handleJoinRoom({ roomId: 'room-123' }, socket);
+
+      expect(mockSocket.emit).toHaveBeenCalledWith('error', {
+        message: 'Not a participant of this room',
+      });
+      expect(mockSocket.join).not.toHaveBeenCalled();
     });
 
-    it('should broadcast user_joined event to room', async () => {
+    it('should broadcast participants_updated to room', async () => {
       const socket = { ...mockSocket, data: { userId: mockUserId, sessionId: mockSessionId } } as Socket;
       const payload = { roomId: 'room-123' };
 
       await gateway.handleJoinRoom(payload, socket);
 
       expect(mockServer.to).toHaveBeenCalledWith('room-123');
+      expect(mockServer.emit).toHaveBeenCalledWith(
+        'participants_updated',
+        expect.any(Object),
+      );
     });
   });
 
@@ -197,7 +272,12 @@ describe('ChatGateway', () => {
 
       await gateway.handleLeaveRoom(payload, socket);
 
-      expect(mockSocket.leave).toHaveBeenCalledWith('room-123');
+      expect(roomService.leaveRoom).toHaveBeenCalledWith(
+        mockSessionId,
+        'room-123',
+      );
+      expect(mockServer.in).toHaveBeenCalledWith(`session:${mockSessionId}`);
+      expect(mockServer.socketsLeave).toHaveBeenCalledWith('room-123');
     });
 
     it('should broadcast user_left event to room', async () => {
@@ -206,7 +286,11 @@ describe('ChatGateway', () => {
 
       await gateway.handleLeaveRoom(payload, socket);
 
-      expect(mockServer.to).toHaveBeenCalledWith('room-123');
+      expect(mockSocket.to).toHaveBeenCalledWith('room-123');
+      expect(mockSocket.emit).toHaveBeenCalledWith(
+        'user_left',
+        expect.any(Object),
+      );
     });
   });
 
@@ -255,6 +339,148 @@ describe('ChatGateway', () => {
 
       expect(mockSocket.emit).toHaveBeenCalledWith('error', expect.any(Object));
     });
+
+    it('should acknowledge with the server messageId', async () => {
+      const socket = {
+        ...mockSocket,
+        data: { userId: mockUserId, sessionId: mockSessionId },
+      } as Socket;
+      const sent: MessageResponseDto = {
+        messageId: 'msg-123',
+        roomId: 'room-123',
+        clientMessageId: 'client-1',
+        senderId: mockUserId,
+        senderName: 'User One',
+        content: 'Hello!',
+        encrypted: false,
+        contentType: ContentType.TEXT,
+        isDeleted: false,
+        reactions: [],
+        isEdited: false,
+        revisions: [],
+        ttlSeconds: null,
+        ttlStart: null,
+        expiresAt: null,
+        createdAt: new Date(),
+      };
+      messageService.sendMessage.mockResolvedValue(sent);
+
+      const ack = await gateway.handleSendMessage(
+        { roomId: 'room-123', content: 'Hello!', clientMessageId: 'client-1' },
+        socket,
+      );
+
+      expect(messageService.sendMessage).toHaveBeenCalledWith(
+        mockSessionId,
+        expect.objectContaining({ clientMessageId: 'client-1' }),
+      );
+      expect(ack).toEqual({
+        status: 'sent',
+        clientMessageId: 'client-1',
+        messageId: 'msg-123',
+      });
+    });
+
+    it('should acknowledge failure when sending fails', async () => {
+      const socket = {
+        ...mockSocket,
+        data: { userId: mockUserId, sessionId: mockSessionId },
+      } as Socket;
+      messageService.sendMessage.mockRejectedValue(new Error('Not authorized'));
+
+      const ack = await gateway.handleSendMessage(
+        { roomId: 'room-123', content: 'Hello!', clientMessageId: 'client-1' },
+        socket,
+      );
+
+      expect(ack).toEqual({
+        status: 'failed',
+        clientMessageId: 'client-1',
+        error: 'Not authorized',
+      });
+    });
+
+    it('should acknowledge every retry of a stored message as sent', async () => {
+      const socket = {
+        ...mockSocket,
+        data: { userId: mockUserId, sessionId: mockSessionId },
+      } as Socket;
+      const counters = new Map<string, number>();
+      const redisClient = {
+        status: 'ready',
+        get: jest.fn().mockResolvedValue(mockUserId),
+        incr: jest.fn((key: string) => {
+          counters.set(key, (counters.get(key) ?? 0) + 1);
+          return Promise.resolve(counters.get(key));
+        }),
+        expire: jest.fn().mockResolvedValue(1),
+        set: jest.fn().mockResolvedValue('OK'),
+      };
+      const configService = {
+        get: jest.fn((_key: string, defaultValue?: unknown) => defaultValue),
+      } as unknown as ConfigService;
+
+      // The default rules reject the fourth identical message in a minute
+      const moderationService = new ModerationService(configService, [
+        new RepeatFilter(redisClient as unknown as Redis),
+      ]);
+      await moderationService.onModuleInit();
+
+      let stored: Record<string, unknown> | null = null;
+      const messageRepository = {
+        findByClientMessageId: jest.fn(() => Promise.resolve(stored)),
+        create: jest.fn((data: Record<string, unknown>) => {
+          stored = {
+            ...data,
+            _id: 'msg-123',
+            isDeleted: false,
+            reactions: [],
+            createdAt: new Date(),
+          };
+          return Promise.resolve(stored);
+        }),
+      };
+      const messageService = new MessageService(
+        messageRepository as unknown as MessageRepository,
+        roomService as unknown as RoomService,
+        {} as AttachmentService,
+        moderationService,
+        {} as ReportService,
+        redisClient as unknown as Redis,
+        {} as Queue,
+        configService,
+      );
+      messageService.onModuleInit();
+      const retryingGateway = new ChatGateway(
+        sessionService as unknown as SessionService,
+        {} as SessionTokenService,
+        roomService as unknown as RoomService,
+        messageService,
+        configService,
+      );
+      (retryingGateway as unknown as { server: Server }).server =
+        mockServer as Server;
+
+      const acks: unknown[] = [];
+      for (let attempt = 0; attempt < 4; attempt++) {
+        acks.push(
+          await retryingGateway.handleSendMessage(
+            { roomId: 'room-123', content: 'Hello!', clientMessageId: 'c-1' },
+            socket,
+          ),
+        );
+      }
+      moderationService.onModuleDestroy();
+
+      expect(acks).toEqual(
+        Array(4).fill({
+          status: 'sent',
+          clientMessageId: 'c-1',
+          messageId: 'msg-123',
+        }),
+      );
+      expect(messageRepository.create).toHaveBeenCalledTimes(1);
+    });
   });
 
   describe('handleTyping', () => {
@@ -320,6 +546,69 @@ describe('ChatGateway', () => {
     });
   });
 
+  describe('handleEditMessage', () => {
+    it('should edit message and broadcast to room', async () => {
+      const socket = {
+        ...mockSocket,
+        data: { userId: mockUserId, sessionId: mockSessionId },
+      } as Socket;
+
+      await gateway.handleEditMessage(
+        { messageId: 'msg-123', content: 'Edited' },
+        socket,
+      );
+
+      expect(messageService.editMessage).toHaveBeenCalledWith(
+        mockSessionId,
+        'msg-123',
+        'Edited',
+        undefined,
+      );
+      expect(mockServer.to).toHaveBeenCalledWith('room-123');
+      expect(mockServer.emit).toHaveBeenCalledWith(
+        'message_edited',
+        expect.any(Object),
+      );
+    });
+
+    it('should sanitize edited content (XSS protection)', async () => {
+      const socket = {
+        ...mockSocket,
+        data: { userId: mockUserId, sessionId: mockSessionId },
+      } as Socket;
+
+      await gateway.handleEditMessage(
+        {
+          messageId: 'msg-123',
+          content: '<script>alert("xss")</script>Edited',
+        },
+        socket,
+      );
+
+      expect(messageService.editMessage).toHaveBeenCalledWith(
+        mockSessionId,
+        'msg-123',
+        expect.not.stringContaining('<script>'),
+        undefined,
+      );
+    });
+
+    it('should emit error for unauthorized edit', async () => {
+      const socket = {
+        ...mockSocket,
+        data: { userId: mockUserId, sessionId: mockSessionId },
+      } as Socket;
+      messageService.editMessage.mockRejectedValue(new Error('Unauthorized'));
+
+      await gateway.handleEditMessage(
+        { messageId: 'msg-123', content: 'Edited' },
+        socket,
+      );
+
+      expect(mockSocket.emit).toHaveBeenCalledWith('error', expect.any(Object));
+    });
+  });
+
   describe('handleDeleteMessage', () => {
     it('should delete message and broadcast to room', async () => {
       const socket = { ...mockSocket, data: { userId: mockUserId, sessionId: mockSessionId } } as Socket;
@@ -342,4 +631,75 @@ describe('ChatGateway', () => {
       expect(mockSocket.emit).toHaveBeenCalledWith('error', expect.any(Object));
     });
   });
+
+  describe('handleMarkRead', () => {
+    it('should update read cursor and notify others in room', async () => {
+      const socket = {
+        ...mockSocket,
+        data: { userId: mockUserId, sessionId: mockSessionId },
+      } as Socket;
+
+      await gateway.handleMarkRead(
+        { roomId: 'room-123', messageId: 'msg-123' },
+        socket,
+      );
+
+      expect(messageService.markRead).toHaveBeenCalledWith(
+        mockSessionId,
+        'room-123',
+        'msg-123',
+      );
+      expect(mockSocket.to).toHaveBeenCalledWith('room-123');
+      expect(mockSocket.emit).toHaveBeenCalledWith(
+        'messages_read',
+        expect.any(Object),
+      );
+    });
+
+    it('should not broadcast when cursor did not move', async () => {
+      const socket = {
+        ...mockSocket,
+        data: { userId: mockUserId, sessionId: mockSessionId },
+      } as Socket;
+      messageService.markRead.mockResolvedValue(null);
+
+      await gateway.handleMarkRead(
+        { roomId: 'room-123', messageId: 'msg-123' },
+        socket,
+      );
+
+      expect(mockSocket.emit).not.toHaveBeenCalledWith(
+        'messages_read',
+        expect.any(Object),
+      );
+    });
+  });
+
+  describe('disconnectRevokedSockets', () => {
+    it('should only drop the sockets of revoked tokens', async () => {
+      const claims = { sub: mockSessionId, ver: 0, iat: 0, exp: 0 };
+      const revoked = {
+        data: { tokenClaims: { ...claims, jti: 'token-1' } },
+        disconnect: jest.fn(),
+      };
+      const active = {
+        data: { tokenClaims: { ...claims, jti: 'token-2' } },
+        disconnect: jest.fn(),
+      };
+      const fetchSockets = jest.fn().mockResolvedValue([revoked, active]);
+      const inSessionRoom = jest.fn(() => ({ fetchSockets }));
+      (gateway as unknown as { server: Server }).server = {
+        in: inSessionRoom,
+      } as unknown as Server;
+      sessionTokenService.isTokenActive.mockImplementation(
+        ({ jti }: { jti: string }) => Promise.resolve(jti === 'token-2'),
+      );
+
+      await gateway.disconnectRevokedSockets(mockSessionId);
+
+      expect(inSessionRoom).toHaveBeenCalledWith(`session:${mockSessionId}`);
+      expect(revoked.disconnect).toHaveBeenCalledWith(true);
+      expect(active.disconnect).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -26,13 +26,41 @@ import {
 import { Server, Socket } from 'socket.io';
 import { Logger, UseGuards, OnModuleInit } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { SessionService } from '../modules/session/services/session.service';
+import {
+  SessionService,
+  PresenceChange,
+} from '../modules/session/services/session.service';
+import { PresenceStatus } from '../modules/session/schemas/session.schema';
+import { SessionTokenService } from '../modules/session/services/session-token.service';
+import { SessionTokenClaims } from '../common/utils/session-token.util';
 import { RoomService } from '../modules/room/services/room.service';
+import {
+  Participant,
+  RoomDocument,
+  RoomStatus,
+} from '../modules/room/schemas/room.schema';
 import { MessageService } from '../modules/message/services/message.service';
-import { ContentType, ReactionType } from '../modules/message/schemas/message.schema';
+import {
+  ContentType,
+  ReactionType,
+  MessageTtlStart,
+} from '../modules/message/schemas/message.schema';
+import { ReportReason } from '../modules/moderation/schemas/report.schema';
 import { WsThrottlerGuard } from '../common/guards/ws-throttler.guard';
 import * as xss from 'xss';
 
+/**
+ * Per-socket state (client.data)
+ */
+interface ChatSocketData {
+  /** Session resolved by the handshake middleware */
+  sessionId: string;
+  /** Claims of the handshake token, rechecked when tokens are revoked */
+  tokenClaims: SessionTokenClaims;
+  /** User the socket joined a room as, so a kick can find it */
+  userId?: string;
+}
+
 /**
  * WebSocket event payloads
  */
@@ -47,7 +75,23 @@ interface LeaveRoomPayload {
 interface SendMessagePayload {
   roomId: string;
   content: string;
+  encrypted?: boolean;
   contentType?: ContentType;
+  replyTo?: string;
+  clientMessageId?: string;
+  attachmentId?: string;
+  ttlSeconds?: number;
+  ttlStart?: MessageTtlStart;
+}
+
+/**
+ * Acknowledgement returned to the sender of send_message
+ */
+interface SendMessageAck {
+  status: 'sent' | 'failed';
+  clientMessageId?: string;
+  messageId?: string;
+  error?: string;
 }
 
 interface TypingPayload {
@@ -65,6 +109,38 @@ interface DeleteMessagePayload {
   messageId: string;
 }
 
+interface EditMessagePayload {
+  messageId: string;
+  content: string;
+  encrypted?: boolean;
+}
+
+interface ReportMessagePayload {
+  messageId: string;
+  reason: ReportReason;
+  details?: string;
+}
+
+interface MarkReadPayload {
+  roomId: string;
+  messageId: string;
+}
+
+interface ExtendRoomPayload {
+  roomId: string;
+  hours: number;
+}
+
+interface KickParticipantPayload {
+  roomId: string;
+  userId: string;
+}
+
+interface SharePublicKeyPayload {
+  roomId: string;
+  publicKey: string;
+}
+
 /**
  * Chat Gateway
  * 
@@ -73,22 +149,46 @@ interface DeleteMessagePayload {
  * Client → Server Events:
  * - join_room: Join a chat room
  * - leave_room: Leave a chat room
- * - send_message: Send a message
+ * - send_message: Send a message (acknowledged with the stored messageId)
  * - typing: Typing indicator
  * - add_reaction: Add reaction to message
  * - remove_reaction: Remove reaction from message
+ * - edit_message: Edit a message
  * - delete_message: Delete a message
+ * - report_message: Report a message to moderation
+ * - mark_read: Mark messages as read up to a message
+ * - extend_room: Push back the room's expiry
+ * - kick_participant: Remove and ban a participant (host only)
+ * - share_public_key: Publish your key in an end-to-end encrypted room
+ * - heartbeat: Report user activity (keeps presence online)
  * 
  * Server → Client Events:
  * - new_message: New message received
  * - user_typing: Typing indicator update
+ * - message_edited: Message was edited
  * - message_deleted: Message was deleted
+ * - message_reported: Your report was recorded
  * - reaction_updated: Reaction was updated
+ * - messages_read: A participant's read cursor moved
+ * - message_timers_started: A read started disappearing message timers
+ * - message_expired: A disappearing message was deleted
+ * - messages_purged: An operator deleted every message in the room
  * - user_joined: User joined the room
  * - user_left: User left the room
- * - room_closed: Room was closed
+ * - room_expiry_extended: Room's expiry was pushed back
+ * - participant_kicked: The host removed a participant
+ * - kicked: You were removed from the room
+ * - public_key_shared: A participant published their encryption key
+ * - room_closed: Room was closed (including at expiry)
+ * - presence_changed: A participant went online, idle, away or offline
+ * - session_room_joined: Another tab of your session joined a room
+ * - session_room_left: Another tab of your session left a room
  * - error: Error occurred
  * 
+ * Every socket also joins its session's own Socket.io room, so one
+ * session can have the chat open in several tabs or devices: room joins,
+ * leaves and read state reach all of them.
+ *
  * @class ChatGateway
  */
 @WebSocketGateway({
@@ -112,6 +212,7 @@ export class ChatGateway
 
   constructor(
     private readonly sessionService: SessionService,
+    private readonly sessionTokenService: SessionTokenService,
     private readonly roomService: RoomService,
     private readonly messageService: MessageService,
     private readonly configService: ConfigService,
@@ -125,39 +226,65 @@ export class ChatGateway
    * Initializes the WebSocket gateway
    * 
    * @description Redis adapter is configured in main.ts via RedisIoAdapter
-   * for horizontal scaling support.
+   * for horizontal scaling support. Registers the handshake middleware that
+   * verifies the client's session token; rejected clients get a
+   * `connect_error` and never reach handleConnection. The claims are kept
+   * so the socket can be dropped if the token is revoked later.
    * 
-   * @param {Server} _server - Socket.io server instance (unused - adapter configured in main.ts)
+   * @param {Server} server - Socket.io server instance
    */
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  afterInit(_server: Server): void {
+  afterInit(server: Server): void {
+    server.use((client, next) => {
+      const token = this.extractToken(client);
+      if (!token) {
+        next(new Error('Session token required'));
+        return;
+      }
+
+      this.sessionTokenService
+        .verifyToken(token)
+        .then((claims) => {
+          const data = client.data as ChatSocketData;
+          data.sessionId = claims.sub;
+          data.tokenClaims = claims;
+          next();
+        })
+        .catch(() => next(new Error('Invalid session token')));
+    });
+
     this.logger.log('WebSocket Gateway initialized');
   }
 
   /**
    * Handles new WebSocket connections
    * 
-   * @description Authenticates the connection using session ID from handshake.
-   * Registers the socket with the session service.
+   * @description The handshake middleware has already resolved the session
+   * from its token. Registers the socket with the session service and
+   * joins it to its session's room.
    * 
    * @param {Socket} client - Connected socket
    */
   async handleConnection(client: Socket): Promise<void> {
     try {
-      const sessionId = this.extractSessionId(client);
+      const { sessionId } = client.data as Partial<ChatSocketData>;
 
       if (!sessionId) {
-        this.logger.warn(`Connection rejected: No session ID - ${client.id}`);
-        client.emit('error', { message: 'Session ID required' });
+        this.logger.warn(`Connection rejected: No session - ${client.id}`);
+        client.emit('error', { message: 'Session token required' });
         client.disconnect();
         return;
       }
 
       // Register socket with session
-      await this.sessionService.connectSocket(sessionId, client.id);
-
-      // Store session ID in socket data for later use
-      client.data.sessionId = sessionId;
+      const presenceChange = await this.sessionService.connectSocket(
+        sessionId,
+        client.id,
+      );
+      await client.join(this.sessionRoom(sessionId));
+
+      if (presenceChange) {
+        await this.broadcastPresenceChanged(presenceChange);
+      }
 
       this.logger.log(`Client connected: ${client.id} (Session: ${sessionId.slice(0, 8)}...)`);
     } catch (error) {
@@ -170,16 +297,25 @@ export class ChatGateway
   /**
    * Handles WebSocket disconnections
    * 
-   * @description Cleans up session state and notifies room participants.
+   * @description Cleans up session state. The session stays online while
+   * any of its other sockets are still connected.
    * 
    * @param {Socket} client - Disconnected socket
    */
   async handleDisconnect(client: Socket): Promise<void> {
     try {
-      const sessionId = await this.sessionService.disconnectSocket(client.id);
+      const disconnection = await this.sessionService.disconnectSocket(
+        client.id,
+      );
+
+      if (disconnection) {
+        this.logger.log(
+          `Client disconnected: ${client.id}${disconnection.isOnline ? ' (session still online)' : ''}`,
+        );
+      }
 
-      if (sessionId) {
-        this.logger.log(`Client disconnected: ${client.id}`);
+      if (disconnection?.presenceChange) {
+        await this.broadcastPresenceChanged(disconnection.presenceChange);
       }
     } catch (error) {
       this.logger.error(`Disconnect error: ${error.message}`);
@@ -190,6 +326,7 @@ export class ChatGateway
    * Handles room join requests
    * 
    * @description Joins the socket to a room and notifies other participants.
+   * The session's other sockets join the room too.
    * 
    * @event join_room
    * @param {JoinRoomPayload} payload - Room to join
@@ -202,7 +339,7 @@ export class ChatGateway
     @ConnectedSocket() client: Socket,
   ): Promise<void> {
     try {
-      const sessionId = client.data.sessionId || this.extractSessionId(client);
+      const { sessionId } = client.data as Partial<ChatSocketData>;
       const { roomId } = payload;
 
       this.logger.debug(`Join room: ${roomId} by ${sessionId}`);
@@ -229,8 +366,18 @@ export class ChatGateway
         return;
       }
 
-      // Join socket room
+      // Join socket room, remembering the user so a kick can find this socket
       await client.join(roomId);
+      (client.data as ChatSocketData).userId = userId;
+
+      // Bring the session's other tabs along
+      const sessionRoom = this.sessionRoom(sessionId);
+      this.server.in(sessionRoom).socketsJoin(roomId);
+      client.to(sessionRoom).emit('session_room_joined', {
+        roomId,
+        roomCode: room.roomCode,
+        timestamp: new Date().toISOString(),
+      });
 
       // Update session current room
       await this.sessionService.setCurrentRoom(sessionId, roomId);
@@ -241,22 +388,15 @@ export class ChatGateway
       });
 
       // Map participants for response
-      const activeParticipants = room.participants
-        .filter((p) => p.isActive)
-        .map((p) => ({
-          userId: p.userId,
-          displayName: p.displayName,
-          isActive: true,
-          isOnline: true,
-          joinedAt: p.joinedAt.toISOString(),
-          lastSeenAt: new Date().toISOString(),
-        }));
+      const activeParticipants = await this.mapActiveParticipants(room);
 
       // Emit room_joined to the joining client
       client.emit('room_joined', {
         roomId,
         userId,
         roomCode: room.roomCode,
+        expiresAt: room.expiresAt || null,
+        encrypted: !!room.encrypted,
         participants: activeParticipants,
         recentMessages: recentMessages.messages,
       });
@@ -268,8 +408,9 @@ export class ChatGateway
         participants: activeParticipants,
       });
 
-      // Also emit user_joined for notification purposes
-      client.to(roomId).emit('user_joined', {
+      // Also emit user_joined for notification purposes (not to our own tabs)
+      client.to(roomId).except(sessionRoom).emit('user_joined', {
+        roomId,
         userId,
         displayName: participant.displayName,
         timestamp: new Date().toISOString(),
@@ -296,7 +437,7 @@ export class ChatGateway
     @ConnectedSocket() client: Socket,
   ): Promise<void> {
     try {
-      const sessionId = client.data.sessionId;
+      const { sessionId } = client.data as ChatSocketData;
       const { roomId } = payload;
 
       this.logger.debug(`Leave room: ${roomId} by ${sessionId}`);
@@ -316,19 +457,13 @@ export class ChatGateway
       const updatedRoom = await this.roomService.leaveRoom(sessionId, roomId);
 
       // Get updated room participants (only active ones)
-      const activeParticipants = updatedRoom.participants
-        .filter((p) => p.isActive)
-        .map((p) => ({
-          userId: p.userId,
-          displayName: p.displayName,
-          isActive: true,
-          isOnline: true,
-          joinedAt: p.joinedAt.toISOString(),
-          lastSeenAt: new Date().toISOString(),
-        }));
+      const activeParticipants = await this.mapActiveParticipants(updatedRoom);
+
+      const sessionRoom = this.sessionRoom(sessionId);
 
       // Notify other participants about who left (before leaving socket room)
-      client.to(roomId).emit('user_left', {
+      client.to(roomId).except(sessionRoom).emit('user_left', {
+        roomId,
         userId,
         displayName,
         timestamp: new Date().toISOString(),
@@ -340,8 +475,17 @@ export class ChatGateway
         participants: activeParticipants,
       });
 
-      // Leave socket room AFTER broadcasting
-      await client.leave(roomId);
+      // The last one out closes the room; let any remaining sockets know
+      if (updatedRoom.status === RoomStatus.CLOSED) {
+        await this.broadcastRoomClosed(roomId, 'All participants left');
+      }
+
+      // Leave socket room AFTER broadcasting, taking the session's other tabs along
+      this.server.in(sessionRoom).socketsLeave(roomId);
+      client.to(sessionRoom).emit('session_room_left', {
+        roomId,
+        timestamp: new Date().toISOString(),
+      });
 
       this.logger.log(`User ${displayName} left room: ${roomId}`);
     } catch (error) {
@@ -354,31 +498,48 @@ export class ChatGateway
    * Handles incoming messages
    * 
    * @description Persists the message and broadcasts to room participants.
+   * The sender receives an acknowledgement with the server messageId.
+   * Retries carrying the same clientMessageId resolve to the stored
+   * message, so resending after a lost ack never creates duplicates.
+   * Ciphertext is passed through untouched; MessageService checks it.
    * 
    * @event send_message
    * @param {SendMessagePayload} payload - Message data
    * @param {Socket} client - Connected socket
+   * @returns {Promise<SendMessageAck>} Delivery acknowledgement
    */
   @UseGuards(WsThrottlerGuard)
   @SubscribeMessage('send_message')
   async handleSendMessage(
     @MessageBody() payload: SendMessagePayload,
     @ConnectedSocket() client: Socket,
-  ): Promise<void> {
+  ): Promise<SendMessageAck> {
+    const { clientMessageId } = payload;
+
     try {
       const sessionId = client.data.sessionId;
-      const { roomId, content, contentType } = payload;
+      const {
+        roomId,
+        content,
+        encrypted,
+        contentType,
+        replyTo,
+        attachmentId,
+        ttlSeconds,
+        ttlStart,
+      } = payload;
 
       // Sanitize message content to prevent XSS
-      const sanitizedContent = xss.filterXSS(content || '', {
-        whiteList: {},
-        stripIgnoreTag: true,
-        stripIgnoreTagBody: ['script', 'style'],
-      });
+      const sanitizedContent = this.sanitizeContent(content, encrypted);
 
-      if (!sanitizedContent.trim()) {
+      // Attachments may be sent without a caption
+      if (!sanitizedContent.trim() && !attachmentId) {
         client.emit('error', { message: 'Message content is required' });
-        return;
+        return {
+          status: 'failed',
+          clientMessageId,
+          error: 'Message content is required',
+        };
       }
 
       this.logger.debug(`Message to room: ${roomId}`);
@@ -387,16 +548,27 @@ export class ChatGateway
       const message = await this.messageService.sendMessage(sessionId, {
         roomId,
         content: sanitizedContent,
+        encrypted,
         contentType,
+        replyTo,
+        clientMessageId,
+        attachmentId,
+        ttlSeconds,
+        ttlStart,
       });
 
-      // Broadcast to room (including sender for confirmation)
+      // Broadcast to room (including sender for confirmation).
+      // Clients dedupe by messageId, so re-broadcasting a retry is harmless.
       this.server.to(roomId).emit('new_message', message);
 
       this.logger.debug(`Message broadcast to room: ${roomId}`);
+
+      return { status: 'sent', clientMessageId, messageId: message.messageId };
     } catch (error) {
-      this.logger.error(`Send message error: ${error.message}`);
-      client.emit('error', { message: error.message });
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Send message error: ${message}`);
+      client.emit('error', { message });
+      return { status: 'failed', clientMessageId, error: message };
     }
   }
 
@@ -417,7 +589,7 @@ export class ChatGateway
     @ConnectedSocket() client: Socket,
   ): Promise<void> {
     try {
-      const sessionId = client.data.sessionId;
+      const { sessionId } = client.data as ChatSocketData;
       const { roomId, isTyping } = payload;
 
       const userId = await this.sessionService.getUserId(sessionId);
@@ -426,15 +598,74 @@ export class ChatGateway
       const room = await this.roomService.getRoomById(roomId);
       const participant = room.participants.find((p) => p.userId === userId);
 
-      // Broadcast to others in room (not sender)
-      client.to(roomId).emit('user_typing', {
-        userId,
-        displayName: participant?.displayName || 'Unknown',
-        isTyping,
+      // Broadcast to others in room (not the sender's tabs)
+      client
+        .to(roomId)
+        .except(this.sessionRoom(sessionId))
+        .emit('user_typing', {
+          roomId,
+          userId,
+          displayName: participant?.displayName || 'Unknown',
+          isTyping,
+          timestamp: new Date().toISOString(),
+        });
+    } catch (error) {
+      this.logger.error(`Typing indicator error: ${error.message}`);
+    }
+  }
+
+  /**
+   * Handles message edits
+   *
+   * @description Sanitizes the new content (unless it is ciphertext), stores
+   * the previous version as a revision and broadcasts the edit to room
+   * participants.
+   *
+   * @event edit_message
+   * @param {EditMessagePayload} payload - Message to edit and its new content
+   * @param {Socket} client - Connected socket
+   */
+  @UseGuards(WsThrottlerGuard)
+  @SubscribeMessage('edit_message')
+  async handleEditMessage(
+    @MessageBody() payload: EditMessagePayload,
+    @ConnectedSocket() client: Socket,
+  ): Promise<void> {
+    try {
+      const { sessionId } = client.data as ChatSocketData;
+      const { messageId, content, encrypted } = payload;
+
+      // Sanitize message content to prevent XSS
+      const sanitizedContent = this.sanitizeContent(content, encrypted);
+
+      if (!sanitizedContent.trim()) {
+        client.emit('error', { message: 'Message content is required' });
+        return;
+      }
+
+      this.logger.debug(`Edit message: ${messageId}`);
+
+      // Edit message via service
+      const message = await this.messageService.editMessage(
+        sessionId,
+        messageId,
+        sanitizedContent,
+        encrypted,
+      );
+
+      // Broadcast to room
+      this.server.to(message.roomId).emit('message_edited', {
+        messageId: message.messageId,
+        content: message.content,
+        encrypted: message.encrypted,
+        editedAt: message.editedAt,
+        revisions: message.revisions,
         timestamp: new Date().toISOString(),
       });
     } catch (error) {
-      this.logger.error(`Typing indicator error: ${error.message}`);
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Edit message error: ${message}`);
+      client.emit('error', { message });
     }
   }
 
@@ -473,6 +704,247 @@ export class ChatGateway
     }
   }
 
+  /**
+   * Handles message reports
+   *
+   * @description Records the report for moderation. Only the reporter is
+   * told; the sender and the rest of the room never see reports.
+   *
+   * @event report_message
+   * @param {ReportMessagePayload} payload - Message, reason and optional details
+   * @param {Socket} client - Connected socket
+   */
+  @UseGuards(WsThrottlerGuard)
+  @SubscribeMessage('report_message')
+  async handleReportMessage(
+    @MessageBody() payload: ReportMessagePayload,
+    @ConnectedSocket() client: Socket,
+  ): Promise<void> {
+    try {
+      const { sessionId } = client.data as ChatSocketData;
+      const { messageId, reason, details } = payload;
+
+      this.logger.debug(`Report message: ${messageId}`);
+
+      const report = await this.messageService.reportMessage(
+        sessionId,
+        messageId,
+        { reason, details },
+      );
+
+      client.emit('message_reported', {
+        messageId: report.messageId,
+        reportId: report.reportId,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Report message error: ${message}`);
+      client.emit('error', { message });
+    }
+  }
+
+  /**
+   * Handles read receipts
+   *
+   * @description Advances the reader's cursor and notifies the other
+   * participants and the reader's other tabs. Nothing is broadcast if the
+   * cursor didn't move.
+   * Disappearing message timers the read started go to everyone.
+   *
+   * @event mark_read
+   * @param {MarkReadPayload} payload - Room and newest message seen
+   * @param {Socket} client - Connected socket
+   */
+  @UseGuards(WsThrottlerGuard)
+  @SubscribeMessage('mark_read')
+  async handleMarkRead(
+    @MessageBody() payload: MarkReadPayload,
+    @ConnectedSocket() client: Socket,
+  ): Promise<void> {
+    try {
+      const { sessionId } = client.data as ChatSocketData;
+      const { roomId, messageId } = payload;
+
+      const receipt = await this.messageService.markRead(
+        sessionId,
+        roomId,
+        messageId,
+      );
+
+      if (!receipt) {
+        return;
+      }
+
+      // Notify others in room and the reader's other tabs (not this socket)
+      client.to(roomId).to(this.sessionRoom(sessionId)).emit('messages_read', {
+        roomId,
+        userId: receipt.userId,
+        lastReadMessageId: receipt.lastReadMessageId,
+        readAt: receipt.readAt,
+        timestamp: new Date().toISOString(),
+      });
+
+      if (receipt.expiringMessages.length > 0) {
+        this.server.to(roomId).emit('message_timers_started', {
+          roomId,
+          messages: receipt.expiringMessages,
+          timestamp: new Date().toISOString(),
+        });
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Mark read error: ${message}`);
+      client.emit('error', { message });
+    }
+  }
+
+  /**
+   * Handles activity heartbeats
+   *
+   * @description Clients send these while the user is interacting with the
+   * page. They keep the session online; without them it goes idle and
+   * then away.
+   *
+   * @event heartbeat
+   * @param {Socket} client - Connected socket
+   */
+  @UseGuards(WsThrottlerGuard)
+  @SubscribeMessage('heartbeat')
+  async handleHeartbeat(@ConnectedSocket() client: Socket): Promise<void> {
+    try {
+      const { sessionId } = client.data as ChatSocketData;
+
+      const presenceChange =
+        await this.sessionService.recordActivity(sessionId);
+      if (presenceChange) {
+        await this.broadcastPresenceChanged(presenceChange);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Heartbeat error: ${message}`);
+    }
+  }
+
+  /**
+   * Handles room expiry extensions
+   *
+   * @event extend_room
+   * @param {ExtendRoomPayload} payload - Room and hours to add
+   * @param {Socket} client - Connected socket
+   */
+  @UseGuards(WsThrottlerGuard)
+  @SubscribeMessage('extend_room')
+  async handleExtendRoom(
+    @MessageBody() payload: ExtendRoomPayload,
+    @ConnectedSocket() client: Socket,
+  ): Promise<void> {
+    try {
+      const { sessionId } = client.data as ChatSocketData;
+      const { roomId, hours } = payload;
+
+      if (!Number.isInteger(hours) || hours < 1) {
+        client.emit('error', {
+          message: 'Extension must be a whole number of hours',
+        });
+        return;
+      }
+
+      const room = await this.roomService.extendRoomExpiry(
+        sessionId,
+        roomId,
+        hours,
+      );
+
+      // Broadcast to room (including the requester)
+      this.server.to(roomId).emit('room_expiry_extended', {
+        roomId,
+        expiresAt: room.expiresAt,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Extend room error: ${message}`);
+      client.emit('error', { message });
+    }
+  }
+
+  /**
+   * Handles the host removing a participant
+   *
+   * @event kick_participant
+   * @param {KickParticipantPayload} payload - Room and participant to remove
+   * @param {Socket} client - Connected socket
+   */
+  @UseGuards(WsThrottlerGuard)
+  @SubscribeMessage('kick_participant')
+  async handleKickParticipant(
+    @MessageBody() payload: KickParticipantPayload,
+    @ConnectedSocket() client: Socket,
+  ): Promise<void> {
+    try {
+      const { sessionId } = client.data as ChatSocketData;
+      const { roomId, userId } = payload;
+
+      if (!userId) {
+        client.emit('error', { message: 'Participant is required' });
+        return;
+      }
+
+      const { room, kicked } = await this.roomService.kickParticipant(
+        sessionId,
+        roomId,
+        userId,
+      );
+
+      await this.broadcastParticipantKicked(room, kicked);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Kick participant error: ${message}`);
+      client.emit('error', { message });
+    }
+  }
+
+  /**
+   * Handles public key sharing in end-to-end encrypted rooms
+   *
+   * @description Stores the key and relays it to everyone in the room,
+   * including the sender's other tabs. Clients that join later get it
+   * from the participant list.
+   *
+   * @event share_public_key
+   * @param {SharePublicKeyPayload} payload - Room and public key
+   * @param {Socket} client - Connected socket
+   */
+  @UseGuards(WsThrottlerGuard)
+  @SubscribeMessage('share_public_key')
+  async handleSharePublicKey(
+    @MessageBody() payload: SharePublicKeyPayload,
+    @ConnectedSocket() client: Socket,
+  ): Promise<void> {
+    try {
+      const { sessionId } = client.data as ChatSocketData;
+      const { roomId, publicKey } = payload;
+
+      const { participant } = await this.roomService.sharePublicKey(
+        sessionId,
+        roomId,
+        publicKey,
+      );
+
+      this.server.to(roomId).emit('public_key_shared', {
+        roomId,
+        userId: participant.userId,
+        publicKey,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Share public key error: ${message}`);
+      client.emit('error', { message });
+    }
+  }
+
   /**
    * Handles adding reactions
    * 
@@ -554,35 +1026,285 @@ export class ChatGateway
   }
 
   /**
-   * Extracts session ID from socket handshake
+   * Extracts the session token from socket handshake
    * 
    * @private
    * @param {Socket} client - Socket to extract from
-   * @returns {string | null} Session ID or null
+   * @returns {string | null} Session token or null
    */
-  private extractSessionId(client: Socket): string | null {
+  private extractToken(client: Socket): string | null {
     // Try auth object first
-    if (client.handshake.auth?.sessionId) {
-      return client.handshake.auth.sessionId;
+    if (typeof client.handshake.auth?.token === 'string') {
+      return client.handshake.auth.token;
     }
 
-    // Try query parameters
-    if (client.handshake.query?.sessionId) {
-      return client.handshake.query.sessionId as string;
+    // Try the Authorization header (non-browser clients)
+    const [scheme, token] = (
+      client.handshake.headers?.authorization || ''
+    ).split(' ');
+    if (scheme === 'Bearer' && token) {
+      return token;
     }
 
-    // Try headers
-    if (client.handshake.headers?.['x-session-id']) {
-      return client.handshake.headers['x-session-id'] as string;
+    return null;
+  }
+
+  /**
+   * Socket.io room holding every socket of a session
+   *
+   * @private
+   */
+  private sessionRoom(sessionId: string): string {
+    return `session:${sessionId}`;
+  }
+
+  /**
+   * Strips markup from message content
+   *
+   * @private
+   * @param {string} content - Raw content
+   * @param {boolean} [encrypted] - Ciphertext is returned unchanged
+   * @returns {string} Sanitized content
+   */
+  private sanitizeContent(content: string, encrypted?: boolean): string {
+    if (encrypted) {
+      return content || '';
     }
 
-    return null;
+    return xss.filterXSS(content || '', {
+      whiteList: {},
+      stripIgnoreTag: true,
+      stripIgnoreTagBody: ['script', 'style'],
+    });
+  }
+
+  /**
+   * Maps a room's active participants for participant list events
+   *
+   * @private
+   * @param {RoomDocument} room - Room to map
+   * @returns Active participants with presence fields
+   */
+  private async mapActiveParticipants(room: RoomDocument) {
+    const active = room.participants.filter((p) => p.isActive);
+    const presence = await this.sessionService.getUsersPresence(
+      active.map((p) => p.userId),
+    );
+
+    return active.map((p) => {
+      const userPresence = presence.get(p.userId);
+      const status = userPresence?.status ?? PresenceStatus.OFFLINE;
+
+      return {
+        userId: p.userId,
+        displayName: p.displayName,
+        role: p.role,
+        isActive: true,
+        isOnline: status !== PresenceStatus.OFFLINE,
+        presence: status,
+        joinedAt: p.joinedAt.toISOString(),
+        lastSeenAt: userPresence?.lastSeen.toISOString() ?? null,
+        lastReadMessageId: p.lastReadMessageId || null,
+        publicKey: p.publicKey || null,
+      };
+    });
+  }
+
+  /**
+   * Removes a kicked participant's sockets and tells the room
+   *
+   * @description Called after RoomService.kickParticipant, from the
+   * kick_participant event or the REST endpoint. Reaches every tab of the
+   * kicked user's sessions, and works across instances through the Redis
+   * adapter.
+   *
+   * @param {RoomDocument} room - Room after the participant was removed
+   * @param {Participant} kicked - Participant who was removed
+   */
+  async broadcastParticipantKicked(
+    room: RoomDocument,
+    kicked: Participant,
+  ): Promise<void> {
+    const roomId = room._id;
+    const timestamp = new Date().toISOString();
+
+    // Other tabs were joined for their session and may not know the user
+    const sockets = await this.server.in(roomId).fetchSockets();
+    const sessionRooms = new Set<string>();
+    for (const socket of sockets) {
+      const data = socket.data as ChatSocketData;
+      if (data.userId === kicked.userId) {
+        sessionRooms.add(this.sessionRoom(data.sessionId));
+      }
+    }
+
+    for (const sessionRoom of sessionRooms) {
+      this.server.to(sessionRoom).emit('kicked', { roomId, timestamp });
+      this.server.in(sessionRoom).socketsLeave(roomId);
+    }
+
+    this.server.to(roomId).emit('participant_kicked', {
+      roomId,
+      userId: kicked.userId,
+      displayName: kicked.displayName,
+      timestamp,
+    });
+
+    this.server.to(roomId).emit('participants_updated', {
+      roomId,
+      participants: await this.mapActiveParticipants(room),
+    });
+  }
+
+  /**
+   * Broadcasts a user's new presence to the rooms they are in
+   *
+   * @description Called when a socket connects or disconnects, on
+   * heartbeats, and by the presence processor when sessions go idle or
+   * away. The status sent is combined across all of the user's sessions.
+   *
+   * @param {PresenceChange} change - Session whose presence changed
+   */
+  async broadcastPresenceChanged(change: PresenceChange): Promise<void> {
+    if (!change.userId) return;
+
+    // Rooms the session's tabs are in, plus the one it was last in
+    const rooms = new Set<string>();
+    if (change.roomId) rooms.add(change.roomId);
+
+    const sessionRoom = this.sessionRoom(change.sessionId);
+    const sockets = await this.server.in(sessionRoom).fetchSockets();
+    for (const socket of sockets) {
+      for (const room of socket.rooms) {
+        if (room !== socket.id && room !== sessionRoom) rooms.add(room);
+      }
+    }
+
+    if (rooms.size === 0) return;
+
+    const presence = (
+      await this.sessionService.getUsersPresence([change.userId])
+    ).get(change.userId);
+
+    for (const roomId of rooms) {
+      this.server.to(roomId).emit('presence_changed', {
+        roomId,
+        userId: change.userId,
+        status: presence?.status ?? change.status,
+        lastSeenAt: (presence?.lastSeen ?? change.lastSeen).toISOString(),
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  /**
+   * Broadcasts that a disappearing message was deleted
+   *
+   * @description Called by the message-persistence processor once the
+   * message's timer runs out
+   *
+   * @param {string} roomId - Room the message was in
+   * @param {string} messageId - Deleted message
+   */
+  broadcastMessageExpired(roomId: string, messageId: string): void {
+    this.server.to(roomId).emit('message_expired', {
+      roomId,
+      messageId,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Tells a room that an operator purged its messages
+   *
+   * @param {string} roomId - Room that was purged
+   */
+  broadcastMessagesPurged(roomId: string): void {
+    this.server.to(roomId).emit('messages_purged', {
+      roomId,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Disconnects every socket of a session
+   *
+   * @description Called when erasure is requested, and again by the
+   * session-erasure processor before the session is erased. Works across
+   * instances through the Redis adapter.
+   *
+   * @param {string} sessionId - Session being erased
+   */
+  disconnectSession(sessionId: string): void {
+    this.server.in(this.sessionRoom(sessionId)).disconnectSockets(true);
+  }
+
+  /**
+   * Disconnects the sockets of a session whose token was revoked
+   *
+   * @description Tokens are only checked at the handshake, so revoking one
+   * has to drop the sockets it already opened. Sockets on other tokens of
+   * the session stay connected. Works across instances through the Redis
+   * adapter.
+   *
+   * @param {string} sessionId - Session whose tokens were revoked
+   * @returns {Promise<void>}
+   */
+  async disconnectRevokedSockets(sessionId: string): Promise<void> {
+    const sockets = await this.server
+      .in(this.sessionRoom(sessionId))
+      .fetchSockets();
+
+    for (const socket of sockets) {
+      const { tokenClaims } = socket.data as Partial<ChatSocketData>;
+      if (
+        !tokenClaims ||
+        !(await this.sessionTokenService.isTokenActive(tokenClaims))
+      ) {
+        socket.disconnect(true);
+      }
+    }
+  }
+
+  /**
+   * Tells a room that a participant's session was erased
+   *
+   * @description Clients replace the user's messages with tombstones and
+   * drop their reactions. The participant list is refreshed when the user
+   * was still listed in the room.
+   *
+   * @param {string} roomId - Room the user wrote or reacted in
+   * @param {string} userId - Erased user
+   * @param {string} displayName - Name now shown in place of theirs
+   * @param {RoomDocument | null} room - Room after the user was anonymized, if they were a participant
+   */
+  async broadcastParticipantErased(
+    roomId: string,
+    userId: string,
+    displayName: string,
+    room: RoomDocument | null,
+  ): Promise<void> {
+    this.server.to(roomId).emit('participant_erased', {
+      roomId,
+      userId,
+      displayName,
+      timestamp: new Date().toISOString(),
+    });
+
+    if (room) {
+      this.server.to(roomId).emit('participants_updated', {
+        roomId,
+        participants: await this.mapActiveParticipants(room),
+      });
+    }
   }
 
   /**
    * Broadcasts room closure to all participants
    * 
-   * @description Called when both users have left the room
+   * @description Called when every participant has left the room, by
+   * the room-lifecycle processor when the room expires, and when
+   * moderation or an operator closes it
    * 
    * @param {string} roomId - Room that was closed
    * @param {string} reason - Reason for closure
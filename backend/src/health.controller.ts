@@ -6,7 +6,9 @@
  */
 
 import { Controller, Get } from '@nestjs/common';
+import { Public } from './common/decorators/session.decorator';
 
+@Public()
 @Controller('health')
 export class HealthController {
   /**
@@ -0,0 +1,29 @@
+/**
+ * @fileoverview Admin Module
+ * @description Configures the operator admin API
+ * @module modules/admin
+ */
+
+import { Module } from '@nestjs/common';
+import { AdminController } from './controllers/admin.controller';
+import { AdminService } from './services/admin.service';
+import { OperatorApiKeyGuard } from './guards/operator-api-key.guard';
+import { RoomModule } from '../room/room.module';
+import { MessageModule } from '../message/message.module';
+import { ChatGatewayModule } from '../../gateways/chat-gateway.module';
+
+/**
+ * Admin Module
+ *
+ * @description Provides the operator admin API:
+ * - Controller for room listing, inspection, closing and purging
+ * - Operator API key guard, separate from session tokens
+ * - RoomModule and MessageModule for data access
+ * - ChatGateway for notifying connected clients
+ */
+@Module({
+  imports: [RoomModule, MessageModule, ChatGatewayModule],
+  controllers: [AdminController],
+  providers: [AdminService, OperatorApiKeyGuard],
+})
+export class AdminModule {}
@@ -0,0 +1,207 @@
+/**
+ * @fileoverview Admin Controller
+ * @description REST API endpoints for instance operators
+ * @module modules/admin/controllers/admin
+ *
+ * Design Pattern: Controller Pattern
+ * - Handles HTTP requests and responses
+ * - Validates input using DTOs
+ * - Delegates business logic to service layer
+ * - Tells connected clients about closures and purges
+ */
+
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Param,
+  Body,
+  Query,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  UseGuards,
+} from '@nestjs/common';
+import { AdminService } from '../services/admin.service';
+import { ChatGateway } from '../../../gateways/chat.gateway';
+import { OperatorApiKeyGuard } from '../guards/operator-api-key.guard';
+import { Public } from '../../../common/decorators/session.decorator';
+import {
+  ListRoomsQueryDto,
+  CloseRoomDto,
+  AdminRoomDetailDto,
+  PaginatedRoomsResponseDto,
+  AdminStatsResponseDto,
+  PurgeMessagesResponseDto,
+} from '../dto/admin.dto';
+
+/**
+ * Admin Controller
+ *
+ * @description Exposes REST API endpoints for operators:
+ * - GET /admin/stats - Count active rooms
+ * - GET /admin/rooms - List rooms with filters
+ * - GET /admin/rooms/:roomId - Get room details with message counts
+ * - POST /admin/rooms/:roomId/close - Force-close a room
+ * - DELETE /admin/rooms/:roomId/messages - Permanently delete a room's messages
+ *
+ * Requests authenticate with an operator API key in the `X-Operator-Key`
+ * header instead of a session token.
+ *
+ * @class AdminController
+ */
+@Controller('admin')
+@Public()
+@UseGuards(OperatorApiKeyGuard)
+export class AdminController {
+  private readonly logger = new Logger(AdminController.name);
+
+  constructor(
+    private readonly adminService: AdminService,
+    private readonly chatGateway: ChatGateway,
+  ) {}
+
+  /**
+   * Gets instance-wide counts
+   *
+   * @route GET /admin/stats
+   * @returns {Promise<AdminStatsResponseDto>} Active room count
+   *
+   * @example
+   * // Request
+   * GET /api/v1/admin/stats
+   * Headers: { "X-Operator-Key": "<operator-key>" }
+   *
+   * // Response 200
+   * { "activeRooms": 12 }
+   */
+  @Get('stats')
+  async getStats(): Promise<AdminStatsResponseDto> {
+    return this.adminService.getStats();
+  }
+
+  /**
+   * Lists rooms, newest first
+   *
+   * @route GET /admin/rooms
+   * @param {ListRoomsQueryDto} query - Filters and cursor
+   * @returns {Promise<PaginatedRoomsResponseDto>} Page of rooms
+   *
+   * @example
+   * // Request
+   * GET /api/v1/admin/rooms?status=active&minParticipants=2&limit=20
+   * Headers: { "X-Operator-Key": "<operator-key>" }
+   *
+   * // Response 200
+   * {
+   *   "rooms": [
+   *     {
+   *       "roomId": "019123ab-cdef-7000-8000-000000000001",
+   *       "roomCode": "ABC123",
+   *       "status": "active",
+   *       "participantCount": 3,
+   *       ...
+   *     }
+   *   ],
+   *   "pagination": { "hasMore": true, "nextCursor": "019123ab-..." }
+   * }
+   */
+  @Get('rooms')
+  async listRooms(
+    @Query() query: ListRoomsQueryDto,
+  ): Promise<PaginatedRoomsResponseDto> {
+    return this.adminService.listRooms(query);
+  }
+
+  /**
+   * Gets a room with its participants and message counts
+   *
+   * @route GET /admin/rooms/:roomId
+   * @param {string} roomId - Room UUID from URL parameter
+   * @returns {Promise<AdminRoomDetailDto>} Room details
+   *
+   * @example
+   * // Request
+   * GET /api/v1/admin/rooms/xxx
+   * Headers: { "X-Operator-Key": "<operator-key>" }
+   *
+   * // Response 200
+   * {
+   *   "roomId": "019123ab-cdef-7000-8000-000000000001",
+   *   "participants": [...],
+   *   "bannedUserCount": 0,
+   *   "messages": { "total": 42, "deleted": 3, "flagged": 1, "withAttachments": 5 },
+   *   ...
+   * }
+   */
+  @Get('rooms/:roomId')
+  async getRoom(@Param('roomId') roomId: string): Promise<AdminRoomDetailDto> {
+    return this.adminService.getRoomDetail(roomId);
+  }
+
+  /**
+   * Force-closes a room and disconnects its participants
+   *
+   * @route POST /admin/rooms/:roomId/close
+   * @param {string} roomId - Room UUID from URL parameter
+   * @param {CloseRoomDto} dto - Reason shown to participants
+   * @returns {Promise<AdminRoomDetailDto>} Closed room details
+   *
+   * @example
+   * // Request
+   * POST /api/v1/admin/rooms/xxx/close
+   * Headers: { "X-Operator-Key": "<operator-key>" }
+   * Body: { "reason": "Closed following a support request" }
+   */
+  @Post('rooms/:roomId/close')
+  @HttpCode(HttpStatus.OK)
+  async closeRoom(
+    @Param('roomId') roomId: string,
+    @Body() dto: CloseRoomDto,
+  ): Promise<AdminRoomDetailDto> {
+    this.logger.log(`Operator closing room ${roomId}`);
+
+    await this.adminService.closeRoom(roomId);
+    await this.chatGateway.broadcastRoomClosed(
+      roomId,
+      dto.reason || 'Closed by an operator',
+    );
+
+    return this.adminService.getRoomDetail(roomId);
+  }
+
+  /**
+   * Permanently deletes every message and attachment in a room
+   *
+   * @route DELETE /admin/rooms/:roomId/messages
+   * @param {string} roomId - Room UUID from URL parameter
+   * @returns {Promise<PurgeMessagesResponseDto>} What was removed
+   *
+   * @example
+   * // Request
+   * DELETE /api/v1/admin/rooms/xxx/messages
+   * Headers: { "X-Operator-Key": "<operator-key>" }
+   *
+   * // Response 200
+   * {
+   *   "roomId": "019123ab-cdef-7000-8000-000000000001",
+   *   "messagesDeleted": 42,
+   *   "attachmentsDeleted": 5
+   * }
+   */
+  @Delete('rooms/:roomId/messages')
+  @HttpCode(HttpStatus.OK)
+  async purgeMessages(
+    @Param('roomId') roomId: string,
+  ): Promise<PurgeMessagesResponseDto> {
+    this.logger.log(`Operator purging messages in room ${roomId}`);
+
+    const result = await this.adminService.purgeMessages(roomId);
+
+    // Clear the history shown in open clients
+    this.chatGateway.broadcastMessagesPurged(roomId);
+
+    return result;
+  }
+}
@@ -0,0 +1,241 @@
+/**
+ * @fileoverview Admin DTOs (Data Transfer Objects)
+ * @description Request and response DTOs for the operator admin API
+ * @module modules/admin/dto
+ *
+ * Design Pattern: DTO Pattern
+ * - Validates incoming request data using class-validator
+ * - Transforms data with class-transformer
+ * - Separates API contracts from internal domain models
+ */
+
+import {
+  IsDate,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { ParticipantRole, RoomStatus } from '../../room/schemas/room.schema';
+import { RoomMessageStats } from '../../message/repositories/message.repository';
+
+/**
+ * List Rooms Query DTO
+ *
+ * @description Validates the filters and cursor for listing rooms
+ *
+ * @example
+ * GET /admin/rooms?status=active&minParticipants=2&createdAfter=2025-01-01T00:00:00Z&limit=50
+ */
+export class ListRoomsQueryDto {
+  /**
+   * Only rooms with this status
+   */
+  @IsOptional()
+  @IsEnum(RoomStatus, { message: 'Status must be "active" or "closed"' })
+  status?: RoomStatus;
+
+  /**
+   * Only rooms created at or after this time (ISO 8601)
+   */
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate({ message: 'createdAfter must be a date' })
+  createdAfter?: Date;
+
+  /**
+   * Only rooms created at or before this time (ISO 8601)
+   */
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate({ message: 'createdBefore must be a date' })
+  createdBefore?: Date;
+
+  /**
+   * Only rooms with at least this many participants still in them
+   */
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  minParticipants?: number;
+
+  /**
+   * Only rooms with at most this many participants still in them
+   */
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  maxParticipants?: number;
+
+  /**
+   * Maximum number of rooms to return
+   * @default 50
+   */
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1, { message: 'Limit must be at least 1' })
+  @Max(100, { message: 'Limit cannot exceed 100' })
+  limit?: number = 50;
+
+  /**
+   * Cursor for pagination (room ID to fetch before)
+   */
+  @IsOptional()
+  @IsString()
+  before?: string;
+}
+
+/**
+ * Force Close Room Request DTO
+ *
+ * @description Validates the request to close a room as an operator
+ *
+ * @example
+ * {
+ *   "reason": "Closed following a support request"
+ * }
+ */
+export class CloseRoomDto {
+  /**
+   * Reason shown to participants
+   * @default "Closed by an operator"
+   */
+  @IsOptional()
+  @IsString()
+  @MaxLength(200, { message: 'Reason cannot exceed 200 characters' })
+  @Transform(({ value }: { value: unknown }) =>
+    typeof value === 'string' ? value.trim() : value,
+  )
+  reason?: string;
+}
+
+/**
+ * Admin Room Summary DTO
+ *
+ * @description A room in the admin listing. Passphrase hashes and
+ * invite tokens are never included.
+ */
+export class AdminRoomSummaryDto {
+  /**
+   * Unique room identifier (UUID v7)
+   */
+  roomId: string;
+
+  /**
+   * Shareable room code
+   */
+  roomCode: string;
+
+  /**
+   * Room status (active/closed)
+   */
+  status: RoomStatus;
+
+  /**
+   * Participants still in the room
+   */
+  participantCount: number;
+
+  /**
+   * Maximum number of participants the room allows
+   */
+  maxParticipants: number;
+
+  /**
+   * Whether newcomers need a passphrase or invite to join
+   */
+  hasPassphrase: boolean;
+
+  /**
+   * Whether messages are end-to-end encrypted
+   */
+  encrypted: boolean;
+
+  /**
+   * Room creation timestamp
+   */
+  createdAt: Date;
+
+  /**
+   * Room closure timestamp (null while active)
+   */
+  closedAt: Date | null;
+
+  /**
+   * When the room closes on its own (null if it never expires)
+   */
+  expiresAt: Date | null;
+}
+
+/**
+ * Admin Room Participant DTO
+ */
+export class AdminParticipantDto {
+  userId: string;
+  displayName: string;
+  role: ParticipantRole;
+  isActive: boolean;
+  joinedAt: Date;
+  leftAt: Date | null;
+}
+
+/**
+ * Admin Room Detail DTO
+ *
+ * @description A room with everyone who has been in it, bans and
+ * message counts
+ */
+export class AdminRoomDetailDto extends AdminRoomSummaryDto {
+  /**
+   * Everyone who has joined, including those who left
+   */
+  participants: AdminParticipantDto[];
+
+  /**
+   * Number of banned users
+   */
+  bannedUserCount: number;
+
+  /**
+   * Message counts (total, deleted, flagged by moderation, with attachments)
+   */
+  messages: RoomMessageStats;
+}
+
+/**
+ * Paginated Rooms Response DTO
+ */
+export class PaginatedRoomsResponseDto {
+  rooms: AdminRoomSummaryDto[];
+
+  pagination: {
+    hasMore: boolean;
+    nextCursor?: string;
+  };
+}
+
+/**
+ * Admin Stats Response DTO
+ */
+export class AdminStatsResponseDto {
+  /**
+   * Rooms that are open right now
+   */
+  activeRooms: number;
+}
+
+/**
+ * Purge Messages Response DTO
+ */
+export class PurgeMessagesResponseDto {
+  roomId: string;
+  messagesDeleted: number;
+  attachmentsDeleted: number;
+}
@@ -0,0 +1,6 @@
+/**
+ * @fileoverview Admin DTO Barrel Export
+ * @module modules/admin/dto
+ */
+
+export * from './admin.dto';
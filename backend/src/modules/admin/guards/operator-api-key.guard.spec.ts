@@ -0,0 +1,82 @@
+/**
+ * @fileoverview Operator API Key Guard Unit Tests
+ * @description Tests for operator key verification on admin API requests
+ */
+
+import { ExecutionContext } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { OperatorApiKeyGuard } from './operator-api-key.guard';
+import { InvalidOperatorKeyException } from '../../../common/exceptions/business.exceptions';
+
+describe('OperatorApiKeyGuard', () => {
+  const currentKey = 'a'.repeat(32);
+  const previousKey = 'b'.repeat(40);
+
+  const createGuard = (keys: string): OperatorApiKeyGuard => {
+    const configService = {
+      get: jest.fn((key: string, fallback: unknown) =>
+        key === 'ADMIN_API_KEYS' ? keys : fallback,
+      ),
+    };
+    const guard = new OperatorApiKeyGuard(
+      configService as unknown as ConfigService,
+    );
+    guard.onModuleInit();
+    return guard;
+  };
+
+  const createContext = (headers: Record<string, string>): ExecutionContext =>
+    ({
+      switchToHttp: () => ({
+        getRequest: () => ({ headers, method: 'GET', url: '/admin/stats' }),
+      }),
+    }) as unknown as ExecutionContext;
+
+  it('should accept any configured key', () => {
+    const guard = createGuard(`${currentKey}, ${previousKey}`);
+
+    expect(
+      guard.canActivate(createContext({ 'x-operator-key': currentKey })),
+    ).toBe(true);
+    expect(
+      guard.canActivate(createContext({ 'x-operator-key': previousKey })),
+    ).toBe(true);
+  });
+
+  it('should reject a missing or unknown key', () => {
+    const guard = createGuard(currentKey);
+
+    expect(() => guard.canActivate(createContext({}))).toThrow(
+      InvalidOperatorKeyException,
+    );
+    expect(() =>
+      guard.canActivate(createContext({ 'x-operator-key': 'c'.repeat(32) })),
+    ).toThrow(InvalidOperatorKeyException);
+  });
+
+  it('should not accept a session token in place of a key', () => {
+    const guard = createGuard(currentKey);
+
+    expect(() =>
+      guard.canActivate(
+        createContext({ authorization: `Bearer ${currentKey}` }),
+      ),
+    ).toThrow(InvalidOperatorKeyException);
+  });
+
+  it('should ignore keys that are too short', () => {
+    const guard = createGuard(`short-key,${currentKey}`);
+
+    expect(() =>
+      guard.canActivate(createContext({ 'x-operator-key': 'short-key' })),
+    ).toThrow(InvalidOperatorKeyException);
+  });
+
+  it('should refuse every request when no keys are configured', () => {
+    const guard = createGuard('');
+
+    expect(() =>
+      guard.canActivate(createContext({ 'x-operator-key': '' })),
+    ).toThrow('The admin API is not enabled');
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * @fileoverview Operator API Key Guard
+ * @description Verifies the operator API key on admin API requests
+ * @module modules/admin/guards/operator-api-key
+ */
+
+import {
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  Logger,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash, timingSafeEqual } from 'crypto';
+import { Request } from 'express';
+import { InvalidOperatorKeyException } from '../../../common/exceptions/business.exceptions';
+
+/**
+ * Header carrying the operator API key
+ */
+export const OPERATOR_KEY_HEADER = 'x-operator-key';
+
+/**
+ * Shortest key accepted from ADMIN_API_KEYS
+ */
+const MIN_KEY_LENGTH = 32;
+
+/**
+ * Operator API Key Guard
+ *
+ * @description Protects the admin API, separately from session tokens.
+ * Reads the `X-Operator-Key` header and compares it in constant time
+ * against each key in ADMIN_API_KEYS (comma-separated, so keys can be
+ * rotated without downtime). Without any configured keys every request
+ * is refused.
+ *
+ * @class OperatorApiKeyGuard
+ */
+@Injectable()
+export class OperatorApiKeyGuard implements CanActivate, OnModuleInit {
+  private readonly logger = new Logger(OperatorApiKeyGuard.name);
+
+  // SHA-256 digests, so every comparison has the same length
+  private keyDigests: Buffer[] = [];
+
+  constructor(private readonly configService: ConfigService) {}
+
+  onModuleInit(): void {
+    const keys = this.configService
+      .get<string>('ADMIN_API_KEYS', '')
+      .split(',')
+      .map((key) => key.trim())
+      .filter((key) => key.length > 0);
+
+    const accepted = keys.filter((key) => key.length >= MIN_KEY_LENGTH);
+    if (accepted.length < keys.length) {
+      this.logger.warn(
+        `Ignoring ${keys.length - accepted.length} admin API key(s) shorter than ${MIN_KEY_LENGTH} characters`,
+      );
+    }
+    if (accepted.length === 0) {
+      this.logger.warn('No ADMIN_API_KEYS configured; the admin API is off');
+    }
+
+    this.keyDigests = accepted.map((key) => this.digest(key));
+  }
+
+  canActivate(context: ExecutionContext): boolean {
+    if (this.keyDigests.length === 0) {
+      throw new InvalidOperatorKeyException('The admin API is not enabled');
+    }
+
+    const request = context.switchToHttp().getRequest<Request>();
+    const key = request.headers[OPERATOR_KEY_HEADER];
+    if (typeof key !== 'string' || !key) {
+      throw new InvalidOperatorKeyException();
+    }
+
+    const digest = this.digest(key);
+    // Check every key so timing doesn't reveal which one matched
+    let matched = false;
+    for (const expected of this.keyDigests) {
+      matched = timingSafeEqual(digest, expected) || matched;
+    }
+
+    if (!matched) {
+      this.logger.warn(
+        `Rejected admin API request with an unknown key: ${request.method} ${request.url}`,
+      );
+      throw new InvalidOperatorKeyException();
+    }
+
+    return true;
+  }
+
+  private digest(key: string): Buffer {
+    return createHash('sha256').update(key).digest();
+  }
+}
@@ -0,0 +1,184 @@
+/**
+ * @fileoverview Admin Service Unit Tests
+ * @description Tests for the operator room listing, closing and purging
+ */
+
+import { AdminService } from './admin.service';
+import { RoomRepository } from '../../room/repositories/room.repository';
+import { RoomService } from '../../room/services/room.service';
+import { MessageService } from '../../message/services/message.service';
+import { ParticipantRole, RoomStatus } from '../../room/schemas/room.schema';
+import {
+  RoomClosedException,
+  RoomNotFoundException,
+} from '../../../common/exceptions/business.exceptions';
+
+describe('AdminService', () => {
+  let service: AdminService;
+  let roomRepository: {
+    countActiveRooms: jest.Mock;
+    listRooms: jest.Mock;
+    findById: jest.Mock;
+  };
+  let roomService: { forceCloseRoom: jest.Mock };
+  let messageService: {
+    getRoomMessageStats: jest.Mock;
+    purgeRoomMessages: jest.Mock;
+  };
+
+  const mockRoom = {
+    _id: 'room-123',
+    roomCode: 'ABC123',
+    status: RoomStatus.ACTIVE,
+    participants: [
+      {
+        userId: 'user-123',
+        displayName: 'Host',
+        role: ParticipantRole.HOST,
+        isActive: true,
+        joinedAt: new Date(),
+        leftAt: null,
+      },
+      {
+        userId: 'user-456',
+        displayName: 'Guest',
+        role: ParticipantRole.MEMBER,
+        isActive: false,
+        joinedAt: new Date(),
+        leftAt: new Date(),
+      },
+    ],
+    maxParticipants: 50,
+    passphraseHash: 'scrypt$hash',
+    encrypted: false,
+    bannedUserIds: ['user-789'],
+    createdAt: new Date(),
+    closedAt: null,
+    expiresAt: null,
+  };
+
+  const messageStats = {
+    total: 10,
+    deleted: 2,
+    flagged: 1,
+    withAttachments: 3,
+  };
+
+  beforeEach(() => {
+    roomRepository = {
+      countActiveRooms: jest.fn().mockResolvedValue(4),
+      listRooms: jest
+        .fn()
+        .mockResolvedValue({ items: [mockRoom], hasMore: false }),
+      findById: jest.fn().mockResolvedValue(mockRoom),
+    };
+    roomService = {
+      forceCloseRoom: jest
+        .fn()
+        .mockResolvedValue({ ...mockRoom, status: RoomStatus.CLOSED }),
+    };
+    messageService = {
+      getRoomMessageStats: jest.fn().mockResolvedValue(messageStats),
+      purgeRoomMessages: jest
+        .fn()
+        .mockResolvedValue({ messagesDeleted: 10, attachmentsDeleted: 3 }),
+    };
+
+    service = new AdminService(
+      roomRepository as unknown as RoomRepository,
+      roomService as unknown as RoomService,
+      messageService as unknown as MessageService,
+    );
+  });
+
+  it('should count active rooms', async () => {
+    await expect(service.getStats()).resolves.toEqual({ activeRooms: 4 });
+  });
+
+  describe('listRooms', () => {
+    it('should pass the filters on and summarize each room', async () => {
+      const createdAfter = new Date('2025-01-01T00:00:00Z');
+
+      const result = await service.listRooms({
+        status: RoomStatus.ACTIVE,
+        createdAfter,
+        minParticipants: 1,
+        limit: 20,
+      });
+
+      expect(roomRepository.listRooms).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: RoomStatus.ACTIVE,
+          createdAfter,
+          minParticipants: 1,
+        }),
+        20,
+        undefined,
+      );
+      expect(result.rooms[0]).toMatchObject({
+        roomId: 'room-123',
+        participantCount: 1,
+        hasPassphrase: true,
+      });
+      expect(result.rooms[0]).not.toHaveProperty('passphraseHash');
+      expect(result.pagination).toEqual({
+        hasMore: false,
+        nextCursor: undefined,
+      });
+    });
+  });
+
+  describe('getRoomDetail', () => {
+    it('should include participants, bans and message counts', async () => {
+      const result = await service.getRoomDetail('room-123');
+
+      expect(result.participants).toHaveLength(2);
+      expect(result.bannedUserCount).toBe(1);
+      expect(result.messages).toEqual(messageStats);
+    });
+
+    it('should throw when the room does not exist', async () => {
+      roomRepository.findById.mockResolvedValue(null);
+
+      await expect(service.getRoomDetail('missing')).rejects.toThrow(
+        RoomNotFoundException,
+      );
+    });
+  });
+
+  describe('closeRoom', () => {
+    it('should force-close the room', async () => {
+      const result = await service.closeRoom('room-123');
+
+      expect(roomService.forceCloseRoom).toHaveBeenCalledWith('room-123');
+      expect(result.status).toBe(RoomStatus.CLOSED);
+    });
+
+    it('should throw when the room is already closed', async () => {
+      roomService.forceCloseRoom.mockResolvedValue(null);
+
+      await expect(service.closeRoom('room-123')).rejects.toThrow(
+        RoomClosedException,
+      );
+    });
+  });
+
+  describe('purgeMessages', () => {
+    it('should delete the room messages', async () => {
+      await expect(service.purgeMessages('room-123')).resolves.toEqual({
+        roomId: 'room-123',
+        messagesDeleted: 10,
+        attachmentsDeleted: 3,
+      });
+    });
+
+    it('should not purge a room that does not exist', async () => {
+      roomRepository.findById.mockResolvedValue(null);
+
+      await expect(service.purgeMessages('missing')).rejects.toThrow(
+        RoomNotFoundException,
+      );
+      expect(messageService.purgeRoomMessages).not.toHaveBeenCalled();
+    });
+  });
+});
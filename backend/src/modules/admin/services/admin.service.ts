@@ -0,0 +1,192 @@
+/**
+ * @fileoverview Admin Service
+ * @description Business logic for the operator admin API
+ * @module modules/admin/services/admin
+ *
+ * Design Pattern: Service Layer Pattern
+ * - Looks up rooms for support requests without a database shell
+ * - Delegates closing and purging to the room and message services
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import { RoomRepository } from '../../room/repositories/room.repository';
+import { RoomService } from '../../room/services/room.service';
+import { MessageService } from '../../message/services/message.service';
+import { RoomDocument, RoomStatus } from '../../room/schemas/room.schema';
+import {
+  ListRoomsQueryDto,
+  AdminRoomSummaryDto,
+  AdminRoomDetailDto,
+  PaginatedRoomsResponseDto,
+  AdminStatsResponseDto,
+  PurgeMessagesResponseDto,
+} from '../dto/admin.dto';
+import {
+  RoomNotFoundException,
+  RoomClosedException,
+} from '../../../common/exceptions/business.exceptions';
+
+/**
+ * Admin Service
+ *
+ * @description Handles operator requests:
+ * - Counting active rooms
+ * - Listing rooms by status, creation time and participant count
+ * - Room details with message counts
+ * - Force-closing a room
+ * - Permanently deleting a room's messages
+ *
+ * Callers are responsible for telling connected clients about closures
+ * and purges.
+ *
+ * @class AdminService
+ */
+@Injectable()
+export class AdminService {
+  private readonly logger = new Logger(AdminService.name);
+
+  constructor(
+    private readonly roomRepository: RoomRepository,
+    private readonly roomService: RoomService,
+    private readonly messageService: MessageService,
+  ) {}
+
+  /**
+   * Gets instance-wide counts
+   *
+   * @returns {Promise<AdminStatsResponseDto>} Active room count
+   */
+  async getStats(): Promise<AdminStatsResponseDto> {
+    return { activeRooms: await this.roomRepository.countActiveRooms() };
+  }
+
+  /**
+   * Lists rooms, newest first
+   *
+   * @param {ListRoomsQueryDto} query - Filters and cursor
+   * @returns {Promise<PaginatedRoomsResponseDto>} Page of rooms
+   */
+  async listRooms(
+    query: ListRoomsQueryDto,
+  ): Promise<PaginatedRoomsResponseDto> {
+    const page = await this.roomRepository.listRooms(
+      {
+        status: query.status,
+        createdAfter: query.createdAfter,
+        createdBefore: query.createdBefore,
+        minParticipants: query.minParticipants,
+        maxParticipants: query.maxParticipants,
+      },
+      query.limit || 50,
+      query.before,
+    );
+
+    return {
+      rooms: page.items.map((room) => this.mapToSummary(room)),
+      pagination: {
+        hasMore: page.hasMore,
+        nextCursor: page.nextCursor,
+      },
+    };
+  }
+
+  /**
+   * Gets a room with its participants and message counts
+   *
+   * @param {string} roomId - Room UUID
+   * @returns {Promise<AdminRoomDetailDto>} Room details
+   * @throws {RoomNotFoundException} If the room doesn't exist
+   */
+  async getRoomDetail(roomId: string): Promise<AdminRoomDetailDto> {
+    const room = await this.findRoom(roomId);
+    const messages = await this.messageService.getRoomMessageStats(roomId);
+
+    return {
+      ...this.mapToSummary(room),
+      participants: room.participants.map((p) => ({
+        userId: p.userId,
+        displayName: p.displayName,
+        role: p.role!,
+        isActive: p.isActive,
+        joinedAt: p.joinedAt,
+        leftAt: p.leftAt,
+      })),
+      bannedUserCount: room.bannedUserIds?.length || 0,
+      messages,
+    };
+  }
+
+  /**
+   * Closes an active room
+   *
+   * @param {string} roomId - Room UUID
+   * @returns {Promise<RoomDocument>} Closed room
+   * @throws {RoomNotFoundException} If the room doesn't exist
+   * @throws {RoomClosedException} If the room is already closed
+   */
+  async closeRoom(roomId: string): Promise<RoomDocument> {
+    const room = await this.findRoom(roomId);
+    const closedRoom = await this.roomService.forceCloseRoom(roomId);
+
+    // Closed since it was read
+    if (!closedRoom) {
+      throw new RoomClosedException(room.roomCode);
+    }
+
+    this.logger.warn(`Operator closed room ${room.roomCode} (${roomId})`);
+    return closedRoom;
+  }
+
+  /**
+   * Permanently deletes every message in a room
+   *
+   * @param {string} roomId - Room UUID
+   * @returns {Promise<PurgeMessagesResponseDto>} What was removed
+   * @throws {RoomNotFoundException} If the room doesn't exist
+   */
+  async purgeMessages(roomId: string): Promise<PurgeMessagesResponseDto> {
+    const room = await this.findRoom(roomId);
+    const result = await this.messageService.purgeRoomMessages(roomId);
+
+    this.logger.warn(`Operator purged messages in room ${room.roomCode}`);
+    return { roomId, ...result };
+  }
+
+  /**
+   * Finds a room whatever its status
+   *
+   * @private
+   * @param {string} roomId - Room UUID
+   * @returns {Promise<RoomDocument>} Room
+   * @throws {RoomNotFoundException} If the room doesn't exist
+   */
+  private async findRoom(roomId: string): Promise<RoomDocument> {
+    const room = await this.roomRepository.findById(roomId);
+    if (!room) {
+      throw new RoomNotFoundException(roomId);
+    }
+    return room;
+  }
+
+  /**
+   * Maps a room document to its admin summary
+   *
+   * @private
+   * @param {RoomDocument} room - Room document
+   * @returns {AdminRoomSummaryDto} Summary without secrets
+   */
+  private mapToSummary(room: RoomDocument): AdminRoomSummaryDto {
+    return {
+      roomId: room._id,
+      roomCode: room.roomCode,
+      status: room.status,
+      participantCount: room.participants.filter((p) => p.isActive).length,
+      maxParticipants: room.maxParticipants,
+      hasPassphrase: !!room.passphraseHash,
+      encrypted: !!room.encrypted,
+      createdAt: room.createdAt,
+      closedAt: room.status === RoomStatus.CLOSED ? room.closedAt : null,
+      expiresAt: room.expiresAt,
+    };
+  }
+}
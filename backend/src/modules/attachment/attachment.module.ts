@@ -0,0 +1,61 @@
+/**
+ * @fileoverview Attachment Module
+ * @description Configures the attachment feature module
+ * @module modules/attachment
+ *
+ * Design Pattern: Module Pattern
+ * - Encapsulates file upload, storage, and download functionality
+ * - Storage backend is bound to the STORAGE_DRIVER token
+ */
+
+import { Module, forwardRef } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MongooseModule } from '@nestjs/mongoose';
+import { MulterModule } from '@nestjs/platform-express';
+import { Attachment, AttachmentSchema } from './schemas/attachment.schema';
+import { AttachmentRepository } from './repositories/attachment.repository';
+import { AttachmentService } from './services/attachment.service';
+import { AttachmentController } from './controllers/attachment.controller';
+import { STORAGE_DRIVER } from './storage/storage-driver.interface';
+import { LocalStorageDriver } from './storage/local-storage.driver';
+import { RoomModule } from '../room/room.module';
+
+/**
+ * Attachment Module
+ *
+ * @description Provides attachment functionality:
+ * - Attachment metadata schema registration with Mongoose
+ * - In-memory multipart parsing with a size limit
+ * - Local disk storage by default (rebind STORAGE_DRIVER to change backend)
+ * - Service exported for message sending
+ */
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Attachment.name, schema: AttachmentSchema },
+    ]),
+    MulterModule.registerAsync({
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) => ({
+        limits: {
+          fileSize: Number(
+            configService.get<number>('ATTACHMENT_MAX_SIZE_BYTES', 10485760),
+          ),
+          files: 1,
+        },
+      }),
+    }),
+    forwardRef(() => RoomModule),
+  ],
+  controllers: [AttachmentController],
+  providers: [
+    AttachmentRepository,
+    AttachmentService,
+    {
+      provide: STORAGE_DRIVER,
+      useClass: LocalStorageDriver,
+    },
+  ],
+  exports: [AttachmentService],
+})
+export class AttachmentModule {}
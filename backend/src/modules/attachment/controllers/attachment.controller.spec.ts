@@ -0,0 +1,174 @@
+/**
+ * @fileoverview Attachment Controller Unit Tests
+ * @description Tests for AttachmentController HTTP endpoints
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { StreamableFile } from '@nestjs/common';
+import { Readable } from 'stream';
+import { AttachmentController } from './attachment.controller';
+import { AttachmentService } from '../services/attachment.service';
+import {
+  AttachmentNotFoundException,
+  SessionNotFoundException,
+} from '../../../common/exceptions/business.exceptions';
+
+describe('AttachmentController', () => {
+  let controller: AttachmentController;
+  let attachmentService: { upload: jest.Mock; getContent: jest.Mock };
+
+  const mockSessionId = 'session-123';
+
+  const mockAttachment = {
+    attachmentId: 'att-123',
+    roomId: 'room-123',
+    fileName: 'photo.jpg',
+    mimeType: 'image/jpeg',
+    size: 1024,
+    width: 800,
+    height: 600,
+    hasThumbnail: true,
+    createdAt: new Date(),
+  };
+
+  const mockFile = {
+    originalname: 'photo.jpg',
+    mimetype: 'image/jpeg',
+    size: 1024,
+    buffer: Buffer.from('jpeg'),
+  } as Express.Multer.File;
+
+  beforeEach(async () => {
+    attachmentService = {
+      upload: jest.fn(),
+      getContent: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [AttachmentController],
+      providers: [{ provide: AttachmentService, useValue: attachmentService }],
+    }).compile();
+
+    controller = module.get<AttachmentController>(AttachmentController);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('POST /attachments', () => {
+    it('should upload a file', async () => {
+      attachmentService.upload.mockResolvedValue(mockAttachment);
+
+      const result = await controller.uploadAttachment(
+        mockSessionId,
+        { roomId: 'room-123' },
+        mockFile,
+      );
+
+      expect(result).toEqual(mockAttachment);
+      expect(attachmentService.upload).toHaveBeenCalledWith(
+        mockSessionId,
+        'room-123',
+        mockFile,
+        undefined,
+      );
+    });
+
+    it('should pass a voice note waveform to the service', async () => {
+      attachmentService.upload.mockResolvedValue(mockAttachment);
+
+      await controller.uploadAttachment(
+        mockSessionId,
+        { roomId: 'room-123', waveform: [12, 40] },
+        mockFile,
+      );
+
+      expect(attachmentService.upload).toHaveBeenCalledWith(
+        mockSessionId,
+        'room-123',
+        mockFile,
+        [12, 40],
+      );
+    });
+
+    it('should throw if session ID is missing', async () => {
+      await expect(
+        controller.uploadAttachment('', { roomId: 'room-123' }, mockFile),
+      ).rejects.toThrow(SessionNotFoundException);
+    });
+  });
+
+  describe('GET /attachments/:attachmentId', () => {
+    it('should stream images inline', async () => {
+      attachmentService.getContent.mockResolvedValue({
+        stream: Readable.from(['data']),
+        fileName: 'photo.jpg',
+        mimeType: 'image/jpeg',
+        size: 1024,
+        inline: true,
+      });
+
+      const result = await controller.downloadAttachment(
+        mockSessionId,
+        'att-123',
+      );
+
+      expect(result).toBeInstanceOf(StreamableFile);
+      expect(result.getHeaders()).toEqual(
+        expect.objectContaining({
+          type: 'image/jpeg',
+          disposition: expect.stringMatching(/^inline;/),
+        }),
+      );
+    });
+
+    it('should serve other files as downloads with an encoded name', async () => {
+      attachmentService.getContent.mockResolvedValue({
+        stream: Readable.from(['data']),
+        fileName: 'résumé.pdf',
+        mimeType: 'application/pdf',
+        size: 2048,
+        inline: false,
+      });
+
+      const result = await controller.downloadAttachment(
+        mockSessionId,
+        'att-456',
+      );
+
+      expect(result.getHeaders().disposition).toBe(
+        `attachment; filename="r_sum_.pdf"; filename*=UTF-8''r%C3%A9sum%C3%A9.pdf`,
+      );
+    });
+
+    it('should propagate not found errors', async () => {
+      attachmentService.getContent.mockRejectedValue(
+        new AttachmentNotFoundException('missing'),
+      );
+
+      await expect(
+        controller.downloadAttachment(mockSessionId, 'missing'),
+      ).rejects.toThrow(AttachmentNotFoundException);
+    });
+  });
+
+  describe('GET /attachments/:attachmentId/thumbnail', () => {
+    it('should request the thumbnail', async () => {
+      attachmentService.getContent.mockResolvedValue({
+        stream: Readable.from(['data']),
+        fileName: 'photo.jpg',
+        mimeType: 'image/webp',
+        inline: true,
+      });
+
+      await controller.downloadThumbnail(mockSessionId, 'att-123');
+
+      expect(attachmentService.getContent).toHaveBeenCalledWith(
+        mockSessionId,
+        'att-123',
+        true,
+      );
+    });
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * @fileoverview Attachment Controller
+ * @description REST API endpoints for file uploads and downloads
+ * @module modules/attachment/controllers/attachment
+ *
+ * Design Pattern: Controller Pattern
+ * - Handles multipart uploads and streamed downloads
+ * - Delegates business logic to service layer
+ */
+
+import {
+  Controller,
+  Post,
+  Get,
+  Param,
+  Body,
+  Header,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  StreamableFile,
+  UploadedFile,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import {
+  AttachmentService,
+  AttachmentContent,
+} from '../services/attachment.service';
+import {
+  UploadAttachmentDto,
+  AttachmentResponseDto,
+} from '../dto/attachment.dto';
+import { SessionNotFoundException } from '../../../common/exceptions/business.exceptions';
+import { SessionId } from '../../../common/decorators/session.decorator';
+
+/**
+ * Attachment Controller
+ *
+ * @description Exposes REST API endpoints for attachments:
+ * - POST /attachments - Upload a file to a room
+ * - GET /attachments/:attachmentId - Download a file
+ * - GET /attachments/:attachmentId/thumbnail - Download an image thumbnail
+ *
+ * @class AttachmentController
+ */
+@Controller('attachments')
+export class AttachmentController {
+  private readonly logger = new Logger(AttachmentController.name);
+
+  constructor(private readonly attachmentService: AttachmentService) {}
+
+  /**
+   * Uploads a file to a room
+   *
+   * @description The returned attachmentId is then sent with a message
+   * (send_message / POST /messages) to share the file.
+   *
+   * @route POST /attachments
+   * @param {string} sessionId - Session ID from the session token
+   * @param {UploadAttachmentDto} dto - Room to upload to, and a voice note's waveform
+   * @param {Express.Multer.File} file - Uploaded file (multipart field "file")
+   * @returns {Promise<AttachmentResponseDto>} Stored attachment metadata
+   *
+   * @example
+   * // Request
+   * POST /api/v1/attachments
+   * Headers: { "Authorization": "Bearer <session-token>" }
+   * Body (multipart/form-data): roomId=xxx, file=<photo.jpg>
+   *
+   * // Response 201
+   * {
+   *   "attachmentId": "...",
+   *   "fileName": "photo.jpg",
+   *   "mimeType": "image/jpeg",
+   *   "size": 183204,
+   *   "width": 1600,
+   *   "height": 1200,
+   *   "hasThumbnail": true,
+   *   ...
+   * }
+   */
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @UseInterceptors(FileInterceptor('file'))
+  async uploadAttachment(
+    @SessionId() sessionId: string,
+    @Body() dto: UploadAttachmentDto,
+    @UploadedFile() file: Express.Multer.File | undefined,
+  ): Promise<AttachmentResponseDto> {
+    this.validateSessionId(sessionId);
+
+    this.logger.log(`Uploading attachment to room: ${dto.roomId}`);
+
+    return this.attachmentService.upload(
+      sessionId,
+      dto.roomId,
+      file,
+      dto.waveform,
+    );
+  }
+
+  /**
+   * Downloads a file
+   *
+   * @description Images and voice notes are served inline; other files are
+   * always served as downloads so they can't render in the app's origin.
+   *
+   * @route GET /attachments/:attachmentId
+   * @param {string} sessionId - Session ID from the session token
+   * @param {string} attachmentId - Attachment UUID
+   * @returns {Promise<StreamableFile>} File contents
+   */
+  @Get(':attachmentId')
+  @Header('Cache-Control', 'private, max-age=86400')
+  async downloadAttachment(
+    @SessionId() sessionId: string,
+    @Param('attachmentId') attachmentId: string,
+  ): Promise<StreamableFile> {
+    this.validateSessionId(sessionId);
+
+    const content = await this.attachmentService.getContent(
+      sessionId,
+      attachmentId,
+    );
+
+    return this.toStreamableFile(content);
+  }
+
+  /**
+   * Downloads an image thumbnail (WebP)
+   *
+   * @route GET /attachments/:attachmentId/thumbnail
+   * @param {string} sessionId - Session ID from the session token
+   * @param {string} attachmentId - Attachment UUID
+   * @returns {Promise<StreamableFile>} Thumbnail contents
+   */
+  @Get(':attachmentId/thumbnail')
+  @Header('Cache-Control', 'private, max-age=86400')
+  async downloadThumbnail(
+    @SessionId() sessionId: string,
+    @Param('attachmentId') attachmentId: string,
+  ): Promise<StreamableFile> {
+    this.validateSessionId(sessionId);
+
+    const content = await this.attachmentService.getContent(
+      sessionId,
+      attachmentId,
+      true,
+    );
+
+    return this.toStreamableFile(content);
+  }
+
+  /**
+   * Wraps attachment content with download headers
+   *
+   * @private
+   * @param {AttachmentContent} content - Stream and metadata
+   * @returns {StreamableFile} Streamable response
+   */
+  private toStreamableFile(content: AttachmentContent): StreamableFile {
+    const disposition = content.inline ? 'inline' : 'attachment';
+    // ASCII fallback for old clients, RFC 5987 encoding for the real name
+    const asciiName = content.fileName.replace(/[^\x20-\x7e]/g, '_');
+
+    return new StreamableFile(content.stream, {
+      type: content.mimeType,
+      length: content.size,
+      disposition: `${disposition}; filename="${asciiName}"; filename*=UTF-8''${encodeURIComponent(content.fileName)}`,
+    });
+  }
+
+  /**
+   * Validates that a session ID is present
+   *
+   * @private
+   * @param {string} sessionId - Session ID to validate
+   * @throws {SessionNotFoundException} If session ID is missing
+   */
+  private validateSessionId(sessionId: string): void {
+    if (!sessionId) {
+      throw new SessionNotFoundException();
+    }
+  }
+}
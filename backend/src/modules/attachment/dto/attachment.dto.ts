@@ -0,0 +1,117 @@
+/**
+ * @fileoverview Attachment DTOs (Data Transfer Objects)
+ * @description Request and response DTOs for attachment operations
+ * @module modules/attachment/dto
+ */
+
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsArray,
+  ArrayMaxSize,
+  IsInt,
+  Min,
+  Max,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
+
+/**
+ * Maximum number of waveform samples stored for a voice note
+ */
+export const MAX_WAVEFORM_SAMPLES = 128;
+
+/**
+ * Upload Attachment Request DTO
+ *
+ * @description Validates the non-file fields of a multipart upload
+ *
+ * @example
+ * // multipart/form-data
+ * roomId=019123ab-cdef-7000-8000-000000000001
+ * file=<binary>
+ * waveform=[12,40,87,...]   (voice notes only)
+ */
+export class UploadAttachmentDto {
+  /**
+   * Room the file is being shared in
+   */
+  @IsString()
+  @IsNotEmpty({ message: 'Room ID is required' })
+  roomId: string;
+
+  /**
+   * Amplitude samples (0-100) computed by the recorder, sent as a JSON array
+   * string since multipart fields are plain text (voice notes only)
+   */
+  @IsOptional()
+  @Transform(({ value }: { value: unknown }) => parseJsonArray(value))
+  @IsArray({ message: 'Waveform must be an array of numbers' })
+  @ArrayMaxSize(MAX_WAVEFORM_SAMPLES, {
+    message: `Waveform cannot exceed ${MAX_WAVEFORM_SAMPLES} samples`,
+  })
+  @IsInt({ each: true, message: 'Waveform samples must be integers' })
+  @Min(0, {
+    each: true,
+    message: 'Waveform samples must be between 0 and 100',
+  })
+  @Max(100, {
+    each: true,
+    message: 'Waveform samples must be between 0 and 100',
+  })
+  waveform?: number[];
+}
+
+/**
+ * Parses a JSON array sent as a multipart text field, leaving anything
+ * else for the validators to reject
+ */
+function parseJsonArray(value: unknown): unknown {
+  if (typeof value !== 'string') return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Attachment Response DTO
+ *
+ * @description Metadata for an uploaded file. Contents are fetched from
+ * GET /attachments/:attachmentId (and /thumbnail for images).
+ */
+export class AttachmentResponseDto {
+  attachmentId: string;
+  roomId: string;
+  fileName: string;
+  mimeType: string;
+
+  /**
+   * Size of the original file in bytes
+   */
+  size: number;
+
+  /**
+   * Pixel dimensions (images only)
+   */
+  width?: number;
+  height?: number;
+
+  /**
+   * Whether a thumbnail is available (images only)
+   */
+  hasThumbnail: boolean;
+
+  /**
+   * Playback duration in milliseconds (audio only)
+   */
+  durationMs?: number;
+
+  /**
+   * Amplitude samples (0-100) for rendering a waveform (audio only)
+   */
+  waveform?: number[];
+
+  createdAt: Date;
+}
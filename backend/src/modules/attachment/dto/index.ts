@@ -0,0 +1,6 @@
+/**
+ * @fileoverview Attachment DTO Barrel Export
+ * @module modules/attachment/dto
+ */
+
+export * from './attachment.dto';
@@ -0,0 +1,118 @@
+/**
+ * @fileoverview Attachment Repository
+ * @description Data access layer for attachment metadata
+ * @module modules/attachment/repositories/attachment
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { Attachment, AttachmentDocument } from '../schemas/attachment.schema';
+
+/**
+ * Attachment Repository
+ *
+ * @description Implements data access operations for attachments.
+ * Blob contents are handled by the StorageDriver, not here.
+ *
+ * @class AttachmentRepository
+ */
+@Injectable()
+export class AttachmentRepository {
+  private readonly logger = new Logger(AttachmentRepository.name);
+
+  constructor(
+    @InjectModel(Attachment.name)
+    private readonly attachmentModel: Model<AttachmentDocument>,
+  ) {}
+
+  /**
+   * Creates attachment metadata
+   *
+   * @param {Partial<Attachment>} data - Attachment data
+   * @returns {Promise<AttachmentDocument>} Created attachment
+   */
+  async create(data: Partial<Attachment>): Promise<AttachmentDocument> {
+    this.logger.debug(`Creating attachment in room: ${data.roomId}`);
+
+    const attachment = new this.attachmentModel(data);
+    return attachment.save();
+  }
+
+  /**
+   * Finds an attachment by ID
+   *
+   * @param {string} attachmentId - Attachment UUID
+   * @returns {Promise<AttachmentDocument | null>} Attachment or null
+   */
+  async findById(attachmentId: string): Promise<AttachmentDocument | null> {
+    return this.attachmentModel.findOne({ _id: attachmentId }).exec();
+  }
+
+  /**
+   * Assigns an unsent attachment to a message
+   *
+   * @description The uploader, room and unsent checks are part of the
+   * update filter, so concurrent sends can't both claim the attachment.
+   *
+   * @param {string} attachmentId - Attachment UUID
+   * @param {string} uploaderId - Sender's user ID
+   * @param {string} roomId - Room the message is sent to
+   * @param {string} messageId - ID of the message being sent
+   * @returns {Promise<AttachmentDocument | null>} Claimed attachment, or null if it is unknown, someone else's, from another room or already sent
+   */
+  async claim(
+    attachmentId: string,
+    uploaderId: string,
+    roomId: string,
+    messageId: string,
+  ): Promise<AttachmentDocument | null> {
+    return this.attachmentModel
+      .findOneAndUpdate(
+        { _id: attachmentId, uploaderId, roomId, messageId: null },
+        { $set: { messageId } },
+        { new: true },
+      )
+      .exec();
+  }
+
+  /**
+   * Makes a claimed attachment unsent again
+   *
+   * @param {string} attachmentId - Attachment UUID
+   * @param {string} messageId - ID of the message that claimed it
+   * @returns {Promise<void>}
+   */
+  async release(attachmentId: string, messageId: string): Promise<void> {
+    await this.attachmentModel
+      .updateOne(
+        { _id: attachmentId, messageId },
+        { $set: { messageId: null } },
+      )
+      .exec();
+  }
+
+  /**
+   * Finds the IDs of every attachment a user uploaded
+   *
+   * @param {string} uploaderId - Uploader's user ID
+   * @returns {Promise<string[]>} Attachment UUIDs
+   */
+  async findIdsByUploader(uploaderId: string): Promise<string[]> {
+    const attachments = await this.attachmentModel
+      .find({ uploaderId })
+      .select('_id')
+      .exec();
+    return attachments.map((attachment) => attachment._id);
+  }
+
+  /**
+   * Deletes attachment metadata
+   *
+   * @param {string} attachmentId - Attachment UUID
+   * @returns {Promise<AttachmentDocument | null>} Deleted attachment or null
+   */
+  async delete(attachmentId: string): Promise<AttachmentDocument | null> {
+    return this.attachmentModel.findOneAndDelete({ _id: attachmentId }).exec();
+  }
+}
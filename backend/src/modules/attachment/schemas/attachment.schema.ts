@@ -0,0 +1,122 @@
+/**
+ * @fileoverview Attachment Schema Definition
+ * @description MongoDB schema for uploaded file metadata
+ * @module modules/attachment/schemas/attachment
+ */
+
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import { generateId } from '../../../common/utils/uuid.util';
+
+/**
+ * Attachment Schema
+ *
+ * @description Metadata for a file uploaded to a room. The file itself (and
+ * its thumbnail, for images) lives in the configured StorageDriver under
+ * storageKey / thumbnailKey. Each upload is sent with at most one message,
+ * which owns it from then on.
+ *
+ * Indexes:
+ * - roomId: for room cleanup
+ * - uploaderId: for user data cleanup
+ *
+ * @class Attachment
+ */
+@Schema({
+  timestamps: true,
+  collection: 'attachments',
+  toJSON: {
+    virtuals: true,
+    transform: (_, ret: Record<string, unknown>) => {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    },
+  },
+})
+export class Attachment {
+  @Prop({
+    type: String,
+    default: () => generateId(),
+  })
+  _id: string;
+
+  @Prop({
+    type: String,
+    required: true,
+    index: true,
+  })
+  roomId: string;
+
+  @Prop({
+    type: String,
+    required: true,
+    index: true,
+  })
+  uploaderId: string;
+
+  @Prop({
+    type: String,
+    required: true,
+  })
+  fileName: string;
+
+  @Prop({
+    type: String,
+    required: true,
+  })
+  mimeType: string;
+
+  /** Size of the original file in bytes */
+  @Prop({
+    type: Number,
+    required: true,
+  })
+  size: number;
+
+  @Prop({
+    type: String,
+    required: true,
+  })
+  storageKey: string;
+
+  @Prop({
+    type: String,
+    default: null,
+  })
+  thumbnailKey: string | null;
+
+  /** Pixel dimensions (images only) */
+  @Prop({ type: Number, default: null })
+  width: number | null;
+
+  @Prop({ type: Number, default: null })
+  height: number | null;
+
+  /** Playback duration in milliseconds (audio only) */
+  @Prop({ type: Number, default: null })
+  durationMs: number | null;
+
+  /** Amplitude samples (0-100) for rendering a waveform (audio only) */
+  @Prop({ type: [Number], default: null })
+  waveform: number[] | null;
+
+  /** Message the attachment was sent with (null until sent) */
+  @Prop({ type: String, default: null })
+  messageId: string | null;
+
+  // Timestamps added by Mongoose
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Attachment Document type for Mongoose
+ */
+export type AttachmentDocument = Attachment & Document;
+
+/**
+ * Create the Mongoose schema
+ */
+export const AttachmentSchema = SchemaFactory.createForClass(Attachment);
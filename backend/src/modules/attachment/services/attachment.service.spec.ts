@@ -0,0 +1,506 @@
+/**
+ * @fileoverview Attachment Service Unit Tests
+ * @description Tests for upload validation, thumbnails, voice notes, and access checks
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { Readable } from 'stream';
+import * as sharp from 'sharp';
+import { AttachmentService } from './attachment.service';
+import { AttachmentRepository } from '../repositories/attachment.repository';
+import { STORAGE_DRIVER } from '../storage/storage-driver.interface';
+import { RoomService } from '../../room/services/room.service';
+import { SessionService } from '../../session/services/session.service';
+import { RoomStatus } from '../../room/schemas/room.schema';
+import {
+  AttachmentNotFoundException,
+  AttachmentTooLargeException,
+  AudioTooLongException,
+  UnsupportedAttachmentTypeException,
+  InvalidAttachmentException,
+  RoomClosedException,
+  UserNotInRoomException,
+} from '../../../common/exceptions/business.exceptions';
+
+describe('AttachmentService', () => {
+  let service: AttachmentService;
+  let attachmentRepository: {
+    create: jest.Mock;
+    findById: jest.Mock;
+    claim: jest.Mock;
+    release: jest.Mock;
+    delete: jest.Mock;
+    findIdsByUploader: jest.Mock;
+  };
+  let roomService: { getRoomById: jest.Mock };
+  let sessionService: { getUserId: jest.Mock };
+  let storage: { put: jest.Mock; get: jest.Mock; delete: jest.Mock };
+
+  const mockSessionId = 'session-123';
+  const mockUserId = 'user-123';
+  const mockRoomId = 'room-123';
+
+  const mockRoom = {
+    _id: mockRoomId,
+    roomCode: 'ABC123',
+    status: RoomStatus.ACTIVE,
+    participants: [
+      { userId: mockUserId, displayName: 'User One', isActive: true },
+    ],
+  };
+
+  const mockAttachment = {
+    _id: 'att-123',
+    roomId: mockRoomId,
+    uploaderId: mockUserId,
+    fileName: 'notes.pdf',
+    mimeType: 'application/pdf',
+    size: 2048,
+    storageKey: `${mockRoomId}/att-123`,
+    thumbnailKey: null,
+    width: null,
+    height: null,
+    durationMs: null,
+    waveform: null,
+    createdAt: new Date(),
+  };
+
+  const pdfFile = {
+    originalname: 'notes.pdf',
+    mimetype: 'application/pdf',
+    size: 2048,
+    buffer: Buffer.from('%PDF-1.4'),
+  };
+
+  /**
+   * Builds a minimal Ogg Opus file: an OpusHead page and a final page whose
+   * granule position gives the duration
+   */
+  const oggOpus = (durationMs: number): Buffer => {
+    const preSkip = 312;
+    const page = (granule: bigint, packet: Buffer) => {
+      const header = Buffer.alloc(27);
+      header.write('OggS', 0, 'latin1');
+      header.writeBigInt64LE(granule, 6);
+      header[26] = 1;
+      return Buffer.concat([header, Buffer.from([packet.length]), packet]);
+    };
+
+    const head = Buffer.alloc(19);
+    head.write('OpusHead', 0, 'latin1');
+    head[8] = 1;
+    head[9] = 1;
+    head.writeUInt16LE(preSkip, 10);
+    head.writeUInt32LE(48000, 12);
+
+    return Buffer.concat([
+      page(0n, head),
+      page(BigInt((durationMs / 1000) * 48000 + preSkip), Buffer.alloc(8)),
+    ]);
+  };
+
+  /**
+   * Builds a minimal WebM file with a declared duration and one audio track
+   */
+  const webm = (durationMs: number, codecId = 'A_OPUS'): Buffer => {
+    const element = (id: number[], data: Buffer) =>
+      Buffer.concat([Buffer.from(id), Buffer.from([0x80 | data.length]), data]);
+
+    const duration = Buffer.alloc(8);
+    duration.writeDoubleBE(durationMs);
+
+    const info = element(
+      [0x15, 0x49, 0xa9, 0x66],
+      Buffer.concat([
+        element([0x2a, 0xd7, 0xb1], Buffer.from([0x0f, 0x42, 0x40])),
+        element([0x44, 0x89], duration),
+      ]),
+    );
+    const tracks = element(
+      [0x16, 0x54, 0xae, 0x6b],
+      element([0xae], element([0x86], Buffer.from(codecId, 'latin1'))),
+    );
+
+    return Buffer.concat([
+      element([0x1a, 0x45, 0xdf, 0xa3], Buffer.alloc(0)),
+      // Segment with an unknown size, as written by streaming recorders
+      Buffer.from([
+        0x18, 0x53, 0x80, 0x67, 0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff,
+      ]),
+      info,
+      tracks,
+    ]);
+  };
+
+  const audioFile = (buffer: Buffer, mimetype: string) => ({
+    originalname: 'voice-note',
+    mimetype,
+    size: buffer.length,
+    buffer,
+  });
+
+  beforeEach(async () => {
+    attachmentRepository = {
+      create: jest
+        .fn()
+        .mockImplementation((data) =>
+          Promise.resolve({ ...data, createdAt: new Date() }),
+        ),
+      findById: jest.fn().mockResolvedValue(mockAttachment),
+      claim: jest.fn(),
+      release: jest.fn().mockResolvedValue(undefined),
+      delete: jest.fn().mockResolvedValue(mockAttachment),
+      findIdsByUploader: jest.fn().mockResolvedValue(['att-123']),
+    };
+
+    roomService = {
+      getRoomById: jest.fn().mockResolvedValue(mockRoom),
+    };
+
+    sessionService = {
+      getUserId: jest.fn().mockResolvedValue(mockUserId),
+    };
+
+    storage = {
+      put: jest.fn().mockResolvedValue(undefined),
+      get: jest.fn().mockResolvedValue(Readable.from(['data'])),
+      delete: jest.fn().mockResolvedValue(undefined),
+    };
+
+    const config: Record<string, unknown> = {
+      ATTACHMENT_MAX_SIZE_BYTES: 4096,
+      AUDIO_MAX_DURATION_MS: 60000,
+    };
+    const mockConfigService = {
+      get: jest.fn((key: string, defaultValue?: unknown) =>
+        key in config ? config[key] : defaultValue,
+      ),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AttachmentService,
+        { provide: AttachmentRepository, useValue: attachmentRepository },
+        { provide: RoomService, useValue: roomService },
+        { provide: SessionService, useValue: sessionService },
+        { provide: STORAGE_DRIVER, useValue: storage },
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    service = module.get<AttachmentService>(AttachmentService);
+    service.onModuleInit();
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('upload', () => {
+    it('should store a file and its metadata', async () => {
+      const result = await service.upload(mockSessionId, mockRoomId, pdfFile);
+
+      expect(storage.put).toHaveBeenCalledTimes(1);
+      expect(storage.put).toHaveBeenCalledWith(
+        `${mockRoomId}/${result.attachmentId}`,
+        pdfFile.buffer,
+        'application/pdf',
+      );
+      expect(result.fileName).toBe('notes.pdf');
+      expect(result.hasThumbnail).toBe(false);
+    });
+
+    it('should generate a thumbnail for images', async () => {
+      const buffer = await sharp({
+        create: { width: 640, height: 480, channels: 3, background: '#fff' },
+      })
+        .png()
+        .toBuffer();
+
+      const result = await service.upload(mockSessionId, mockRoomId, {
+        originalname: 'photo.png',
+        mimetype: 'image/png',
+        size: buffer.length,
+        buffer,
+      });
+
+      expect(storage.put).toHaveBeenCalledWith(
+        `${mockRoomId}/${result.attachmentId}-thumb`,
+        expect.any(Buffer),
+        'image/webp',
+      );
+      expect(result.width).toBe(640);
+      expect(result.height).toBe(480);
+      expect(result.hasThumbnail).toBe(true);
+    });
+
+    it('should reject images whose contents do not match the declared type', async () => {
+      await expect(
+        service.upload(mockSessionId, mockRoomId, {
+          originalname: 'photo.png',
+          mimetype: 'image/png',
+          size: 8,
+          buffer: Buffer.from('not a png'),
+        }),
+      ).rejects.toThrow(UnsupportedAttachmentTypeException);
+      expect(storage.put).not.toHaveBeenCalled();
+    });
+
+    it('should reject disallowed MIME types', async () => {
+      await expect(
+        service.upload(mockSessionId, mockRoomId, {
+          ...pdfFile,
+          mimetype: 'application/x-msdownload',
+        }),
+      ).rejects.toThrow(UnsupportedAttachmentTypeException);
+    });
+
+    it('should reject files over the size limit', async () => {
+      await expect(
+        service.upload(mockSessionId, mockRoomId, { ...pdfFile, size: 8192 }),
+      ).rejects.toThrow(AttachmentTooLargeException);
+    });
+
+    it('should reject uploads without a file', async () => {
+      await expect(
+        service.upload(mockSessionId, mockRoomId, undefined),
+      ).rejects.toThrow(InvalidAttachmentException);
+    });
+
+    it('should reject users who are not in the room', async () => {
+      sessionService.getUserId.mockResolvedValue('user-999');
+
+      await expect(
+        service.upload(mockSessionId, mockRoomId, pdfFile),
+      ).rejects.toThrow(UserNotInRoomException);
+    });
+
+    it('should reject uploads to closed rooms', async () => {
+      roomService.getRoomById.mockResolvedValue({
+        ...mockRoom,
+        status: RoomStatus.CLOSED,
+      });
+
+      await expect(
+        service.upload(mockSessionId, mockRoomId, pdfFile),
+      ).rejects.toThrow(RoomClosedException);
+    });
+
+    it('should strip path components from file names', async () => {
+      await service.upload(mockSessionId, mockRoomId, {
+        ...pdfFile,
+        originalname: '../../etc/"notes".pdf',
+      });
+
+      expect(attachmentRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ fileName: 'notes.pdf' }),
+      );
+    });
+  });
+
+  describe('upload (voice notes)', () => {
+    it('should store an Ogg Opus voice note with its duration and waveform', async () => {
+      const result = await service.upload(
+        mockSessionId,
+        mockRoomId,
+        audioFile(oggOpus(2500), 'audio/ogg;codecs=opus'),
+        [10, 80, 45],
+      );
+
+      expect(storage.put).toHaveBeenCalledWith(
+        `${mockRoomId}/${result.attachmentId}`,
+        expect.any(Buffer),
+        'audio/ogg',
+      );
+      expect(result.durationMs).toBe(2500);
+      expect(result.waveform).toEqual([10, 80, 45]);
+      expect(result.hasThumbnail).toBe(false);
+    });
+
+    it('should read the duration of a WebM voice note', async () => {
+      const result = await service.upload(
+        mockSessionId,
+        mockRoomId,
+        audioFile(webm(4180), 'audio/webm;codecs=opus'),
+      );
+
+      expect(result.durationMs).toBe(4180);
+      expect(result.waveform).toEqual([]);
+    });
+
+    it('should reject voice notes over the duration limit', async () => {
+      await expect(
+        service.upload(
+          mockSessionId,
+          mockRoomId,
+          audioFile(oggOpus(61000), 'audio/ogg'),
+        ),
+      ).rejects.toThrow(AudioTooLongException);
+      expect(storage.put).not.toHaveBeenCalled();
+    });
+
+    it('should reject unsupported codecs', async () => {
+      await expect(
+        service.upload(
+          mockSessionId,
+          mockRoomId,
+          audioFile(webm(1000, 'A_MPEG/L3'), 'audio/webm'),
+        ),
+      ).rejects.toThrow(UnsupportedAttachmentTypeException);
+    });
+
+    it('should reject audio whose container does not match the declared type', async () => {
+      await expect(
+        service.upload(
+          mockSessionId,
+          mockRoomId,
+          audioFile(oggOpus(1000), 'audio/webm'),
+        ),
+      ).rejects.toThrow(UnsupportedAttachmentTypeException);
+    });
+
+    it('should reject files that are not audio', async () => {
+      await expect(
+        service.upload(
+          mockSessionId,
+          mockRoomId,
+          audioFile(Buffer.from('not audio'), 'audio/mp4'),
+        ),
+      ).rejects.toThrow(UnsupportedAttachmentTypeException);
+    });
+  });
+
+  describe('getContent', () => {
+    it('should stream the file as a download', async () => {
+      const result = await service.getContent(mockSessionId, 'att-123');
+
+      expect(storage.get).toHaveBeenCalledWith(`${mockRoomId}/att-123`);
+      expect(result.mimeType).toBe('application/pdf');
+      expect(result.inline).toBe(false);
+    });
+
+    it('should stream voice notes inline', async () => {
+      attachmentRepository.findById.mockResolvedValue({
+        ...mockAttachment,
+        mimeType: 'audio/ogg',
+        durationMs: 2500,
+        waveform: [],
+      });
+
+      const result = await service.getContent(mockSessionId, 'att-123');
+
+      expect(result.inline).toBe(true);
+    });
+
+    it('should throw if a thumbnail is requested for a non-image', async () => {
+      await expect(
+        service.getContent(mockSessionId, 'att-123', true),
+      ).rejects.toThrow(AttachmentNotFoundException);
+    });
+
+    it('should throw if the attachment does not exist', async () => {
+      attachmentRepository.findById.mockResolvedValue(null);
+
+      await expect(
+        service.getContent(mockSessionId, 'missing'),
+      ).rejects.toThrow(AttachmentNotFoundException);
+    });
+  });
+
+  describe('resolveForMessage', () => {
+    beforeEach(() => {
+      // Mirrors the repository's update filter
+      let claimedBy: string | null = null;
+      attachmentRepository.claim.mockImplementation(
+        (id: string, uploaderId: string, roomId: string, messageId: string) => {
+          if (
+            id !== mockAttachment._id ||
+            uploaderId !== mockAttachment.uploaderId ||
+            roomId !== mockAttachment.roomId ||
+            claimedBy !== null
+          ) {
+            return Promise.resolve(null);
+          }
+          claimedBy = messageId;
+          return Promise.resolve({ ...mockAttachment, messageId });
+        },
+      );
+    });
+
+    it('should claim attachments uploaded by the sender to the room', async () => {
+      const result = await service.resolveForMessage(
+        'att-123',
+        mockUserId,
+        mockRoomId,
+        'msg-1',
+      );
+
+      expect(result._id).toBe('att-123');
+      expect(attachmentRepository.claim).toHaveBeenCalledWith(
+        'att-123',
+        mockUserId,
+        mockRoomId,
+        'msg-1',
+      );
+    });
+
+    it('should reject attachments uploaded by someone else', async () => {
+      await expect(
+        service.resolveForMessage('att-123', 'user-999', mockRoomId, 'msg-1'),
+      ).rejects.toThrow(InvalidAttachmentException);
+    });
+
+    it('should reject attachments from another room', async () => {
+      await expect(
+        service.resolveForMessage('att-123', mockUserId, 'room-999', 'msg-1'),
+      ).rejects.toThrow(InvalidAttachmentException);
+    });
+
+    it('should reject an attachment already sent with another message', async () => {
+      await service.resolveForMessage(
+        'att-123',
+        mockUserId,
+        mockRoomId,
+        'msg-1',
+      );
+
+      await expect(
+        service.resolveForMessage('att-123', mockUserId, mockRoomId, 'msg-2'),
+      ).rejects.toThrow(InvalidAttachmentException);
+    });
+  });
+
+  describe('releaseForMessage', () => {
+    it('should only release the claim of the given message', async () => {
+      await service.releaseForMessage('att-123', 'msg-1');
+
+      expect(attachmentRepository.release).toHaveBeenCalledWith(
+        'att-123',
+        'msg-1',
+      );
+    });
+  });
+
+  describe('remove', () => {
+    it('should delete the metadata and blobs', async () => {
+      await service.remove('att-123');
+
+      expect(attachmentRepository.delete).toHaveBeenCalledWith('att-123');
+      expect(storage.delete).toHaveBeenCalledWith(`${mockRoomId}/att-123`);
+    });
+  });
+
+  describe('removeByUploader', () => {
+    it('should delete every attachment the user uploaded', async () => {
+      const removed = await service.removeByUploader(mockUserId);
+
+      expect(removed).toBe(1);
+      expect(attachmentRepository.findIdsByUploader).toHaveBeenCalledWith(
+        mockUserId,
+      );
+      expect(attachmentRepository.delete).toHaveBeenCalledWith('att-123');
+      expect(storage.delete).toHaveBeenCalledWith(`${mockRoomId}/att-123`);
+    });
+  });
+});
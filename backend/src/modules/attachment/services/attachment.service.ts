@@ -0,0 +1,555 @@
+/**
+ * @fileoverview Attachment Service
+ * @description Business logic layer for file uploads and downloads
+ * @module modules/attachment/services/attachment
+ *
+ * Design Pattern: Service Layer Pattern
+ * - Validates uploads (room membership, size, type, contents)
+ * - Generates image thumbnails
+ * - Probes voice notes for codec and duration
+ * - Delegates blob storage to the configured StorageDriver
+ */
+
+import { Injectable, Inject, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Readable } from 'stream';
+import * as sharp from 'sharp';
+import { AttachmentRepository } from '../repositories/attachment.repository';
+import { AttachmentDocument } from '../schemas/attachment.schema';
+import { AttachmentResponseDto } from '../dto/attachment.dto';
+import {
+  STORAGE_DRIVER,
+  StorageDriver,
+} from '../storage/storage-driver.interface';
+import { RoomService } from '../../room/services/room.service';
+import { RoomStatus } from '../../room/schemas/room.schema';
+import { SessionService } from '../../session/services/session.service';
+import { generateId } from '../../../common/utils/uuid.util';
+import {
+  probeAudio,
+  AudioContainer,
+} from '../../../common/utils/audio-probe.util';
+import {
+  AttachmentNotFoundException,
+  AttachmentTooLargeException,
+  AudioTooLongException,
+  UnsupportedAttachmentTypeException,
+  InvalidAttachmentException,
+  RoomClosedException,
+  UserNotInRoomException,
+} from '../../../common/exceptions/business.exceptions';
+
+/**
+ * Image formats sharp may report, mapped to the MIME type they must be uploaded as
+ */
+const IMAGE_FORMATS: Record<string, string> = {
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+};
+
+/**
+ * Audio MIME types accepted as voice notes, mapped to the container they must contain
+ */
+const AUDIO_CONTAINERS: Record<string, AudioContainer> = {
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/mp4': 'mp4',
+};
+
+const DEFAULT_ALLOWED_AUDIO_CODECS = ['opus', 'vorbis', 'aac'];
+
+const DEFAULT_ALLOWED_MIME_TYPES = [
+  ...Object.values(IMAGE_FORMATS),
+  'application/pdf',
+  'text/plain',
+  'application/zip',
+];
+
+/**
+ * Maximum stored file name length
+ */
+const MAX_FILE_NAME_LENGTH = 255;
+
+/**
+ * Uploaded file as provided by multer's memory storage
+ */
+export interface UploadedFileData {
+  originalname: string;
+  mimetype: string;
+  size: number;
+  buffer: Buffer;
+}
+
+/**
+ * File contents ready to be streamed to the client
+ */
+export interface AttachmentContent {
+  stream: Readable;
+  fileName: string;
+  mimeType: string;
+  size?: number;
+  inline: boolean;
+}
+
+/**
+ * Attachment Service
+ *
+ * @description Handles all business logic for attachments:
+ * - Uploading files to a room the user participates in
+ * - Size and MIME type validation (images are verified by decoding them)
+ * - Thumbnail generation for images
+ * - Voice notes: codec, size, and duration limits checked against the file
+ * - Access-checked downloads
+ * - Resolving attachments referenced by new messages
+ *
+ * @class AttachmentService
+ */
+@Injectable()
+export class AttachmentService implements OnModuleInit {
+  private readonly logger = new Logger(AttachmentService.name);
+
+  // Upload limits from config
+  private maxSizeBytes: number;
+  private allowedMimeTypes: Set<string>;
+  private thumbnailSize: number;
+  private audioMaxSizeBytes: number;
+  private audioMaxDurationMs: number;
+  private allowedAudioCodecs: Set<string>;
+
+  constructor(
+    private readonly attachmentRepository: AttachmentRepository,
+    private readonly roomService: RoomService,
+    private readonly sessionService: SessionService,
+    @Inject(STORAGE_DRIVER)
+    private readonly storage: StorageDriver,
+    private readonly configService: ConfigService,
+  ) {}
+
+  onModuleInit(): void {
+    this.maxSizeBytes = Number(
+      this.configService.get<number>('ATTACHMENT_MAX_SIZE_BYTES', 10485760),
+    );
+    this.thumbnailSize = Number(
+      this.configService.get<number>('ATTACHMENT_THUMBNAIL_SIZE', 320),
+    );
+    this.audioMaxSizeBytes = Number(
+      this.configService.get<number>('AUDIO_MAX_SIZE_BYTES', 5242880),
+    );
+    this.audioMaxDurationMs = Number(
+      this.configService.get<number>('AUDIO_MAX_DURATION_MS', 300000),
+    );
+
+    const allowed = this.configService.get<string>(
+      'ATTACHMENT_ALLOWED_MIME_TYPES',
+    );
+    this.allowedMimeTypes = new Set(
+      allowed
+        ? allowed
+            .split(',')
+            .map((type) => type.trim().toLowerCase())
+            .filter(Boolean)
+        : DEFAULT_ALLOWED_MIME_TYPES,
+    );
+
+    const codecs = this.configService.get<string>('AUDIO_ALLOWED_CODECS');
+    this.allowedAudioCodecs = new Set(
+      codecs
+        ? codecs
+            .split(',')
+            .map((codec) => codec.trim().toLowerCase())
+            .filter(Boolean)
+        : DEFAULT_ALLOWED_AUDIO_CODECS,
+    );
+  }
+
+  /**
+   * Uploads a file to a room
+   *
+   * @description Upload flow:
+   * 1. Validates the user is a participant of an active room
+   * 2. Validates size and declared MIME type against the allowlist
+   *    (voice notes have their own size limit and codec allowlist)
+   * 3. For images, decodes the file to confirm its real format and
+   *    generates a thumbnail
+   * 4. For voice notes, reads the container to confirm its codec and
+   *    enforce the maximum duration
+   * 5. Stores the blobs, then the metadata
+   *
+   * @param {string} sessionId - Uploader's session ID
+   * @param {string} roomId - Room the file is shared in
+   * @param {UploadedFileData} file - Uploaded file
+   * @param {number[]} waveform - Client-computed amplitude samples (voice notes only)
+   * @returns {Promise<AttachmentResponseDto>} Stored attachment metadata
+   * @throws {UserNotInRoomException} If user is not in the room
+   * @throws {RoomClosedException} If the room is closed
+   * @throws {AttachmentTooLargeException} If the file exceeds the size limit
+   * @throws {UnsupportedAttachmentTypeException} If the type or codec is not allowed
+   * @throws {AudioTooLongException} If a voice note exceeds the duration limit
+   */
+  async upload(
+    sessionId: string,
+    roomId: string,
+    file: UploadedFileData | undefined,
+    waveform?: number[],
+  ): Promise<AttachmentResponseDto> {
+    const userId = await this.validateParticipant(sessionId, roomId, true);
+
+    if (!file) {
+      throw new InvalidAttachmentException('A file is required');
+    }
+
+    // Recorders report parameters such as "audio/webm;codecs=opus"
+    const mimeType = file.mimetype.split(';')[0].trim().toLowerCase();
+    const isAudio = mimeType in AUDIO_CONTAINERS;
+    const maxSizeBytes = isAudio ? this.audioMaxSizeBytes : this.maxSizeBytes;
+
+    if (file.size > maxSizeBytes) {
+      throw new AttachmentTooLargeException(maxSizeBytes);
+    }
+
+    if (!isAudio && !this.allowedMimeTypes.has(mimeType)) {
+      throw new UnsupportedAttachmentTypeException(mimeType);
+    }
+
+    const attachmentId = generateId();
+    const storageKey = `${roomId}/${attachmentId}`;
+    let thumbnailKey: string | null = null;
+    let width: number | null = null;
+    let height: number | null = null;
+    let durationMs: number | null = null;
+
+    if (isAudio) {
+      durationMs = this.processAudio(file.buffer, mimeType);
+    } else if (mimeType.startsWith('image/')) {
+      const image = await this.processImage(file.buffer, mimeType);
+      width = image.width;
+      height = image.height;
+      thumbnailKey = `${storageKey}-thumb`;
+      await this.storage.put(thumbnailKey, image.thumbnail, 'image/webp');
+    }
+
+    await this.storage.put(storageKey, file.buffer, mimeType);
+
+    const attachment = await this.attachmentRepository.create({
+      _id: attachmentId,
+      roomId,
+      uploaderId: userId,
+      fileName: this.sanitizeFileName(file.originalname),
+      mimeType,
+      size: file.size,
+      storageKey,
+      thumbnailKey,
+      width,
+      height,
+      durationMs,
+      waveform: isAudio ? (waveform ?? []) : null,
+    });
+
+    this.logger.log(`Attachment uploaded: ${attachmentId} to room ${roomId}`);
+
+    return this.mapToResponse(attachment);
+  }
+
+  /**
+   * Opens an attachment (or its thumbnail) for download
+   *
+   * @param {string} sessionId - Requester's session ID
+   * @param {string} attachmentId - Attachment UUID
+   * @param {boolean} thumbnail - Whether to return the thumbnail instead
+   * @returns {Promise<AttachmentContent>} Stream and headers for the response
+   * @throws {AttachmentNotFoundException} If the attachment or thumbnail doesn't exist
+   * @throws {UserNotInRoomException} If user is not in the attachment's room
+   */
+  async getContent(
+    sessionId: string,
+    attachmentId: string,
+    thumbnail = false,
+  ): Promise<AttachmentContent> {
+    const attachment = await this.attachmentRepository.findById(attachmentId);
+
+    if (!attachment) {
+      throw new AttachmentNotFoundException(attachmentId);
+    }
+
+    await this.validateParticipant(sessionId, attachment.roomId);
+
+    const key = thumbnail ? attachment.thumbnailKey : attachment.storageKey;
+    const stream = key ? await this.storage.get(key) : null;
+
+    if (!stream) {
+      throw new AttachmentNotFoundException(attachmentId);
+    }
+
+    return {
+      stream,
+      fileName: attachment.fileName,
+      mimeType: thumbnail ? 'image/webp' : attachment.mimeType,
+      size: thumbnail ? undefined : attachment.size,
+      inline:
+        attachment.thumbnailKey !== null || attachment.durationMs !== null,
+    };
+  }
+
+  /**
+   * Claims an attachment for a new message
+   *
+   * @description Only the uploader may send an attachment, only in the
+   * room it was uploaded to, and only once: the message owns the file, so
+   * deleting it must not pull the file out from under another message.
+   *
+   * @param {string} attachmentId - Attachment UUID
+   * @param {string} userId - Sender's user ID
+   * @param {string} roomId - Room the message is sent to
+   * @param {string} messageId - ID of the message being sent
+   * @returns {Promise<AttachmentDocument>} The attachment
+   * @throws {InvalidAttachmentException} If the attachment can't be used
+   */
+  async resolveForMessage(
+    attachmentId: string,
+    userId: string,
+    roomId: string,
+    messageId: string,
+  ): Promise<AttachmentDocument> {
+    const attachment = await this.attachmentRepository.claim(
+      attachmentId,
+      userId,
+      roomId,
+      messageId,
+    );
+
+    if (!attachment) {
+      throw new InvalidAttachmentException(
+        `Attachment '${attachmentId}' cannot be sent in this room or was already sent`,
+      );
+    }
+
+    return attachment;
+  }
+
+  /**
+   * Gives back an attachment claimed by a message that was never stored
+   *
+   * @param {string} attachmentId - Attachment UUID
+   * @param {string} messageId - ID the message would have had
+   * @returns {Promise<void>}
+   */
+  async releaseForMessage(
+    attachmentId: string,
+    messageId: string,
+  ): Promise<void> {
+    await this.attachmentRepository.release(attachmentId, messageId);
+  }
+
+  /**
+   * Deletes an attachment's blobs and metadata
+   *
+   * @description Storage failures are logged rather than thrown so that
+   * deleting the owning message always succeeds.
+   *
+   * @param {string} attachmentId - Attachment UUID
+   * @returns {Promise<void>}
+   */
+  async remove(attachmentId: string): Promise<void> {
+    const attachment = await this.attachmentRepository.delete(attachmentId);
+    if (!attachment) return;
+
+    const keys = [attachment.storageKey, attachment.thumbnailKey].filter(
+      (key): key is string => key !== null,
+    );
+
+    for (const key of keys) {
+      try {
+        await this.storage.delete(key);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        this.logger.warn(`Failed to delete blob ${key}: ${message}`);
+      }
+    }
+
+    this.logger.log(`Attachment removed: ${attachmentId}`);
+  }
+
+  /**
+   * Deletes every attachment a user uploaded
+   *
+   * @description Includes uploads that were never sent with a message.
+   *
+   * @param {string} uploaderId - Uploader's user ID
+   * @returns {Promise<number>} Number of attachments deleted
+   */
+  async removeByUploader(uploaderId: string): Promise<number> {
+    const attachmentIds =
+      await this.attachmentRepository.findIdsByUploader(uploaderId);
+
+    for (const attachmentId of attachmentIds) {
+      await this.remove(attachmentId);
+    }
+
+    return attachmentIds.length;
+  }
+
+  /**
+   * Validates that the session's user participates in a room
+   *
+   * @private
+   * @param {string} sessionId - Session ID
+   * @param {string} roomId - Room ID
+   * @param {boolean} requireActive - Whether the room must still be open
+   * @returns {Promise<string>} The user ID
+   */
+  private async validateParticipant(
+    sessionId: string,
+    roomId: string,
+    requireActive = false,
+  ): Promise<string> {
+    const userId = await this.sessionService.getUserId(sessionId);
+
+    if (!userId) {
+      throw new UserNotInRoomException('unknown', roomId);
+    }
+
+    const room = await this.roomService.getRoomById(roomId);
+
+    if (!room.participants.some((p) => p.userId === userId)) {
+      throw new UserNotInRoomException(userId, roomId);
+    }
+
+    if (requireActive && room.status === RoomStatus.CLOSED) {
+      throw new RoomClosedException(room.roomCode);
+    }
+
+    return userId;
+  }
+
+  /**
+   * Verifies an image and renders its thumbnail
+   *
+   * @description The declared MIME type is client-controlled, so the file is
+   * decoded and must actually be in the declared format.
+   *
+   * @private
+   * @param {Buffer} buffer - Image contents
+   * @param {string} mimeType - Declared MIME type
+   * @returns Pixel dimensions and a WebP thumbnail
+   * @throws {UnsupportedAttachmentTypeException} If the file isn't a valid image of that type
+   */
+  private async processImage(
+    buffer: Buffer,
+    mimeType: string,
+  ): Promise<{ width: number; height: number; thumbnail: Buffer }> {
+    try {
+      const metadata = await sharp(buffer).metadata();
+
+      if (!metadata.format || IMAGE_FORMATS[metadata.format] !== mimeType) {
+        throw new Error(`Decoded format '${metadata.format}' does not match`);
+      }
+
+      const thumbnail = await sharp(buffer)
+        .rotate()
+        .resize(this.thumbnailSize, this.thumbnailSize, {
+          fit: 'inside',
+          withoutEnlargement: true,
+        })
+        .webp({ quality: 80 })
+        .toBuffer();
+
+      // EXIF orientations 5-8 swap the displayed width and height
+      const rotated = (metadata.orientation ?? 1) >= 5;
+
+      return {
+        width: (rotated ? metadata.height : metadata.width) ?? 0,
+        height: (rotated ? metadata.width : metadata.height) ?? 0,
+        thumbnail,
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.warn(`Rejected image upload (${mimeType}): ${message}`);
+      throw new UnsupportedAttachmentTypeException(mimeType);
+    }
+  }
+
+  /**
+   * Verifies a voice note and reads its duration
+   *
+   * @description Like images, the declared MIME type is client-controlled, so
+   * the container is parsed and must match it, use an allowed codec, and
+   * declare a duration within the limit.
+   *
+   * @private
+   * @param {Buffer} buffer - Audio contents
+   * @param {string} mimeType - Declared MIME type (without parameters)
+   * @returns {number} Duration in milliseconds
+   * @throws {UnsupportedAttachmentTypeException} If the file isn't valid audio with an allowed codec
+   * @throws {AudioTooLongException} If the duration exceeds the limit
+   */
+  private processAudio(buffer: Buffer, mimeType: string): number {
+    const probe = probeAudio(buffer);
+
+    if (!probe || probe.container !== AUDIO_CONTAINERS[mimeType]) {
+      this.logger.warn(
+        `Rejected audio upload (${mimeType}): unrecognised container`,
+      );
+      throw new UnsupportedAttachmentTypeException(mimeType);
+    }
+
+    if (!probe.codec || !this.allowedAudioCodecs.has(probe.codec)) {
+      throw new UnsupportedAttachmentTypeException(
+        `${mimeType}; codecs=${probe.codec ?? 'unknown'}`,
+      );
+    }
+
+    if (probe.durationMs === null) {
+      throw new InvalidAttachmentException(
+        'Could not determine the voice note duration',
+      );
+    }
+
+    if (probe.durationMs > this.audioMaxDurationMs) {
+      throw new AudioTooLongException(this.audioMaxDurationMs);
+    }
+
+    return probe.durationMs;
+  }
+
+  /**
+   * Strips path components and control characters from a file name
+   *
+   * @private
+   * @param {string} fileName - Client-provided file name
+   * @returns {string} Safe display name
+   */
+  private sanitizeFileName(fileName: string): string {
+    const name = (fileName.split(/[/\\]/).pop() ?? '')
+      // eslint-disable-next-line no-control-regex
+      .replace(/[\u0000-\u001f\u007f"]/g, '')
+      .trim()
+      .slice(0, MAX_FILE_NAME_LENGTH);
+
+    return name || 'file';
+  }
+
+  /**
+   * Maps an attachment document to response DTO
+   *
+   * @private
+   * @param {AttachmentDocument} attachment - Attachment document
+   * @returns {AttachmentResponseDto} Response DTO
+   */
+  private mapToResponse(attachment: AttachmentDocument): AttachmentResponseDto {
+    return {
+      attachmentId: attachment._id,
+      roomId: attachment.roomId,
+      fileName: attachment.fileName,
+      mimeType: attachment.mimeType,
+      size: attachment.size,
+      width: attachment.width ?? undefined,
+      height: attachment.height ?? undefined,
+      hasThumbnail: attachment.thumbnailKey !== null,
+      durationMs: attachment.durationMs ?? undefined,
+      waveform: attachment.waveform ?? undefined,
+      createdAt: attachment.createdAt,
+    };
+  }
+}
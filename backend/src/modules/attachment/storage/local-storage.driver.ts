@@ -0,0 +1,79 @@
+/**
+ * @fileoverview Local Disk Storage Driver
+ * @description Default StorageDriver that keeps blobs on the local filesystem
+ * @module modules/attachment/storage/local-storage
+ */
+
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createReadStream } from 'fs';
+import { mkdir, rm, stat, writeFile } from 'fs/promises';
+import { dirname, resolve, sep } from 'path';
+import { Readable } from 'stream';
+import { StorageDriver } from './storage-driver.interface';
+
+/**
+ * Local Storage Driver
+ *
+ * @description Writes each blob to `<ATTACHMENT_STORAGE_DIR>/<key>`.
+ * Suitable for single-instance deployments; horizontally scaled
+ * deployments should bind STORAGE_DRIVER to a shared backend instead.
+ *
+ * @class LocalStorageDriver
+ * @implements {StorageDriver}
+ */
+@Injectable()
+export class LocalStorageDriver implements StorageDriver, OnModuleInit {
+  private readonly logger = new Logger(LocalStorageDriver.name);
+
+  private rootDir: string;
+
+  constructor(private readonly configService: ConfigService) {}
+
+  onModuleInit(): void {
+    this.rootDir = resolve(
+      this.configService.get<string>('ATTACHMENT_STORAGE_DIR', './uploads'),
+    );
+    this.logger.log(`Storing attachments in ${this.rootDir}`);
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const path = this.resolveKey(key);
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, data);
+  }
+
+  async get(key: string): Promise<Readable | null> {
+    const path = this.resolveKey(key);
+
+    try {
+      await stat(path);
+    } catch {
+      return null;
+    }
+
+    return createReadStream(path);
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.resolveKey(key), { force: true });
+  }
+
+  /**
+   * Maps a key to a path inside the storage directory
+   *
+   * @private
+   * @param {string} key - Storage key
+   * @returns {string} Absolute file path
+   * @throws {Error} If the key would escape the storage directory
+   */
+  private resolveKey(key: string): string {
+    const path = resolve(this.rootDir, key);
+
+    if (!path.startsWith(this.rootDir + sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+
+    return path;
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * @fileoverview Storage Driver Interface
+ * @description Contract for blob storage backends used by attachments
+ * @module modules/attachment/storage/storage-driver
+ *
+ * Design Pattern: Strategy Pattern
+ * - Attachment logic depends only on this interface
+ * - Backends (local disk, object storage) are swapped via the STORAGE_DRIVER provider
+ */
+
+import { Readable } from 'stream';
+
+/**
+ * Storage driver injection token
+ */
+export const STORAGE_DRIVER = 'STORAGE_DRIVER';
+
+/**
+ * Storage Driver
+ *
+ * @description Stores opaque blobs under string keys. Keys are generated by
+ * the attachment service and never contain user input.
+ *
+ * @interface StorageDriver
+ */
+export interface StorageDriver {
+  /**
+   * Stores a blob, replacing any existing blob with the same key
+   */
+  put(key: string, data: Buffer, mimeType: string): Promise<void>;
+
+  /**
+   * Opens a blob for reading
+   *
+   * @returns {Promise<Readable | null>} Stream, or null if the key doesn't exist
+   */
+  get(key: string): Promise<Readable | null>;
+
+  /**
+   * Removes a blob (no-op if the key doesn't exist)
+   */
+  delete(key: string): Promise<void>;
+}
@@ -7,49 +7,71 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { HistoryController } from './history.controller';
 import { HistoryService } from '../services/history.service';
 import { RoomStatus } from '../../room/schemas/room.schema';
+import { SessionNotFoundException } from '../../../common/exceptions/business.exceptions';
 
 describe('HistoryController', () => {
   let controller: HistoryController;
-  let historyService: jest.Mocked<HistoryService>;
+  let historyService: {
+    getHistory: jest.Mock;
+    archiveChat: jest.Mock;
+    unarchiveChat: jest.Mock;
+    deleteFromHistory: jest.Mock;
+    searchHistory: jest.Mock;
+  };
 
   const mockSessionId = 'session-123';
 
   const mockHistoryItem = {
     roomId: 'room-123',
     roomCode: 'ABC123',
-    displayName: 'User One',
+    otherParticipant: 'User One',
     lastMessage: 'Hello!',
-    lastMessageAt: new Date(),
-    status: RoomStatus.ACTIVE,
+    lastMessageAt: new Date().toISOString(),
+    status: RoomStatus.ACTIVE as 'active',
     isArchived: false,
-    participantCount: 2,
+    encrypted: false,
+    imported: false,
+    createdAt: new Date().toISOString(),
+    messageCount: 3,
     unreadCount: 0,
   };
 
-  const mockPaginatedHistory = {
-    items: [mockHistoryItem],
+  const mockHistory = {
+    chats: [mockHistoryItem],
     total: 1,
-    page: 1,
-    limit: 20,
-    hasMore: false,
+    archivedCount: 0,
+    activeCount: 1,
   };
 
+  const archiveResult = (isArchived: boolean) => ({
+    roomId: 'room-123',
+    isArchived,
+    updatedAt: new Date().toISOString(),
+  });
+
   beforeEach(async () => {
-    const mockHistoryService = {
-      getHistory: jest.fn().mockResolvedValue(mockPaginatedHistory),
-      archiveChat: jest.fn().mockResolvedValue({ success: true }),
-      unarchiveChat: jest.fn().mockResolvedValue({ success: true }),
-      deleteChat: jest.fn().mockResolvedValue({ success: true }),
-      getArchivedChats: jest.fn().mockResolvedValue(mockPaginatedHistory),
+    historyService = {
+      getHistory: jest.fn().mockResolvedValue(mockHistory),
+      archiveChat: jest.fn().mockResolvedValue(archiveResult(true)),
+      unarchiveChat: jest.fn().mockResolvedValue(archiveResult(false)),
+      deleteFromHistory: jest.fn().mockResolvedValue({
+        roomId: 'room-123',
+        deleted: true,
+        deletedAt: new Date().toISOString(),
+      }),
+      searchHistory: jest.fn().mockResolvedValue({
+        query: 'link',
+        results: [],
+        pagination: { hasMore: false },
+      }),
     };
 
     const module: TestingModule = await Test.createTestingModule({
       controllers: [HistoryController],
-      providers: [{ provide: HistoryService, useValue: mockHistoryService }],
+      providers: [{ provide: HistoryService, useValue: historyService }],
     }).compile();
 
     controller = module.get<HistoryController>(HistoryController);
-    historyService = module.get(HistoryService);
   });
 
   afterEach(() => {
@@ -57,70 +79,71 @@ describe('HistoryController', () => {
   });
 
   describe('getHistory', () => {
-    it('should return paginated chat history', async () => {
-      const result = await controller.getHistory(mockSessionId);
+    it('should return chat history', async () => {
+      const result = await controller.getHistory(mockSessionId, {});
 
-      expect(result).toEqual(mockPaginatedHistory);
+      expect(result).toEqual(mockHistory);
       expect(historyService.getHistory).toHaveBeenCalledWith(
         mockSessionId,
-        expect.any(Object),
+        undefined,
+        undefined,
       );
     });
 
-    it('should pass pagination parameters', async () => {
-      const page = 2;
-      const limit = 10;
-
-      await controller.getHistory(mockSessionId, page, limit);
+    it('should pass the archive filters', async () => {
+      await controller.getHistory(mockSessionId, {
+        includeArchived: true,
+        archivedOnly: false,
+      });
 
       expect(historyService.getHistory).toHaveBeenCalledWith(
         mockSessionId,
-        expect.objectContaining({ page, limit }),
+        true,
+        false,
       );
     });
 
-    it('should use default pagination if not provided', async () => {
-      await controller.getHistory(mockSessionId);
-
-      expect(historyService.getHistory).toHaveBeenCalledWith(
-        mockSessionId,
-        expect.objectContaining({ page: 1, limit: 20 }),
-      );
-    });
+    it('should return only archived chats when asked', async () => {
+      const archivedHistory = {
+        ...mockHistory,
+        chats: [{ ...mockHistoryItem, isArchived: true }],
+        archivedCount: 1,
+        activeCount: 0,
+      };
+      historyService.getHistory.mockResolvedValue(archivedHistory);
 
-    it('should filter by status when provided', async () => {
-      await controller.getHistory(mockSessionId, 1, 20, RoomStatus.ACTIVE);
+      const result = await controller.getHistory(mockSessionId, {
+        archivedOnly: true,
+      });
 
+      expect(result).toEqual(archivedHistory);
       expect(historyService.getHistory).toHaveBeenCalledWith(
         mockSessionId,
-        expect.objectContaining({ status: RoomStatus.ACTIVE }),
+        undefined,
+        true,
       );
     });
-  });
-
-  describe('getArchivedChats', () => {
-    it('should return archived chats', async () => {
-      const archivedHistory = {
-        ...mockPaginatedHistory,
-        items: [{ ...mockHistoryItem, isArchived: true }],
-      };
-      historyService.getArchivedChats.mockResolvedValue(archivedHistory);
-
-      const result = await controller.getArchivedChats(mockSessionId);
 
-      expect(result).toEqual(archivedHistory);
-      expect(historyService.getArchivedChats).toHaveBeenCalledWith(
-        mockSessionId,
-        expect.any(Object),
+    it('should throw SessionNotFoundException when session is missing', async () => {
+      await expect(controller.getHistory('', {})).rejects.toThrow(
+        SessionNotFoundException,
       );
     });
+  });
 
-    it('should pass pagination to archived chats', async () => {
-      await controller.getArchivedChats(mockSessionId, 2, 5);
+  describe('searchHistory', () => {
+    it("should search across the user's chats", async () => {
+      const result = await controller.searchHistory(mockSessionId, {
+        q: 'link',
+        limit: 10,
+      });
 
-      expect(historyService.getArchivedChats).toHaveBeenCalledWith(
+      expect(result.query).toBe('link');
+      expect(historyService.searchHistory).toHaveBeenCalledWith(
         mockSessionId,
-        expect.objectContaining({ page: 2, limit: 5 }),
+        'link',
+        10,
+        undefined,
       );
     });
   });
@@ -131,7 +154,7 @@ describe('HistoryController', () => {
 
       const result = await controller.archiveChat(mockSessionId, roomId);
 
-      expect(result).toEqual({ success: true });
+      expect(result.isArchived).toBe(true);
       expect(historyService.archiveChat).toHaveBeenCalledWith(
         mockSessionId,
         roomId,
@@ -153,7 +176,7 @@ describe('HistoryController', () => {
 
       const result = await controller.unarchiveChat(mockSessionId, roomId);
 
-      expect(result).toEqual({ success: true });
+      expect(result.isArchived).toBe(false);
       expect(historyService.unarchiveChat).toHaveBeenCalledWith(
         mockSessionId,
         roomId,
@@ -171,32 +194,36 @@ describe('HistoryController', () => {
     });
   });
 
-  describe('deleteChat', () => {
+  describe('deleteFromHistory', () => {
     it('should delete a chat from history', async () => {
       const roomId = 'room-123';
 
-      const result = await controller.deleteChat(mockSessionId, roomId);
+      const result = await controller.deleteFromHistory(mockSessionId, roomId);
 
-      expect(result).toEqual({ success: true });
-      expect(historyService.deleteChat).toHaveBeenCalledWith(
+      expect(result.deleted).toBe(true);
+      expect(historyService.deleteFromHistory).toHaveBeenCalledWith(
         mockSessionId,
         roomId,
       );
     });
 
     it('should throw error if delete fails', async () => {
-      historyService.deleteChat.mockRejectedValue(new Error('Delete failed'));
+      historyService.deleteFromHistory.mockRejectedValue(
+        new Error('Delete failed'),
+      );
 
       await expect(
-        controller.deleteChat(mockSessionId, 'room-123'),
+        controller.deleteFromHistory(mockSessionId, 'room-123'),
       ).rejects.toThrow('Delete failed');
     });
 
     it('should handle non-existent room gracefully', async () => {
-      historyService.deleteChat.mockRejectedValue(new Error('Room not found'));
+      historyService.deleteFromHistory.mockRejectedValue(
+        new Error('Room not found'),
+      );
 
       await expect(
-        controller.deleteChat(mockSessionId, 'non-existent'),
+        controller.deleteFromHistory(mockSessionId, 'non-existent'),
       ).rejects.toThrow('Room not found');
     });
   });
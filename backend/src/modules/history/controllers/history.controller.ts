@@ -15,25 +15,38 @@ import {
   Delete,
   Param,
   Query,
-  Headers,
   HttpCode,
   HttpStatus,
   Logger,
+  Header,
+  StreamableFile,
+  UploadedFile,
+  UseInterceptors,
 } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
 import { HistoryService } from '../services/history.service';
 import {
   GetHistoryQueryDto,
+  SearchHistoryQueryDto,
+  ExportChatQueryDto,
   ChatHistoryResponseDto,
   ArchiveChatResponseDto,
   DeleteChatResponseDto,
+  ImportChatResponseDto,
 } from '../dto/history.dto';
+import { MessageSearchResponseDto } from '../../message/dto/message.dto';
 import { SessionNotFoundException } from '../../../common/exceptions/business.exceptions';
+import { SessionId } from '../../../common/decorators/session.decorator';
+import { ExportFormat } from '../formatters/chat-export.formatter';
 
 /**
  * History Controller
  * 
  * @description Exposes REST API endpoints for history management:
  * - GET /history - Get user's chat history
+ * - GET /history/search - Search messages across the user's chats
+ * - GET /history/:roomId/export - Download a conversation
+ * - POST /history/import - Restore a conversation from a JSON export
  * - POST /history/:roomId/archive - Archive a chat
  * - POST /history/:roomId/unarchive - Unarchive a chat
  * - DELETE /history/:roomId - Delete chat from history
@@ -50,14 +63,14 @@ export class HistoryController {
    * Gets user's chat history
    * 
    * @route GET /history
-   * @param {string} sessionId - Session ID from X-Session-Id header
+   * @param {string} sessionId - Session ID from the session token
    * @param {GetHistoryQueryDto} query - Query parameters
    * @returns {Promise<ChatHistoryResponseDto>} Chat history
    * 
    * @example
    * // Request
    * GET /api/v1/history?includeArchived=false
-   * Headers: { "X-Session-Id": "session-uuid" }
+   * Headers: { "Authorization": "Bearer <session-token>" }
    * 
    * // Response 200
    * {
@@ -76,7 +89,7 @@ export class HistoryController {
    */
   @Get()
   async getHistory(
-    @Headers('x-session-id') sessionId: string,
+    @SessionId() sessionId: string,
     @Query() query: GetHistoryQueryDto,
   ): Promise<ChatHistoryResponseDto> {
     this.validateSessionId(sessionId);
@@ -88,18 +101,146 @@ export class HistoryController {
     );
   }
 
+  /**
+   * Searches messages across the user's chats
+   *
+   * @route GET /history/search
+   * @param {string} sessionId - Session ID from the session token
+   * @param {SearchHistoryQueryDto} query - Query parameters
+   * @returns {Promise<MessageSearchResponseDto>} Matching messages
+   *
+   * @example
+   * // Request
+   * GET /api/v1/history/search?q=link
+   * Headers: { "Authorization": "Bearer <session-token>" }
+   *
+   * // Response 200
+   * {
+   *   "query": "link",
+   *   "results": [
+   *     {
+   *       "messageId": "...",
+   *       "roomId": "...",
+   *       "roomCode": "ABC123",
+   *       "snippet": "Here is the link you wanted",
+   *       "highlights": [{ "start": 12, "end": 16 }],
+   *       ...
+   *     }
+   *   ],
+   *   "pagination": { "hasMore": false }
+   * }
+   */
+  @Get('search')
+  async searchHistory(
+    @SessionId() sessionId: string,
+    @Query() query: SearchHistoryQueryDto,
+  ): Promise<MessageSearchResponseDto> {
+    this.validateSessionId(sessionId);
+
+    return this.historyService.searchHistory(
+      sessionId,
+      query.q,
+      query.limit || 20,
+      query.before,
+    );
+  }
+
+  /**
+   * Downloads a conversation
+   *
+   * @description Streamed as a file, so it isn't wrapped in the usual
+   * success envelope.
+   *
+   * @route GET /history/:roomId/export
+   * @param {string} sessionId - Session ID from the session token
+   * @param {string} roomId - Room ID to export
+   * @param {ExportChatQueryDto} query - Query parameters
+   * @returns {Promise<StreamableFile>} Export file
+   *
+   * @example
+   * // Request
+   * GET /api/v1/history/xxx/export?format=txt
+   * Headers: { "Authorization": "Bearer <session-token>" }
+   *
+   * // Response 200 (Content-Disposition: attachment; filename="chat-ABC123-2025-12-18.txt")
+   * Chat ABC123
+   * Started 2025-12-18 09:00:00 UTC
+   * ...
+   * [2025-12-18 09:01:12 UTC] Anonymous User: Hello!
+   */
+  @Get(':roomId/export')
+  @Header('Cache-Control', 'no-store')
+  async exportChat(
+    @SessionId() sessionId: string,
+    @Param('roomId') roomId: string,
+    @Query() query: ExportChatQueryDto,
+  ): Promise<StreamableFile> {
+    this.validateSessionId(sessionId);
+
+    const { stream, fileName, mimeType } = await this.historyService.exportChat(
+      sessionId,
+      roomId,
+      query.format || ExportFormat.JSON,
+    );
+
+    return new StreamableFile(stream, {
+      type: mimeType,
+      disposition: `attachment; filename="${fileName}"`,
+    });
+  }
+
+  /**
+   * Restores a conversation from a JSON export
+   *
+   * @description The archive is uploaded as multipart/form-data in the
+   * `file` field. It becomes a closed, read-only chat in the caller's
+   * history.
+   *
+   * @route POST /history/import
+   * @param {string} sessionId - Session ID from the session token
+   * @param {Express.Multer.File} file - Exported JSON archive
+   * @returns {Promise<ImportChatResponseDto>} The restored chat
+   *
+   * @example
+   * // Request
+   * POST /api/v1/history/import
+   * Headers: { "Authorization": "Bearer <session-token>" }
+   * Body (multipart): file=@chat-ABC123-2025-12-18.json
+   *
+   * // Response 201
+   * {
+   *   "roomId": "019123ab-cdef-7000-8000-000000000002",
+   *   "roomCode": "XYZ789",
+   *   "messageCount": 42,
+   *   "importedAt": "2025-12-19T08:00:00.000Z"
+   * }
+   */
+  @Post('import')
+  @HttpCode(HttpStatus.CREATED)
+  @UseInterceptors(FileInterceptor('file'))
+  async importChat(
+    @SessionId() sessionId: string,
+    @UploadedFile() file: Express.Multer.File | undefined,
+  ): Promise<ImportChatResponseDto> {
+    this.validateSessionId(sessionId);
+
+    this.logger.log('Importing chat from an export');
+
+    return this.historyService.importChat(sessionId, file?.buffer);
+  }
+
   /**
    * Archives a chat
    * 
    * @route POST /history/:roomId/archive
-   * @param {string} sessionId - Session ID from X-Session-Id header
+   * @param {string} sessionId - Session ID from the session token
    * @param {string} roomId - Room ID to archive
    * @returns {Promise<ArchiveChatResponseDto>} Archive confirmation
    * 
    * @example
    * // Request
    * POST /api/v1/history/xxx/archive
-   * Headers: { "X-Session-Id": "session-uuid" }
+   * Headers: { "Authorization": "Bearer <session-token>" }
    * 
    * // Response 200
    * { "roomId": "xxx", "isArchived": true }
@@ -107,7 +248,7 @@ export class HistoryController {
   @Post(':roomId/archive')
   @HttpCode(HttpStatus.OK)
   async archiveChat(
-    @Headers('x-session-id') sessionId: string,
+    @SessionId() sessionId: string,
     @Param('roomId') roomId: string,
   ): Promise<ArchiveChatResponseDto> {
     this.validateSessionId(sessionId);
@@ -121,14 +262,14 @@ export class HistoryController {
    * Unarchives a chat
    * 
    * @route POST /history/:roomId/unarchive
-   * @param {string} sessionId - Session ID from X-Session-Id header
+   * @param {string} sessionId - Session ID from the session token
    * @param {string} roomId - Room ID to unarchive
    * @returns {Promise<ArchiveChatResponseDto>} Unarchive confirmation
    */
   @Post(':roomId/unarchive')
   @HttpCode(HttpStatus.OK)
   async unarchiveChat(
-    @Headers('x-session-id') sessionId: string,
+    @SessionId() sessionId: string,
     @Param('roomId') roomId: string,
   ): Promise<ArchiveChatResponseDto> {
     this.validateSessionId(sessionId);
@@ -142,14 +283,14 @@ export class HistoryController {
    * Deletes a chat from user's history
    * 
    * @route DELETE /history/:roomId
-   * @param {string} sessionId - Session ID from X-Session-Id header
+   * @param {string} sessionId - Session ID from the session token
    * @param {string} roomId - Room ID to delete
    * @returns {Promise<DeleteChatResponseDto>} Delete confirmation
    * 
    * @example
    * // Request
    * DELETE /api/v1/history/xxx
-   * Headers: { "X-Session-Id": "session-uuid" }
+   * Headers: { "Authorization": "Bearer <session-token>" }
    * 
    * // Response 200
    * { "roomId": "xxx", "deleted": true }
@@ -157,7 +298,7 @@ export class HistoryController {
   @Delete(':roomId')
   @HttpCode(HttpStatus.OK)
   async deleteFromHistory(
-    @Headers('x-session-id') sessionId: string,
+    @SessionId() sessionId: string,
     @Param('roomId') roomId: string,
   ): Promise<DeleteChatResponseDto> {
     this.validateSessionId(sessionId);
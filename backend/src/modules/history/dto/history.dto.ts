@@ -2,7 +2,7 @@
  * @fileoverview History DTOs (Data Transfer Objects)
  * @description Request and response DTOs for history operations
  * @module modules/history/dto
- * 
+ *
  * Design Considerations:
  * - Validation with class-validator decorators
  * - Transform decorators for query string parsing
@@ -10,12 +10,49 @@
  * - Type-safe response structures
  */
 
-import { IsOptional, IsBoolean } from 'class-validator';
-import { Transform } from 'class-transformer';
+import {
+  IsOptional,
+  IsBoolean,
+  IsEnum,
+  IsString,
+  IsNotEmpty,
+  IsInt,
+  IsIn,
+  IsISO8601,
+  IsArray,
+  IsObject,
+  Min,
+  Max,
+  MinLength,
+  MaxLength,
+  ArrayMaxSize,
+  ValidateNested,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import {
+  EXPORT_INTEGRITY_ALGORITHM,
+  ExportFormat,
+} from '../formatters/chat-export.formatter';
+import { RoomStatus } from '../../room/schemas/room.schema';
+import {
+  ContentType,
+  ReactionType,
+} from '../../message/schemas/message.schema';
+import { MAX_ENCRYPTED_MESSAGE_LENGTH } from '../../message/dto/message.dto';
+
+/**
+ * Longest ID accepted in an imported archive
+ */
+const MAX_ARCHIVE_ID_LENGTH = 64;
+
+/**
+ * Participants kept when importing an archive (the room maximum)
+ */
+const MAX_ARCHIVE_PARTICIPANTS = 100;
 
 /**
  * Get History Query DTO
- * 
+ *
  * @description Query parameters for history retrieval
  * Supports flexible filtering:
  * - Default: Active (non-archived) chats only
@@ -42,9 +79,266 @@ export class GetHistoryQueryDto {
   archivedOnly?: boolean = false;
 }
 
+/**
+ * Search History Query DTO
+ *
+ * @description Query parameters for searching across all chats in the
+ * user's history (archived chats included)
+ *
+ * @example
+ * GET /history/search?q=link&limit=20&before=cursor
+ */
+export class SearchHistoryQueryDto {
+  /**
+   * Search query (words, "quoted phrases", -excluded words)
+   */
+  @IsString()
+  @Transform(({ value }: { value: unknown }) =>
+    typeof value === 'string' ? value.trim() : value,
+  )
+  @MinLength(2, { message: 'Search query must be at least 2 characters' })
+  @MaxLength(100, { message: 'Search query cannot exceed 100 characters' })
+  q: string;
+
+  /**
+   * Maximum number of results to return
+   * @default 20
+   */
+  @IsOptional()
+  @Transform(
+    ({ value }: { value: unknown }) => parseInt(String(value), 10) || 20,
+  )
+  limit?: number = 20;
+
+  /**
+   * Cursor for pagination (message ID to fetch before)
+   */
+  @IsOptional()
+  @IsString()
+  before?: string;
+}
+
+/**
+ * Export Chat Query DTO
+ *
+ * @description Query parameters for exporting a conversation
+ *
+ * @example
+ * GET /history/:roomId/export?format=html
+ */
+export class ExportChatQueryDto {
+  /**
+   * File format (json, txt or html)
+   * @default "json"
+   */
+  @IsOptional()
+  @IsEnum(ExportFormat, { message: 'Format must be json, txt or html' })
+  format?: ExportFormat = ExportFormat.JSON;
+}
+
+/**
+ * Archived Participant DTO
+ *
+ * @description A participant listed in an exported JSON archive
+ */
+export class ArchivedParticipantDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(MAX_ARCHIVE_ID_LENGTH)
+  userId: string;
+
+  @IsString()
+  @MaxLength(50)
+  displayName: string;
+}
+
+/**
+ * Archived Room DTO
+ *
+ * @description Room details in an exported JSON archive
+ */
+export class ArchivedRoomDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(MAX_ARCHIVE_ID_LENGTH)
+  roomId: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(MAX_ARCHIVE_ID_LENGTH)
+  roomCode: string;
+
+  @IsEnum(RoomStatus)
+  status: RoomStatus;
+
+  @IsBoolean()
+  encrypted: boolean;
+
+  @IsISO8601()
+  createdAt: string;
+
+  @IsOptional()
+  @IsISO8601()
+  closedAt: string | null;
+}
+
+/**
+ * Archived Attachment DTO
+ *
+ * @description Attachment details kept in an export (the file itself isn't)
+ */
+export class ArchivedAttachmentDto {
+  @IsString()
+  @MaxLength(255)
+  fileName: string;
+
+  @IsString()
+  @MaxLength(255)
+  mimeType: string;
+
+  @IsInt()
+  @Min(0)
+  size: number;
+}
+
+/**
+ * Archived Reaction DTO
+ *
+ * @description Reaction count on an exported message
+ */
+export class ArchivedReactionDto {
+  @IsEnum(ReactionType)
+  type: ReactionType;
+
+  @IsInt()
+  @Min(1)
+  @Max(MAX_ARCHIVE_PARTICIPANTS)
+  count: number;
+}
+
+/**
+ * Archived Message DTO
+ *
+ * @description A message in an exported JSON archive
+ */
+export class ArchivedMessageDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(MAX_ARCHIVE_ID_LENGTH)
+  messageId: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(MAX_ARCHIVE_ID_LENGTH)
+  senderId: string;
+
+  @IsString()
+  @MaxLength(50)
+  senderName: string;
+
+  @IsEnum(ContentType)
+  contentType: ContentType;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(MAX_ENCRYPTED_MESSAGE_LENGTH)
+  content: string | null;
+
+  @IsBoolean()
+  encrypted: boolean;
+
+  @IsOptional()
+  @IsObject()
+  @ValidateNested()
+  @Type(() => ArchivedAttachmentDto)
+  attachment: ArchivedAttachmentDto | null;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(MAX_ARCHIVE_ID_LENGTH)
+  replyTo: string | null;
+
+  @IsArray()
+  @ArrayMaxSize(Object.keys(ReactionType).length)
+  @ValidateNested({ each: true })
+  @Type(() => ArchivedReactionDto)
+  reactions: ArchivedReactionDto[];
+
+  @IsBoolean()
+  isDeleted: boolean;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  deletionPlaceholder: string | null;
+
+  @IsOptional()
+  @IsISO8601()
+  editedAt: string | null;
+
+  @IsISO8601()
+  createdAt: string;
+}
+
+/**
+ * Archive Integrity DTO
+ *
+ * @description Hash at the end of an exported JSON archive
+ */
+export class ArchiveIntegrityDto {
+  @IsIn([EXPORT_INTEGRITY_ALGORITHM])
+  algorithm: string;
+
+  @IsString()
+  @IsNotEmpty()
+  hash: string;
+}
+
+/**
+ * Chat Archive DTO
+ *
+ * @description Layout of a JSON export, checked before it is imported.
+ * Validated in the service rather than by the global pipe, since the
+ * archive arrives as an uploaded file. Message count is limited by the
+ * HISTORY_IMPORT_MAX_MESSAGES setting.
+ */
+export class ChatArchiveDto {
+  @IsInt()
+  version: number;
+
+  @IsISO8601()
+  exportedAt: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(MAX_ARCHIVE_ID_LENGTH)
+  exportedBy: string;
+
+  @IsObject()
+  @ValidateNested()
+  @Type(() => ArchivedRoomDto)
+  room: ArchivedRoomDto;
+
+  @IsArray()
+  @ArrayMaxSize(MAX_ARCHIVE_PARTICIPANTS)
+  @ValidateNested({ each: true })
+  @Type(() => ArchivedParticipantDto)
+  participants: ArchivedParticipantDto[];
+
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ArchivedMessageDto)
+  messages: ArchivedMessageDto[];
+
+  @IsObject()
+  @ValidateNested()
+  @Type(() => ArchiveIntegrityDto)
+  integrity: ArchiveIntegrityDto;
+}
+
 /**
  * Chat History Item Response DTO
- * 
+ *
  * @description Represents a single chat in the user's history
  * with all necessary metadata for UI display
  */
@@ -55,7 +349,7 @@ export class ChatHistoryItemDto {
   roomId: string;
 
   /**
-   * 6-character alphanumeric room code
+   * Shareable room code
    */
   roomCode: string;
 
@@ -67,7 +361,8 @@ export class ChatHistoryItemDto {
 
   /**
    * Preview of the last message (truncated to 100 chars)
-   * Shows "Message deleted" for deleted messages
+   * Shows "Message deleted" for deleted messages and
+   * "Encrypted message" in end-to-end encrypted rooms
    * Null if no messages in the room
    */
   lastMessage: string | null;
@@ -91,6 +386,18 @@ export class ChatHistoryItemDto {
    */
   isArchived: boolean;
 
+  /**
+   * Whether the room is end-to-end encrypted
+   * The server can't preview or search its messages
+   */
+  encrypted: boolean;
+
+  /**
+   * Whether the chat was restored from an export
+   * Imported chats are read-only
+   */
+  imported: boolean;
+
   /**
    * ISO timestamp when the room was created
    */
@@ -111,7 +418,7 @@ export class ChatHistoryItemDto {
 
 /**
  * Chat History Response DTO
- * 
+ *
  * @description Paginated response with metadata for UI display
  */
 export class ChatHistoryResponseDto {
@@ -138,7 +445,7 @@ export class ChatHistoryResponseDto {
 
 /**
  * Archive Chat Response DTO
- * 
+ *
  * @description Response for archive/unarchive operations
  */
 export class ArchiveChatResponseDto {
@@ -160,7 +467,7 @@ export class ArchiveChatResponseDto {
 
 /**
  * Delete Chat Response DTO
- * 
+ *
  * @description Response for delete from history operations
  */
 export class DeleteChatResponseDto {
@@ -179,3 +486,30 @@ export class DeleteChatResponseDto {
    */
   deletedAt: string;
 }
+
+/**
+ * Import Chat Response DTO
+ *
+ * @description Response after restoring an exported chat
+ */
+export class ImportChatResponseDto {
+  /**
+   * ID of the new, read-only room
+   */
+  roomId: string;
+
+  /**
+   * Code of the new room
+   */
+  roomCode: string;
+
+  /**
+   * Number of messages restored
+   */
+  messageCount: number;
+
+  /**
+   * ISO timestamp when the import happened
+   */
+  importedAt: string;
+}
@@ -0,0 +1,149 @@
+/**
+ * @fileoverview Chat Export Formatter Unit Tests
+ * @description Tests for rendering exports as JSON, plain text and HTML
+ */
+
+import {
+  CHAT_EXPORT_FORMATTERS,
+  EXPORT_VERSION,
+  ExportDigest,
+  ExportFormat,
+  ExportedChat,
+  ExportedMessage,
+} from './chat-export.formatter';
+
+describe('Chat export formatters', () => {
+  const chat: ExportedChat = {
+    roomId: 'room-123',
+    roomCode: 'ABC123',
+    status: 'closed',
+    encrypted: false,
+    createdAt: '2025-12-18T09:00:00.000Z',
+    closedAt: '2025-12-18T11:00:00.000Z',
+    exportedAt: '2025-12-19T08:00:00.000Z',
+    exportedBy: 'user-123',
+    participants: [
+      { userId: 'user-123', displayName: 'Alice' },
+      { userId: 'user-456', displayName: '<b>Bob</b>' },
+    ],
+  };
+
+  const message: ExportedMessage = {
+    messageId: 'msg-1',
+    senderId: 'user-123',
+    senderName: 'Alice',
+    contentType: 'text',
+    content: 'Hello <script>alert(1)</script>',
+    encrypted: false,
+    attachment: null,
+    replyTo: null,
+    reactions: [{ type: 'like', count: 2 }],
+    isDeleted: false,
+    deletionPlaceholder: null,
+    editedAt: null,
+    createdAt: '2025-12-18T09:01:12.000Z',
+  };
+
+  const deleted: ExportedMessage = {
+    ...message,
+    messageId: 'msg-2',
+    content: null,
+    reactions: [],
+    isDeleted: true,
+    deletionPlaceholder: 'Message deleted by Alice',
+  };
+
+  interface ParsedExport {
+    version: number;
+    exportedBy: string;
+    room: Record<string, unknown>;
+    participants: ExportedChat['participants'];
+    messages: ExportedMessage[];
+    integrity: { algorithm: string; hash: string };
+  }
+
+  const hash = (messages: ExportedMessage[]) => {
+    const digest = new ExportDigest(chat);
+    messages.forEach((m) => digest.update(m));
+    return digest.digest();
+  };
+
+  const render = (format: ExportFormat, messages: ExportedMessage[]) => {
+    const formatter = CHAT_EXPORT_FORMATTERS[format];
+    return [
+      formatter.header(chat),
+      ...messages.map((m, i) => formatter.message(m, i)),
+      formatter.footer(hash(messages)),
+    ].join('');
+  };
+
+  it('should render JSON that parses back to the export', () => {
+    const parsed = JSON.parse(
+      render(ExportFormat.JSON, [message, deleted]),
+    ) as ParsedExport;
+
+    expect(parsed.version).toBe(EXPORT_VERSION);
+    expect(parsed.exportedBy).toBe('user-123');
+    expect(parsed.room).toMatchObject({ roomCode: 'ABC123' });
+    expect(parsed.participants).toEqual(chat.participants);
+    expect(parsed.messages).toEqual([message, deleted]);
+    expect(parsed.integrity).toEqual({
+      algorithm: 'sha256',
+      hash: hash([message, deleted]),
+    });
+  });
+
+  it('should hash the same data the same way regardless of key order', () => {
+    const reordered = Object.fromEntries(
+      Object.entries(message).reverse(),
+    ) as unknown as ExportedMessage;
+
+    expect(hash([reordered])).toBe(hash([message]));
+    expect(hash([message])).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('should change the hash when a message is edited, dropped or reordered', () => {
+    const original = hash([message, deleted]);
+
+    expect(hash([{ ...message, content: 'Hello' }, deleted])).not.toBe(
+      original,
+    );
+    expect(hash([message])).not.toBe(original);
+    expect(hash([deleted, message])).not.toBe(original);
+  });
+
+  it('should render valid JSON for a conversation without messages', () => {
+    const parsed = JSON.parse(render(ExportFormat.JSON, [])) as ParsedExport;
+
+    expect(parsed.messages).toEqual([]);
+  });
+
+  it('should render one line per message with placeholders and reactions', () => {
+    const text = render(ExportFormat.TXT, [message, deleted]);
+
+    expect(text).toContain('Participants: Alice, <b>Bob</b>');
+    expect(text).toContain(
+      '[2025-12-18 09:01:12 UTC] Alice: Hello <script>alert(1)</script>',
+    );
+    expect(text).toContain('    Reactions: like 2');
+    expect(text).toContain('] Message deleted by Alice');
+  });
+
+  it('should show encrypted messages without their content', () => {
+    const text = render(ExportFormat.TXT, [
+      { ...message, content: null, encrypted: true },
+    ]);
+
+    expect(text).toContain('Alice: [Encrypted message]');
+  });
+
+  it('should escape names and content in HTML', () => {
+    const html = render(ExportFormat.HTML, [message, deleted]);
+
+    expect(html).toContain('&lt;b&gt;Bob&lt;/b&gt;');
+    expect(html).toContain('Hello &lt;script&gt;alert(1)&lt;/script&gt;');
+    expect(html).not.toContain('<script>');
+    expect(html).toContain('Message deleted by Alice');
+    expect(html.trim().endsWith('</html>')).toBe(true);
+  });
+});
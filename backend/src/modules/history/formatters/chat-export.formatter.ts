@@ -0,0 +1,326 @@
+/**
+ * @fileoverview Chat Export Formatters
+ * @description Renders exported conversations as JSON, plain text or HTML
+ * @module modules/history/formatters/chat-export
+ *
+ * Each formatter renders a header, one chunk per message and a footer,
+ * so an export can be streamed a page of messages at a time.
+ */
+
+import { createHash, Hash } from 'crypto';
+
+/**
+ * Export file formats
+ */
+export enum ExportFormat {
+  JSON = 'json',
+  TXT = 'txt',
+  HTML = 'html',
+}
+
+/**
+ * Version of the JSON export layout
+ */
+export const EXPORT_VERSION = 1;
+
+/**
+ * Room details at the top of an export
+ */
+export interface ExportedChat {
+  roomId: string;
+  roomCode: string;
+  status: string;
+  encrypted: boolean;
+  createdAt: string;
+  closedAt: string | null;
+  exportedAt: string;
+  /**
+   * User ID of the participant who made the export
+   */
+  exportedBy: string;
+  participants: { userId: string; displayName: string }[];
+}
+
+/**
+ * A message as it appears in an export
+ *
+ * Deleted messages keep their place with a placeholder instead of their
+ * content. End-to-end encrypted messages can't be read by the server and
+ * are exported without content.
+ */
+export interface ExportedMessage {
+  messageId: string;
+  senderId: string;
+  senderName: string;
+  contentType: string;
+  content: string | null;
+  encrypted: boolean;
+  attachment: { fileName: string; mimeType: string; size: number } | null;
+  replyTo: string | null;
+  reactions: { type: string; count: number }[];
+  isDeleted: boolean;
+  deletionPlaceholder: string | null;
+  editedAt: string | null;
+  createdAt: string;
+}
+
+/**
+ * Renders an export in one format
+ */
+export interface ChatExportFormatter {
+  /**
+   * Content-Type of the file
+   */
+  readonly mimeType: string;
+
+  /**
+   * File name extension
+   */
+  readonly extension: string;
+
+  header(chat: ExportedChat): string;
+
+  /**
+   * @param {ExportedMessage} message - Message to render
+   * @param {number} index - Position in the conversation, from 0
+   */
+  message(message: ExportedMessage, index: number): string;
+
+  /**
+   * @param {string} integrityHash - Digest of the exported chat and messages
+   */
+  footer(integrityHash: string): string;
+}
+
+/**
+ * Algorithm used for the integrity hash
+ */
+export const EXPORT_INTEGRITY_ALGORITHM = 'sha256';
+
+/**
+ * Serializes a value as JSON with object keys sorted, so the same data
+ * always hashes the same way
+ */
+const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+/**
+ * Integrity hash of an export
+ *
+ * Covers the chat details and every message in order, so a truncated or
+ * edited archive is rejected on import. It detects damage, not forgery:
+ * anyone can recompute it.
+ *
+ * @example
+ * const digest = new ExportDigest(chat);
+ * messages.forEach((m) => digest.update(m));
+ * digest.digest(); // 'e3b0c442...'
+ */
+export class ExportDigest {
+  private readonly hash: Hash;
+
+  constructor(chat: ExportedChat) {
+    this.hash = createHash(EXPORT_INTEGRITY_ALGORITHM);
+    this.hash.update(`${canonicalJson(chat)}\n`);
+  }
+
+  update(message: ExportedMessage): void {
+    this.hash.update(`${canonicalJson(message)}\n`);
+  }
+
+  digest(): string {
+    return this.hash.digest('hex');
+  }
+}
+
+/**
+ * Formats a timestamp for people to read (UTC)
+ */
+const formatTimestamp = (iso: string): string =>
+  `${iso.slice(0, 19).replace('T', ' ')} UTC`;
+
+/**
+ * Text shown in place of content that isn't exported
+ */
+const describeBody = (message: ExportedMessage): string => {
+  if (message.isDeleted) {
+    return message.deletionPlaceholder || 'Message deleted';
+  }
+  if (message.encrypted) {
+    return '[Encrypted message]';
+  }
+
+  const parts: string[] = [];
+  if (message.attachment) {
+    parts.push(`[Attachment: ${message.attachment.fileName}]`);
+  }
+  if (message.content) {
+    parts.push(message.content);
+  }
+  return parts.join(' ');
+};
+
+const describeReactions = (message: ExportedMessage): string =>
+  message.reactions.map((r) => `${r.type} ${r.count}`).join(', ');
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/**
+ * JSON: one document with the room, participants, a messages array and
+ * the integrity hash
+ */
+const jsonFormatter: ChatExportFormatter = {
+  mimeType: 'application/json; charset=utf-8',
+  extension: 'json',
+
+  header(chat) {
+    const { participants, exportedAt, exportedBy, ...room } = chat;
+    const head = JSON.stringify(
+      { version: EXPORT_VERSION, exportedAt, exportedBy, room, participants },
+      null,
+      2,
+    );
+    // Leave the object open for the messages array
+    return `${head.slice(0, -2)},\n  "messages": [`;
+  },
+
+  message(message, index) {
+    return `${index > 0 ? ',' : ''}\n    ${JSON.stringify(message)}`;
+  },
+
+  footer(integrityHash) {
+    const integrity = JSON.stringify({
+      algorithm: EXPORT_INTEGRITY_ALGORITHM,
+      hash: integrityHash,
+    });
+    return `\n  ],\n  "integrity": ${integrity}\n}\n`;
+  },
+};
+
+/**
+ * Plain text: one line per message
+ */
+const textFormatter: ChatExportFormatter = {
+  mimeType: 'text/plain; charset=utf-8',
+  extension: 'txt',
+
+  header(chat) {
+    const names = chat.participants.map((p) => p.displayName).join(', ');
+    return [
+      `Chat ${chat.roomCode}`,
+      `Started ${formatTimestamp(chat.createdAt)}`,
+      `Exported ${formatTimestamp(chat.exportedAt)}`,
+      `Participants: ${names}`,
+      '',
+      '',
+    ].join('\n');
+  },
+
+  message(message) {
+    // Placeholders already name who deleted the message
+    const text = message.isDeleted
+      ? describeBody(message)
+      : `${message.senderName}: ${describeBody(message)}`;
+    const lines = [`[${formatTimestamp(message.createdAt)}] ${text}`];
+    if (message.editedAt && !message.isDeleted) {
+      lines.push(`    (edited ${formatTimestamp(message.editedAt)})`);
+    }
+    if (message.reactions.length > 0) {
+      lines.push(`    Reactions: ${describeReactions(message)}`);
+    }
+    return `${lines.join('\n')}\n`;
+  },
+
+  footer() {
+    return '';
+  },
+};
+
+/**
+ * HTML: a standalone page that opens in any browser
+ */
+const htmlFormatter: ChatExportFormatter = {
+  mimeType: 'text/html; charset=utf-8',
+  extension: 'html',
+
+  header(chat) {
+    const names = chat.participants
+      .map((p) => escapeHtml(p.displayName))
+      .join(', ');
+    const title = `Chat ${escapeHtml(chat.roomCode)}`;
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+<style>
+body { font-family: system-ui, sans-serif; max-width: 720px; margin: 2rem auto; padding: 0 1rem; color: #0f172a; }
+header { border-bottom: 1px solid #e2e8f0; margin-bottom: 1rem; }
+.message { padding: 0.5rem 0; }
+.meta { color: #64748b; font-size: 0.8rem; }
+.content { white-space: pre-wrap; word-wrap: break-word; }
+.deleted, .encrypted { color: #94a3b8; font-style: italic; }
+.reactions { color: #475569; font-size: 0.8rem; }
+</style>
+</head>
+<body>
+<header>
+<h1>${title}</h1>
+<p class="meta">Started ${formatTimestamp(chat.createdAt)} &middot; Exported ${formatTimestamp(chat.exportedAt)}</p>
+<p class="meta">Participants: ${names}</p>
+</header>
+<main>
+`;
+  },
+
+  message(message) {
+    const bodyClass = message.isDeleted
+      ? 'content deleted'
+      : message.encrypted
+        ? 'content encrypted'
+        : 'content';
+    const edited =
+      message.editedAt && !message.isDeleted ? ' &middot; edited' : '';
+    const reactions =
+      message.reactions.length > 0
+        ? `\n<div class="reactions">${escapeHtml(describeReactions(message))}</div>`
+        : '';
+
+    return `<div class="message" id="m-${escapeHtml(message.messageId)}">
+<div class="meta"><strong>${escapeHtml(message.senderName)}</strong> &middot; ${formatTimestamp(message.createdAt)}${edited}</div>
+<div class="${bodyClass}">${escapeHtml(describeBody(message))}</div>${reactions}
+</div>
+`;
+  },
+
+  footer() {
+    return '</main>\n</body>\n</html>\n';
+  },
+};
+
+/**
+ * Formatter for each export format
+ */
+export const CHAT_EXPORT_FORMATTERS: Record<ExportFormat, ChatExportFormatter> =
+  {
+    [ExportFormat.JSON]: jsonFormatter,
+    [ExportFormat.TXT]: textFormatter,
+    [ExportFormat.HTML]: htmlFormatter,
+  };
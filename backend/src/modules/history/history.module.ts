@@ -9,6 +9,8 @@
  */
 
 import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MulterModule } from '@nestjs/platform-express';
 import { HistoryService } from './services/history.service';
 import { HistoryController } from './controllers/history.controller';
 import { RoomModule } from '../room/room.module';
@@ -24,6 +26,7 @@ import { RedisModule } from '../../config/redis.module';
  * - Archive/unarchive management
  * - Per-user history deletion (soft delete)
  * - Message counts and unread indicators
+ * - Conversation exports and imports of JSON exports
  * 
  * @dependencies
  * - RoomModule: For room data and participant info
@@ -37,6 +40,20 @@ import { RedisModule } from '../../config/redis.module';
     MessageModule,
     SessionModule,
     RedisModule,
+    MulterModule.registerAsync({
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) => ({
+        limits: {
+          fileSize: Number(
+            configService.get<number>(
+              'HISTORY_IMPORT_MAX_SIZE_BYTES',
+              20971520,
+            ),
+          ),
+          files: 1,
+        },
+      }),
+    }),
   ],
   controllers: [HistoryController],
   providers: [HistoryService],
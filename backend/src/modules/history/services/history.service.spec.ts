@@ -4,77 +4,103 @@
  */
 
 import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
 import { HistoryService } from './history.service';
 import { SessionService } from '../../session/services/session.service';
 import { RoomService } from '../../room/services/room.service';
-import { MessageService } from '../../message/services/message.service';
+import { RoomRepository } from '../../room/repositories/room.repository';
+import { MessageRepository } from '../../message/repositories/message.repository';
+import { REDIS_CLIENT } from '../../../config/redis.module';
 import { RoomStatus } from '../../room/schemas/room.schema';
+import { RoomNotFoundException } from '../../../common/exceptions/business.exceptions';
 
 describe('HistoryService', () => {
   let service: HistoryService;
-  let sessionService: jest.Mocked<SessionService>;
-  let roomService: jest.Mocked<RoomService>;
-  let messageService: jest.Mocked<MessageService>;
+  let sessionService: {
+    getUserId: jest.Mock;
+    getSession: jest.Mock;
+    archiveChat: jest.Mock;
+    unarchiveChat: jest.Mock;
+    removeFromHistory: jest.Mock;
+  };
+  let roomRepository: { findById: jest.Mock; findUserRooms: jest.Mock };
+  let messageRepository: {
+    getLatestMessage: jest.Mock;
+    countByRoom: jest.Mock;
+    countUnread: jest.Mock;
+  };
 
   const mockSessionId = 'session-123';
   const mockUserId = 'user-123';
 
   const mockRoom = {
     _id: 'room-1',
-    roomId: 'room-1',
     roomCode: 'ABC123',
     status: RoomStatus.ACTIVE,
     participants: [
       { userId: mockUserId, displayName: 'User One', isActive: true },
       { userId: 'user-2', displayName: 'User Two', isActive: true },
     ],
-    createdAt: new Date(),
-    updatedAt: new Date(),
+    createdAt: new Date('2025-01-01'),
+    updatedAt: new Date('2025-01-01'),
   };
 
   const mockMessage = {
-    messageId: 'msg-1',
+    _id: 'msg-1',
     roomId: 'room-1',
     content: 'Last message',
-    createdAt: new Date(),
+    createdAt: new Date('2025-06-01'),
+  };
+
+  const mockSession = {
+    sessionId: mockSessionId,
+    userId: mockUserId,
+    chatHistory: ['room-1', 'room-2'],
+    archivedChats: ['room-3'],
   };
 
   beforeEach(async () => {
-    const mockSessionService = {
+    sessionService = {
       getUserId: jest.fn().mockResolvedValue(mockUserId),
-      getChatHistory: jest.fn().mockResolvedValue({
-        chatHistory: ['room-1', 'room-2'],
-        archivedChats: ['room-3'],
-        deletedChats: [],
-      }),
+      getSession: jest.fn().mockResolvedValue(mockSession),
       archiveChat: jest.fn().mockResolvedValue(undefined),
       unarchiveChat: jest.fn().mockResolvedValue(undefined),
-      deleteFromHistory: jest.fn().mockResolvedValue(undefined),
-      isRoomArchived: jest.fn().mockResolvedValue(false),
+      removeFromHistory: jest.fn().mockResolvedValue(undefined),
+    };
+
+    roomRepository = {
+      findById: jest.fn().mockResolvedValue(mockRoom),
+      findUserRooms: jest.fn().mockResolvedValue([mockRoom]),
     };
 
-    const mockRoomService = {
-      getRoomById: jest.fn().mockResolvedValue(mockRoom),
-      getRoomsByIds: jest.fn().mockResolvedValue([mockRoom]),
+    messageRepository = {
+      getLatestMessage: jest.fn().mockResolvedValue(mockMessage),
+      countByRoom: jest.fn().mockResolvedValue(5),
+      countUnread: jest.fn().mockResolvedValue(2),
     };
 
-    const mockMessageService = {
-      getLastMessage: jest.fn().mockResolvedValue(mockMessage),
+    const mockRedisClient = {
+      del: jest.fn().mockResolvedValue(1),
+    };
+
+    const mockConfigService = {
+      get: jest.fn((_key: string, defaultValue?: unknown) => defaultValue),
     };
 
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         HistoryService,
-        { provide: SessionService, useValue: mockSessionService },
-        { provide: RoomService, useValue: mockRoomService },
-        { provide: MessageService, useValue: mockMessageService },
+        { provide: SessionService, useValue: sessionService },
+        { provide: RoomService, useValue: {} },
+        { provide: RoomRepository, useValue: roomRepository },
+        { provide: MessageRepository, useValue: messageRepository },
+        { provide: REDIS_CLIENT, useValue: mockRedisClient },
+        { provide: ConfigService, useValue: mockConfigService },
       ],
     }).compile();
 
     service = module.get<HistoryService>(HistoryService);
-    sessionService = module.get(SessionService);
-    roomService = module.get(RoomService);
-    messageService = module.get(MessageService);
+    service.onModuleInit();
   });
 
   afterEach(() => {
@@ -85,46 +111,42 @@ describe('HistoryService', () => {
     it('should return chat history with room details', async () => {
       const result = await service.getHistory(mockSessionId, false, false);
 
-      expect(result).toBeDefined();
-      expect(result.chats).toBeDefined();
-      expect(sessionService.getChatHistory).toHaveBeenCalledWith(
-        mockSessionId,
-        false,
-        false,
-      );
+      expect(result.chats).toHaveLength(1);
+      expect(result.total).toBe(1);
+      expect(roomRepository.findUserRooms).toHaveBeenCalledWith(mockUserId);
     });
 
     it('should include archived chats when includeArchived is true', async () => {
-      sessionService.getChatHistory.mockResolvedValue({
-        chatHistory: ['room-1', 'room-2', 'room-3'],
-        archivedChats: ['room-3'],
-        deletedChats: [],
-      });
+      roomRepository.findUserRooms.mockResolvedValue([
+        mockRoom,
+        { ...mockRoom, _id: 'room-3', roomCode: 'GHI789' },
+      ] as any);
+      sessionService.getSession.mockResolvedValue({
+        ...mockSession,
+        chatHistory: ['room-1', 'room-3'],
+      } as any);
 
       const result = await service.getHistory(mockSessionId, true, false);
 
-      expect(result.chats).toBeDefined();
-      expect(sessionService.getChatHistory).toHaveBeenCalledWith(
-        mockSessionId,
-        true,
-        false,
-      );
+      expect(result.chats.map((c) => c.roomId)).toEqual(['room-1', 'room-3']);
+      expect(result.archivedCount).toBe(1);
+      expect(result.activeCount).toBe(1);
     });
 
     it('should return only archived chats when archivedOnly is true', async () => {
-      sessionService.getChatHistory.mockResolvedValue({
-        chatHistory: [],
-        archivedChats: ['room-3'],
-        deletedChats: [],
-      });
+      roomRepository.findUserRooms.mockResolvedValue([
+        mockRoom,
+        { ...mockRoom, _id: 'room-3', roomCode: 'GHI789' },
+      ] as any);
+      sessionService.getSession.mockResolvedValue({
+        ...mockSession,
+        chatHistory: ['room-1', 'room-3'],
+      } as any);
 
       const result = await service.getHistory(mockSessionId, false, true);
 
-      expect(sessionService.getChatHistory).toHaveBeenCalledWith(
-        mockSessionId,
-        false,
-        true,
-      );
+      expect(result.chats.map((c) => c.roomId)).toEqual(['room-3']);
+      expect(result.chats[0].isArchived).toBe(true);
     });
 
     it('should return empty array for new user with no history', async () => {
@@ -133,39 +155,39 @@ describe('HistoryService', () => {
       const result = await service.getHistory(mockSessionId, false, false);
 
       expect(result.chats).toEqual([]);
+      expect(roomRepository.findUserRooms).not.toHaveBeenCalled();
     });
 
     it('should populate chat items with room and message details', async () => {
-      roomService.getRoomsByIds.mockResolvedValue([mockRoom] as any);
-      messageService.getLastMessage.mockResolvedValue(mockMessage as any);
-      sessionService.isRoomArchived.mockResolvedValue(false);
-
       const result = await service.getHistory(mockSessionId, false, false);
 
       expect(result.chats[0]).toMatchObject({
-        roomId: expect.any(String),
+        roomId: 'room-1',
         roomCode: 'ABC123',
         status: RoomStatus.ACTIVE,
         isArchived: false,
+        lastMessage: 'Last message',
+        lastMessageAt: mockMessage.createdAt.toISOString(),
+        messageCount: 5,
+        unreadCount: 2,
       });
     });
 
     it('should identify other participant correctly', async () => {
-      roomService.getRoomsByIds.mockResolvedValue([mockRoom] as any);
-
       const result = await service.getHistory(mockSessionId, false, false);
 
       expect(result.chats[0].otherParticipant).toBe('User Two');
     });
 
     it('should handle rooms where user is the only participant', async () => {
-      const singleParticipantRoom = {
-        ...mockRoom,
-        participants: [
-          { userId: mockUserId, displayName: 'User One', isActive: true },
-        ],
-      };
-      roomService.getRoomsByIds.mockResolvedValue([singleParticipantRoom] as any);
+      roomRepository.findUserRooms.mockResolvedValue([
+        {
+          ...mockRoom,
+          participants: [
+            { userId: mockUserId, displayName: 'User One', isActive: true },
+          ],
+        },
+      ] as any);
 
       const result = await service.getHistory(mockSessionId, false, false);
 
@@ -177,23 +199,30 @@ describe('HistoryService', () => {
     it('should archive a chat successfully', async () => {
       const result = await service.archiveChat(mockSessionId, 'room-1');
 
-      expect(result).toBeDefined();
       expect(result.roomId).toBe('room-1');
-      expect(result.archived).toBe(true);
+      expect(result.isArchived).toBe(true);
       expect(sessionService.archiveChat).toHaveBeenCalledWith(
         mockSessionId,
         'room-1',
       );
     });
+
+    it('should not archive rooms the user never joined', async () => {
+      sessionService.getUserId.mockResolvedValue('stranger');
+
+      await expect(
+        service.archiveChat(mockSessionId, 'room-1'),
+      ).rejects.toThrow(RoomNotFoundException);
+      expect(sessionService.archiveChat).not.toHaveBeenCalled();
+    });
   });
 
   describe('unarchiveChat', () => {
     it('should unarchive a chat successfully', async () => {
       const result = await service.unarchiveChat(mockSessionId, 'room-3');
 
-      expect(result).toBeDefined();
       expect(result.roomId).toBe('room-3');
-      expect(result.archived).toBe(false);
+      expect(result.isArchived).toBe(false);
       expect(sessionService.unarchiveChat).toHaveBeenCalledWith(
         mockSessionId,
         'room-3',
@@ -201,14 +230,13 @@ describe('HistoryService', () => {
     });
   });
 
-  describe('deleteChat', () => {
+  describe('deleteFromHistory', () => {
     it('should delete chat from history', async () => {
-      const result = await service.deleteChat(mockSessionId, 'room-1');
+      const result = await service.deleteFromHistory(mockSessionId, 'room-1');
 
-      expect(result).toBeDefined();
       expect(result.roomId).toBe('room-1');
       expect(result.deleted).toBe(true);
-      expect(sessionService.deleteFromHistory).toHaveBeenCalledWith(
+      expect(sessionService.removeFromHistory).toHaveBeenCalledWith(
         mockSessionId,
         'room-1',
       );
@@ -216,23 +244,19 @@ describe('HistoryService', () => {
   });
 
   describe('edge cases', () => {
-    it('should handle room lookup failures gracefully', async () => {
-      roomService.getRoomsByIds.mockResolvedValue([]);
-      sessionService.getChatHistory.mockResolvedValue({
+    it('should leave out rooms that are not in the history', async () => {
+      sessionService.getSession.mockResolvedValue({
+        ...mockSession,
         chatHistory: ['room-not-found'],
-        archivedChats: [],
-        deletedChats: [],
-      });
+      } as any);
 
       const result = await service.getHistory(mockSessionId, false, false);
 
-      // Should filter out rooms that couldn't be found
       expect(result.chats).toHaveLength(0);
     });
 
-    it('should handle message lookup failures gracefully', async () => {
-      roomService.getRoomsByIds.mockResolvedValue([mockRoom] as any);
-      messageService.getLastMessage.mockResolvedValue(null);
+    it('should handle rooms without messages', async () => {
+      messageRepository.getLatestMessage.mockResolvedValue(null);
 
       const result = await service.getHistory(mockSessionId, false, false);
 
@@ -241,22 +265,19 @@ describe('HistoryService', () => {
     });
 
     it('should sort chats by last message date (newest first)', async () => {
-      const oldDate = new Date('2025-01-01');
-      const newDate = new Date('2025-12-23');
-
-      const room1 = { ...mockRoom, _id: 'room-1', roomId: 'room-1' };
-      const room2 = { ...mockRoom, _id: 'room-2', roomId: 'room-2', roomCode: 'DEF456' };
-
-      roomService.getRoomsByIds.mockResolvedValue([room1, room2] as any);
-      messageService.getLastMessage
-        .mockResolvedValueOnce({ ...mockMessage, createdAt: oldDate } as any)
-        .mockResolvedValueOnce({ ...mockMessage, createdAt: newDate } as any);
-
-      sessionService.getChatHistory.mockResolvedValue({
-        chatHistory: ['room-1', 'room-2'],
-        archivedChats: [],
-        deletedChats: [],
-      });
+      const room1 = { ...mockRoom, _id: 'room-1' };
+      const room2 = { ...mockRoom, _id: 'room-2', roomCode: 'DEF456' };
+
+      roomRepository.findUserRooms.mockResolvedValue([room1, room2] as any);
+      messageRepository.getLatestMessage
+        .mockResolvedValueOnce({
+          ...mockMessage,
+          createdAt: new Date('2025-01-01'),
+        } as any)
+        .mockResolvedValueOnce({
+          ...mockMessage,
+          createdAt: new Date('2025-12-23'),
+        } as any);
 
       const result = await service.getHistory(mockSessionId, false, false);
 
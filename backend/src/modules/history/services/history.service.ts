@@ -19,8 +19,12 @@
 import { Injectable, Inject, Logger, OnModuleInit } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import Redis from 'ioredis';
+import { Readable } from 'stream';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
 import { REDIS_CLIENT } from '../../../config/redis.module';
 import { RoomRepository } from '../../room/repositories/room.repository';
+import { RoomService } from '../../room/services/room.service';
 import { MessageRepository } from '../../message/repositories/message.repository';
 import { SessionService } from '../../session/services/session.service';
 import {
@@ -28,12 +32,61 @@ import {
   ChatHistoryResponseDto,
   ArchiveChatResponseDto,
   DeleteChatResponseDto,
+  ChatArchiveDto,
+  ArchivedMessageDto,
+  ImportChatResponseDto,
 } from '../dto/history.dto';
+import { MessageSearchResponseDto } from '../../message/dto/message.dto';
+import {
+  RoomDocument,
+  Participant,
+  ParticipantRole,
+} from '../../room/schemas/room.schema';
+import {
+  Message,
+  MessageDocument,
+  ContentType,
+} from '../../message/schemas/message.schema';
+import {
+  CHAT_EXPORT_FORMATTERS,
+  ChatExportFormatter,
+  ExportDigest,
+  ExportFormat,
+  ExportedChat,
+  ExportedMessage,
+  EXPORT_VERSION,
+} from '../formatters/chat-export.formatter';
+import {
+  buildHighlightedSnippet,
+  extractSearchTerms,
+} from '../../../common/utils/search.util';
+import { generateId } from '../../../common/utils/uuid.util';
 import {
   RoomNotFoundException,
   SessionNotFoundException,
+  InvalidChatArchiveException,
 } from '../../../common/exceptions/business.exceptions';
 
+/**
+ * Search result limits
+ */
+const SEARCH_SNIPPET_LENGTH = 120;
+const MAX_SEARCH_RESULTS = 50;
+
+/**
+ * Messages loaded per page while exporting
+ */
+const EXPORT_PAGE_SIZE = 200;
+
+/**
+ * A conversation export ready to stream
+ */
+export interface ChatExport {
+  stream: Readable;
+  fileName: string;
+  mimeType: string;
+}
+
 /**
  * History Service
  * 
@@ -42,6 +95,9 @@ import {
  * - Redis caching for frequently accessed data
  * - Parallel data fetching for performance
  * - Comprehensive filtering and sorting
+ * - Full-text search across the user's chats
+ * - Conversation exports in JSON, plain text and HTML
+ * - Imports of JSON exports as read-only chats
  * 
  * @class HistoryService
  */
@@ -51,9 +107,12 @@ export class HistoryService implements OnModuleInit {
   
   // Cache TTL values loaded from config
   private cacheTtl: { HISTORY_LIST: number; MESSAGE_COUNT: number };
+  // Largest archive accepted by importChat
+  private importMaxMessages: number;
 
   constructor(
     private readonly roomRepository: RoomRepository,
+    private readonly roomService: RoomService,
     private readonly messageRepository: MessageRepository,
     private readonly sessionService: SessionService,
     @Inject(REDIS_CLIENT)
@@ -66,6 +125,9 @@ export class HistoryService implements OnModuleInit {
       HISTORY_LIST: this.configService.get<number>('CACHE_TTL_HISTORY_LIST', 60),
       MESSAGE_COUNT: this.configService.get<number>('CACHE_TTL_MESSAGE_COUNT', 300),
     };
+    this.importMaxMessages = Number(
+      this.configService.get<number>('HISTORY_IMPORT_MAX_MESSAGES', 10000),
+    );
   }
 
   /**
@@ -74,12 +136,12 @@ export class HistoryService implements OnModuleInit {
    * @description Retrieves all chats the user has participated in with:
    * - Last message preview (truncated, sanitized)
    * - Other participant's display name
-   * - Message counts and unread indicators
+   * - Message counts and unread counts from the user's read cursor
    * - Proper filtering based on archive status
    * - Sorted by recency (last activity)
    * 
    * Performance optimizations:
-   * - Parallel fetching of last messages
+   * - Parallel fetching of last messages and counts
    * - Batch processing for large histories
    * - Cache layer for repeated requests
    * 
@@ -117,22 +179,33 @@ export class HistoryService implements OnModuleInit {
     // Get user's session for archived list and history tracking
     const session = await this.sessionService.getSession(sessionId);
     const archivedRooms = new Set(session?.archivedChats || []);
-    const historyRoomIds = new Set(session?.chatHistory || []);
-
-    // Get all rooms the user participated in
-    const rooms = await this.roomRepository.findUserRooms(userId);
 
-    // Filter rooms based on history tracking (only show rooms in user's history)
-    // If no explicit history, show all participated rooms (backwards compatibility)
-    const filteredRooms = historyRoomIds.size > 0
-      ? rooms.filter(room => historyRoomIds.has(room._id.toString()))
-      : rooms;
+    const filteredRooms = await this.getHistoryRooms(
+      userId,
+      session?.chatHistory || [],
+    );
 
-    // Parallel fetch of last messages for all rooms
+    // Parallel fetch of last messages and counts for all rooms
     const lastMessagePromises = filteredRooms.map(room =>
       this.messageRepository.getLatestMessage(room._id.toString())
     );
-    const lastMessages = await Promise.all(lastMessagePromises);
+    const messageCountPromises = filteredRooms.map((room) =>
+      this.messageRepository.countByRoom(room._id.toString()),
+    );
+    // Unread = messages from others newer than the user's read cursor
+    const unreadCountPromises = filteredRooms.map((room) => {
+      const self = room.participants.find((p) => p.userId === userId);
+      return this.messageRepository.countUnread(
+        room._id.toString(),
+        userId,
+        self?.lastReadMessageId || null,
+      );
+    });
+    const [lastMessages, messageCounts, unreadCounts] = await Promise.all([
+      Promise.all(lastMessagePromises),
+      Promise.all(messageCountPromises),
+      Promise.all(unreadCountPromises),
+    ]);
 
     // Build history items
     let archivedCount = 0;
@@ -172,9 +245,11 @@ export class HistoryService implements OnModuleInit {
         lastMessageAt: lastMessage?.createdAt?.toISOString() || null,
         status: room.status as 'active' | 'closed',
         isArchived,
+        encrypted: !!room.encrypted,
+        imported: !!room.importedAt,
         createdAt: room.createdAt.toISOString(),
-        messageCount: 0, // Will be populated if needed
-        unreadCount: 0,  // Will be populated if needed
+        messageCount: messageCounts[i],
+        unreadCount: unreadCounts[i],
       };
 
       allHistoryItems.push(historyItem);
@@ -202,6 +277,77 @@ export class HistoryService implements OnModuleInit {
     };
   }
 
+  /**
+   * Searches messages across the user's chat history
+   *
+   * @description Full-text search over non-deleted messages in every room
+   * the user participated in and still has in their history (including
+   * archived chats), newest first. Each result carries the room code and
+   * messageId so clients can open the chat at that message.
+   *
+   * @param {string} sessionId - User's session ID
+   * @param {string} query - Search query
+   * @param {number} limit - Maximum results to return
+   * @param {string} [before] - Cursor (message ID) to fetch results before
+   * @returns {Promise<MessageSearchResponseDto>} Matching messages
+   */
+  async searchHistory(
+    sessionId: string,
+    query: string,
+    limit: number,
+    before?: string,
+  ): Promise<MessageSearchResponseDto> {
+    this.logger.debug(
+      `Searching history for session: ${sessionId.slice(0, 8)}...`,
+    );
+
+    const userId = await this.sessionService.getUserId(sessionId);
+    if (!userId) {
+      return { query, results: [], pagination: { hasMore: false } };
+    }
+
+    const session = await this.sessionService.getSession(sessionId);
+    const rooms = await this.getHistoryRooms(
+      userId,
+      session?.chatHistory || [],
+    );
+    // Encrypted rooms only hold ciphertext, so there is nothing to match
+    const roomCodes = new Map(
+      rooms
+        .filter((room) => !room.encrypted)
+        .map((room) => [room._id.toString(), room.roomCode]),
+    );
+
+    const result = await this.messageRepository.search(
+      [...roomCodes.keys()],
+      query,
+      { limit: Math.min(limit, MAX_SEARCH_RESULTS), before },
+    );
+
+    const terms = extractSearchTerms(query);
+
+    return {
+      query,
+      results: result.items.map((message) => ({
+        messageId: message._id,
+        roomId: message.roomId,
+        roomCode: roomCodes.get(message.roomId),
+        senderId: message.senderId,
+        senderName: message.senderName,
+        ...buildHighlightedSnippet(
+          message.content,
+          terms,
+          SEARCH_SNIPPET_LENGTH,
+        ),
+        createdAt: message.createdAt,
+      })),
+      pagination: {
+        hasMore: result.hasMore,
+        nextCursor: result.nextCursor,
+      },
+    };
+  }
+
   /**
    * Archives a chat for the user
    * 
@@ -305,6 +451,432 @@ export class HistoryService implements OnModuleInit {
     };
   }
 
+  /**
+   * Exports a conversation the user took part in
+   *
+   * @description Access is checked before anything is streamed. The
+   * messages are then read a page at a time, oldest first, so large rooms
+   * are never loaded at once. Deleted messages appear as placeholders and
+   * end-to-end encrypted content is left out, since the server only holds
+   * ciphertext.
+   *
+   * @param {string} sessionId - User's session ID
+   * @param {string} roomId - Room to export
+   * @param {ExportFormat} format - File format
+   * @returns {Promise<ChatExport>} Stream and file details
+   * @throws {RoomNotFoundException} If the room doesn't exist or the user
+   * never took part in it
+   */
+  async exportChat(
+    sessionId: string,
+    roomId: string,
+    format: ExportFormat,
+  ): Promise<ChatExport> {
+    const room = await this.roomRepository.findById(roomId);
+    const userId = await this.sessionService.getUserId(sessionId);
+
+    if (
+      !room ||
+      !userId ||
+      !room.participants.some((p) => p.userId === userId)
+    ) {
+      throw new RoomNotFoundException(roomId);
+    }
+
+    this.logger.log(
+      `Exporting chat ${roomId} as ${format} for session ${sessionId.slice(0, 8)}...`,
+    );
+
+    const formatter = CHAT_EXPORT_FORMATTERS[format];
+    const date = new Date().toISOString().slice(0, 10);
+
+    return {
+      stream: Readable.from(this.renderExport(room, userId, formatter)),
+      fileName: `chat-${room.roomCode}-${date}.${formatter.extension}`,
+      mimeType: formatter.mimeType,
+    };
+  }
+
+  /**
+   * Restores a conversation from a JSON export
+   *
+   * @description The archive is checked against the export layout and its
+   * integrity hash before anything is written. The hash catches truncated or
+   * corrupted files, not edits: anyone can recompute it. The archive becomes
+   * a new closed, read-only room in the caller's history:
+   * - The exporting participant becomes the caller, so a user can move
+   *   their history to a new session
+   * - Every other participant, and every message, gets a new ID
+   * - Attachment files aren't part of an export, so attachments are kept
+   *   as their file name
+   * - Reactions keep their counts under anonymous user IDs
+   *
+   * @param {string} sessionId - User's session ID
+   * @param {Buffer | undefined} file - Uploaded JSON export
+   * @returns {Promise<ImportChatResponseDto>} The restored chat
+   * @throws {InvalidChatArchiveException} If the file isn't a complete,
+   * valid JSON export
+   */
+  async importChat(
+    sessionId: string,
+    file: Buffer | undefined,
+  ): Promise<ImportChatResponseDto> {
+    const archive = await this.parseArchive(file);
+    const userId = await this.sessionService.getOrCreateUserId(sessionId);
+
+    // Old user IDs are never reused; the exporter becomes the caller
+    const userIds = new Map<string, string>([[archive.exportedBy, userId]]);
+    const remapUser = (oldId: string): string => {
+      let newId = userIds.get(oldId);
+      if (!newId) {
+        newId = generateId();
+        userIds.set(oldId, newId);
+      }
+      return newId;
+    };
+
+    // IDs are generated in order, which keeps the conversation in order
+    const roomId = generateId();
+    const messageIds = new Map<string, string>();
+    const messages = archive.messages.map((message) => {
+      const messageId = generateId();
+      const imported = this.toImportedMessage(
+        message,
+        roomId,
+        messageId,
+        remapUser,
+        messageIds,
+      );
+      messageIds.set(message.messageId, messageId);
+      return imported;
+    });
+
+    const createdAt = new Date(archive.room.createdAt);
+    const closedAt = new Date(archive.room.closedAt || archive.exportedAt);
+    const lastMessageId = messages.length
+      ? (messages[messages.length - 1]._id as string)
+      : null;
+    const participants: Participant[] = archive.participants.map((p) => {
+      const participantId = remapUser(p.userId);
+      return {
+        userId: participantId,
+        displayName: p.displayName,
+        role: ParticipantRole.MEMBER,
+        joinedAt: createdAt,
+        isActive: false,
+        leftAt: closedAt,
+        // Nothing in an import is unread
+        lastReadMessageId: participantId === userId ? lastMessageId : null,
+        lastReadAt: participantId === userId ? new Date() : null,
+        publicKey: null,
+      };
+    });
+
+    this.logger.log(
+      `Importing chat ${archive.room.roomCode} with ${messages.length} messages for session ${sessionId.slice(0, 8)}...`,
+    );
+
+    await this.messageRepository.createMany(messages);
+
+    let room: RoomDocument;
+    try {
+      room = await this.roomService.importRoom({
+        roomId,
+        encrypted: archive.room.encrypted,
+        maxParticipants: Math.min(Math.max(participants.length, 2), 100),
+        participants,
+        createdAt,
+        closedAt,
+      });
+    } catch (error) {
+      // Don't leave messages behind without a room
+      await this.messageRepository.deleteByRoom(roomId);
+      throw error;
+    }
+
+    await this.sessionService.addToHistory(sessionId, roomId);
+    await this.invalidateHistoryCache(sessionId);
+
+    return {
+      roomId,
+      roomCode: room.roomCode,
+      messageCount: messages.length,
+      importedAt: (room.importedAt || new Date()).toISOString(),
+    };
+  }
+
+  /**
+   * Parses and checks an uploaded JSON export
+   *
+   * @private
+   * @param {Buffer | undefined} file - Uploaded file
+   * @returns {Promise<ChatArchiveDto>} Validated archive
+   * @throws {InvalidChatArchiveException} If the file isn't a complete,
+   * valid JSON export
+   */
+  private async parseArchive(
+    file: Buffer | undefined,
+  ): Promise<ChatArchiveDto> {
+    if (!file || file.length === 0) {
+      throw new InvalidChatArchiveException('A JSON export file is required');
+    }
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(file.toString('utf8'));
+    } catch {
+      throw new InvalidChatArchiveException('The file is not a JSON export');
+    }
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+      throw new InvalidChatArchiveException('The file is not a JSON export');
+    }
+
+    const archive = plainToInstance(ChatArchiveDto, raw);
+    if (archive.version !== EXPORT_VERSION) {
+      throw new InvalidChatArchiveException(
+        `Unsupported export version: ${String(archive.version)}`,
+      );
+    }
+
+    const errors = await validate(archive, {
+      whitelist: true,
+      forbidNonWhitelisted: true,
+    });
+    if (errors.length > 0) {
+      this.logger.debug(
+        `Rejected chat archive: ${errors.map((e) => e.property).join(', ')}`,
+      );
+      throw new InvalidChatArchiveException(
+        'The file does not match the export format',
+      );
+    }
+
+    if (archive.messages.length > this.importMaxMessages) {
+      throw new InvalidChatArchiveException(
+        `Imports are limited to ${this.importMaxMessages} messages`,
+      );
+    }
+    if (!archive.participants.some((p) => p.userId === archive.exportedBy)) {
+      throw new InvalidChatArchiveException(
+        'The exporting participant is missing from the archive',
+      );
+    }
+    if (
+      new Set(archive.messages.map((m) => m.messageId)).size !==
+      archive.messages.length
+    ) {
+      throw new InvalidChatArchiveException(
+        'The archive contains duplicate messages',
+      );
+    }
+
+    // Hash what was uploaded, not the transformed DTOs. A mismatch means
+    // the file was damaged; an edited archive with a recomputed hash passes.
+    const { room, exportedAt, exportedBy, participants, messages } =
+      raw as ChatArchiveDto;
+    const digest = new ExportDigest({
+      ...room,
+      exportedAt,
+      exportedBy,
+      participants,
+    });
+    messages.forEach((message) =>
+      digest.update(message as unknown as ExportedMessage),
+    );
+    if (digest.digest() !== archive.integrity.hash) {
+      throw new InvalidChatArchiveException(
+        'The archive is incomplete or corrupted',
+      );
+    }
+
+    return archive;
+  }
+
+  /**
+   * Maps an archived message to a new message in the imported room
+   *
+   * @private
+   * @param {ArchivedMessageDto} message - Message from the archive
+   * @param {string} roomId - Imported room's ID
+   * @param {string} messageId - New message ID
+   * @param {(oldId: string) => string} remapUser - Maps archived user IDs to new ones
+   * @param {Map<string, string>} messageIds - New IDs of earlier messages
+   * @returns {Partial<Message>} Message ready to insert
+   */
+  private toImportedMessage(
+    message: ArchivedMessageDto,
+    roomId: string,
+    messageId: string,
+    remapUser: (oldId: string) => string,
+    messageIds: Map<string, string>,
+  ): Partial<Message> {
+    const createdAt = new Date(message.createdAt);
+
+    // The file itself isn't exported, so keep its name as text
+    let content = message.content || '';
+    let contentType = message.contentType;
+    if (message.attachment && !message.isDeleted) {
+      const label = `[Attachment: ${message.attachment.fileName}]`;
+      content = content ? `${label} ${content}` : label;
+      contentType = ContentType.TEXT;
+    } else if (
+      contentType !== ContentType.TEXT &&
+      contentType !== ContentType.EMOJI
+    ) {
+      contentType = ContentType.TEXT;
+    }
+
+    const deletedBy = message.deletionPlaceholder?.match(
+      /^Message deleted by (.+)$/,
+    );
+
+    return {
+      _id: messageId,
+      roomId,
+      senderId: remapUser(message.senderId),
+      senderName: message.senderName,
+      content: message.isDeleted || message.encrypted ? '' : content,
+      contentType,
+      encrypted: message.encrypted,
+      isDeleted: message.isDeleted,
+      deletedBy: null,
+      deletedByName: message.isDeleted && deletedBy ? deletedBy[1] : null,
+      replyTo: (message.replyTo && messageIds.get(message.replyTo)) || null,
+      reactions: message.reactions.flatMap((reaction) =>
+        Array.from({ length: reaction.count }, () => ({
+          type: reaction.type,
+          userId: generateId(),
+          createdAt,
+        })),
+      ),
+      editedAt: message.editedAt ? new Date(message.editedAt) : null,
+      createdAt,
+    };
+  }
+
+  /**
+   * Renders an export chunk by chunk
+   *
+   * @private
+   * @param {RoomDocument} room - Room to export
+   * @param {string} userId - Exporting user's ID
+   * @param {ChatExportFormatter} formatter - Output format
+   * @yields {string} Header, one chunk per message, footer
+   */
+  private async *renderExport(
+    room: RoomDocument,
+    userId: string,
+    formatter: ChatExportFormatter,
+  ): AsyncGenerator<string> {
+    const roomId = room._id.toString();
+    const chat: ExportedChat = {
+      roomId,
+      roomCode: room.roomCode,
+      status: room.status,
+      encrypted: !!room.encrypted,
+      createdAt: room.createdAt.toISOString(),
+      closedAt: room.closedAt?.toISOString() || null,
+      exportedAt: new Date().toISOString(),
+      exportedBy: userId,
+      participants: room.participants.map((p) => ({
+        userId: p.userId,
+        displayName: p.displayName,
+      })),
+    };
+    const digest = new ExportDigest(chat);
+
+    yield formatter.header(chat);
+
+    let index = 0;
+    let after: string | undefined;
+    let hasMore = true;
+
+    while (hasMore) {
+      const page = await this.messageRepository.getMessagesOldestFirst(roomId, {
+        limit: EXPORT_PAGE_SIZE,
+        after,
+      });
+
+      for (const message of page.items) {
+        const exported = this.toExportedMessage(message);
+        digest.update(exported);
+        yield formatter.message(exported, index++);
+      }
+
+      hasMore = page.hasMore;
+      after = page.nextCursor;
+    }
+
+    yield formatter.footer(digest.digest());
+  }
+
+  /**
+   * Maps a message to its exported form
+   *
+   * @private
+   * @param {MessageDocument} message - Message document
+   * @returns {ExportedMessage} Message without deleted or encrypted content
+   */
+  private toExportedMessage(message: MessageDocument): ExportedMessage {
+    const hidden = message.isDeleted || message.encrypted;
+
+    const counts = new Map<string, number>();
+    for (const reaction of message.reactions || []) {
+      counts.set(reaction.type, (counts.get(reaction.type) || 0) + 1);
+    }
+
+    return {
+      messageId: message._id,
+      senderId: message.senderId,
+      senderName: message.senderName,
+      contentType: message.contentType,
+      content: hidden ? null : message.content,
+      encrypted: !!message.encrypted,
+      attachment:
+        message.attachment && !message.isDeleted
+          ? {
+              fileName: message.attachment.fileName,
+              mimeType: message.attachment.mimeType,
+              size: message.attachment.size,
+            }
+          : null,
+      replyTo: message.replyTo || null,
+      reactions: [...counts].map(([type, count]) => ({ type, count })),
+      isDeleted: message.isDeleted,
+      deletionPlaceholder: message.isDeleted
+        ? message.deletedByName
+          ? `Message deleted by ${message.deletedByName}`
+          : 'Message deleted'
+        : null,
+      editedAt: message.editedAt?.toISOString() || null,
+      createdAt: message.createdAt.toISOString(),
+    };
+  }
+
+  /**
+   * Gets the rooms that make up the user's history
+   *
+   * @description Only rooms in the session's history are shown. If there
+   * is no explicit history, all participated rooms are shown (backwards
+   * compatibility).
+   *
+   * @private
+   * @param {string} userId - User's ID
+   * @param {string[]} chatHistory - Room IDs tracked in the session
+   * @returns {Promise<RoomDocument[]>} Rooms in the user's history
+   */
+  private async getHistoryRooms(
+    userId: string,
+    chatHistory: string[],
+  ): Promise<RoomDocument[]> {
+    const rooms = await this.roomRepository.findUserRooms(userId);
+    const historyRoomIds = new Set(chatHistory);
+
+    return historyRoomIds.size > 0
+      ? rooms.filter((room) => historyRoomIds.has(room._id.toString()))
+      : rooms;
+  }
+
   /**
    * Gets a sanitized message preview
    * 
@@ -319,7 +891,17 @@ export class HistoryService implements OnModuleInit {
       return 'Message deleted';
     }
 
-    const content = message.content || '';
+    if (message.encrypted) {
+      return 'Encrypted message';
+    }
+
+    // Uncaptioned attachments are previewed by file name
+    const content =
+      message.content ||
+      (message.attachment?.durationMs != null
+        ? 'Voice message'
+        : message.attachment?.fileName) ||
+      '';
     
     // Truncate to 100 characters
     const truncated = content.length > 100 
@@ -16,7 +16,15 @@ import {
 
 describe('MessageController', () => {
   let controller: MessageController;
-  let messageService: jest.Mocked<MessageService>;
+  let messageService: {
+    sendMessage: jest.Mock;
+    getMessages: jest.Mock;
+    searchMessages: jest.Mock;
+    editMessage: jest.Mock;
+    deleteMessage: jest.Mock;
+    addReaction: jest.Mock;
+    removeReaction: jest.Mock;
+  };
 
   const mockMessage = {
     messageId: 'msg-123',
@@ -34,9 +42,11 @@ describe('MessageController', () => {
   const mockSessionId = 'session-123';
 
   beforeEach(async () => {
-    const mockMessageService = {
+    messageService = {
       sendMessage: jest.fn(),
       getMessages: jest.fn(),
+      searchMessages: jest.fn(),
+      editMessage: jest.fn(),
       deleteMessage: jest.fn(),
       addReaction: jest.fn(),
       removeReaction: jest.fn(),
@@ -44,11 +54,10 @@ describe('MessageController', () => {
 
     const module: TestingModule = await Test.createTestingModule({
       controllers: [MessageController],
-      providers: [{ provide: MessageService, useValue: mockMessageService }],
+      providers: [{ provide: MessageService, useValue: messageService }],
     }).compile();
 
     controller = module.get<MessageController>(MessageController);
-    messageService = module.get(MessageService);
   });
 
   afterEach(() => {
@@ -91,7 +100,7 @@ describe('MessageController', () => {
         content: 'Hello!',
       };
       messageService.sendMessage.mockRejectedValue(
-        new UserNotInRoomException('room-123'),
+        new UserNotInRoomException('user-1', 'room-123'),
       );
 
       await expect(
@@ -104,8 +113,7 @@ describe('MessageController', () => {
     it('should return paginated messages', async () => {
       const paginatedResponse = {
         messages: [mockMessage],
-        hasMore: false,
-        nextCursor: null,
+        pagination: { hasMore: false },
       };
       messageService.getMessages.mockResolvedValue(paginatedResponse as any);
 
@@ -116,14 +124,13 @@ describe('MessageController', () => {
 
       expect(result).toBeDefined();
       expect(result.messages).toHaveLength(1);
-      expect(result.hasMore).toBe(false);
+      expect(result.pagination.hasMore).toBe(false);
     });
 
     it('should pass pagination parameters correctly', async () => {
       const paginatedResponse = {
         messages: [],
-        hasMore: false,
-        nextCursor: null,
+        pagination: { hasMore: false },
       };
       messageService.getMessages.mockResolvedValue(paginatedResponse as any);
 
@@ -143,8 +150,7 @@ describe('MessageController', () => {
     it('should use default limit when not specified', async () => {
       const paginatedResponse = {
         messages: [],
-        hasMore: false,
-        nextCursor: null,
+        pagination: { hasMore: false },
       };
       messageService.getMessages.mockResolvedValue(paginatedResponse as any);
 
@@ -160,18 +166,90 @@ describe('MessageController', () => {
     });
   });
 
+  describe('GET /messages/search', () => {
+    it('should search messages in the room', async () => {
+      const searchResponse = {
+        query: 'link',
+        results: [],
+        pagination: { hasMore: false },
+      };
+      messageService.searchMessages.mockResolvedValue(searchResponse);
+
+      const result = await controller.searchMessages(mockSessionId, {
+        roomId: 'room-123',
+        q: 'link',
+        before: 'msg-456',
+      });
+
+      expect(result).toEqual(searchResponse);
+      expect(messageService.searchMessages).toHaveBeenCalledWith(
+        mockSessionId,
+        'room-123',
+        'link',
+        { limit: 20, before: 'msg-456' },
+      );
+    });
+
+    it('should throw SessionNotFoundException when session is missing', async () => {
+      await expect(
+        controller.searchMessages('', { roomId: 'room-123', q: 'link' }),
+      ).rejects.toThrow(SessionNotFoundException);
+    });
+  });
+
+  describe('PATCH /messages/:messageId', () => {
+    it('should edit message successfully', async () => {
+      const editedAt = new Date();
+      messageService.editMessage.mockResolvedValue({
+        ...mockMessage,
+        content: 'Hello there!',
+        isEdited: true,
+        editedAt,
+        revisions: [
+          { content: 'Hello, World!', createdAt: mockMessage.createdAt },
+        ],
+      } as any);
+
+      const result = await controller.editMessage(mockSessionId, 'msg-123', {
+        content: 'Hello there!',
+      });
+
+      expect(result.content).toBe('Hello there!');
+      expect(result.editedAt).toBe(editedAt);
+      expect(result.revisions).toHaveLength(1);
+      expect(messageService.editMessage).toHaveBeenCalledWith(
+        mockSessionId,
+        'msg-123',
+        'Hello there!',
+        undefined,
+      );
+    });
+
+    it('should throw MessageNotFoundException for non-existent message', async () => {
+      messageService.editMessage.mockRejectedValue(
+        new MessageNotFoundException('invalid-msg'),
+      );
+
+      await expect(
+        controller.editMessage(mockSessionId, 'invalid-msg', { content: 'Hi' }),
+      ).rejects.toThrow(MessageNotFoundException);
+    });
+  });
+
   describe('DELETE /messages/:messageId', () => {
     it('should delete message successfully', async () => {
-      const deleteResponse = {
-        messageId: 'msg-123',
-        deleted: true,
-      };
-      messageService.deleteMessage.mockResolvedValue(deleteResponse as any);
+      messageService.deleteMessage.mockResolvedValue({
+        ...mockMessage,
+        content: '',
+        isDeleted: true,
+        deletionPlaceholder: 'Message deleted by User One',
+      } as any);
 
       const result = await controller.deleteMessage(mockSessionId, 'msg-123');
 
       expect(result).toBeDefined();
-      expect(result.deleted).toBe(true);
+      expect(result.isDeleted).toBe(true);
+      expect(result.placeholder).toBe('Message deleted by User One');
       expect(messageService.deleteMessage).toHaveBeenCalledWith(
         mockSessionId,
         'msg-123',
@@ -191,19 +269,17 @@ describe('MessageController', () => {
 
   describe('POST /messages/:messageId/reactions', () => {
     it('should add reaction successfully', async () => {
-      const reactionResponse = {
-        messageId: 'msg-123',
-        type: ReactionType.LIKE,
-        count: 1,
-      };
-      messageService.addReaction.mockResolvedValue(reactionResponse as any);
+      messageService.addReaction.mockResolvedValue({
+        ...mockMessage,
+        reactions: [{ type: ReactionType.LIKE, count: 1, userReacted: true }],
+      } as any);
 
       const result = await controller.addReaction(mockSessionId, 'msg-123', {
         type: ReactionType.LIKE,
       });
 
       expect(result).toBeDefined();
-      expect(result.type).toBe(ReactionType.LIKE);
+      expect(result.reactions[0].type).toBe(ReactionType.LIKE);
       expect(messageService.addReaction).toHaveBeenCalledWith(
         mockSessionId,
         'msg-123',
@@ -213,7 +289,7 @@ describe('MessageController', () => {
 
     it('should throw DuplicateReactionException for duplicate reaction', async () => {
       messageService.addReaction.mockRejectedValue(
-        new DuplicateReactionException('msg-123', ReactionType.LIKE),
+        new DuplicateReactionException(ReactionType.LIKE),
       );
 
       await expect(
@@ -238,12 +314,10 @@ describe('MessageController', () => {
 
   describe('DELETE /messages/:messageId/reactions/:type', () => {
     it('should remove reaction successfully', async () => {
-      const reactionResponse = {
-        messageId: 'msg-123',
-        type: ReactionType.LIKE,
-        count: 0,
-      };
-      messageService.removeReaction.mockResolvedValue(reactionResponse as any);
+      messageService.removeReaction.mockResolvedValue({
+        ...mockMessage,
+        reactions: [],
+      } as any);
 
       const result = await controller.removeReaction(
         mockSessionId,
@@ -252,7 +326,7 @@ describe('MessageController', () => {
       );
 
       expect(result).toBeDefined();
-      expect(result.count).toBe(0);
+      expect(result.reactions).toHaveLength(0);
       expect(messageService.removeReaction).toHaveBeenCalledWith(
         mockSessionId,
         'msg-123',
@@ -283,18 +357,16 @@ describe('MessageController', () => {
 
     reactionTypes.forEach((reactionType) => {
       it(`should handle ${reactionType} reaction`, async () => {
-        const reactionResponse = {
-          messageId: 'msg-123',
-          type: reactionType,
-          count: 1,
-        };
-        messageService.addReaction.mockResolvedValue(reactionResponse as any);
+        messageService.addReaction.mockResolvedValue({
+          ...mockMessage,
+          reactions: [{ type: reactionType, count: 1, userReacted: true }],
+        } as any);
 
         const result = await controller.addReaction(mockSessionId, 'msg-123', {
           type: reactionType,
         });
 
-        expect(result.type).toBe(reactionType);
+        expect(result.reactions[0].type).toBe(reactionType);
       });
     });
   });
@@ -13,11 +13,11 @@ import {
   Controller,
   Post,
   Get,
+  Patch,
   Delete,
   Param,
   Body,
   Query,
-  Headers,
   HttpCode,
   HttpStatus,
   Logger,
@@ -25,15 +25,24 @@ import {
 import { MessageService } from '../services/message.service';
 import {
   SendMessageDto,
+  EditMessageDto,
   GetMessagesQueryDto,
+  SearchMessagesQueryDto,
   AddReactionDto,
   MessageResponseDto,
   PaginatedMessagesResponseDto,
+  MessageSearchResponseDto,
   DeleteMessageResponseDto,
+  EditMessageResponseDto,
   ReactionResponseDto,
 } from '../dto/message.dto';
 import { ReactionType } from '../schemas/message.schema';
+import {
+  ReportMessageDto,
+  ReportResponseDto,
+} from '../../moderation/dto/report.dto';
 import { SessionNotFoundException } from '../../../common/exceptions/business.exceptions';
+import { SessionId } from '../../../common/decorators/session.decorator';
 
 /**
  * Message Controller
@@ -41,9 +50,12 @@ import { SessionNotFoundException } from '../../../common/exceptions/business.ex
  * @description Exposes REST API endpoints for message management:
  * - POST /messages - Send a new message
  * - GET /messages - Get paginated messages
+ * - GET /messages/search - Search messages in a room
+ * - PATCH /messages/:messageId - Edit a message
  * - DELETE /messages/:messageId - Delete a message
  * - POST /messages/:messageId/reactions - Add a reaction
  * - DELETE /messages/:messageId/reactions/:type - Remove a reaction
+ * - POST /messages/:messageId/report - Report a message to moderation
  * 
  * @class MessageController
  */
@@ -57,14 +69,14 @@ export class MessageController {
    * Sends a new message to a room
    * 
    * @route POST /messages
-   * @param {string} sessionId - Session ID from X-Session-Id header
+   * @param {string} sessionId - Session ID from the session token
    * @param {SendMessageDto} dto - Message data
    * @returns {Promise<MessageResponseDto>} Created message
    * 
    * @example
    * // Request
    * POST /api/v1/messages
-   * Headers: { "X-Session-Id": "session-uuid" }
+   * Headers: { "Authorization": "Bearer <session-token>" }
    * Body: { "roomId": "xxx", "content": "Hello!", "contentType": "text" }
    * 
    * // Response 201
@@ -79,7 +91,7 @@ export class MessageController {
   @Post()
   @HttpCode(HttpStatus.CREATED)
   async sendMessage(
-    @Headers('x-session-id') sessionId: string,
+    @SessionId() sessionId: string,
     @Body() dto: SendMessageDto,
   ): Promise<MessageResponseDto> {
     this.validateSessionId(sessionId);
@@ -93,14 +105,14 @@ export class MessageController {
    * Gets paginated messages for a room
    * 
    * @route GET /messages
-   * @param {string} sessionId - Session ID from X-Session-Id header
+   * @param {string} sessionId - Session ID from the session token
    * @param {GetMessagesQueryDto} query - Query parameters
    * @returns {Promise<PaginatedMessagesResponseDto>} Paginated messages
    * 
    * @example
    * // Request
    * GET /api/v1/messages?roomId=xxx&limit=50&before=cursor
-   * Headers: { "X-Session-Id": "session-uuid" }
+   * Headers: { "Authorization": "Bearer <session-token>" }
    * 
    * // Response 200
    * {
@@ -110,7 +122,7 @@ export class MessageController {
    */
   @Get()
   async getMessages(
-    @Headers('x-session-id') sessionId: string,
+    @SessionId() sessionId: string,
     @Query() query: GetMessagesQueryDto,
   ): Promise<PaginatedMessagesResponseDto> {
     this.validateSessionId(sessionId);
@@ -122,17 +134,62 @@ export class MessageController {
     });
   }
 
+  /**
+   * Searches messages in a room
+   *
+   * @route GET /messages/search
+   * @param {string} sessionId - Session ID from the session token
+   * @param {SearchMessagesQueryDto} query - Query parameters
+   * @returns {Promise<MessageSearchResponseDto>} Matching messages
+   *
+   * @example
+   * // Request
+   * GET /api/v1/messages/search?roomId=xxx&q=link
+   * Headers: { "Authorization": "Bearer <session-token>" }
+   *
+   * // Response 200
+   * {
+   *   "query": "link",
+   *   "results": [
+   *     {
+   *       "messageId": "...",
+   *       "snippet": "Here is the link you wanted",
+   *       "highlights": [{ "start": 12, "end": 16 }],
+   *       ...
+   *     }
+   *   ],
+   *   "pagination": { "hasMore": false }
+   * }
+   */
+  @Get('search')
+  async searchMessages(
+    @SessionId() sessionId: string,
+    @Query() query: SearchMessagesQueryDto,
+  ): Promise<MessageSearchResponseDto> {
+    this.validateSessionId(sessionId);
+
+    return this.messageService.searchMessages(
+      sessionId,
+      query.roomId,
+      query.q,
+      {
+        limit: query.limit || 20,
+        before: query.before,
+      },
+    );
+  }
+
   /**
    * Gets a single message by ID
    * 
    * @route GET /messages/:messageId
-   * @param {string} sessionId - Session ID from X-Session-Id header
+   * @param {string} sessionId - Session ID from the session token
    * @param {string} messageId - Message UUID
    * @returns {Promise<MessageResponseDto>} Message details
    */
   @Get(':messageId')
   async getMessage(
-    @Headers('x-session-id') sessionId: string,
+    @SessionId() sessionId: string,
     @Param('messageId') messageId: string,
   ): Promise<MessageResponseDto> {
     this.validateSessionId(sessionId);
@@ -140,18 +197,69 @@ export class MessageController {
     return this.messageService.getMessageById(sessionId, messageId);
   }
 
+  /**
+   * Edits a message's content
+   *
+   * @route PATCH /messages/:messageId
+   * @param {string} sessionId - Session ID from the session token
+   * @param {string} messageId - Message UUID
+   * @param {EditMessageDto} dto - New content
+   * @returns {Promise<EditMessageResponseDto>} Edited content with revisions
+   *
+   * @example
+   * // Request
+   * PATCH /api/v1/messages/xxx
+   * Headers: { "Authorization": "Bearer <session-token>" }
+   * Body: { "content": "Hello there!" }
+   *
+   * // Response 200
+   * {
+   *   "messageId": "xxx",
+   *   "content": "Hello there!",
+   *   "editedAt": "2025-12-18T10:05:00.000Z",
+   *   "revisions": [
+   *     { "content": "Helo there", "createdAt": "2025-12-18T10:00:00.000Z" }
+   *   ]
+   * }
+   */
+  @Patch(':messageId')
+  @HttpCode(HttpStatus.OK)
+  async editMessage(
+    @SessionId() sessionId: string,
+    @Param('messageId') messageId: string,
+    @Body() dto: EditMessageDto,
+  ): Promise<EditMessageResponseDto> {
+    this.validateSessionId(sessionId);
+
+    this.logger.log(`Editing message: ${messageId}`);
+
+    const message = await this.messageService.editMessage(
+      sessionId,
+      messageId,
+      dto.content,
+      dto.encrypted,
+    );
+
+    return {
+      messageId: message.messageId,
+      content: message.content,
+      editedAt: message.editedAt || message.createdAt,
+      revisions: message.revisions,
+    };
+  }
+
   /**
    * Deletes a message (soft-delete)
    * 
    * @route DELETE /messages/:messageId
-   * @param {string} sessionId - Session ID from X-Session-Id header
+   * @param {string} sessionId - Session ID from the session token
    * @param {string} messageId - Message UUID
    * @returns {Promise<DeleteMessageResponseDto>} Deletion confirmation
    * 
    * @example
    * // Request
    * DELETE /api/v1/messages/xxx
-   * Headers: { "X-Session-Id": "session-uuid" }
+   * Headers: { "Authorization": "Bearer <session-token>" }
    * 
    * // Response 200
    * {
@@ -164,7 +272,7 @@ export class MessageController {
   @Delete(':messageId')
   @HttpCode(HttpStatus.OK)
   async deleteMessage(
-    @Headers('x-session-id') sessionId: string,
+    @SessionId() sessionId: string,
     @Param('messageId') messageId: string,
   ): Promise<DeleteMessageResponseDto> {
     this.validateSessionId(sessionId);
@@ -185,7 +293,7 @@ export class MessageController {
    * Adds a reaction to a message
    * 
    * @route POST /messages/:messageId/reactions
-   * @param {string} sessionId - Session ID from X-Session-Id header
+   * @param {string} sessionId - Session ID from the session token
    * @param {string} messageId - Message UUID
    * @param {AddReactionDto} dto - Reaction data
    * @returns {Promise<ReactionResponseDto>} Updated reactions
@@ -193,7 +301,7 @@ export class MessageController {
    * @example
    * // Request
    * POST /api/v1/messages/xxx/reactions
-   * Headers: { "X-Session-Id": "session-uuid" }
+   * Headers: { "Authorization": "Bearer <session-token>" }
    * Body: { "type": "like" }
    * 
    * // Response 201
@@ -207,7 +315,7 @@ export class MessageController {
   @Post(':messageId/reactions')
   @HttpCode(HttpStatus.CREATED)
   async addReaction(
-    @Headers('x-session-id') sessionId: string,
+    @SessionId() sessionId: string,
     @Param('messageId') messageId: string,
     @Body() dto: AddReactionDto,
   ): Promise<ReactionResponseDto> {
@@ -231,7 +339,7 @@ export class MessageController {
    * Removes a reaction from a message
    * 
    * @route DELETE /messages/:messageId/reactions/:type
-   * @param {string} sessionId - Session ID from X-Session-Id header
+   * @param {string} sessionId - Session ID from the session token
    * @param {string} messageId - Message UUID
    * @param {string} type - Reaction type to remove
    * @returns {Promise<ReactionResponseDto>} Updated reactions
@@ -239,7 +347,7 @@ export class MessageController {
    * @example
    * // Request
    * DELETE /api/v1/messages/xxx/reactions/like
-   * Headers: { "X-Session-Id": "session-uuid" }
+   * Headers: { "Authorization": "Bearer <session-token>" }
    * 
    * // Response 200
    * {
@@ -250,7 +358,7 @@ export class MessageController {
   @Delete(':messageId/reactions/:type')
   @HttpCode(HttpStatus.OK)
   async removeReaction(
-    @Headers('x-session-id') sessionId: string,
+    @SessionId() sessionId: string,
     @Param('messageId') messageId: string,
     @Param('type') type: ReactionType,
   ): Promise<ReactionResponseDto> {
@@ -270,6 +378,44 @@ export class MessageController {
     };
   }
 
+  /**
+   * Reports a message to moderation
+   *
+   * @route POST /messages/:messageId/report
+   * @param {string} sessionId - Session ID from the session token
+   * @param {string} messageId - Message UUID
+   * @param {ReportMessageDto} dto - Reason and optional details
+   * @returns {Promise<ReportResponseDto>} Created report
+   *
+   * @example
+   * // Request
+   * POST /api/v1/messages/xxx/report
+   * Headers: { "Authorization": "Bearer <session-token>" }
+   * Body: { "reason": "spam" }
+   *
+   * // Response 201
+   * {
+   *   "reportId": "yyy",
+   *   "messageId": "xxx",
+   *   "reason": "spam",
+   *   "status": "open",
+   *   "createdAt": "2024-01-01T00:00:00.000Z"
+   * }
+   */
+  @Post(':messageId/report')
+  @HttpCode(HttpStatus.CREATED)
+  async reportMessage(
+    @SessionId() sessionId: string,
+    @Param('messageId') messageId: string,
+    @Body() dto: ReportMessageDto,
+  ): Promise<ReportResponseDto> {
+    this.validateSessionId(sessionId);
+
+    this.logger.debug(`Reporting message: ${messageId}`);
+
+    return this.messageService.reportMessage(sessionId, messageId, dto);
+  }
+
   /**
    * Validates that a session ID is present
    * 
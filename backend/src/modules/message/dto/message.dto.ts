@@ -17,9 +17,53 @@ import {
   MaxLength,
   IsArray,
   IsBoolean,
+  MinLength,
+  IsInt,
+  Min,
+  Max,
+  ValidateIf,
+  ValidateBy,
+  ValidationOptions,
 } from 'class-validator';
-import { Transform } from 'class-transformer';
-import { ContentType, ReactionType } from '../schemas/message.schema';
+import { Transform, Type } from 'class-transformer';
+import {
+  ContentType,
+  ReactionType,
+  MessageTtlStart,
+  MIN_MESSAGE_TTL_SECONDS,
+  MAX_MESSAGE_TTL_SECONDS,
+} from '../schemas/message.schema';
+
+/**
+ * Message content limits. Ciphertext from end-to-end encrypted rooms is
+ * longer than the text it encodes (UTF-8, auth tag, IV and base64url),
+ * so it gets its own limit.
+ */
+export const MAX_MESSAGE_LENGTH = 2000;
+export const MAX_ENCRYPTED_MESSAGE_LENGTH = 8400;
+
+/**
+ * Checks content length against the plaintext or ciphertext limit,
+ * depending on the DTO's encrypted flag
+ */
+function IsWithinMessageLength(
+  validationOptions?: ValidationOptions,
+): PropertyDecorator {
+  return ValidateBy(
+    {
+      name: 'isWithinMessageLength',
+      validator: {
+        validate: (value: unknown, args) =>
+          typeof value === 'string' &&
+          value.length <=
+            ((args?.object as { encrypted?: boolean }).encrypted
+              ? MAX_ENCRYPTED_MESSAGE_LENGTH
+              : MAX_MESSAGE_LENGTH),
+      },
+    },
+    validationOptions,
+  );
+}
 
 /**
  * Send Message Request DTO
@@ -30,7 +74,26 @@ import { ContentType, ReactionType } from '../schemas/message.schema';
  * {
  *   "roomId": "019123ab-cdef-7000-8000-000000000001",
  *   "content": "Hello! 👋",
- *   "contentType": "text"
+ *   "contentType": "text",
+ *   "replyTo": "019123ab-cdef-7000-8000-000000000002",
+ *   "clientMessageId": "5f0c6a1e-7d3b-4b8e-9a57-2f1f0c3e8d21"
+ * }
+ *
+ * @example
+ * // Sharing an uploaded file with an optional caption
+ * {
+ *   "roomId": "019123ab-cdef-7000-8000-000000000001",
+ *   "content": "From the trip",
+ *   "attachmentId": "019123ab-cdef-7000-8000-000000000003"
+ * }
+ *
+ * @example
+ * // A message that disappears 30 seconds after it is first read
+ * {
+ *   "roomId": "019123ab-cdef-7000-8000-000000000001",
+ *   "content": "This won't last",
+ *   "ttlSeconds": 30,
+ *   "ttlStart": "read"
  * }
  */
 export class SendMessageDto {
@@ -42,22 +105,114 @@ export class SendMessageDto {
   roomId: string;
 
   /**
-   * Message content (text or emoji)
+   * Message content (text or emoji), or a caption for an attachment
    * @example "Hello! 👋"
    */
+  @ValidateIf((dto: SendMessageDto) => !dto.attachmentId || !!dto.content)
   @IsString()
   @IsNotEmpty({ message: 'Message content is required' })
-  @MaxLength(2000, { message: 'Message cannot exceed 2000 characters' })
+  @IsWithinMessageLength({ message: 'Message cannot exceed 2000 characters' })
   @Transform(({ value }) => value?.trim())
   content: string;
 
   /**
-   * Type of content (text or emoji)
+   * Whether content is ciphertext (required in end-to-end encrypted rooms)
+   * @default false
+   */
+  @IsOptional()
+  @IsBoolean()
+  encrypted?: boolean;
+
+  /**
+   * Type of content; derived from the file when an attachment is sent
    * @default "text"
    */
   @IsOptional()
-  @IsEnum(ContentType, { message: 'Content type must be "text" or "emoji"' })
+  @IsEnum(ContentType, {
+    message:
+      'Content type must be "text", "emoji", "image", "file", or "audio"',
+  })
   contentType?: ContentType = ContentType.TEXT;
+
+  /**
+   * ID of a file uploaded via POST /attachments (optional)
+   */
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty({ message: 'Attachment ID cannot be empty' })
+  attachmentId?: string;
+
+  /**
+   * ID of the message being replied to (optional)
+   */
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty({ message: 'Reply target cannot be empty' })
+  replyTo?: string;
+
+  /**
+   * Client-generated ID used to deduplicate retries (optional)
+   */
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty({ message: 'Client message ID cannot be empty' })
+  @MaxLength(64, { message: 'Client message ID cannot exceed 64 characters' })
+  clientMessageId?: string;
+
+  /**
+   * Seconds until the message is deleted (optional; defaults to the room's)
+   * @example 30
+   */
+  @IsOptional()
+  @IsInt()
+  @Type(() => Number)
+  @Min(MIN_MESSAGE_TTL_SECONDS, {
+    message: `Messages must last at least ${MIN_MESSAGE_TTL_SECONDS} seconds`,
+  })
+  @Max(MAX_MESSAGE_TTL_SECONDS, {
+    message: 'Messages cannot last more than 7 days',
+  })
+  ttlSeconds?: number;
+
+  /**
+   * Whether ttlSeconds counts from sending or from the first read
+   * @default "sent"
+   */
+  @IsOptional()
+  @IsEnum(MessageTtlStart, { message: 'TTL start must be "sent" or "read"' })
+  ttlStart?: MessageTtlStart;
+}
+
+/**
+ * Edit Message Request DTO
+ *
+ * @description Validates the request to edit an existing message
+ *
+ * @example
+ * {
+ *   "content": "Hello there! 👋"
+ * }
+ */
+export class EditMessageDto {
+  /**
+   * New message content
+   * @example "Hello there! 👋"
+   */
+  @IsString()
+  @IsNotEmpty({ message: 'Message content is required' })
+  @IsWithinMessageLength({ message: 'Message cannot exceed 2000 characters' })
+  @Transform(({ value }: { value: unknown }) =>
+    typeof value === 'string' ? value.trim() : value,
+  )
+  content: string;
+
+  /**
+   * Whether content is ciphertext (required in end-to-end encrypted rooms)
+   * @default false
+   */
+  @IsOptional()
+  @IsBoolean()
+  encrypted?: boolean;
 }
 
 /**
@@ -99,6 +254,51 @@ export class GetMessagesQueryDto {
   after?: string;
 }
 
+/**
+ * Search Messages Query DTO
+ *
+ * @description Validates query parameters for searching within a room
+ *
+ * @example
+ * GET /messages/search?roomId=xxx&q=link&limit=20&before=cursor
+ */
+export class SearchMessagesQueryDto {
+  /**
+   * Room ID to search in
+   */
+  @IsString()
+  @IsNotEmpty({ message: 'Room ID is required' })
+  roomId: string;
+
+  /**
+   * Search query (words, "quoted phrases", -excluded words)
+   */
+  @IsString()
+  @Transform(({ value }: { value: unknown }) =>
+    typeof value === 'string' ? value.trim() : value,
+  )
+  @MinLength(2, { message: 'Search query must be at least 2 characters' })
+  @MaxLength(100, { message: 'Search query cannot exceed 100 characters' })
+  q: string;
+
+  /**
+   * Maximum number of results to return
+   * @default 20
+   */
+  @IsOptional()
+  @Transform(
+    ({ value }: { value: unknown }) => parseInt(String(value), 10) || 20,
+  )
+  limit?: number = 20;
+
+  /**
+   * Cursor for pagination (message ID to fetch before)
+   */
+  @IsOptional()
+  @IsString()
+  before?: string;
+}
+
 /**
  * Add Reaction Request DTO
  * 
@@ -135,6 +335,11 @@ export class MessageResponseDto {
    */
   roomId: string;
 
+  /**
+   * Client-generated ID the message was sent with (if any)
+   */
+  clientMessageId?: string;
+
   /**
    * Sender's user ID
    */
@@ -146,15 +351,25 @@ export class MessageResponseDto {
   senderName: string;
 
   /**
-   * Message content (or deletion placeholder if deleted)
+   * Message content (or deletion placeholder if deleted); ciphertext if encrypted
    */
   content: string;
 
+  /**
+   * Whether content and revisions are end-to-end encrypted ciphertext
+   */
+  encrypted: boolean;
+
   /**
    * Type of content
    */
   contentType: string;
 
+  /**
+   * Attached file metadata (image and file messages)
+   */
+  attachment?: MessageAttachmentDto;
+
   /**
    * Whether the message is deleted
    */
@@ -165,17 +380,137 @@ export class MessageResponseDto {
    */
   deletionPlaceholder?: string;
 
+  /**
+   * Quoted preview of the parent message (if this is a reply)
+   */
+  replyTo?: ReplyPreviewDto;
+
   /**
    * Reactions on this message
    */
   reactions: ReactionCountDto[];
 
+  /**
+   * Whether the message has been edited
+   */
+  isEdited: boolean;
+
+  /**
+   * Timestamp of the latest edit (if edited)
+   */
+  editedAt?: Date;
+
+  /**
+   * Prior versions of the content, oldest first
+   */
+  revisions: MessageRevisionDto[];
+
+  /**
+   * Lifetime in seconds of a disappearing message (null if it stays)
+   */
+  ttlSeconds: number | null;
+
+  /**
+   * Whether the lifetime counts from sending or from the first read
+   */
+  ttlStart: MessageTtlStart | null;
+
+  /**
+   * When the message will be deleted (null until its timer starts)
+   */
+  expiresAt: Date | null;
+
   /**
    * Message creation timestamp
    */
   createdAt: Date;
 }
 
+/**
+ * Message Attachment DTO
+ *
+ * @description File shared with a message. Contents are fetched from
+ * GET /attachments/:attachmentId (and /thumbnail when hasThumbnail is set).
+ */
+export class MessageAttachmentDto {
+  attachmentId: string;
+  fileName: string;
+  mimeType: string;
+
+  /**
+   * Size of the original file in bytes
+   */
+  size: number;
+
+  /**
+   * Pixel dimensions (images only)
+   */
+  width?: number;
+  height?: number;
+
+  hasThumbnail: boolean;
+
+  /**
+   * Playback duration and waveform samples (audio only)
+   */
+  durationMs?: number;
+  waveform?: number[];
+}
+
+/**
+ * Reply Preview DTO
+ *
+ * @description Compact quote of the message a reply refers to
+ */
+export class ReplyPreviewDto {
+  /**
+   * Parent message ID
+   */
+  messageId: string;
+
+  /**
+   * Parent sender's user ID
+   */
+  senderId: string;
+
+  /**
+   * Parent sender's display name
+   */
+  senderName: string;
+
+  /**
+   * Truncated parent content (empty if deleted or encrypted)
+   */
+  snippet: string;
+
+  /**
+   * Whether the parent is encrypted; clients quote their decrypted copy
+   */
+  encrypted?: boolean;
+
+  /**
+   * Whether the parent message has been deleted
+   */
+  isDeleted: boolean;
+}
+
+/**
+ * Message Revision DTO
+ *
+ * @description A prior version of an edited message
+ */
+export class MessageRevisionDto {
+  /**
+   * Content of this version
+   */
+  content: string;
+
+  /**
+   * When this version was written
+   */
+  createdAt: Date;
+}
+
 /**
  * Reaction Count DTO
  * 
@@ -219,6 +554,51 @@ export class PaginatedMessagesResponseDto {
   };
 }
 
+/**
+ * Message Search Result DTO
+ *
+ * @description A matching message with a highlighted snippet.
+ * The messageId doubles as the cursor for jumping to the message.
+ */
+export class MessageSearchResultDto {
+  messageId: string;
+  roomId: string;
+
+  /**
+   * Room code (set for cross-room history search)
+   */
+  roomCode?: string;
+
+  senderId: string;
+  senderName: string;
+
+  /**
+   * Excerpt around the first match
+   */
+  snippet: string;
+
+  /**
+   * Matched ranges within the snippet (start inclusive, end exclusive)
+   */
+  highlights: { start: number; end: number }[];
+
+  createdAt: Date;
+}
+
+/**
+ * Message Search Response DTO
+ *
+ * @description Search results (newest first) with pagination info
+ */
+export class MessageSearchResponseDto {
+  query: string;
+  results: MessageSearchResultDto[];
+  pagination: {
+    hasMore: boolean;
+    nextCursor?: string;
+  };
+}
+
 /**
  * Delete Message Response DTO
  * 
@@ -231,6 +611,45 @@ export class DeleteMessageResponseDto {
   placeholder: string;
 }
 
+/**
+ * Edit Message Response DTO
+ *
+ * @description Response for message edits
+ */
+export class EditMessageResponseDto {
+  messageId: string;
+  content: string;
+  editedAt: Date;
+  revisions: MessageRevisionDto[];
+}
+
+/**
+ * Read Receipt DTO
+ *
+ * @description A participant's read cursor after it moved
+ */
+export class ReadReceiptDto {
+  roomId: string;
+  userId: string;
+  lastReadMessageId: string;
+  readAt: Date;
+
+  /**
+   * Disappearing messages whose timers this read started
+   */
+  expiringMessages: ExpiringMessageDto[];
+}
+
+/**
+ * Expiring Message DTO
+ *
+ * @description A disappearing message and when it will be deleted
+ */
+export class ExpiringMessageDto {
+  messageId: string;
+  expiresAt: Date;
+}
+
 /**
  * Reaction Response DTO
  * 
@@ -16,6 +16,8 @@ import { MessageRepository } from './repositories/message.repository';
 import { MessageService } from './services/message.service';
 import { MessageController } from './controllers/message.controller';
 import { RoomModule } from '../room/room.module';
+import { AttachmentModule } from '../attachment/attachment.module';
+import { ModerationModule } from '../moderation/moderation.module';
 
 /**
  * Message Module
@@ -26,6 +28,8 @@ import { RoomModule } from '../room/room.module';
  * - Service for business logic
  * - Controller for API endpoints
  * - BullMQ queue for async persistence
+ * - Attachments resolved through AttachmentModule
+ * - Content checked through ModerationModule
  */
 @Module({
   imports: [
@@ -36,6 +40,8 @@ import { RoomModule } from '../room/room.module';
       name: 'message-persistence',
     }),
     forwardRef(() => RoomModule),
+    AttachmentModule,
+    ModerationModule,
   ],
   controllers: [MessageController],
   providers: [MessageRepository, MessageService],
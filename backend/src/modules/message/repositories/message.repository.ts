@@ -15,8 +15,10 @@ import { Model } from 'mongoose';
 import {
   Message,
   MessageDocument,
+  MessageRevision,
   Reaction,
   ReactionType,
+  MessageTtlStart,
 } from '../schemas/message.schema';
 
 /**
@@ -38,14 +40,35 @@ export interface PaginatedResult<T> {
   prevCursor?: string;
 }
 
+/**
+ * Message counts for a room
+ */
+export interface RoomMessageStats {
+  total: number;
+  deleted: number;
+  flagged: number;
+  withAttachments: number;
+}
+
+/**
+ * Query filter for messages whose disappearing timer hasn't run out
+ */
+const notExpired = (): Record<string, unknown> => ({
+  $or: [{ expiresAt: null }, { expiresAt: { $gt: new Date() } }],
+});
+
 /**
  * Message Repository
  * 
  * @description Implements data access operations for messages:
- * - Create and save messages
+ * - Create and save messages (idempotent with client message IDs)
  * - Paginated retrieval with cursor support
+ * - Full-text search across rooms
  * - Soft-delete operations
+ * - Content edits with revision history
  * - Reaction management
+ * - Disappearing message timers and hard deletes
+ * - Erasing a user's messages as tombstones
  * 
  * @class MessageRepository
  */
@@ -61,8 +84,13 @@ export class MessageRepository {
   /**
    * Creates a new message
    * 
+   * @description Sends carrying a clientMessageId are idempotent: if the
+   * sender already stored a message with that ID, the existing message is
+   * returned instead of creating a duplicate. The unique index covers
+   * concurrent retries that race past the initial lookup.
+   *
    * @param {Partial<Message>} messageData - Message data
-   * @returns {Promise<MessageDocument>} Created message
+   * @returns {Promise<MessageDocument>} Created (or previously created) message
    * 
    * @example
    * const message = await messageRepository.create({
@@ -76,11 +104,78 @@ export class MessageRepository {
   async create(messageData: Partial<Message>): Promise<MessageDocument> {
     this.logger.debug(`Creating message in room: ${messageData.roomId}`);
 
-    const message = new this.messageModel(messageData);
-    const savedMessage = await message.save();
+    const { senderId, clientMessageId } = messageData;
+
+    if (senderId && clientMessageId) {
+      const existing = await this.findByClientMessageId(
+        senderId,
+        clientMessageId,
+      );
+      if (existing) {
+        this.logger.debug(`Duplicate send ignored: ${clientMessageId}`);
+        return existing;
+      }
+    }
+
+    try {
+      const message = new this.messageModel(messageData);
+      const savedMessage = await message.save();
 
-    this.logger.debug(`Message created: ${savedMessage._id}`);
-    return savedMessage;
+      this.logger.debug(`Message created: ${savedMessage._id}`);
+      return savedMessage;
+    } catch (error) {
+      // A concurrent retry of the same message won the insert
+      const { code } = error as { code?: unknown };
+      if (code === 11000 && senderId && clientMessageId) {
+        const existing = await this.findByClientMessageId(
+          senderId,
+          clientMessageId,
+        );
+        if (existing) {
+          return existing;
+        }
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Inserts a batch of messages as given
+   *
+   * @description Used to restore imported conversations. Unlike create,
+   * there is no duplicate check, and IDs and timestamps set by the caller
+   * are kept.
+   *
+   * @param {Partial<Message>[]} messages - Messages to insert, in order
+   * @returns {Promise<number>} Number of messages inserted
+   */
+  async createMany(messages: Partial<Message>[]): Promise<number> {
+    if (messages.length === 0) {
+      return 0;
+    }
+
+    this.logger.debug(
+      `Inserting ${messages.length} messages in room: ${messages[0].roomId}`,
+    );
+
+    const inserted = await this.messageModel.insertMany(messages, {
+      ordered: true,
+    });
+    return inserted.length;
+  }
+
+  /**
+   * Finds a message by its sender and client-generated ID
+   *
+   * @param {string} senderId - Sender's user ID
+   * @param {string} clientMessageId - Client-generated message ID
+   * @returns {Promise<MessageDocument | null>} Message or null
+   */
+  async findByClientMessageId(
+    senderId: string,
+    clientMessageId: string,
+  ): Promise<MessageDocument | null> {
+    return this.messageModel.findOne({ senderId, clientMessageId }).exec();
   }
 
   /**
@@ -94,6 +189,20 @@ export class MessageRepository {
     return this.messageModel.findOne({ _id: messageId }).exec();
   }
 
+  /**
+   * Finds multiple messages by ID
+   *
+   * @param {string[]} messageIds - Message UUIDs
+   * @returns {Promise<MessageDocument[]>} Messages found (order not guaranteed)
+   */
+  async findByIds(messageIds: string[]): Promise<MessageDocument[]> {
+    if (messageIds.length === 0) {
+      return [];
+    }
+
+    return this.messageModel.find({ _id: { $in: messageIds } }).exec();
+  }
+
   /**
    * Gets paginated messages for a room
    * 
@@ -120,8 +229,8 @@ export class MessageRepository {
   ): Promise<PaginatedResult<MessageDocument>> {
     const { limit, before, after } = options;
 
-    // Build query based on cursor
-    const query: Record<string, unknown> = { roomId };
+    // Build query based on cursor; expired messages awaiting deletion are hidden
+    const query: Record<string, unknown> = { roomId, ...notExpired() };
 
     if (before) {
       // Fetch messages older than cursor
@@ -166,6 +275,107 @@ export class MessageRepository {
     };
   }
 
+  /**
+   * Gets a room's messages oldest first
+   *
+   * @description Walks a whole conversation in order, one page at a time,
+   * for exports. Deleted messages are included so callers can show
+   * placeholders; expired ones are not.
+   *
+   * @param {string} roomId - Room UUID
+   * @param {PaginationOptions} options - Pagination options (after only)
+   * @returns {Promise<PaginatedResult<MessageDocument>>} Messages, oldest first
+   *
+   * @example
+   * let page = await messageRepository.getMessagesOldestFirst('room-uuid', { limit: 200 });
+   * while (page.hasMore) {
+   *   page = await messageRepository.getMessagesOldestFirst('room-uuid', {
+   *     limit: 200,
+   *     after: page.nextCursor,
+   *   });
+   * }
+   */
+  async getMessagesOldestFirst(
+    roomId: string,
+    options: PaginationOptions,
+  ): Promise<PaginatedResult<MessageDocument>> {
+    const { limit, after } = options;
+
+    const query: Record<string, unknown> = { roomId, ...notExpired() };
+    if (after) {
+      query._id = { $gt: after };
+    }
+
+    const messages = await this.messageModel
+      .find(query)
+      .sort({ _id: 1 })
+      .limit(limit + 1)
+      .exec();
+
+    const hasMore = messages.length > limit;
+    if (hasMore) {
+      messages.pop();
+    }
+
+    return {
+      items: messages,
+      hasMore,
+      nextCursor: hasMore ? messages[messages.length - 1]._id : undefined,
+    };
+  }
+
+  /**
+   * Searches message content across rooms
+   *
+   * @description Uses the text index on content. Deleted messages are
+   * excluded. Results are newest first so the same cursor pagination
+   * as getMessages applies.
+   *
+   * @param {string[]} roomIds - Rooms to search in
+   * @param {string} query - MongoDB $text search string
+   * @param {PaginationOptions} options - Pagination options (before only)
+   * @returns {Promise<PaginatedResult<MessageDocument>>} Matching messages
+   */
+  async search(
+    roomIds: string[],
+    query: string,
+    options: PaginationOptions,
+  ): Promise<PaginatedResult<MessageDocument>> {
+    const { limit, before } = options;
+
+    if (roomIds.length === 0) {
+      return { items: [], hasMore: false };
+    }
+
+    const filter: Record<string, unknown> = {
+      roomId: { $in: roomIds },
+      isDeleted: false,
+      $text: { $search: query },
+      ...notExpired(),
+    };
+
+    if (before) {
+      filter._id = { $lt: before };
+    }
+
+    const messages = await this.messageModel
+      .find(filter)
+      .sort({ _id: -1 })
+      .limit(limit + 1)
+      .exec();
+
+    const hasMore = messages.length > limit;
+    if (hasMore) {
+      messages.pop();
+    }
+
+    return {
+      items: messages,
+      hasMore,
+      nextCursor: hasMore ? messages[messages.length - 1]._id : undefined,
+    };
+  }
+
   /**
    * Gets messages by sender
    * 
@@ -208,6 +418,196 @@ export class MessageRepository {
           deletedBy,
           deletedByName,
           content: '', // Clear content for privacy
+          revisions: [], // Prior versions are cleared as well
+          attachment: null,
+        },
+        { new: true },
+      )
+      .exec();
+  }
+
+  /**
+   * Permanently deletes a disappearing message whose timer has run out
+   *
+   * @description Unlike softDelete, nothing is left behind. Messages
+   * without a timer, or whose timer hasn't run out, are left alone.
+   *
+   * @param {string} messageId - Message UUID
+   * @returns {Promise<MessageDocument | null>} Deleted message or null
+   */
+  async deleteExpired(messageId: string): Promise<MessageDocument | null> {
+    this.logger.log(`Deleting expired message: ${messageId}`);
+
+    return this.messageModel
+      .findOneAndDelete({
+        _id: messageId,
+        expiresAt: { $ne: null, $lte: new Date() },
+      })
+      .exec();
+  }
+
+  /**
+   * Permanently deletes every message in a room
+   *
+   * @description Unlike softDelete, nothing is left behind. Callers are
+   * responsible for removing the returned attachments.
+   *
+   * @param {string} roomId - Room UUID
+   * @returns {Promise<{ deletedCount: number; attachmentIds: string[] }>} Number of messages deleted and their attachments
+   */
+  async deleteByRoom(
+    roomId: string,
+  ): Promise<{ deletedCount: number; attachmentIds: string[] }> {
+    this.logger.warn(`Purging all messages in room: ${roomId}`);
+
+    const attachmentIds: string[] = await this.messageModel
+      .distinct('attachment.attachmentId', {
+        roomId,
+        attachment: { $ne: null },
+      })
+      .exec();
+    const result = await this.messageModel.deleteMany({ roomId }).exec();
+
+    return { deletedCount: result.deletedCount, attachmentIds };
+  }
+
+  /**
+   * Replaces everything a user wrote with tombstones
+   *
+   * @description Their messages keep their IDs and timestamps, so room
+   * history keeps its order, but lose their content, attachment, edit
+   * history and sender name. The user's reactions are removed, and their
+   * name is cleared from messages they deleted. Callers are responsible
+   * for removing the user's attachments.
+   *
+   * @param {string} userId - User whose content to erase
+   * @param {string} senderName - Name shown on the tombstones
+   * @returns {Promise<{ erasedCount: number; roomIds: string[] }>} Number of messages erased and the rooms touched
+   */
+  async eraseBySender(
+    userId: string,
+    senderName: string,
+  ): Promise<{ erasedCount: number; roomIds: string[] }> {
+    this.logger.warn(`Erasing messages written by user: ${userId}`);
+
+    const roomIds: string[] = await this.messageModel
+      .distinct('roomId', {
+        $or: [{ senderId: userId }, { 'reactions.userId': userId }],
+      })
+      .exec();
+
+    const result = await this.messageModel
+      .updateMany(
+        { senderId: userId },
+        {
+          $set: {
+            senderName,
+            content: '',
+            encrypted: false,
+            attachment: null,
+            isDeleted: true,
+            deletedBy: null,
+            deletedByName: null,
+            revisions: [],
+            editedAt: null,
+            clientMessageId: null,
+            moderationFlags: [],
+          },
+        },
+      )
+      .exec();
+
+    await this.messageModel
+      .updateMany(
+        { 'reactions.userId': userId },
+        { $pull: { reactions: { userId } } },
+      )
+      .exec();
+    await this.messageModel
+      .updateMany(
+        { deletedBy: userId },
+        { $set: { deletedBy: null, deletedByName: null } },
+      )
+      .exec();
+
+    return { erasedCount: result.matchedCount, roomIds };
+  }
+
+  /**
+   * Finds read-triggered timers a reader's cursor has reached
+   *
+   * @description Returns messages up to and including the cursor whose
+   * timer starts at the first read and hasn't started yet. Senders
+   * reading their own messages don't count.
+   *
+   * @param {string} roomId - Room UUID
+   * @param {string} readerId - Reader's user ID
+   * @param {string} lastReadMessageId - Reader's new cursor
+   * @returns {Promise<MessageDocument[]>} Messages waiting to be read
+   */
+  async findUnstartedReadTimers(
+    roomId: string,
+    readerId: string,
+    lastReadMessageId: string,
+  ): Promise<MessageDocument[]> {
+    return this.messageModel
+      .find({
+        roomId,
+        ttlStart: MessageTtlStart.READ,
+        expiresAt: null,
+        senderId: { $ne: readerId },
+        _id: { $lte: lastReadMessageId },
+      })
+      .exec();
+  }
+
+  /**
+   * Starts a disappearing message's timer if it hasn't started yet
+   *
+   * @param {string} messageId - Message UUID
+   * @param {Date} expiresAt - When the message should be deleted
+   * @returns {Promise<MessageDocument | null>} Updated message, or null if already started
+   */
+  async startTimer(
+    messageId: string,
+    expiresAt: Date,
+  ): Promise<MessageDocument | null> {
+    return this.messageModel
+      .findOneAndUpdate(
+        { _id: messageId, expiresAt: null },
+        { $set: { expiresAt } },
+        { new: true },
+      )
+      .exec();
+  }
+
+  /**
+   * Replaces a message's content and records the previous version
+   *
+   * @description Only applies to messages that are not deleted. The previous
+   * content is pushed onto the revisions array in the same update.
+   *
+   * @param {string} messageId - Message UUID
+   * @param {string} content - New content
+   * @param {MessageRevision} previous - Snapshot of the content being replaced
+   * @param {string[]} [moderationFlags] - Moderation rules the new content flagged
+   * @returns {Promise<MessageDocument | null>} Updated message or null
+   */
+  async updateContent(
+    messageId: string,
+    content: string,
+    previous: MessageRevision,
+    moderationFlags: string[] = [],
+  ): Promise<MessageDocument | null> {
+    this.logger.debug(`Editing message: ${messageId}`);
+
+    return this.messageModel
+      .findOneAndUpdate(
+        { _id: messageId, isDeleted: false },
+        {
+          $set: { content, editedAt: new Date() },
+          $push: { revisions: previous },
+          $addToSet: { moderationFlags: { $each: moderationFlags } },
         },
         { new: true },
       )
@@ -295,6 +695,73 @@ export class MessageRepository {
     return this.messageModel.countDocuments({ roomId }).exec();
   }
 
+  /**
+   * Gets message counts for a room
+   *
+   * @param {string} roomId - Room UUID
+   * @returns {Promise<RoomMessageStats>} Total, deleted, flagged by moderation and with attachments
+   */
+  async getRoomStats(roomId: string): Promise<RoomMessageStats> {
+    const [stats] = await this.messageModel
+      .aggregate<RoomMessageStats>([
+        { $match: { roomId } },
+        {
+          $group: {
+            _id: null,
+            total: { $sum: 1 },
+            deleted: { $sum: { $cond: ['$isDeleted', 1, 0] } },
+            flagged: {
+              $sum: {
+                $cond: [
+                  {
+                    $gt: [{ $size: { $ifNull: ['$moderationFlags', []] } }, 0],
+                  },
+                  1,
+                  0,
+                ],
+              },
+            },
+            withAttachments: {
+              $sum: { $cond: [{ $ifNull: ['$attachment', false] }, 1, 0] },
+            },
+          },
+        },
+        { $project: { _id: 0 } },
+      ])
+      .exec();
+
+    return stats || { total: 0, deleted: 0, flagged: 0, withAttachments: 0 };
+  }
+
+  /**
+   * Counts messages a user hasn't read yet
+   *
+   * @description Counts non-deleted messages from other senders that are
+   * newer than the read cursor. Without a cursor, all of them are unread.
+   *
+   * @param {string} roomId - Room UUID
+   * @param {string} userId - Reader's user ID
+   * @param {string | null} lastReadMessageId - Reader's cursor
+   * @returns {Promise<number>} Unread count
+   */
+  async countUnread(
+    roomId: string,
+    userId: string,
+    lastReadMessageId: string | null,
+  ): Promise<number> {
+    const query: Record<string, unknown> = {
+      roomId,
+      senderId: { $ne: userId },
+      isDeleted: false,
+    };
+
+    if (lastReadMessageId) {
+      query._id = { $gt: lastReadMessageId };
+    }
+
+    return this.messageModel.countDocuments(query).exec();
+  }
+
   /**
    * Gets the latest message in a room
    * 
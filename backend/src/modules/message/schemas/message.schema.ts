@@ -31,8 +31,25 @@ export enum ReactionType {
 export enum ContentType {
   TEXT = 'text',
   EMOJI = 'emoji',
+  IMAGE = 'image',
+  FILE = 'file',
+  AUDIO = 'audio',
 }
 
+/**
+ * When a disappearing message's timer starts
+ */
+export enum MessageTtlStart {
+  SENT = 'sent',
+  READ = 'read',
+}
+
+/**
+ * Allowed lifetimes for disappearing messages (5 seconds to 7 days)
+ */
+export const MIN_MESSAGE_TTL_SECONDS = 5;
+export const MAX_MESSAGE_TTL_SECONDS = 7 * 24 * 3600;
+
 /**
  * Reaction subdocument
  * 
@@ -56,19 +73,85 @@ export class Reaction {
 
 export const ReactionSchema = SchemaFactory.createForClass(Reaction);
 
+/**
+ * Message revision subdocument
+ *
+ * @description Snapshot of a message's content before an edit.
+ * createdAt is when that version of the content was written.
+ */
+@Schema({ _id: false })
+export class MessageRevision {
+  @Prop({ type: String, required: true })
+  content: string;
+
+  @Prop({ type: Date, required: true })
+  createdAt: Date;
+}
+
+export const MessageRevisionSchema =
+  SchemaFactory.createForClass(MessageRevision);
+
+/**
+ * Message attachment subdocument
+ *
+ * @description Snapshot of the uploaded file's metadata, so messages can be
+ * rendered without loading the attachments collection.
+ */
+@Schema({ _id: false })
+export class MessageAttachment {
+  @Prop({ type: String, required: true })
+  attachmentId: string;
+
+  @Prop({ type: String, required: true })
+  fileName: string;
+
+  @Prop({ type: String, required: true })
+  mimeType: string;
+
+  @Prop({ type: Number, required: true })
+  size: number;
+
+  @Prop({ type: Number, default: null })
+  width: number | null;
+
+  @Prop({ type: Number, default: null })
+  height: number | null;
+
+  @Prop({ type: Boolean, default: false })
+  hasThumbnail: boolean;
+
+  @Prop({ type: Number, default: null })
+  durationMs: number | null;
+
+  @Prop({ type: [Number], default: null })
+  waveform: number[] | null;
+}
+
+export const MessageAttachmentSchema =
+  SchemaFactory.createForClass(MessageAttachment);
+
 /**
  * Message Schema
  * 
  * @description Represents a chat message with the following features:
  * - UUID v7 for time-sortable distributed IDs
- * - Support for text and emoji content types
+ * - Support for text, emoji, image, file, and audio content types
+ * - File attachments (content is an optional caption)
  * - Soft-delete with placeholder message
  * - Multiple reactions per message
+ * - Edit history with prior revisions
+ * - Replies referencing a parent message
+ * - Client-generated IDs for idempotent sends
+ * - Ciphertext-only content in end-to-end encrypted rooms
+ * - Disappearing messages, hard-deleted when their timer runs out
  * 
  * Indexes:
  * - roomId + createdAt: for paginated message retrieval
  * - senderId: for user message history
  * - isDeleted: for filtering deleted messages
+ * - senderId + clientMessageId: unique, for deduplicating retries
+ * - content: text index, for full-text search
+ * - roomId + ttlStart + expiresAt: for starting read-triggered timers
  * 
  * @class Message
  */
@@ -112,9 +195,13 @@ export class Message {
   })
   senderName: string;
 
+  /**
+   * Message text (may be empty for attachments without a caption).
+   * Ciphertext when the message is encrypted.
+   */
   @Prop({
     type: String,
-    required: true,
+    default: '',
   })
   content: string;
 
@@ -125,6 +212,13 @@ export class Message {
   })
   contentType: ContentType;
 
+  @Prop({ type: MessageAttachmentSchema, default: null })
+  attachment: MessageAttachment | null;
+
+  /** End-to-end encrypted: content (and revisions) are opaque ciphertext */
+  @Prop({ type: Boolean, default: false })
+  encrypted: boolean;
+
   @Prop({
     type: Boolean,
     default: false,
@@ -146,9 +240,55 @@ export class Message {
   })
   deletedByName: string | null;
 
+  @Prop({
+    type: String,
+    required: false,
+    default: null,
+  })
+  replyTo: string | null;
+
+  @Prop({
+    type: String,
+    required: false,
+    default: null,
+  })
+  clientMessageId: string | null;
+
   @Prop({ type: [ReactionSchema], default: [] })
   reactions: Reaction[];
 
+  @Prop({ type: [MessageRevisionSchema], default: [] })
+  revisions: MessageRevision[];
+
+  @Prop({
+    type: Date,
+    required: false,
+    default: null,
+  })
+  editedAt: Date | null;
+
+  /**
+   * Disappearing messages: lifetime in seconds and when it starts counting.
+   * expiresAt is set at send, or at the first read by someone other than
+   * the sender, and the message-persistence queue hard-deletes the message
+   * then.
+   */
+  @Prop({ type: Number, default: null })
+  ttlSeconds: number | null;
+
+  @Prop({ type: String, enum: MessageTtlStart, default: null })
+  ttlStart: MessageTtlStart | null;
+
+  @Prop({ type: Date, default: null })
+  expiresAt: Date | null;
+
+  /**
+   * Moderation rules whose action is to flag, kept for review and never
+   * sent to clients
+   */
+  @Prop({ type: [String], default: [] })
+  moderationFlags: string[];
+
   // Timestamps added by Mongoose
   createdAt: Date;
   updatedAt: Date;
@@ -174,6 +314,30 @@ MessageSchema.index({ roomId: 1, createdAt: -1 });
  */
 MessageSchema.index({ senderId: 1, createdAt: -1 });
 
+/**
+ * Unique index for idempotent sends (a retried message is stored once)
+ */
+MessageSchema.index(
+  { senderId: 1, clientMessageId: 1 },
+  {
+    unique: true,
+    partialFilterExpression: { clientMessageId: { $type: 'string' } },
+  },
+);
+
+/**
+ * Text index for full-text message search
+ */
+MessageSchema.index({ content: 'text' }, { name: 'message_content_text' });
+
+/**
+ * Compound index for finding read-triggered timers that haven't started
+ */
+MessageSchema.index(
+  { roomId: 1, ttlStart: 1, expiresAt: 1 },
+  { partialFilterExpression: { ttlStart: { $type: 'string' } } },
+);
+
 /**
  * Virtual property: Get reaction counts by type
  */
@@ -221,3 +385,11 @@ MessageSchema.methods.getUserReactions = function (
     .filter((r) => r.userId === userId)
     .map((r) => r.type);
 };
+
+/**
+ * Partial index for reviewing flagged messages
+ */
+MessageSchema.index(
+  { moderationFlags: 1, createdAt: -1 },
+  { partialFilterExpression: { 'moderationFlags.0': { $exists: true } } },
+);
@@ -4,23 +4,62 @@
  */
 
 import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
 import { getQueueToken } from '@nestjs/bullmq';
 import { MessageService } from './message.service';
 import { MessageRepository } from '../repositories/message.repository';
 import { RoomService } from '../../room/services/room.service';
+import { AttachmentService } from '../../attachment/services/attachment.service';
+import { ModerationService } from '../../moderation/services/moderation.service';
+import { ReportService } from '../../moderation/services/report.service';
+import {
+  ReportReason,
+  ReportStatus,
+} from '../../moderation/schemas/report.schema';
 import { REDIS_CLIENT } from '../../../config/redis.module';
-import { ContentType, ReactionType } from '../schemas/message.schema';
+import {
+  ContentType,
+  ReactionType,
+  MessageTtlStart,
+} from '../schemas/message.schema';
 import {
   MessageNotFoundException,
   DuplicateReactionException,
+  UnauthorizedActionException,
+  InvalidAttachmentException,
+  InvalidEncryptionPayloadException,
+  InvalidMessageTtlException,
+  MessageRejectedException,
 } from '../../../common/exceptions/business.exceptions';
 
 describe('MessageService', () => {
   let service: MessageService;
-  let messageRepository: jest.Mocked<MessageRepository>;
-  let roomService: jest.Mocked<RoomService>;
-  let redisClient: jest.Mocked<any>;
-  let messageQueue: jest.Mocked<any>;
+  let messageRepository: {
+    create: jest.Mock;
+    findById: jest.Mock;
+    findByIds: jest.Mock;
+    findByClientMessageId: jest.Mock;
+    search: jest.Mock;
+    getMessages: jest.Mock;
+    softDelete: jest.Mock;
+    addReaction: jest.Mock;
+    removeReaction: jest.Mock;
+    hasUserReacted: jest.Mock;
+    findUnstartedReadTimers: jest.Mock;
+    startTimer: jest.Mock;
+    deleteExpired: jest.Mock;
+    updateContent: jest.Mock;
+  };
+  let roomService: { getRoomById: jest.Mock; updateReadCursor: jest.Mock };
+  let attachmentService: {
+    resolveForMessage: jest.Mock;
+    releaseForMessage: jest.Mock;
+    remove: jest.Mock;
+  };
+  let moderationService: { moderate: jest.Mock };
+  let reportService: { createReport: jest.Mock };
+  let redisClient: { get: jest.Mock; setex: jest.Mock; del: jest.Mock };
+  let messageQueue: { add: jest.Mock };
 
   const mockSessionId = 'session-123';
   const mockUserId = 'user-123';
@@ -49,9 +88,15 @@ describe('MessageService', () => {
   };
 
   beforeEach(async () => {
-    const mockMessageRepository = {
+    messageRepository = {
       create: jest.fn().mockResolvedValue(mockMessage),
       findById: jest.fn().mockResolvedValue(mockMessage),
+      findByIds: jest.fn().mockResolvedValue([]),
+      findByClientMessageId: jest.fn().mockResolvedValue(null),
+      search: jest.fn().mockResolvedValue({
+        items: [mockMessage],
+        hasMore: false,
+      }),
       getMessages: jest.fn().mockResolvedValue({
         items: [mockMessage],
         hasMore: false,
@@ -63,6 +108,7 @@ describe('MessageService', () => {
         isDeleted: true,
         content: '',
         deletedBy: mockUserId,
+        deletedByName: 'User One',
         deletionPlaceholder: 'Message deleted by User One',
       }),
       addReaction: jest.fn().mockResolvedValue({
@@ -74,37 +120,96 @@ describe('MessageService', () => {
         reactions: [],
       }),
       hasUserReacted: jest.fn().mockResolvedValue(false),
+      findUnstartedReadTimers: jest.fn().mockResolvedValue([]),
+      startTimer: jest.fn(),
+      deleteExpired: jest.fn(),
+      updateContent: jest.fn().mockResolvedValue({
+        ...mockMessage,
+        content: 'Hello there!',
+        editedAt: new Date(),
+        revisions: [{ content: 'Hello!', createdAt: mockMessage.createdAt }],
+      }),
     };
 
-    const mockRoomService = {
-      getParticipant: jest.fn().mockResolvedValue(mockParticipant),
+    roomService = {
+      getRoomById: jest.fn().mockResolvedValue({
+        _id: mockRoomId,
+        participants: [mockParticipant],
+      }),
+      updateReadCursor: jest.fn().mockResolvedValue({
+        ...mockParticipant,
+        lastReadMessageId: 'msg-123',
+        lastReadAt: new Date(),
+      }),
     };
 
-    const mockRedisClient = {
-      get: jest.fn().mockResolvedValue(null),
+    attachmentService = {
+      resolveForMessage: jest.fn().mockResolvedValue({
+        _id: 'att-123',
+        roomId: mockRoomId,
+        uploaderId: mockUserId,
+        fileName: 'photo.jpg',
+        mimeType: 'image/jpeg',
+        size: 1024,
+        thumbnailKey: `${mockRoomId}/att-123-thumb`,
+        width: 800,
+        height: 600,
+      }),
+      releaseForMessage: jest.fn().mockResolvedValue(undefined),
+      remove: jest.fn().mockResolvedValue(undefined),
+    };
+
+    moderationService = {
+      moderate: jest.fn(({ content }) =>
+        Promise.resolve({ content, flags: [] }),
+      ),
+    };
+
+    reportService = {
+      createReport: jest.fn(({ messageId, reason }) =>
+        Promise.resolve({
+          reportId: 'report-123',
+          messageId,
+          reason,
+          status: ReportStatus.OPEN,
+          createdAt: new Date(),
+        }),
+      ),
+    };
+
+    redisClient = {
+      get: jest.fn().mockResolvedValue(mockUserId),
       setex: jest.fn().mockResolvedValue('OK'),
       del: jest.fn().mockResolvedValue(1),
     };
 
-    const mockQueue = {
+    messageQueue = {
       add: jest.fn().mockResolvedValue({ id: 'job-123' }),
     };
 
+    const mockConfigService = {
+      get: jest.fn((_key: string, defaultValue?: unknown) => defaultValue),
+    };
+
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         MessageService,
-        { provide: MessageRepository, useValue: mockMessageRepository },
-        { provide: RoomService, useValue: mockRoomService },
-        { provide: REDIS_CLIENT, useValue: mockRedisClient },
-        { provide: getQueueToken('message-persistence'), useValue: mockQueue },
+        { provide: MessageRepository, useValue: messageRepository },
+        { provide: RoomService, useValue: roomService },
+        { provide: AttachmentService, useValue: attachmentService },
+        { provide: ModerationService, useValue: moderationService },
+        { provide: ReportService, useValue: reportService },
+        { provide: REDIS_CLIENT, useValue: redisClient },
+        {
+          provide: getQueueToken('message-persistence'),
+          useValue: messageQueue,
+        },
+        { provide: ConfigService, useValue: mockConfigService },
       ],
     }).compile();
 
     service = module.get<MessageService>(MessageService);
-    messageRepository = module.get(MessageRepository);
-    roomService = module.get(RoomService);
-    redisClient = module.get(REDIS_CLIENT);
-    messageQueue = module.get(getQueueToken('message-persistence'));
+    service.onModuleInit();
   });
 
   afterEach(() => {
@@ -128,7 +233,10 @@ describe('MessageService', () => {
     });
 
     it('should throw error if user is not in room', async () => {
-      roomService.getParticipant.mockResolvedValue(null);
+      roomService.getRoomById.mockResolvedValue({
+        _id: mockRoomId,
+        participants: [],
+      } as any);
 
       const dto = {
         roomId: 'invalid-room',
@@ -168,6 +276,523 @@ describe('MessageService', () => {
         }),
       );
     });
+
+    it('should pass the client message ID through for deduplication', async () => {
+      messageRepository.create.mockResolvedValue({
+        ...mockMessage,
+        clientMessageId: 'client-1',
+      } as any);
+
+      const result = await service.sendMessage(mockSessionId, {
+        roomId: mockRoomId,
+        content: 'Hello!',
+        clientMessageId: 'client-1',
+      });
+
+      expect(messageRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ clientMessageId: 'client-1' }),
+      );
+      expect(result.clientMessageId).toBe('client-1');
+    });
+
+    it('should return a stored message for a retried client message ID', async () => {
+      messageRepository.findByClientMessageId.mockResolvedValue({
+        ...mockMessage,
+        clientMessageId: 'client-1',
+      });
+
+      const result = await service.sendMessage(mockSessionId, {
+        roomId: mockRoomId,
+        content: 'Hello!',
+        clientMessageId: 'client-1',
+      });
+
+      expect(result.messageId).toBe('msg-123');
+      expect(messageRepository.findByClientMessageId).toHaveBeenCalledWith(
+        mockUserId,
+        'client-1',
+      );
+      expect(moderationService.moderate).not.toHaveBeenCalled();
+      expect(messageRepository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('sendMessage with attachment', () => {
+    it('should store the attachment and derive the content type', async () => {
+      await service.sendMessage(mockSessionId, {
+        roomId: mockRoomId,
+        content: '',
+        attachmentId: 'att-123',
+      });
+
+      const [, , , messageId] = attachmentService.resolveForMessage.mock
+        .calls[0] as string[];
+      expect(attachmentService.resolveForMessage).toHaveBeenCalledWith(
+        'att-123',
+        mockUserId,
+        mockRoomId,
+        expect.any(String),
+      );
+      expect(messageRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          _id: messageId,
+          content: '',
+          contentType: ContentType.IMAGE,
+          attachment: expect.objectContaining({
+            attachmentId: 'att-123',
+            fileName: 'photo.jpg',
+            hasThumbnail: true,
+          }),
+        }),
+      );
+    });
+
+    it('should send files without thumbnails as file messages', async () => {
+      attachmentService.resolveForMessage.mockResolvedValue({
+        _id: 'att-456',
+        roomId: mockRoomId,
+        uploaderId: mockUserId,
+        fileName: 'notes.pdf',
+        mimeType: 'application/pdf',
+        size: 2048,
+        thumbnailKey: null,
+        width: null,
+        height: null,
+      } as any);
+
+      await service.sendMessage(mockSessionId, {
+        roomId: mockRoomId,
+        content: 'Meeting notes',
+        attachmentId: 'att-456',
+      });
+
+      expect(messageRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          content: 'Meeting notes',
+          contentType: ContentType.FILE,
+        }),
+      );
+    });
+
+    it('should send voice notes as audio messages', async () => {
+      attachmentService.resolveForMessage.mockResolvedValue({
+        _id: 'att-789',
+        roomId: mockRoomId,
+        uploaderId: mockUserId,
+        fileName: 'voice-note.webm',
+        mimeType: 'audio/webm',
+        size: 4096,
+        thumbnailKey: null,
+        width: null,
+        height: null,
+        durationMs: 4180,
+        waveform: [10, 60, 30],
+      } as any);
+
+      await service.sendMessage(mockSessionId, {
+        roomId: mockRoomId,
+        content: '',
+        attachmentId: 'att-789',
+      });
+
+      expect(messageRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          contentType: ContentType.AUDIO,
+          attachment: expect.objectContaining({
+            durationMs: 4180,
+            waveform: [10, 60, 30],
+          }),
+        }),
+      );
+    });
+
+    it('should give the attachment back when the message is rejected', async () => {
+      moderationService.moderate.mockRejectedValue(
+        new MessageRejectedException('Links to that site are not allowed here'),
+      );
+
+      await expect(
+        service.sendMessage(mockSessionId, {
+          roomId: mockRoomId,
+          content: 'see example.com',
+          attachmentId: 'att-123',
+        }),
+      ).rejects.toThrow(MessageRejectedException);
+      const [, , , messageId] = attachmentService.resolveForMessage.mock
+        .calls[0] as string[];
+      expect(attachmentService.releaseForMessage).toHaveBeenCalledWith(
+        'att-123',
+        messageId,
+      );
+      expect(messageRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject image messages without an attachment', async () => {
+      await expect(
+        service.sendMessage(mockSessionId, {
+          roomId: mockRoomId,
+          content: 'Hello!',
+          contentType: ContentType.IMAGE,
+        }),
+      ).rejects.toThrow(InvalidAttachmentException);
+    });
+
+    it('should remove the attachment when its message is deleted', async () => {
+      messageRepository.findById.mockResolvedValue({
+        ...mockMessage,
+        attachment: { attachmentId: 'att-123' },
+      } as any);
+
+      await service.deleteMessage(mockSessionId, 'msg-123');
+
+      expect(attachmentService.remove).toHaveBeenCalledWith('att-123');
+    });
+  });
+
+  describe('sendMessage with replyTo', () => {
+    const mockReply = {
+      ...mockMessage,
+      _id: 'msg-456',
+      messageId: 'msg-456',
+      content: 'Hi back!',
+      replyTo: 'msg-123',
+    };
+
+    it('should attach a quoted preview of the parent', async () => {
+      messageRepository.create.mockResolvedValue(mockReply as any);
+
+      const result = await service.sendMessage(mockSessionId, {
+        roomId: mockRoomId,
+        content: 'Hi back!',
+        replyTo: 'msg-123',
+      });
+
+      expect(messageRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ replyTo: 'msg-123' }),
+      );
+      expect(result.replyTo).toEqual({
+        messageId: 'msg-123',
+        senderId: mockUserId,
+        senderName: 'User One',
+        snippet: 'Hello!',
+        isDeleted: false,
+      });
+    });
+
+    it('should throw MessageNotFoundException if parent is in another room', async () => {
+      messageRepository.findById.mockResolvedValue({
+        ...mockMessage,
+        roomId: 'other-room',
+      } as any);
+
+      await expect(
+        service.sendMessage(mockSessionId, {
+          roomId: mockRoomId,
+          content: 'Hi back!',
+          replyTo: 'msg-123',
+        }),
+      ).rejects.toThrow(MessageNotFoundException);
+    });
+
+    it('should hide the snippet of a deleted parent', async () => {
+      messageRepository.findById.mockResolvedValue({
+        ...mockMessage,
+        isDeleted: true,
+        content: '',
+      } as any);
+      messageRepository.create.mockResolvedValue(mockReply as any);
+
+      const result = await service.sendMessage(mockSessionId, {
+        roomId: mockRoomId,
+        content: 'Hi back!',
+        replyTo: 'msg-123',
+      });
+
+      expect(result.replyTo?.isDeleted).toBe(true);
+      expect(result.replyTo?.snippet).toBe('');
+    });
+  });
+
+  describe('moderation', () => {
+    it('should store masked content and flags', async () => {
+      moderationService.moderate.mockResolvedValue({
+        content: 'what the ****',
+        flags: ['links'],
+      });
+
+      await service.sendMessage(mockSessionId, {
+        roomId: mockRoomId,
+        content: 'what the heck',
+      });
+
+      expect(moderationService.moderate).toHaveBeenCalledWith({
+        content: 'what the heck',
+        userId: mockUserId,
+        roomId: mockRoomId,
+        isEdit: false,
+      });
+      expect(messageRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          content: 'what the ****',
+          moderationFlags: ['links'],
+        }),
+      );
+    });
+
+    it('should not store rejected messages', async () => {
+      moderationService.moderate.mockRejectedValue(
+        new MessageRejectedException(
+          'You are sending the same message too often',
+        ),
+      );
+
+      await expect(
+        service.sendMessage(mockSessionId, {
+          roomId: mockRoomId,
+          content: 'buy now',
+        }),
+      ).rejects.toThrow(MessageRejectedException);
+      expect(messageRepository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('end-to-end encrypted rooms', () => {
+    const ciphertext = `v1.${'a'.repeat(16)}.${'b'.repeat(40)}`;
+
+    beforeEach(() => {
+      redisClient.get.mockResolvedValue(mockUserId);
+      roomService.getRoomById = jest.fn().mockResolvedValue({
+        _id: mockRoomId,
+        encrypted: true,
+        participants: [mockParticipant],
+      });
+    });
+
+    it('should store ciphertext with the encrypted flag', async () => {
+      await service.sendMessage(mockSessionId, {
+        roomId: mockRoomId,
+        content: ciphertext,
+        encrypted: true,
+      });
+
+      expect(messageRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ content: ciphertext, encrypted: true }),
+      );
+      expect(moderationService.moderate).not.toHaveBeenCalled();
+    });
+
+    it('should reject plaintext', async () => {
+      await expect(
+        service.sendMessage(mockSessionId, {
+          roomId: mockRoomId,
+          content: 'Hello!',
+        }),
+      ).rejects.toThrow(InvalidEncryptionPayloadException);
+    });
+
+    it('should reject malformed ciphertext', async () => {
+      await expect(
+        service.sendMessage(mockSessionId, {
+          roomId: mockRoomId,
+          content: '<b>not ciphertext</b>',
+          encrypted: true,
+        }),
+      ).rejects.toThrow(InvalidEncryptionPayloadException);
+    });
+
+    it('should reject attachments', async () => {
+      await expect(
+        service.sendMessage(mockSessionId, {
+          roomId: mockRoomId,
+          content: ciphertext,
+          encrypted: true,
+          attachmentId: 'att-123',
+        }),
+      ).rejects.toThrow(InvalidAttachmentException);
+      expect(messageRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to search', async () => {
+      await expect(
+        service.searchMessages(mockSessionId, mockRoomId, 'hello', {
+          limit: 20,
+        }),
+      ).rejects.toThrow(UnauthorizedActionException);
+      expect(messageRepository.search).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('disappearing messages', () => {
+    beforeEach(() => {
+      redisClient.get.mockResolvedValue(mockUserId);
+      roomService.getRoomById.mockResolvedValue({
+        _id: mockRoomId,
+        participants: [mockParticipant],
+        messageTtlSeconds: null,
+      });
+      messageRepository.create.mockImplementation((data: object) =>
+        Promise.resolve({ ...mockMessage, ...data }),
+      );
+    });
+
+    it('should start the timer at send and queue the deletion', async () => {
+      const result = await service.sendMessage(mockSessionId, {
+        roomId: mockRoomId,
+        content: 'Hello!',
+        ttlSeconds: 30,
+      });
+
+      expect(result.ttlStart).toBe(MessageTtlStart.SENT);
+      expect(result.expiresAt).toBeInstanceOf(Date);
+      expect(messageQueue.add).toHaveBeenCalledWith(
+        'expire-message',
+        { messageId: result.messageId, roomId: mockRoomId },
+        expect.objectContaining({
+          jobId: `expire-message:${result.messageId}`,
+          delay: expect.any(Number),
+        }),
+      );
+    });
+
+    it('should use the room default lifetime', async () => {
+      roomService.getRoomById = jest.fn().mockResolvedValue({
+        _id: mockRoomId,
+        participants: [mockParticipant],
+        messageTtlSeconds: 3600,
+        messageTtlStart: MessageTtlStart.READ,
+      });
+
+      await service.sendMessage(mockSessionId, {
+        roomId: mockRoomId,
+        content: 'Hello!',
+      });
+
+      expect(messageRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          ttlSeconds: 3600,
+          ttlStart: MessageTtlStart.READ,
+          expiresAt: null,
+        }),
+      );
+      expect(messageQueue.add).not.toHaveBeenCalled();
+    });
+
+    it('should reject lifetimes out of range', async () => {
+      await expect(
+        service.sendMessage(mockSessionId, {
+          roomId: mockRoomId,
+          content: 'Hello!',
+          ttlSeconds: 1,
+        }),
+      ).rejects.toThrow(InvalidMessageTtlException);
+      expect(messageRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should start read-triggered timers when the cursor moves', async () => {
+      const expiresAt = new Date(Date.now() + 30000);
+      messageRepository.findUnstartedReadTimers.mockResolvedValue([
+        {
+          ...mockMessage,
+          _id: 'msg-100',
+          senderId: 'user-456',
+          ttlSeconds: 30,
+        },
+      ]);
+      messageRepository.startTimer.mockResolvedValue({
+        ...mockMessage,
+        _id: 'msg-100',
+        expiresAt,
+      });
+
+      const result = await service.markRead(
+        mockSessionId,
+        mockRoomId,
+        'msg-123',
+      );
+
+      expect(messageRepository.findUnstartedReadTimers).toHaveBeenCalledWith(
+        mockRoomId,
+        mockUserId,
+        'msg-123',
+      );
+      expect(result?.expiringMessages).toEqual([
+        { messageId: 'msg-100', expiresAt },
+      ]);
+      expect(messageQueue.add).toHaveBeenCalledWith(
+        'expire-message',
+        { messageId: 'msg-100', roomId: mockRoomId },
+        expect.objectContaining({ jobId: 'expire-message:msg-100' }),
+      );
+    });
+
+    it('should hard-delete an expired message and its attachment', async () => {
+      messageRepository.deleteExpired.mockResolvedValue({
+        ...mockMessage,
+        attachment: { attachmentId: 'att-123' },
+      });
+
+      const result = await service.expireMessage('msg-123');
+
+      expect(result).toEqual({ messageId: 'msg-123', roomId: mockRoomId });
+      expect(attachmentService.remove).toHaveBeenCalledWith('att-123');
+      expect(messageRepository.softDelete).not.toHaveBeenCalled();
+    });
+
+    it('should skip messages that are already gone', async () => {
+      messageRepository.deleteExpired.mockResolvedValue(null);
+
+      await expect(service.expireMessage('msg-123')).resolves.toBeNull();
+    });
+  });
+
+  describe('searchMessages', () => {
+    it('should return results with highlighted snippets', async () => {
+      const result = await service.searchMessages(
+        mockSessionId,
+        mockRoomId,
+        'hello',
+        { limit: 20 },
+      );
+
+      expect(messageRepository.search).toHaveBeenCalledWith(
+        [mockRoomId],
+        'hello',
+        { limit: 20, before: undefined },
+      );
+      expect(result.results).toHaveLength(1);
+      expect(result.results[0]).toEqual(
+        expect.objectContaining({
+          messageId: 'msg-123',
+          snippet: 'Hello!',
+          highlights: [{ start: 0, end: 5 }],
+        }),
+      );
+    });
+
+    it('should cap the result limit', async () => {
+      await service.searchMessages(mockSessionId, mockRoomId, 'hello', {
+        limit: 500,
+      });
+
+      expect(messageRepository.search).toHaveBeenCalledWith(
+        [mockRoomId],
+        'hello',
+        expect.objectContaining({ limit: 50 }),
+      );
+    });
+
+    it('should throw if user is not in room', async () => {
+      roomService.getRoomById.mockResolvedValue({
+        _id: mockRoomId,
+        participants: [],
+      } as any);
+
+      await expect(
+        service.searchMessages(mockSessionId, mockRoomId, 'hello', {
+          limit: 20,
+        }),
+      ).rejects.toThrow();
+    });
   });
 
   describe('getMessages', () => {
@@ -202,7 +827,7 @@ describe('MessageService', () => {
         hasMore: true,
         nextCursor: 'next-cursor-123',
         prevCursor: null,
-      });
+      } as any);
 
       const result = await service.getMessages(mockSessionId, mockRoomId, {
         limit: 1,
@@ -211,6 +836,28 @@ describe('MessageService', () => {
       expect(result.pagination.hasMore).toBe(true);
       expect(result.pagination.nextCursor).toBe('next-cursor-123');
     });
+
+    it('should load reply parents in a single query', async () => {
+      messageRepository.getMessages.mockResolvedValue({
+        items: [
+          mockMessage,
+          { ...mockMessage, _id: 'msg-456', replyTo: 'msg-123' },
+          { ...mockMessage, _id: 'msg-789', replyTo: 'msg-123' },
+        ],
+        hasMore: false,
+        nextCursor: null,
+        prevCursor: null,
+      } as any);
+      messageRepository.findByIds.mockResolvedValue([mockMessage] as any);
+
+      const result = await service.getMessages(mockSessionId, mockRoomId, {
+        limit: 50,
+      });
+
+      expect(messageRepository.findByIds).toHaveBeenCalledWith(['msg-123']);
+      expect(result.messages[0].replyTo).toBeUndefined();
+      expect(result.messages[1].replyTo?.snippet).toBe('Hello!');
+    });
   });
 
   describe('deleteMessage', () => {
@@ -240,6 +887,85 @@ describe('MessageService', () => {
     });
   });
 
+  describe('editMessage', () => {
+    it('should edit a message and keep the previous revision', async () => {
+      const result = await service.editMessage(
+        mockSessionId,
+        'msg-123',
+        'Hello there!',
+      );
+
+      expect(result.content).toBe('Hello there!');
+      expect(result.isEdited).toBe(true);
+      expect(result.revisions).toHaveLength(1);
+      expect(messageRepository.updateContent).toHaveBeenCalledWith(
+        'msg-123',
+        'Hello there!',
+        { content: 'Hello!', createdAt: mockMessage.createdAt },
+        [],
+      );
+    });
+
+    it('should moderate the new content', async () => {
+      moderationService.moderate.mockRejectedValue(
+        new MessageRejectedException('Links to that site are not allowed here'),
+      );
+
+      await expect(
+        service.editMessage(mockSessionId, 'msg-123', 'see spam.example'),
+      ).rejects.toThrow(MessageRejectedException);
+
+      expect(moderationService.moderate).toHaveBeenCalledWith({
+        content: 'see spam.example',
+        userId: mockUserId,
+        roomId: mockRoomId,
+        isEdit: true,
+      });
+      expect(messageRepository.updateContent).not.toHaveBeenCalled();
+    });
+
+    it('should not create a revision when content is unchanged', async () => {
+      const result = await service.editMessage(
+        mockSessionId,
+        'msg-123',
+        'Hello!',
+      );
+
+      expect(result.isEdited).toBe(false);
+      expect(messageRepository.updateContent).not.toHaveBeenCalled();
+    });
+
+    it('should throw MessageNotFoundException for non-existent message', async () => {
+      messageRepository.findById.mockResolvedValue(null);
+
+      await expect(
+        service.editMessage(mockSessionId, 'invalid-msg', 'Hello there!'),
+      ).rejects.toThrow(MessageNotFoundException);
+    });
+
+    it("should throw UnauthorizedActionException when editing another user's message", async () => {
+      messageRepository.findById.mockResolvedValue({
+        ...mockMessage,
+        senderId: 'other-user',
+      } as any);
+
+      await expect(
+        service.editMessage(mockSessionId, 'msg-123', 'Hello there!'),
+      ).rejects.toThrow(UnauthorizedActionException);
+    });
+
+    it('should throw UnauthorizedActionException for deleted message', async () => {
+      messageRepository.findById.mockResolvedValue({
+        ...mockMessage,
+        isDeleted: true,
+      } as any);
+
+      await expect(
+        service.editMessage(mockSessionId, 'msg-123', 'Hello there!'),
+      ).rejects.toThrow(UnauthorizedActionException);
+    });
+  });
+
   describe('addReaction', () => {
     it('should add a reaction successfully', async () => {
       const result = await service.addReaction(
@@ -280,7 +1006,7 @@ describe('MessageService', () => {
           { type: ReactionType.LIKE, userId: mockUserId, createdAt: new Date() },
           { type: ReactionType.LOVE, userId: mockUserId, createdAt: new Date() },
         ],
-      });
+      } as any);
 
       const result = await service.addReaction(
         mockSessionId,
@@ -317,6 +1043,111 @@ describe('MessageService', () => {
     });
   });
 
+  describe('reportMessage', () => {
+    const otherUserId = 'user-456';
+
+    beforeEach(() => {
+      messageRepository.findById.mockResolvedValue({
+        ...mockMessage,
+        senderId: otherUserId,
+        senderName: 'User Two',
+      } as any);
+    });
+
+    it('should report a message with a snapshot of it', async () => {
+      const result = await service.reportMessage(mockSessionId, 'msg-123', {
+        reason: ReportReason.SPAM,
+      });
+
+      expect(result.reportId).toBe('report-123');
+      expect(reportService.createReport).toHaveBeenCalledWith(
+        expect.objectContaining({
+          messageId: 'msg-123',
+          roomId: mockRoomId,
+          reporterId: mockUserId,
+          reportedUserId: otherUserId,
+          reason: ReportReason.SPAM,
+          details: null,
+          snapshot: expect.objectContaining({
+            senderName: 'User Two',
+            content: 'Hello!',
+          }),
+        }),
+      );
+    });
+
+    it('should not let users report their own messages', async () => {
+      messageRepository.findById.mockResolvedValue(mockMessage as any);
+
+      await expect(
+        service.reportMessage(mockSessionId, 'msg-123', {
+          reason: ReportReason.SPAM,
+        }),
+      ).rejects.toThrow(UnauthorizedActionException);
+      expect(reportService.createReport).not.toHaveBeenCalled();
+    });
+
+    it('should not report a deleted message', async () => {
+      messageRepository.findById.mockResolvedValue({
+        ...mockMessage,
+        senderId: otherUserId,
+        isDeleted: true,
+      } as any);
+
+      await expect(
+        service.reportMessage(mockSessionId, 'msg-123', {
+          reason: ReportReason.HARASSMENT,
+        }),
+      ).rejects.toThrow(UnauthorizedActionException);
+    });
+  });
+
+  describe('markRead', () => {
+    it('should advance the read cursor and return a receipt', async () => {
+      const result = await service.markRead(
+        mockSessionId,
+        mockRoomId,
+        'msg-123',
+      );
+
+      expect(roomService.updateReadCursor).toHaveBeenCalledWith(
+        mockRoomId,
+        mockUserId,
+        'msg-123',
+      );
+      expect(result).toEqual(
+        expect.objectContaining({
+          roomId: mockRoomId,
+          userId: mockUserId,
+          lastReadMessageId: 'msg-123',
+        }),
+      );
+    });
+
+    it('should return null when the cursor did not move', async () => {
+      roomService.updateReadCursor.mockResolvedValue(null);
+
+      const result = await service.markRead(
+        mockSessionId,
+        mockRoomId,
+        'msg-123',
+      );
+
+      expect(result).toBeNull();
+    });
+
+    it('should throw MessageNotFoundException for message in another room', async () => {
+      messageRepository.findById.mockResolvedValue({
+        ...mockMessage,
+        roomId: 'other-room',
+      } as any);
+
+      await expect(
+        service.markRead(mockSessionId, mockRoomId, 'msg-123'),
+      ).rejects.toThrow(MessageNotFoundException);
+    });
+  });
+
   describe('getMessageById', () => {
     it('should return message by ID', async () => {
       const result = await service.getMessageById(mockSessionId, 'msg-123');
@@ -15,25 +15,55 @@ import { InjectQueue } from '@nestjs/bullmq';
 import { Queue } from 'bullmq';
 import Redis from 'ioredis';
 import { REDIS_CLIENT } from '../../../config/redis.module';
-import { MessageRepository, PaginationOptions } from '../repositories/message.repository';
+import {
+  MessageRepository,
+  PaginationOptions,
+  RoomMessageStats,
+} from '../repositories/message.repository';
 import { RoomService } from '../../room/services/room.service';
+import { AttachmentService } from '../../attachment/services/attachment.service';
+import { AttachmentDocument } from '../../attachment/schemas/attachment.schema';
+import { ModerationService } from '../../moderation/services/moderation.service';
+import { ReportService } from '../../moderation/services/report.service';
+import {
+  ReportMessageDto,
+  ReportResponseDto,
+} from '../../moderation/dto/report.dto';
 import {
   MessageDocument,
+  MessageAttachment,
   Reaction,
   ReactionType,
   ContentType,
+  MessageTtlStart,
+  MIN_MESSAGE_TTL_SECONDS,
+  MAX_MESSAGE_TTL_SECONDS,
 } from '../schemas/message.schema';
 import {
   SendMessageDto,
   MessageResponseDto,
   ReactionCountDto,
+  ReplyPreviewDto,
+  ReadReceiptDto,
+  ExpiringMessageDto,
   PaginatedMessagesResponseDto,
+  MessageSearchResponseDto,
+  MAX_ENCRYPTED_MESSAGE_LENGTH,
 } from '../dto/message.dto';
 import { generateId } from '../../../common/utils/uuid.util';
+import {
+  buildHighlightedSnippet,
+  extractSearchTerms,
+} from '../../../common/utils/search.util';
 import {
   MessageNotFoundException,
   UserNotInRoomException,
   DuplicateReactionException,
+  UnauthorizedActionException,
+  InvalidAttachmentException,
+  InvalidEncryptionPayloadException,
+  InvalidMessageTtlException,
+  RoomClosedException,
 } from '../../../common/exceptions/business.exceptions';
 
 /**
@@ -44,14 +74,46 @@ const CACHE_KEYS = {
   ROOM_MESSAGES: (roomId: string) => `room:${roomId}:messages`,
 };
 
+/**
+ * Job ID for a disappearing message's deletion, so rescheduling is a no-op
+ */
+const EXPIRE_JOB_ID = (messageId: string) => `expire-message:${messageId}`;
+
+/**
+ * Maximum length of the quoted parent content in a reply preview
+ */
+const REPLY_SNIPPET_LENGTH = 100;
+
+/**
+ * Search result limits
+ */
+const SEARCH_SNIPPET_LENGTH = 120;
+const MAX_SEARCH_RESULTS = 50;
+
+/**
+ * Ciphertext from end-to-end encrypted rooms: version, 12-byte IV and
+ * AES-GCM output (at least the 16-byte tag), all base64url
+ */
+const ENCRYPTED_CONTENT_PATTERN = /^v1\.[A-Za-z0-9_-]{16}\.[A-Za-z0-9_-]{22,}$/;
+
 /**
  * Message Service
  * 
  * @description Handles all business logic for message operations:
  * - Sending messages with room validation
+ * - Image, file, and voice note attachments
  * - Paginated message retrieval
  * - Soft-delete with placeholder messages
+ * - Editing with revision history
+ * - Replies with quoted parent previews
+ * - Read receipts
+ * - Full-text search within a room (not in end-to-end encrypted rooms)
+ * - Ciphertext-only messages in end-to-end encrypted rooms
+ * - Disappearing messages, deleted by the message-persistence queue
  * - Reaction management with duplicate prevention
+ * - Content moderation of plaintext messages and edits
+ * - Reporting other participants' messages to moderation
+ * - Erasing a user's messages and attachments when their session is erased
  * - Queue-based persistence for scalability
  * 
  * @class MessageService
@@ -67,6 +129,9 @@ export class MessageService implements OnModuleInit {
   constructor(
     private readonly messageRepository: MessageRepository,
     private readonly roomService: RoomService,
+    private readonly attachmentService: AttachmentService,
+    private readonly moderationService: ModerationService,
+    private readonly reportService: ReportService,
     @Inject(REDIS_CLIENT)
     private readonly redisClient: Redis,
     @InjectQueue('message-persistence')
@@ -84,15 +149,26 @@ export class MessageService implements OnModuleInit {
    * 
    * @description Creates a message with the following flow:
    * 1. Validates user is a participant in the room
-   * 2. Gets user info from session
-   * 3. Creates message in database
-   * 4. Queues async tasks (if needed)
-   * 5. Returns formatted message response
+   * 2. Gets user info from session, and returns the stored message if the
+   *    clientMessageId was already sent (a retry after a lost ack)
+   * 3. Checks content is ciphertext exactly when the room is encrypted
+   * 4. Validates the reply target belongs to the same room (if replying)
+   * 5. Claims the attachment, which sets the content type (if attaching)
+   * 6. Runs plaintext through moderation, which may mask, flag or reject it
+   * 7. Creates message in database (deduplicated by clientMessageId), and
+   *    gives the attachment back if that or moderation fails
+   * 8. Schedules deletion if the message disappears after sending
+   * 9. Returns formatted message response with quoted parent
    * 
    * @param {string} sessionId - Sender's session ID
    * @param {SendMessageDto} dto - Message data
    * @returns {Promise<MessageResponseDto>} Created message
    * @throws {UserNotInRoomException} If user is not in the room
+   * @throws {MessageNotFoundException} If the reply target doesn't exist in the room
+   * @throws {InvalidAttachmentException} If the attachment is missing, not the sender's or already sent
+   * @throws {InvalidEncryptionPayloadException} If content doesn't match the room's encryption
+   * @throws {InvalidMessageTtlException} If the message lifetime is out of range
+   * @throws {MessageRejectedException} If a moderation rule rejects the content
    * 
    * @example
    * const message = await messageService.sendMessage('session-uuid', {
@@ -108,23 +184,126 @@ export class MessageService implements OnModuleInit {
     this.logger.debug(`Sending message to room: ${dto.roomId}`);
 
     // Get user info and validate room participation
-    const { userId, displayName } = await this.validateAndGetUserInfo(
-      sessionId,
-      dto.roomId,
-    );
+    const { userId, displayName, encrypted, messageTtl } =
+      await this.validateAndGetUserInfo(sessionId, dto.roomId, true);
 
-    // Create message
-    const message = await this.messageRepository.create({
-      roomId: dto.roomId,
-      senderId: userId,
-      senderName: displayName,
-      content: dto.content,
-      contentType: dto.contentType || ContentType.TEXT,
-    });
+    // A retry after a lost ack returns the stored message before anything
+    // with side effects (moderation counters, attachments, timers) runs again
+    if (dto.clientMessageId) {
+      const existing = await this.messageRepository.findByClientMessageId(
+        userId,
+        dto.clientMessageId,
+      );
+      if (existing) {
+        this.logger.debug(`Duplicate send ignored: ${dto.clientMessageId}`);
+        const parent = existing.replyTo
+          ? await this.messageRepository.findById(existing.replyTo)
+          : null;
+        return this.mapToMessageResponse(existing, userId, parent);
+      }
+    }
+
+    this.checkEncryption(encrypted, dto.content || '', dto.encrypted);
+
+    // The sender's choice wins over the room default
+    const ttl = this.resolveTtl(dto.ttlSeconds, dto.ttlStart, messageTtl);
+
+    // Files aren't encrypted, so they would leak past end-to-end encryption
+    if (encrypted && dto.attachmentId) {
+      throw new InvalidAttachmentException(
+        'Attachments are not available in end-to-end encrypted rooms',
+      );
+    }
+
+    // Replies may only reference messages in the same room
+    let parent: MessageDocument | null = null;
+    if (dto.replyTo) {
+      parent = await this.messageRepository.findById(dto.replyTo);
+
+      if (!parent || parent.roomId !== dto.roomId) {
+        throw new MessageNotFoundException(dto.replyTo);
+      }
+    }
+
+    // Attachments decide the content type; any text becomes a caption.
+    // Claiming one ties it to this message, so the ID is chosen up front
+    const messageId = generateId();
+    let attachment: AttachmentDocument | null = null;
+    let contentType = dto.contentType || ContentType.TEXT;
+    if (dto.attachmentId) {
+      attachment = await this.attachmentService.resolveForMessage(
+        dto.attachmentId,
+        userId,
+        dto.roomId,
+        messageId,
+      );
+      contentType =
+        attachment.durationMs != null
+          ? ContentType.AUDIO
+          : attachment.thumbnailKey
+            ? ContentType.IMAGE
+            : ContentType.FILE;
+    } else if (
+      contentType === ContentType.IMAGE ||
+      contentType === ContentType.FILE ||
+      contentType === ContentType.AUDIO
+    ) {
+      throw new InvalidAttachmentException(
+        `Messages of type '${contentType}' require an attachment`,
+      );
+    }
+
+    let message: MessageDocument;
+    try {
+      // Ciphertext can't be inspected, so encrypted rooms skip moderation
+      const moderation = encrypted
+        ? { content: dto.content || '', flags: [] }
+        : await this.moderationService.moderate({
+            content: dto.content || '',
+            userId,
+            roomId: dto.roomId,
+            isEdit: false,
+            clientMessageId: dto.clientMessageId,
+          });
+
+      // Create message
+      message = await this.messageRepository.create({
+        _id: messageId,
+        roomId: dto.roomId,
+        senderId: userId,
+        senderName: displayName,
+        content: moderation.content,
+        contentType,
+        encrypted,
+        attachment: attachment ? this.toMessageAttachment(attachment) : null,
+        replyTo: parent ? parent._id : null,
+        clientMessageId: dto.clientMessageId || null,
+        moderationFlags: moderation.flags,
+        ttlSeconds: ttl?.seconds ?? null,
+        ttlStart: ttl?.start ?? null,
+        expiresAt:
+          ttl?.start === MessageTtlStart.SENT
+            ? new Date(Date.now() + ttl.seconds * 1000)
+            : null,
+      });
+    } catch (error) {
+      // The message was never stored, so the attachment can be sent again
+      if (dto.attachmentId && attachment) {
+        await this.attachmentService.releaseForMessage(
+          dto.attachmentId,
+          messageId,
+        );
+      }
+      throw error;
+    }
+
+    if (message.expiresAt) {
+      await this.scheduleExpiry(message);
+    }
 
     this.logger.log(`Message sent: ${message._id} to room ${dto.roomId}`);
 
-    return this.mapToMessageResponse(message, userId);
+    return this.mapToMessageResponse(message, userId, parent);
   }
 
   /**
@@ -149,9 +328,16 @@ export class MessageService implements OnModuleInit {
     // Get paginated messages
     const result = await this.messageRepository.getMessages(roomId, options);
 
+    // Load quoted parents in a single query
+    const parents = await this.getReplyParents(result.items);
+
     // Map to response DTOs
     const messages = result.items.map((msg) =>
-      this.mapToMessageResponse(msg, userId),
+      this.mapToMessageResponse(
+        msg,
+        userId,
+        msg.replyTo ? (parents.get(msg.replyTo) ?? null) : null,
+      ),
     );
 
     return {
@@ -164,6 +350,67 @@ export class MessageService implements OnModuleInit {
     };
   }
 
+  /**
+   * Searches message content within a room
+   *
+   * @description Full-text search over non-deleted messages, newest first.
+   * Each result carries a highlighted snippet and its messageId, which
+   * clients use as the cursor to jump to the message in the conversation.
+   *
+   * @param {string} sessionId - Requester's session ID
+   * @param {string} roomId - Room to search in
+   * @param {string} query - Search query
+   * @param {PaginationOptions} options - Pagination options (before only)
+   * @returns {Promise<MessageSearchResponseDto>} Matching messages
+   * @throws {UserNotInRoomException} If user is not in the room
+   * @throws {UnauthorizedActionException} If the room is end-to-end encrypted
+   */
+  async searchMessages(
+    sessionId: string,
+    roomId: string,
+    query: string,
+    options: PaginationOptions,
+  ): Promise<MessageSearchResponseDto> {
+    this.logger.debug(`Searching messages in room: ${roomId}`);
+
+    // Validate user is in room
+    const { encrypted } = await this.validateAndGetUserInfo(sessionId, roomId);
+
+    // The server only holds ciphertext for these rooms
+    if (encrypted) {
+      throw new UnauthorizedActionException(
+        'search an end-to-end encrypted room',
+      );
+    }
+
+    const result = await this.messageRepository.search([roomId], query, {
+      limit: Math.min(options.limit, MAX_SEARCH_RESULTS),
+      before: options.before,
+    });
+
+    const terms = extractSearchTerms(query);
+
+    return {
+      query,
+      results: result.items.map((message) => ({
+        messageId: message._id,
+        roomId: message.roomId,
+        senderId: message.senderId,
+        senderName: message.senderName,
+        ...buildHighlightedSnippet(
+          message.content,
+          terms,
+          SEARCH_SNIPPET_LENGTH,
+        ),
+        createdAt: message.createdAt,
+      })),
+      pagination: {
+        hasMore: result.hasMore,
+        nextCursor: result.nextCursor,
+      },
+    };
+  }
+
   /**
    * Deletes a message (soft-delete)
    * 
@@ -195,6 +442,7 @@ export class MessageService implements OnModuleInit {
     const { userId, displayName } = await this.validateAndGetUserInfo(
       sessionId,
       message.roomId,
+      true,
     );
 
     // Soft delete
@@ -208,11 +456,102 @@ export class MessageService implements OnModuleInit {
       throw new MessageNotFoundException(messageId);
     }
 
+    // The file goes with the message
+    if (message.attachment) {
+      await this.attachmentService.remove(message.attachment.attachmentId);
+    }
+
     this.logger.log(`Message deleted: ${messageId} by ${displayName}`);
 
     return this.mapToMessageResponse(deletedMessage, userId);
   }
 
+  /**
+   * Edits a message's content
+   *
+   * @description Replaces the content in place so the message keeps its
+   * position and reactions. The previous content is kept as a revision.
+   * - Only the sender can edit their message
+   * - Deleted messages cannot be edited
+   * - Unchanged content is a no-op
+   * - Plaintext edits go through moderation like new messages
+   *
+   * @param {string} sessionId - Requester's session ID
+   * @param {string} messageId - Message to edit
+   * @param {string} content - New content
+   * @param {boolean} [encrypted] - Whether content is ciphertext
+   * @returns {Promise<MessageResponseDto>} Edited message
+   * @throws {MessageNotFoundException} If message doesn't exist
+   * @throws {UserNotInRoomException} If user is not in the room
+   * @throws {UnauthorizedActionException} If user is not the sender or message is deleted
+   * @throws {InvalidEncryptionPayloadException} If content doesn't match the message's encryption
+   * @throws {MessageRejectedException} If a moderation rule rejects the new content
+   */
+  async editMessage(
+    sessionId: string,
+    messageId: string,
+    content: string,
+    encrypted?: boolean,
+  ): Promise<MessageResponseDto> {
+    this.logger.debug(`Editing message: ${messageId}`);
+
+    // Find message
+    const message = await this.messageRepository.findById(messageId);
+
+    if (!message) {
+      throw new MessageNotFoundException(messageId);
+    }
+
+    // Validate user is in room
+    const { userId } = await this.validateAndGetUserInfo(
+      sessionId,
+      message.roomId,
+      true,
+    );
+
+    if (message.senderId !== userId) {
+      throw new UnauthorizedActionException('edit this message');
+    }
+
+    if (message.isDeleted) {
+      throw new UnauthorizedActionException('edit a deleted message');
+    }
+
+    this.checkEncryption(!!message.encrypted, content, encrypted);
+
+    // Nothing to record if the content didn't change
+    if (message.content === content) {
+      return this.mapToMessageResponse(message, userId);
+    }
+
+    const moderation = message.encrypted
+      ? { content, flags: [] }
+      : await this.moderationService.moderate({
+          content,
+          userId,
+          roomId: message.roomId,
+          isEdit: true,
+        });
+
+    const updatedMessage = await this.messageRepository.updateContent(
+      messageId,
+      moderation.content,
+      {
+        content: message.content,
+        createdAt: message.editedAt || message.createdAt,
+      },
+      moderation.flags,
+    );
+
+    if (!updatedMessage) {
+      throw new MessageNotFoundException(messageId);
+    }
+
+    this.logger.log(`Message edited: ${messageId}`);
+
+    return this.mapToMessageResponse(updatedMessage, userId);
+  }
+
   /**
    * Adds a reaction to a message
    * 
@@ -241,6 +580,7 @@ export class MessageService implements OnModuleInit {
     const { userId } = await this.validateAndGetUserInfo(
       sessionId,
       message.roomId,
+      true,
     );
 
     // Check for duplicate reaction
@@ -306,6 +646,7 @@ export class MessageService implements OnModuleInit {
     const { userId } = await this.validateAndGetUserInfo(
       sessionId,
       message.roomId,
+      true,
     );
 
     // Remove reaction
@@ -322,6 +663,231 @@ export class MessageService implements OnModuleInit {
     return this.mapToMessageResponse(updatedMessage, userId);
   }
 
+  /**
+   * Reports a message to moderation
+   *
+   * @description Records the report with a snapshot of the message as the
+   * reporter sees it, so the evidence survives the message being edited
+   * or deleted. The moderation queue then checks the room's reports
+   * against the ban and close thresholds.
+   * - Participants can't report their own messages
+   * - Deleted messages have nothing left to report
+   * - Each participant can report a message once
+   *
+   * @param {string} sessionId - Reporter's session ID
+   * @param {string} messageId - Message to report
+   * @param {ReportMessageDto} dto - Reason and optional details
+   * @returns {Promise<ReportResponseDto>} Created report
+   * @throws {MessageNotFoundException} If message doesn't exist
+   * @throws {UserNotInRoomException} If user is not in the room
+   * @throws {UnauthorizedActionException} If user is the sender or message is deleted
+   * @throws {DuplicateReportException} If user already reported the message
+   */
+  async reportMessage(
+    sessionId: string,
+    messageId: string,
+    dto: ReportMessageDto,
+  ): Promise<ReportResponseDto> {
+    this.logger.debug(`Reporting message: ${messageId}`);
+
+    // Find message
+    const message = await this.messageRepository.findById(messageId);
+
+    if (!message) {
+      throw new MessageNotFoundException(messageId);
+    }
+
+    // Validate user is in room
+    const { userId } = await this.validateAndGetUserInfo(
+      sessionId,
+      message.roomId,
+      true,
+    );
+
+    if (message.senderId === userId) {
+      throw new UnauthorizedActionException('report your own message');
+    }
+
+    if (message.isDeleted) {
+      throw new UnauthorizedActionException('report a deleted message');
+    }
+
+    return this.reportService.createReport({
+      messageId,
+      roomId: message.roomId,
+      reporterId: userId,
+      reportedUserId: message.senderId,
+      reason: dto.reason,
+      details: dto.details || null,
+      snapshot: {
+        senderName: message.senderName,
+        content: message.content,
+        contentType: message.contentType,
+        encrypted: !!message.encrypted,
+        attachmentFileName: message.attachment?.fileName ?? null,
+        attachmentMimeType: message.attachment?.mimeType ?? null,
+        moderationFlags: message.moderationFlags || [],
+        sentAt: message.createdAt,
+        editedAt: message.editedAt || null,
+      },
+    });
+  }
+
+  /**
+   * Marks messages in a room as read up to (and including) a message
+   *
+   * @description Stores the read cursor on the reader's participant entry.
+   * The cursor only moves forward; an older or repeated message is a no-op.
+   * Disappearing messages from others that wait for their first read start
+   * their timers here.
+   *
+   * @param {string} sessionId - Reader's session ID
+   * @param {string} roomId - Room the message belongs to
+   * @param {string} messageId - Newest message the user has seen
+   * @returns {Promise<ReadReceiptDto | null>} Receipt, or null if the cursor didn't move
+   * @throws {UserNotInRoomException} If user is not in the room
+   * @throws {MessageNotFoundException} If the message doesn't exist in the room
+   */
+  async markRead(
+    sessionId: string,
+    roomId: string,
+    messageId: string,
+  ): Promise<ReadReceiptDto | null> {
+    const { userId } = await this.validateAndGetUserInfo(sessionId, roomId);
+
+    const message = await this.messageRepository.findById(messageId);
+
+    if (!message || message.roomId !== roomId) {
+      throw new MessageNotFoundException(messageId);
+    }
+
+    const participant = await this.roomService.updateReadCursor(
+      roomId,
+      userId,
+      messageId,
+    );
+
+    if (!participant) {
+      return null;
+    }
+
+    const expiringMessages = await this.startReadTimers(
+      roomId,
+      userId,
+      messageId,
+    );
+
+    return {
+      roomId,
+      userId,
+      lastReadMessageId: messageId,
+      readAt: participant.lastReadAt || new Date(),
+      expiringMessages,
+    };
+  }
+
+  /**
+   * Permanently deletes a disappearing message once its timer runs out
+   *
+   * @description Called by the message-persistence queue. The message and
+   * its attachment are removed outright rather than soft-deleted. Returns
+   * null if the message is already gone or its timer hasn't run out.
+   *
+   * @param {string} messageId - Message to delete
+   * @returns {Promise<{ messageId: string; roomId: string } | null>} Deleted message
+   */
+  async expireMessage(
+    messageId: string,
+  ): Promise<{ messageId: string; roomId: string } | null> {
+    const message = await this.messageRepository.deleteExpired(messageId);
+
+    if (!message) {
+      return null;
+    }
+
+    // The file goes with the message
+    if (message.attachment) {
+      await this.attachmentService.remove(message.attachment.attachmentId);
+    }
+
+    this.logger.log(`Message expired: ${messageId}`);
+
+    return { messageId, roomId: message.roomId };
+  }
+
+  /**
+   * Permanently deletes every message in a room
+   *
+   * @description Operator action for support requests. Messages and their
+   * attachments are removed outright; no placeholders are left. Reports
+   * keep their own snapshots and are not affected.
+   *
+   * @param {string} roomId - Room to purge
+   * @returns {Promise<{ messagesDeleted: number; attachmentsDeleted: number }>} What was removed
+   */
+  async purgeRoomMessages(
+    roomId: string,
+  ): Promise<{ messagesDeleted: number; attachmentsDeleted: number }> {
+    const { deletedCount, attachmentIds } =
+      await this.messageRepository.deleteByRoom(roomId);
+
+    for (const attachmentId of attachmentIds) {
+      await this.attachmentService.remove(attachmentId);
+    }
+
+    this.logger.warn(
+      `Purged ${deletedCount} message(s) and ${attachmentIds.length} attachment(s) from room ${roomId}`,
+    );
+
+    return {
+      messagesDeleted: deletedCount,
+      attachmentsDeleted: attachmentIds.length,
+    };
+  }
+
+  /**
+   * Erases every message a user wrote, and every file they uploaded
+   *
+   * @description Used when a session is erased. Messages are left as
+   * tombstones so room history keeps its order; attachments are removed
+   * outright, including uploads that were never sent.
+   *
+   * @param {string} userId - User whose content to erase
+   * @param {string} senderName - Name shown on the tombstones
+   * @returns {Promise<{ messagesErased: number; attachmentsDeleted: number; roomIds: string[] }>} What was erased, and the rooms it was in
+   */
+  async eraseAuthoredMessages(
+    userId: string,
+    senderName: string,
+  ): Promise<{
+    messagesErased: number;
+    attachmentsDeleted: number;
+    roomIds: string[];
+  }> {
+    const { erasedCount, roomIds } = await this.messageRepository.eraseBySender(
+      userId,
+      senderName,
+    );
+    const attachmentsDeleted =
+      await this.attachmentService.removeByUploader(userId);
+
+    this.logger.warn(
+      `Erased ${erasedCount} message(s) and ${attachmentsDeleted} attachment(s) written by user ${userId}`,
+    );
+
+    return { messagesErased: erasedCount, attachmentsDeleted, roomIds };
+  }
+
+  /**
+   * Gets message counts for a room
+   *
+   * @param {string} roomId - Room UUID
+   * @returns {Promise<RoomMessageStats>} Total, deleted, flagged and with attachments
+   */
+  async getRoomMessageStats(roomId: string): Promise<RoomMessageStats> {
+    return this.messageRepository.getRoomStats(roomId);
+  }
+
   /**
    * Gets a single message by ID
    * 
@@ -344,7 +910,175 @@ export class MessageService implements OnModuleInit {
       message.roomId,
     );
 
-    return this.mapToMessageResponse(message, userId);
+    const parent = message.replyTo
+      ? await this.messageRepository.findById(message.replyTo)
+      : null;
+
+    return this.mapToMessageResponse(message, userId, parent);
+  }
+
+  /**
+   * Starts the timers of disappearing messages a reader has now seen
+   *
+   * @private
+   * @param {string} roomId - Room UUID
+   * @param {string} readerId - Reader's user ID
+   * @param {string} lastReadMessageId - Reader's new cursor
+   * @returns {Promise<ExpiringMessageDto[]>} Messages whose timers started
+   */
+  private async startReadTimers(
+    roomId: string,
+    readerId: string,
+    lastReadMessageId: string,
+  ): Promise<ExpiringMessageDto[]> {
+    const pending = await this.messageRepository.findUnstartedReadTimers(
+      roomId,
+      readerId,
+      lastReadMessageId,
+    );
+
+    const started: ExpiringMessageDto[] = [];
+    for (const message of pending) {
+      // Another reader may have started it in the meantime
+      const updated = await this.messageRepository.startTimer(
+        message._id,
+        new Date(Date.now() + (message.ttlSeconds || 0) * 1000),
+      );
+
+      if (updated?.expiresAt) {
+        await this.scheduleExpiry(updated);
+        started.push({ messageId: updated._id, expiresAt: updated.expiresAt });
+      }
+    }
+
+    return started;
+  }
+
+  /**
+   * Queues the deletion of a disappearing message at its expiry
+   *
+   * @private
+   * @param {MessageDocument} message - Message with a started timer
+   */
+  private async scheduleExpiry(message: MessageDocument): Promise<void> {
+    if (!message.expiresAt) return;
+
+    await this.messageQueue.add(
+      'expire-message',
+      { messageId: message._id, roomId: message.roomId },
+      {
+        jobId: EXPIRE_JOB_ID(message._id),
+        delay: Math.max(0, message.expiresAt.getTime() - Date.now()),
+        removeOnComplete: true,
+        removeOnFail: 100,
+      },
+    );
+  }
+
+  /**
+   * Resolves a message's lifetime from the request and the room default
+   *
+   * @description WebSocket payloads skip DTO validation, so the range is
+   * checked here as well.
+   *
+   * @private
+   * @param {number} [ttlSeconds] - Requested lifetime in seconds
+   * @param {MessageTtlStart} [ttlStart] - Requested timer start
+   * @param {object | null} roomDefault - Room's default lifetime
+   * @returns {{ seconds: number; start: MessageTtlStart } | null} Lifetime, or null to keep the message
+   * @throws {InvalidMessageTtlException} If the lifetime is out of range
+   */
+  private resolveTtl(
+    ttlSeconds: number | undefined,
+    ttlStart: MessageTtlStart | undefined,
+    roomDefault: { seconds: number; start: MessageTtlStart } | null,
+  ): { seconds: number; start: MessageTtlStart } | null {
+    if (ttlStart && !Object.values(MessageTtlStart).includes(ttlStart)) {
+      throw new InvalidMessageTtlException(
+        'TTL start must be "sent" or "read"',
+      );
+    }
+
+    if (ttlSeconds == null) {
+      return roomDefault && ttlStart
+        ? { seconds: roomDefault.seconds, start: ttlStart }
+        : roomDefault;
+    }
+
+    if (
+      !Number.isInteger(ttlSeconds) ||
+      ttlSeconds < MIN_MESSAGE_TTL_SECONDS ||
+      ttlSeconds > MAX_MESSAGE_TTL_SECONDS
+    ) {
+      throw new InvalidMessageTtlException(
+        `Messages must last between ${MIN_MESSAGE_TTL_SECONDS} seconds and 7 days`,
+      );
+    }
+
+    return { seconds: ttlSeconds, start: ttlStart || MessageTtlStart.SENT };
+  }
+
+  /**
+   * Loads the parent messages referenced by replies
+   *
+   * @private
+   * @param {MessageDocument[]} messages - Messages that may be replies
+   * @returns {Promise<Map<string, MessageDocument>>} Parents keyed by message ID
+   */
+  private async getReplyParents(
+    messages: MessageDocument[],
+  ): Promise<Map<string, MessageDocument>> {
+    const parentIds = [
+      ...new Set(
+        messages.map((msg) => msg.replyTo).filter((id): id is string => !!id),
+      ),
+    ];
+
+    const parents = await this.messageRepository.findByIds(parentIds);
+
+    return new Map(parents.map((parent) => [parent._id, parent]));
+  }
+
+  /**
+   * Checks content is ciphertext exactly when it has to be
+   *
+   * @description Encrypted content skips XSS sanitization, so it must be
+   * nothing but the expected base64url envelope.
+   *
+   * @private
+   * @param {boolean} roomEncrypted - Whether the room (or message) is encrypted
+   * @param {string} content - Message content
+   * @param {boolean} [encrypted] - Whether the client sent ciphertext
+   * @throws {InvalidEncryptionPayloadException} If the content doesn't match
+   */
+  private checkEncryption(
+    roomEncrypted: boolean,
+    content: string,
+    encrypted?: boolean,
+  ): void {
+    if (!roomEncrypted) {
+      if (encrypted) {
+        throw new InvalidEncryptionPayloadException(
+          'This room is not end-to-end encrypted',
+        );
+      }
+      return;
+    }
+
+    if (!encrypted) {
+      throw new InvalidEncryptionPayloadException(
+        'Messages in this room must be end-to-end encrypted',
+      );
+    }
+
+    if (
+      content.length > MAX_ENCRYPTED_MESSAGE_LENGTH ||
+      !ENCRYPTED_CONTENT_PATTERN.test(content)
+    ) {
+      throw new InvalidEncryptionPayloadException(
+        'Encrypted content is malformed',
+      );
+    }
   }
 
   /**
@@ -353,13 +1087,21 @@ export class MessageService implements OnModuleInit {
    * @private
    * @param {string} sessionId - User's session ID
    * @param {string} roomId - Room to validate against
-   * @returns {Promise<{ userId: string; displayName: string }>} User info
+   * @param {boolean} [forWriting=false] - Whether the caller changes messages
+   * @returns {Promise<object>} User info, whether the room is end-to-end encrypted and its default message lifetime
    * @throws {UserNotInRoomException} If user is not in the room
+   * @throws {RoomClosedException} If writing to a read-only imported room
    */
   private async validateAndGetUserInfo(
     sessionId: string,
     roomId: string,
-  ): Promise<{ userId: string; displayName: string }> {
+    forWriting: boolean = false,
+  ): Promise<{
+    userId: string;
+    displayName: string;
+    encrypted: boolean;
+    messageTtl: { seconds: number; start: MessageTtlStart } | null;
+  }> {
     // Get user ID from session
     const cachedUserId = await this.redisClient.get(`session:${sessionId}:userId`);
 
@@ -377,9 +1119,21 @@ export class MessageService implements OnModuleInit {
       throw new UserNotInRoomException(cachedUserId, roomId);
     }
 
+    // Conversations restored from an export are read-only
+    if (forWriting && room.importedAt) {
+      throw new RoomClosedException(room.roomCode);
+    }
+
     return {
       userId: cachedUserId,
       displayName: participant.displayName,
+      encrypted: !!room.encrypted,
+      messageTtl: room.messageTtlSeconds
+        ? {
+            seconds: room.messageTtlSeconds,
+            start: room.messageTtlStart || MessageTtlStart.SENT,
+          }
+        : null,
     };
   }
 
@@ -389,11 +1143,14 @@ export class MessageService implements OnModuleInit {
    * @private
    * @param {MessageDocument} message - Message document
    * @param {string} currentUserId - Current user's ID
+   * @param {MessageDocument | null} [parent] - Parent message for replies;
+   * null if it no longer exists, omitted if it wasn't loaded (no preview is built)
    * @returns {MessageResponseDto} Mapped response
    */
   private mapToMessageResponse(
     message: MessageDocument,
     currentUserId: string,
+    parent?: MessageDocument | null,
   ): MessageResponseDto {
     // Build reaction counts
     const reactionCounts = this.buildReactionCounts(message, currentUserId);
@@ -410,17 +1167,137 @@ export class MessageService implements OnModuleInit {
     return {
       messageId: message._id,
       roomId: message.roomId,
+      clientMessageId: message.clientMessageId || undefined,
       senderId: message.senderId,
       senderName: message.senderName,
       content,
+      encrypted: !!message.encrypted,
       contentType: message.contentType,
+      attachment:
+        message.attachment && !message.isDeleted
+          ? {
+              attachmentId: message.attachment.attachmentId,
+              fileName: message.attachment.fileName,
+              mimeType: message.attachment.mimeType,
+              size: message.attachment.size,
+              width: message.attachment.width ?? undefined,
+              height: message.attachment.height ?? undefined,
+              hasThumbnail: message.attachment.hasThumbnail,
+              durationMs: message.attachment.durationMs ?? undefined,
+              waveform: message.attachment.waveform ?? undefined,
+            }
+          : undefined,
       isDeleted: message.isDeleted,
       deletionPlaceholder,
+      replyTo:
+        message.replyTo && parent !== undefined
+          ? this.buildReplyPreview(message.replyTo, parent)
+          : undefined,
       reactions: reactionCounts,
+      isEdited: !!message.editedAt,
+      editedAt: message.editedAt || undefined,
+      revisions: message.isDeleted
+        ? []
+        : (message.revisions || []).map((r) => ({
+            content: r.content,
+            createdAt: r.createdAt,
+          })),
+      ttlSeconds: message.ttlSeconds ?? null,
+      ttlStart: message.ttlStart ?? null,
+      expiresAt: message.expiresAt ?? null,
       createdAt: message.createdAt,
     };
   }
 
+  /**
+   * Builds the quoted preview of a reply's parent message
+   *
+   * @description A parent that no longer exists is shown as deleted.
+   * Encrypted parents get no snippet; clients quote their decrypted copy.
+   *
+   * @private
+   * @param {string} parentId - Parent message ID
+   * @param {MessageDocument | null} parent - Parent message document
+   * @returns {ReplyPreviewDto} Reply preview
+   */
+  private buildReplyPreview(
+    parentId: string,
+    parent: MessageDocument | null,
+  ): ReplyPreviewDto {
+    if (!parent || parent.isDeleted) {
+      return {
+        messageId: parentId,
+        senderId: parent?.senderId || '',
+        senderName: parent?.senderName || '',
+        snippet: '',
+        isDeleted: true,
+      };
+    }
+
+    if (parent.encrypted) {
+      return {
+        messageId: parent._id,
+        senderId: parent.senderId,
+        senderName: parent.senderName,
+        snippet: '',
+        isDeleted: false,
+        encrypted: true,
+      };
+    }
+
+    // Uncaptioned attachments are quoted by file name
+    const text = parent.content || this.describeAttachment(parent.attachment);
+    const snippet =
+      text.length > REPLY_SNIPPET_LENGTH
+        ? `${text.slice(0, REPLY_SNIPPET_LENGTH)}…`
+        : text;
+
+    return {
+      messageId: parent._id,
+      senderId: parent.senderId,
+      senderName: parent.senderName,
+      snippet,
+      isDeleted: false,
+    };
+  }
+
+  /**
+   * Snapshots attachment metadata for storage on a message
+   *
+   * @private
+   * @param {AttachmentDocument} attachment - Attachment document
+   * @returns {MessageAttachment} Message attachment subdocument
+   */
+  private toMessageAttachment(
+    attachment: AttachmentDocument,
+  ): MessageAttachment {
+    return {
+      attachmentId: attachment._id,
+      fileName: attachment.fileName,
+      mimeType: attachment.mimeType,
+      size: attachment.size,
+      width: attachment.width,
+      height: attachment.height,
+      hasThumbnail: attachment.thumbnailKey !== null,
+      durationMs: attachment.durationMs,
+      waveform: attachment.waveform,
+    };
+  }
+
+  /**
+   * Describes an attachment in place of a missing caption
+   *
+   * @private
+   * @param {MessageAttachment | null} attachment - Message attachment
+   * @returns {string} 'Voice message' for audio, otherwise the file name
+   */
+  private describeAttachment(attachment: MessageAttachment | null): string {
+    if (!attachment) return '';
+    return attachment.durationMs != null
+      ? 'Voice message'
+      : attachment.fileName;
+  }
+
   /**
    * Builds reaction counts with user reaction status
    * 
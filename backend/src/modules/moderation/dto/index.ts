@@ -0,0 +1,6 @@
+/**
+ * @fileoverview Moderation DTO Barrel Export
+ * @module modules/moderation/dto
+ */
+
+export * from './report.dto';
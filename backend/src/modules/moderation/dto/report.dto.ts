@@ -0,0 +1,86 @@
+/**
+ * @fileoverview Report DTOs (Data Transfer Objects)
+ * @description Request and response DTOs for message reports
+ * @module modules/moderation/dto
+ *
+ * Design Pattern: DTO Pattern
+ * - Validates incoming request data using class-validator
+ * - Separates API contracts from internal domain models
+ */
+
+import { IsEnum, IsOptional, IsString, MaxLength } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ReportReason, ReportStatus } from '../schemas/report.schema';
+
+/**
+ * Maximum length of a reporter's details
+ */
+export const MAX_REPORT_DETAILS_LENGTH = 500;
+
+/**
+ * Report Message Request DTO
+ *
+ * @description Validates the request to report a message
+ *
+ * @example
+ * {
+ *   "reason": "harassment",
+ *   "details": "Keeps insulting other participants"
+ * }
+ */
+export class ReportMessageDto {
+  /**
+   * Why the message is reported
+   */
+  @IsEnum(ReportReason, {
+    message: `Reason must be one of: ${Object.values(ReportReason).join(', ')}`,
+  })
+  reason: ReportReason;
+
+  /**
+   * Optional context for the report
+   * @example "Keeps insulting other participants"
+   */
+  @IsOptional()
+  @IsString()
+  @MaxLength(MAX_REPORT_DETAILS_LENGTH, {
+    message: `Details cannot exceed ${MAX_REPORT_DETAILS_LENGTH} characters`,
+  })
+  @Transform(({ value }: { value: unknown }) =>
+    typeof value === 'string' ? value.trim() : value,
+  )
+  details?: string;
+}
+
+/**
+ * Report Response DTO
+ *
+ * @description Response structure for a created report. The snapshot
+ * and any action taken are kept for moderators only.
+ */
+export class ReportResponseDto {
+  /**
+   * Unique report identifier (UUID v7)
+   */
+  reportId: string;
+
+  /**
+   * Reported message
+   */
+  messageId: string;
+
+  /**
+   * Why the message was reported
+   */
+  reason: ReportReason;
+
+  /**
+   * Review state of the report
+   */
+  status: ReportStatus;
+
+  /**
+   * Report timestamp
+   */
+  createdAt: Date;
+}
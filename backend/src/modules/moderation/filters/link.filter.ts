@@ -0,0 +1,96 @@
+/**
+ * @fileoverview Link Filter
+ * @description Matches links to blocked domains
+ * @module modules/moderation/filters/link
+ */
+
+import { Injectable } from '@nestjs/common';
+import {
+  CompiledFilter,
+  FilterMatch,
+  ModerationFilter,
+  ModerationInput,
+  ModerationRules,
+  parseAction,
+} from './moderation-filter.interface';
+
+/**
+ * Links with or without a scheme: `https://spam.example/x`, `www.spam.example`
+ * or a bare `spam.example`. The host is captured for the blocklist check.
+ */
+const LINK_PATTERN =
+  /(?:\bhttps?:\/\/)?\b((?:[a-z0-9](?:[a-z0-9-]*[a-z0-9])?\.)+[a-z]{2,})(?::\d{1,5})?(?:[/?#][^\s]*)?/gi;
+
+/**
+ * Blocklist entry that matches every link
+ */
+const ANY_DOMAIN = '*';
+
+/**
+ * Link Filter
+ *
+ * @description Matches links whose host is a blocked domain or one of
+ * its subdomains. Listing `*` matches every link.
+ *
+ * @class LinkFilter
+ * @implements {ModerationFilter}
+ */
+@Injectable()
+export class LinkFilter implements ModerationFilter {
+  readonly name = 'links';
+
+  compile(rules: ModerationRules): CompiledFilter | null {
+    const section = rules.links;
+    if (!section) {
+      return null;
+    }
+
+    const action = parseAction(section.action, this.name);
+    if (!Array.isArray(section.blockedDomains)) {
+      throw new Error(`Rule '${this.name}' needs a list of blockedDomains`);
+    }
+
+    const domains = section.blockedDomains
+      .map((domain) =>
+        String(domain)
+          .trim()
+          .toLowerCase()
+          .replace(/^\*?\./, ''),
+      )
+      .filter(Boolean);
+    if (!domains.length) {
+      return null;
+    }
+
+    const blocksAll = domains.includes(ANY_DOMAIN);
+    const isBlocked = (host: string): boolean =>
+      blocksAll ||
+      domains.some((domain) => host === domain || host.endsWith(`.${domain}`));
+
+    return {
+      check: (input: ModerationInput): Promise<FilterMatch[]> => {
+        const ranges: [number, number][] = [];
+        for (const match of input.content.matchAll(LINK_PATTERN)) {
+          if (isBlocked(match[1].toLowerCase())) {
+            ranges.push([match.index, match.index + match[0].length]);
+          }
+        }
+
+        return Promise.resolve(
+          ranges.length
+            ? [
+                {
+                  rule: this.name,
+                  action,
+                  reason:
+                    section.message ||
+                    'Links to that site are not allowed here',
+                  ranges,
+                },
+              ]
+            : [],
+        );
+      },
+    };
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * @fileoverview Moderation Filter Interface
+ * @description Contract for the content filters run on outgoing messages
+ * @module modules/moderation/filters/moderation-filter
+ *
+ * Design Pattern: Strategy Pattern
+ * - The moderation service depends only on this interface
+ * - Filters are registered through the MODERATION_FILTERS provider
+ */
+
+/**
+ * Moderation filters injection token
+ */
+export const MODERATION_FILTERS = 'MODERATION_FILTERS';
+
+/**
+ * What happens to a message when a rule matches, from least to most severe
+ */
+export enum ModerationAction {
+  ALLOW = 'allow',
+  MASK = 'mask',
+  FLAG = 'flag',
+  REJECT = 'reject',
+}
+
+/**
+ * Moderation Rules
+ *
+ * @description Shape of the rules file (MODERATION_RULES_PATH). Every
+ * section is optional; a missing section disables its filter.
+ *
+ * @example
+ * {
+ *   "profanity": { "action": "mask", "words": ["darn"] },
+ *   "links": { "action": "reject", "blockedDomains": ["spam.example"] },
+ *   "repeat": { "action": "reject", "maxRepeats": 3, "windowSeconds": 60 },
+ *   "patterns": [
+ *     { "id": "card-number", "pattern": "\\b(?:\\d[ -]?){13,16}\\b", "action": "flag" }
+ *   ]
+ * }
+ */
+export interface ModerationRules {
+  enabled?: boolean;
+  /** Replaces each masked character (default `*`) */
+  maskCharacter?: string;
+  profanity?: {
+    action: ModerationAction;
+    words: string[];
+  };
+  links?: {
+    action: ModerationAction;
+    /** Domains (and their subdomains) to act on; `*` matches every link */
+    blockedDomains: string[];
+    message?: string;
+  };
+  repeat?: {
+    action: ModerationAction;
+    /** Identical messages allowed per sender within the window */
+    maxRepeats: number;
+    windowSeconds: number;
+    message?: string;
+  };
+  patterns?: {
+    id: string;
+    pattern: string;
+    flags?: string;
+    action: ModerationAction;
+    message?: string;
+  }[];
+}
+
+/**
+ * Message being moderated
+ */
+export interface ModerationInput {
+  content: string;
+  userId: string;
+  roomId: string;
+  /** Edits replace content, so they skip checks on sending frequency */
+  isEdit: boolean;
+  /** Retries of a send carry the same ID and aren't counted as repeats */
+  clientMessageId?: string;
+}
+
+/**
+ * A rule that matched a message
+ */
+export interface FilterMatch {
+  /** Rule name recorded on flagged messages, e.g. `pattern:card-number` */
+  rule: string;
+  action: ModerationAction;
+  /** Shown to the sender when the message is rejected */
+  reason: string;
+  /** Character ranges `[start, end)` to mask */
+  ranges: [number, number][];
+}
+
+/**
+ * A filter compiled from the current rules
+ */
+export interface CompiledFilter {
+  check(input: ModerationInput): Promise<FilterMatch[]>;
+}
+
+/**
+ * Moderation Filter
+ *
+ * @description Turns its section of the rules file into a compiled
+ * filter. Compiling is separate from checking so a reload can validate
+ * every filter before any of them is swapped in.
+ *
+ * @interface ModerationFilter
+ */
+export interface ModerationFilter {
+  readonly name: string;
+
+  /**
+   * Validates and compiles this filter's rules
+   *
+   * @returns {CompiledFilter | null} Compiled filter, or null if disabled
+   * @throws {Error} If the rules are invalid
+   */
+  compile(rules: ModerationRules): CompiledFilter | null;
+}
+
+/**
+ * Validates an action from the rules file
+ *
+ * @throws {Error} If the value isn't a known action
+ */
+export function parseAction(value: unknown, rule: string): ModerationAction {
+  if (!Object.values(ModerationAction).includes(value as ModerationAction)) {
+    throw new Error(
+      `Rule '${rule}' has invalid action '${String(value)}' (expected ${Object.values(ModerationAction).join(', ')})`,
+    );
+  }
+  return value as ModerationAction;
+}
+
+/**
+ * Escapes text for use inside a regular expression
+ */
+export function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,95 @@
+/**
+ * @fileoverview Pattern Filter
+ * @description Matches the regular expression rule set
+ * @module modules/moderation/filters/pattern
+ */
+
+import { Injectable } from '@nestjs/common';
+import {
+  CompiledFilter,
+  FilterMatch,
+  ModerationFilter,
+  ModerationInput,
+  ModerationRules,
+  parseAction,
+} from './moderation-filter.interface';
+
+/**
+ * Pattern Filter
+ *
+ * @description Runs each regular expression rule against the content.
+ * Every rule has its own id and action, so one message can be masked by
+ * one rule and flagged by another. Flagged messages record the rule as
+ * `pattern:<id>`.
+ *
+ * @class PatternFilter
+ * @implements {ModerationFilter}
+ */
+@Injectable()
+export class PatternFilter implements ModerationFilter {
+  readonly name = 'patterns';
+
+  compile(rules: ModerationRules): CompiledFilter | null {
+    const section = rules.patterns;
+    if (!section) {
+      return null;
+    }
+    if (!Array.isArray(section)) {
+      throw new Error(`Rule '${this.name}' must be a list`);
+    }
+
+    const ids = new Set<string>();
+    const compiled = section.map((rule) => {
+      if (!rule?.id || ids.has(rule.id)) {
+        throw new Error(`Every pattern needs a unique id (got '${rule?.id}')`);
+      }
+      ids.add(rule.id);
+
+      const name = `pattern:${rule.id}`;
+      let pattern: RegExp;
+      try {
+        // Always global so every occurrence can be masked
+        const flags = (rule.flags || '').replace(/[gy]/g, '');
+        pattern = new RegExp(rule.pattern, `${flags}g`);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new Error(`Rule '${name}' has an invalid pattern: ${message}`);
+      }
+
+      return {
+        name,
+        pattern,
+        action: parseAction(rule.action, name),
+        reason: rule.message || 'Your message was blocked by a content rule',
+      };
+    });
+
+    if (!compiled.length) {
+      return null;
+    }
+
+    return {
+      check: (input: ModerationInput): Promise<FilterMatch[]> => {
+        const matches: FilterMatch[] = [];
+        for (const rule of compiled) {
+          const ranges = [...input.content.matchAll(rule.pattern)]
+            .filter((match) => match[0].length > 0)
+            .map((match): [number, number] => [
+              match.index,
+              match.index + match[0].length,
+            ]);
+
+          if (ranges.length) {
+            matches.push({
+              rule: rule.name,
+              action: rule.action,
+              reason: rule.reason,
+              ranges,
+            });
+          }
+        }
+        return Promise.resolve(matches);
+      },
+    };
+  }
+}
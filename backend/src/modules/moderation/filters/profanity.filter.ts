@@ -0,0 +1,83 @@
+/**
+ * @fileoverview Profanity Filter
+ * @description Matches words from the profanity wordlist
+ * @module modules/moderation/filters/profanity
+ */
+
+import { Injectable } from '@nestjs/common';
+import {
+  CompiledFilter,
+  FilterMatch,
+  ModerationFilter,
+  ModerationInput,
+  ModerationRules,
+  escapeRegExp,
+  parseAction,
+} from './moderation-filter.interface';
+
+/**
+ * Profanity Filter
+ *
+ * @description Matches whole words (or phrases) from the wordlist,
+ * ignoring case. Masking hides only the matched words.
+ *
+ * @class ProfanityFilter
+ * @implements {ModerationFilter}
+ */
+@Injectable()
+export class ProfanityFilter implements ModerationFilter {
+  readonly name = 'profanity';
+
+  compile(rules: ModerationRules): CompiledFilter | null {
+    const section = rules.profanity;
+    if (!section) {
+      return null;
+    }
+
+    const action = parseAction(section.action, this.name);
+    if (!Array.isArray(section.words)) {
+      throw new Error(`Rule '${this.name}' needs a list of words`);
+    }
+
+    const words = section.words
+      .map((word) => String(word).trim())
+      .filter(Boolean);
+    if (!words.length) {
+      return null;
+    }
+
+    // Longest first so phrases win over the words inside them
+    const alternatives = words
+      .sort((a, b) => b.length - a.length)
+      .map((word) => escapeRegExp(word).replace(/\s+/g, '\\s+'));
+    const pattern = new RegExp(
+      `(?<![\\p{L}\\p{N}])(?:${alternatives.join('|')})(?![\\p{L}\\p{N}])`,
+      'giu',
+    );
+
+    return {
+      check: (input: ModerationInput): Promise<FilterMatch[]> => {
+        const ranges = [...input.content.matchAll(pattern)].map(
+          (match): [number, number] => [
+            match.index,
+            match.index + match[0].length,
+          ],
+        );
+
+        return Promise.resolve(
+          ranges.length
+            ? [
+                {
+                  rule: this.name,
+                  action,
+                  reason:
+                    'Your message contains language that is not allowed here',
+                  ranges,
+                },
+              ]
+            : [],
+        );
+      },
+    };
+  }
+}
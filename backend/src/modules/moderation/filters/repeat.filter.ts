@@ -0,0 +1,126 @@
+/**
+ * @fileoverview Repeat Filter
+ * @description Detects senders posting the same message over and over
+ * @module modules/moderation/filters/repeat
+ */
+
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { createHash } from 'crypto';
+import Redis from 'ioredis';
+import { REDIS_CLIENT } from '../../../config/redis.module';
+import {
+  CompiledFilter,
+  FilterMatch,
+  ModerationFilter,
+  ModerationInput,
+  ModerationRules,
+  parseAction,
+} from './moderation-filter.interface';
+
+/**
+ * Cache configuration
+ */
+const CACHE_KEYS = {
+  REPEATS: (userId: string, contentHash: string) =>
+    `moderation:repeat:${userId}:${contentHash}`,
+  SEEN: (userId: string, clientMessageId: string) =>
+    `moderation:repeat:${userId}:seen:${clientMessageId}`,
+};
+
+/**
+ * Repeat Filter
+ *
+ * @description Counts identical messages per sender in Redis, across
+ * rooms and instances, and matches once a sender goes over the allowed
+ * repeats within the window. Case and whitespace are ignored when
+ * comparing. A retried send (same clientMessageId) is counted once.
+ * Skipped for edits and while Redis is unavailable.
+ *
+ * @class RepeatFilter
+ * @implements {ModerationFilter}
+ */
+@Injectable()
+export class RepeatFilter implements ModerationFilter {
+  readonly name = 'repeat';
+
+  private readonly logger = new Logger(RepeatFilter.name);
+
+  constructor(
+    @Inject(REDIS_CLIENT)
+    private readonly redisClient: Redis,
+  ) {}
+
+  compile(rules: ModerationRules): CompiledFilter | null {
+    const section = rules.repeat;
+    if (!section) {
+      return null;
+    }
+
+    const action = parseAction(section.action, this.name);
+    const maxRepeats = Number(section.maxRepeats);
+    const windowSeconds = Number(section.windowSeconds);
+    if (!Number.isInteger(maxRepeats) || maxRepeats < 1) {
+      throw new Error(`Rule '${this.name}' needs maxRepeats of at least 1`);
+    }
+    if (!Number.isInteger(windowSeconds) || windowSeconds < 1) {
+      throw new Error(`Rule '${this.name}' needs windowSeconds of at least 1`);
+    }
+
+    return {
+      check: async (input: ModerationInput): Promise<FilterMatch[]> => {
+        if (input.isEdit || this.redisClient.status !== 'ready') {
+          return [];
+        }
+
+        const normalized = input.content
+          .toLowerCase()
+          .replace(/\s+/g, ' ')
+          .trim();
+        const contentHash = createHash('sha256')
+          .update(normalized)
+          .digest('hex');
+        const key = CACHE_KEYS.REPEATS(input.userId, contentHash);
+
+        let count: number;
+        try {
+          // The client resends unacknowledged messages on reconnect
+          if (input.clientMessageId) {
+            const first = await this.redisClient.set(
+              CACHE_KEYS.SEEN(input.userId, input.clientMessageId),
+              '1',
+              'EX',
+              windowSeconds,
+              'NX',
+            );
+            if (first === null) {
+              return [];
+            }
+          }
+
+          count = await this.redisClient.incr(key);
+          if (count === 1) {
+            await this.redisClient.expire(key, windowSeconds);
+          }
+        } catch (error) {
+          const message =
+            error instanceof Error ? error.message : String(error);
+          this.logger.warn(`Failed to count repeated messages: ${message}`);
+          return [];
+        }
+
+        return count > maxRepeats
+          ? [
+              {
+                rule: this.name,
+                action,
+                reason:
+                  section.message ||
+                  'You are sending the same message too often',
+                ranges: [],
+              },
+            ]
+          : [];
+      },
+    };
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * @fileoverview Moderation Module
+ * @description Configures the content moderation feature module
+ * @module modules/moderation
+ *
+ * Design Pattern: Module Pattern
+ * - Encapsulates the content filters and the rules file they read
+ * - Filters are collected under the MODERATION_FILTERS token
+ * - Owns message reports and the queue they are reviewed on
+ */
+
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { BullModule } from '@nestjs/bullmq';
+import { ModerationService } from './services/moderation.service';
+import { MODERATION_FILTERS } from './filters/moderation-filter.interface';
+import { ProfanityFilter } from './filters/profanity.filter';
+import { LinkFilter } from './filters/link.filter';
+import { RepeatFilter } from './filters/repeat.filter';
+import { PatternFilter } from './filters/pattern.filter';
+import { MessageReport, MessageReportSchema } from './schemas/report.schema';
+import { ReportRepository } from './repositories/report.repository';
+import { ReportService } from './services/report.service';
+
+/**
+ * Moderation Module
+ *
+ * @description Provides content moderation:
+ * - Profanity wordlist, link blocklist, repeated-message and regex filters
+ * - Hot-reloaded rules file (MODERATION_RULES_PATH)
+ * - Service exported for message sending and editing
+ * - Message reports, reviewed on the moderation queue against the
+ *   ban and close thresholds
+ *
+ * To add a filter, implement ModerationFilter, provide it here and add it
+ * to the MODERATION_FILTERS factory.
+ */
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: MessageReport.name, schema: MessageReportSchema },
+    ]),
+    BullModule.registerQueue({
+      name: 'moderation',
+    }),
+  ],
+  providers: [
+    ProfanityFilter,
+    LinkFilter,
+    RepeatFilter,
+    PatternFilter,
+    {
+      provide: MODERATION_FILTERS,
+      useFactory: (
+        profanity: ProfanityFilter,
+        links: LinkFilter,
+        repeat: RepeatFilter,
+        patterns: PatternFilter,
+      ) => [profanity, links, repeat, patterns],
+      inject: [ProfanityFilter, LinkFilter, RepeatFilter, PatternFilter],
+    },
+    ModerationService,
+    ReportRepository,
+    ReportService,
+  ],
+  exports: [ModerationService, ReportService],
+})
+export class ModerationModule {}
@@ -0,0 +1,191 @@
+/**
+ * @fileoverview Report Repository
+ * @description Data access layer for message reports using Repository Pattern
+ * @module modules/moderation/repositories/report
+ *
+ * Design Pattern: Repository Pattern
+ * - Encapsulates data access logic for reports
+ * - Provides the reporter counts used for automatic moderation thresholds
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import {
+  MessageReport,
+  MessageReportDocument,
+  ReportAction,
+  ReportStatus,
+} from '../schemas/report.schema';
+
+/**
+ * Report Repository
+ *
+ * @description Implements data access operations for reports:
+ * - Create reports (one per message per reporter)
+ * - Count recent reporters in a room or against a participant
+ * - Resolve open reports once an action is taken
+ * - Anonymize the reports of an erased user
+ *
+ * @class ReportRepository
+ */
+@Injectable()
+export class ReportRepository {
+  private readonly logger = new Logger(ReportRepository.name);
+
+  constructor(
+    @InjectModel(MessageReport.name)
+    private readonly reportModel: Model<MessageReportDocument>,
+  ) {}
+
+  /**
+   * Creates a report
+   *
+   * @param {Partial<MessageReport>} reportData - Report data
+   * @returns {Promise<MessageReportDocument | null>} Created report, or null if the reporter already reported the message
+   */
+  async create(
+    reportData: Partial<MessageReport>,
+  ): Promise<MessageReportDocument | null> {
+    this.logger.debug(`Creating report for message: ${reportData.messageId}`);
+
+    try {
+      const report = new this.reportModel(reportData);
+      return await report.save();
+    } catch (error) {
+      if ((error as { code?: unknown }).code === 11000) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Finds a report by ID
+   *
+   * @param {string} reportId - Report UUID
+   * @returns {Promise<MessageReportDocument | null>} Report or null
+   */
+  async findById(reportId: string): Promise<MessageReportDocument | null> {
+    return this.reportModel.findOne({ _id: reportId }).exec();
+  }
+
+  /**
+   * Counts the participants who reported messages in a room since a point
+   * in time
+   *
+   * @description Counts distinct reporters rather than reports, so one
+   * participant reporting many messages counts once.
+   *
+   * @param {string} roomId - Room UUID
+   * @param {Date} since - Oldest report to count
+   * @returns {Promise<number>} Number of reporters
+   */
+  async countReportersInRoom(roomId: string, since: Date): Promise<number> {
+    const reporterIds: string[] = await this.reportModel
+      .distinct('reporterId', { roomId, createdAt: { $gte: since } })
+      .exec();
+
+    return reporterIds.length;
+  }
+
+  /**
+   * Counts the participants who reported a participant in a room since a
+   * point in time
+   *
+   * @param {string} roomId - Room UUID
+   * @param {string} reportedUserId - Reported participant's user ID
+   * @param {Date} since - Oldest report to count
+   * @returns {Promise<number>} Number of reporters
+   */
+  async countReportersAgainstUser(
+    roomId: string,
+    reportedUserId: string,
+    since: Date,
+  ): Promise<number> {
+    const reporterIds: string[] = await this.reportModel
+      .distinct('reporterId', {
+        roomId,
+        reportedUserId,
+        createdAt: { $gte: since },
+      })
+      .exec();
+
+    return reporterIds.length;
+  }
+
+  /**
+   * Marks open reports as actioned
+   *
+   * @param {Record<string, string>} filter - Room, and optionally the reported participant
+   * @param {ReportAction} action - Action that was taken
+   * @returns {Promise<number>} Number of reports resolved
+   */
+  async resolveOpen(
+    filter: { roomId: string; reportedUserId?: string },
+    action: ReportAction,
+  ): Promise<number> {
+    const result = await this.reportModel
+      .updateMany(
+        { ...filter, status: ReportStatus.OPEN },
+        {
+          $set: {
+            status: ReportStatus.ACTIONED,
+            action,
+            resolvedAt: new Date(),
+          },
+        },
+      )
+      .exec();
+
+    return result.modifiedCount;
+  }
+
+  /**
+   * Anonymizes the reports filed by or against a user
+   *
+   * @description Reports against the user lose the sender name and
+   * content of their snapshot; reports the user filed lose their details.
+   * The user's ID is replaced by a placeholder in both, so each report
+   * still counts once towards the thresholds.
+   *
+   * @param {string} userId - User whose reports to anonymize
+   * @param {string} placeholderId - ID to put in place of the user's
+   * @param {string} senderName - Name shown in place of the sender's
+   * @returns {Promise<number>} Number of reports anonymized
+   */
+  async anonymizeUser(
+    userId: string,
+    placeholderId: string,
+    senderName: string,
+  ): Promise<number> {
+    this.logger.warn(`Anonymizing reports filed by or against user: ${userId}`);
+
+    const reported = await this.reportModel
+      .updateMany(
+        { reportedUserId: userId },
+        {
+          $set: {
+            reportedUserId: placeholderId,
+            'snapshot.senderName': senderName,
+            'snapshot.content': '',
+            'snapshot.encrypted': false,
+            'snapshot.attachmentFileName': null,
+            'snapshot.attachmentMimeType': null,
+            'snapshot.moderationFlags': [],
+            'snapshot.editedAt': null,
+          },
+        },
+      )
+      .exec();
+
+    const filed = await this.reportModel
+      .updateMany(
+        { reporterId: userId },
+        { $set: { reporterId: placeholderId, details: null } },
+      )
+      .exec();
+
+    return reported.modifiedCount + filed.modifiedCount;
+  }
+}
@@ -0,0 +1,184 @@
+/**
+ * @fileoverview Message Report Schema Definition
+ * @description MongoDB schema for user reports of abusive messages
+ * @module modules/moderation/schemas/report
+ *
+ * Design Pattern: Schema Pattern (Mongoose)
+ * - Keeps a snapshot of the reported message, so deleting or editing it
+ *   doesn't destroy the evidence
+ * - Indexed for the threshold counts run by the moderation queue
+ */
+
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import { generateId } from '../../../common/utils/uuid.util';
+import { ContentType } from '../../message/schemas/message.schema';
+
+/**
+ * Why a message was reported
+ */
+export enum ReportReason {
+  SPAM = 'spam',
+  HARASSMENT = 'harassment',
+  HATE = 'hate',
+  SEXUAL = 'sexual',
+  VIOLENCE = 'violence',
+  OTHER = 'other',
+}
+
+/**
+ * Review state of a report
+ */
+export enum ReportStatus {
+  OPEN = 'open',
+  ACTIONED = 'actioned',
+  DISMISSED = 'dismissed',
+}
+
+/**
+ * What the moderation queue did about a report
+ */
+export enum ReportAction {
+  PARTICIPANT_BANNED = 'participant_banned',
+  ROOM_CLOSED = 'room_closed',
+}
+
+/**
+ * Reported message snapshot subdocument
+ *
+ * @description The message as the reporter saw it. Attachments are kept
+ * as metadata only; the file itself is removed with the message.
+ */
+@Schema({ _id: false })
+export class ReportSnapshot {
+  @Prop({ type: String, required: true })
+  senderName: string;
+
+  @Prop({ type: String, default: '' })
+  content: string;
+
+  @Prop({ type: String, enum: ContentType, required: true })
+  contentType: ContentType;
+
+  /** End-to-end encrypted: content is ciphertext the server can't read */
+  @Prop({ type: Boolean, default: false })
+  encrypted: boolean;
+
+  @Prop({ type: String, default: null })
+  attachmentFileName: string | null;
+
+  @Prop({ type: String, default: null })
+  attachmentMimeType: string | null;
+
+  @Prop({ type: [String], default: [] })
+  moderationFlags: string[];
+
+  @Prop({ type: Date, required: true })
+  sentAt: Date;
+
+  @Prop({ type: Date, default: null })
+  editedAt: Date | null;
+}
+
+export const ReportSnapshotSchema =
+  SchemaFactory.createForClass(ReportSnapshot);
+
+/**
+ * Message Report Schema
+ *
+ * @description One report of a message by one participant:
+ * - Reporter, reported sender and room for threshold counts
+ * - Reason and optional details from the reporter
+ * - Snapshot of the message at the time of the report
+ * - Status and any automatic action taken
+ *
+ * Indexes:
+ * - messageId + reporterId: unique, one report per message per reporter
+ * - roomId + createdAt: reports in a room
+ * - roomId + reportedUserId + createdAt: reports against a participant
+ *
+ * @class MessageReport
+ */
+@Schema({
+  timestamps: true,
+  collection: 'moderation_reports',
+  toJSON: {
+    virtuals: true,
+    transform: (_, ret: Record<string, unknown>) => {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    },
+  },
+})
+export class MessageReport {
+  @Prop({
+    type: String,
+    default: () => generateId(),
+  })
+  _id: string;
+
+  @Prop({ type: String, required: true })
+  messageId: string;
+
+  @Prop({ type: String, required: true })
+  roomId: string;
+
+  @Prop({ type: String, required: true })
+  reporterId: string;
+
+  @Prop({ type: String, required: true })
+  reportedUserId: string;
+
+  @Prop({ type: String, enum: ReportReason, required: true })
+  reason: ReportReason;
+
+  @Prop({ type: String, default: null })
+  details: string | null;
+
+  @Prop({ type: ReportSnapshotSchema, required: true })
+  snapshot: ReportSnapshot;
+
+  @Prop({
+    type: String,
+    enum: ReportStatus,
+    default: ReportStatus.OPEN,
+  })
+  status: ReportStatus;
+
+  @Prop({ type: String, enum: ReportAction, default: null })
+  action: ReportAction | null;
+
+  @Prop({ type: Date, default: null })
+  resolvedAt: Date | null;
+
+  // Timestamps added by Mongoose
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Message Report Document type for Mongoose
+ */
+export type MessageReportDocument = MessageReport & Document;
+
+/**
+ * Create the Mongoose schema
+ */
+export const MessageReportSchema = SchemaFactory.createForClass(MessageReport);
+
+/**
+ * Unique index so each participant reports a message once
+ */
+MessageReportSchema.index({ messageId: 1, reporterId: 1 }, { unique: true });
+
+/**
+ * Index for counting reports in a room
+ */
+MessageReportSchema.index({ roomId: 1, createdAt: -1 });
+
+/**
+ * Index for counting reports against a participant
+ */
+MessageReportSchema.index({ roomId: 1, reportedUserId: 1, createdAt: -1 });
@@ -0,0 +1,241 @@
+/**
+ * @fileoverview Moderation Service Unit Tests
+ * @description Tests for the content filters and rules reloading
+ */
+
+import { ConfigService } from '@nestjs/config';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import Redis from 'ioredis';
+import { tmpdir } from 'os';
+import { join, resolve } from 'path';
+import { ModerationService } from './moderation.service';
+import {
+  ModerationAction,
+  ModerationRules,
+} from '../filters/moderation-filter.interface';
+import { ProfanityFilter } from '../filters/profanity.filter';
+import { LinkFilter } from '../filters/link.filter';
+import { RepeatFilter } from '../filters/repeat.filter';
+import { PatternFilter } from '../filters/pattern.filter';
+import { MessageRejectedException } from '../../../common/exceptions/business.exceptions';
+
+describe('ModerationService', () => {
+  let service: ModerationService;
+  let redisClient: {
+    status: string;
+    set: jest.Mock;
+    incr: jest.Mock;
+    expire: jest.Mock;
+  };
+  let dir: string;
+  let rulesPath: string;
+
+  const input = (content: string, isEdit = false) => ({
+    content,
+    userId: 'user-123',
+    roomId: 'room-123',
+    isEdit,
+  });
+
+  const loadRules = async (rules: ModerationRules | string) => {
+    await writeFile(
+      rulesPath,
+      typeof rules === 'string' ? rules : JSON.stringify(rules),
+    );
+    return service.reload();
+  };
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'moderation-'));
+    rulesPath = join(dir, 'rules.json');
+
+    redisClient = {
+      status: 'ready',
+      set: jest.fn().mockResolvedValue('OK'),
+      incr: jest.fn().mockResolvedValue(1),
+      expire: jest.fn().mockResolvedValue(1),
+    };
+    const configService = {
+      get: jest.fn((key: string, fallback: unknown) =>
+        key === 'MODERATION_RULES_PATH' ? rulesPath : fallback,
+      ),
+    };
+
+    service = new ModerationService(configService as unknown as ConfigService, [
+      new ProfanityFilter(),
+      new LinkFilter(),
+      new RepeatFilter(redisClient as unknown as Redis),
+      new PatternFilter(),
+    ]);
+    await service.onModuleInit();
+  });
+
+  afterEach(async () => {
+    service.onModuleDestroy();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should let everything through without a rules file', async () => {
+    await expect(service.moderate(input('anything goes'))).resolves.toEqual({
+      content: 'anything goes',
+      flags: [],
+    });
+  });
+
+  it('should mask profanity as whole words', async () => {
+    await loadRules({
+      profanity: { action: ModerationAction.MASK, words: ['heck', 'dang it'] },
+    });
+
+    const result = await service.moderate(
+      input('Heck, dang  it! Checking the heckler'),
+    );
+
+    expect(result.content).toBe('****, ****  **! Checking the heckler');
+  });
+
+  it('should reject links to blocked domains and their subdomains', async () => {
+    await loadRules({
+      links: {
+        action: ModerationAction.REJECT,
+        blockedDomains: ['spam.example'],
+        message: 'No spam links',
+      },
+    });
+
+    await expect(
+      service.moderate(input('visit https://www.spam.example/deal now')),
+    ).rejects.toThrow(new MessageRejectedException('No spam links'));
+    await expect(
+      service.moderate(input('see docs.example.org')),
+    ).resolves.toEqual({ content: 'see docs.example.org', flags: [] });
+  });
+
+  it('should flag matching patterns by rule id', async () => {
+    await loadRules({
+      patterns: [
+        {
+          id: 'phone',
+          pattern: '\\+?\\d{3}-\\d{4}',
+          action: ModerationAction.FLAG,
+        },
+        {
+          id: 'hello',
+          pattern: 'hello',
+          flags: 'i',
+          action: ModerationAction.ALLOW,
+        },
+      ],
+    });
+
+    await expect(
+      service.moderate(input('Hello, call 555-0100')),
+    ).resolves.toEqual({
+      content: 'Hello, call 555-0100',
+      flags: ['pattern:phone'],
+    });
+  });
+
+  it('should reject a message repeated too often', async () => {
+    await loadRules({
+      repeat: {
+        action: ModerationAction.REJECT,
+        maxRepeats: 3,
+        windowSeconds: 60,
+      },
+    });
+
+    await service.moderate(input('Buy now'));
+    expect(redisClient.expire).toHaveBeenCalledWith(
+      expect.stringMatching(/^moderation:repeat:user-123:/),
+      60,
+    );
+
+    redisClient.incr.mockResolvedValue(4);
+    await expect(service.moderate(input('  buy   NOW '))).rejects.toThrow(
+      MessageRejectedException,
+    );
+
+    // Edits don't count as sending again
+    await expect(service.moderate(input('Buy now', true))).resolves.toEqual({
+      content: 'Buy now',
+      flags: [],
+    });
+  });
+
+  it('should not count retries of the same send as repeats', async () => {
+    await loadRules({
+      repeat: {
+        action: ModerationAction.REJECT,
+        maxRepeats: 1,
+        windowSeconds: 60,
+      },
+    });
+    const retry = { ...input('Buy now'), clientMessageId: 'client-1' };
+
+    await service.moderate(retry);
+    redisClient.set.mockResolvedValue(null);
+    redisClient.incr.mockResolvedValue(2);
+
+    await expect(service.moderate(retry)).resolves.toEqual({
+      content: 'Buy now',
+      flags: [],
+    });
+    expect(redisClient.set).toHaveBeenCalledWith(
+      'moderation:repeat:user-123:seen:client-1',
+      '1',
+      'EX',
+      60,
+      'NX',
+    );
+    expect(redisClient.incr).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep the previous rules when the new file is invalid', async () => {
+    await loadRules({
+      profanity: { action: ModerationAction.MASK, words: ['heck'] },
+    });
+
+    await expect(loadRules('{ not json')).resolves.toBe(false);
+    await expect(
+      loadRules({
+        patterns: [{ id: 'bad', pattern: '(', action: ModerationAction.FLAG }],
+      }),
+    ).resolves.toBe(false);
+    await expect(
+      loadRules({
+        profanity: { action: 'delete' as ModerationAction, words: ['heck'] },
+      }),
+    ).resolves.toBe(false);
+
+    const result = await service.moderate(input('oh heck'));
+    expect(result.content).toBe('oh ****');
+  });
+
+  it('should load the default rules file', async () => {
+    const defaults = await readFile(
+      resolve(__dirname, '../../../../moderation.rules.json'),
+      'utf8',
+    );
+
+    await expect(loadRules(defaults)).resolves.toBe(true);
+    await expect(
+      service.moderate(input('card 4111 1111 1111 1111 via bit.ly/x')),
+    ).resolves.toEqual({
+      content: 'card **** **** **** **** via bit.ly/x',
+      flags: ['links'],
+    });
+  });
+
+  it('should turn moderation off when the rules disable it', async () => {
+    await loadRules({
+      enabled: false,
+      profanity: { action: ModerationAction.REJECT, words: ['heck'] },
+    });
+
+    await expect(service.moderate(input('oh heck'))).resolves.toEqual({
+      content: 'oh heck',
+      flags: [],
+    });
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * @fileoverview Moderation Service
+ * @description Runs outgoing messages through the content filters
+ * @module modules/moderation/services/moderation
+ *
+ * Design Pattern: Service Layer Pattern
+ * - Loads the rules file and hot-reloads it when it changes
+ * - Combines filter matches into a single verdict per message
+ */
+
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Stats, unwatchFile, watchFile } from 'fs';
+import { readFile } from 'fs/promises';
+import { resolve } from 'path';
+import {
+  CompiledFilter,
+  FilterMatch,
+  MODERATION_FILTERS,
+  ModerationAction,
+  ModerationFilter,
+  ModerationInput,
+  ModerationRules,
+} from '../filters/moderation-filter.interface';
+import { MessageRejectedException } from '../../../common/exceptions/business.exceptions';
+
+/**
+ * Outcome for a message that was not rejected
+ */
+export interface ModerationResult {
+  /** Content with masked ranges replaced */
+  content: string;
+  /** Rules that flagged the message for review */
+  flags: string[];
+}
+
+/**
+ * Moderation Service
+ *
+ * @description Checks message content against every enabled filter:
+ * - Any `reject` match refuses the message with MessageRejectedException
+ * - `mask` matches are replaced with the mask character
+ * - `flag` matches are returned so the message can be stored for review
+ * - `allow` matches let the message through unchanged
+ *
+ * Rules are read from MODERATION_RULES_PATH and polled for changes. A
+ * rules file that fails to parse or validate is logged and ignored, so
+ * the previous rules stay in effect.
+ *
+ * @class ModerationService
+ */
+@Injectable()
+export class ModerationService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(ModerationService.name);
+
+  private rulesPath: string;
+  private reloadIntervalMs: number;
+
+  // Swapped as a whole on reload
+  private enabled = false;
+  private maskCharacter = '*';
+  private compiled: CompiledFilter[] = [];
+
+  constructor(
+    private readonly configService: ConfigService,
+    @Inject(MODERATION_FILTERS)
+    private readonly filters: ModerationFilter[],
+  ) {}
+
+  async onModuleInit(): Promise<void> {
+    this.rulesPath = resolve(
+      this.configService.get<string>(
+        'MODERATION_RULES_PATH',
+        './moderation.rules.json',
+      ),
+    );
+    this.reloadIntervalMs = Number(
+      this.configService.get<number>('MODERATION_RELOAD_INTERVAL_MS', 5000),
+    );
+
+    await this.reload();
+
+    watchFile(
+      this.rulesPath,
+      { interval: this.reloadIntervalMs, persistent: false },
+      (current: Stats, previous: Stats) => {
+        if (current.mtimeMs !== previous.mtimeMs) {
+          void this.reload();
+        }
+      },
+    );
+  }
+
+  onModuleDestroy(): void {
+    unwatchFile(this.rulesPath);
+  }
+
+  /**
+   * Reloads the rules file
+   *
+   * @returns {Promise<boolean>} Whether the new rules are in effect
+   */
+  async reload(): Promise<boolean> {
+    let rules: ModerationRules;
+    try {
+      rules = JSON.parse(
+        await readFile(this.rulesPath, 'utf8'),
+      ) as ModerationRules;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        this.logger.warn(
+          `No moderation rules at ${this.rulesPath}; moderation is off`,
+        );
+        this.apply({ enabled: false }, []);
+        return true;
+      }
+      this.logger.error(`Ignoring unreadable moderation rules: ${message}`);
+      return false;
+    }
+
+    try {
+      const compiled = this.filters
+        .map((filter) => filter.compile(rules))
+        .filter((filter): filter is CompiledFilter => filter !== null);
+
+      if (
+        rules.maskCharacter != null &&
+        [...String(rules.maskCharacter)].length !== 1
+      ) {
+        throw new Error('maskCharacter must be a single character');
+      }
+
+      this.apply(rules, compiled);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Ignoring invalid moderation rules: ${message}`);
+      return false;
+    }
+
+    this.logger.log(
+      `Loaded moderation rules from ${this.rulesPath} (${this.compiled.length} filters active)`,
+    );
+    return true;
+  }
+
+  /**
+   * Checks a message against the moderation rules
+   *
+   * @param {ModerationInput} input - Plaintext content and its sender
+   * @returns {Promise<ModerationResult>} Content to store and any flags
+   * @throws {MessageRejectedException} If a rule rejects the message
+   */
+  async moderate(input: ModerationInput): Promise<ModerationResult> {
+    if (!this.enabled || !input.content.trim()) {
+      return { content: input.content, flags: [] };
+    }
+
+    const matches = (
+      await Promise.all(this.compiled.map((filter) => filter.check(input)))
+    ).flat();
+
+    const rejection = matches.find(
+      (match) => match.action === ModerationAction.REJECT,
+    );
+    if (rejection) {
+      this.logger.log(
+        `Message from ${input.userId} in room ${input.roomId} rejected by ${rejection.rule}`,
+      );
+      throw new MessageRejectedException(rejection.reason);
+    }
+
+    const flags = [
+      ...new Set(
+        matches
+          .filter((match) => match.action === ModerationAction.FLAG)
+          .map((match) => match.rule),
+      ),
+    ];
+    if (flags.length) {
+      this.logger.warn(
+        `Message from ${input.userId} in room ${input.roomId} flagged by ${flags.join(', ')}`,
+      );
+    }
+
+    return {
+      content: this.mask(
+        input.content,
+        matches.filter((match) => match.action === ModerationAction.MASK),
+      ),
+      flags,
+    };
+  }
+
+  private apply(rules: ModerationRules, compiled: CompiledFilter[]): void {
+    this.enabled = rules.enabled !== false && compiled.length > 0;
+    this.maskCharacter = String(rules.maskCharacter ?? '*');
+    this.compiled = compiled;
+  }
+
+  /**
+   * Replaces each character in a masked range, leaving whitespace so
+   * masked phrases keep their word breaks
+   */
+  private mask(content: string, matches: FilterMatch[]): string {
+    const hidden = new Array<boolean>(content.length).fill(false);
+    for (const match of matches) {
+      for (const [start, end] of match.ranges) {
+        hidden.fill(true, start, end);
+      }
+    }
+    if (!hidden.includes(true)) {
+      return content;
+    }
+
+    // Ranges are UTF-16 offsets; walk code points so emoji mask as one
+    const characters = [...content];
+    let offset = 0;
+    for (let i = 0; i < characters.length; i++) {
+      const length = characters[i].length;
+      if (hidden[offset] && !/\s/.test(characters[i])) {
+        characters[i] = this.maskCharacter;
+      }
+      offset += length;
+    }
+    return characters.join('');
+  }
+}
@@ -0,0 +1,285 @@
+/**
+ * @fileoverview Report Service Unit Tests
+ * @description Tests for recording reports and the moderation thresholds
+ */
+
+import { ConfigService } from '@nestjs/config';
+import { Queue } from 'bullmq';
+import { ReportService } from './report.service';
+import { Model } from 'mongoose';
+import { ReportRepository } from '../repositories/report.repository';
+import {
+  MessageReport,
+  MessageReportDocument,
+  ReportAction,
+  ReportReason,
+  ReportStatus,
+} from '../schemas/report.schema';
+import { ContentType } from '../../message/schemas/message.schema';
+import {
+  DuplicateReportException,
+  InvalidReportException,
+} from '../../../common/exceptions/business.exceptions';
+
+describe('ReportService', () => {
+  let service: ReportService;
+  let reportRepository: {
+    create: jest.Mock;
+    findById: jest.Mock;
+    countReportersInRoom: jest.Mock;
+    countReportersAgainstUser: jest.Mock;
+    resolveOpen: jest.Mock;
+    anonymizeUser: jest.Mock;
+  };
+  let moderationQueue: { add: jest.Mock };
+  let config: Record<string, number>;
+
+  const reportData: Partial<MessageReport> = {
+    messageId: 'msg-123',
+    roomId: 'room-123',
+    reporterId: 'user-123',
+    reportedUserId: 'user-456',
+    reason: ReportReason.SPAM,
+    details: null,
+    snapshot: {
+      senderName: 'User Two',
+      content: 'Buy now',
+      contentType: ContentType.TEXT,
+      encrypted: false,
+      attachmentFileName: null,
+      attachmentMimeType: null,
+      moderationFlags: [],
+      sentAt: new Date(),
+      editedAt: null,
+    },
+  };
+
+  const storedReport = {
+    ...reportData,
+    _id: 'report-123',
+    status: ReportStatus.OPEN,
+    createdAt: new Date(),
+  };
+
+  beforeEach(() => {
+    reportRepository = {
+      create: jest.fn().mockResolvedValue(storedReport),
+      findById: jest.fn().mockResolvedValue(storedReport),
+      countReportersInRoom: jest.fn().mockResolvedValue(1),
+      countReportersAgainstUser: jest.fn().mockResolvedValue(1),
+      resolveOpen: jest.fn().mockResolvedValue(1),
+      anonymizeUser: jest.fn().mockResolvedValue(2),
+    };
+    moderationQueue = { add: jest.fn().mockResolvedValue({ id: 'job-123' }) };
+    config = {};
+
+    const configService = {
+      get: jest.fn((key: string, fallback: unknown) => config[key] ?? fallback),
+    };
+
+    service = new ReportService(
+      reportRepository as unknown as ReportRepository,
+      moderationQueue as unknown as Queue,
+      configService as unknown as ConfigService,
+    );
+    service.onModuleInit();
+  });
+
+  describe('createReport', () => {
+    it('should store the report and queue it for review', async () => {
+      const result = await service.createReport(reportData);
+
+      expect(result).toEqual({
+        reportId: 'report-123',
+        messageId: 'msg-123',
+        reason: ReportReason.SPAM,
+        status: ReportStatus.OPEN,
+        createdAt: storedReport.createdAt,
+      });
+      expect(moderationQueue.add).toHaveBeenCalledWith(
+        'review-report',
+        { reportId: 'report-123' },
+        expect.objectContaining({ jobId: 'review-report:report-123' }),
+      );
+    });
+
+    it('should refuse a second report of the same message', async () => {
+      reportRepository.create.mockResolvedValue(null);
+
+      await expect(service.createReport(reportData)).rejects.toThrow(
+        DuplicateReportException,
+      );
+      expect(moderationQueue.add).not.toHaveBeenCalled();
+    });
+
+    it('should check the reason and details', async () => {
+      await expect(
+        service.createReport({
+          ...reportData,
+          reason: 'rude' as ReportReason,
+        }),
+      ).rejects.toThrow(InvalidReportException);
+      await expect(
+        service.createReport({ ...reportData, details: 'x'.repeat(501) }),
+      ).rejects.toThrow(InvalidReportException);
+      expect(reportRepository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('evaluate', () => {
+    it('should leave the report open below the thresholds', async () => {
+      await expect(service.evaluate('report-123')).resolves.toEqual({
+        report: storedReport,
+        action: null,
+      });
+    });
+
+    it('should ban the reported participant at the ban threshold', async () => {
+      reportRepository.countReportersAgainstUser.mockResolvedValue(3);
+
+      const verdict = await service.evaluate('report-123');
+
+      expect(verdict?.action).toBe(ReportAction.PARTICIPANT_BANNED);
+      expect(reportRepository.countReportersAgainstUser).toHaveBeenCalledWith(
+        'room-123',
+        'user-456',
+        expect.any(Date),
+      );
+    });
+
+    it('should close the room at the close threshold', async () => {
+      reportRepository.countReportersInRoom.mockResolvedValue(10);
+      reportRepository.countReportersAgainstUser.mockResolvedValue(3);
+
+      const verdict = await service.evaluate('report-123');
+
+      expect(verdict?.action).toBe(ReportAction.ROOM_CLOSED);
+    });
+
+    it('should skip actions whose threshold is 0', async () => {
+      config = {
+        MODERATION_BAN_REPORT_THRESHOLD: 0,
+        MODERATION_CLOSE_REPORT_THRESHOLD: 0,
+      };
+      service.onModuleInit();
+      reportRepository.countReportersInRoom.mockResolvedValue(100);
+      reportRepository.countReportersAgainstUser.mockResolvedValue(100);
+
+      const verdict = await service.evaluate('report-123');
+
+      expect(verdict?.action).toBeNull();
+      expect(reportRepository.countReportersInRoom).not.toHaveBeenCalled();
+    });
+
+    it('should not act on resolved reports', async () => {
+      reportRepository.findById.mockResolvedValue({
+        ...storedReport,
+        status: ReportStatus.ACTIONED,
+      });
+      reportRepository.countReportersAgainstUser.mockResolvedValue(5);
+
+      const verdict = await service.evaluate('report-123');
+
+      expect(verdict?.action).toBeNull();
+    });
+
+    it('should count a participant reporting many messages once', async () => {
+      // Five messages by user-456, all reported by user-123
+      const reports = Array.from({ length: 5 }, (_, i) => ({
+        ...storedReport,
+        _id: `report-${i}`,
+        messageId: `msg-${i}`,
+      }));
+      const reportModel = {
+        distinct: jest.fn(
+          (field: 'reporterId', filter: Record<string, unknown>) => ({
+            exec: () =>
+              Promise.resolve([
+                ...new Set(
+                  reports
+                    .filter(
+                      (report) =>
+                        report.roomId === filter.roomId &&
+                        (!filter.reportedUserId ||
+                          report.reportedUserId === filter.reportedUserId),
+                    )
+                    .map((report) => report[field]),
+                ),
+              ]),
+          }),
+        ),
+      };
+      const repository = new ReportRepository(
+        reportModel as unknown as Model<MessageReportDocument>,
+      );
+      reportRepository.countReportersInRoom.mockImplementation(
+        (roomId: string, since: Date) =>
+          repository.countReportersInRoom(roomId, since),
+      );
+      reportRepository.countReportersAgainstUser.mockImplementation(
+        (roomId: string, reportedUserId: string, since: Date) =>
+          repository.countReportersAgainstUser(roomId, reportedUserId, since),
+      );
+      config = {
+        MODERATION_BAN_REPORT_THRESHOLD: 3,
+        MODERATION_CLOSE_REPORT_THRESHOLD: 5,
+      };
+      service.onModuleInit();
+
+      const verdict = await service.evaluate('report-4');
+
+      expect(verdict?.action).toBeNull();
+      expect(reportModel.distinct).toHaveBeenCalledWith(
+        'reporterId',
+        expect.objectContaining({
+          roomId: 'room-123',
+          reportedUserId: 'user-456',
+        }),
+      );
+      await expect(
+        reportRepository.countReportersAgainstUser.mock.results[0].value,
+      ).resolves.toBe(1);
+    });
+  });
+
+  describe('resolve', () => {
+    it('should resolve the reports a ban dealt with', async () => {
+      await service.resolve(
+        storedReport as never,
+        ReportAction.PARTICIPANT_BANNED,
+      );
+
+      expect(reportRepository.resolveOpen).toHaveBeenCalledWith(
+        { roomId: 'room-123', reportedUserId: 'user-456' },
+        ReportAction.PARTICIPANT_BANNED,
+      );
+    });
+
+    it('should resolve every report in a closed room', async () => {
+      await service.resolve(storedReport as never, ReportAction.ROOM_CLOSED);
+
+      expect(reportRepository.resolveOpen).toHaveBeenCalledWith(
+        { roomId: 'room-123' },
+        ReportAction.ROOM_CLOSED,
+      );
+    });
+  });
+
+  describe('eraseUser', () => {
+    it('should anonymize the reports under a fresh placeholder ID', async () => {
+      await expect(service.eraseUser('user-456', 'Deleted user')).resolves.toBe(
+        2,
+      );
+      await service.eraseUser('user-789', 'Deleted user');
+
+      const [first, second] = reportRepository.anonymizeUser.mock.calls as [
+        string,
+        string,
+        string,
+      ][];
+      expect(first).toEqual(['user-456', expect.any(String), 'Deleted user']);
+      expect(first[1]).not.toBe('user-456');
+      expect(second[1]).not.toBe(first[1]);
+    });
+  });
+});
@@ -0,0 +1,251 @@
+/**
+ * @fileoverview Report Service
+ * @description Records message reports and decides when they add up to an action
+ * @module modules/moderation/services/report
+ *
+ * Design Pattern: Service Layer Pattern
+ * - Stores reports and hands them to the moderation queue
+ * - Applies the configured thresholds; the queue carries out the action
+ */
+
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectQueue } from '@nestjs/bullmq';
+import { Queue } from 'bullmq';
+import { ReportRepository } from '../repositories/report.repository';
+import {
+  MessageReport,
+  MessageReportDocument,
+  ReportAction,
+  ReportReason,
+  ReportStatus,
+} from '../schemas/report.schema';
+import {
+  MAX_REPORT_DETAILS_LENGTH,
+  ReportResponseDto,
+} from '../dto/report.dto';
+import { generateId } from '../../../common/utils/uuid.util';
+import {
+  DuplicateReportException,
+  InvalidReportException,
+} from '../../../common/exceptions/business.exceptions';
+
+/**
+ * Job ID for a report's review, so a report is only queued once
+ */
+const REVIEW_JOB_ID = (reportId: string) => `review-report:${reportId}`;
+
+/**
+ * What to do about a reviewed report
+ */
+export interface ReportVerdict {
+  report: MessageReportDocument;
+  /** Action the thresholds call for, or null to leave the report open */
+  action: ReportAction | null;
+}
+
+/**
+ * Report Service
+ *
+ * @description Handles message reports:
+ * - One report per message per reporter, with a snapshot of the message
+ * - Each report queued for review on the moderation queue
+ * - Participants reporting a participant within the window can ban them
+ *   (MODERATION_BAN_REPORT_THRESHOLD)
+ * - Participants reporting messages in a room within the window can
+ *   close it (MODERATION_CLOSE_REPORT_THRESHOLD)
+ *
+ * Thresholds count reporters, not reports, so no participant can ban
+ * someone or close a room alone. A threshold of 0 turns that action off.
+ *
+ * @class ReportService
+ */
+@Injectable()
+export class ReportService implements OnModuleInit {
+  private readonly logger = new Logger(ReportService.name);
+
+  private banThreshold: number;
+  private closeThreshold: number;
+  private windowMs: number;
+
+  constructor(
+    private readonly reportRepository: ReportRepository,
+    @InjectQueue('moderation')
+    private readonly moderationQueue: Queue,
+    private readonly configService: ConfigService,
+  ) {}
+
+  onModuleInit(): void {
+    this.banThreshold = Number(
+      this.configService.get<number>('MODERATION_BAN_REPORT_THRESHOLD', 3),
+    );
+    this.closeThreshold = Number(
+      this.configService.get<number>('MODERATION_CLOSE_REPORT_THRESHOLD', 10),
+    );
+    this.windowMs =
+      Number(
+        this.configService.get<number>('MODERATION_REPORT_WINDOW_HOURS', 24),
+      ) *
+      60 *
+      60 *
+      1000;
+  }
+
+  /**
+   * Records a report and queues it for review
+   *
+   * @description Callers are responsible for checking the reporter can
+   * see the message and for building the snapshot. WebSocket payloads
+   * skip DTO validation, so the reason and details are checked here too.
+   *
+   * @param {Partial<MessageReport>} reportData - Report with its message snapshot
+   * @returns {Promise<ReportResponseDto>} Created report
+   * @throws {InvalidReportException} If the reason or details are invalid
+   * @throws {DuplicateReportException} If the reporter already reported the message
+   */
+  async createReport(
+    reportData: Partial<MessageReport>,
+  ): Promise<ReportResponseDto> {
+    if (!Object.values(ReportReason).includes(reportData.reason!)) {
+      throw new InvalidReportException(
+        `Reason must be one of: ${Object.values(ReportReason).join(', ')}`,
+      );
+    }
+    if (
+      reportData.details &&
+      (typeof reportData.details !== 'string' ||
+        reportData.details.length > MAX_REPORT_DETAILS_LENGTH)
+    ) {
+      throw new InvalidReportException(
+        `Details cannot exceed ${MAX_REPORT_DETAILS_LENGTH} characters`,
+      );
+    }
+
+    const report = await this.reportRepository.create(reportData);
+
+    if (!report) {
+      throw new DuplicateReportException(reportData.messageId!);
+    }
+
+    await this.moderationQueue.add(
+      'review-report',
+      { reportId: report._id },
+      {
+        jobId: REVIEW_JOB_ID(report._id),
+        removeOnComplete: true,
+        removeOnFail: 100,
+      },
+    );
+
+    this.logger.log(
+      `Message ${report.messageId} reported for ${report.reason} in room ${report.roomId}`,
+    );
+
+    return {
+      reportId: report._id,
+      messageId: report.messageId,
+      reason: report.reason,
+      status: report.status,
+      createdAt: report.createdAt,
+    };
+  }
+
+  /**
+   * Checks a report against the thresholds
+   *
+   * @description Closing the room takes precedence over banning the
+   * reported participant, since it removes everyone anyway. Reports that
+   * were already resolved call for nothing.
+   *
+   * @param {string} reportId - Report UUID
+   * @returns {Promise<ReportVerdict | null>} Verdict, or null if the report doesn't exist
+   */
+  async evaluate(reportId: string): Promise<ReportVerdict | null> {
+    const report = await this.reportRepository.findById(reportId);
+
+    if (!report) {
+      return null;
+    }
+
+    if (report.status !== ReportStatus.OPEN) {
+      return { report, action: null };
+    }
+
+    const since = new Date(Date.now() - this.windowMs);
+
+    if (this.closeThreshold > 0) {
+      const roomReporters = await this.reportRepository.countReportersInRoom(
+        report.roomId,
+        since,
+      );
+      if (roomReporters >= this.closeThreshold) {
+        return { report, action: ReportAction.ROOM_CLOSED };
+      }
+    }
+
+    if (this.banThreshold > 0) {
+      const userReporters =
+        await this.reportRepository.countReportersAgainstUser(
+          report.roomId,
+          report.reportedUserId,
+          since,
+        );
+      if (userReporters >= this.banThreshold) {
+        return { report, action: ReportAction.PARTICIPANT_BANNED };
+      }
+    }
+
+    return { report, action: null };
+  }
+
+  /**
+   * Marks the open reports an action dealt with as actioned
+   *
+   * @description Closing a room resolves every report in it; a ban
+   * resolves the reports against the banned participant.
+   *
+   * @param {MessageReportDocument} report - Report that triggered the action
+   * @param {ReportAction} action - Action that was taken
+   * @returns {Promise<number>} Number of reports resolved
+   */
+  async resolve(
+    report: MessageReportDocument,
+    action: ReportAction,
+  ): Promise<number> {
+    const resolved = await this.reportRepository.resolveOpen(
+      action === ReportAction.ROOM_CLOSED
+        ? { roomId: report.roomId }
+        : { roomId: report.roomId, reportedUserId: report.reportedUserId },
+      action,
+    );
+
+    this.logger.log(
+      `${resolved} report(s) in room ${report.roomId} resolved: ${action}`,
+    );
+    return resolved;
+  }
+
+  /**
+   * Anonymizes an erased user's reports
+   *
+   * @description Called once the user's content is erased. A fresh
+   * placeholder ID stands in for the user, so their reports can't be tied
+   * back to them but still count as one reporter or reported participant.
+   *
+   * @param {string} userId - Erased user's ID
+   * @param {string} senderName - Name shown in place of the user's
+   * @returns {Promise<number>} Number of reports anonymized
+   */
+  async eraseUser(userId: string, senderName: string): Promise<number> {
+    const anonymized = await this.reportRepository.anonymizeUser(
+      userId,
+      generateId(),
+      senderName,
+    );
+
+    this.logger.warn(
+      `Anonymized ${anonymized} report(s) filed by or against user ${userId}`,
+    );
+    return anonymized;
+  }
+}
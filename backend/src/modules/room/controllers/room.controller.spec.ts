@@ -6,16 +6,31 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { RoomController } from './room.controller';
 import { RoomService } from '../services/room.service';
-import { RoomStatus } from '../schemas/room.schema';
+import { ChatGateway } from '../../../gateways/chat.gateway';
+import { RoomStatus, ParticipantRole } from '../schemas/room.schema';
+import { MessageTtlStart } from '../../message/schemas/message.schema';
 import {
   RoomNotFoundException,
   RoomFullException,
+  RoomAccessDeniedException,
   SessionNotFoundException,
+  UnauthorizedActionException,
 } from '../../../common/exceptions/business.exceptions';
 
 describe('RoomController', () => {
   let controller: RoomController;
-  let roomService: jest.Mocked<RoomService>;
+  let roomService: {
+    createRoom: jest.Mock;
+    joinRoom: jest.Mock;
+    leaveRoom: jest.Mock;
+    getRoomById: jest.Mock;
+    getRoomByCode: jest.Mock;
+    closeRoom: jest.Mock;
+    kickParticipant: jest.Mock;
+    createInvite: jest.Mock;
+    assertCanViewRoom: jest.Mock;
+  };
+  let chatGateway: { broadcastParticipantKicked: jest.Mock };
 
   const mockRoom = {
     _id: 'room-id-123',
@@ -40,22 +55,31 @@ describe('RoomController', () => {
   const mockSessionId = 'session-123';
 
   beforeEach(async () => {
-    const mockRoomService = {
+    roomService = {
       createRoom: jest.fn(),
       joinRoom: jest.fn(),
       leaveRoom: jest.fn(),
       getRoomById: jest.fn(),
       getRoomByCode: jest.fn(),
       closeRoom: jest.fn(),
+      kickParticipant: jest.fn(),
+      createInvite: jest.fn(),
+      assertCanViewRoom: jest.fn().mockResolvedValue(undefined),
+    };
+
+    chatGateway = {
+      broadcastParticipantKicked: jest.fn().mockResolvedValue(undefined),
     };
 
     const module: TestingModule = await Test.createTestingModule({
       controllers: [RoomController],
-      providers: [{ provide: RoomService, useValue: mockRoomService }],
+      providers: [
+        { provide: RoomService, useValue: roomService },
+        { provide: ChatGateway, useValue: chatGateway },
+      ],
     }).compile();
 
     controller = module.get<RoomController>(RoomController);
-    roomService = module.get(RoomService);
   });
 
   afterEach(() => {
@@ -133,7 +157,7 @@ describe('RoomController', () => {
     it('should throw RoomFullException when room is full', async () => {
       const joinDto = { roomCode: 'ABC123', displayName: 'User Three' };
       roomService.joinRoom.mockRejectedValue(
-        new RoomFullException('ABC123'),
+        new RoomFullException('ABC123', 2),
       );
 
       await expect(
@@ -176,7 +200,7 @@ describe('RoomController', () => {
     it('should return room details', async () => {
       roomService.getRoomById.mockResolvedValue(mockRoom as any);
 
-      const result = await controller.getRoom(mockSessionId, 'room-id-123');
+      const result = await controller.getRoomById(mockSessionId, 'room-id-123');
 
       expect(result).toBeDefined();
       expect(result.roomId).toBe('room-id-123');
@@ -190,7 +214,7 @@ describe('RoomController', () => {
       );
 
       await expect(
-        controller.getRoom(mockSessionId, 'invalid-room'),
+        controller.getRoomById(mockSessionId, 'invalid-room'),
       ).rejects.toThrow(RoomNotFoundException);
     });
   });
@@ -214,6 +238,17 @@ describe('RoomController', () => {
         controller.getRoomByCode(mockSessionId, 'INVALID'),
       ).rejects.toThrow(RoomNotFoundException);
     });
+
+    it('should hide protected rooms from non-participants', async () => {
+      roomService.getRoomByCode.mockResolvedValue(mockRoom as any);
+      roomService.assertCanViewRoom.mockRejectedValue(
+        new RoomAccessDeniedException('ABC123'),
+      );
+
+      await expect(
+        controller.getRoomByCode(mockSessionId, 'ABC123'),
+      ).rejects.toThrow(RoomAccessDeniedException);
+    });
   });
 
   describe('POST /rooms/:roomId/close', () => {
@@ -232,6 +267,83 @@ describe('RoomController', () => {
     });
   });
 
+  describe('POST /rooms/:roomId/kick', () => {
+    it('should remove the participant and disconnect their sockets', async () => {
+      const kicked = {
+        userId: 'user-2',
+        displayName: 'User Two',
+        joinedAt: new Date(),
+        isActive: true,
+        leftAt: null,
+      };
+      roomService.kickParticipant.mockResolvedValue({
+        room: mockRoom,
+        kicked,
+      } as any);
+
+      const result = await controller.kickParticipant(
+        mockSessionId,
+        'room-id-123',
+        { userId: 'user-2' },
+      );
+
+      expect(result.roomId).toBe('room-id-123');
+      expect(roomService.kickParticipant).toHaveBeenCalledWith(
+        mockSessionId,
+        'room-id-123',
+        'user-2',
+      );
+      expect(chatGateway.broadcastParticipantKicked).toHaveBeenCalledWith(
+        mockRoom,
+        kicked,
+      );
+    });
+
+    it('should not touch sockets when the requester is not the host', async () => {
+      roomService.kickParticipant.mockRejectedValue(
+        new UnauthorizedActionException('remove participants from this room'),
+      );
+
+      await expect(
+        controller.kickParticipant(mockSessionId, 'room-id-123', {
+          userId: 'user-2',
+        }),
+      ).rejects.toThrow(UnauthorizedActionException);
+      expect(chatGateway.broadcastParticipantKicked).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /rooms/:roomId/invites', () => {
+    it('should return the token with the invite limits', async () => {
+      const expiresAt = new Date();
+      roomService.createInvite.mockResolvedValue({
+        room: mockRoom as any,
+        token: 'invite-token',
+        invite: {
+          tokenHash: 'hash',
+          createdBy: 'user-1',
+          maxUses: 1,
+          remainingUses: 1,
+          expiresAt,
+          createdAt: new Date(),
+        },
+      });
+
+      const result = await controller.createInvite(
+        mockSessionId,
+        'room-id-123',
+        { maxUses: 1 },
+      );
+
+      expect(result).toEqual({
+        token: 'invite-token',
+        roomCode: 'ABC123',
+        maxUses: 1,
+        expiresAt,
+      });
+    });
+  });
+
   describe('Response mapping', () => {
     it('should correctly map room to CreateRoomResponseDto', async () => {
       const createDto = { displayName: 'Test User' };
@@ -244,6 +356,10 @@ describe('RoomController', () => {
         roomCode: 'ABC123',
         createdAt: mockRoom.createdAt,
         expiresAt: null,
+        hasPassphrase: false,
+        encrypted: false,
+        messageTtlSeconds: null,
+        messageTtlStart: MessageTtlStart.SENT,
       });
     });
 
@@ -255,9 +371,13 @@ describe('RoomController', () => {
 
       expect(result.participants).toBeDefined();
       expect(result.participants[0]).toEqual({
+        userId: 'user-1',
         displayName: 'User One',
+        role: ParticipantRole.MEMBER,
         isActive: true,
         joinedAt: expect.any(Date),
+        lastReadMessageId: null,
+        publicKey: null,
       });
     });
   });
@@ -16,21 +16,28 @@ import {
   Get,
   Param,
   Body,
-  Headers,
   HttpCode,
   HttpStatus,
   Logger,
+  Inject,
+  forwardRef,
 } from '@nestjs/common';
 import { RoomService } from '../services/room.service';
+import { ChatGateway } from '../../../gateways/chat.gateway';
 import {
   CreateRoomDto,
   JoinRoomDto,
+  KickParticipantDto,
+  CreateInviteDto,
   RoomResponseDto,
   CreateRoomResponseDto,
+  InviteResponseDto,
   ParticipantResponseDto,
 } from '../dto/room.dto';
-import { RoomDocument } from '../schemas/room.schema';
+import { RoomDocument, ParticipantRole } from '../schemas/room.schema';
+import { MessageTtlStart } from '../../message/schemas/message.schema';
 import { SessionNotFoundException } from '../../../common/exceptions/business.exceptions';
+import { SessionId } from '../../../common/decorators/session.decorator';
 
 /**
  * Room Controller
@@ -39,6 +46,8 @@ import { SessionNotFoundException } from '../../../common/exceptions/business.ex
  * - POST /rooms/create - Create a new room
  * - POST /rooms/join - Join an existing room
  * - POST /rooms/:roomId/leave - Leave a room
+ * - POST /rooms/:roomId/kick - Remove and ban a participant (host only)
+ * - POST /rooms/:roomId/invites - Create an invite to a protected room (host only)
  * - GET /rooms/:roomId - Get room details
  * - GET /rooms/code/:roomCode - Get room by code
  * 
@@ -48,20 +57,24 @@ import { SessionNotFoundException } from '../../../common/exceptions/business.ex
 export class RoomController {
   private readonly logger = new Logger(RoomController.name);
 
-  constructor(private readonly roomService: RoomService) {}
+  constructor(
+    private readonly roomService: RoomService,
+    @Inject(forwardRef(() => ChatGateway))
+    private readonly chatGateway: ChatGateway,
+  ) {}
 
   /**
    * Creates a new chat room
    * 
    * @route POST /rooms/create
-   * @param {string} sessionId - Session ID from X-Session-Id header
+   * @param {string} sessionId - Session ID from the session token
    * @param {CreateRoomDto} dto - Room creation data
    * @returns {Promise<CreateRoomResponseDto>} Created room details with room code
    * 
    * @example
    * // Request
    * POST /api/v1/rooms/create
-   * Headers: { "X-Session-Id": "session-uuid" }
+   * Headers: { "Authorization": "Bearer <session-token>" }
    * Body: { "displayName": "Anonymous User" }
    * 
    * // Response 201
@@ -69,13 +82,17 @@ export class RoomController {
    *   "roomId": "019123ab-cdef-7000-8000-000000000001",
    *   "roomCode": "ABC123",
    *   "createdAt": "2025-12-18T10:00:00.000Z",
-   *   "expiresAt": null
+   *   "expiresAt": "2025-12-19T10:00:00.000Z",
+   *   "hasPassphrase": false,
+   *   "encrypted": false,
+   *   "messageTtlSeconds": null,
+   *   "messageTtlStart": "sent"
    * }
    */
   @Post('create')
   @HttpCode(HttpStatus.CREATED)
   async createRoom(
-    @Headers('x-session-id') sessionId: string,
+    @SessionId() sessionId: string,
     @Body() dto: CreateRoomDto,
   ): Promise<CreateRoomResponseDto> {
     this.validateSessionId(sessionId);
@@ -91,14 +108,14 @@ export class RoomController {
    * Joins an existing room by room code
    * 
    * @route POST /rooms/join
-   * @param {string} sessionId - Session ID from X-Session-Id header
+   * @param {string} sessionId - Session ID from the session token
    * @param {JoinRoomDto} dto - Join room data with room code
    * @returns {Promise<RoomResponseDto>} Room details with participants
    * 
    * @example
    * // Request
    * POST /api/v1/rooms/join
-   * Headers: { "X-Session-Id": "session-uuid" }
+   * Headers: { "Authorization": "Bearer <session-token>" }
    * Body: { "roomCode": "ABC123", "displayName": "Anonymous User 2" }
    * 
    * // Response 200
@@ -112,7 +129,7 @@ export class RoomController {
   @Post('join')
   @HttpCode(HttpStatus.OK)
   async joinRoom(
-    @Headers('x-session-id') sessionId: string,
+    @SessionId() sessionId: string,
     @Body() dto: JoinRoomDto,
   ): Promise<RoomResponseDto> {
     this.validateSessionId(sessionId);
@@ -128,14 +145,14 @@ export class RoomController {
    * Leaves a room
    * 
    * @route POST /rooms/:roomId/leave
-   * @param {string} sessionId - Session ID from X-Session-Id header
+   * @param {string} sessionId - Session ID from the session token
    * @param {string} roomId - Room UUID from URL parameter
    * @returns {Promise<RoomResponseDto>} Updated room details
    * 
    * @example
    * // Request
    * POST /api/v1/rooms/019123ab-cdef-7000-8000-000000000001/leave
-   * Headers: { "X-Session-Id": "session-uuid" }
+   * Headers: { "Authorization": "Bearer <session-token>" }
    * 
    * // Response 200
    * {
@@ -147,7 +164,7 @@ export class RoomController {
   @Post(':roomId/leave')
   @HttpCode(HttpStatus.OK)
   async leaveRoom(
-    @Headers('x-session-id') sessionId: string,
+    @SessionId() sessionId: string,
     @Param('roomId') roomId: string,
   ): Promise<RoomResponseDto> {
     this.validateSessionId(sessionId);
@@ -159,18 +176,102 @@ export class RoomController {
     return this.mapToRoomResponse(room);
   }
 
+  /**
+   * Removes a participant and bans them from rejoining
+   *
+   * @route POST /rooms/:roomId/kick
+   * @param {string} sessionId - Host's session ID from the session token
+   * @param {string} roomId - Room UUID from URL parameter
+   * @param {KickParticipantDto} dto - Participant to remove
+   * @returns {Promise<RoomResponseDto>} Updated room details
+   *
+   * @example
+   * // Request
+   * POST /api/v1/rooms/xxx/kick
+   * Headers: { "Authorization": "Bearer <session-token>" }
+   * Body: { "userId": "019123ab-cdef-7000-8000-000000000002" }
+   */
+  @Post(':roomId/kick')
+  @HttpCode(HttpStatus.OK)
+  async kickParticipant(
+    @SessionId() sessionId: string,
+    @Param('roomId') roomId: string,
+    @Body() dto: KickParticipantDto,
+  ): Promise<RoomResponseDto> {
+    this.validateSessionId(sessionId);
+
+    this.logger.log(`Kicking ${dto.userId} from room ${roomId}`);
+
+    const { room, kicked } = await this.roomService.kickParticipant(
+      sessionId,
+      roomId,
+      dto.userId,
+    );
+
+    // Disconnect the participant's sockets and update everyone else
+    await this.chatGateway.broadcastParticipantKicked(room, kicked);
+
+    return this.mapToRoomResponse(room);
+  }
+
+  /**
+   * Creates an invite to a passphrase-protected room
+   *
+   * @route POST /rooms/:roomId/invites
+   * @param {string} sessionId - Host's session ID from the session token
+   * @param {string} roomId - Room UUID from URL parameter
+   * @param {CreateInviteDto} dto - Usage limit and lifetime
+   * @returns {Promise<InviteResponseDto>} The invite token (only returned once)
+   *
+   * @example
+   * // Request
+   * POST /api/v1/rooms/xxx/invites
+   * Headers: { "Authorization": "Bearer <session-token>" }
+   * Body: { "maxUses": 1, "expiresInHours": 24 }
+   *
+   * // Response 201
+   * {
+   *   "token": "q3Hk0d2JxVbN7...",
+   *   "roomCode": "ABC123",
+   *   "maxUses": 1,
+   *   "expiresAt": "2025-12-19T10:00:00.000Z"
+   * }
+   */
+  @Post(':roomId/invites')
+  @HttpCode(HttpStatus.CREATED)
+  async createInvite(
+    @SessionId() sessionId: string,
+    @Param('roomId') roomId: string,
+    @Body() dto: CreateInviteDto,
+  ): Promise<InviteResponseDto> {
+    this.validateSessionId(sessionId);
+
+    const { room, token, invite } = await this.roomService.createInvite(
+      sessionId,
+      roomId,
+      dto,
+    );
+
+    return {
+      token,
+      roomCode: room.roomCode,
+      maxUses: invite.maxUses,
+      expiresAt: invite.expiresAt,
+    };
+  }
+
   /**
    * Closes a room permanently
    * 
    * @route POST /rooms/:roomId/close
-   * @param {string} sessionId - Session ID from X-Session-Id header
+   * @param {string} sessionId - Session ID from the session token
    * @param {string} roomId - Room UUID from URL parameter
    * @returns {Promise<RoomResponseDto>} Closed room details
    * 
    * @example
    * // Request
    * POST /api/v1/rooms/xxx/close
-   * Headers: { "X-Session-Id": "session-uuid" }
+   * Headers: { "Authorization": "Bearer <session-token>" }
    * 
    * // Response 200
    * {
@@ -182,7 +283,7 @@ export class RoomController {
   @Post(':roomId/close')
   @HttpCode(HttpStatus.OK)
   async closeRoom(
-    @Headers('x-session-id') sessionId: string,
+    @SessionId() sessionId: string,
     @Param('roomId') roomId: string,
   ): Promise<RoomResponseDto> {
     this.validateSessionId(sessionId);
@@ -198,18 +299,19 @@ export class RoomController {
    * Gets room details by ID
    * 
    * @route GET /rooms/:roomId
-   * @param {string} sessionId - Session ID from X-Session-Id header
+   * @param {string} sessionId - Session ID from the session token
    * @param {string} roomId - Room UUID from URL parameter
    * @returns {Promise<RoomResponseDto>} Room details
    */
   @Get(':roomId')
   async getRoomById(
-    @Headers('x-session-id') sessionId: string,
+    @SessionId() sessionId: string,
     @Param('roomId') roomId: string,
   ): Promise<RoomResponseDto> {
     this.validateSessionId(sessionId);
 
     const room = await this.roomService.getRoomById(roomId);
+    await this.roomService.assertCanViewRoom(sessionId, room);
 
     return this.mapToRoomResponse(room);
   }
@@ -218,18 +320,19 @@ export class RoomController {
    * Gets room details by room code
    * 
    * @route GET /rooms/code/:roomCode
-   * @param {string} sessionId - Session ID from X-Session-Id header
-   * @param {string} roomCode - 6-character room code
+   * @param {string} sessionId - Session ID from the session token
+   * @param {string} roomCode - Room code
    * @returns {Promise<RoomResponseDto>} Room details
    */
   @Get('code/:roomCode')
   async getRoomByCode(
-    @Headers('x-session-id') sessionId: string,
+    @SessionId() sessionId: string,
     @Param('roomCode') roomCode: string,
   ): Promise<RoomResponseDto> {
     this.validateSessionId(sessionId);
 
     const room = await this.roomService.getRoomByCode(roomCode.toUpperCase());
+    await this.roomService.assertCanViewRoom(sessionId, room);
 
     return this.mapToRoomResponse(room);
   }
@@ -259,7 +362,11 @@ export class RoomController {
       roomId: room._id,
       roomCode: room.roomCode,
       createdAt: room.createdAt,
-      expiresAt: null, // Rooms don't expire in current implementation
+      expiresAt: room.expiresAt || null,
+      hasPassphrase: !!room.passphraseHash,
+      encrypted: !!room.encrypted,
+      messageTtlSeconds: room.messageTtlSeconds ?? null,
+      messageTtlStart: room.messageTtlStart || MessageTtlStart.SENT,
     };
   }
 
@@ -275,9 +382,15 @@ export class RoomController {
       roomId: room._id,
       roomCode: room.roomCode,
       participants: room.participants.map((p) => this.mapToParticipantResponse(p)),
+      maxParticipants: room.maxParticipants,
       status: room.status,
       createdAt: room.createdAt,
       closedAt: room.closedAt || undefined,
+      expiresAt: room.expiresAt || null,
+      hasPassphrase: !!room.passphraseHash,
+      encrypted: !!room.encrypted,
+      messageTtlSeconds: room.messageTtlSeconds ?? null,
+      messageTtlStart: room.messageTtlStart || MessageTtlStart.SENT,
     };
   }
 
@@ -291,14 +404,20 @@ export class RoomController {
   private mapToParticipantResponse(participant: {
     userId: string;
     displayName: string;
+    role?: ParticipantRole;
     isActive: boolean;
     joinedAt: Date;
+    lastReadMessageId?: string | null;
+    publicKey?: string | null;
   }): ParticipantResponseDto {
     return {
       userId: participant.userId,
       displayName: participant.displayName,
+      role: participant.role || ParticipantRole.MEMBER,
       isActive: participant.isActive,
       joinedAt: participant.joinedAt,
+      lastReadMessageId: participant.lastReadMessageId || null,
+      publicKey: participant.publicKey || null,
     };
   }
 }
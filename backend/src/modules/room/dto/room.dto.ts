@@ -16,10 +16,19 @@ import {
   Matches,
   IsOptional,
   IsNumber,
+  IsInt,
+  IsBoolean,
+  IsEnum,
   Min,
   Max,
 } from 'class-validator';
 import { Transform, Type } from 'class-transformer';
+import { ROOM_CODE_PATTERN } from '../../../common/utils/room-code.util';
+import {
+  MessageTtlStart,
+  MIN_MESSAGE_TTL_SECONDS,
+  MAX_MESSAGE_TTL_SECONDS,
+} from '../../message/schemas/message.schema';
 
 /**
  * Create Room Request DTO
@@ -30,7 +39,11 @@ import { Transform, Type } from 'class-transformer';
  * {
  *   "displayName": "Anonymous User",
  *   "maxParticipants": 10,
- *   "expiresInHours": 24
+ *   "expiresInHours": 24,
+ *   "passphrase": "correct horse battery staple",
+ *   "encrypted": false,
+ *   "messageTtlSeconds": 3600,
+ *   "messageTtlStart": "read"
  * }
  */
 export class CreateRoomDto {
@@ -65,6 +78,48 @@ export class CreateRoomDto {
   @Min(1, { message: 'Room must be active for at least 1 hour' })
   @Max(168, { message: 'Room cannot be active for more than 168 hours (7 days)' })
   expiresInHours?: number;
+
+  /**
+   * Passphrase newcomers must enter to join (optional)
+   * @example "correct horse battery staple"
+   */
+  @IsOptional()
+  @IsString()
+  @Length(4, 128, {
+    message: 'Passphrase must be between 4 and 128 characters',
+  })
+  passphrase?: string;
+
+  /**
+   * End-to-end encrypt messages (two participants only; no attachments or search)
+   * @example false
+   */
+  @IsOptional()
+  @IsBoolean()
+  encrypted?: boolean;
+
+  /**
+   * Default lifetime in seconds for messages sent in the room (optional)
+   * @example 3600
+   */
+  @IsOptional()
+  @IsInt()
+  @Type(() => Number)
+  @Min(MIN_MESSAGE_TTL_SECONDS, {
+    message: `Messages must last at least ${MIN_MESSAGE_TTL_SECONDS} seconds`,
+  })
+  @Max(MAX_MESSAGE_TTL_SECONDS, {
+    message: 'Messages cannot last more than 7 days',
+  })
+  messageTtlSeconds?: number;
+
+  /**
+   * Whether the default lifetime starts when a message is sent or first read
+   * @example "read"
+   */
+  @IsOptional()
+  @IsEnum(MessageTtlStart)
+  messageTtlStart?: MessageTtlStart;
 }
 
 /**
@@ -75,19 +130,20 @@ export class CreateRoomDto {
  * @example
  * {
  *   "roomCode": "ABC123",
- *   "displayName": "Anonymous User 2"
+ *   "displayName": "Anonymous User 2",
+ *   "passphrase": "correct horse battery staple"
  * }
  */
 export class JoinRoomDto {
   /**
-   * 6-character room code (uppercase alphanumeric)
+   * Room code: random characters or hyphen-separated words
    * @example "ABC123"
    */
   @IsString()
   @IsNotEmpty({ message: 'Room code is required' })
-  @Length(6, 6, { message: 'Room code must be exactly 6 characters' })
-  @Matches(/^[A-Z0-9]{6}$/, {
-    message: 'Room code must be 6 uppercase alphanumeric characters',
+  @Length(4, 64, { message: 'Room code must be between 4 and 64 characters' })
+  @Matches(ROOM_CODE_PATTERN, {
+    message: 'Room code may only contain letters, digits and single hyphens',
   })
   @Transform(({ value }) => value?.toUpperCase().trim())
   roomCode: string;
@@ -101,6 +157,78 @@ export class JoinRoomDto {
   @Length(1, 50, { message: 'Display name must be between 1 and 50 characters' })
   @Transform(({ value }) => value?.trim())
   displayName: string;
+
+  /**
+   * Passphrase for protected rooms
+   */
+  @IsOptional()
+  @IsString()
+  @Length(1, 128)
+  passphrase?: string;
+
+  /**
+   * Invite token for protected rooms (alternative to the passphrase)
+   */
+  @IsOptional()
+  @IsString()
+  @Length(1, 64)
+  inviteToken?: string;
+}
+
+/**
+ * Create Invite Request DTO
+ *
+ * @description Validates the host's request to create an invite
+ *
+ * @example
+ * {
+ *   "maxUses": 1,
+ *   "expiresInHours": 24
+ * }
+ */
+export class CreateInviteDto {
+  /**
+   * How many people can join with the invite
+   * @example 1
+   */
+  @IsOptional()
+  @IsInt()
+  @Type(() => Number)
+  @Min(1, { message: 'Invite must allow at least 1 use' })
+  @Max(100, { message: 'Invite cannot allow more than 100 uses' })
+  maxUses?: number;
+
+  /**
+   * Number of hours until the invite stops working
+   * @example 24
+   */
+  @IsOptional()
+  @IsNumber()
+  @Type(() => Number)
+  @Min(1, { message: 'Invite must be valid for at least 1 hour' })
+  @Max(168, {
+    message: 'Invite cannot be valid for more than 168 hours (7 days)',
+  })
+  expiresInHours?: number;
+}
+
+/**
+ * Kick Participant Request DTO
+ *
+ * @description Validates the host's request to remove a participant
+ *
+ * @example
+ * {
+ *   "userId": "019123ab-cdef-7000-8000-000000000002"
+ * }
+ */
+export class KickParticipantDto {
+  /**
+   * User ID of the participant to remove
+   */
+  @IsString()
+  @IsNotEmpty({ message: 'User ID is required' })
+  userId: string;
 }
 
 /**
@@ -127,7 +255,7 @@ export class RoomResponseDto {
   roomId: string;
 
   /**
-   * 6-character shareable room code
+   * Shareable room code
    */
   roomCode: string;
 
@@ -136,6 +264,11 @@ export class RoomResponseDto {
    */
   participants: ParticipantResponseDto[];
 
+  /**
+   * Maximum number of participants the room allows
+   */
+  maxParticipants: number;
+
   /**
    * Room status (active/closed)
    */
@@ -150,6 +283,31 @@ export class RoomResponseDto {
    * Room closure timestamp (if closed)
    */
   closedAt?: Date;
+
+  /**
+   * When the room closes on its own (null if it never expires)
+   */
+  expiresAt: Date | null;
+
+  /**
+   * Whether newcomers need a passphrase or invite to join
+   */
+  hasPassphrase: boolean;
+
+  /**
+   * Whether messages are end-to-end encrypted
+   */
+  encrypted: boolean;
+
+  /**
+   * Default lifetime in seconds for new messages (null keeps them)
+   */
+  messageTtlSeconds: number | null;
+
+  /**
+   * When the default lifetime starts counting (sent/read)
+   */
+  messageTtlStart: MessageTtlStart;
 }
 
 /**
@@ -168,6 +326,11 @@ export class ParticipantResponseDto {
    */
   displayName: string;
 
+  /**
+   * Participant's role (host/member)
+   */
+  role: string;
+
   /**
    * Whether the participant is currently active
    */
@@ -177,6 +340,16 @@ export class ParticipantResponseDto {
    * When the participant joined
    */
   joinedAt: Date;
+
+  /**
+   * Newest message the participant has read (if any)
+   */
+  lastReadMessageId: string | null;
+
+  /**
+   * Public key for end-to-end encrypted rooms (null until shared)
+   */
+  publicKey: string | null;
 }
 
 /**
@@ -189,6 +362,23 @@ export class CreateRoomResponseDto {
   roomCode: string;
   createdAt: Date;
   expiresAt: Date | null;
+  hasPassphrase: boolean;
+  encrypted: boolean;
+  messageTtlSeconds: number | null;
+  messageTtlStart: MessageTtlStart;
+}
+
+/**
+ * Invite Response DTO
+ *
+ * @description Response for a newly created invite. The token is only
+ * ever returned here.
+ */
+export class InviteResponseDto {
+  token: string;
+  roomCode: string;
+  maxUses: number;
+  expiresAt: Date;
 }
 
 /**
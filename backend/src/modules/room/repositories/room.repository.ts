@@ -13,7 +13,49 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model } from 'mongoose';
-import { Room, RoomDocument, RoomStatus, Participant } from '../schemas/room.schema';
+import {
+  Room,
+  RoomDocument,
+  RoomStatus,
+  Participant,
+  ParticipantRole,
+  RoomInvite,
+} from '../schemas/room.schema';
+import { MessageTtlStart } from '../../message/schemas/message.schema';
+
+/**
+ * Filters for listing rooms
+ */
+export interface RoomListFilter {
+  status?: RoomStatus;
+  createdAfter?: Date;
+  createdBefore?: Date;
+  /** Bounds on the number of participants still in the room */
+  minParticipants?: number;
+  maxParticipants?: number;
+}
+
+/**
+ * A page of rooms, newest first
+ */
+export interface RoomPage {
+  items: RoomDocument[];
+  hasMore: boolean;
+  nextCursor?: string;
+}
+
+/**
+ * A conversation restored from an export
+ */
+export interface ImportedRoomData {
+  roomId: string;
+  roomCode: string;
+  encrypted: boolean;
+  maxParticipants: number;
+  participants: Participant[];
+  createdAt: Date;
+  closedAt: Date;
+}
 
 /**
  * Room Repository Interface
@@ -28,7 +70,28 @@ export interface IRoomRepository {
   findUserRooms(userId: string): Promise<RoomDocument[]>;
   addParticipant(roomId: string, participant: Participant): Promise<RoomDocument | null>;
   updateParticipantStatus(roomId: string, userId: string, isActive: boolean): Promise<RoomDocument | null>;
+  removeAndBanParticipant(roomId: string, userId: string, sessionIds: string[]): Promise<RoomDocument | null>;
   closeRoom(roomId: string): Promise<RoomDocument | null>;
+  closeIfExpired(roomId: string, now: Date): Promise<RoomDocument | null>;
+  closeIfActive(roomId: string): Promise<RoomDocument | null>;
+  updateExpiry(roomId: string, expiresAt: Date): Promise<RoomDocument | null>;
+  addInvite(roomId: string, invite: RoomInvite): Promise<RoomDocument | null>;
+  redeemInvite(
+    roomId: string,
+    tokenHash: string,
+    now: Date,
+  ): Promise<RoomDocument | null>;
+  releaseInvite(roomId: string, tokenHash: string): Promise<void>;
+  setParticipantPublicKey(
+    roomId: string,
+    userId: string,
+    publicKey: string,
+  ): Promise<RoomDocument | null>;
+  listRooms(
+    filter: RoomListFilter,
+    limit: number,
+    before?: string,
+  ): Promise<RoomPage>;
   save(room: RoomDocument): Promise<RoomDocument>;
 }
 
@@ -54,12 +117,16 @@ export class RoomRepository implements IRoomRepository {
   ) {}
 
   /**
-   * Creates a new room with the initial participant
+   * Creates a new room with the creator as its host
    * 
    * @param {string} creatorId - UUID of the room creator
    * @param {string} displayName - Display name of the creator
    * @param {number} maxParticipants - Maximum number of participants (optional, default 10)
    * @param {number} expiresInHours - Hours until room expires (optional, default 24)
+   * @param {string | null} passphraseHash - Hashed room passphrase (optional)
+   * @param {string} roomCode - Pre-generated room code (optional; generated by the schema otherwise)
+   * @param {boolean} encrypted - Whether the room is end-to-end encrypted (optional)
+   * @param {object | null} messageTtl - Default lifetime for messages (optional)
    * @returns {Promise<RoomDocument>} The created room document
    * 
    * @example
@@ -70,6 +137,10 @@ export class RoomRepository implements IRoomRepository {
     displayName: string,
     maxParticipants: number = 10,
     expiresInHours: number = 24,
+    passphraseHash: string | null = null,
+    roomCode?: string,
+    encrypted: boolean = false,
+    messageTtl: { seconds: number; start: MessageTtlStart } | null = null,
   ): Promise<RoomDocument> {
     this.logger.debug(`Creating room for user: ${creatorId}`);
 
@@ -77,12 +148,20 @@ export class RoomRepository implements IRoomRepository {
     expiresAt.setHours(expiresAt.getHours() + expiresInHours);
 
     const room = new this.roomModel({
+      ...(roomCode && { roomCode }),
       maxParticipants,
       expiresAt,
+      passphraseHash,
+      encrypted,
+      ...(messageTtl && {
+        messageTtlSeconds: messageTtl.seconds,
+        messageTtlStart: messageTtl.start,
+      }),
       participants: [
         {
           userId: creatorId,
           displayName,
+          role: ParticipantRole.HOST,
           joinedAt: new Date(),
           isActive: true,
           leftAt: null,
@@ -96,6 +175,39 @@ export class RoomRepository implements IRoomRepository {
     return savedRoom;
   }
 
+  /**
+   * Creates a closed room for an imported conversation
+   *
+   * @description The room keeps the original creation and closing times
+   * and never expires.
+   *
+   * @param {ImportedRoomData} data - Restored room details
+   * @returns {Promise<RoomDocument>} Created room
+   */
+  async createImported(data: ImportedRoomData): Promise<RoomDocument> {
+    this.logger.debug(`Creating imported room: ${data.roomId}`);
+
+    const room = new this.roomModel({
+      _id: data.roomId,
+      roomCode: data.roomCode,
+      status: RoomStatus.CLOSED,
+      closedAt: data.closedAt,
+      expiresAt: null,
+      importedAt: new Date(),
+      encrypted: data.encrypted,
+      maxParticipants: data.maxParticipants,
+      participants: data.participants,
+      createdAt: data.createdAt,
+    });
+
+    const savedRoom = await room.save();
+    this.logger.log(
+      `Imported room created: ${savedRoom._id} with code: ${savedRoom.roomCode}`,
+    );
+
+    return savedRoom;
+  }
+
   /**
    * Finds a room by its UUID
    * 
@@ -111,7 +223,7 @@ export class RoomRepository implements IRoomRepository {
   /**
    * Finds a room by its room code (regardless of status)
    * 
-   * @param {string} roomCode - 6-character room code
+   * @param {string} roomCode - Room code
    * @returns {Promise<RoomDocument | null>} Room document or null if not found
    */
   async findByRoomCode(roomCode: string): Promise<RoomDocument | null> {
@@ -127,7 +239,7 @@ export class RoomRepository implements IRoomRepository {
   /**
    * Finds an active room by its room code
    * 
-   * @param {string} roomCode - 6-character room code
+   * @param {string} roomCode - Room code
    * @returns {Promise<RoomDocument | null>} Active room or null
    */
   async findActiveByRoomCode(roomCode: string): Promise<RoomDocument | null> {
@@ -173,9 +285,13 @@ export class RoomRepository implements IRoomRepository {
   /**
    * Adds a participant to a room
    * 
+   * @description The capacity and ban checks are part of the update
+   * filter, so concurrent joins can't push a room past maxParticipants or
+   * slip in while the user is being banned.
+   *
    * @param {string} roomId - Room UUID
    * @param {Participant} participant - Participant to add
-   * @returns {Promise<RoomDocument | null>} Updated room or null
+   * @returns {Promise<RoomDocument | null>} Updated room, or null if not found or full
    */
   async addParticipant(
     roomId: string,
@@ -186,7 +302,18 @@ export class RoomRepository implements IRoomRepository {
     // Use findOneAndUpdate with _id for string-based UUIDs
     return this.roomModel
       .findOneAndUpdate(
-        { _id: roomId },
+        {
+          _id: roomId,
+          'participants.userId': { $ne: participant.userId },
+          bannedUserIds: { $ne: participant.userId },
+          // Rooms without a stored capacity predate it and hold two
+          $expr: {
+            $lt: [
+              { $size: '$participants' },
+              { $ifNull: ['$maxParticipants', 2] },
+            ],
+          },
+        },
         {
           $push: { participants: participant },
         },
@@ -230,6 +357,152 @@ export class RoomRepository implements IRoomRepository {
       .exec();
   }
 
+  /**
+   * Stores a participant's public key for end-to-end encryption
+   *
+   * @param {string} roomId - Room UUID
+   * @param {string} userId - User UUID
+   * @param {string} publicKey - Public key (base64url)
+   * @returns {Promise<RoomDocument | null>} Updated room, or null if the user isn't in it
+   */
+  async setParticipantPublicKey(
+    roomId: string,
+    userId: string,
+    publicKey: string,
+  ): Promise<RoomDocument | null> {
+    this.logger.debug(`Storing public key for ${userId} in room ${roomId}`);
+
+    return this.roomModel
+      .findOneAndUpdate(
+        {
+          _id: roomId,
+          'participants.userId': userId,
+        },
+        { $set: { 'participants.$.publicKey': publicKey } },
+        { new: true },
+      )
+      .exec();
+  }
+
+  /**
+   * Removes a participant and bans them from rejoining
+   *
+   * @description Removing the participant (rather than deactivating them)
+   * frees their seat for someone else.
+   *
+   * @param {string} roomId - Room UUID
+   * @param {string} userId - User to remove
+   * @param {string[]} sessionIds - Sessions belonging to the user
+   * @returns {Promise<RoomDocument | null>} Updated room, or null if the user wasn't in it
+   */
+  async removeAndBanParticipant(
+    roomId: string,
+    userId: string,
+    sessionIds: string[],
+  ): Promise<RoomDocument | null> {
+    this.logger.debug(
+      `Removing and banning participant ${userId} from room ${roomId}`,
+    );
+
+    return this.roomModel
+      .findOneAndUpdate(
+        {
+          _id: roomId,
+          'participants.userId': userId,
+        },
+        {
+          $pull: { participants: { userId } },
+          $addToSet: {
+            bannedUserIds: userId,
+            bannedSessionIds: { $each: sessionIds },
+          },
+        },
+        { new: true },
+      )
+      .exec();
+  }
+
+  /**
+   * Anonymizes a user in every room they took part in
+   *
+   * @description Their participant entries stay, so read cursors and
+   * message senders still line up, but lose their display name and public
+   * key. Participants still in a room are marked as having left it.
+   *
+   * @param {string} userId - User to anonymize
+   * @param {string} displayName - Name shown in place of theirs
+   * @returns {Promise<RoomDocument[]>} Updated rooms
+   */
+  async anonymizeParticipant(
+    userId: string,
+    displayName: string,
+  ): Promise<RoomDocument[]> {
+    this.logger.debug(`Anonymizing participant ${userId} in every room`);
+
+    await this.roomModel
+      .updateMany(
+        { 'participants.userId': userId },
+        {
+          $set: {
+            'participants.$[erased].displayName': displayName,
+            'participants.$[erased].publicKey': null,
+            'participants.$[active].isActive': false,
+            'participants.$[active].leftAt': new Date(),
+          },
+        },
+        {
+          arrayFilters: [
+            { 'erased.userId': userId },
+            { 'active.userId': userId, 'active.isActive': true },
+          ],
+        },
+      )
+      .exec();
+
+    return this.roomModel.find({ 'participants.userId': userId }).exec();
+  }
+
+  /**
+   * Advances a participant's read cursor
+   *
+   * @description Only moves the cursor forward. UUID v7 message IDs are
+   * time-ordered, so a plain string comparison tells which one is newer.
+   *
+   * @param {string} roomId - Room UUID
+   * @param {string} userId - User UUID
+   * @param {string} messageId - Newest message the user has read
+   * @returns {Promise<RoomDocument | null>} Updated room, or null if the cursor didn't move
+   */
+  async updateReadCursor(
+    roomId: string,
+    userId: string,
+    messageId: string,
+  ): Promise<RoomDocument | null> {
+    return this.roomModel
+      .findOneAndUpdate(
+        {
+          _id: roomId,
+          participants: {
+            $elemMatch: {
+              userId,
+              $or: [
+                { lastReadMessageId: null },
+                { lastReadMessageId: { $lt: messageId } },
+              ],
+            },
+          },
+        },
+        {
+          $set: {
+            'participants.$.lastReadMessageId': messageId,
+            'participants.$.lastReadAt': new Date(),
+          },
+        },
+        { new: true },
+      )
+      .exec();
+  }
+
   /**
    * Closes a room and marks it as inactive
    * 
@@ -252,6 +525,145 @@ export class RoomRepository implements IRoomRepository {
       .exec();
   }
 
+  /**
+   * Closes a room only if it is still active and past its expiry
+   *
+   * @description Expiry checks live in the filter so a close job that
+   * races an extension leaves the room open.
+   *
+   * @param {string} roomId - Room UUID
+   * @param {Date} now - Time to compare expiry against
+   * @returns {Promise<RoomDocument | null>} Closed room, or null if not due or already closed
+   */
+  async closeIfExpired(
+    roomId: string,
+    now: Date,
+  ): Promise<RoomDocument | null> {
+    return this.roomModel
+      .findOneAndUpdate(
+        {
+          _id: roomId,
+          status: RoomStatus.ACTIVE,
+          expiresAt: { $ne: null, $lte: now },
+        },
+        {
+          status: RoomStatus.CLOSED,
+          closedAt: now,
+        },
+        { new: true },
+      )
+      .exec();
+  }
+
+  /**
+   * Closes a room only if it is still active
+   *
+   * @param {string} roomId - Room UUID
+   * @returns {Promise<RoomDocument | null>} Closed room, or null if not found or already closed
+   */
+  async closeIfActive(roomId: string): Promise<RoomDocument | null> {
+    return this.roomModel
+      .findOneAndUpdate(
+        { _id: roomId, status: RoomStatus.ACTIVE },
+        {
+          status: RoomStatus.CLOSED,
+          closedAt: new Date(),
+        },
+        { new: true },
+      )
+      .exec();
+  }
+
+  /**
+   * Sets when an active room expires
+   *
+   * @param {string} roomId - Room UUID
+   * @param {Date} expiresAt - New expiry time
+   * @returns {Promise<RoomDocument | null>} Updated room, or null if not found or closed
+   */
+  async updateExpiry(
+    roomId: string,
+    expiresAt: Date,
+  ): Promise<RoomDocument | null> {
+    return this.roomModel
+      .findOneAndUpdate(
+        { _id: roomId, status: RoomStatus.ACTIVE },
+        { $set: { expiresAt } },
+        { new: true },
+      )
+      .exec();
+  }
+
+  /**
+   * Adds an invite to an active room
+   *
+   * @param {string} roomId - Room UUID
+   * @param {RoomInvite} invite - Invite to add
+   * @returns {Promise<RoomDocument | null>} Updated room, or null if not found or closed
+   */
+  async addInvite(
+    roomId: string,
+    invite: RoomInvite,
+  ): Promise<RoomDocument | null> {
+    return this.roomModel
+      .findOneAndUpdate(
+        { _id: roomId, status: RoomStatus.ACTIVE },
+        { $push: { invites: invite } },
+        { new: true },
+      )
+      .exec();
+  }
+
+  /**
+   * Uses up one use of an invite
+   *
+   * @description The expiry and remaining-use checks are part of the
+   * update filter, so concurrent joins can't overspend an invite.
+   *
+   * @param {string} roomId - Room UUID
+   * @param {string} tokenHash - Hash of the invite token
+   * @param {Date} now - Current time
+   * @returns {Promise<RoomDocument | null>} Updated room, or null if the invite is unknown, used up or expired
+   */
+  async redeemInvite(
+    roomId: string,
+    tokenHash: string,
+    now: Date,
+  ): Promise<RoomDocument | null> {
+    return this.roomModel
+      .findOneAndUpdate(
+        {
+          _id: roomId,
+          status: RoomStatus.ACTIVE,
+          invites: {
+            $elemMatch: {
+              tokenHash,
+              remainingUses: { $gt: 0 },
+              expiresAt: { $gt: now },
+            },
+          },
+        },
+        { $inc: { 'invites.$.remainingUses': -1 } },
+        { new: true },
+      )
+      .exec();
+  }
+
+  /**
+   * Gives back a use of an invite whose join didn't go through
+   *
+   * @param {string} roomId - Room UUID
+   * @param {string} tokenHash - Hash of the invite token
+   */
+  async releaseInvite(roomId: string, tokenHash: string): Promise<void> {
+    await this.roomModel
+      .updateOne(
+        { _id: roomId, 'invites.tokenHash': tokenHash },
+        { $inc: { 'invites.$.remainingUses': 1 } },
+      )
+      .exec();
+  }
+
   /**
    * Saves a room document (for complex updates)
    * 
@@ -275,6 +687,76 @@ export class RoomRepository implements IRoomRepository {
     return count > 0;
   }
 
+  /**
+   * Lists rooms matching a filter, newest first
+   *
+   * @description Room IDs are UUID v7, so the last ID on a page is the
+   * cursor for the next one. The participant count only includes
+   * participants still in the room.
+   *
+   * @param {RoomListFilter} filter - Status, creation range and participant count
+   * @param {number} limit - Maximum rooms to return
+   * @param {string} [before] - Cursor: only rooms older than this room ID
+   * @returns {Promise<RoomPage>} Page of rooms
+   */
+  async listRooms(
+    filter: RoomListFilter,
+    limit: number,
+    before?: string,
+  ): Promise<RoomPage> {
+    const query: Record<string, unknown> = {};
+
+    if (filter.status) {
+      query.status = filter.status;
+    }
+    if (filter.createdAfter || filter.createdBefore) {
+      query.createdAt = {
+        ...(filter.createdAfter && { $gte: filter.createdAfter }),
+        ...(filter.createdBefore && { $lte: filter.createdBefore }),
+      };
+    }
+    if (before) {
+      query._id = { $lt: before };
+    }
+
+    const activeCount = {
+      $size: {
+        $filter: {
+          input: '$participants',
+          cond: { $eq: ['$$this.isActive', true] },
+        },
+      },
+    };
+    const bounds: Record<string, unknown>[] = [];
+    if (filter.minParticipants !== undefined) {
+      bounds.push({ $gte: [activeCount, filter.minParticipants] });
+    }
+    if (filter.maxParticipants !== undefined) {
+      bounds.push({ $lte: [activeCount, filter.maxParticipants] });
+    }
+    if (bounds.length > 0) {
+      query.$expr = { $and: bounds };
+    }
+
+    // Fetch one extra to check if there are more
+    const rooms = await this.roomModel
+      .find(query)
+      .sort({ _id: -1 })
+      .limit(limit + 1)
+      .exec();
+
+    const hasMore = rooms.length > limit;
+    if (hasMore) {
+      rooms.pop();
+    }
+
+    return {
+      items: rooms,
+      hasMore,
+      nextCursor: hasMore ? rooms[rooms.length - 1]._id : undefined,
+    };
+  }
+
   /**
    * Gets the count of active rooms
    * 
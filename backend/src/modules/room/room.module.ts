@@ -6,11 +6,13 @@
 
 import { Module, forwardRef } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
+import { BullModule } from '@nestjs/bullmq';
 import { Room, RoomSchema } from './schemas/room.schema';
 import { RoomRepository } from './repositories/room.repository';
 import { RoomService } from './services/room.service';
 import { RoomController } from './controllers/room.controller';
 import { SessionModule } from '../session/session.module';
+import { ChatGatewayModule } from '../../gateways/chat-gateway.module';
 
 /**
  * Room Module
@@ -20,14 +22,20 @@ import { SessionModule } from '../session/session.module';
  * - Repository for data access
  * - Service for business logic
  * - Controller for API endpoints
+ * - BullMQ queue for scheduled room expiry
  * - Integration with SessionModule for history tracking
+ * - ChatGateway for disconnecting participants removed over REST
  */
 @Module({
   imports: [
     MongooseModule.forFeature([
       { name: Room.name, schema: RoomSchema },
     ]),
+    BullModule.registerQueue({
+      name: 'room-lifecycle',
+    }),
     forwardRef(() => SessionModule),
+    forwardRef(() => ChatGatewayModule),
   ],
   controllers: [RoomController],
   providers: [RoomRepository, RoomService],
@@ -6,7 +6,17 @@
 
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, Types } from 'mongoose';
-import { generateId, generateRoomCode } from '@/common/utils/uuid.util';
+import { generateId } from '../../../common/utils/uuid.util';
+import { generateRoomCode } from '../../../common/utils/room-code.util';
+import { MessageTtlStart } from '../../message/schemas/message.schema';
+
+/**
+ * Participant role enumeration
+ */
+export enum ParticipantRole {
+  HOST = 'host',
+  MEMBER = 'member',
+}
 
 /**
  * Room participant subdocument
@@ -21,6 +31,14 @@ export class Participant {
   @Prop({ required: true })
   displayName: string;
 
+  /** The room creator is the host and can remove other participants */
+  @Prop({
+    type: String,
+    enum: ParticipantRole,
+    default: ParticipantRole.MEMBER,
+  })
+  role?: ParticipantRole;
+
   @Prop({ default: Date.now })
   joinedAt: Date;
 
@@ -29,10 +47,51 @@ export class Participant {
 
   @Prop({ type: Date, default: null })
   leftAt: Date | null;
+
+  /** Read cursor: newest message this participant has seen */
+  @Prop({ type: String, default: null })
+  lastReadMessageId?: string | null;
+
+  @Prop({ type: Date, default: null })
+  lastReadAt?: Date | null;
+
+  /** ECDH public key shared for end-to-end encryption (base64url) */
+  @Prop({ type: String, default: null })
+  publicKey?: string | null;
 }
 
 export const ParticipantSchema = SchemaFactory.createForClass(Participant);
 
+/**
+ * Room invite subdocument
+ *
+ * @description A token that lets its holder into a passphrase-protected
+ * room. Only a hash of the token is stored; the token itself is returned
+ * once, when the host creates it.
+ */
+@Schema({ _id: false })
+export class RoomInvite {
+  @Prop({ required: true })
+  tokenHash: string;
+
+  @Prop({ required: true })
+  createdBy: string;
+
+  @Prop({ required: true })
+  maxUses: number;
+
+  @Prop({ required: true })
+  remainingUses: number;
+
+  @Prop({ type: Date, required: true })
+  expiresAt: Date;
+
+  @Prop({ default: Date.now })
+  createdAt: Date;
+}
+
+export const RoomInviteSchema = SchemaFactory.createForClass(RoomInvite);
+
 /**
  * Room status enumeration
  */
@@ -46,9 +105,14 @@ export enum RoomStatus {
  * 
  * @description Represents a chat room with the following features:
  * - UUID v7 for time-sortable distributed IDs
- * - 6-character room code for easy sharing
- * - Maximum 2 participants per room
+ * - Short room code for easy sharing (random or word-based, unique)
+ * - Configurable capacity (2-100 participants)
  * - Status tracking (active/closed)
+ * - Scheduled expiry (closed by the room-lifecycle queue)
+ * - Host moderation (kicked users are banned from rejoining)
+ * - Optional passphrase protection with expiring, limited-use invites
+ * - Optional end-to-end encryption (two participants, ciphertext only)
+ * - Optional default lifetime for disappearing messages
  * 
  * Indexes:
  * - roomCode: unique index for room lookup
@@ -89,6 +153,14 @@ export class Room {
   @Prop({ type: [ParticipantSchema], default: [] })
   participants: Participant[];
 
+  /**
+   * Maximum number of participants. Participants who left keep their seat
+   * so they can rejoin. Rooms created before capacity was configurable
+   * were two-person rooms, hence the default.
+   */
+  @Prop({ type: Number, default: 2, min: 2, max: 100 })
+  maxParticipants: number;
+
   @Prop({
     type: String,
     enum: RoomStatus,
@@ -100,6 +172,62 @@ export class Room {
   @Prop({ type: Date, default: null })
   closedAt: Date | null;
 
+  /**
+   * When the room closes on its own. Rooms created before expiry was
+   * persisted have none and stay open until everyone leaves.
+   */
+  @Prop({ type: Date, default: null })
+  expiresAt: Date | null;
+
+  /**
+   * When the room was restored from an export. Imported rooms are closed
+   * and read-only.
+   */
+  @Prop({ type: Date, default: null })
+  importedAt: Date | null;
+
+  /**
+   * Users and sessions removed by the host. Both are kept because a
+   * session can be issued a new user ID once its cached mapping expires.
+   */
+  @Prop({ type: [String], default: [] })
+  bannedUserIds: string[];
+
+  @Prop({ type: [String], default: [] })
+  bannedSessionIds: string[];
+
+  /**
+   * scrypt hash of the room passphrase. When set, newcomers need the
+   * passphrase or an invite; existing participants can always rejoin.
+   */
+  @Prop({ type: String, default: null })
+  passphraseHash: string | null;
+
+  @Prop({ type: [RoomInviteSchema], default: [] })
+  invites: RoomInvite[];
+
+  /**
+   * End-to-end encrypted rooms only ever store ciphertext. Participants
+   * exchange public keys through the gateway and derive the message key
+   * themselves, so these rooms are limited to two people.
+   */
+  @Prop({ type: Boolean, default: false })
+  encrypted: boolean;
+
+  /**
+   * Default lifetime for messages sent in the room (null keeps them).
+   * Senders can still choose their own lifetime per message.
+   */
+  @Prop({ type: Number, default: null })
+  messageTtlSeconds: number | null;
+
+  @Prop({
+    type: String,
+    enum: MessageTtlStart,
+    default: MessageTtlStart.SENT,
+  })
+  messageTtlStart: MessageTtlStart;
+
   // Timestamps added by Mongoose
   createdAt: Date;
   updatedAt: Date;
@@ -121,9 +249,9 @@ RoomSchema.index({ 'participants.userId': 1, status: 1 });
 // Index for room code lookups with status filter
 RoomSchema.index({ roomCode: 1, status: 1 });
 
-// Virtual property: Check if room is full (2 participants)
+// Virtual property: Check if room has reached its capacity
 RoomSchema.virtual('isFull').get(function (this: RoomDocument) {
-  return this.participants.length >= 2;
+  return this.participants.length >= this.maxParticipants;
 });
 
 // Virtual property: Get count of active participants
@@ -149,9 +277,10 @@ RoomSchema.methods.getParticipant = function (
 
 /**
  * Instance method: Check if room should be closed
- * (when both participants have left)
+ * (when every participant has left)
  */
 RoomSchema.methods.shouldClose = function (this: RoomDocument): boolean {
-  const activeCount = this.participants.filter((p) => p.isActive).length;
-  return activeCount === 0 && this.participants.length === 2;
+  return (
+    this.participants.length > 0 && this.participants.every((p) => !p.isActive)
+  );
 };
@@ -4,23 +4,73 @@
  */
 
 import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getQueueToken } from '@nestjs/bullmq';
 import { RoomService } from './room.service';
 import { RoomRepository } from '../repositories/room.repository';
 import { SessionService } from '../../session/services/session.service';
 import { REDIS_CLIENT } from '../../../config/redis.module';
-import { RoomStatus } from '../schemas/room.schema';
+import { RoomStatus, ParticipantRole } from '../schemas/room.schema';
+import { MessageTtlStart } from '../../message/schemas/message.schema';
 import {
   RoomNotFoundException,
   RoomFullException,
   RoomClosedException,
+  RoomExpiryLimitException,
+  RoomCodeUnavailableException,
+  ParticipantBannedException,
+  RoomAccessDeniedException,
+  TooManyJoinAttemptsException,
+  InvalidRoomSettingsException,
+  InvalidEncryptionPayloadException,
+  UnauthorizedActionException,
   UserNotInRoomException,
 } from '../../../common/exceptions/business.exceptions';
+import { hashPassphrase } from '../../../common/utils/secret.util';
 
 describe('RoomService', () => {
   let service: RoomService;
-  let roomRepository: jest.Mocked<RoomRepository>;
-  let sessionService: jest.Mocked<SessionService>;
-  let redisClient: jest.Mocked<any>;
+  let roomRepository: {
+    create: jest.Mock;
+    findByRoomCode: jest.Mock;
+    findById: jest.Mock;
+    addParticipant: jest.Mock;
+    updateParticipantStatus: jest.Mock;
+    updateStatus: jest.Mock;
+    closeRoom: jest.Mock;
+    closeIfExpired: jest.Mock;
+    updateExpiry: jest.Mock;
+    removeAndBanParticipant: jest.Mock;
+    addInvite: jest.Mock;
+    redeemInvite: jest.Mock;
+    releaseInvite: jest.Mock;
+    roomCodeExists: jest.Mock;
+    setParticipantPublicKey: jest.Mock;
+  };
+  let sessionService: {
+    getOrCreateUserId: jest.Mock;
+    getUserDisplayName: jest.Mock;
+    addToHistory: jest.Mock;
+    getUserId: jest.Mock;
+    getSessionIdsForUser: jest.Mock;
+  };
+  let redisClient: {
+    multi: jest.Mock;
+    get: jest.Mock;
+    set: jest.Mock;
+    setex: jest.Mock;
+    del: jest.Mock;
+    sadd: jest.Mock;
+  };
+  let roomLifecycleQueue: { add: jest.Mock; getJob: jest.Mock };
+  let redisTransaction: {
+    incr: jest.Mock;
+    expire: jest.Mock;
+    ttl: jest.Mock;
+    del: jest.Mock;
+    decr: jest.Mock;
+    exec: jest.Mock;
+  };
 
   const mockRoom = {
     _id: 'room-id-123',
@@ -37,15 +87,20 @@ describe('RoomService', () => {
       },
     ],
     maxParticipants: 2,
+    expiresAt: new Date(Date.now() + 24 * 3600 * 1000),
     createdAt: new Date(),
     updatedAt: new Date(),
+
+    toJSON() {
+      return this;
+    },
   };
 
   const mockSessionId = 'session-123';
   const mockUserId = 'user-1';
 
   beforeEach(async () => {
-    const mockRoomRepository = {
+    roomRepository = {
       create: jest.fn(),
       findByRoomCode: jest.fn(),
       findById: jest.fn(),
@@ -53,16 +108,42 @@ describe('RoomService', () => {
       updateParticipantStatus: jest.fn(),
       updateStatus: jest.fn(),
       closeRoom: jest.fn(),
+      closeIfExpired: jest.fn(),
+      updateExpiry: jest.fn(),
+      removeAndBanParticipant: jest.fn(),
+      addInvite: jest.fn(),
+      redeemInvite: jest.fn(),
+      releaseInvite: jest.fn(),
+      roomCodeExists: jest.fn().mockResolvedValue(false),
+      setParticipantPublicKey: jest.fn(),
     };
 
-    const mockSessionService = {
+    sessionService = {
       getOrCreateUserId: jest.fn().mockResolvedValue(mockUserId),
       getUserDisplayName: jest.fn().mockResolvedValue('User One'),
       addToHistory: jest.fn().mockResolvedValue(undefined),
       getUserId: jest.fn().mockResolvedValue(mockUserId),
+      getSessionIdsForUser: jest.fn().mockResolvedValue(['session-456']),
     };
 
-    const mockRedisClient = {
+    redisTransaction = {
+      incr: jest.fn().mockReturnThis(),
+      expire: jest.fn().mockReturnThis(),
+      ttl: jest.fn().mockReturnThis(),
+      del: jest.fn().mockReturnThis(),
+      decr: jest.fn().mockReturnThis(),
+      exec: jest.fn().mockResolvedValue([
+        [null, 1],
+        [null, 1],
+        [null, 900],
+        [null, 1],
+        [null, 1],
+        [null, 900],
+      ]),
+    };
+
+    redisClient = {
+      multi: jest.fn(() => redisTransaction),
       get: jest.fn().mockResolvedValue(null),
       set: jest.fn().mockResolvedValue('OK'),
       setex: jest.fn().mockResolvedValue('OK'),
@@ -70,19 +151,31 @@ describe('RoomService', () => {
       sadd: jest.fn().mockResolvedValue(1),
     };
 
+    roomLifecycleQueue = {
+      add: jest.fn().mockResolvedValue({}),
+      getJob: jest.fn().mockResolvedValue(null),
+    };
+
+    const mockConfigService = {
+      get: jest.fn((_key: string, defaultValue?: unknown) => defaultValue),
+    };
+
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         RoomService,
-        { provide: RoomRepository, useValue: mockRoomRepository },
-        { provide: SessionService, useValue: mockSessionService },
-        { provide: REDIS_CLIENT, useValue: mockRedisClient },
+        { provide: RoomRepository, useValue: roomRepository },
+        { provide: SessionService, useValue: sessionService },
+        { provide: REDIS_CLIENT, useValue: redisClient },
+        {
+          provide: getQueueToken('room-lifecycle'),
+          useValue: roomLifecycleQueue,
+        },
+        { provide: ConfigService, useValue: mockConfigService },
       ],
     }).compile();
 
     service = module.get<RoomService>(RoomService);
-    roomRepository = module.get(RoomRepository);
-    sessionService = module.get(SessionService);
-    redisClient = module.get(REDIS_CLIENT);
+    service.onModuleInit();
   });
 
   afterEach(() => {
@@ -103,6 +196,10 @@ describe('RoomService', () => {
         'Test User',
         10,
         24,
+        null,
+        expect.any(String),
+        false,
+        null,
       );
       expect(sessionService.addToHistory).toHaveBeenCalled();
     });
@@ -122,9 +219,140 @@ describe('RoomService', () => {
         'Test User',
         5,
         48,
+        null,
+        expect.any(String),
+        false,
+        null,
       );
     });
 
+    it('should store a hash of the passphrase, not the passphrase', async () => {
+      const createDto = { displayName: 'Test User', passphrase: 'open sesame' };
+      roomRepository.create.mockResolvedValue({
+        ...mockRoom,
+        toJSON: () => ({}),
+      } as any);
+
+      await service.createRoom(mockSessionId, createDto);
+
+      const passphraseHash = roomRepository.create.mock.calls[0][4] as string;
+      expect(passphraseHash).toMatch(/^scrypt\$/);
+      expect(passphraseHash).not.toContain('open sesame');
+    });
+
+    it('should pick another code when the generated one is taken', async () => {
+      roomRepository.roomCodeExists
+        .mockResolvedValueOnce(true)
+        .mockResolvedValueOnce(false);
+      roomRepository.create.mockResolvedValue({
+        ...mockRoom,
+        toJSON: () => ({}),
+      } as any);
+
+      await service.createRoom(mockSessionId, { displayName: 'Test User' });
+
+      expect(roomRepository.roomCodeExists).toHaveBeenCalledTimes(2);
+      const [takenCode] = roomRepository.roomCodeExists.mock.calls[0];
+      const [usedCode] = roomRepository.roomCodeExists.mock.calls[1];
+      expect(roomRepository.create).toHaveBeenCalledTimes(1);
+      expect(roomRepository.create.mock.calls[0][5] as string).toBe(usedCode);
+      expect(usedCode).not.toBe(takenCode);
+    });
+
+    it('should retry when another room claims the code during insert', async () => {
+      const createdRoom = { ...mockRoom, toJSON: () => ({}) };
+      roomRepository.create
+        .mockRejectedValueOnce({ code: 11000, keyPattern: { roomCode: 1 } })
+        .mockResolvedValueOnce(createdRoom as any);
+
+      const result = await service.createRoom(mockSessionId, {
+        displayName: 'Test User',
+      });
+
+      expect(result).toBe(createdRoom);
+      expect(roomRepository.create).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not retry other insert errors', async () => {
+      roomRepository.create.mockRejectedValue(new Error('connection lost'));
+
+      await expect(
+        service.createRoom(mockSessionId, { displayName: 'Test User' }),
+      ).rejects.toThrow('connection lost');
+      expect(roomRepository.create).toHaveBeenCalledTimes(1);
+    });
+
+    it('should give up when every generated code is taken', async () => {
+      roomRepository.roomCodeExists.mockResolvedValue(true);
+
+      await expect(
+        service.createRoom(mockSessionId, { displayName: 'Test User' }),
+      ).rejects.toThrow(RoomCodeUnavailableException);
+      expect(roomRepository.roomCodeExists).toHaveBeenCalledTimes(5);
+      expect(roomRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should create end-to-end encrypted rooms for two people', async () => {
+      redisClient.get.mockResolvedValue(mockUserId);
+      roomRepository.create.mockResolvedValue({
+        ...mockRoom,
+        encrypted: true,
+        toJSON: () => ({}),
+      } as any);
+
+      await service.createRoom(mockSessionId, {
+        displayName: 'Test User',
+        encrypted: true,
+      });
+
+      expect(roomRepository.create).toHaveBeenCalledWith(
+        mockUserId,
+        'Test User',
+        2,
+        24,
+        null,
+        expect.any(String),
+        true,
+        null,
+      );
+    });
+
+    it('should store a default lifetime for messages', async () => {
+      redisClient.get.mockResolvedValue(mockUserId);
+      roomRepository.create.mockResolvedValue({
+        ...mockRoom,
+        toJSON: () => ({}),
+      } as any);
+
+      await service.createRoom(mockSessionId, {
+        displayName: 'Test User',
+        messageTtlSeconds: 3600,
+        messageTtlStart: MessageTtlStart.READ,
+      });
+
+      expect(roomRepository.create).toHaveBeenCalledWith(
+        mockUserId,
+        'Test User',
+        10,
+        24,
+        null,
+        expect.any(String),
+        false,
+        { seconds: 3600, start: MessageTtlStart.READ },
+      );
+    });
+
+    it('should reject end-to-end encrypted rooms for more than two people', async () => {
+      await expect(
+        service.createRoom(mockSessionId, {
+          displayName: 'Test User',
+          encrypted: true,
+          maxParticipants: 5,
+        }),
+      ).rejects.toThrow(InvalidRoomSettingsException);
+      expect(roomRepository.create).not.toHaveBeenCalled();
+    });
+
     it('should cache the room after creation', async () => {
       const createDto = { displayName: 'Test User' };
       roomRepository.create.mockResolvedValue(mockRoom as any);
@@ -133,6 +361,21 @@ describe('RoomService', () => {
 
       expect(redisClient.setex).toHaveBeenCalled();
     });
+
+    it('should schedule a close job at the room expiry', async () => {
+      roomRepository.create.mockResolvedValue(mockRoom as any);
+
+      await service.createRoom(mockSessionId, { displayName: 'Test User' });
+
+      expect(roomLifecycleQueue.add).toHaveBeenCalledWith(
+        'close-room',
+        { roomId: 'room-id-123', roomCode: 'ABC123', reason: 'Room expired' },
+        expect.objectContaining({
+          jobId: `close-room-room-id-123-${mockRoom.expiresAt.getTime()}`,
+          delay: expect.any(Number),
+        }),
+      );
+    });
   });
 
   describe('joinRoom', () => {
@@ -176,6 +419,48 @@ describe('RoomService', () => {
       );
     });
 
+    it('should throw RoomClosedException for an expired room not yet closed', async () => {
+      const joinDto = { roomCode: 'ABC123', displayName: 'User Two' };
+      roomRepository.findByRoomCode.mockResolvedValue({
+        ...mockRoom,
+        expiresAt: new Date(Date.now() - 1000),
+      } as any);
+
+      await expect(service.joinRoom(mockSessionId, joinDto)).rejects.toThrow(
+        RoomClosedException,
+      );
+    });
+
+    it('should throw ParticipantBannedException for a banned user', async () => {
+      const joinDto = { roomCode: 'ABC123', displayName: 'User Two' };
+      redisClient.get.mockImplementation((key: string) =>
+        Promise.resolve(key.endsWith(':userId') ? 'user-2' : null),
+      );
+      roomRepository.findByRoomCode.mockResolvedValue({
+        ...mockRoom,
+        bannedUserIds: ['user-2'],
+        bannedSessionIds: [],
+      } as any);
+
+      await expect(service.joinRoom(mockSessionId, joinDto)).rejects.toThrow(
+        ParticipantBannedException,
+      );
+      expect(roomRepository.addParticipant).not.toHaveBeenCalled();
+    });
+
+    it('should throw ParticipantBannedException for a banned session with a new user ID', async () => {
+      const joinDto = { roomCode: 'ABC123', displayName: 'User Two' };
+      roomRepository.findByRoomCode.mockResolvedValue({
+        ...mockRoom,
+        bannedUserIds: ['user-2'],
+        bannedSessionIds: [mockSessionId],
+      } as any);
+
+      await expect(service.joinRoom(mockSessionId, joinDto)).rejects.toThrow(
+        ParticipantBannedException,
+      );
+    });
+
     it('should throw RoomFullException when room has max participants', async () => {
       const joinDto = { roomCode: 'ABC123', displayName: 'User Three' };
       const newUserId = 'user-3';
@@ -193,6 +478,36 @@ describe('RoomService', () => {
       );
     });
 
+    it('should admit participants up to the room capacity', async () => {
+      const joinDto = { roomCode: 'ABC123', displayName: 'User Three' };
+      sessionService.getOrCreateUserId = jest.fn().mockResolvedValue('user-3');
+      const groupRoom = {
+        ...mockRoom,
+        maxParticipants: 5,
+        participants: [
+          { userId: 'user-1', displayName: 'User One', isActive: true },
+          { userId: 'user-2', displayName: 'User Two', isActive: true },
+        ],
+      };
+      roomRepository.findByRoomCode.mockResolvedValue(groupRoom as any);
+      roomRepository.addParticipant.mockResolvedValue(groupRoom as any);
+
+      await service.joinRoom(mockSessionId, joinDto);
+
+      expect(roomRepository.addParticipant).toHaveBeenCalled();
+    });
+
+    it('should throw RoomFullException if the last seat is taken concurrently', async () => {
+      const joinDto = { roomCode: 'ABC123', displayName: 'User Two' };
+      sessionService.getOrCreateUserId = jest.fn().mockResolvedValue('user-2');
+      roomRepository.findByRoomCode.mockResolvedValue(mockRoom as any);
+      roomRepository.addParticipant.mockResolvedValue(null);
+
+      await expect(service.joinRoom(mockSessionId, joinDto)).rejects.toThrow(
+        RoomFullException,
+      );
+    });
+
     it('should reactivate existing inactive participant', async () => {
       const joinDto = { roomCode: 'ABC123', displayName: 'User One' };
       roomRepository.findByRoomCode.mockResolvedValue({
@@ -222,6 +537,10 @@ describe('RoomService', () => {
           { ...mockRoom.participants[0], isActive: false, leftAt: new Date() },
         ],
       } as any);
+      roomRepository.closeRoom.mockResolvedValue({
+        ...mockRoom,
+        status: RoomStatus.CLOSED,
+      } as any);
 
       const result = await service.leaveRoom(mockSessionId, 'room-id-123');
 
@@ -243,7 +562,7 @@ describe('RoomService', () => {
 
     it('should throw UserNotInRoomException if user is not a participant', async () => {
       const differentUserId = 'different-user';
-      sessionService.getUserId = jest.fn().mockResolvedValue(differentUserId);
+      sessionService.getOrCreateUserId.mockResolvedValue(differentUserId);
       roomRepository.findById.mockResolvedValue(mockRoom as any);
 
       await expect(
@@ -264,17 +583,39 @@ describe('RoomService', () => {
           { userId: mockUserId, displayName: 'User One', isActive: false },
         ],
       } as any);
-      roomRepository.updateStatus.mockResolvedValue({
+      roomRepository.closeRoom.mockResolvedValue({
         ...mockRoom,
         status: RoomStatus.CLOSED,
       } as any);
 
       await service.leaveRoom(mockSessionId, 'room-id-123');
 
-      expect(roomRepository.updateStatus).toHaveBeenCalledWith(
-        'room-id-123',
-        RoomStatus.CLOSED,
-      );
+      expect(roomRepository.closeRoom).toHaveBeenCalledWith('room-id-123');
+    });
+
+    it('should keep a group room open while anyone is still active', async () => {
+      const groupParticipants = [
+        { userId: mockUserId, displayName: 'User One', isActive: true },
+        { userId: 'user-2', displayName: 'User Two', isActive: false },
+        { userId: 'user-3', displayName: 'User Three', isActive: true },
+      ];
+      roomRepository.findById.mockResolvedValue({
+        ...mockRoom,
+        maxParticipants: 5,
+        participants: groupParticipants,
+      } as any);
+      roomRepository.updateParticipantStatus.mockResolvedValue({
+        ...mockRoom,
+        maxParticipants: 5,
+        participants: groupParticipants.map((p) =>
+          p.userId === mockUserId ? { ...p, isActive: false } : p,
+        ),
+        toJSON: () => ({}),
+      } as any);
+
+      await service.leaveRoom(mockSessionId, 'room-id-123');
+
+      expect(roomRepository.closeRoom).not.toHaveBeenCalled();
     });
   });
 
@@ -322,37 +663,470 @@ describe('RoomService', () => {
       expect(roomRepository.closeRoom).toHaveBeenCalledWith('room-id-123');
     });
 
-    it('should throw UserNotInRoomException if user is not a participant', async () => {
-      sessionService.getUserId = jest.fn().mockResolvedValue('different-user');
+    it('should not reveal the room to non-participants', async () => {
+      sessionService.getOrCreateUserId.mockResolvedValue('different-user');
       roomRepository.findById.mockResolvedValue(mockRoom as any);
 
       await expect(
         service.closeRoom(mockSessionId, 'room-id-123'),
+      ).rejects.toThrow(RoomNotFoundException);
+    });
+  });
+
+  describe('protected rooms', () => {
+    const joinDto = { roomCode: 'ABC123', displayName: 'User Two' };
+    const attemptsKey = `room:code:ABC123:join-attempts:${mockSessionId}`;
+    const codeAttemptsKey = 'room:code:ABC123:join-attempts';
+    let protectedRoom: any;
+
+    beforeAll(async () => {
+      protectedRoom = {
+        ...mockRoom,
+        maxParticipants: 5,
+        passphraseHash: await hashPassphrase('open sesame'),
+      };
+    });
+
+    beforeEach(() => {
+      redisClient.get.mockImplementation((key: string) =>
+        Promise.resolve(key.endsWith(':userId') ? 'user-2' : null),
+      );
+      roomRepository.findByRoomCode.mockResolvedValue(protectedRoom);
+      roomRepository.addParticipant.mockResolvedValue({
+        ...protectedRoom,
+        toJSON: () => ({}),
+      });
+    });
+
+    it('should join with the correct passphrase', async () => {
+      await service.joinRoom(mockSessionId, {
+        ...joinDto,
+        passphrase: 'open sesame',
+      });
+
+      expect(roomRepository.addParticipant).toHaveBeenCalled();
+      expect(redisTransaction.del).toHaveBeenCalledWith(attemptsKey);
+      expect(redisTransaction.decr).toHaveBeenCalledWith(codeAttemptsKey);
+    });
+
+    it('should count the attempt before checking the passphrase', async () => {
+      await expect(
+        service.joinRoom(mockSessionId, { ...joinDto, passphrase: 'guess' }),
+      ).rejects.toThrow(RoomAccessDeniedException);
+
+      expect(roomRepository.addParticipant).not.toHaveBeenCalled();
+      expect(redisTransaction.incr).toHaveBeenCalledWith(attemptsKey);
+      expect(redisTransaction.incr).toHaveBeenCalledWith(codeAttemptsKey);
+      expect(redisTransaction.expire).toHaveBeenCalledWith(
+        attemptsKey,
+        900,
+        'NX',
+      );
+      expect(redisTransaction.del).not.toHaveBeenCalled();
+    });
+
+    it('should not let parallel guesses past the limit', async () => {
+      let attempts = 0;
+      redisTransaction.exec.mockImplementation(() =>
+        Promise.resolve([
+          [null, ++attempts],
+          [null, 1],
+          [null, 900],
+          [null, attempts],
+          [null, 1],
+          [null, 900],
+        ]),
+      );
+
+      const results = await Promise.allSettled(
+        Array.from({ length: 12 }, () =>
+          service.joinRoom(mockSessionId, { ...joinDto, passphrase: 'guess' }),
+        ),
+      );
+      const errors = results.map((result) =>
+        result.status === 'rejected' ? (result.reason as Error) : null,
+      );
+
+      expect(
+        errors.filter((error) => error instanceof RoomAccessDeniedException),
+      ).toHaveLength(10);
+      expect(
+        errors.filter((error) => error instanceof TooManyJoinAttemptsException),
+      ).toHaveLength(2);
+    });
+
+    it('should join with a valid invite token instead of the passphrase', async () => {
+      roomRepository.redeemInvite.mockResolvedValue(protectedRoom);
+
+      await service.joinRoom(mockSessionId, {
+        ...joinDto,
+        inviteToken: 'invite-token',
+      });
+
+      expect(roomRepository.redeemInvite).toHaveBeenCalledWith(
+        'room-id-123',
+        expect.any(String),
+        expect.any(Date),
+      );
+      expect(roomRepository.addParticipant).toHaveBeenCalled();
+    });
+
+    it('should reject a used up or expired invite token', async () => {
+      roomRepository.redeemInvite.mockResolvedValue(null);
+
+      await expect(
+        service.joinRoom(mockSessionId, {
+          ...joinDto,
+          inviteToken: 'invite-token',
+        }),
+      ).rejects.toThrow(RoomAccessDeniedException);
+    });
+
+    it('should give the invite use back when the room fills up first', async () => {
+      roomRepository.redeemInvite.mockResolvedValue(protectedRoom);
+      roomRepository.addParticipant.mockResolvedValue(null);
+
+      await expect(
+        service.joinRoom(mockSessionId, {
+          ...joinDto,
+          inviteToken: 'invite-token',
+        }),
+      ).rejects.toThrow(RoomFullException);
+      expect(roomRepository.releaseInvite).toHaveBeenCalledWith(
+        'room-id-123',
+        expect.any(String),
+      );
+    });
+
+    it('should lock the session out of the room code after too many attempts', async () => {
+      redisTransaction.exec.mockResolvedValue([
+        [null, 11],
+        [null, 0],
+        [null, 600],
+        [null, 11],
+        [null, 0],
+        [null, 600],
+      ]);
+
+      await expect(
+        service.joinRoom(mockSessionId, {
+          ...joinDto,
+          passphrase: 'open sesame',
+          inviteToken: 'invite-token',
+        }),
+      ).rejects.toThrow(new TooManyJoinAttemptsException(600));
+      expect(roomRepository.redeemInvite).not.toHaveBeenCalled();
+      expect(roomRepository.addParticipant).not.toHaveBeenCalled();
+    });
+
+    it('should count attempts separately for each session', async () => {
+      await expect(
+        service.joinRoom('session-999', { ...joinDto, passphrase: 'guess' }),
+      ).rejects.toThrow(RoomAccessDeniedException);
+
+      expect(redisTransaction.incr).toHaveBeenCalledWith(
+        'room:code:ABC123:join-attempts:session-999',
+      );
+    });
+
+    it('should lock new sessions out once the room code has too many attempts', async () => {
+      redisTransaction.exec.mockResolvedValue([
+        [null, 1],
+        [null, 1],
+        [null, 900],
+        [null, 51],
+        [null, 0],
+        [null, 300],
+      ]);
+
+      await expect(
+        service.joinRoom('session-999', {
+          ...joinDto,
+          passphrase: 'open sesame',
+        }),
+      ).rejects.toThrow(new TooManyJoinAttemptsException(300));
+      expect(roomRepository.addParticipant).not.toHaveBeenCalled();
+    });
+
+    it('should let existing participants rejoin without the passphrase', async () => {
+      redisClient.get.mockImplementation((key: string) =>
+        Promise.resolve(key.endsWith(':userId') ? mockUserId : null),
+      );
+
+      await service.joinRoom(mockSessionId, joinDto);
+
+      expect(roomRepository.addParticipant).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createInvite', () => {
+    const hostedRoom = {
+      ...mockRoom,
+      passphraseHash: 'scrypt$00$00',
+      participants: [
+        { ...mockRoom.participants[0], role: ParticipantRole.HOST },
+      ],
+    };
+
+    beforeEach(() => {
+      redisClient.get.mockResolvedValue(mockUserId);
+    });
+
+    it('should store only the hash of the new token', async () => {
+      roomRepository.findById.mockResolvedValue(hostedRoom as any);
+      roomRepository.addInvite.mockResolvedValue({
+        ...hostedRoom,
+        toJSON: () => ({}),
+      } as any);
+
+      const result = await service.createInvite(mockSessionId, 'room-id-123', {
+        maxUses: 3,
+      });
+
+      const stored = roomRepository.addInvite.mock.calls[0][1] as {
+        tokenHash: string;
+        maxUses: number;
+        remainingUses: number;
+      };
+      expect(result.token).toHaveLength(32);
+      expect(stored.tokenHash).not.toBe(result.token);
+      expect(stored.maxUses).toBe(3);
+      expect(stored.remainingUses).toBe(3);
+    });
+
+    it('should refuse invites for rooms without a passphrase', async () => {
+      roomRepository.findById.mockResolvedValue({
+        ...hostedRoom,
+        passphraseHash: null,
+      } as any);
+
+      await expect(
+        service.createInvite(mockSessionId, 'room-id-123', {}),
+      ).rejects.toThrow(UnauthorizedActionException);
+      expect(roomRepository.addInvite).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('kickParticipant', () => {
+    const groupRoom = {
+      ...mockRoom,
+      maxParticipants: 5,
+      participants: [
+        { ...mockRoom.participants[0], role: ParticipantRole.HOST },
+        {
+          userId: 'user-2',
+          displayName: 'User Two',
+          role: ParticipantRole.MEMBER,
+          joinedAt: new Date(),
+          isActive: true,
+          leftAt: null,
+        },
+      ],
+    };
+
+    beforeEach(() => {
+      redisClient.get.mockResolvedValue(mockUserId);
+    });
+
+    it('should remove the participant and ban their user and sessions', async () => {
+      const updatedRoom = {
+        ...groupRoom,
+        participants: [groupRoom.participants[0]],
+        bannedUserIds: ['user-2'],
+        bannedSessionIds: ['session-456'],
+        toJSON: () => ({}),
+      };
+      roomRepository.findById.mockResolvedValue(groupRoom as any);
+      roomRepository.removeAndBanParticipant.mockResolvedValue(
+        updatedRoom as any,
+      );
+
+      const result = await service.kickParticipant(
+        mockSessionId,
+        'room-id-123',
+        'user-2',
+      );
+
+      expect(result.kicked.userId).toBe('user-2');
+      expect(sessionService.getSessionIdsForUser).toHaveBeenCalledWith(
+        'user-2',
+      );
+      expect(roomRepository.removeAndBanParticipant).toHaveBeenCalledWith(
+        'room-id-123',
+        'user-2',
+        ['session-456'],
+      );
+    });
+
+    it('should throw UnauthorizedActionException when the requester is not the host', async () => {
+      redisClient.get.mockResolvedValue('user-2');
+      roomRepository.findById.mockResolvedValue(groupRoom as any);
+
+      await expect(
+        service.kickParticipant(mockSessionId, 'room-id-123', 'user-1'),
+      ).rejects.toThrow(UnauthorizedActionException);
+      expect(roomRepository.removeAndBanParticipant).not.toHaveBeenCalled();
+    });
+
+    it('should throw UnauthorizedActionException when the host targets themselves', async () => {
+      roomRepository.findById.mockResolvedValue(groupRoom as any);
+
+      await expect(
+        service.kickParticipant(mockSessionId, 'room-id-123', mockUserId),
+      ).rejects.toThrow(UnauthorizedActionException);
+    });
+
+    it('should throw UserNotInRoomException for an unknown target', async () => {
+      roomRepository.findById.mockResolvedValue(groupRoom as any);
+
+      await expect(
+        service.kickParticipant(mockSessionId, 'room-id-123', 'user-9'),
       ).rejects.toThrow(UserNotInRoomException);
     });
   });
 
-  describe('validateParticipant', () => {
-    it('should return participant info for valid participant', async () => {
+  describe('sharePublicKey', () => {
+    const publicKey = 'B'.repeat(87);
+    const encryptedRoom = { ...mockRoom, encrypted: true };
+
+    beforeEach(() => {
+      redisClient.get.mockResolvedValue(mockUserId);
+    });
+
+    it('should store the key on the participant', async () => {
+      roomRepository.findById.mockResolvedValue(encryptedRoom as any);
+      roomRepository.setParticipantPublicKey.mockResolvedValue({
+        ...encryptedRoom,
+        participants: [{ ...mockRoom.participants[0], publicKey }],
+        toJSON: () => ({}),
+      } as any);
+
+      const result = await service.sharePublicKey(
+        mockSessionId,
+        'room-id-123',
+        publicKey,
+      );
+
+      expect(result.participant.publicKey).toBe(publicKey);
+      expect(roomRepository.setParticipantPublicKey).toHaveBeenCalledWith(
+        'room-id-123',
+        mockUserId,
+        publicKey,
+      );
+    });
+
+    it('should throw UnauthorizedActionException for a room without encryption', async () => {
+      roomRepository.findById.mockResolvedValue(mockRoom as any);
+
+      await expect(
+        service.sharePublicKey(mockSessionId, 'room-id-123', publicKey),
+      ).rejects.toThrow(UnauthorizedActionException);
+      expect(roomRepository.setParticipantPublicKey).not.toHaveBeenCalled();
+    });
+
+    it('should throw InvalidEncryptionPayloadException for a malformed key', async () => {
+      roomRepository.findById.mockResolvedValue(encryptedRoom as any);
+
+      await expect(
+        service.sharePublicKey(mockSessionId, 'room-id-123', 'not a key'),
+      ).rejects.toThrow(InvalidEncryptionPayloadException);
+    });
+
+    it('should throw RoomNotFoundException for non-participants', async () => {
+      redisClient.get.mockResolvedValue('user-9');
+      roomRepository.findById.mockResolvedValue(encryptedRoom as any);
+
+      await expect(
+        service.sharePublicKey(mockSessionId, 'room-id-123', publicKey),
+      ).rejects.toThrow(RoomNotFoundException);
+    });
+  });
+
+  describe('extendRoomExpiry', () => {
+    beforeEach(() => {
+      redisClient.get.mockResolvedValue(mockUserId);
+    });
+
+    it('should push back the expiry and reschedule the close job', async () => {
+      const previousJob = { remove: jest.fn().mockResolvedValue(undefined) };
       roomRepository.findById.mockResolvedValue(mockRoom as any);
+      roomRepository.updateExpiry.mockImplementation((_roomId, expiresAt) =>
+        Promise.resolve({ ...mockRoom, expiresAt } as any),
+      );
+      roomLifecycleQueue.getJob.mockResolvedValue(previousJob);
 
-      const result = await service.validateParticipant(
+      const result = await service.extendRoomExpiry(
         mockSessionId,
         'room-id-123',
+        12,
       );
 
-      expect(result).toBeDefined();
-      expect(result.userId).toBe(mockUserId);
-      expect(result.displayName).toBe('User One');
+      expect(result.expiresAt!.getTime()).toBe(
+        mockRoom.expiresAt.getTime() + 12 * 3600 * 1000,
+      );
+      expect(roomLifecycleQueue.getJob).toHaveBeenCalledWith(
+        `close-room-room-id-123-${mockRoom.expiresAt.getTime()}`,
+      );
+      expect(previousJob.remove).toHaveBeenCalled();
+      expect(roomLifecycleQueue.add).toHaveBeenCalledWith(
+        'close-room',
+        expect.any(Object),
+        expect.objectContaining({
+          jobId: `close-room-room-id-123-${result.expiresAt!.getTime()}`,
+        }),
+      );
     });
 
-    it('should throw UserNotInRoomException for non-participant', async () => {
-      sessionService.getUserId = jest.fn().mockResolvedValue('different-user');
+    it('should throw RoomExpiryLimitException past the maximum lifetime', async () => {
       roomRepository.findById.mockResolvedValue(mockRoom as any);
 
       await expect(
-        service.validateParticipant(mockSessionId, 'room-id-123'),
-      ).rejects.toThrow(UserNotInRoomException);
+        service.extendRoomExpiry(mockSessionId, 'room-id-123', 168),
+      ).rejects.toThrow(RoomExpiryLimitException);
+      expect(roomRepository.updateExpiry).not.toHaveBeenCalled();
+    });
+
+    it('should throw RoomClosedException for a closed room', async () => {
+      roomRepository.findById.mockResolvedValue({
+        ...mockRoom,
+        status: RoomStatus.CLOSED,
+      } as any);
+
+      await expect(
+        service.extendRoomExpiry(mockSessionId, 'room-id-123', 1),
+      ).rejects.toThrow(RoomClosedException);
+    });
+
+    it('should throw RoomNotFoundException for non-participants', async () => {
+      redisClient.get.mockResolvedValue('different-user');
+      roomRepository.findById.mockResolvedValue(mockRoom as any);
+
+      await expect(
+        service.extendRoomExpiry(mockSessionId, 'room-id-123', 1),
+      ).rejects.toThrow(RoomNotFoundException);
+    });
+  });
+
+  describe('expireRoom', () => {
+    it('should close the room and invalidate its cache', async () => {
+      roomRepository.closeIfExpired.mockResolvedValue({
+        ...mockRoom,
+        status: RoomStatus.CLOSED,
+      } as any);
+
+      const result = await service.expireRoom('room-id-123');
+
+      expect(result?.status).toBe(RoomStatus.CLOSED);
+      expect(redisClient.del).toHaveBeenCalled();
+    });
+
+    it('should return null when the room was extended or already closed', async () => {
+      roomRepository.closeIfExpired.mockResolvedValue(null);
+
+      const result = await service.expireRoom('room-id-123');
+
+      expect(result).toBeNull();
+      expect(redisClient.del).not.toHaveBeenCalled();
     });
   });
 });
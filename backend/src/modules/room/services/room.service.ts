@@ -12,17 +12,49 @@
 
 import { Injectable, Inject, Logger, forwardRef, OnModuleInit } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import { InjectQueue } from '@nestjs/bullmq';
+import { Queue } from 'bullmq';
 import Redis from 'ioredis';
 import { REDIS_CLIENT } from '../../../config/redis.module';
-import { RoomRepository } from '../repositories/room.repository';
+import {
+  RoomRepository,
+  ImportedRoomData,
+} from '../repositories/room.repository';
 import { SessionService } from '../../session/services/session.service';
-import { RoomDocument, RoomStatus, Participant } from '../schemas/room.schema';
-import { CreateRoomDto, JoinRoomDto } from '../dto/room.dto';
-import { generateId } from '../../../common/utils/uuid.util';
+import {
+  RoomDocument,
+  RoomStatus,
+  Participant,
+  ParticipantRole,
+  RoomInvite,
+} from '../schemas/room.schema';
+import { CreateRoomDto, JoinRoomDto, CreateInviteDto } from '../dto/room.dto';
+import { MessageTtlStart } from '../../message/schemas/message.schema';
+import {
+  hashPassphrase,
+  verifyPassphrase,
+  generateInviteToken,
+  hashInviteToken,
+} from '../../../common/utils/secret.util';
+import {
+  generateRoomCode,
+  RoomCodeOptions,
+  DEFAULT_ROOM_CODE_ALPHABET,
+  DEFAULT_ROOM_CODE_LENGTH,
+  DEFAULT_ROOM_CODE_WORD_COUNT,
+} from '../../../common/utils/room-code.util';
 import {
   RoomNotFoundException,
   RoomFullException,
   RoomClosedException,
+  RoomExpiryLimitException,
+  RoomCodeUnavailableException,
+  InvalidRoomSettingsException,
+  InvalidEncryptionPayloadException,
+  ParticipantBannedException,
+  RoomAccessDeniedException,
+  TooManyJoinAttemptsException,
+  UnauthorizedActionException,
   UserNotInRoomException,
 } from '../../../common/exceptions/business.exceptions';
 
@@ -35,8 +67,27 @@ const CACHE_KEYS = {
   ROOM_BY_CODE: (code: string) => `room:code:${code}`,
   ROOM_BY_ID: (id: string) => `room:id:${id}`,
   USER_ROOMS: (userId: string) => `user:${userId}:rooms`,
+  JOIN_ATTEMPTS: (code: string) => `room:code:${code}:join-attempts`,
+  SESSION_JOIN_ATTEMPTS: (code: string, sessionId: string) =>
+    `room:code:${code}:join-attempts:${sessionId}`,
 };
 
+/**
+ * End-to-end encryption public keys: base64url, long enough for an
+ * uncompressed P-256 point and short enough to keep room documents small
+ */
+const PUBLIC_KEY_PATTERN = /^[A-Za-z0-9_-]{43,512}$/;
+
+/**
+ * Close Job ID
+ *
+ * @description One delayed close-room job per scheduled expiry. The
+ * expiry time is part of the ID so an extension never collides with a
+ * job that could not be removed.
+ */
+const CLOSE_JOB_ID = (roomId: string, expiresAt: Date) =>
+  `close-room-${roomId}-${expiresAt.getTime()}`;
+
 /**
  * Room Service
  * 
@@ -44,6 +95,13 @@ const CACHE_KEYS = {
  * - Room creation with unique room codes
  * - Joining rooms with participant validation
  * - Leaving rooms with auto-close logic
+ * - Host removal of participants, with bans on rejoining
+ * - Bans and closures on behalf of moderation
+ * - Anonymizing participants whose session was erased
+ * - Passphrase and invite checks, throttled per room code
+ * - Public key exchange for end-to-end encrypted rooms
+ * - Per-participant read cursors
+ * - Scheduled expiry through the room-lifecycle queue
  * - Caching for performance optimization
  * 
  * @class RoomService
@@ -57,6 +115,15 @@ export class RoomService implements OnModuleInit {
   // Default room values from config
   private defaultMaxParticipants: number;
   private defaultRoomExpiryHours: number;
+  private maxRoomExpiryHours: number;
+  // Failed passphrase/invite attempts allowed per session and per room
+  // code (across all sessions) within the window
+  private joinAttemptLimit: number;
+  private joinAttemptCodeLimit: number;
+  private joinAttemptWindow: number;
+  // Room code format and how many codes to try before giving up
+  private roomCodeOptions: RoomCodeOptions;
+  private roomCodeMaxAttempts: number;
 
   constructor(
     private readonly roomRepository: RoomRepository,
@@ -64,6 +131,8 @@ export class RoomService implements OnModuleInit {
     private readonly sessionService: SessionService,
     @Inject(REDIS_CLIENT)
     private readonly redisClient: Redis,
+    @InjectQueue('room-lifecycle')
+    private readonly roomLifecycleQueue: Queue,
     private readonly configService: ConfigService,
   ) {}
 
@@ -75,6 +144,38 @@ export class RoomService implements OnModuleInit {
     };
     this.defaultMaxParticipants = this.configService.get<number>('DEFAULT_MAX_PARTICIPANTS', 10);
     this.defaultRoomExpiryHours = this.configService.get<number>('DEFAULT_ROOM_EXPIRY_HOURS', 24);
+    this.maxRoomExpiryHours = this.configService.get<number>('MAX_ROOM_EXPIRY_HOURS', 168);
+    this.joinAttemptLimit = this.configService.get<number>('JOIN_ATTEMPT_LIMIT', 10);
+    this.joinAttemptCodeLimit = this.configService.get<number>(
+      'JOIN_ATTEMPT_CODE_LIMIT',
+      50,
+    );
+    this.joinAttemptWindow = this.configService.get<number>('JOIN_ATTEMPT_WINDOW_SECONDS', 900);
+    this.roomCodeOptions = {
+      alphabet: this.configService.get<string>(
+        'ROOM_CODE_ALPHABET',
+        DEFAULT_ROOM_CODE_ALPHABET,
+      ),
+      length: Number(
+        this.configService.get<number>(
+          'ROOM_CODE_LENGTH',
+          DEFAULT_ROOM_CODE_LENGTH,
+        ),
+      ),
+      words:
+        this.configService.get<string>('ROOM_CODE_FORMAT', 'random') ===
+        'words',
+      wordCount: Number(
+        this.configService.get<number>(
+          'ROOM_CODE_WORD_COUNT',
+          DEFAULT_ROOM_CODE_WORD_COUNT,
+        ),
+      ),
+    };
+    this.roomCodeMaxAttempts = this.configService.get<number>(
+      'ROOM_CODE_MAX_ATTEMPTS',
+      5,
+    );
   }
 
   /**
@@ -82,13 +183,19 @@ export class RoomService implements OnModuleInit {
    * 
    * @description Creates a room with:
    * - Unique UUID v7 identifier
-   * - 6-character shareable room code
+   * - Unique shareable room code (retried on collision)
    * - Creator as the first participant
+   * - An optional passphrase (stored hashed)
+   * - Optional end-to-end encryption (two participants only)
+   * - An optional default lifetime for disappearing messages
+   * - A delayed close job at its expiry
    * - Caches room for quick lookup
    * 
    * @param {string} sessionId - Creator's session ID
    * @param {CreateRoomDto} dto - Room creation data
    * @returns {Promise<RoomDocument>} Created room
+   * @throws {RoomCodeUnavailableException} If every generated code was taken
+   * @throws {InvalidRoomSettingsException} If an encrypted room is for more than two people
    * 
    * @example
    * const room = await roomService.createRoom('session-uuid', {
@@ -100,17 +207,44 @@ export class RoomService implements OnModuleInit {
   async createRoom(sessionId: string, dto: CreateRoomDto): Promise<RoomDocument> {
     this.logger.log(`Creating room for session: ${sessionId}`);
 
+    // Keys are exchanged between exactly two clients
+    const maxParticipants =
+      dto.maxParticipants || (dto.encrypted ? 2 : this.defaultMaxParticipants);
+    if (dto.encrypted && maxParticipants !== 2) {
+      throw new InvalidRoomSettingsException(
+        'End-to-end encrypted rooms are limited to 2 participants',
+      );
+    }
+
     // Generate user ID from session
     const userId = await this.getOrCreateUserId(sessionId);
 
-    // Create room in database with optional parameters
-    const room = await this.roomRepository.create(
-      userId,
-      dto.displayName,
-      dto.maxParticipants || this.defaultMaxParticipants,
-      dto.expiresInHours || this.defaultRoomExpiryHours,
+    const passphraseHash = dto.passphrase
+      ? await hashPassphrase(dto.passphrase)
+      : null;
+
+    // Create room in database under a fresh code
+    const room = await this.createWithUniqueCode((roomCode) =>
+      this.roomRepository.create(
+        userId,
+        dto.displayName,
+        maxParticipants,
+        dto.expiresInHours || this.defaultRoomExpiryHours,
+        passphraseHash,
+        roomCode,
+        !!dto.encrypted,
+        dto.messageTtlSeconds
+          ? {
+              seconds: dto.messageTtlSeconds,
+              start: dto.messageTtlStart || MessageTtlStart.SENT,
+            }
+          : null,
+      ),
     );
 
+    // Close the room when it expires
+    await this.scheduleExpiry(room);
+
     // Cache room for quick lookup
     await this.cacheRoom(room);
 
@@ -121,12 +255,35 @@ export class RoomService implements OnModuleInit {
     return room;
   }
 
+  /**
+   * Creates a closed room for an imported conversation
+   *
+   * @description The room gets a fresh room code. It is never cached or
+   * scheduled to expire, since it can't be joined.
+   *
+   * @param {Omit<ImportedRoomData, 'roomCode'>} data - Restored room details
+   * @returns {Promise<RoomDocument>} Created room
+   * @throws {RoomCodeUnavailableException} If every generated code was taken
+   */
+  async importRoom(
+    data: Omit<ImportedRoomData, 'roomCode'>,
+  ): Promise<RoomDocument> {
+    const room = await this.createWithUniqueCode((roomCode) =>
+      this.roomRepository.createImported({ ...data, roomCode }),
+    );
+
+    this.logger.log(`Imported room created: ${room.roomCode}`);
+    return room;
+  }
+
   /**
    * Joins an existing room by room code
    * 
    * @description Validates and adds a participant to a room:
-   * - Checks if room exists and is active
-   * - Validates room is not full (max 2 participants)
+   * - Checks if room exists, is active and has not expired
+   * - Rejects users and sessions the host removed
+   * - Requires the passphrase or an invite from newcomers to protected rooms
+   * - Validates room is not full (up to its maxParticipants)
    * - Prevents duplicate joins
    * - Updates cache after join
    * 
@@ -135,7 +292,10 @@ export class RoomService implements OnModuleInit {
    * @returns {Promise<RoomDocument>} Updated room with new participant
    * @throws {RoomNotFoundException} If room doesn't exist
    * @throws {RoomClosedException} If room is closed
-   * @throws {RoomFullException} If room already has 2 participants
+   * @throws {RoomFullException} If room has reached its capacity
+   * @throws {ParticipantBannedException} If the host removed this user
+   * @throws {RoomAccessDeniedException} If the passphrase or invite is missing or wrong
+   * @throws {TooManyJoinAttemptsException} If the session or the room code has seen too many failed attempts
    * 
    * @example
    * const room = await roomService.joinRoom('session-uuid', {
@@ -160,14 +320,22 @@ export class RoomService implements OnModuleInit {
       throw new RoomNotFoundException(dto.roomCode);
     }
 
-    // Validate room is active
-    if (room.status === RoomStatus.CLOSED) {
+    // Validate room is active (the close job may lag slightly behind expiry)
+    if (room.status === RoomStatus.CLOSED || this.isExpired(room)) {
       throw new RoomClosedException(dto.roomCode);
     }
 
     // Get or create user ID
     const userId = await this.getOrCreateUserId(sessionId);
 
+    // Removed users can't come back (cached rooms may predate the ban lists)
+    if (
+      room.bannedUserIds?.includes(userId) ||
+      room.bannedSessionIds?.includes(sessionId)
+    ) {
+      throw new ParticipantBannedException(dto.roomCode);
+    }
+
     // Check if user is already a participant
     const existingParticipant = room.participants.find(
       (p) => p.userId === userId,
@@ -189,14 +357,18 @@ export class RoomService implements OnModuleInit {
     }
 
     // Validate room is not full
-    if (room.participants.length >= 2) {
-      throw new RoomFullException(dto.roomCode);
+    if (room.participants.length >= room.maxParticipants) {
+      throw new RoomFullException(dto.roomCode, room.maxParticipants);
     }
 
+    // Protected rooms need the passphrase or an invite (returns a redeemed invite)
+    const redeemedInvite = await this.verifyRoomAccess(room, sessionId, dto);
+
     // Create new participant
     const participant: Participant = {
       userId,
       displayName: dto.displayName,
+      role: ParticipantRole.MEMBER,
       joinedAt: new Date(),
       isActive: true,
       leftAt: null,
@@ -208,8 +380,13 @@ export class RoomService implements OnModuleInit {
       participant,
     );
 
+    // Another join may have taken the last seat since the room was read
+    // (or the user was banned in the meantime)
     if (!updatedRoom) {
-      throw new RoomNotFoundException(dto.roomCode);
+      if (redeemedInvite) {
+        await this.roomRepository.releaseInvite(room._id, redeemedInvite);
+      }
+      throw new RoomFullException(dto.roomCode, room.maxParticipants);
     }
 
     // Update cache
@@ -227,7 +404,7 @@ export class RoomService implements OnModuleInit {
    * 
    * @description Marks a participant as inactive:
    * - Updates participant status
-   * - Checks if room should be closed (both left)
+   * - Closes the room once every participant has left
    * - Invalidates cache
    * 
    * @param {string} sessionId - User's session ID
@@ -267,11 +444,11 @@ export class RoomService implements OnModuleInit {
       throw new RoomNotFoundException(roomId);
     }
 
-    // Check if room should be closed (both participants left)
+    // Close the room once nobody is left in it
     const activeCount = updatedRoom.participants.filter((p) => p.isActive).length;
     
-    if (activeCount === 0 && updatedRoom.participants.length === 2) {
-      this.logger.log(`Both participants left, closing room: ${roomId}`);
+    if (activeCount === 0) {
+      this.logger.log(`All participants left, closing room: ${roomId}`);
       updatedRoom = await this.roomRepository.closeRoom(roomId);
       
       // Invalidate cache
@@ -284,6 +461,407 @@ export class RoomService implements OnModuleInit {
     return updatedRoom!;
   }
 
+  /**
+   * Removes a participant from a room and bans them
+   *
+   * @description Only the host can remove participants. The target loses
+   * their seat, and both their user ID and every session mapped to it are
+   * banned so they can't rejoin. Callers are responsible for disconnecting
+   * the target's sockets.
+   *
+   * @param {string} sessionId - Host's session ID
+   * @param {string} roomId - Room to remove the participant from
+   * @param {string} targetUserId - Participant to remove
+   * @returns {Promise<{ room: RoomDocument; kicked: Participant }>} Updated room and the removed participant
+   * @throws {RoomNotFoundException} If room doesn't exist or requester is not in it
+   * @throws {RoomClosedException} If room is closed
+   * @throws {UnauthorizedActionException} If requester is not the host, or targets themselves
+   * @throws {UserNotInRoomException} If target is not a participant
+   */
+  async kickParticipant(
+    sessionId: string,
+    roomId: string,
+    targetUserId: string,
+  ): Promise<{ room: RoomDocument; kicked: Participant }> {
+    const { room, userId } = await this.getHostedRoom(
+      sessionId,
+      roomId,
+      'remove participants from this room',
+    );
+
+    if (targetUserId === userId) {
+      throw new UnauthorizedActionException(
+        'remove yourself; leave the room instead',
+      );
+    }
+
+    const kicked = room.participants.find((p) => p.userId === targetUserId);
+    if (!kicked) {
+      throw new UserNotInRoomException(targetUserId, roomId);
+    }
+
+    const sessionIds =
+      await this.sessionService.getSessionIdsForUser(targetUserId);
+    const updatedRoom = await this.roomRepository.removeAndBanParticipant(
+      roomId,
+      targetUserId,
+      sessionIds,
+    );
+
+    // Left the room's participant list since it was read
+    if (!updatedRoom) {
+      throw new UserNotInRoomException(targetUserId, roomId);
+    }
+
+    await this.cacheRoom(updatedRoom);
+
+    this.logger.log(
+      `User ${targetUserId} removed from room ${roomId} by host ${userId}`,
+    );
+    return { room: updatedRoom, kicked };
+  }
+
+  /**
+   * Removes and bans a participant without a host
+   *
+   * @description Used by moderation once reports against a participant
+   * reach the ban threshold. Bans the same way as kickParticipant, and
+   * callers are likewise responsible for disconnecting the target's sockets.
+   *
+   * @param {string} roomId - Room to remove the participant from
+   * @param {string} targetUserId - Participant to remove
+   * @returns {Promise<{ room: RoomDocument; kicked: Participant } | null>} Updated room and the removed participant, or null if they're not in the room
+   */
+  async banParticipant(
+    roomId: string,
+    targetUserId: string,
+  ): Promise<{ room: RoomDocument; kicked: Participant } | null> {
+    const room = await this.roomRepository.findById(roomId);
+    const kicked = room?.participants.find((p) => p.userId === targetUserId);
+    if (!room || !kicked) {
+      return null;
+    }
+
+    const sessionIds =
+      await this.sessionService.getSessionIdsForUser(targetUserId);
+    const updatedRoom = await this.roomRepository.removeAndBanParticipant(
+      roomId,
+      targetUserId,
+      sessionIds,
+    );
+    if (!updatedRoom) {
+      return null;
+    }
+
+    await this.cacheRoom(updatedRoom);
+
+    this.logger.log(`User ${targetUserId} banned from room ${roomId}`);
+    return { room: updatedRoom, kicked };
+  }
+
+  /**
+   * Creates an invite to a passphrase-protected room
+   *
+   * @description Only the host can create invites. Each invite works for
+   * a limited number of joins until it expires; only its hash is stored,
+   * so the token can't be retrieved again later.
+   *
+   * @param {string} sessionId - Host's session ID
+   * @param {string} roomId - Room to invite to
+   * @param {CreateInviteDto} dto - Usage limit and lifetime
+   * @returns {Promise<{ room: RoomDocument; token: string; invite: RoomInvite }>} Updated room, the token and the stored invite
+   * @throws {RoomNotFoundException} If room doesn't exist or requester is not in it
+   * @throws {RoomClosedException} If room is closed
+   * @throws {UnauthorizedActionException} If requester is not the host, or the room has no passphrase
+   */
+  async createInvite(
+    sessionId: string,
+    roomId: string,
+    dto: CreateInviteDto,
+  ): Promise<{ room: RoomDocument; token: string; invite: RoomInvite }> {
+    const { room, userId } = await this.getHostedRoom(
+      sessionId,
+      roomId,
+      'create invites for this room',
+    );
+
+    // Anyone with the room code can join an unprotected room
+    if (!room.passphraseHash) {
+      throw new UnauthorizedActionException(
+        'create invites for a room without a passphrase',
+      );
+    }
+
+    const maxUses = dto.maxUses || 1;
+    const token = generateInviteToken();
+    const invite: RoomInvite = {
+      tokenHash: hashInviteToken(token),
+      createdBy: userId,
+      maxUses,
+      remainingUses: maxUses,
+      expiresAt: new Date(Date.now() + (dto.expiresInHours || 24) * 3600000),
+      createdAt: new Date(),
+    };
+
+    const updatedRoom = await this.roomRepository.addInvite(roomId, invite);
+
+    // Closed since it was read
+    if (!updatedRoom) {
+      throw new RoomClosedException(room.roomCode);
+    }
+
+    await this.cacheRoom(updatedRoom);
+
+    this.logger.log(`Invite created for room ${roomId} (${maxUses} uses)`);
+    return { room: updatedRoom, token, invite };
+  }
+
+  /**
+   * Stores a participant's public key in an end-to-end encrypted room
+   *
+   * @description The server only relays keys; it never sees the private
+   * halves or the derived message key. Sharing again replaces the key,
+   * e.g. when the participant rejoins from another browser.
+   *
+   * @param {string} sessionId - Participant's session ID
+   * @param {string} roomId - Room to share the key in
+   * @param {string} publicKey - Public key (base64url)
+   * @returns {Promise<{ room: RoomDocument; participant: Participant }>} Updated room and the participant
+   * @throws {RoomNotFoundException} If room doesn't exist or user is not in it
+   * @throws {RoomClosedException} If room is closed
+   * @throws {UnauthorizedActionException} If the room isn't end-to-end encrypted
+   * @throws {InvalidEncryptionPayloadException} If the key is malformed
+   */
+  async sharePublicKey(
+    sessionId: string,
+    roomId: string,
+    publicKey: string,
+  ): Promise<{ room: RoomDocument; participant: Participant }> {
+    const userId = await this.getOrCreateUserId(sessionId);
+    const room = await this.roomRepository.findById(roomId);
+
+    // Don't reveal room exists to non-participants
+    const participant = room?.participants.find((p) => p.userId === userId);
+    if (!room || !participant) {
+      throw new RoomNotFoundException(roomId);
+    }
+
+    if (room.status === RoomStatus.CLOSED) {
+      throw new RoomClosedException(room.roomCode);
+    }
+
+    if (!room.encrypted) {
+      throw new UnauthorizedActionException(
+        'share encryption keys in a room without end-to-end encryption',
+      );
+    }
+
+    if (typeof publicKey !== 'string' || !PUBLIC_KEY_PATTERN.test(publicKey)) {
+      throw new InvalidEncryptionPayloadException('Public key is malformed');
+    }
+
+    const updatedRoom = await this.roomRepository.setParticipantPublicKey(
+      roomId,
+      userId,
+      publicKey,
+    );
+
+    // Left the room's participant list since it was read
+    if (!updatedRoom) {
+      throw new RoomNotFoundException(roomId);
+    }
+
+    await this.cacheRoom(updatedRoom);
+
+    this.logger.log(`Public key shared by ${userId} in room ${roomId}`);
+    return {
+      room: updatedRoom,
+      participant: updatedRoom.participants.find((p) => p.userId === userId)!,
+    };
+  }
+
+  /**
+   * Extends a room's expiry
+   *
+   * @description Pushes the expiry back by the given number of hours and
+   * reschedules the close job. Rooms without an expiry get one counted
+   * from now. Any active participant can extend the room.
+   *
+   * @param {string} sessionId - User's session ID
+   * @param {string} roomId - Room to extend
+   * @param {number} hours - Hours to add to the current expiry
+   * @returns {Promise<RoomDocument>} Room with its new expiry
+   * @throws {RoomNotFoundException} If room doesn't exist or user is not in it
+   * @throws {RoomClosedException} If room is closed or already expired
+   * @throws {RoomExpiryLimitException} If the new expiry is too far away
+   */
+  async extendRoomExpiry(
+    sessionId: string,
+    roomId: string,
+    hours: number,
+  ): Promise<RoomDocument> {
+    const userId = await this.getOrCreateUserId(sessionId);
+    const room = await this.roomRepository.findById(roomId);
+
+    // Don't reveal room exists to non-participants
+    const participant = room?.participants.find((p) => p.userId === userId);
+    if (!room || !participant?.isActive) {
+      throw new RoomNotFoundException(roomId);
+    }
+
+    if (room.status === RoomStatus.CLOSED || this.isExpired(room)) {
+      throw new RoomClosedException(room.roomCode);
+    }
+
+    const now = Date.now();
+    const from = Math.max(now, room.expiresAt?.getTime() ?? now);
+    const expiresAt = new Date(from + hours * 3600 * 1000);
+
+    if (expiresAt.getTime() - now > this.maxRoomExpiryHours * 3600 * 1000) {
+      throw new RoomExpiryLimitException(this.maxRoomExpiryHours);
+    }
+
+    const previousExpiresAt = room.expiresAt;
+    const updatedRoom = await this.roomRepository.updateExpiry(
+      roomId,
+      expiresAt,
+    );
+
+    // Closed between the read and the update
+    if (!updatedRoom) {
+      throw new RoomClosedException(room.roomCode);
+    }
+
+    await this.scheduleExpiry(updatedRoom, previousExpiresAt);
+    await this.cacheRoom(updatedRoom);
+
+    this.logger.log(
+      `Room ${roomId} extended by ${hours}h until ${expiresAt.toISOString()}`,
+    );
+    return updatedRoom;
+  }
+
+  /**
+   * Closes a room whose expiry has passed
+   *
+   * @description Called by the room-lifecycle processor. Returns null when
+   * the room was extended, closed some other way, or no longer exists, so
+   * stale jobs are harmless.
+   *
+   * @param {string} roomId - Room UUID
+   * @returns {Promise<RoomDocument | null>} Closed room, or null if nothing was closed
+   */
+  async expireRoom(roomId: string): Promise<RoomDocument | null> {
+    const closedRoom = await this.roomRepository.closeIfExpired(
+      roomId,
+      new Date(),
+    );
+
+    if (!closedRoom) {
+      return null;
+    }
+
+    await this.invalidateRoomCache(closedRoom);
+
+    this.logger.log(`Room ${roomId} expired and was closed`);
+    return closedRoom;
+  }
+
+  /**
+   * Closes an active room without a participant's request
+   *
+   * @description Used by moderation when reports in a room reach the
+   * close threshold. Callers are responsible for telling the room.
+   *
+   * @param {string} roomId - Room to close
+   * @returns {Promise<RoomDocument | null>} Closed room, or null if not found or already closed
+   */
+  async forceCloseRoom(roomId: string): Promise<RoomDocument | null> {
+    const closedRoom = await this.roomRepository.closeIfActive(roomId);
+
+    if (!closedRoom) {
+      return null;
+    }
+
+    await this.invalidateRoomCache(closedRoom);
+
+    this.logger.log(`Room ${roomId} was force-closed`);
+    return closedRoom;
+  }
+
+  /**
+   * Removes a user's display name from every room they took part in
+   *
+   * @description Used when a session is erased. The user is shown under
+   * the given name and counts as having left; active rooms left with
+   * nobody in them are closed, as when the last participant leaves.
+   * Callers are responsible for telling the rooms.
+   *
+   * @param {string} userId - User to anonymize
+   * @param {string} displayName - Name shown in place of theirs
+   * @returns {Promise<RoomDocument[]>} Updated rooms
+   */
+  async eraseParticipant(
+    userId: string,
+    displayName: string,
+  ): Promise<RoomDocument[]> {
+    const rooms = await this.roomRepository.anonymizeParticipant(
+      userId,
+      displayName,
+    );
+
+    const updatedRooms: RoomDocument[] = [];
+    for (const room of rooms) {
+      const isEmpty =
+        room.status === RoomStatus.ACTIVE &&
+        !room.participants.some((p) => p.isActive);
+      const closedRoom = isEmpty
+        ? await this.roomRepository.closeIfActive(room._id)
+        : null;
+
+      await this.invalidateRoomCache(closedRoom ?? room);
+      updatedRooms.push(closedRoom ?? room);
+    }
+
+    this.logger.log(
+      `User ${userId} erased from ${updatedRooms.length} room(s)`,
+    );
+    return updatedRooms;
+  }
+
+  /**
+   * Advances a participant's read cursor
+   *
+   * @description Callers are responsible for checking the message belongs
+   * to the room. Older cursors are ignored so out-of-order events from
+   * several tabs can't move the cursor backwards.
+   *
+   * @param {string} roomId - Room UUID
+   * @param {string} userId - Reader's user ID
+   * @param {string} messageId - Newest message the user has read
+   * @returns {Promise<Participant | null>} Updated participant, or null if the cursor didn't move
+   */
+  async updateReadCursor(
+    roomId: string,
+    userId: string,
+    messageId: string,
+  ): Promise<Participant | null> {
+    const updatedRoom = await this.roomRepository.updateReadCursor(
+      roomId,
+      userId,
+      messageId,
+    );
+
+    if (!updatedRoom) {
+      return null;
+    }
+
+    // Keep cached room in sync so cursors show up on the next join
+    await this.cacheRoom(updatedRoom);
+
+    return updatedRoom.participants.find((p) => p.userId === userId) || null;
+  }
+
   /**
    * Gets a room by ID
    * 
@@ -320,7 +898,7 @@ export class RoomService implements OnModuleInit {
   /**
    * Gets a room by room code
    * 
-   * @param {string} roomCode - 6-character room code
+   * @param {string} roomCode - Room code
    * @returns {Promise<RoomDocument>} Room document
    * @throws {RoomNotFoundException} If room doesn't exist
    */
@@ -393,8 +971,79 @@ export class RoomService implements OnModuleInit {
   }
 
   /**
-   * Gets or creates a user ID from session ID
+   * Checks whether a session may see a room's details
+   *
+   * @description Protected rooms are only visible to their participants,
+   * so the room code alone doesn't reveal who is in them.
    * 
+   * @param {string} sessionId - Requester's session ID
+   * @param {RoomDocument} room - Room to check
+   * @throws {RoomAccessDeniedException} If the room is protected and the requester is not in it
+   */
+  async assertCanViewRoom(
+    sessionId: string,
+    room: RoomDocument,
+  ): Promise<void> {
+    if (!room.passphraseHash) {
+      return;
+    }
+
+    const userId = await this.getOrCreateUserId(sessionId);
+    if (!room.participants.some((p) => p.userId === userId)) {
+      throw new RoomAccessDeniedException(room.roomCode);
+    }
+  }
+
+  /**
+   * Runs a room insert under a freshly generated code
+   *
+   * @description Codes already in use are skipped before the insert. Two
+   * rooms can still race for the same code, so a duplicate-key error on
+   * roomCode also moves on to the next code.
+   *
+   * @private
+   * @param {Function} insert - Creates the room with the given code
+   * @returns {Promise<RoomDocument>} Created room
+   * @throws {RoomCodeUnavailableException} If every attempt collided
+   */
+  private async createWithUniqueCode(
+    insert: (roomCode: string) => Promise<RoomDocument>,
+  ): Promise<RoomDocument> {
+    for (let attempt = 1; attempt <= this.roomCodeMaxAttempts; attempt++) {
+      const roomCode = generateRoomCode(this.roomCodeOptions);
+
+      if (await this.roomRepository.roomCodeExists(roomCode)) {
+        this.logger.warn(
+          `Room code collision on attempt ${attempt}: ${roomCode}`,
+        );
+        continue;
+      }
+
+      try {
+        return await insert(roomCode);
+      } catch (error) {
+        const { code, keyPattern } = error as {
+          code?: unknown;
+          keyPattern?: Record<string, unknown>;
+        };
+        if (code !== 11000 || !keyPattern?.roomCode) {
+          throw error;
+        }
+        this.logger.warn(
+          `Room code taken during insert on attempt ${attempt}: ${roomCode}`,
+        );
+      }
+    }
+
+    this.logger.error(
+      `No free room code after ${this.roomCodeMaxAttempts} attempts`,
+    );
+    throw new RoomCodeUnavailableException();
+  }
+
+  /**
+   * Gets or creates a user ID from session ID
+   *
    * @private
    * @param {string} sessionId - Session identifier
    * @returns {Promise<string>} User ID
@@ -407,15 +1056,202 @@ export class RoomService implements OnModuleInit {
       return cachedUserId;
     }
 
-    // Generate new user ID and associate with session
-    const userId = generateId();
-    await this.redisClient.setex(
-      `session:${sessionId}:userId`,
-      this.cacheTtl.SESSION,
-      userId,
+    // Resolve through the stored session so linked devices share one user
+    return this.sessionService.getOrCreateUserId(sessionId);
+  }
+
+  /**
+   * Schedules the close job for a room's expiry
+   *
+   * @private
+   * @param {RoomDocument} room - Room with its current expiry
+   * @param {Date | null} previousExpiresAt - Expiry whose job should be dropped
+   */
+  private async scheduleExpiry(
+    room: RoomDocument,
+    previousExpiresAt?: Date | null,
+  ): Promise<void> {
+    if (previousExpiresAt) {
+      // A job that is already running can't be removed; it will find the
+      // room extended and do nothing
+      const previousJob = await this.roomLifecycleQueue.getJob(
+        CLOSE_JOB_ID(room._id, previousExpiresAt),
+      );
+      await previousJob?.remove().catch(() => undefined);
+    }
+
+    if (!room.expiresAt) {
+      return;
+    }
+
+    await this.roomLifecycleQueue.add(
+      'close-room',
+      {
+        roomId: room._id,
+        roomCode: room.roomCode,
+        reason: 'Room expired',
+      },
+      {
+        jobId: CLOSE_JOB_ID(room._id, room.expiresAt),
+        delay: Math.max(0, room.expiresAt.getTime() - Date.now()),
+        removeOnComplete: true,
+        removeOnFail: 100,
+      },
+    );
+  }
+
+  /**
+   * Checks whether a room is past its expiry
+   *
+   * @private
+   * @param {RoomDocument} room - Room document or cached room
+   * @returns {boolean} True if the room has expired
+   */
+  private isExpired(room: RoomDocument): boolean {
+    // Cached rooms carry the expiry as an ISO string
+    return !!room.expiresAt && new Date(room.expiresAt).getTime() <= Date.now();
+  }
+
+  /**
+   * Loads a room the requester hosts
+   *
+   * @private
+   * @param {string} sessionId - Requester's session ID
+   * @param {string} roomId - Room UUID
+   * @param {string} action - Action for the error message if not the host
+   * @returns {Promise<{ room: RoomDocument; userId: string }>} The room and the host's user ID
+   * @throws {RoomNotFoundException} If room doesn't exist or requester is not in it
+   * @throws {RoomClosedException} If room is closed
+   * @throws {UnauthorizedActionException} If requester is not the host
+   */
+  private async getHostedRoom(
+    sessionId: string,
+    roomId: string,
+    action: string,
+  ): Promise<{ room: RoomDocument; userId: string }> {
+    const userId = await this.getOrCreateUserId(sessionId);
+    const room = await this.roomRepository.findById(roomId);
+
+    // Don't reveal room exists to non-participants
+    const requester = room?.participants.find((p) => p.userId === userId);
+    if (!room || !requester?.isActive) {
+      throw new RoomNotFoundException(roomId);
+    }
+
+    if (room.status === RoomStatus.CLOSED) {
+      throw new RoomClosedException(room.roomCode);
+    }
+
+    if (requester.role !== ParticipantRole.HOST) {
+      throw new UnauthorizedActionException(action);
+    }
+
+    return { room, userId };
+  }
+
+  /**
+   * Checks a newcomer's passphrase or invite for a protected room
+   *
+   * @description Unprotected rooms only need the room code. For protected
+   * rooms a valid invite is redeemed first, then the passphrase is checked.
+   * Each attempt is counted before anything is checked, so parallel guesses
+   * can't slip past the limits. Two counters apply: one per session, so a
+   * stranger's guesses lock that session out first, and one per room code
+   * across all sessions, so starting new sessions doesn't buy more guesses.
+   * A successful attempt clears the session's count and isn't counted
+   * against the code.
+   *
+   * @private
+   * @param {RoomDocument} room - Room being joined (may be cached)
+   * @param {string} sessionId - Joining session's ID
+   * @param {JoinRoomDto} dto - Join request
+   * @returns {Promise<string | null>} Hash of the redeemed invite, if one was used
+   * @throws {TooManyJoinAttemptsException} If the session or the code is locked out
+   * @throws {RoomAccessDeniedException} If neither the invite nor the passphrase is valid
+   */
+  private async verifyRoomAccess(
+    room: RoomDocument,
+    sessionId: string,
+    dto: JoinRoomDto,
+  ): Promise<string | null> {
+    if (!room.passphraseHash) {
+      return null;
+    }
+
+    // Count the attempt up front; each window starts at its first attempt
+    const attemptsKey = CACHE_KEYS.SESSION_JOIN_ATTEMPTS(
+      room.roomCode,
+      sessionId,
     );
+    const codeAttemptsKey = CACHE_KEYS.JOIN_ATTEMPTS(room.roomCode);
+    const results = await this.redisClient
+      .multi()
+      .incr(attemptsKey)
+      .expire(attemptsKey, this.joinAttemptWindow, 'NX')
+      .ttl(attemptsKey)
+      .incr(codeAttemptsKey)
+      .expire(codeAttemptsKey, this.joinAttemptWindow, 'NX')
+      .ttl(codeAttemptsKey)
+      .exec();
+    const attempts = Number(results?.[0]?.[1]) || 0;
+    const codeAttempts = Number(results?.[3]?.[1]) || 0;
+    const lockedFor = [
+      attempts > this.joinAttemptLimit ? Number(results?.[2]?.[1]) : null,
+      codeAttempts > this.joinAttemptCodeLimit
+        ? Number(results?.[5]?.[1])
+        : null,
+    ].filter((ttl): ttl is number => ttl !== null);
+    if (lockedFor.length) {
+      const ttl = Math.max(...lockedFor);
+      throw new TooManyJoinAttemptsException(
+        ttl > 0 ? ttl : this.joinAttemptWindow,
+      );
+    }
 
-    return userId;
+    if (dto.inviteToken) {
+      const tokenHash = hashInviteToken(dto.inviteToken);
+      const redeemed = await this.roomRepository.redeemInvite(
+        room._id,
+        tokenHash,
+        new Date(),
+      );
+      if (redeemed) {
+        await this.clearJoinAttempts(attemptsKey, codeAttemptsKey);
+        return tokenHash;
+      }
+    }
+
+    if (
+      dto.passphrase &&
+      (await verifyPassphrase(dto.passphrase, room.passphraseHash))
+    ) {
+      await this.clearJoinAttempts(attemptsKey, codeAttemptsKey);
+      return null;
+    }
+
+    this.logger.warn(`Failed join attempt for protected room ${room.roomCode}`);
+    throw new RoomAccessDeniedException(room.roomCode);
+  }
+
+  /**
+   * Forgets a successful join attempt
+   *
+   * @description The session starts over; the code only drops this one
+   * attempt, so guesses from other sessions still count.
+   *
+   * @private
+   * @param {string} attemptsKey - The session's counter
+   * @param {string} codeAttemptsKey - The room code's counter
+   */
+  private async clearJoinAttempts(
+    attemptsKey: string,
+    codeAttemptsKey: string,
+  ): Promise<void> {
+    await this.redisClient
+      .multi()
+      .del(attemptsKey)
+      .decr(codeAttemptsKey)
+      .exec();
   }
 
   /**
@@ -0,0 +1,284 @@
+/**
+ * @fileoverview Session Controller Unit Tests
+ * @description Tests for the session token and identity linking endpoints
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { SessionController } from './session.controller';
+import { SessionService } from '../services/session.service';
+import { SessionTokenService } from '../services/session-token.service';
+import { SessionErasureService } from '../services/session-erasure.service';
+import { ChatGateway } from '../../../gateways/chat.gateway';
+import { ErasureStatus } from '../dto/session.dto';
+import {
+  ErasureJobNotFoundException,
+  InvalidRecoveryKeyException,
+  InvalidSessionTokenException,
+  SessionNotFoundException,
+} from '../../../common/exceptions/business.exceptions';
+import { SessionTokenClaims } from '../../../common/utils/session-token.util';
+
+describe('SessionController', () => {
+  let controller: SessionController;
+  let sessionService: {
+    getIdentity: jest.Mock;
+    exportRecoveryKey: jest.Mock;
+    claimRecoveryKey: jest.Mock;
+  };
+  let sessionTokenService: {
+    issueToken: jest.Mock;
+    verifyToken: jest.Mock;
+    rotateToken: jest.Mock;
+    revokeToken: jest.Mock;
+  };
+  let sessionErasureService: {
+    requestErasure: jest.Mock;
+    getStatus: jest.Mock;
+  };
+  let chatGateway: { disconnectRevokedSockets: jest.Mock };
+
+  const mockSessionId = 'session-123';
+  const createdAt = new Date('2025-12-18T10:00:00.000Z');
+
+  const claims: SessionTokenClaims = {
+    sub: mockSessionId,
+    jti: 'token-1',
+    ver: 0,
+    iat: 1766052000,
+    exp: 1766138400,
+  };
+
+  const issued = {
+    sessionId: mockSessionId,
+    token: 'signed-token',
+    expiresAt: createdAt,
+  };
+
+  const erasure = {
+    jobId: 'erasure-job',
+    status: ErasureStatus.PENDING,
+    requestedAt: createdAt,
+    completedAt: null,
+    result: null,
+  };
+
+  beforeEach(async () => {
+    sessionService = {
+      getIdentity: jest.fn().mockResolvedValue({
+        linked: false,
+        linkedSessions: 0,
+        createdAt: null,
+      }),
+      exportRecoveryKey: jest.fn().mockResolvedValue({
+        userId: 'user-123',
+        recoveryKey: 'recovery-key',
+        createdAt,
+      }),
+      claimRecoveryKey: jest.fn().mockResolvedValue({
+        userId: 'user-123',
+        linkedSessions: 2,
+      }),
+    };
+
+    sessionTokenService = {
+      issueToken: jest.fn().mockResolvedValue(issued),
+      verifyToken: jest.fn().mockResolvedValue(claims),
+      rotateToken: jest.fn().mockResolvedValue(issued),
+      revokeToken: jest.fn().mockResolvedValue(undefined),
+    };
+
+    sessionErasureService = {
+      requestErasure: jest.fn().mockResolvedValue(erasure),
+      getStatus: jest.fn().mockResolvedValue(erasure),
+    };
+
+    chatGateway = {
+      disconnectRevokedSockets: jest.fn().mockResolvedValue(undefined),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [SessionController],
+      providers: [
+        { provide: SessionService, useValue: sessionService },
+        { provide: SessionTokenService, useValue: sessionTokenService },
+        {
+          provide: SessionErasureService,
+          useValue: sessionErasureService,
+        },
+        { provide: ChatGateway, useValue: chatGateway },
+      ],
+    }).compile();
+
+    controller = module.get<SessionController>(SessionController);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('issueToken', () => {
+    it('should upgrade the session in the legacy X-Session-Id header', async () => {
+      const result = await controller.issueToken(mockSessionId);
+
+      expect(result).toEqual(issued);
+      expect(sessionTokenService.issueToken).toHaveBeenCalledWith(
+        mockSessionId,
+      );
+    });
+
+    it('should start a new session without the legacy header', async () => {
+      await controller.issueToken(undefined);
+
+      expect(sessionTokenService.issueToken).toHaveBeenCalledWith(undefined);
+    });
+  });
+
+  describe('refreshToken', () => {
+    it('should verify the token within its refresh window and rotate it', async () => {
+      const result = await controller.refreshToken({ token: 'old-token' });
+
+      expect(result).toEqual(issued);
+      expect(sessionTokenService.verifyToken).toHaveBeenCalledWith(
+        'old-token',
+        true,
+      );
+      expect(sessionTokenService.rotateToken).toHaveBeenCalledWith(
+        claims,
+        undefined,
+      );
+      expect(chatGateway.disconnectRevokedSockets).not.toHaveBeenCalled();
+    });
+
+    it('should pass revokeAll through and drop sockets on revoked tokens', async () => {
+      await controller.refreshToken({ token: 'old-token', revokeAll: true });
+
+      expect(sessionTokenService.rotateToken).toHaveBeenCalledWith(
+        claims,
+        true,
+      );
+      expect(chatGateway.disconnectRevokedSockets).toHaveBeenCalledWith(
+        mockSessionId,
+      );
+    });
+
+    it('should not rotate a revoked token', async () => {
+      sessionTokenService.verifyToken.mockRejectedValue(
+        new InvalidSessionTokenException(),
+      );
+
+      await expect(
+        controller.refreshToken({ token: 'revoked-token' }),
+      ).rejects.toThrow(InvalidSessionTokenException);
+      expect(sessionTokenService.rotateToken).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revokeToken', () => {
+    it('should revoke the current token', async () => {
+      const result = await controller.revokeToken(claims);
+
+      expect(result).toEqual({ revoked: true });
+      expect(sessionTokenService.revokeToken).toHaveBeenCalledWith(claims);
+      expect(chatGateway.disconnectRevokedSockets).toHaveBeenCalledWith(
+        mockSessionId,
+      );
+    });
+  });
+
+  describe('getIdentity', () => {
+    it('should return the identity status', async () => {
+      const result = await controller.getIdentity(mockSessionId);
+
+      expect(result).toEqual({
+        linked: false,
+        linkedSessions: 0,
+        createdAt: null,
+      });
+      expect(sessionService.getIdentity).toHaveBeenCalledWith(mockSessionId);
+    });
+
+    it('should require a session ID', async () => {
+      await expect(controller.getIdentity('')).rejects.toThrow(
+        SessionNotFoundException,
+      );
+    });
+  });
+
+  describe('exportRecoveryKey', () => {
+    it('should return the key without the user ID', async () => {
+      const result = await controller.exportRecoveryKey(mockSessionId);
+
+      expect(result).toEqual({ recoveryKey: 'recovery-key', createdAt });
+      expect(sessionService.exportRecoveryKey).toHaveBeenCalledWith(
+        mockSessionId,
+      );
+    });
+  });
+
+  describe('claimIdentity', () => {
+    it('should link the session', async () => {
+      const result = await controller.claimIdentity(mockSessionId, {
+        recoveryKey: 'recovery-key',
+      });
+
+      expect(result).toEqual({
+        userId: 'user-123',
+        linked: true,
+        linkedSessions: 2,
+      });
+      expect(sessionService.claimRecoveryKey).toHaveBeenCalledWith(
+        mockSessionId,
+        'recovery-key',
+      );
+    });
+
+    it('should propagate an invalid key', async () => {
+      sessionService.claimRecoveryKey.mockRejectedValue(
+        new InvalidRecoveryKeyException(),
+      );
+
+      await expect(
+        controller.claimIdentity(mockSessionId, { recoveryKey: 'wrong' }),
+      ).rejects.toThrow(InvalidRecoveryKeyException);
+    });
+  });
+
+  describe('eraseSession', () => {
+    it('should queue erasure of the session', async () => {
+      const result = await controller.eraseSession(mockSessionId);
+
+      expect(result).toEqual(erasure);
+      expect(sessionErasureService.requestErasure).toHaveBeenCalledWith(
+        mockSessionId,
+      );
+    });
+
+    it('should require a session ID', async () => {
+      await expect(controller.eraseSession('')).rejects.toThrow(
+        SessionNotFoundException,
+      );
+      expect(sessionErasureService.requestErasure).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getErasureStatus', () => {
+    it('should return the job status', async () => {
+      const result = await controller.getErasureStatus('erasure-job');
+
+      expect(result).toEqual(erasure);
+      expect(sessionErasureService.getStatus).toHaveBeenCalledWith(
+        'erasure-job',
+      );
+    });
+
+    it('should propagate an unknown job', async () => {
+      sessionErasureService.getStatus.mockRejectedValue(
+        new ErasureJobNotFoundException(),
+      );
+
+      await expect(controller.getErasureStatus('missing')).rejects.toThrow(
+        ErasureJobNotFoundException,
+      );
+    });
+  });
+});
@@ -0,0 +1,312 @@
+/**
+ * @fileoverview Session Controller
+ * @description REST API endpoints for session tokens and optional persistent
+ * identities
+ * @module modules/session/controllers/session
+ *
+ * Design Pattern: Controller Pattern
+ * - Handles HTTP requests for identity operations
+ * - Validates input and delegates to service
+ */
+
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Headers,
+  Param,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  Inject,
+  forwardRef,
+} from '@nestjs/common';
+import { SessionService } from '../services/session.service';
+import { SessionTokenService } from '../services/session-token.service';
+import { SessionErasureService } from '../services/session-erasure.service';
+import { ChatGateway } from '../../../gateways/chat.gateway';
+import {
+  RefreshTokenDto,
+  SessionTokenResponseDto,
+  RevokeTokenResponseDto,
+  ClaimIdentityDto,
+  IdentityStatusResponseDto,
+  RecoveryKeyResponseDto,
+  ClaimIdentityResponseDto,
+  SessionErasureStatusResponseDto,
+} from '../dto/session.dto';
+import { SessionNotFoundException } from '../../../common/exceptions/business.exceptions';
+import {
+  SessionId,
+  SessionToken,
+  Public,
+} from '../../../common/decorators/session.decorator';
+import { SessionTokenClaims } from '../../../common/utils/session-token.util';
+
+/**
+ * Session Controller
+ *
+ * @description Exposes REST API endpoints for session tokens:
+ * - POST /session/token - Get a first token (public)
+ * - POST /session/token/refresh - Rotate a token, even shortly after it expired (public)
+ * - DELETE /session/token - Revoke the current token
+ *
+ * And for identity linking:
+ * - GET /session/identity - Whether this session is linked to an identity
+ * - POST /session/identity - Export a recovery key for this session's user
+ * - POST /session/identity/claim - Link this session using a recovery key
+ *
+ * Sessions stay anonymous unless one of these is called.
+ *
+ * And for erasure:
+ * - DELETE /session - Erase this session and, if no other device is linked, what its user wrote
+ * - GET /session/erasure/:jobId - Status of an erasure (public; the job ID is unguessable)
+ *
+ * @class SessionController
+ */
+@Controller('session')
+export class SessionController {
+  private readonly logger = new Logger(SessionController.name);
+
+  constructor(
+    private readonly sessionService: SessionService,
+    private readonly sessionTokenService: SessionTokenService,
+    private readonly sessionErasureService: SessionErasureService,
+    @Inject(forwardRef(() => ChatGateway))
+    private readonly chatGateway: ChatGateway,
+  ) {}
+
+  /**
+   * Issues a first session token
+   *
+   * @route POST /session/token
+   * @param {string} [legacySessionId] - X-Session-Id header of a client from before tokens, to upgrade its session
+   * @returns {Promise<SessionTokenResponseDto>} Session ID and token
+   *
+   * @example
+   * // Request
+   * POST /api/v1/session/token
+   * Body: {}
+   *
+   * // Response 201
+   * {
+   *   "sessionId": "0193...",
+   *   "token": "eyJhbGciOiJIUzI1NiIs...",
+   *   "expiresAt": "2025-12-25T10:00:00.000Z"
+   * }
+   */
+  @Public()
+  @Post('token')
+  async issueToken(
+    @Headers('x-session-id') legacySessionId?: string,
+  ): Promise<SessionTokenResponseDto> {
+    return this.sessionTokenService.issueToken(legacySessionId);
+  }
+
+  /**
+   * Rotates a session token
+   *
+   * @description Revoking every other token also disconnects the sockets
+   * opened with them, including the caller's, which reconnects with the
+   * new token.
+   *
+   * @route POST /session/token/refresh
+   * @param {RefreshTokenDto} dto - Current token, and whether to revoke every other token too
+   * @returns {Promise<SessionTokenResponseDto>} The new token
+   *
+   * @example
+   * // Request
+   * POST /api/v1/session/token/refresh
+   * Body: { "token": "eyJhbGciOiJIUzI1NiIs...", "revokeAll": false }
+   */
+  @Public()
+  @Post('token/refresh')
+  @HttpCode(HttpStatus.OK)
+  async refreshToken(
+    @Body() dto: RefreshTokenDto,
+  ): Promise<SessionTokenResponseDto> {
+    const claims = await this.sessionTokenService.verifyToken(dto.token, true);
+
+    if (dto.revokeAll) {
+      this.logger.log('Revoking all session tokens');
+    }
+
+    const issued = await this.sessionTokenService.rotateToken(
+      claims,
+      dto.revokeAll,
+    );
+    if (dto.revokeAll) {
+      await this.chatGateway.disconnectRevokedSockets(claims.sub);
+    }
+    return issued;
+  }
+
+  /**
+   * Revokes the current session token
+   *
+   * @description Sockets opened with the token are disconnected too.
+   *
+   * @route DELETE /session/token
+   * @param {SessionTokenClaims} token - Verified claims of the current token
+   * @returns {Promise<RevokeTokenResponseDto>} Revoke confirmation
+   */
+  @Delete('token')
+  @HttpCode(HttpStatus.OK)
+  async revokeToken(
+    @SessionToken() token: SessionTokenClaims,
+  ): Promise<RevokeTokenResponseDto> {
+    await this.sessionTokenService.revokeToken(token);
+    await this.chatGateway.disconnectRevokedSockets(token.sub);
+
+    return { revoked: true };
+  }
+
+  /**
+   * Gets the identity status of this session
+   *
+   * @route GET /session/identity
+   * @param {string} sessionId - Session ID from the session token
+   * @returns {Promise<IdentityStatusResponseDto>} Identity status
+   *
+   * @example
+   * // Response 200
+   * { "linked": true, "linkedSessions": 2, "createdAt": "2025-12-18T10:00:00.000Z" }
+   */
+  @Get('identity')
+  async getIdentity(
+    @SessionId() sessionId: string,
+  ): Promise<IdentityStatusResponseDto> {
+    this.validateSessionId(sessionId);
+
+    return this.sessionService.getIdentity(sessionId);
+  }
+
+  /**
+   * Exports a recovery key
+   *
+   * @route POST /session/identity
+   * @param {string} sessionId - Session ID from the session token
+   * @returns {Promise<RecoveryKeyResponseDto>} The new recovery key
+   *
+   * @example
+   * // Request
+   * POST /api/v1/session/identity
+   * Headers: { "Authorization": "Bearer <session-token>" }
+   *
+   * // Response 201
+   * { "recoveryKey": "vN7c1Qe...", "createdAt": "2025-12-18T10:00:00.000Z" }
+   */
+  @Post('identity')
+  async exportRecoveryKey(
+    @SessionId() sessionId: string,
+  ): Promise<RecoveryKeyResponseDto> {
+    this.validateSessionId(sessionId);
+
+    this.logger.log('Exporting recovery key');
+
+    const { recoveryKey, createdAt } =
+      await this.sessionService.exportRecoveryKey(sessionId);
+
+    return { recoveryKey, createdAt };
+  }
+
+  /**
+   * Claims an identity on this session
+   *
+   * @route POST /session/identity/claim
+   * @param {string} sessionId - Session ID from the session token
+   * @param {ClaimIdentityDto} dto - Recovery key
+   * @returns {Promise<ClaimIdentityResponseDto>} Link confirmation
+   *
+   * @example
+   * // Request
+   * POST /api/v1/session/identity/claim
+   * Headers: { "Authorization": "Bearer <session-token>" }
+   * Body: { "recoveryKey": "vN7c1Qe..." }
+   *
+   * // Response 200
+   * { "userId": "...", "linked": true, "linkedSessions": 2 }
+   */
+  @Post('identity/claim')
+  @HttpCode(HttpStatus.OK)
+  async claimIdentity(
+    @SessionId() sessionId: string,
+    @Body() dto: ClaimIdentityDto,
+  ): Promise<ClaimIdentityResponseDto> {
+    this.validateSessionId(sessionId);
+
+    const { userId, linkedSessions } =
+      await this.sessionService.claimRecoveryKey(sessionId, dto.recoveryKey);
+
+    return { userId, linked: true, linkedSessions };
+  }
+
+  /**
+   * Erases this session
+   *
+   * @description Queues a job that removes the session, its cached data
+   * and, once no other device is linked to the same identity, the user's
+   * messages (left as tombstones), attachments and display names. The
+   * current token stops working straight away, so the status is read
+   * without one.
+   *
+   * @route DELETE /session
+   * @param {string} sessionId - Session ID from the session token
+   * @returns {Promise<SessionErasureStatusResponseDto>} The queued job
+   *
+   * @example
+   * // Request
+   * DELETE /api/v1/session
+   * Headers: { "Authorization": "Bearer <session-token>" }
+   *
+   * // Response 202
+   * {
+   *   "jobId": "q3Hk0d2Jx...",
+   *   "status": "pending",
+   *   "requestedAt": "2025-12-18T10:00:00.000Z",
+   *   "completedAt": null,
+   *   "result": null
+   * }
+   */
+  @Delete()
+  @HttpCode(HttpStatus.ACCEPTED)
+  async eraseSession(
+    @SessionId() sessionId: string,
+  ): Promise<SessionErasureStatusResponseDto> {
+    this.validateSessionId(sessionId);
+
+    this.logger.log('Session erasure requested');
+
+    return this.sessionErasureService.requestErasure(sessionId);
+  }
+
+  /**
+   * Gets the status of a session erasure
+   *
+   * @route GET /session/erasure/:jobId
+   * @param {string} jobId - Job ID returned by DELETE /session
+   * @returns {Promise<SessionErasureStatusResponseDto>} Job status
+   */
+  @Public()
+  @Get('erasure/:jobId')
+  async getErasureStatus(
+    @Param('jobId') jobId: string,
+  ): Promise<SessionErasureStatusResponseDto> {
+    return this.sessionErasureService.getStatus(jobId);
+  }
+
+  /**
+   * Validates that a session ID is present
+   *
+   * @private
+   * @param {string} sessionId - Session ID to validate
+   * @throws {SessionNotFoundException} If session ID is missing
+   */
+  private validateSessionId(sessionId: string): void {
+    if (!sessionId) {
+      throw new SessionNotFoundException();
+    }
+  }
+}
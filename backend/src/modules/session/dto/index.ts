@@ -0,0 +1,6 @@
+/**
+ * @fileoverview Session DTO Barrel Export
+ * @module modules/session/dto
+ */
+
+export * from './session.dto';
@@ -0,0 +1,147 @@
+/**
+ * @fileoverview Session DTOs (Data Transfer Objects)
+ * @description Request and response DTOs for session tokens and persistent
+ * identities
+ * @module modules/session/dto
+ */
+
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsBoolean,
+  MaxLength,
+} from 'class-validator';
+
+/**
+ * Refresh Token DTO
+ *
+ * @description The current token goes in the body rather than the
+ * Authorization header, because it may already have expired.
+ *
+ * @example
+ * { "token": "eyJhbGciOiJIUzI1NiIs...", "revokeAll": true }
+ */
+export class RefreshTokenDto {
+  /**
+   * Current session token
+   */
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1024)
+  token: string;
+
+  /**
+   * Also revoke every other token issued for this session
+   * @default false
+   */
+  @IsOptional()
+  @IsBoolean()
+  revokeAll?: boolean;
+}
+
+/**
+ * Session Token Response DTO
+ */
+export class SessionTokenResponseDto {
+  sessionId: string;
+  token: string;
+  expiresAt: Date;
+}
+
+/**
+ * Revoke Token Response DTO
+ */
+export class RevokeTokenResponseDto {
+  revoked: boolean;
+}
+
+/**
+ * Claim Identity DTO
+ *
+ * @description Body for linking this session to an exported identity
+ *
+ * @example
+ * { "recoveryKey": "vN7c1Qe..." }
+ */
+export class ClaimIdentityDto {
+  /**
+   * Recovery key shown when the identity was exported
+   */
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(128)
+  recoveryKey: string;
+}
+
+/**
+ * Identity Status Response DTO
+ */
+export class IdentityStatusResponseDto {
+  linked: boolean;
+  linkedSessions: number;
+  createdAt: Date | null;
+}
+
+/**
+ * Recovery Key Response DTO
+ *
+ * @description The plain key is only returned here; the server keeps a hash
+ */
+export class RecoveryKeyResponseDto {
+  recoveryKey: string;
+  createdAt: Date;
+}
+
+/**
+ * Claim Identity Response DTO
+ */
+export class ClaimIdentityResponseDto {
+  userId: string;
+  linked: boolean;
+  linkedSessions: number;
+}
+
+/**
+ * Erasure job states
+ */
+export enum ErasureStatus {
+  PENDING = 'pending',
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+}
+
+/**
+ * Session Erasure Result DTO
+ *
+ * @description What an erasure job removed. Authored content is only
+ * erased once no other device is linked to the same identity.
+ */
+export class SessionErasureResultDto {
+  contentErased: boolean;
+  messagesErased: number;
+  attachmentsDeleted: number;
+  roomsUpdated: number;
+  reportsAnonymized: number;
+}
+
+/**
+ * Session Erasure Status Response DTO
+ *
+ * @example
+ * {
+ *   "jobId": "q3Hk0d2Jx...",
+ *   "status": "completed",
+ *   "requestedAt": "2025-12-18T10:00:00.000Z",
+ *   "completedAt": "2025-12-18T10:00:02.000Z",
+ *   "result": { "contentErased": true, "messagesErased": 42, "attachmentsDeleted": 3, "roomsUpdated": 2, "reportsAnonymized": 1 }
+ * }
+ */
+export class SessionErasureStatusResponseDto {
+  jobId: string;
+  status: ErasureStatus;
+  requestedAt: Date;
+  completedAt: Date | null;
+  result: SessionErasureResultDto | null;
+}
@@ -0,0 +1,94 @@
+/**
+ * @fileoverview Session Token Guard Unit Tests
+ * @description Tests for session token verification on HTTP requests
+ */
+
+import { ExecutionContext } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { SessionTokenGuard } from './session-token.guard';
+import { SessionTokenService } from '../services/session-token.service';
+import { InvalidSessionTokenException } from '../../../common/exceptions/business.exceptions';
+
+describe('SessionTokenGuard', () => {
+  let guard: SessionTokenGuard;
+  let reflector: { getAllAndOverride: jest.Mock };
+  let sessionTokenService: { verifyToken: jest.Mock };
+
+  const claims = {
+    sub: 'session-123',
+    jti: 'token-1',
+    ver: 0,
+    iat: 1766052000,
+    exp: 1766138400,
+  };
+
+  const createContext = (
+    request: Record<string, any>,
+    type = 'http',
+  ): ExecutionContext =>
+    ({
+      getType: () => type,
+      getHandler: () => undefined,
+      getClass: () => undefined,
+      switchToHttp: () => ({ getRequest: () => request }),
+    }) as unknown as ExecutionContext;
+
+  beforeEach(() => {
+    reflector = { getAllAndOverride: jest.fn().mockReturnValue(false) };
+    sessionTokenService = { verifyToken: jest.fn().mockResolvedValue(claims) };
+    guard = new SessionTokenGuard(
+      reflector as unknown as Reflector,
+      sessionTokenService as unknown as SessionTokenService,
+    );
+  });
+
+  it('should resolve the session from a valid bearer token', async () => {
+    const request = { headers: { authorization: 'Bearer signed-token' } };
+
+    await expect(guard.canActivate(createContext(request))).resolves.toBe(true);
+
+    expect(sessionTokenService.verifyToken).toHaveBeenCalledWith(
+      'signed-token',
+    );
+    expect(request).toMatchObject({
+      sessionId: 'session-123',
+      sessionToken: claims,
+    });
+  });
+
+  it('should ignore a client-supplied X-Session-Id header', async () => {
+    const request = { headers: { 'x-session-id': 'session-456' } };
+
+    await expect(guard.canActivate(createContext(request))).rejects.toThrow(
+      InvalidSessionTokenException,
+    );
+    expect(request).not.toHaveProperty('sessionId');
+  });
+
+  it('should reject a token that fails verification', async () => {
+    sessionTokenService.verifyToken.mockRejectedValue(
+      new InvalidSessionTokenException(),
+    );
+
+    await expect(
+      guard.canActivate(
+        createContext({ headers: { authorization: 'Bearer revoked' } }),
+      ),
+    ).rejects.toThrow(InvalidSessionTokenException);
+  });
+
+  it('should let public routes through', async () => {
+    reflector.getAllAndOverride.mockReturnValue(true);
+
+    await expect(
+      guard.canActivate(createContext({ headers: {} })),
+    ).resolves.toBe(true);
+    expect(sessionTokenService.verifyToken).not.toHaveBeenCalled();
+  });
+
+  it('should leave WebSocket contexts to the handshake middleware', async () => {
+    await expect(guard.canActivate(createContext({}, 'ws'))).resolves.toBe(
+      true,
+    );
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * @fileoverview Session Token Guard
+ * @description Verifies the signed session token on HTTP requests
+ * @module modules/session/guards/session-token
+ */
+
+import { CanActivate, ExecutionContext, Injectable } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { SessionTokenService } from '../services/session-token.service';
+import {
+  IS_PUBLIC_KEY,
+  SessionRequest,
+} from '../../../common/decorators/session.decorator';
+import { InvalidSessionTokenException } from '../../../common/exceptions/business.exceptions';
+
+/**
+ * Session Token Guard
+ *
+ * @description Applied globally. Reads `Authorization: Bearer <token>`,
+ * verifies it and stores the resolved session on the request for the
+ * `@SessionId()` decorator. Routes marked `@Public()` are let through.
+ *
+ * WebSocket connections are checked by the gateway's handshake middleware
+ * instead.
+ *
+ * @class SessionTokenGuard
+ */
+@Injectable()
+export class SessionTokenGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly sessionTokenService: SessionTokenService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    if (context.getType() !== 'http') {
+      return true;
+    }
+
+    const isPublic = this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (isPublic) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<SessionRequest>();
+    const [scheme, token] = (request.headers.authorization || '').split(' ');
+    if (scheme !== 'Bearer' || !token) {
+      throw new InvalidSessionTokenException('Session token is required');
+    }
+
+    const claims = await this.sessionTokenService.verifyToken(token);
+    request.sessionId = claims.sub;
+    request.sessionToken = claims;
+
+    return true;
+  }
+}
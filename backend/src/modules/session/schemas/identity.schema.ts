@@ -0,0 +1,55 @@
+/**
+ * @fileoverview Identity Schema Definition
+ * @description MongoDB schema for opt-in persistent identities
+ * @module modules/session/schemas/identity
+ */
+
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+/**
+ * Identity Schema
+ *
+ * @description A persistent identity that several sessions can share.
+ * Sessions stay anonymous until their owner exports a recovery key; any
+ * session that later claims the key is mapped to the same user ID.
+ *
+ * - _id is the shared user ID, so an identity can't outlive the mapping
+ * - Only a hash of the recovery key is stored
+ * - Not tied to the session TTL, so the key survives idle devices
+ *
+ * @class Identity
+ */
+@Schema({
+  timestamps: true,
+  collection: 'identities',
+})
+export class Identity {
+  @Prop({
+    type: String,
+    required: true,
+  })
+  _id: string;
+
+  @Prop({
+    type: String,
+    required: true,
+    unique: true,
+    index: true,
+  })
+  recoveryKeyHash: string;
+
+  // Timestamps added by Mongoose
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Identity Document type for Mongoose
+ */
+export type IdentityDocument = Identity & Document;
+
+/**
+ * Create the Mongoose schema
+ */
+export const IdentitySchema = SchemaFactory.createForClass(Identity);
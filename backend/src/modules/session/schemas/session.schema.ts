@@ -8,19 +8,34 @@ import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document } from 'mongoose';
 import { generateId } from '../../../common/utils/uuid.util';
 
+/**
+ * Presence status enumeration
+ *
+ * @description Online while the user is active, idle and then away as
+ * their activity heartbeats stop, offline once every socket is gone
+ */
+export enum PresenceStatus {
+  ONLINE = 'online',
+  IDLE = 'idle',
+  AWAY = 'away',
+  OFFLINE = 'offline',
+}
+
 /**
  * User Session Schema
  * 
  * @description Represents an anonymous user session with:
  * - UUID v7 for distributed ID generation
  * - Display name for chat identification
- * - Socket connection tracking
- * - Presence status (online/offline)
+ * - Socket connection tracking (one socket per open tab or device)
+ * - Presence status (online, idle, away, or offline once no socket is connected)
+ * - Last seen: the last activity heartbeat, or when the last socket closed
  * - Chat history references
+ * - Session token version (bumped to revoke every issued token)
  * 
  * Indexes:
  * - sessionId: unique for session lookup
- * - socketId: for WebSocket connection management
+ * - socketIds: for WebSocket connection management
  * - isOnline: for active user queries
  * 
  * @class UserSession
@@ -62,12 +77,11 @@ export class UserSession {
   userId: string | null;
 
   @Prop({
-    type: String,
-    required: false,
-    default: null,
+    type: [String],
+    default: [],
     index: true,
   })
-  socketId: string | null;
+  socketIds: string[];
 
   @Prop({
     type: String,
@@ -83,6 +97,13 @@ export class UserSession {
   })
   isOnline: boolean;
 
+  @Prop({
+    type: String,
+    enum: PresenceStatus,
+    default: PresenceStatus.OFFLINE,
+  })
+  presence: PresenceStatus;
+
   @Prop({
     type: Date,
     default: Date.now,
@@ -101,6 +122,19 @@ export class UserSession {
   })
   archivedChats: string[];
 
+  @Prop({
+    type: Number,
+    default: 0,
+  })
+  tokenVersion: number;
+
+  @Prop({
+    type: Date,
+    required: false,
+    default: null,
+  })
+  tokenIssuedAt: Date | null;
+
   // Timestamps added by Mongoose
   createdAt: Date;
   updatedAt: Date;
@@ -121,6 +155,11 @@ export const UserSessionSchema = SchemaFactory.createForClass(UserSession);
  */
 UserSessionSchema.index({ currentRoomId: 1, isOnline: 1 });
 
+/**
+ * Index for the idle presence sweep
+ */
+UserSessionSchema.index({ presence: 1, lastSeen: 1 });
+
 /**
  * TTL index for automatic session cleanup (30 days)
  */
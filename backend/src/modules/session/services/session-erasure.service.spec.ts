@@ -0,0 +1,157 @@
+/**
+ * @fileoverview Session Erasure Service Unit Tests
+ * @description Tests for queueing session erasure and reading its status
+ */
+
+import { ConfigService } from '@nestjs/config';
+import { Queue } from 'bullmq';
+import {
+  SessionErasureJobData,
+  SessionErasureService,
+} from './session-erasure.service';
+import { SessionService } from './session.service';
+import { SessionTokenService } from './session-token.service';
+import { ChatGateway } from '../../../gateways/chat.gateway';
+import { ErasureStatus, SessionErasureResultDto } from '../dto/session.dto';
+import { ErasureJobNotFoundException } from '../../../common/exceptions/business.exceptions';
+
+describe('SessionErasureService', () => {
+  let service: SessionErasureService;
+  let sessionService: { getUserId: jest.Mock };
+  let sessionTokenService: { revokeAllTokens: jest.Mock };
+  let erasureQueue: { add: jest.Mock; getJob: jest.Mock };
+  let chatGateway: { disconnectSession: jest.Mock };
+
+  const requestedAt = new Date('2025-12-18T10:00:00.000Z');
+  const finishedAt = new Date('2025-12-18T10:00:02.000Z');
+  const result = {
+    contentErased: true,
+    messagesErased: 3,
+    attachmentsDeleted: 1,
+    roomsUpdated: 2,
+    reportsAnonymized: 1,
+  };
+
+  const job = (state: string) => ({
+    id: 'erasure-job',
+    timestamp: requestedAt.getTime(),
+    finishedOn: finishedAt.getTime(),
+    returnvalue: result,
+    getState: jest.fn().mockResolvedValue(state),
+  });
+
+  beforeEach(() => {
+    sessionService = { getUserId: jest.fn().mockResolvedValue('user-123') };
+    sessionTokenService = { revokeAllTokens: jest.fn().mockResolvedValue(1) };
+    erasureQueue = {
+      add: jest
+        .fn()
+        .mockImplementation((_name: string, _data, opts: { jobId: string }) =>
+          Promise.resolve({
+            id: opts.jobId,
+            timestamp: requestedAt.getTime(),
+          }),
+        ),
+      getJob: jest.fn().mockResolvedValue(job('waiting')),
+    };
+    chatGateway = { disconnectSession: jest.fn() };
+
+    const configService = {
+      get: jest.fn((_key: string, fallback: unknown) => fallback),
+    };
+
+    service = new SessionErasureService(
+      sessionService as unknown as SessionService,
+      sessionTokenService as unknown as SessionTokenService,
+      erasureQueue as unknown as Queue<
+        SessionErasureJobData,
+        SessionErasureResultDto
+      >,
+      configService as unknown as ConfigService,
+      chatGateway as unknown as ChatGateway,
+    );
+    service.onModuleInit();
+  });
+
+  describe('requestErasure', () => {
+    it('should revoke the tokens and queue the session with its user', async () => {
+      const status = await service.requestErasure('session-123');
+
+      expect(sessionTokenService.revokeAllTokens).toHaveBeenCalledWith(
+        'session-123',
+      );
+      expect(erasureQueue.add).toHaveBeenCalledWith(
+        'erase-session',
+        { sessionId: 'session-123', userId: 'user-123' },
+        expect.objectContaining({
+          removeOnComplete: { age: 86400 },
+          removeOnFail: { age: 86400 },
+        }),
+      );
+      expect(status).toEqual({
+        jobId: expect.any(String),
+        status: ErasureStatus.PENDING,
+        requestedAt,
+        completedAt: null,
+        result: null,
+      });
+    });
+
+    it("should close the session's sockets once its tokens are revoked", async () => {
+      sessionTokenService.revokeAllTokens.mockImplementation(() => {
+        expect(chatGateway.disconnectSession).not.toHaveBeenCalled();
+        return Promise.resolve(1);
+      });
+
+      await service.requestErasure('session-123');
+
+      expect(chatGateway.disconnectSession).toHaveBeenCalledWith('session-123');
+    });
+
+    it('should use an unguessable job ID', async () => {
+      const first = await service.requestErasure('session-123');
+      const second = await service.requestErasure('session-123');
+
+      expect(first.jobId).toMatch(/^[A-Za-z0-9_-]{32,}$/);
+      expect(first.jobId).not.toBe(second.jobId);
+    });
+  });
+
+  describe('getStatus', () => {
+    it.each([
+      ['waiting', ErasureStatus.PENDING],
+      ['delayed', ErasureStatus.PENDING],
+      ['active', ErasureStatus.RUNNING],
+      ['failed', ErasureStatus.FAILED],
+    ])('should report a %s job as %s', async (state, status) => {
+      erasureQueue.getJob.mockResolvedValue(job(state));
+
+      const response = await service.getStatus('erasure-job');
+
+      expect(response.status).toBe(status);
+      expect(response.result).toBeNull();
+    });
+
+    it('should return the result of a completed job', async () => {
+      erasureQueue.getJob.mockResolvedValue(job('completed'));
+
+      const response = await service.getStatus('erasure-job');
+
+      expect(response).toEqual({
+        jobId: 'erasure-job',
+        status: ErasureStatus.COMPLETED,
+        requestedAt,
+        completedAt: finishedAt,
+        result,
+      });
+    });
+
+    it('should throw when the job is unknown or expired', async () => {
+      erasureQueue.getJob.mockResolvedValue(undefined);
+
+      await expect(service.getStatus('missing')).rejects.toThrow(
+        ErasureJobNotFoundException,
+      );
+    });
+  });
+});
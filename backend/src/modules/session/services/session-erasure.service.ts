@@ -0,0 +1,164 @@
+/**
+ * @fileoverview Session Erasure Service
+ * @description Queues erasure of everything tied to a session and reports
+ * on its progress
+ * @module modules/session/services/session-erasure
+ *
+ * Design Pattern: Service Layer Pattern
+ * - Hands erasure to the session-erasure queue; the processor does the work
+ * - Job IDs are unguessable, so the status can be read without a session
+ */
+
+import {
+  Injectable,
+  Inject,
+  Logger,
+  OnModuleInit,
+  forwardRef,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectQueue } from '@nestjs/bullmq';
+import { Job, Queue } from 'bullmq';
+import { SessionService } from './session.service';
+import { SessionTokenService } from './session-token.service';
+import { ChatGateway } from '../../../gateways/chat.gateway';
+import {
+  ErasureStatus,
+  SessionErasureResultDto,
+  SessionErasureStatusResponseDto,
+} from '../dto/session.dto';
+import { generateInviteToken } from '../../../common/utils/secret.util';
+import { ErasureJobNotFoundException } from '../../../common/exceptions/business.exceptions';
+
+/**
+ * Data of an erase-session job
+ */
+export interface SessionErasureJobData {
+  sessionId: string;
+  /** User ID the session was mapped to when erasure was requested */
+  userId: string | null;
+}
+
+/**
+ * Session Erasure Service
+ *
+ * @description Handles requests to erase a session:
+ * - Revokes the session's tokens and closes its sockets straight away
+ * - Queues the erasure itself on the session-erasure queue
+ * - Keeps each job's status for SESSION_ERASURE_STATUS_TTL_SECONDS
+ *
+ * @class SessionErasureService
+ */
+@Injectable()
+export class SessionErasureService implements OnModuleInit {
+  private readonly logger = new Logger(SessionErasureService.name);
+
+  private statusTtlSeconds: number;
+
+  constructor(
+    private readonly sessionService: SessionService,
+    private readonly sessionTokenService: SessionTokenService,
+    @InjectQueue('session-erasure')
+    private readonly erasureQueue: Queue<
+      SessionErasureJobData,
+      SessionErasureResultDto
+    >,
+    private readonly configService: ConfigService,
+    @Inject(forwardRef(() => ChatGateway))
+    private readonly chatGateway: ChatGateway,
+  ) {}
+
+  onModuleInit(): void {
+    this.statusTtlSeconds = Number(
+      this.configService.get<number>(
+        'SESSION_ERASURE_STATUS_TTL_SECONDS',
+        86400,
+      ),
+    );
+  }
+
+  /**
+   * Queues erasure of a session
+   *
+   * @description The session's tokens stop working and its open sockets
+   * are closed before the job runs, so nothing new can be written while
+   * it waits.
+   *
+   * @param {string} sessionId - Session to erase
+   * @returns {Promise<SessionErasureStatusResponseDto>} The queued job
+   *
+   * @example
+   * const { jobId } = await sessionErasureService.requestErasure(sessionId);
+   */
+  async requestErasure(
+    sessionId: string,
+  ): Promise<SessionErasureStatusResponseDto> {
+    const userId = await this.sessionService.getUserId(sessionId);
+
+    await this.sessionTokenService.revokeAllTokens(sessionId);
+    this.chatGateway.disconnectSession(sessionId);
+
+    const job = await this.erasureQueue.add(
+      'erase-session',
+      { sessionId, userId },
+      {
+        jobId: generateInviteToken(),
+        attempts: 5,
+        backoff: { type: 'exponential', delay: 5000 },
+        removeOnComplete: { age: this.statusTtlSeconds },
+        removeOnFail: { age: this.statusTtlSeconds },
+      },
+    );
+
+    this.logger.log(`Erasure queued for session ${sessionId.slice(0, 8)}...`);
+
+    return this.toStatus(job, ErasureStatus.PENDING);
+  }
+
+  /**
+   * Gets the status of an erasure job
+   *
+   * @param {string} jobId - Job ID from requestErasure
+   * @returns {Promise<SessionErasureStatusResponseDto>} Job status
+   * @throws {ErasureJobNotFoundException} If the job doesn't exist or has expired
+   */
+  async getStatus(jobId: string): Promise<SessionErasureStatusResponseDto> {
+    const job = await this.erasureQueue.getJob(jobId);
+    if (!job) {
+      throw new ErasureJobNotFoundException();
+    }
+
+    const state = await job.getState();
+    const status =
+      state === 'completed'
+        ? ErasureStatus.COMPLETED
+        : state === 'failed'
+          ? ErasureStatus.FAILED
+          : state === 'active'
+            ? ErasureStatus.RUNNING
+            : ErasureStatus.PENDING;
+
+    return this.toStatus(job, status);
+  }
+
+  /**
+   * Maps a job to its status response
+   *
+   * @private
+   */
+  private toStatus(
+    job: Job<SessionErasureJobData, SessionErasureResultDto>,
+    status: ErasureStatus,
+  ): SessionErasureStatusResponseDto {
+    const finished =
+      status === ErasureStatus.COMPLETED || status === ErasureStatus.FAILED;
+
+    return {
+      jobId: job.id!,
+      status,
+      requestedAt: new Date(job.timestamp),
+      completedAt: finished && job.finishedOn ? new Date(job.finishedOn) : null,
+      result: status === ErasureStatus.COMPLETED ? job.returnvalue : null,
+    };
+  }
+}
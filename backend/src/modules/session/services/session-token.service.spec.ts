@@ -0,0 +1,89 @@
+/**
+ * @fileoverview Session Token Service Unit Tests
+ * @description Tests for issuing first tokens and upgrading legacy sessions
+ */
+
+import { ConfigService } from '@nestjs/config';
+import { Model } from 'mongoose';
+import Redis from 'ioredis';
+import { SessionTokenService } from './session-token.service';
+import { UserSessionDocument } from '../schemas/session.schema';
+import { verifySessionToken } from '../../../common/utils/session-token.util';
+import { InvalidSessionTokenException } from '../../../common/exceptions/business.exceptions';
+
+describe('SessionTokenService', () => {
+  let service: SessionTokenService;
+  let sessionModel: { create: jest.Mock; findOneAndUpdate: jest.Mock };
+
+  const secret = 'test-secret';
+
+  beforeEach(() => {
+    sessionModel = {
+      create: jest
+        .fn()
+        .mockImplementation((doc: { sessionId: string }) =>
+          Promise.resolve({ ...doc, tokenVersion: 0 }),
+        ),
+      findOneAndUpdate: jest.fn().mockReturnValue({
+        exec: jest.fn().mockResolvedValue(null),
+      }),
+    };
+
+    const config: Record<string, unknown> = { SESSION_TOKEN_SECRET: secret };
+    const configService = {
+      get: jest.fn(
+        (key: string, fallback?: unknown) => config[key] ?? fallback,
+      ),
+    };
+
+    service = new SessionTokenService(
+      sessionModel as unknown as Model<UserSessionDocument>,
+      {} as Redis,
+      configService as unknown as ConfigService,
+    );
+    service.onModuleInit();
+  });
+
+  describe('issueToken', () => {
+    it('should create a new session with a server-generated ID', async () => {
+      const issued = await service.issueToken();
+
+      expect(sessionModel.create).toHaveBeenCalledWith({
+        sessionId: issued.sessionId,
+        tokenIssuedAt: expect.any(Date),
+      });
+      expect(verifySessionToken(issued.token, secret)?.sub).toBe(
+        issued.sessionId,
+      );
+      expect(sessionModel.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should upgrade a stored legacy session that never had a token', async () => {
+      sessionModel.findOneAndUpdate.mockReturnValue({
+        exec: jest.fn().mockResolvedValue({ tokenVersion: 0 }),
+      });
+
+      const issued = await service.issueToken('legacy-session');
+
+      expect(issued.sessionId).toBe('legacy-session');
+      expect(sessionModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { sessionId: 'legacy-session', tokenIssuedAt: null },
+        { tokenIssuedAt: expect.any(Date) },
+        { new: true },
+      );
+    });
+
+    it('should not upgrade a session that already has tokens', async () => {
+      await expect(service.issueToken('upgraded-session')).rejects.toThrow(
+        InvalidSessionTokenException,
+      );
+    });
+
+    it('should not adopt an unknown session ID', async () => {
+      await expect(service.issueToken('made-up-session')).rejects.toThrow(
+        InvalidSessionTokenException,
+      );
+      expect(sessionModel.create).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,372 @@
+/**
+ * @fileoverview Session Token Service
+ * @description Issues, verifies, rotates and revokes signed session tokens
+ * @module modules/session/services/session-token
+ */
+
+import { Injectable, Inject, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import Redis from 'ioredis';
+import { randomBytes } from 'crypto';
+import { REDIS_CLIENT } from '../../../config/redis.module';
+import { UserSession, UserSessionDocument } from '../schemas/session.schema';
+import { generateId } from '../../../common/utils/uuid.util';
+import {
+  signSessionToken,
+  verifySessionToken,
+  SessionTokenClaims,
+} from '../../../common/utils/session-token.util';
+import { InvalidSessionTokenException } from '../../../common/exceptions/business.exceptions';
+
+/**
+ * Cache keys for token state
+ */
+const CACHE_KEYS = {
+  TOKEN_VERSION: (sessionId: string) => `session:${sessionId}:tokenVersion`,
+  REVOKED_TOKEN: (jti: string) => `session-token:revoked:${jti}`,
+};
+
+/**
+ * Issued session token
+ */
+export interface IssuedSessionToken {
+  sessionId: string;
+  token: string;
+  expiresAt: Date;
+}
+
+/**
+ * Session Token Service
+ *
+ * @description Session IDs used to be sent as a raw header, so anyone who
+ * learned one could act as that user. Clients now exchange them for a
+ * signed, expiring token:
+ * - New clients get a server-generated session with its first token
+ * - A legacy client's session can be upgraded once, while it has never had
+ *   a token, from the X-Session-Id header it already sends
+ * - Every later token comes from rotating the current one, which is still
+ *   allowed for a while after it expires
+ *
+ * Revocation:
+ * - A single token is deny-listed in Redis until it would have expired
+ * - All of a session's tokens are revoked by bumping its token version
+ *
+ * @class SessionTokenService
+ */
+@Injectable()
+export class SessionTokenService implements OnModuleInit {
+  private readonly logger = new Logger(SessionTokenService.name);
+
+  private secret: string;
+  private tokenTtlSeconds: number;
+  private refreshWindowSeconds: number;
+  private versionCacheTtl: number;
+
+  constructor(
+    @InjectModel(UserSession.name)
+    private readonly sessionModel: Model<UserSessionDocument>,
+    @Inject(REDIS_CLIENT)
+    private readonly redisClient: Redis,
+    private readonly configService: ConfigService,
+  ) {}
+
+  onModuleInit(): void {
+    const secret = this.configService.get<string>('SESSION_TOKEN_SECRET');
+    if (!secret) {
+      if (this.configService.get<string>('NODE_ENV') === 'production') {
+        throw new Error('SESSION_TOKEN_SECRET must be set in production');
+      }
+      // Tokens won't survive a restart or work across instances
+      this.logger.warn('SESSION_TOKEN_SECRET not set, using a random secret');
+    }
+    this.secret = secret || randomBytes(32).toString('hex');
+    this.tokenTtlSeconds = this.configService.get<number>(
+      'SESSION_TOKEN_TTL_SECONDS',
+      24 * 60 * 60,
+    );
+    this.refreshWindowSeconds = this.configService.get<number>(
+      'SESSION_TOKEN_REFRESH_WINDOW_SECONDS',
+      30 * 24 * 60 * 60,
+    );
+    this.versionCacheTtl = this.configService.get<number>(
+      'CACHE_TTL_SESSION',
+      86400,
+    );
+  }
+
+  /**
+   * Issues a token for a new session or upgrades a legacy one
+   *
+   * @description Clients from before tokens sent their session ID in the
+   * X-Session-Id header on every request. A request carrying that header
+   * for a stored session that has never had a token upgrades it, once.
+   * Unknown session IDs are never adopted.
+   *
+   * @param {string} [legacySessionId] - Session ID from the X-Session-Id header; omit for a new session
+   * @returns {Promise<IssuedSessionToken>} The session ID and its token
+   * @throws {InvalidSessionTokenException} If the session is unknown or already has tokens
+   *
+   * @example
+   * const { sessionId, token } = await sessionTokenService.issueToken();
+   */
+  async issueToken(legacySessionId?: string): Promise<IssuedSessionToken> {
+    if (!legacySessionId) {
+      const session = await this.sessionModel.create({
+        sessionId: generateId(),
+        tokenIssuedAt: new Date(),
+      });
+      this.logger.log(
+        `Issued token for new session ${session.sessionId.slice(0, 8)}...`,
+      );
+      return this.sign(session.sessionId, session.tokenVersion);
+    }
+
+    // Claim the upgrade atomically so a session ID can only be upgraded once
+    const upgraded = await this.sessionModel
+      .findOneAndUpdate(
+        { sessionId: legacySessionId, tokenIssuedAt: null },
+        { tokenIssuedAt: new Date() },
+        { new: true },
+      )
+      .exec();
+
+    if (!upgraded) {
+      throw new InvalidSessionTokenException(
+        'This session is unknown or already uses tokens. Start a new session or refresh an existing token.',
+      );
+    }
+
+    this.logger.log(
+      `Upgraded legacy session ${legacySessionId.slice(0, 8)}... to tokens`,
+    );
+    return this.sign(legacySessionId, upgraded.tokenVersion);
+  }
+
+  /**
+   * Verifies a token and resolves its session
+   *
+   * @param {string} token - Token from the client
+   * @param {boolean} [forRefresh] - Accept a token inside its refresh window
+   * @returns {Promise<SessionTokenClaims>} Verified claims (`sub` is the session ID)
+   * @throws {InvalidSessionTokenException} If the token is forged, expired or revoked
+   */
+  async verifyToken(
+    token: string,
+    forRefresh = false,
+  ): Promise<SessionTokenClaims> {
+    const claims = verifySessionToken(
+      token,
+      this.secret,
+      forRefresh ? this.refreshWindowSeconds : 0,
+    );
+    if (!claims) {
+      throw new InvalidSessionTokenException();
+    }
+
+    if (!(await this.isTokenActive(claims))) {
+      throw new InvalidSessionTokenException();
+    }
+
+    return claims;
+  }
+
+  /**
+   * Checks that a verified token hasn't been revoked since
+   *
+   * @description Expiry isn't checked; sockets keep the claims from their
+   * handshake and use this to find out when those were revoked.
+   *
+   * @param {SessionTokenClaims} claims - Claims of a verified token
+   * @returns {Promise<boolean>} False if the token or its session was revoked
+   */
+  async isTokenActive(claims: SessionTokenClaims): Promise<boolean> {
+    if (await this.isRevoked(claims.jti)) {
+      return false;
+    }
+
+    const version = await this.getTokenVersion(claims.sub);
+    return version !== null && version === claims.ver;
+  }
+
+  /**
+   * Replaces a token with a fresh one
+   *
+   * @description The old token stops working. With `revokeAll`, every other
+   * token issued for the session does too, which is the way to shut out a
+   * leaked token.
+   *
+   * @param {SessionTokenClaims} claims - Verified claims of the current token
+   * @param {boolean} [revokeAll] - Also revoke every other token
+   * @returns {Promise<IssuedSessionToken>} The new token
+   */
+  async rotateToken(
+    claims: SessionTokenClaims,
+    revokeAll = false,
+  ): Promise<IssuedSessionToken> {
+    if (revokeAll) {
+      const version = await this.revokeAllTokens(claims.sub);
+      return this.sign(claims.sub, version);
+    }
+
+    await this.revokeToken(claims);
+    // Re-read: without Redis, revoking one token bumps the version
+    const version = await this.getTokenVersion(claims.sub);
+    return this.sign(claims.sub, version ?? claims.ver);
+  }
+
+  /**
+   * Revokes a single token
+   *
+   * @param {SessionTokenClaims} claims - Verified claims of the token
+   * @returns {Promise<void>}
+   */
+  async revokeToken(claims: SessionTokenClaims): Promise<void> {
+    // Keep it listed for as long as it could still be refreshed
+    const ttl =
+      claims.exp + this.refreshWindowSeconds - Math.floor(Date.now() / 1000);
+    if (ttl <= 0) return;
+
+    try {
+      if (this.redisClient.status === 'ready') {
+        await this.redisClient.setex(
+          CACHE_KEYS.REVOKED_TOKEN(claims.jti),
+          ttl,
+          '1',
+        );
+        return;
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.warn(`Failed to deny-list token: ${message}`);
+    }
+
+    // Revoking everything still works without Redis
+    await this.revokeAllTokens(claims.sub);
+  }
+
+  /**
+   * Revokes every token issued for a session
+   *
+   * @param {string} sessionId - Session ID
+   * @returns {Promise<number>} The new token version
+   */
+  async revokeAllTokens(sessionId: string): Promise<number> {
+    const session = await this.sessionModel
+      .findOneAndUpdate(
+        { sessionId },
+        { $inc: { tokenVersion: 1 } },
+        { new: true },
+      )
+      .exec();
+
+    await this.cacheVersionSafe(sessionId, session?.tokenVersion ?? null);
+    this.logger.log(
+      `Revoked all tokens for session ${sessionId.slice(0, 8)}...`,
+    );
+
+    return session?.tokenVersion ?? 0;
+  }
+
+  /**
+   * Drops the cached token version of an erased session
+   *
+   * @description Once the session document is gone, its tokens no longer
+   * verify; without the cached version they would keep working until it
+   * expired.
+   *
+   * @param {string} sessionId - Erased session ID
+   * @returns {Promise<void>}
+   */
+  async forgetSession(sessionId: string): Promise<void> {
+    await this.cacheVersionSafe(sessionId, null);
+  }
+
+  /**
+   * Signs a token for a session at the given version
+   *
+   * @private
+   */
+  private sign(sessionId: string, version: number): IssuedSessionToken {
+    const iat = Math.floor(Date.now() / 1000);
+    const exp = iat + this.tokenTtlSeconds;
+    const token = signSessionToken(
+      { sub: sessionId, jti: generateId(), ver: version, iat, exp },
+      this.secret,
+    );
+
+    return { sessionId, token, expiresAt: new Date(exp * 1000) };
+  }
+
+  /**
+   * Checks the Redis deny-list for a token ID
+   *
+   * @private
+   */
+  private async isRevoked(jti: string): Promise<boolean> {
+    try {
+      if (this.redisClient.status === 'ready') {
+        return (
+          (await this.redisClient.exists(CACHE_KEYS.REVOKED_TOKEN(jti))) === 1
+        );
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.warn(`Redis unavailable for token deny-list: ${message}`);
+    }
+    return false;
+  }
+
+  /**
+   * Gets a session's current token version (cached)
+   *
+   * @private
+   * @returns {Promise<number | null>} Version, or null if the session is gone
+   */
+  private async getTokenVersion(sessionId: string): Promise<number | null> {
+    try {
+      if (this.redisClient.status === 'ready') {
+        const cached = await this.redisClient.get(
+          CACHE_KEYS.TOKEN_VERSION(sessionId),
+        );
+        if (cached !== null) return Number(cached);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.warn(`Redis unavailable for getTokenVersion: ${message}`);
+    }
+
+    const session = await this.sessionModel.findOne({ sessionId }).exec();
+    const version = session ? session.tokenVersion : null;
+    await this.cacheVersionSafe(sessionId, version);
+
+    return version;
+  }
+
+  /**
+   * Safely cache a token version (doesn't fail if Redis is unavailable)
+   *
+   * @private
+   */
+  private async cacheVersionSafe(
+    sessionId: string,
+    version: number | null,
+  ): Promise<void> {
+    try {
+      if (this.redisClient.status !== 'ready') return;
+      if (version === null) {
+        await this.redisClient.del(CACHE_KEYS.TOKEN_VERSION(sessionId));
+      } else {
+        await this.redisClient.setex(
+          CACHE_KEYS.TOKEN_VERSION(sessionId),
+          this.versionCacheTtl,
+          String(version),
+        );
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.warn(`Failed to cache token version: ${message}`);
+    }
+  }
+}
@@ -4,22 +4,49 @@
  */
 
 import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
 import { getModelToken } from '@nestjs/mongoose';
 import { SessionService } from './session.service';
 import { UserSession } from '../schemas/session.schema';
+import { Identity } from '../schemas/identity.schema';
 import { REDIS_CLIENT } from '../../../config/redis.module';
+import { PresenceStatus } from '../schemas/session.schema';
+import { InvalidRecoveryKeyException } from '../../../common/exceptions/business.exceptions';
 
 describe('SessionService', () => {
   let service: SessionService;
-  let sessionModel: any;
-  let redisClient: any;
+  let sessionModel: {
+    findOne: jest.Mock;
+    findOneAndUpdate: jest.Mock;
+    updateOne: jest.Mock;
+    updateMany: jest.Mock;
+    find: jest.Mock;
+    create: jest.Mock;
+  };
+  let identityModel: {
+    findOne: jest.Mock;
+    findOneAndUpdate: jest.Mock;
+    create: jest.Mock;
+  };
+  let redisClient: {
+    get: jest.Mock;
+    set: jest.Mock;
+    setex: jest.Mock;
+    del: jest.Mock;
+    hset: jest.Mock;
+    hdel: jest.Mock;
+    expire: jest.Mock;
+    status: string;
+  };
 
   const mockSession = {
     _id: 'session-123',
     sessionId: 'session-123',
     userId: 'user-123',
-    socketId: null,
+    socketIds: [],
+    currentRoomId: null,
     isOnline: false,
+    presence: PresenceStatus.OFFLINE,
     chatHistory: ['room-1', 'room-2'],
     archivedChats: ['room-3'],
     deletedChats: [],
@@ -29,41 +56,69 @@ describe('SessionService', () => {
   };
 
   beforeEach(async () => {
-    const mockSessionModel = {
+    sessionModel = {
       findOne: jest.fn().mockReturnValue({
         exec: jest.fn().mockResolvedValue(mockSession),
       }),
       findOneAndUpdate: jest.fn().mockReturnValue({
         exec: jest.fn().mockResolvedValue(mockSession),
       }),
+      updateOne: jest.fn().mockResolvedValue({ modifiedCount: 1 }),
+      updateMany: jest.fn().mockResolvedValue({ modifiedCount: 1 }),
+      find: jest.fn().mockReturnValue({
+        select: jest.fn().mockReturnThis(),
+        limit: jest.fn().mockReturnThis(),
+        exec: jest.fn().mockResolvedValue([]),
+      }),
       create: jest.fn().mockResolvedValue(mockSession),
     };
 
-    const mockRedisClient = {
+    identityModel = {
+      findOne: jest.fn().mockReturnValue({
+        exec: jest.fn().mockResolvedValue(null),
+      }),
+      findOneAndUpdate: jest.fn().mockReturnValue({
+        exec: jest.fn().mockResolvedValue(null),
+      }),
+      create: jest.fn(),
+    };
+
+    const mockConfigService = {
+      get: jest.fn((_key: string, defaultValue?: unknown) => defaultValue),
+    };
+
+    redisClient = {
       get: jest.fn().mockResolvedValue(null),
       set: jest.fn().mockResolvedValue('OK'),
       setex: jest.fn().mockResolvedValue('OK'),
       del: jest.fn().mockResolvedValue(1),
+      hset: jest.fn().mockResolvedValue(1),
+      hdel: jest.fn().mockResolvedValue(1),
+      expire: jest.fn().mockResolvedValue(1),
       status: 'ready',
     };
 
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         SessionService,
-        { provide: getModelToken(UserSession.name), useValue: mockSessionModel },
-        { provide: REDIS_CLIENT, useValue: mockRedisClient },
+        { provide: getModelToken(UserSession.name), useValue: sessionModel },
+        { provide: getModelToken(Identity.name), useValue: identityModel },
+        { provide: REDIS_CLIENT, useValue: redisClient },
+        { provide: ConfigService, useValue: mockConfigService },
       ],
     }).compile();
 
     service = module.get<SessionService>(SessionService);
-    sessionModel = module.get(getModelToken(UserSession.name));
-    redisClient = module.get(REDIS_CLIENT);
+    service.onModuleInit();
   });
 
   afterEach(() => {
     jest.clearAllMocks();
   });
 
+  const minutesAgoDate = (minutes: number) =>
+    new Date(Date.now() - minutes * 60000);
+
   describe('getOrCreateUserId', () => {
     it('should return existing user ID from cache', async () => {
       redisClient.get.mockResolvedValue('cached-user-123');
@@ -145,44 +200,245 @@ describe('SessionService', () => {
   });
 
   describe('connectSocket', () => {
-    it('should update session with socket ID', async () => {
+    it('should add the socket without replacing other tabs', async () => {
       await service.connectSocket('session-123', 'socket-456');
 
       expect(sessionModel.findOneAndUpdate).toHaveBeenCalledWith(
         { sessionId: 'session-123' },
         expect.objectContaining({
-          socketId: 'socket-456',
+          $addToSet: { socketIds: 'socket-456' },
           isOnline: true,
+          presence: PresenceStatus.ONLINE,
         }),
         { upsert: true },
       );
     });
+
+    it('should report the session coming online', async () => {
+      const change = await service.connectSocket('session-123', 'socket-456');
+
+      expect(change).toMatchObject({
+        sessionId: 'session-123',
+        userId: 'user-123',
+        status: PresenceStatus.ONLINE,
+      });
+    });
+
+    it('should not report a change for another tab of an online session', async () => {
+      sessionModel.findOneAndUpdate.mockReturnValue({
+        exec: jest.fn().mockResolvedValue({
+          ...mockSession,
+          presence: PresenceStatus.ONLINE,
+        }),
+      });
+
+      const change = await service.connectSocket('session-123', 'socket-789');
+
+      expect(change).toBeNull();
+    });
   });
 
   describe('disconnectSocket', () => {
-    it('should clear socket ID and set offline', async () => {
-      await service.disconnectSocket('session-123');
+    beforeEach(() => {
+      redisClient.get.mockResolvedValue('session-123');
+    });
 
-      expect(sessionModel.findOneAndUpdate).toHaveBeenCalledWith(
+    it('should remove the socket and go offline with the last one', async () => {
+      sessionModel.findOneAndUpdate.mockReturnValue({
+        exec: jest
+          .fn()
+          .mockResolvedValue({ ...mockSession, currentRoomId: 'room-1' }),
+      });
+
+      const result = await service.disconnectSocket('socket-456');
+
+      expect(result).toMatchObject({
+        sessionId: 'session-123',
+        isOnline: false,
+        presenceChange: {
+          status: PresenceStatus.OFFLINE,
+          roomId: 'room-1',
+        },
+      });
+      expect(sessionModel.updateOne).toHaveBeenCalledWith(
         { sessionId: 'session-123' },
+        expect.objectContaining({ $pull: { socketIds: 'socket-456' } }),
+      );
+      expect(sessionModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { sessionId: 'session-123', socketIds: { $size: 0 } },
         expect.objectContaining({
-          socketId: null,
           isOnline: false,
+          presence: PresenceStatus.OFFLINE,
+        }),
+      );
+      expect(redisClient.hdel).toHaveBeenCalledWith(
+        'room:room-1:presence',
+        'session-123',
+      );
+    });
+
+    it('should stay online while another tab is connected', async () => {
+      sessionModel.findOneAndUpdate.mockReturnValue({
+        exec: jest.fn().mockResolvedValue(null),
+      });
+
+      const result = await service.disconnectSocket('socket-456');
+
+      expect(result).toEqual({
+        sessionId: 'session-123',
+        isOnline: true,
+        presenceChange: null,
+      });
+      expect(redisClient.hdel).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('recordActivity', () => {
+    it('should bring an idle session back online', async () => {
+      sessionModel.findOneAndUpdate.mockReturnValue({
+        exec: jest.fn().mockResolvedValue({
+          ...mockSession,
+          isOnline: true,
+          presence: PresenceStatus.IDLE,
+          currentRoomId: 'room-1',
         }),
+      });
+
+      const change = await service.recordActivity('session-123');
+
+      expect(change).toMatchObject({
+        status: PresenceStatus.ONLINE,
+        roomId: 'room-1',
+      });
+      expect(sessionModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { sessionId: 'session-123', isOnline: true },
+        expect.objectContaining({ presence: PresenceStatus.ONLINE }),
       );
+      expect(redisClient.hset).toHaveBeenCalledWith(
+        'room:room-1:presence',
+        'session-123',
+        PresenceStatus.ONLINE,
+      );
+    });
+
+    it('should not report a change while already online', async () => {
+      sessionModel.findOneAndUpdate.mockReturnValue({
+        exec: jest.fn().mockResolvedValue({
+          ...mockSession,
+          presence: PresenceStatus.ONLINE,
+        }),
+      });
+
+      expect(await service.recordActivity('session-123')).toBeNull();
+    });
+  });
+
+  describe('expireIdlePresence', () => {
+    it('should move quiet sessions to idle, and long-quiet ones to away', async () => {
+      sessionModel.find.mockReturnValue({
+        select: jest.fn().mockReturnThis(),
+        limit: jest.fn().mockReturnThis(),
+        exec: jest.fn().mockResolvedValue([
+          {
+            ...mockSession,
+            sessionId: 's-1',
+            presence: PresenceStatus.ONLINE,
+            lastSeen: minutesAgoDate(5),
+          },
+          {
+            ...mockSession,
+            sessionId: 's-2',
+            presence: PresenceStatus.IDLE,
+            lastSeen: minutesAgoDate(30),
+          },
+          {
+            ...mockSession,
+            sessionId: 's-3',
+            presence: PresenceStatus.IDLE,
+            lastSeen: minutesAgoDate(5),
+          },
+        ]),
+      });
+
+      const changes = await service.expireIdlePresence();
+
+      expect(changes.map((c) => [c.sessionId, c.status])).toEqual([
+        ['s-1', PresenceStatus.IDLE],
+        ['s-2', PresenceStatus.AWAY],
+      ]);
+    });
+
+    it('should skip sessions that changed since they were read', async () => {
+      sessionModel.find.mockReturnValue({
+        select: jest.fn().mockReturnThis(),
+        limit: jest.fn().mockReturnThis(),
+        exec: jest.fn().mockResolvedValue([
+          {
+            ...mockSession,
+            presence: PresenceStatus.ONLINE,
+            lastSeen: minutesAgoDate(5),
+          },
+        ]),
+      });
+      sessionModel.findOneAndUpdate.mockReturnValue({
+        exec: jest.fn().mockResolvedValue(null),
+      });
+
+      expect(await service.expireIdlePresence()).toEqual([]);
+    });
+  });
+
+  describe('getUsersPresence', () => {
+    it("should combine a user's sessions into their most present state", async () => {
+      const older = minutesAgoDate(10);
+      const newer = minutesAgoDate(1);
+      sessionModel.find.mockReturnValue({
+        select: jest.fn().mockReturnThis(),
+        exec: jest.fn().mockResolvedValue([
+          { userId: 'user-1', presence: PresenceStatus.AWAY, lastSeen: newer },
+          {
+            userId: 'user-1',
+            presence: PresenceStatus.ONLINE,
+            lastSeen: older,
+          },
+          {
+            userId: 'user-2',
+            presence: PresenceStatus.OFFLINE,
+            lastSeen: older,
+          },
+        ]),
+      });
+
+      const presence = await service.getUsersPresence(['user-1', 'user-2']);
+
+      expect(presence.get('user-1')).toEqual({
+        status: PresenceStatus.ONLINE,
+        lastSeen: newer,
+      });
+      expect(presence.get('user-2')?.status).toBe(PresenceStatus.OFFLINE);
     });
   });
 
   describe('addToHistory', () => {
-    it('should add room to chat history', async () => {
+    it('should add room to chat history on every linked session', async () => {
       await service.addToHistory('session-123', 'room-new');
 
-      expect(sessionModel.findOneAndUpdate).toHaveBeenCalledWith(
+      expect(sessionModel.updateMany).toHaveBeenCalledWith(
+        { userId: 'user-123' },
+        { $addToSet: { chatHistory: 'room-new' } },
+      );
+    });
+
+    it('should only update the session itself before it has a user', async () => {
+      sessionModel.findOne.mockReturnValue({
+        exec: jest.fn().mockResolvedValue({ ...mockSession, userId: null }),
+      });
+
+      await service.addToHistory('session-123', 'room-new');
+
+      expect(sessionModel.updateMany).toHaveBeenCalledWith(
         { sessionId: 'session-123' },
-        expect.objectContaining({
-          $addToSet: { chatHistory: 'room-new' },
-        }),
-        expect.any(Object),
+        { $addToSet: { chatHistory: 'room-new' } },
       );
     });
   });
@@ -191,12 +447,9 @@ describe('SessionService', () => {
     it('should archive a chat', async () => {
       await service.archiveChat('session-123', 'room-1');
 
-      expect(sessionModel.findOneAndUpdate).toHaveBeenCalledWith(
-        { sessionId: 'session-123' },
-        expect.objectContaining({
-          $addToSet: { archivedChats: 'room-1' },
-        }),
-        expect.any(Object),
+      expect(sessionModel.updateMany).toHaveBeenCalledWith(
+        { userId: 'user-123' },
+        { $addToSet: { archivedChats: 'room-1' } },
       );
     });
   });
@@ -205,55 +458,82 @@ describe('SessionService', () => {
     it('should unarchive a chat', async () => {
       await service.unarchiveChat('session-123', 'room-3');
 
-      expect(sessionModel.findOneAndUpdate).toHaveBeenCalledWith(
-        { sessionId: 'session-123' },
-        expect.objectContaining({
-          $pull: { archivedChats: 'room-3' },
-        }),
-        expect.any(Object),
+      expect(sessionModel.updateMany).toHaveBeenCalledWith(
+        { userId: 'user-123' },
+        { $pull: { archivedChats: 'room-3' } },
       );
     });
   });
 
-  describe('deleteFromHistory', () => {
-    it('should delete room from history', async () => {
-      await service.deleteFromHistory('session-123', 'room-1');
+  describe('removeFromHistory', () => {
+    it('should remove room from history and archives', async () => {
+      await service.removeFromHistory('session-123', 'room-1');
 
-      expect(sessionModel.findOneAndUpdate).toHaveBeenCalled();
+      expect(sessionModel.updateMany).toHaveBeenCalledWith(
+        { userId: 'user-123' },
+        { $pull: { chatHistory: 'room-1', archivedChats: 'room-1' } },
+      );
     });
   });
 
-  describe('getChatHistory', () => {
-    it('should return chat history for session', async () => {
-      sessionModel.findOne.mockReturnValue({
-        exec: jest.fn().mockResolvedValue(mockSession),
-      });
-
-      const result = await service.getChatHistory('session-123');
+  describe('getSession', () => {
+    it('should return the session with its chat lists', async () => {
+      const result = await service.getSession('session-123');
 
-      expect(result).toEqual(['room-1', 'room-2']);
+      expect(result?.chatHistory).toEqual(['room-1', 'room-2']);
+      expect(result?.archivedChats).toEqual(['room-3']);
     });
 
-    it('should return empty array for non-existent session', async () => {
+    it('should return null for non-existent session', async () => {
       sessionModel.findOne.mockReturnValue({
         exec: jest.fn().mockResolvedValue(null),
       });
 
-      const result = await service.getChatHistory('invalid-session');
-
-      expect(result).toEqual([]);
+      expect(await service.getSession('invalid-session')).toBeNull();
     });
   });
 
-  describe('getArchivedChats', () => {
-    it('should return archived chats for session', async () => {
-      sessionModel.findOne.mockReturnValue({
-        exec: jest.fn().mockResolvedValue(mockSession),
+  describe('claimRecoveryKey', () => {
+    it('should merge the identity chats into a session that already has rooms', async () => {
+      identityModel.findOne.mockReturnValue({
+        exec: jest.fn().mockResolvedValue({ _id: 'user-123' }),
       });
+      sessionModel.find.mockReturnValue({
+        exec: jest.fn().mockResolvedValue([
+          { ...mockSession, sessionId: 'session-a' },
+          {
+            ...mockSession,
+            sessionId: 'session-b',
+            chatHistory: ['room-2', 'room-4'],
+          },
+        ]),
+      });
+
+      const result = await service.claimRecoveryKey(
+        'session-new',
+        'recovery-key',
+      );
 
-      const result = await service.getArchivedChats('session-123');
+      expect(result).toEqual({ userId: 'user-123', linkedSessions: 3 });
+      // $addToSet keeps the rooms session-new already has
+      expect(sessionModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { sessionId: 'session-new' },
+        {
+          $set: { userId: 'user-123' },
+          $addToSet: {
+            chatHistory: { $each: ['room-1', 'room-2', 'room-4'] },
+            archivedChats: { $each: ['room-3'] },
+          },
+        },
+        { upsert: true },
+      );
+    });
 
-      expect(result).toEqual(['room-3']);
+    it('should reject an unknown recovery key', async () => {
+      await expect(
+        service.claimRecoveryKey('session-new', 'wrong-key'),
+      ).rejects.toThrow(InvalidRecoveryKeyException);
+      expect(sessionModel.findOneAndUpdate).not.toHaveBeenCalled();
     });
   });
 
@@ -10,8 +10,18 @@ import { InjectModel } from '@nestjs/mongoose';
 import { Model } from 'mongoose';
 import Redis from 'ioredis';
 import { REDIS_CLIENT } from '../../../config/redis.module';
-import { UserSession, UserSessionDocument } from '../schemas/session.schema';
+import {
+  PresenceStatus,
+  UserSession,
+  UserSessionDocument,
+} from '../schemas/session.schema';
+import { Identity, IdentityDocument } from '../schemas/identity.schema';
 import { generateId } from '../../../common/utils/uuid.util';
+import {
+  generateRecoveryKey,
+  hashInviteToken,
+} from '../../../common/utils/secret.util';
+import { InvalidRecoveryKeyException } from '../../../common/exceptions/business.exceptions';
 
 /**
  * Cache keys for session data
@@ -23,15 +33,57 @@ const CACHE_KEYS = {
   ROOM_PRESENCE: (roomId: string) => `room:${roomId}:presence`,
 };
 
+/**
+ * Ranks presence states, so a user with several sessions shows the most present one
+ */
+const PRESENCE_RANK: Record<PresenceStatus, number> = {
+  [PresenceStatus.ONLINE]: 3,
+  [PresenceStatus.IDLE]: 2,
+  [PresenceStatus.AWAY]: 1,
+  [PresenceStatus.OFFLINE]: 0,
+};
+
+/**
+ * A session's presence moved to a new state
+ */
+export interface PresenceChange {
+  sessionId: string;
+  userId: string | null;
+  status: PresenceStatus;
+  lastSeen: Date;
+  /** Room the session was last in, if any */
+  roomId: string | null;
+}
+
+/**
+ * A user's presence across all of their sessions
+ */
+export interface UserPresence {
+  status: PresenceStatus;
+  lastSeen: Date;
+}
+
+/**
+ * Result of removing a socket from its session
+ */
+export interface SocketDisconnection {
+  sessionId: string;
+  /** Whether the session still has other sockets connected */
+  isOnline: boolean;
+  /** Set when this was the session's last socket */
+  presenceChange: PresenceChange | null;
+}
+
 /**
  * Session Service
  * 
  * @description Manages user sessions with the following features:
  * - Session creation and retrieval
  * - User ID generation and mapping
- * - Socket connection tracking
- * - Presence management for rooms
+ * - Socket connection tracking, with several sockets per session
+ * - Presence (online, idle, away, offline) driven by activity heartbeats
  * - Chat history tracking
+ * - Optional recovery-key identities shared by several sessions
  * 
  * @class SessionService
  */
@@ -41,10 +93,14 @@ export class SessionService implements OnModuleInit {
   
   // Cache TTL values loaded from config
   private cacheTtl: { SESSION: number; PRESENCE: number };
+  private idleAfterSeconds: number;
+  private awayAfterSeconds: number;
 
   constructor(
     @InjectModel(UserSession.name)
     private readonly sessionModel: Model<UserSessionDocument>,
+    @InjectModel(Identity.name)
+    private readonly identityModel: Model<IdentityDocument>,
     @Inject(REDIS_CLIENT)
     private readonly redisClient: Redis,
     private readonly configService: ConfigService,
@@ -55,6 +111,14 @@ export class SessionService implements OnModuleInit {
       SESSION: this.configService.get<number>('CACHE_TTL_SESSION', 86400),
       PRESENCE: this.configService.get<number>('CACHE_TTL_PRESENCE', 60),
     };
+    this.idleAfterSeconds = this.configService.get<number>(
+      'PRESENCE_IDLE_AFTER_SECONDS',
+      120,
+    );
+    this.awayAfterSeconds = this.configService.get<number>(
+      'PRESENCE_AWAY_AFTER_SECONDS',
+      900,
+    );
   }
 
   /**
@@ -93,6 +157,9 @@ export class SessionService implements OnModuleInit {
   /**
    * Gets or creates a user ID for a session
    * 
+   * @description A session that claimed a recovery key stores the
+   * identity's user ID, so every linked session resolves to the same user.
+   *
    * @param {string} sessionId - Session ID
    * @returns {Promise<string>} User ID
    */
@@ -168,90 +235,307 @@ async getUserId(sessionId: string): Promise<string | null> {
   return session?.userId || null;
 }
 
-/**
- * Updates socket connection for a session
- * 
- * @param {string} sessionId - Session ID
- * @param {string} socketId - WebSocket connection ID
- * @returns {Promise<void>}
- */
-async connectSocket(sessionId: string, socketId: string): Promise<void> {
-  this.logger.debug(`Connecting socket ${socketId} for session ${sessionId}`);
+  /**
+   * Adds a socket to a session
+   *
+   * @description A session can have several sockets at once (one per tab or
+   * device), so connecting never replaces an earlier socket. Connecting
+   * counts as activity.
+   *
+   * @param {string} sessionId - Session ID
+   * @param {string} socketId - WebSocket connection ID
+   * @returns {Promise<PresenceChange | null>} The change if the session wasn't online already
+   */
+  async connectSocket(
+    sessionId: string,
+    socketId: string,
+  ): Promise<PresenceChange | null> {
+    this.logger.debug(`Connecting socket ${socketId} for session ${sessionId}`);
+
+    const lastSeen = new Date();
+
+    // Update session; the previous document tells us whether presence changed
+    const previous = await this.sessionModel
+      .findOneAndUpdate(
+        { sessionId },
+        {
+          $addToSet: { socketIds: socketId },
+          isOnline: true,
+          presence: PresenceStatus.ONLINE,
+          lastSeen,
+        },
+        { upsert: true },
+      )
+      .exec();
 
-  // Update session
-  await this.sessionModel.findOneAndUpdate(
-    { sessionId },
-    {
-      socketId,
-      isOnline: true,
-      lastSeen: new Date(),
-    },
-    { upsert: true },
-  );
+    // Cache socket mapping (if Redis is available)
+    try {
+      if (this.redisClient.status === 'ready') {
+        await this.redisClient.setex(
+          CACHE_KEYS.SOCKET(socketId),
+          this.cacheTtl.SESSION,
+          sessionId,
+        );
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.warn(`Failed to cache socket mapping: ${message}`);
+    }
 
-  // Cache socket mapping (if Redis is available)
-  try {
-    if (this.redisClient.status === 'ready') {
-      await this.redisClient.setex(
-        CACHE_KEYS.SOCKET(socketId),
-        this.cacheTtl.SESSION,
+    if (previous?.presence === PresenceStatus.ONLINE) {
+      return null;
+    }
+
+    if (previous?.currentRoomId) {
+      await this.setPresence(
+        previous.currentRoomId,
         sessionId,
+        PresenceStatus.ONLINE,
       );
     }
-  } catch (error) {
-    this.logger.warn(`Failed to cache socket mapping: ${error.message}`);
+
+    return {
+      sessionId,
+      userId: previous?.userId ?? null,
+      status: PresenceStatus.ONLINE,
+      lastSeen,
+      roomId: previous?.currentRoomId ?? null,
+    };
   }
-}
 
-/**
- * Handles socket disconnection
- * 
- * @param {string} socketId - Disconnected socket ID
- * @returns {Promise<string | null>} Session ID if found
- */
-async disconnectSocket(socketId: string): Promise<string | null> {
-  this.logger.debug(`Disconnecting socket: ${socketId}`);
+  /**
+   * Handles socket disconnection
+   *
+   * @description Removes the socket from its session. The session only goes
+   * offline, and leaves its current room's presence, once its last socket
+   * is gone.
+   *
+   * @param {string} socketId - Disconnected socket ID
+   * @returns {Promise<SocketDisconnection | null>} Session and its presence, or null if unknown
+   */
+  async disconnectSocket(
+    socketId: string,
+  ): Promise<SocketDisconnection | null> {
+    this.logger.debug(`Disconnecting socket: ${socketId}`);
 
-  let sessionId: string | null = null;
+    let sessionId: string | null = null;
 
-  // Try to get session ID from Redis cache
-  try {
-    if (this.redisClient.status === 'ready') {
-      sessionId = await this.redisClient.get(CACHE_KEYS.SOCKET(socketId));
+    // Try to get session ID from Redis cache
+    try {
+      if (this.redisClient.status === 'ready') {
+        sessionId = await this.redisClient.get(CACHE_KEYS.SOCKET(socketId));
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.warn(`Redis unavailable for disconnectSocket: ${message}`);
     }
-  } catch (error) {
-    this.logger.warn(`Redis unavailable for disconnectSocket: ${error.message}`);
-  }
 
-  // Fallback: find session by socketId in database
-  if (!sessionId) {
-    const session = await this.sessionModel.findOne({ socketId }).exec();
-    sessionId = session?.sessionId || null;
-  }
+    // Fallback: find session by socket in database
+    if (!sessionId) {
+      const session = await this.sessionModel
+        .findOne({ socketIds: socketId })
+        .exec();
+      sessionId = session?.sessionId || null;
+    }
 
-  if (sessionId) {
-    // Update session
-    await this.sessionModel.findOneAndUpdate(
+    if (!sessionId) {
+      return null;
+    }
+
+    await this.sessionModel.updateOne(
       { sessionId },
-      {
-        socketId: null,
-        isOnline: false,
-        lastSeen: new Date(),
-      },
+      { $pull: { socketIds: socketId } },
     );
 
+    // Only go offline if no socket connected in the meantime
+    const lastSeen = new Date();
+    const wentOffline = await this.sessionModel
+      .findOneAndUpdate(
+        { sessionId, socketIds: { $size: 0 } },
+        { isOnline: false, presence: PresenceStatus.OFFLINE, lastSeen },
+      )
+      .exec();
+
+    if (wentOffline?.currentRoomId) {
+      await this.setPresence(
+        wentOffline.currentRoomId,
+        sessionId,
+        PresenceStatus.OFFLINE,
+      );
+    }
+
     // Remove socket mapping from cache
     try {
       if (this.redisClient.status === 'ready') {
         await this.redisClient.del(CACHE_KEYS.SOCKET(socketId));
       }
     } catch (error) {
-      this.logger.warn(`Failed to remove socket mapping: ${error.message}`);
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.warn(`Failed to remove socket mapping: ${message}`);
     }
+
+    return {
+      sessionId,
+      isOnline: !wentOffline,
+      presenceChange: wentOffline
+        ? {
+            sessionId,
+            userId: wentOffline.userId,
+            status: PresenceStatus.OFFLINE,
+            lastSeen,
+            roomId: wentOffline.currentRoomId,
+          }
+        : null,
+    };
   }
 
-  return sessionId;
-}
+  /**
+   * Records a client activity heartbeat
+   *
+   * @description Marks a connected session as online and moves its last
+   * seen time forward. Sessions without heartbeats are moved to idle and
+   * then away by expireIdlePresence.
+   *
+   * @param {string} sessionId - Session ID
+   * @returns {Promise<PresenceChange | null>} The change if the session was idle or away
+   */
+  async recordActivity(sessionId: string): Promise<PresenceChange | null> {
+    const lastSeen = new Date();
+    const previous = await this.sessionModel
+      .findOneAndUpdate(
+        { sessionId, isOnline: true },
+        { presence: PresenceStatus.ONLINE, lastSeen },
+      )
+      .exec();
+
+    if (!previous || previous.presence === PresenceStatus.ONLINE) {
+      return null;
+    }
+
+    if (previous.currentRoomId) {
+      await this.setPresence(
+        previous.currentRoomId,
+        sessionId,
+        PresenceStatus.ONLINE,
+      );
+    }
+
+    return {
+      sessionId,
+      userId: previous.userId,
+      status: PresenceStatus.ONLINE,
+      lastSeen,
+      roomId: previous.currentRoomId,
+    };
+  }
+
+  /**
+   * Moves connected sessions without recent heartbeats to idle or away
+   *
+   * @description Run periodically by the presence queue. Each update is
+   * conditional on the state that was read, so concurrent sweeps on
+   * several instances report every change once.
+   *
+   * @returns {Promise<PresenceChange[]>} Sessions whose presence changed
+   */
+  async expireIdlePresence(): Promise<PresenceChange[]> {
+    const now = Date.now();
+    const idleCutoff = new Date(now - this.idleAfterSeconds * 1000);
+    const awayCutoff = new Date(now - this.awayAfterSeconds * 1000);
+
+    const candidates = await this.sessionModel
+      .find({
+        isOnline: true,
+        presence: { $in: [PresenceStatus.ONLINE, PresenceStatus.IDLE] },
+        lastSeen: { $lt: idleCutoff },
+      })
+      .select('sessionId userId presence lastSeen currentRoomId')
+      .limit(1000)
+      .exec();
+
+    const changes: PresenceChange[] = [];
+
+    for (const session of candidates) {
+      const status =
+        session.lastSeen < awayCutoff
+          ? PresenceStatus.AWAY
+          : PresenceStatus.IDLE;
+      if (status === session.presence) continue;
+
+      const updated = await this.sessionModel
+        .findOneAndUpdate(
+          {
+            sessionId: session.sessionId,
+            presence: session.presence,
+            lastSeen: session.lastSeen,
+          },
+          { presence: status },
+        )
+        .exec();
+      if (!updated) continue;
+
+      if (session.currentRoomId) {
+        await this.setPresence(
+          session.currentRoomId,
+          session.sessionId,
+          status,
+        );
+      }
+
+      changes.push({
+        sessionId: session.sessionId,
+        userId: session.userId,
+        status,
+        lastSeen: session.lastSeen,
+        roomId: session.currentRoomId,
+      });
+    }
+
+    return changes;
+  }
+
+  /**
+   * Gets users' presence, combined across each user's sessions
+   *
+   * @description A user linked on several devices shows their most present
+   * session and their latest activity.
+   *
+   * @param {string[]} userIds - User IDs
+   * @returns {Promise<Map<string, UserPresence>>} Presence by user ID; users without a session are left out
+   */
+  async getUsersPresence(
+    userIds: string[],
+  ): Promise<Map<string, UserPresence>> {
+    const presence = new Map<string, UserPresence>();
+    if (userIds.length === 0) {
+      return presence;
+    }
+
+    const sessions = await this.sessionModel
+      .find({ userId: { $in: userIds } })
+      .select('userId presence lastSeen')
+      .exec();
+
+    for (const session of sessions) {
+      if (!session.userId) continue;
+
+      const current = presence.get(session.userId);
+      const status = session.presence ?? PresenceStatus.OFFLINE;
+      if (!current) {
+        presence.set(session.userId, { status, lastSeen: session.lastSeen });
+        continue;
+      }
+
+      if (PRESENCE_RANK[status] > PRESENCE_RANK[current.status]) {
+        current.status = status;
+      }
+      if (session.lastSeen > current.lastSeen) {
+        current.lastSeen = session.lastSeen;
+      }
+    }
+
+    return presence;
+  }
 
   /**
    * Updates current room for a session
@@ -263,14 +547,17 @@ async disconnectSocket(socketId: string): Promise<string | null> {
   async setCurrentRoom(sessionId: string, roomId: string | null): Promise<void> {
     this.logger.debug(`Setting current room for ${sessionId}: ${roomId}`);
 
-    await this.sessionModel.findOneAndUpdate(
-      { sessionId },
-      { currentRoomId: roomId },
-    );
+    const session = await this.sessionModel
+      .findOneAndUpdate({ sessionId }, { currentRoomId: roomId }, { new: true })
+      .exec();
 
     // Update presence if joining a room
     if (roomId) {
-      await this.setPresence(roomId, sessionId, true);
+      await this.setPresence(
+        roomId,
+        sessionId,
+        session?.presence ?? PresenceStatus.ONLINE,
+      );
     }
   }
 
@@ -291,125 +578,128 @@ async disconnectSocket(socketId: string): Promise<string | null> {
   }
 
   // Fallback to database
-  const session = await this.sessionModel.findOne({ socketId }).exec();
+  const session = await this.sessionModel.findOne({ socketIds: socketId }).exec();
   return session?.sessionId || null;
 }
 
-/**
- * Sets presence status for a user in a room
- * 
- * @param {string} roomId - Room ID
- * @param {string} sessionId - Session ID
- * @param {boolean} isPresent - Presence status
- * @returns {Promise<void>}
- */
-async setPresence(
-  roomId: string,
-  sessionId: string,
-  isPresent: boolean,
-): Promise<void> {
-  try {
-    if (this.redisClient.status !== 'ready') {
-      this.logger.debug('Redis unavailable, skipping presence update');
-      return;
-    }
+  /**
+   * Sets presence status for a user in a room
+   *
+   * @param {string} roomId - Room ID
+   * @param {string} sessionId - Session ID
+   * @param {PresenceStatus} status - Presence status; offline removes the session
+   * @returns {Promise<void>}
+   */
+  async setPresence(
+    roomId: string,
+    sessionId: string,
+    status: PresenceStatus,
+  ): Promise<void> {
+    try {
+      if (this.redisClient.status !== 'ready') {
+        this.logger.debug('Redis unavailable, skipping presence update');
+        return;
+      }
 
-    const key = CACHE_KEYS.ROOM_PRESENCE(roomId);
+      const key = CACHE_KEYS.ROOM_PRESENCE(roomId);
 
-    if (isPresent) {
-      await this.redisClient.sadd(key, sessionId);
-      await this.redisClient.expire(key, this.cacheTtl.PRESENCE);
-    } else {
-      await this.redisClient.srem(key, sessionId);
+      if (status !== PresenceStatus.OFFLINE) {
+        await this.redisClient.hset(key, sessionId, status);
+        await this.redisClient.expire(key, this.cacheTtl.PRESENCE);
+      } else {
+        await this.redisClient.hdel(key, sessionId);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.warn(`Failed to update presence: ${message}`);
     }
-  } catch (error) {
-    this.logger.warn(`Failed to update presence: ${error.message}`);
   }
-}
 
-/**
- * Gets all present users in a room
- * 
- * @param {string} roomId - Room ID
- * @returns {Promise<string[]>} Array of session IDs
- */
-async getRoomPresence(roomId: string): Promise<string[]> {
-  try {
-    if (this.redisClient.status === 'ready') {
-      return this.redisClient.smembers(CACHE_KEYS.ROOM_PRESENCE(roomId));
+  /**
+   * Gets all present users in a room
+   *
+   * @param {string} roomId - Room ID
+   * @returns {Promise<Record<string, PresenceStatus>>} Presence status by session ID
+   */
+  async getRoomPresence(
+    roomId: string,
+  ): Promise<Record<string, PresenceStatus>> {
+    try {
+      if (this.redisClient.status === 'ready') {
+        return (await this.redisClient.hgetall(
+          CACHE_KEYS.ROOM_PRESENCE(roomId),
+        )) as Record<string, PresenceStatus>;
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.warn(`Redis unavailable for getRoomPresence: ${message}`);
     }
-  } catch (error) {
-    this.logger.warn(`Redis unavailable for getRoomPresence: ${error.message}`);
-  }
 
-  // Fallback: query database for online sessions in this room
-  const sessions = await this.sessionModel
-    .find({ currentRoomId: roomId, isOnline: true })
-    .select('sessionId')
-    .exec();
-  
-  return sessions.map((s) => s.sessionId);
-}
+    // Fallback: query database for online sessions in this room
+    const sessions = await this.sessionModel
+      .find({ currentRoomId: roomId, isOnline: true })
+      .select('sessionId presence')
+      .exec();
 
-/**
- * Adds a room to user's chat history
- * 
- * @param {string} sessionId - Session ID
- * @param {string} roomId - Room ID to add
- * @returns {Promise<void>}
- */
-async addToHistory(sessionId: string, roomId: string): Promise<void> {
-  await this.sessionModel.findOneAndUpdate(
-    { sessionId },
-    { $addToSet: { chatHistory: roomId } },
-  );
-}
+    return Object.fromEntries(sessions.map((s) => [s.sessionId, s.presence]));
+  }
 
-/**
- * Archives a chat for a user
- * 
- * @param {string} sessionId - Session ID
- * @param {string} roomId - Room ID to archive
- * @returns {Promise<void>}
- */
-async archiveChat(sessionId: string, roomId: string): Promise<void> {
-  await this.sessionModel.findOneAndUpdate(
-    { sessionId },
-    { $addToSet: { archivedChats: roomId } },
-  );
-}
+  /**
+   * Adds a room to user's chat history
+   *
+   * @description History changes apply to every session linked to the
+   * same identity, so all devices show the same chat list.
+   *
+   * @param {string} sessionId - Session ID
+   * @param {string} roomId - Room ID to add
+   * @returns {Promise<void>}
+   */
+  async addToHistory(sessionId: string, roomId: string): Promise<void> {
+    await this.sessionModel.updateMany(await this.historyScope(sessionId), {
+      $addToSet: { chatHistory: roomId },
+    });
+  }
 
-/**
- * Removes a chat from archives
-   * 
+  /**
+   * Archives a chat for a user
+   *
+   * @param {string} sessionId - Session ID
+   * @param {string} roomId - Room ID to archive
+   * @returns {Promise<void>}
+   */
+  async archiveChat(sessionId: string, roomId: string): Promise<void> {
+    await this.sessionModel.updateMany(await this.historyScope(sessionId), {
+      $addToSet: { archivedChats: roomId },
+    });
+  }
+
+  /**
+   * Removes a chat from archives
+   *
    * @param {string} sessionId - Session ID
    * @param {string} roomId - Room ID to unarchive
    * @returns {Promise<void>}
    */
   async unarchiveChat(sessionId: string, roomId: string): Promise<void> {
-    await this.sessionModel.findOneAndUpdate(
-      { sessionId },
-      { $pull: { archivedChats: roomId } },
-    );
+    await this.sessionModel.updateMany(await this.historyScope(sessionId), {
+      $pull: { archivedChats: roomId },
+    });
   }
 
   /**
    * Removes a chat from user's history
-   * 
+   *
    * @param {string} sessionId - Session ID
    * @param {string} roomId - Room ID to remove
    * @returns {Promise<void>}
    */
   async removeFromHistory(sessionId: string, roomId: string): Promise<void> {
-    await this.sessionModel.findOneAndUpdate(
-      { sessionId },
-      {
-        $pull: {
-          chatHistory: roomId,
-          archivedChats: roomId,
-        },
+    await this.sessionModel.updateMany(await this.historyScope(sessionId), {
+      $pull: {
+        chatHistory: roomId,
+        archivedChats: roomId,
       },
-    );
+    });
   }
 
   /**
@@ -422,6 +712,20 @@ async archiveChat(sessionId: string, roomId: string): Promise<void> {
     return this.sessionModel.findOne({ sessionId }).exec();
   }
 
+  /**
+   * Gets every session mapped to a user ID
+   *
+   * @param {string} userId - User ID
+   * @returns {Promise<string[]>} Session IDs (empty if none are stored)
+   */
+  async getSessionIdsForUser(userId: string): Promise<string[]> {
+    const sessions = await this.sessionModel
+      .find({ userId })
+      .select('sessionId')
+      .exec();
+    return sessions.map((session) => session.sessionId);
+  }
+
   /**
    * Updates last seen timestamp
    * 
@@ -434,4 +738,190 @@ async archiveChat(sessionId: string, roomId: string): Promise<void> {
       { lastSeen: new Date() },
     );
   }
+
+  /**
+   * Gets the identity a session is linked to
+   *
+   * @param {string} sessionId - Session ID
+   * @returns {Promise<object>} Whether the session is linked, and to how many sessions
+   */
+  async getIdentity(sessionId: string): Promise<{
+    linked: boolean;
+    linkedSessions: number;
+    createdAt: Date | null;
+  }> {
+    const session = await this.sessionModel.findOne({ sessionId }).exec();
+    const identity = session?.userId
+      ? await this.identityModel.findById(session.userId).exec()
+      : null;
+
+    if (!identity) {
+      return { linked: false, linkedSessions: 0, createdAt: null };
+    }
+
+    const linkedSessions = await this.sessionModel
+      .countDocuments({ userId: identity._id })
+      .exec();
+
+    return { linked: true, linkedSessions, createdAt: identity.createdAt };
+  }
+
+  /**
+   * Exports a recovery key for the session's user
+   *
+   * @description Turns the session's anonymous user into an identity that
+   * other sessions can claim. Exporting again replaces the key, so an old
+   * key stops working.
+   *
+   * @param {string} sessionId - Session ID
+   * @returns {Promise<object>} The plain recovery key (only shown once)
+   *
+   * @example
+   * const { recoveryKey } = await sessionService.exportRecoveryKey('client-session-id');
+   */
+  async exportRecoveryKey(sessionId: string): Promise<{
+    userId: string;
+    recoveryKey: string;
+    createdAt: Date;
+  }> {
+    const userId = await this.getOrCreateUserId(sessionId);
+
+    // The user ID may only have been cached so far; the link lives in the DB
+    await this.sessionModel
+      .findOneAndUpdate({ sessionId }, { userId }, { upsert: true })
+      .exec();
+
+    const recoveryKey = generateRecoveryKey();
+    const identity = await this.identityModel
+      .findByIdAndUpdate(
+        userId,
+        { recoveryKeyHash: hashInviteToken(recoveryKey) },
+        { upsert: true, new: true, setDefaultsOnInsert: true },
+      )
+      .exec();
+
+    this.logger.log(`Recovery key exported for user ${userId}`);
+
+    return { userId, recoveryKey, createdAt: identity.createdAt };
+  }
+
+  /**
+   * Links a session to the identity behind a recovery key
+   *
+   * @description The session takes the identity's user ID, and the
+   * identity's chats are added to its chat list without duplicates. Rooms
+   * it joined anonymously stay with its previous user ID.
+   *
+   * @param {string} sessionId - Session ID
+   * @param {string} recoveryKey - Key from exportRecoveryKey
+   * @returns {Promise<object>} The linked user ID and session count
+   * @throws {InvalidRecoveryKeyException} If no identity matches the key
+   */
+  async claimRecoveryKey(
+    sessionId: string,
+    recoveryKey: string,
+  ): Promise<{ userId: string; linkedSessions: number }> {
+    const identity = await this.identityModel
+      .findOne({ recoveryKeyHash: hashInviteToken(recoveryKey) })
+      .exec();
+
+    if (!identity) {
+      throw new InvalidRecoveryKeyException();
+    }
+
+    const userId = identity._id;
+    const linked = await this.sessionModel.find({ userId }).exec();
+    const chatHistory = new Set(linked.flatMap((s) => s.chatHistory));
+    const archivedChats = new Set(linked.flatMap((s) => s.archivedChats));
+
+    await this.sessionModel
+      .findOneAndUpdate(
+        { sessionId },
+        {
+          $set: { userId },
+          $addToSet: {
+            chatHistory: { $each: [...chatHistory] },
+            archivedChats: { $each: [...archivedChats] },
+          },
+        },
+        { upsert: true },
+      )
+      .exec();
+
+    await this.cacheUserIdSafe(CACHE_KEYS.USER_ID(sessionId), userId);
+
+    const linkedSessions = linked.some((s) => s.sessionId === sessionId)
+      ? linked.length
+      : linked.length + 1;
+
+    this.logger.log(`Session ${sessionId} linked to user ${userId}`);
+
+    return { userId, linkedSessions };
+  }
+
+  /**
+   * Erases a session and the Redis keys kept for it
+   *
+   * @description Removes the session document, its cached user ID and
+   * socket mappings, and its entry in its current room's presence. The
+   * identity behind the session is removed once no other session is
+   * linked to it. Safe to call again for a session that is already gone.
+   *
+   * @param {string} sessionId - Session to erase
+   * @param {string | null} userId - User ID the session was mapped to
+   * @returns {Promise<{ remainingSessions: number }>} Sessions still mapped to the user
+   */
+  async eraseSession(
+    sessionId: string,
+    userId: string | null,
+  ): Promise<{ remainingSessions: number }> {
+    const session = await this.sessionModel
+      .findOneAndDelete({ sessionId })
+      .exec();
+
+    try {
+      if (this.redisClient.status === 'ready') {
+        await this.redisClient.del(
+          CACHE_KEYS.SESSION(sessionId),
+          CACHE_KEYS.USER_ID(sessionId),
+          ...(session?.socketIds ?? []).map(CACHE_KEYS.SOCKET),
+        );
+        if (session?.currentRoomId) {
+          await this.redisClient.hdel(
+            CACHE_KEYS.ROOM_PRESENCE(session.currentRoomId),
+            sessionId,
+          );
+        }
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.warn(`Failed to erase session cache: ${message}`);
+    }
+
+    const remainingSessions = userId
+      ? await this.sessionModel.countDocuments({ userId }).exec()
+      : 0;
+
+    if (userId && remainingSessions === 0) {
+      await this.identityModel.deleteOne({ _id: userId }).exec();
+    }
+
+    this.logger.log(`Session erased: ${sessionId.slice(0, 8)}...`);
+
+    return { remainingSessions };
+  }
+
+  /**
+   * Builds the filter for history updates
+   *
+   * @private
+   * @param {string} sessionId - Session ID
+   * @returns {Promise<object>} All sessions sharing the user ID, or just this one
+   */
+  private async historyScope(
+    sessionId: string,
+  ): Promise<{ sessionId: string } | { userId: string }> {
+    const session = await this.sessionModel.findOne({ sessionId }).exec();
+    return session?.userId ? { userId: session.userId } : { sessionId };
+  }
 }
@@ -8,17 +8,26 @@
  * - Segregated from chat data as per requirements
  */
 
-import { Module, Global } from '@nestjs/common';
+import { Module, Global, forwardRef } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
+import { BullModule } from '@nestjs/bullmq';
 import { UserSession, UserSessionSchema } from './schemas/session.schema';
+import { Identity, IdentitySchema } from './schemas/identity.schema';
 import { SessionService } from './services/session.service';
+import { SessionTokenService } from './services/session-token.service';
+import { SessionErasureService } from './services/session-erasure.service';
+import { SessionController } from './controllers/session.controller';
+import { ChatGatewayModule } from '../../gateways/chat-gateway.module';
 
 /**
  * Session Module
  * 
  * @description Provides session functionality:
- * - User session schema registration
+ * - User session and identity schema registration
  * - Session service for management
+ * - Signed session tokens (issue, verify, rotate, revoke)
+ * - Recovery key endpoints for linking sessions
+ * - Session erasure, queued on the session-erasure queue
  * - Global export for use across all modules
  */
 @Global()
@@ -26,9 +35,13 @@ import { SessionService } from './services/session.service';
   imports: [
     MongooseModule.forFeature([
       { name: UserSession.name, schema: UserSessionSchema },
+      { name: Identity.name, schema: IdentitySchema },
     ]),
+    BullModule.registerQueue({ name: 'session-erasure' }),
+    forwardRef(() => ChatGatewayModule),
   ],
-  providers: [SessionService],
-  exports: [SessionService],
+  controllers: [SessionController],
+  providers: [SessionService, SessionTokenService, SessionErasureService],
+  exports: [SessionService, SessionTokenService],
 })
 export class SessionModule {}
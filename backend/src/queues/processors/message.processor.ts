@@ -12,6 +12,8 @@
 import { Processor, WorkerHost, OnWorkerEvent } from '@nestjs/bullmq';
 import { Logger } from '@nestjs/common';
 import { Job } from 'bullmq';
+import { MessageService } from '../../modules/message/services/message.service';
+import { ChatGateway } from '../../gateways/chat.gateway';
 
 /**
  * Job data types
@@ -35,12 +37,18 @@ interface PersistMessageJobData {
   timestamp: Date;
 }
 
+interface ExpireMessageJobData {
+  messageId: string;
+  roomId: string;
+}
+
 /**
  * Message Processor
  * 
  * @description Handles background jobs for message operations:
  * - Reaction analytics updates
  * - Message persistence (for write-heavy scenarios)
+ * - Deleting disappearing messages when their timers run out
  * - Notification delivery
  * 
  * @class MessageProcessor
@@ -49,6 +57,13 @@ interface PersistMessageJobData {
 export class MessageProcessor extends WorkerHost {
   private readonly logger = new Logger(MessageProcessor.name);
 
+  constructor(
+    private readonly messageService: MessageService,
+    private readonly chatGateway: ChatGateway,
+  ) {
+    super();
+  }
+
   /**
    * Processes incoming jobs based on their name
    * 
@@ -65,6 +80,9 @@ export class MessageProcessor extends WorkerHost {
       case 'persist':
         await this.handlePersistMessage(job as Job<PersistMessageJobData>);
         break;
+      case 'expire-message':
+        await this.handleExpireMessage(job as Job<ExpireMessageJobData>);
+        break;
       default:
         this.logger.warn(`Unknown job type: ${job.name}`);
     }
@@ -123,6 +141,30 @@ export class MessageProcessor extends WorkerHost {
     this.logger.log(`Message ${messageId} persistence confirmed`);
   }
 
+  /**
+   * Handles disappearing message deletion
+   *
+   * @description Hard-deletes the message and tells the room so clients
+   * drop it. Messages that are already gone do nothing.
+   *
+   * @private
+   * @param {Job<ExpireMessageJobData>} job - Message expiry job
+   */
+  private async handleExpireMessage(
+    job: Job<ExpireMessageJobData>,
+  ): Promise<void> {
+    const { messageId, roomId } = job.data;
+
+    const expired = await this.messageService.expireMessage(messageId);
+
+    if (!expired) {
+      this.logger.debug(`Message ${messageId} already gone, skipping`);
+      return;
+    }
+
+    this.chatGateway.broadcastMessageExpired(roomId, messageId);
+  }
+
   /**
    * Called when a job completes successfully
    */
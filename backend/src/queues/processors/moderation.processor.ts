@@ -0,0 +1,130 @@
+/**
+ * @fileoverview Moderation Processor
+ * @description BullMQ worker for reviewing message reports
+ * @module queues/processors/moderation
+ */
+
+import { Processor, WorkerHost, OnWorkerEvent } from '@nestjs/bullmq';
+import { Logger } from '@nestjs/common';
+import { Job } from 'bullmq';
+import { ReportService } from '../../modules/moderation/services/report.service';
+import { ReportAction } from '../../modules/moderation/schemas/report.schema';
+import { RoomService } from '../../modules/room/services/room.service';
+import { ChatGateway } from '../../gateways/chat.gateway';
+
+/**
+ * Job data types
+ */
+interface ReviewReportJobData {
+  reportId: string;
+}
+
+/**
+ * Room closure reason shown to participants
+ */
+const ROOM_CLOSED_REASON = 'Closed by moderation after repeated reports';
+
+/**
+ * Moderation Processor
+ *
+ * @description Handles background jobs for moderation:
+ * - Checking each new report against the ban and close thresholds
+ * - Banning a reported participant and removing them from the room
+ * - Closing a room and telling everyone in it
+ * - Resolving the reports the action dealt with
+ *
+ * @class ModerationProcessor
+ */
+@Processor('moderation')
+export class ModerationProcessor extends WorkerHost {
+  private readonly logger = new Logger(ModerationProcessor.name);
+
+  constructor(
+    private readonly reportService: ReportService,
+    private readonly roomService: RoomService,
+    private readonly chatGateway: ChatGateway,
+  ) {
+    super();
+  }
+
+  /**
+   * Processes incoming jobs based on their name
+   *
+   * @param {Job} job - BullMQ job to process
+   * @returns {Promise<void>}
+   */
+  async process(job: Job): Promise<void> {
+    this.logger.debug(`Processing job: ${job.name} (ID: ${job.id})`);
+
+    switch (job.name) {
+      case 'review-report':
+        await this.handleReviewReport(job as Job<ReviewReportJobData>);
+        break;
+      default:
+        this.logger.warn(`Unknown job type: ${job.name}`);
+    }
+  }
+
+  /**
+   * Handles report review
+   *
+   * @description Takes the action the thresholds call for, if any. A
+   * participant who already left or a room that is already closed is
+   * not acted on again, but their open reports are still resolved.
+   *
+   * @private
+   * @param {Job<ReviewReportJobData>} job - Report review job
+   */
+  private async handleReviewReport(
+    job: Job<ReviewReportJobData>,
+  ): Promise<void> {
+    const verdict = await this.reportService.evaluate(job.data.reportId);
+
+    if (!verdict?.action) {
+      return;
+    }
+
+    const { report, action } = verdict;
+
+    if (action === ReportAction.ROOM_CLOSED) {
+      const closedRoom = await this.roomService.forceCloseRoom(report.roomId);
+      if (closedRoom) {
+        await this.chatGateway.broadcastRoomClosed(
+          report.roomId,
+          ROOM_CLOSED_REASON,
+        );
+      }
+    } else {
+      const banned = await this.roomService.banParticipant(
+        report.roomId,
+        report.reportedUserId,
+      );
+      if (banned) {
+        await this.chatGateway.broadcastParticipantKicked(
+          banned.room,
+          banned.kicked,
+        );
+      }
+    }
+
+    await this.reportService.resolve(report, action);
+  }
+
+  /**
+   * Called when a job completes successfully
+   */
+  @OnWorkerEvent('completed')
+  onCompleted(job: Job): void {
+    this.logger.debug(`Job completed: ${job.name} (ID: ${job.id})`);
+  }
+
+  /**
+   * Called when a job fails
+   */
+  @OnWorkerEvent('failed')
+  onFailed(job: Job, error: Error): void {
+    this.logger.error(
+      `Job failed: ${job.name} (ID: ${job.id}) - ${error.message}`,
+    );
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * @fileoverview Presence Processor
+ * @description BullMQ worker that moves inactive sessions to idle or away
+ * @module queues/processors/presence
+ */
+
+import {
+  Processor,
+  WorkerHost,
+  OnWorkerEvent,
+  InjectQueue,
+} from '@nestjs/bullmq';
+import { Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Job, Queue } from 'bullmq';
+import { SessionService } from '../../modules/session/services/session.service';
+import { ChatGateway } from '../../gateways/chat.gateway';
+
+/**
+ * Presence Processor
+ *
+ * @description Handles the periodic presence sweep:
+ * - Sessions without activity heartbeats go idle, then away
+ * - Each change is broadcast to the rooms the user is in
+ *
+ * The sweep is a BullMQ job scheduler, so it runs once per interval no
+ * matter how many instances are up.
+ *
+ * @class PresenceProcessor
+ */
+@Processor('presence')
+export class PresenceProcessor extends WorkerHost implements OnModuleInit {
+  private readonly logger = new Logger(PresenceProcessor.name);
+
+  constructor(
+    @InjectQueue('presence')
+    private readonly presenceQueue: Queue,
+    private readonly sessionService: SessionService,
+    private readonly chatGateway: ChatGateway,
+    private readonly configService: ConfigService,
+  ) {
+    super();
+  }
+
+  /**
+   * Schedules the presence sweep
+   *
+   * @description Not awaited, so startup doesn't wait on Redis.
+   */
+  onModuleInit(): void {
+    const intervalSeconds = this.configService.get<number>(
+      'PRESENCE_SWEEP_INTERVAL_SECONDS',
+      30,
+    );
+
+    this.presenceQueue
+      .upsertJobScheduler(
+        'sweep-presence',
+        { every: intervalSeconds * 1000 },
+        {
+          name: 'sweep-presence',
+          opts: { removeOnComplete: true, removeOnFail: 100 },
+        },
+      )
+      .catch((error: Error) =>
+        this.logger.error(
+          `Failed to schedule presence sweep: ${error.message}`,
+        ),
+      );
+  }
+
+  /**
+   * Processes incoming jobs based on their name
+   *
+   * @param {Job} job - BullMQ job to process
+   * @returns {Promise<void>}
+   */
+  async process(job: Job): Promise<void> {
+    switch (job.name) {
+      case 'sweep-presence':
+        await this.handleSweep();
+        break;
+      default:
+        this.logger.warn(`Unknown job type: ${job.name}`);
+    }
+  }
+
+  /**
+   * Moves inactive sessions to idle or away and tells their rooms
+   *
+   * @private
+   */
+  private async handleSweep(): Promise<void> {
+    const changes = await this.sessionService.expireIdlePresence();
+
+    for (const change of changes) {
+      await this.chatGateway.broadcastPresenceChanged(change);
+    }
+
+    if (changes.length > 0) {
+      this.logger.debug(`Presence sweep: ${changes.length} sessions changed`);
+    }
+  }
+
+  /**
+   * Called when a job fails
+   */
+  @OnWorkerEvent('failed')
+  onFailed(job: Job, error: Error): void {
+    this.logger.error(
+      `Job failed: ${job.name} (ID: ${job.id}) - ${error.message}`,
+    );
+  }
+}
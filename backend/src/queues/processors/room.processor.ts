@@ -9,6 +9,8 @@ import { Logger, Inject } from '@nestjs/common';
 import { Job } from 'bullmq';
 import Redis from 'ioredis';
 import { REDIS_CLIENT } from '@config/redis.module';
+import { RoomService } from '../../modules/room/services/room.service';
+import { ChatGateway } from '../../gateways/chat.gateway';
 
 /**
  * Job data types
@@ -23,7 +25,8 @@ interface CloseRoomJobData {
  * Room Lifecycle Processor
  * 
  * @description Handles background jobs for room lifecycle:
- * - Room closure
+ * - Room closure at expiry
+ * - Notifying connected participants
  * - Cache invalidation
  * - Resource cleanup
  * 
@@ -36,6 +39,8 @@ export class RoomLifecycleProcessor extends WorkerHost {
   constructor(
     @Inject(REDIS_CLIENT)
     private readonly redisClient: Redis,
+    private readonly roomService: RoomService,
+    private readonly chatGateway: ChatGateway,
   ) {
     super();
   }
@@ -61,7 +66,9 @@ export class RoomLifecycleProcessor extends WorkerHost {
   /**
    * Handles room closure
    * 
-   * @description Invalidates room code and cleans up cache
+   * @description Closes the room if it is still due, tells everyone in it,
+   * and cleans up cache. Jobs for rooms that were extended or already
+   * closed do nothing.
    * 
    * @private
    * @param {Job<CloseRoomJobData>} job - Room closure job
@@ -71,11 +78,22 @@ export class RoomLifecycleProcessor extends WorkerHost {
 
     this.logger.log(`Closing room: ${roomId} (${roomCode}) - ${reason}`);
 
+    const closedRoom = await this.roomService.expireRoom(roomId);
+
+    if (!closedRoom) {
+      this.logger.debug(
+        `Room ${roomCode} was extended or already closed, skipping`,
+      );
+      return;
+    }
+
     // Invalidate room cache
     await this.redisClient.del(`room:code:${roomCode}`);
     await this.redisClient.del(`room:id:${roomId}`);
     await this.redisClient.del(`room:${roomId}:presence`);
 
+    await this.chatGateway.broadcastRoomClosed(roomId, reason);
+
     this.logger.log(`Room closed and cache invalidated: ${roomCode}`);
   }
 
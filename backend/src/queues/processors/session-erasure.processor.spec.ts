@@ -0,0 +1,115 @@
+/**
+ * @fileoverview Session Erasure Processor Unit Tests
+ * @description Tests for erasing a session and, with it, the user's content
+ */
+
+import { Job } from 'bullmq';
+import { SessionErasureProcessor } from './session-erasure.processor';
+import { SessionService } from '../../modules/session/services/session.service';
+import { SessionTokenService } from '../../modules/session/services/session-token.service';
+import { SessionErasureJobData } from '../../modules/session/services/session-erasure.service';
+import { MessageService } from '../../modules/message/services/message.service';
+import { RoomService } from '../../modules/room/services/room.service';
+import { ReportService } from '../../modules/moderation/services/report.service';
+import { ChatGateway } from '../../gateways/chat.gateway';
+
+describe('SessionErasureProcessor', () => {
+  let processor: SessionErasureProcessor;
+  let sessionService: { eraseSession: jest.Mock };
+  let sessionTokenService: { forgetSession: jest.Mock };
+  let messageService: { eraseAuthoredMessages: jest.Mock };
+  let roomService: { eraseParticipant: jest.Mock };
+  let reportService: { eraseUser: jest.Mock };
+  let chatGateway: {
+    disconnectSession: jest.Mock;
+    broadcastParticipantErased: jest.Mock;
+  };
+
+  let updateData: jest.Mock;
+
+  const erasureJob = (
+    data: SessionErasureJobData,
+  ): Job<SessionErasureJobData> =>
+    ({
+      id: 'erasure-job',
+      name: 'erase-session',
+      data,
+      updateData,
+    }) as unknown as Job<SessionErasureJobData>;
+
+  beforeEach(() => {
+    updateData = jest.fn().mockResolvedValue(undefined);
+    sessionService = {
+      eraseSession: jest.fn().mockResolvedValue({ remainingSessions: 0 }),
+    };
+    sessionTokenService = {
+      forgetSession: jest.fn().mockResolvedValue(undefined),
+    };
+    messageService = {
+      eraseAuthoredMessages: jest.fn().mockResolvedValue({
+        messagesErased: 3,
+        attachmentsDeleted: 1,
+        roomIds: ['room-123'],
+      }),
+    };
+    roomService = {
+      eraseParticipant: jest.fn().mockResolvedValue([{ _id: 'room-123' }]),
+    };
+    reportService = { eraseUser: jest.fn().mockResolvedValue(2) };
+    chatGateway = {
+      disconnectSession: jest.fn(),
+      broadcastParticipantErased: jest.fn().mockResolvedValue(undefined),
+    };
+
+    processor = new SessionErasureProcessor(
+      sessionService as unknown as SessionService,
+      sessionTokenService as unknown as SessionTokenService,
+      messageService as unknown as MessageService,
+      roomService as unknown as RoomService,
+      reportService as unknown as ReportService,
+      chatGateway as unknown as ChatGateway,
+    );
+  });
+
+  it('should erase the content and reports of the last session of a user', async () => {
+    const job = erasureJob({ sessionId: 'session-123', userId: 'user-123' });
+
+    await expect(processor.process(job)).resolves.toEqual({
+      contentErased: true,
+      messagesErased: 3,
+      attachmentsDeleted: 1,
+      roomsUpdated: 1,
+      reportsAnonymized: 2,
+    });
+
+    expect(reportService.eraseUser).toHaveBeenCalledWith(
+      'user-123',
+      'Deleted user',
+    );
+    expect(chatGateway.broadcastParticipantErased).toHaveBeenCalledWith(
+      'room-123',
+      'user-123',
+      'Deleted user',
+      { _id: 'room-123' },
+    );
+    expect(updateData).toHaveBeenCalledWith({
+      sessionId: '',
+      userId: null,
+    });
+  });
+
+  it('should keep the content and reports of a user linked elsewhere', async () => {
+    sessionService.eraseSession.mockResolvedValue({ remainingSessions: 1 });
+
+    const result = await processor.process(
+      erasureJob({ sessionId: 'session-123', userId: 'user-123' }),
+    );
+
+    expect(result).toMatchObject({
+      contentErased: false,
+      reportsAnonymized: 0,
+    });
+    expect(messageService.eraseAuthoredMessages).not.toHaveBeenCalled();
+    expect(reportService.eraseUser).not.toHaveBeenCalled();
+  });
+});
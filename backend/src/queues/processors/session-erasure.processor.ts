@@ -0,0 +1,170 @@
+/**
+ * @fileoverview Session Erasure Processor
+ * @description BullMQ worker for erasing sessions and what their users wrote
+ * @module queues/processors/session-erasure
+ */
+
+import { Processor, WorkerHost, OnWorkerEvent } from '@nestjs/bullmq';
+import { Logger } from '@nestjs/common';
+import { Job } from 'bullmq';
+import { SessionService } from '../../modules/session/services/session.service';
+import { SessionTokenService } from '../../modules/session/services/session-token.service';
+import { SessionErasureJobData } from '../../modules/session/services/session-erasure.service';
+import { SessionErasureResultDto } from '../../modules/session/dto/session.dto';
+import { MessageService } from '../../modules/message/services/message.service';
+import { RoomService } from '../../modules/room/services/room.service';
+import { ReportService } from '../../modules/moderation/services/report.service';
+import { RoomDocument } from '../../modules/room/schemas/room.schema';
+import { ChatGateway } from '../../gateways/chat.gateway';
+
+/**
+ * Name shown in place of an erased user's display name
+ */
+const ERASED_USER_NAME = 'Deleted user';
+
+/**
+ * Session Erasure Processor
+ *
+ * @description Handles background jobs for session erasure:
+ * - Disconnecting the session's sockets
+ * - Removing the session document and its Redis keys
+ * - Once no other device is linked to the user: tombstoning their
+ *   messages, deleting their attachments and reactions, and removing
+ *   their display name from every room, and anonymizing the reports
+ *   they filed or that were filed against them
+ *
+ * Every step can run again, so a failed job is retried from the start.
+ *
+ * @class SessionErasureProcessor
+ */
+@Processor('session-erasure')
+export class SessionErasureProcessor extends WorkerHost {
+  private readonly logger = new Logger(SessionErasureProcessor.name);
+
+  constructor(
+    private readonly sessionService: SessionService,
+    private readonly sessionTokenService: SessionTokenService,
+    private readonly messageService: MessageService,
+    private readonly roomService: RoomService,
+    private readonly reportService: ReportService,
+    private readonly chatGateway: ChatGateway,
+  ) {
+    super();
+  }
+
+  /**
+   * Processes incoming jobs based on their name
+   *
+   * @param {Job} job - BullMQ job to process
+   * @returns {Promise<SessionErasureResultDto | void>} What was erased
+   */
+  async process(job: Job): Promise<SessionErasureResultDto | void> {
+    this.logger.debug(`Processing job: ${job.name} (ID: ${job.id})`);
+
+    switch (job.name) {
+      case 'erase-session':
+        return this.handleEraseSession(job as Job<SessionErasureJobData>);
+      default:
+        this.logger.warn(`Unknown job type: ${job.name}`);
+    }
+  }
+
+  /**
+   * Handles session erasure
+   *
+   * @description A user linked on other devices keeps their content;
+   * only this session is removed. The session and user IDs are cleared
+   * from the job once it is done, since its status outlives the session.
+   *
+   * @private
+   * @param {Job<SessionErasureJobData>} job - Session erasure job
+   * @returns {Promise<SessionErasureResultDto>} What was erased
+   */
+  private async handleEraseSession(
+    job: Job<SessionErasureJobData>,
+  ): Promise<SessionErasureResultDto> {
+    const { sessionId, userId } = job.data;
+
+    this.chatGateway.disconnectSession(sessionId);
+
+    const { remainingSessions } = await this.sessionService.eraseSession(
+      sessionId,
+      userId,
+    );
+    await this.sessionTokenService.forgetSession(sessionId);
+
+    const result: SessionErasureResultDto =
+      userId && remainingSessions === 0
+        ? await this.eraseContent(userId)
+        : {
+            contentErased: false,
+            messagesErased: 0,
+            attachmentsDeleted: 0,
+            roomsUpdated: 0,
+            reportsAnonymized: 0,
+          };
+
+    await job.updateData({ sessionId: '', userId: null });
+
+    return result;
+  }
+
+  /**
+   * Erases what a user wrote, their name in every room and their reports
+   *
+   * @private
+   * @param {string} userId - User whose content to erase
+   * @returns {Promise<SessionErasureResultDto>} What was erased
+   */
+  private async eraseContent(userId: string): Promise<SessionErasureResultDto> {
+    const { messagesErased, attachmentsDeleted, roomIds } =
+      await this.messageService.eraseAuthoredMessages(userId, ERASED_USER_NAME);
+    const rooms = await this.roomService.eraseParticipant(
+      userId,
+      ERASED_USER_NAME,
+    );
+    const reportsAnonymized = await this.reportService.eraseUser(
+      userId,
+      ERASED_USER_NAME,
+    );
+
+    // Rooms they were removed from still hold their messages and reactions
+    const roomsById = new Map<string, RoomDocument>(
+      rooms.map((room) => [room._id, room]),
+    );
+    for (const roomId of new Set([...roomIds, ...roomsById.keys()])) {
+      await this.chatGateway.broadcastParticipantErased(
+        roomId,
+        userId,
+        ERASED_USER_NAME,
+        roomsById.get(roomId) ?? null,
+      );
+    }
+
+    return {
+      contentErased: true,
+      messagesErased,
+      attachmentsDeleted,
+      roomsUpdated: rooms.length,
+      reportsAnonymized,
+    };
+  }
+
+  /**
+   * Called when a job completes successfully
+   */
+  @OnWorkerEvent('completed')
+  onCompleted(job: Job): void {
+    this.logger.debug(`Job completed: ${job.name} (ID: ${job.id})`);
+  }
+
+  /**
+   * Called when a job fails
+   */
+  @OnWorkerEvent('failed')
+  onFailed(job: Job, error: Error): void {
+    this.logger.error(
+      `Job failed: ${job.name} (ID: ${job.id}) - ${error.message}`,
+    );
+  }
+}
@@ -6,6 +6,15 @@
 
 import { Module } from '@nestjs/common';
 import { BullModule } from '@nestjs/bullmq';
+import { RoomModule } from '../modules/room/room.module';
+import { MessageModule } from '../modules/message/message.module';
+import { ModerationModule } from '../modules/moderation/moderation.module';
+import { ChatGatewayModule } from '../gateways/chat-gateway.module';
+import { RoomLifecycleProcessor } from './processors/room.processor';
+import { MessageProcessor } from './processors/message.processor';
+import { PresenceProcessor } from './processors/presence.processor';
+import { ModerationProcessor } from './processors/moderation.processor';
+import { SessionErasureProcessor } from './processors/session-erasure.processor';
 
 /**
  * Queue Module
@@ -13,6 +22,9 @@ import { BullModule } from '@nestjs/bullmq';
  * @description Configures background job processing:
  * - Message persistence queue
  * - Room lifecycle queue
+ * - Presence queue (periodic idle/away sweep)
+ * - Moderation queue (report review and automatic bans/closures)
+ * - Session erasure queue (erasing a session and what its user wrote)
  * - Processors for each queue type
  */
 @Module({
@@ -20,9 +32,22 @@ import { BullModule } from '@nestjs/bullmq';
     BullModule.registerQueue(
       { name: 'message-persistence' },
       { name: 'room-lifecycle' },
+      { name: 'presence' },
+      { name: 'moderation' },
+      { name: 'session-erasure' },
     ),
+    RoomModule,
+    MessageModule,
+    ModerationModule,
+    ChatGatewayModule,
+  ],
+  providers: [
+    RoomLifecycleProcessor,
+    MessageProcessor,
+    PresenceProcessor,
+    ModerationProcessor,
+    SessionErasureProcessor,
   ],
-  providers: [],
   exports: [],
 })
 export class QueueModule {}
@@ -2,9 +2,16 @@
  * Molecules - Groups of atoms bonded together
  * Combinations of atoms that form more complex, reusable UI patterns
  */
+export { default as AttachmentPreview } from './AttachmentPreview.vue'
 export { default as ConfirmDialog } from './ConfirmDialog.vue'
+export { default as ExportDialog } from './ExportDialog.vue'
 export { default as MessageBubble } from './MessageBubble.vue'
 export { default as Modal } from './Modal.vue'
+export { default as ParticipantList } from './ParticipantList.vue'
 export { default as ReactionPicker } from './ReactionPicker.vue'
+export { default as ReportDialog } from './ReportDialog.vue'
+export { default as SearchResultItem } from './SearchResultItem.vue'
 export { default as ToastContainer } from './ToastContainer.vue'
 export { default as TypingIndicator } from './TypingIndicator.vue'
+export { default as VoiceNotePlayer } from './VoiceNotePlayer.vue'
+export { default as VoiceRecorder } from './VoiceRecorder.vue'
@@ -5,3 +5,5 @@
 export { default as ChatHeader } from './ChatHeader.vue'
 export { default as MessageInput } from './MessageInput.vue'
 export { default as MessageList } from './MessageList.vue'
+export { default as MessageSearch } from './MessageSearch.vue'
+export { default as IdentityDialog } from './IdentityDialog.vue'
@@ -0,0 +1,47 @@
+import apiClient from './client'
+import type { Attachment } from '@/types'
+import { ATTACHMENT_UPLOAD_TIMEOUT } from '@/utils/constants'
+
+const BASE_PATH = '/attachments'
+
+export const attachmentApi = {
+  /**
+   * Upload a file to a room
+   *
+   * Voice notes also send their waveform (multipart fields are text, so
+   * it goes as a JSON array).
+   */
+  async upload(roomId: string, file: File, waveform?: number[]): Promise<Attachment> {
+    const formData = new FormData()
+    formData.append('roomId', roomId)
+    formData.append('file', file)
+    if (waveform) {
+      formData.append('waveform', JSON.stringify(waveform))
+    }
+
+    const response = await apiClient.post<Attachment>(BASE_PATH, formData, {
+      // Let the browser set the multipart boundary
+      headers: { 'Content-Type': 'multipart/form-data' },
+      timeout: ATTACHMENT_UPLOAD_TIMEOUT,
+    })
+    return response.data
+  },
+
+  /**
+   * Download a file (or its thumbnail) as a Blob
+   *
+   * Downloads need the session header, so they can't be plain links;
+   * callers turn the Blob into an object URL.
+   */
+  async download(attachmentId: string, thumbnail = false): Promise<Blob> {
+    const path = thumbnail
+      ? `${BASE_PATH}/${attachmentId}/thumbnail`
+      : `${BASE_PATH}/${attachmentId}`
+
+    const response = await apiClient.get<Blob>(path, {
+      responseType: 'blob',
+      timeout: ATTACHMENT_UPLOAD_TIMEOUT,
+    })
+    return response.data
+  },
+}
@@ -1,7 +1,11 @@
-import axios, { type AxiosInstance, type AxiosError } from 'axios'
-import { getSessionId } from '@/utils/storage'
-
-const API_URL = import.meta.env.VITE_API_URL || '/api'
+import axios, {
+  type AxiosInstance,
+  type AxiosError,
+  type InternalAxiosRequestConfig,
+} from 'axios'
+import { clearSessionToken } from '@/utils/storage'
+import { API_URL } from '@/utils/constants'
+import { ensureSessionToken } from './session-token'
 
 // Create axios instance with default config
 const apiClient: AxiosInstance = axios.create({
@@ -12,13 +16,11 @@ const apiClient: AxiosInstance = axios.create({
   },
 })
 
-// Request interceptor to add session ID header
+// Request interceptor to add the signed session token
 apiClient.interceptors.request.use(
-  (config) => {
-    const sessionId = getSessionId()
-    if (sessionId) {
-      config.headers['X-Session-Id'] = sessionId
-    }
+  async (config) => {
+    const token = await ensureSessionToken()
+    config.headers.Authorization = `Bearer ${token}`
     return config
   },
   (error) => {
@@ -36,7 +38,7 @@ apiClient.interceptors.response.use(
     }
     return response
   },
-  (error: AxiosError) => {
+  async (error: AxiosError) => {
     // Extract error message from response
     // Backend error format: { success: false, error: { code, message, details, ... } }
     const responseData = error.response?.data as { 
@@ -45,6 +47,16 @@ apiClient.interceptors.response.use(
       data?: { message?: string } 
     } | undefined
     
+    // The token was revoked or the secret changed: get a new one and retry once
+    const config = error.config as
+      | (InternalAxiosRequestConfig & { tokenRetried?: boolean })
+      | undefined
+    if (responseData?.error?.code === 'INVALID_SESSION_TOKEN' && config && !config.tokenRetried) {
+      config.tokenRetried = true
+      clearSessionToken()
+      return apiClient(config)
+    }
+
     const message =
       responseData?.error?.message ||
       responseData?.message ||
@@ -4,7 +4,11 @@ import type {
   GetHistoryQuery,
   ArchiveChatResponse,
   DeleteChatResponse,
+  ExportFormat,
+  ImportChatResponse,
+  MessageSearchResponse,
 } from '@/types'
+import { CHAT_EXPORT_TIMEOUT, CHAT_IMPORT_TIMEOUT } from '@/utils/constants'
 
 const BASE_PATH = '/history'
 
@@ -24,6 +28,53 @@ export const historyApi = {
     return response.data
   },
 
+  /**
+   * Search messages across all chats in history
+   */
+  async search(q: string, before?: string): Promise<MessageSearchResponse> {
+    const params = new URLSearchParams()
+    params.append('q', q)
+    if (before) params.append('before', before)
+
+    const response = await apiClient.get<MessageSearchResponse>(
+      `${BASE_PATH}/search?${params.toString()}`
+    )
+    return response.data
+  },
+
+  /**
+   * Download a chat as a file
+   *
+   * Like attachments, exports need the session header, so they're fetched
+   * as a Blob for the caller to save.
+   */
+  async export(roomId: string, format: ExportFormat): Promise<Blob> {
+    const response = await apiClient.get<Blob>(
+      `${BASE_PATH}/${roomId}/export?format=${format}`,
+      { responseType: 'blob', timeout: CHAT_EXPORT_TIMEOUT }
+    )
+    return response.data
+  },
+
+  /**
+   * Restore a chat from a JSON export as a read-only chat
+   */
+  async import(file: File): Promise<ImportChatResponse> {
+    const formData = new FormData()
+    formData.append('file', file)
+
+    const response = await apiClient.post<ImportChatResponse>(
+      `${BASE_PATH}/import`,
+      formData,
+      {
+        // Let the browser set the multipart boundary
+        headers: { 'Content-Type': 'multipart/form-data' },
+        timeout: CHAT_IMPORT_TIMEOUT,
+      }
+    )
+    return response.data
+  },
+
   /**
    * Archive a chat
    */
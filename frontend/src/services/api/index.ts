@@ -1,4 +1,7 @@
 export { default as apiClient } from './client'
+export { ensureSessionToken, rotateSessionToken } from './session-token'
 export { roomApi } from './room.api'
 export { messageApi } from './message.api'
 export { historyApi } from './history.api'
+export { attachmentApi } from './attachment.api'
+export { sessionApi } from './session.api'
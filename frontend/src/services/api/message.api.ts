@@ -6,7 +6,10 @@ import type {
   PaginatedMessages,
   AddReactionRequest,
   ReactionResponse,
+  EditMessageRequest,
+  EditMessageResponse,
   DeleteMessageResponse,
+  MessageSearchResponse,
 } from '@/types'
 
 const BASE_PATH = '/messages'
@@ -36,6 +39,25 @@ export const messageApi = {
     return response.data
   },
 
+  /**
+   * Search messages in a room
+   */
+  async search(
+    roomId: string,
+    q: string,
+    before?: string
+  ): Promise<MessageSearchResponse> {
+    const params = new URLSearchParams()
+    params.append('roomId', roomId)
+    params.append('q', q)
+    if (before) params.append('before', before)
+
+    const response = await apiClient.get<MessageSearchResponse>(
+      `${BASE_PATH}/search?${params.toString()}`
+    )
+    return response.data
+  },
+
   /**
    * Get a single message by ID
    */
@@ -44,6 +66,20 @@ export const messageApi = {
     return response.data
   },
 
+  /**
+   * Edit a message's content
+   */
+  async edit(
+    messageId: string,
+    data: EditMessageRequest
+  ): Promise<EditMessageResponse> {
+    const response = await apiClient.patch<EditMessageResponse>(
+      `${BASE_PATH}/${messageId}`,
+      data
+    )
+    return response.data
+  },
+
   /**
    * Delete a message (soft delete)
    */
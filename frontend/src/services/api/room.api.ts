@@ -3,6 +3,8 @@ import type {
   CreateRoomRequest,
   CreateRoomResponse,
   JoinRoomRequest,
+  CreateInviteRequest,
+  InviteResponse,
   RoomResponse,
 } from '@/types'
 
@@ -51,6 +53,17 @@ export const roomApi = {
     return response.data
   },
 
+  /**
+   * Create an invite to a passphrase-protected room (host only)
+   */
+  async createInvite(roomId: string, data: CreateInviteRequest = {}): Promise<InviteResponse> {
+    const response = await apiClient.post<InviteResponse>(
+      `${BASE_PATH}/${roomId}/invites`,
+      data
+    )
+    return response.data
+  },
+
   /**
    * Get room details by room ID
    */
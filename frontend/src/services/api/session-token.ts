@@ -0,0 +1,87 @@
+import axios from 'axios'
+import type { SessionTokenResponse } from '@/types'
+import { API_URL, SESSION_TOKEN_REFRESH_MARGIN } from '@/utils/constants'
+import {
+  getSessionId,
+  setSessionId,
+  getSessionToken,
+  setSessionToken,
+} from '@/utils/storage'
+
+// Token calls can't go through apiClient: its interceptor needs a token
+const tokenClient = axios.create({
+  baseURL: API_URL,
+  timeout: 10000,
+  headers: {
+    'Content-Type': 'application/json',
+  },
+})
+
+let pending: Promise<string> | null = null
+
+async function requestToken(
+  path: string,
+  body: object,
+  headers: Record<string, string> = {},
+): Promise<string> {
+  const response = await tokenClient.post(path, body, { headers })
+  // Unwrap the backend's { success, data } envelope
+  const data: SessionTokenResponse = response.data?.data ?? response.data
+
+  setSessionId(data.sessionId)
+  setSessionToken({ token: data.token, expiresAt: data.expiresAt })
+  return data.token
+}
+
+function isUnauthorized(error: unknown): boolean {
+  return axios.isAxiosError(error) && error.response?.status === 401
+}
+
+async function resolveToken(): Promise<string> {
+  const stored = getSessionToken()
+  if (stored) {
+    const remaining = new Date(stored.expiresAt).getTime() - Date.now()
+    if (remaining > SESSION_TOKEN_REFRESH_MARGIN) {
+      return stored.token
+    }
+
+    try {
+      return await requestToken('/session/token/refresh', { token: stored.token })
+    } catch (error) {
+      if (!isUnauthorized(error)) throw error
+      // Revoked or past its refresh window: start over below
+    }
+  }
+
+  try {
+    // Upgrade the session this browser already has, keeping its history.
+    // Pre-token clients sent it in this header, so that's where it's accepted.
+    return await requestToken('/session/token', {}, { 'X-Session-Id': getSessionId() })
+  } catch (error) {
+    if (!isUnauthorized(error)) throw error
+    // That session is unknown or already has tokens we no longer hold
+    return requestToken('/session/token', {})
+  }
+}
+
+/**
+ * Get a valid session token, issuing or refreshing one when needed
+ *
+ * Concurrent callers share one request.
+ */
+export function ensureSessionToken(): Promise<string> {
+  if (!pending) {
+    pending = resolveToken().finally(() => {
+      pending = null
+    })
+  }
+  return pending
+}
+
+/**
+ * Replace the session token; with revokeAll, every other copy stops working
+ */
+export async function rotateSessionToken(revokeAll = false): Promise<void> {
+  const token = await ensureSessionToken()
+  await requestToken('/session/token/refresh', { token, revokeAll })
+}
@@ -0,0 +1,57 @@
+import apiClient from './client'
+import type {
+  IdentityStatus,
+  RecoveryKeyResponse,
+  ClaimIdentityResponse,
+  SessionErasureStatus,
+} from '@/types'
+
+const BASE_PATH = '/session'
+
+export const sessionApi = {
+  /**
+   * Check whether this session is linked to a persistent identity
+   */
+  async getIdentity(): Promise<IdentityStatus> {
+    const response = await apiClient.get<IdentityStatus>(`${BASE_PATH}/identity`)
+    return response.data
+  },
+
+  /**
+   * Export a recovery key (replaces any earlier key)
+   */
+  async exportRecoveryKey(): Promise<RecoveryKeyResponse> {
+    const response = await apiClient.post<RecoveryKeyResponse>(`${BASE_PATH}/identity`)
+    return response.data
+  },
+
+  /**
+   * Link this session to the identity behind a recovery key
+   */
+  async claimIdentity(recoveryKey: string): Promise<ClaimIdentityResponse> {
+    const response = await apiClient.post<ClaimIdentityResponse>(
+      `${BASE_PATH}/identity/claim`,
+      { recoveryKey }
+    )
+    return response.data
+  },
+
+  /**
+   * Erase this session and, if no other device is linked, what it wrote.
+   * The current token stops working straight away.
+   */
+  async erase(): Promise<SessionErasureStatus> {
+    const response = await apiClient.delete<SessionErasureStatus>(BASE_PATH)
+    return response.data
+  },
+
+  /**
+   * Check on an erasure (works without the erased session)
+   */
+  async getErasureStatus(jobId: string): Promise<SessionErasureStatus> {
+    const response = await apiClient.get<SessionErasureStatus>(
+      `${BASE_PATH}/erasure/${encodeURIComponent(jobId)}`
+    )
+    return response.data
+  },
+}
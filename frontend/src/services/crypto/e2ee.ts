@@ -0,0 +1,139 @@
+import { getRoomKeyPair, setRoomKeyPair } from '@/utils/storage'
+
+// ECDH on P-256 agrees a shared AES-GCM key between the two participants
+const KEY_PAIR_PARAMS: EcKeyGenParams = { name: 'ECDH', namedCurve: 'P-256' }
+const MESSAGE_KEY_PARAMS: AesKeyGenParams = { name: 'AES-GCM', length: 256 }
+const CIPHERTEXT_VERSION = 'v1'
+const IV_LENGTH = 12
+
+interface StoredKeyPair {
+  publicKey: string
+  privateKey: JsonWebKey
+}
+
+export interface RoomKeyPair {
+  // Raw public key, base64url encoded as it is shared with the server
+  publicKey: string
+  privateKey: CryptoKey
+}
+
+function toBase64Url(bytes: ArrayBuffer | Uint8Array): string {
+  const binary = String.fromCharCode(...new Uint8Array(bytes))
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'))
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0))
+}
+
+async function importPrivateKey(jwk: JsonWebKey): Promise<CryptoKey> {
+  return crypto.subtle.importKey('jwk', jwk, KEY_PAIR_PARAMS, false, ['deriveKey'])
+}
+
+/**
+ * Get this browser's key pair for a room, creating and saving one if needed.
+ * The private key never leaves the browser.
+ */
+export async function getOrCreateRoomKeyPair(roomId: string): Promise<RoomKeyPair> {
+  const saved = getRoomKeyPair(roomId)
+  if (saved) {
+    try {
+      const stored = JSON.parse(saved) as StoredKeyPair
+      return {
+        publicKey: stored.publicKey,
+        privateKey: await importPrivateKey(stored.privateKey),
+      }
+    } catch {
+      // Unreadable key pair - replace it below
+    }
+  }
+
+  const keyPair = await crypto.subtle.generateKey(KEY_PAIR_PARAMS, true, ['deriveKey'])
+  const stored: StoredKeyPair = {
+    publicKey: toBase64Url(await crypto.subtle.exportKey('raw', keyPair.publicKey)),
+    privateKey: await crypto.subtle.exportKey('jwk', keyPair.privateKey),
+  }
+  setRoomKeyPair(roomId, JSON.stringify(stored))
+
+  return {
+    publicKey: stored.publicKey,
+    privateKey: await importPrivateKey(stored.privateKey),
+  }
+}
+
+/**
+ * Derive the key both participants use for messages from our private key
+ * and the other participant's public key
+ */
+export async function deriveMessageKey(
+  privateKey: CryptoKey,
+  peerPublicKey: string
+): Promise<CryptoKey> {
+  const publicKey = await crypto.subtle.importKey(
+    'raw',
+    fromBase64Url(peerPublicKey),
+    KEY_PAIR_PARAMS,
+    false,
+    []
+  )
+  return crypto.subtle.deriveKey(
+    { name: 'ECDH', public: publicKey },
+    privateKey,
+    MESSAGE_KEY_PARAMS,
+    false,
+    ['encrypt', 'decrypt']
+  )
+}
+
+/**
+ * Encrypt message content as `v1.<iv>.<ciphertext>` (base64url parts)
+ */
+export async function encryptContent(key: CryptoKey, plaintext: string): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH))
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(plaintext)
+  )
+  return `${CIPHERTEXT_VERSION}.${toBase64Url(iv)}.${toBase64Url(ciphertext)}`
+}
+
+/**
+ * Decrypt content produced by encryptContent. Throws if it was encrypted
+ * with another key or has been tampered with.
+ */
+export async function decryptContent(key: CryptoKey, payload: string): Promise<string> {
+  const [version, iv, ciphertext] = payload.split('.')
+  if (version !== CIPHERTEXT_VERSION || !iv || !ciphertext) {
+    throw new Error('Unsupported encrypted content')
+  }
+
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64Url(iv) },
+    key,
+    fromBase64Url(ciphertext)
+  )
+  return new TextDecoder().decode(plaintext)
+}
+
+/**
+ * Safety code for both public keys, e.g. "12345 67890 ...".
+ * Both participants see the same code, so they can compare it out of band
+ * to make sure nobody swapped a key in transit.
+ */
+export async function getSafetyCode(publicKeyA: string, publicKeyB: string): Promise<string> {
+  const keys = [publicKeyA, publicKeyB].sort().join('.')
+  const digest = new Uint8Array(
+    await crypto.subtle.digest('SHA-256', new TextEncoder().encode(keys))
+  )
+
+  const groups: string[] = []
+  for (let i = 0; i < 6; i++) {
+    const value = digest
+      .slice(i * 5, i * 5 + 5)
+      .reduce((acc, byte) => (acc * 256 + byte) % 100000, 0)
+    groups.push(value.toString().padStart(5, '0'))
+  }
+  return groups.join(' ')
+}
@@ -0,0 +1,8 @@
+export {
+  getOrCreateRoomKeyPair,
+  deriveMessageKey,
+  encryptContent,
+  decryptContent,
+  getSafetyCode,
+  type RoomKeyPair,
+} from './e2ee'
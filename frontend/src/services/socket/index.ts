@@ -2,6 +2,7 @@ export {
   getSocket,
   connectSocket,
   disconnectSocket,
+  reportActivity,
   isSocketConnected,
   getSocketId,
   type TypedSocket,
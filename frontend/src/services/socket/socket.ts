@@ -1,7 +1,9 @@
 import { io, Socket } from 'socket.io-client'
 import type { ClientToServerEvents, ServerToClientEvents } from '@/types'
-import { getSessionId } from '@/utils/storage'
+import { clearSessionToken } from '@/utils/storage'
+import { ensureSessionToken } from '@/services/api/session-token'
 import {
+  PRESENCE_HEARTBEAT_INTERVAL,
   SOCKET_RECONNECTION_ATTEMPTS,
   SOCKET_RECONNECTION_DELAY,
 } from '@/utils/constants'
@@ -9,6 +11,8 @@ import {
 type TypedSocket = Socket<ServerToClientEvents, ClientToServerEvents>
 
 let socket: TypedSocket | null = null
+let tokenRetried = false
+let lastHeartbeatAt = 0
 
 /**
  * Get the WebSocket URL with correct protocol
@@ -40,7 +44,6 @@ function getSocketUrl(): string {
 export function getSocket(): TypedSocket {
   if (!socket) {
     const url = getSocketUrl()
-    console.log('getSessionId()', getSessionId())
     console.log('[Socket] Connecting to:', url)
     
     socket = io(url, {
@@ -50,10 +53,27 @@ export function getSocket(): TypedSocket {
       reconnection: true,
       reconnectionAttempts: SOCKET_RECONNECTION_ATTEMPTS,
       reconnectionDelay: SOCKET_RECONNECTION_DELAY,
-      auth: {
-        sessionId: getSessionId(),
+      // Called before every connection attempt, so reconnects use a fresh token
+      auth: (cb) => {
+        ensureSessionToken()
+          .then((token) => cb({ token }))
+          .catch(() => cb({}))
       },
     })
+
+    // The handshake rejects stale tokens and socket.io won't retry on its own
+    socket.on('connect_error', (error) => {
+      if (error.message === 'Invalid session token' && !tokenRetried) {
+        tokenRetried = true
+        clearSessionToken()
+        socket?.connect()
+      }
+    })
+    socket.on('connect', () => {
+      tokenRetried = false
+      // Connecting counts as activity; let the next input send a heartbeat
+      lastHeartbeatAt = Date.now()
+    })
   }
   return socket
 }
@@ -64,8 +84,6 @@ export function getSocket(): TypedSocket {
 export function connectSocket(): TypedSocket {
   const s = getSocket()
   if (!s.connected) {
-    // Update auth with current session ID before connecting
-    s.auth = { sessionId: getSessionId() }
     s.connect()
   }
   return s
@@ -80,6 +98,22 @@ export function disconnectSocket(): void {
   }
 }
 
+/**
+ * Tell the server the user is active, at most once per heartbeat interval
+ *
+ * Call on user input; the server marks the user idle, then away, when
+ * these stop.
+ */
+export function reportActivity(): void {
+  if (!socket?.connected) return
+
+  const now = Date.now()
+  if (now - lastHeartbeatAt < PRESENCE_HEARTBEAT_INTERVAL) return
+
+  lastHeartbeatAt = now
+  socket.emit('heartbeat')
+}
+
 /**
  * Check if socket is connected
  */
@@ -1,9 +1,24 @@
 import { defineStore } from 'pinia'
-import { ref, computed } from 'vue'
-import type { Message, ReactionCount } from '@/types'
+import { ref, shallowRef, computed } from 'vue'
+import type {
+  Message,
+  MessageAttachment,
+  MessageContentType,
+  MessageRevision,
+  MessageTtlStart,
+  ReactionCount,
+  ReplyPreview,
+  ReportReason,
+} from '@/types'
 import { messageApi } from '@/services/api'
 import { getSocket } from '@/services/socket'
-import { MESSAGES_PER_PAGE } from '@/utils/constants'
+import { decryptContent, encryptContent } from '@/services/crypto'
+import {
+  MESSAGES_PER_PAGE,
+  MESSAGE_ACK_TIMEOUT,
+  REPLY_SNIPPET_LENGTH,
+} from '@/utils/constants'
+import { formatNameList } from '@/utils/formatters'
 
 interface TypingUser {
   userId: string
@@ -11,6 +26,22 @@ interface TypingUser {
   timestamp: number
 }
 
+interface MessageSender {
+  userId: string
+  displayName: string
+}
+
+// Messages without a status came from the server; 'sent' ones were confirmed by an ack
+function isDelivered(message: Message): boolean {
+  return !message.status || message.status === 'sent'
+}
+
+function toSnippet(content: string): string {
+  return content.length > REPLY_SNIPPET_LENGTH
+    ? `${content.slice(0, REPLY_SNIPPET_LENGTH)}…`
+    : content
+}
+
 export const useChatStore = defineStore('chat', () => {
   // State
   const messages = ref<Message[]>([])
@@ -20,6 +51,16 @@ export const useChatStore = defineStore('chat', () => {
   const hasMoreMessages = ref(true)
   const oldestMessageId = ref<string | null>(null)
   const error = ref<string | null>(null)
+  const replyingTo = ref<Message | null>(null)
+  // Last message we reported as read, to avoid re-sending the same cursor
+  const lastMarkedReadId = ref<string | null>(null)
+  // End-to-end encrypted rooms: messages are encrypted before they leave
+  // and decrypted as they arrive. The key stays null until both
+  // participants have shared their public keys.
+  const isEncrypted = ref(false)
+  const encryptionKey = shallowRef<CryptoKey | null>(null)
+  // Lifetime chosen in the composer for new messages (null uses the room default)
+  const messageTtl = ref<{ seconds: number; start: MessageTtlStart } | null>(null)
 
   // Getters
   const sortedMessages = computed(() => {
@@ -44,9 +85,8 @@ export const useChatStore = defineStore('chat', () => {
   const typingText = computed(() => {
     const users = typingUsersList.value
     if (users.length === 0) return ''
-    const firstUser = users[0]
-    if (users.length === 1 && firstUser) return `${firstUser.displayName} is typing...`
-    return `${users.map((u) => u.displayName).join(' and ')} are typing...`
+    const names = formatNameList(users.map((u) => u.displayName))
+    return `${names} ${users.length === 1 ? 'is' : 'are'} typing...`
   })
 
   // Actions
@@ -63,19 +103,24 @@ export const useChatStore = defineStore('chat', () => {
         limit: MESSAGES_PER_PAGE,
         before: loadMore ? oldestMessageId.value || undefined : undefined,
       })
+      await decryptMessages(response.messages)
 
       if (loadMore) {
-        // Prepend older messages
-        messages.value = [...response.messages, ...messages.value]
+        // Prepend older messages, skipping any already loaded
+        const loadedIds = new Set(messages.value.map((m) => m.messageId))
+        const olderMessages = response.messages.filter(
+          (m) => !loadedIds.has(m.messageId)
+        )
+        messages.value = [...olderMessages, ...messages.value]
       } else {
         // Initial load
         messages.value = response.messages
       }
 
       hasMoreMessages.value = response.pagination.hasMore
-      const firstMessage = response.messages[0]
-      if (response.messages.length > 0 && firstMessage) {
-        oldestMessageId.value = firstMessage.messageId
+      const oldest = findOldestMessage(response.messages)
+      if (oldest) {
+        oldestMessageId.value = oldest.messageId
       }
     } catch (err) {
       error.value = (err as Error).message
@@ -85,16 +130,42 @@ export const useChatStore = defineStore('chat', () => {
     }
   }
 
+  /**
+   * Load older pages until a message is present (e.g. to jump to a quoted message)
+   * Returns whether the message was found
+   */
+  async function loadUntilMessage(
+    roomId: string,
+    messageId: string
+  ): Promise<boolean> {
+    const isLoaded = () => messages.value.some((m) => m.messageId === messageId)
+
+    while (!isLoaded() && hasMoreMessages.value) {
+      const countBefore = messages.value.length
+      await loadMessages(roomId, true)
+      // Stop if the page added nothing (e.g. a load was already in flight)
+      if (messages.value.length === countBefore) break
+    }
+
+    return isLoaded()
+  }
+
   async function sendMessage(
     roomId: string,
     content: string,
-    contentType: 'text' | 'emoji' = 'text'
+    contentType: MessageContentType = 'text',
+    replyTo?: string
   ): Promise<Message> {
     isSending.value = true
     error.value = null
 
     try {
-      const message = await messageApi.send({ roomId, content, contentType })
+      const message = await messageApi.send({
+        roomId,
+        content,
+        contentType,
+        replyTo,
+      })
       // Don't add to messages here - it will come through the socket
       return message
     } catch (err) {
@@ -105,6 +176,181 @@ export const useChatStore = defineStore('chat', () => {
     }
   }
 
+  /**
+   * Send a message over the socket, showing it immediately as pending.
+   * The local copy is keyed by a clientMessageId, which the server uses to
+   * dedupe retries, and is replaced once the server confirms it.
+   * With an attachment, the content is its caption. The composer's
+   * disappearing message lifetime, if any, goes with it.
+   */
+  function queueMessage(
+    roomId: string,
+    content: string,
+    contentType: MessageContentType,
+    sender: MessageSender,
+    replyTo?: Message | null,
+    attachment?: MessageAttachment
+  ): void {
+    const clientMessageId = crypto.randomUUID()
+
+    messages.value.push({
+      messageId: clientMessageId,
+      clientMessageId,
+      roomId,
+      senderId: sender.userId,
+      senderName: sender.displayName,
+      content,
+      // Our own copy is already plaintext
+      encrypted: isEncrypted.value || undefined,
+      decryptionFailed: isEncrypted.value ? false : undefined,
+      contentType: attachment
+        ? attachment.durationMs !== undefined
+          ? 'audio'
+          : attachment.hasThumbnail
+            ? 'image'
+            : 'file'
+        : contentType,
+      attachment,
+      isDeleted: false,
+      replyTo: replyTo
+        ? {
+            messageId: replyTo.messageId,
+            senderId: replyTo.senderId,
+            senderName: replyTo.senderName,
+            snippet: toSnippet(
+              replyTo.content ||
+                (replyTo.contentType === 'audio'
+                  ? 'Voice message'
+                  : replyTo.attachment?.fileName) ||
+                ''
+            ),
+            isDeleted: false,
+          }
+        : undefined,
+      reactions: [],
+      ttlSeconds: messageTtl.value?.seconds ?? null,
+      ttlStart: messageTtl.value?.start ?? null,
+      createdAt: new Date().toISOString(),
+      status: 'pending',
+    })
+
+    deliverMessage(clientMessageId)
+  }
+
+  async function deliverMessage(clientMessageId: string): Promise<void> {
+    const message = findUnsentMessage(clientMessageId)
+    if (!message) return
+
+    message.status = 'pending'
+
+    let content = message.content
+    if (isEncrypted.value) {
+      if (!encryptionKey.value) {
+        message.status = 'failed'
+        return
+      }
+      content = await encryptContent(encryptionKey.value, message.content)
+    }
+
+    const socket = getSocket()
+    socket.timeout(MESSAGE_ACK_TIMEOUT).emit(
+      'send_message',
+      {
+        roomId: message.roomId,
+        content,
+        encrypted: isEncrypted.value || undefined,
+        contentType: message.contentType,
+        replyTo: message.replyTo?.messageId,
+        clientMessageId,
+        attachmentId: message.attachment?.attachmentId,
+        ttlSeconds: message.ttlSeconds ?? undefined,
+        ttlStart: message.ttlStart ?? undefined,
+      },
+      (err, ack) => {
+        if (err || ack.status !== 'sent' || !ack.messageId) {
+          const unsent = findUnsentMessage(clientMessageId)
+          if (unsent) unsent.status = 'failed'
+          return
+        }
+        confirmMessage(clientMessageId, ack.messageId)
+      }
+    )
+  }
+
+  function retryMessage(clientMessageId: string): void {
+    deliverMessage(clientMessageId)
+  }
+
+  // Resend everything still unconfirmed (e.g. after reconnecting)
+  function retryUnsentMessages(): void {
+    messages.value
+      .filter((m) => !isDelivered(m) && m.clientMessageId)
+      .forEach((m) => deliverMessage(m.clientMessageId as string))
+  }
+
+  function findUnsentMessage(clientMessageId: string): Message | undefined {
+    return messages.value.find(
+      (m) => m.clientMessageId === clientMessageId && m.status
+    )
+  }
+
+  function confirmMessage(clientMessageId: string, messageId: string): void {
+    const index = messages.value.findIndex(
+      (m) => m.clientMessageId === clientMessageId && m.status
+    )
+    if (index === -1) return
+
+    // The broadcast may already have added the server copy
+    if (messages.value.some((m) => m.messageId === messageId)) {
+      messages.value.splice(index, 1)
+      return
+    }
+
+    const message = messages.value[index]
+    if (message) {
+      message.messageId = messageId
+      message.status = 'sent'
+    }
+  }
+
+  function markRead(roomId: string): void {
+    const delivered = sortedMessages.value.filter(isDelivered)
+    const latest = delivered[delivered.length - 1]
+    if (!latest || latest.messageId === lastMarkedReadId.value) return
+
+    const socket = getSocket()
+    if (socket) {
+      socket.emit('mark_read', { roomId, messageId: latest.messageId })
+      lastMarkedReadId.value = latest.messageId
+    }
+  }
+
+  function setReplyingTo(message: Message | null) {
+    replyingTo.value = message
+  }
+
+  async function editMessage(messageId: string, content: string): Promise<void> {
+    error.value = null
+
+    if (isEncrypted.value) {
+      if (!encryptionKey.value) {
+        error.value = 'Waiting for the other participant to share their key'
+        return
+      }
+      content = await encryptContent(encryptionKey.value, content)
+    }
+
+    // Use socket event instead of REST API for real-time broadcast
+    const socket = getSocket()
+    if (socket) {
+      socket.emit('edit_message', {
+        messageId,
+        content,
+        encrypted: isEncrypted.value || undefined,
+      })
+    }
+  }
+
   function deleteMessage(messageId: string): void {
     error.value = null
     // Use socket event instead of REST API for real-time broadcast
@@ -114,6 +360,18 @@ export const useChatStore = defineStore('chat', () => {
     }
   }
 
+  function reportMessage(
+    messageId: string,
+    reason: ReportReason,
+    details?: string
+  ): void {
+    error.value = null
+    const socket = getSocket()
+    if (socket) {
+      socket.emit('report_message', { messageId, reason, details })
+    }
+  }
+
   function addReaction(messageId: string, type: string): void {
     error.value = null
     // Use socket event instead of REST API for real-time broadcast
@@ -132,8 +390,80 @@ export const useChatStore = defineStore('chat', () => {
     }
   }
 
+  function setEncryption(enabled: boolean, key: CryptoKey | null = null) {
+    isEncrypted.value = enabled
+    if (key === encryptionKey.value) return
+
+    encryptionKey.value = key
+    // Messages that arrived before the key was known can be read now
+    if (key) {
+      decryptMessages(messages.value)
+    }
+  }
+
+  /**
+   * Decrypt encrypted messages in place. Content is only replaced on
+   * success, so messages that fail can be retried once a key is known.
+   */
+  async function decryptMessages(list: Message[]): Promise<void> {
+    const pending = list.filter(
+      (m) => m.encrypted && m.decryptionFailed !== false && !m.isDeleted
+    )
+    if (pending.length === 0) return
+
+    const key = encryptionKey.value
+    await Promise.all(
+      pending.map(async (message) => {
+        if (!key) {
+          message.decryptionFailed = true
+          return
+        }
+        try {
+          const [content, ...revisions] = await Promise.all([
+            message.content ? decryptContent(key, message.content) : '',
+            ...(message.revisions || []).map((r) => decryptContent(key, r.content)),
+          ])
+          message.content = content ?? ''
+          message.revisions = message.revisions?.map((r, i) => ({
+            ...r,
+            content: revisions[i] ?? '',
+          }))
+          message.decryptionFailed = false
+        } catch {
+          message.decryptionFailed = true
+        }
+      })
+    )
+
+    fillEncryptedReplySnippets()
+  }
+
+  // The server can't quote encrypted messages, so use our decrypted parent
+  function fillEncryptedReplySnippets() {
+    messages.value.forEach((m) => {
+      if (!m.replyTo?.encrypted || m.replyTo.isDeleted || m.replyTo.snippet) return
+      const parent = messages.value.find((p) => p.messageId === m.replyTo?.messageId)
+      if (parent && parent.decryptionFailed === false) {
+        m.replyTo.snippet = toSnippet(parent.content)
+      }
+    })
+  }
+
   // Socket event handlers
-  function addMessage(message: Message) {
+  async function addMessage(message: Message) {
+    await decryptMessages([message])
+
+    // Replace our local copy of a message we sent
+    if (message.clientMessageId) {
+      const index = messages.value.findIndex(
+        (m) => m.clientMessageId === message.clientMessageId
+      )
+      if (index !== -1) {
+        messages.value.splice(index, 1, message)
+        return
+      }
+    }
+
     // Check if message already exists
     const exists = messages.value.find((m) => m.messageId === message.messageId)
     if (!exists) {
@@ -141,14 +471,58 @@ export const useChatStore = defineStore('chat', () => {
     }
   }
 
-  function setMessages(newMessages: Message[]) {
-    messages.value = newMessages
-    const firstMessage = newMessages[0]
-    if (newMessages.length > 0 && firstMessage) {
-      oldestMessageId.value = firstMessage.messageId
+  async function setMessages(newMessages: Message[]) {
+    await decryptMessages(newMessages)
+
+    // Keep local messages still awaiting delivery (e.g. across a reconnect)
+    const stored = new Set(newMessages.map((m) => m.clientMessageId))
+    const unsent = messages.value.filter(
+      (m) => !isDelivered(m) && !stored.has(m.clientMessageId)
+    )
+    messages.value = [...newMessages, ...unsent]
+    const oldest = findOldestMessage(newMessages)
+    if (oldest) {
+      oldestMessageId.value = oldest.messageId
     }
   }
 
+  // Pages may arrive newest-first, so pick the oldest explicitly
+  function findOldestMessage(list: Message[]): Message | undefined {
+    return list.reduce<Message | undefined>(
+      (oldest, m) =>
+        !oldest || new Date(m.createdAt) < new Date(oldest.createdAt)
+          ? m
+          : oldest,
+      undefined
+    )
+  }
+
+  async function updateMessageEdited(
+    messageId: string,
+    content: string,
+    editedAt: string,
+    revisions: MessageRevision[],
+    encrypted = false
+  ) {
+    const message = messages.value.find((m) => m.messageId === messageId)
+    if (!message) return
+
+    message.content = content
+    message.isEdited = true
+    message.editedAt = editedAt
+    message.revisions = revisions
+
+    if (encrypted) {
+      message.decryptionFailed = undefined
+      await decryptMessages([message])
+      if (message.decryptionFailed) return
+    }
+
+    updateReplyPreviews(messageId, (preview) => {
+      preview.snippet = toSnippet(message.content)
+    })
+  }
+
   function updateMessageDeleted(
     messageId: string,
     deletedByName: string
@@ -157,9 +531,83 @@ export const useChatStore = defineStore('chat', () => {
     if (message) {
       message.isDeleted = true
       message.deletedByName = deletedByName
+      message.revisions = []
+    }
+    updateReplyPreviews(messageId, (preview) => {
+      preview.isDeleted = true
+      preview.snippet = ''
+    })
+    if (replyingTo.value?.messageId === messageId) {
+      replyingTo.value = null
+    }
+  }
+
+  // Disappearing messages are gone for good, unlike deleted ones
+  function removeMessage(messageId: string) {
+    messages.value = messages.value.filter((m) => m.messageId !== messageId)
+    updateReplyPreviews(messageId, (preview) => {
+      preview.isDeleted = true
+      preview.snippet = ''
+    })
+    if (replyingTo.value?.messageId === messageId) {
+      replyingTo.value = null
+    }
+  }
+
+  // An operator deleted every message in the room
+  function removeAllMessages() {
+    messages.value = []
+    hasMoreMessages.value = false
+    oldestMessageId.value = null
+    replyingTo.value = null
+  }
+
+  // A participant erased their session: their messages become tombstones
+  function eraseSenderMessages(senderId: string, senderName: string) {
+    messages.value.forEach((m) => {
+      if (m.senderId === senderId) {
+        m.senderName = senderName
+        m.content = ''
+        m.attachment = undefined
+        m.isDeleted = true
+        m.deletedByName = undefined
+        m.revisions = []
+      }
+      if (m.replyTo?.senderId === senderId) {
+        m.replyTo.senderName = senderName
+        m.replyTo.isDeleted = true
+        m.replyTo.snippet = ''
+      }
+    })
+    if (replyingTo.value?.senderId === senderId) {
+      replyingTo.value = null
     }
   }
 
+  // A read started a disappearing message's timer
+  function setMessageExpiry(messageId: string, expiresAt: string) {
+    const message = messages.value.find((m) => m.messageId === messageId)
+    if (message) {
+      message.expiresAt = expiresAt
+    }
+  }
+
+  function setMessageTtl(ttl: { seconds: number; start: MessageTtlStart } | null) {
+    messageTtl.value = ttl
+  }
+
+  // Keep quoted previews in replies in sync with their parent
+  function updateReplyPreviews(
+    parentId: string,
+    update: (preview: ReplyPreview) => void
+  ) {
+    messages.value.forEach((m) => {
+      if (m.replyTo?.messageId === parentId) {
+        update(m.replyTo)
+      }
+    })
+  }
+
   function updateMessageReactions(
     messageId: string,
     reactions: ReactionCount[]
@@ -192,6 +640,11 @@ export const useChatStore = defineStore('chat', () => {
     hasMoreMessages.value = true
     oldestMessageId.value = null
     error.value = null
+    replyingTo.value = null
+    lastMarkedReadId.value = null
+    isEncrypted.value = false
+    encryptionKey.value = null
+    messageTtl.value = null
   }
 
   function clearError() {
@@ -206,20 +659,39 @@ export const useChatStore = defineStore('chat', () => {
     isSending,
     hasMoreMessages,
     error,
+    replyingTo,
+    isEncrypted,
+    encryptionKey,
+    messageTtl,
     // Getters
     sortedMessages,
     typingUsersList,
     typingText,
     // Actions
     loadMessages,
+    loadUntilMessage,
     sendMessage,
+    queueMessage,
+    retryMessage,
+    retryUnsentMessages,
+    markRead,
+    setReplyingTo,
+    editMessage,
     deleteMessage,
+    reportMessage,
     addReaction,
     removeReaction,
+    setEncryption,
+    setMessageTtl,
     // Socket handlers
     addMessage,
     setMessages,
+    updateMessageEdited,
     updateMessageDeleted,
+    removeMessage,
+    removeAllMessages,
+    eraseSenderMessages,
+    setMessageExpiry,
     updateMessageReactions,
     setUserTyping,
     clearTypingUsers,
@@ -1,7 +1,14 @@
 import { defineStore } from 'pinia'
 import { ref, computed } from 'vue'
-import type { RoomResponse, Participant } from '@/types'
+import type {
+  RoomResponse,
+  Participant,
+  InviteResponse,
+  MessageTtlStart,
+  PresenceStatus,
+} from '@/types'
 import { roomApi } from '@/services/api'
+import { deriveMessageKey, getOrCreateRoomKeyPair, getSafetyCode } from '@/services/crypto'
 
 export const useRoomStore = defineStore('room', () => {
   // State
@@ -9,12 +16,28 @@ export const useRoomStore = defineStore('room', () => {
   const participants = ref<Participant[]>([])
   const isLoading = ref(false)
   const error = ref<string | null>(null)
+  // Shown to both participants so they can check no key was swapped
+  const safetyCode = ref<string | null>(null)
 
   // Getters
   const roomId = computed(() => currentRoom.value?.roomId || null)
   const roomCode = computed(() => currentRoom.value?.roomCode || null)
   const isRoomActive = computed(() => currentRoom.value?.status === 'active')
   const isInRoom = computed(() => !!currentRoom.value)
+  const maxParticipants = computed(() => currentRoom.value?.maxParticipants ?? 2)
+  const isGroup = computed(() => maxParticipants.value > 2)
+  const expiresAt = computed(() => currentRoom.value?.expiresAt ?? null)
+  const hasPassphrase = computed(() => currentRoom.value?.hasPassphrase ?? false)
+  const isEncrypted = computed(() => currentRoom.value?.encrypted ?? false)
+  // Default lifetime of new messages (null keeps them)
+  const messageTtl = computed(() =>
+    currentRoom.value?.messageTtlSeconds
+      ? {
+          seconds: currentRoom.value.messageTtlSeconds,
+          start: currentRoom.value.messageTtlStart,
+        }
+      : null
+  )
 
   const otherParticipant = computed(() => {
     if (!currentRoom.value) return null
@@ -26,11 +49,24 @@ export const useRoomStore = defineStore('room', () => {
   const activeParticipants = computed(() => participants.value.filter((p) => p.isActive))
 
   // Actions
-  async function createRoom(displayName: string): Promise<string> {
+  async function createRoom(
+    displayName: string,
+    maxParticipants?: number,
+    passphrase?: string,
+    encrypted?: boolean,
+    messageTtl?: { seconds: number; start: MessageTtlStart } | null
+  ): Promise<string> {
     isLoading.value = true
     error.value = null
     try {
-      const createResponse = await roomApi.create({ displayName })
+      const createResponse = await roomApi.create({
+        displayName,
+        maxParticipants,
+        passphrase,
+        encrypted,
+        messageTtlSeconds: messageTtl?.seconds,
+        messageTtlStart: messageTtl?.start,
+      })
       
       // After creation, join the room to set currentRoom state
       // This ensures the user is properly registered in the room
@@ -50,11 +86,16 @@ export const useRoomStore = defineStore('room', () => {
     }
   }
 
-  async function joinRoom(roomCode: string, displayName: string): Promise<RoomResponse> {
+  // Protected rooms need either the passphrase or an invite token
+  async function joinRoom(
+    roomCode: string,
+    displayName: string,
+    access: { passphrase?: string; inviteToken?: string } = {}
+  ): Promise<RoomResponse> {
     isLoading.value = true
     error.value = null
     try {
-      const response = await roomApi.join({ roomCode, displayName })
+      const response = await roomApi.join({ roomCode, displayName, ...access })
       currentRoom.value = response
       participants.value = response.participants
       return response
@@ -151,6 +192,101 @@ export const useRoomStore = defineStore('room', () => {
     }
   }
 
+  function updateReadCursor(userId: string, messageId: string) {
+    const participant = participants.value.find((p) => p.userId === userId)
+    if (participant) {
+      participant.lastReadMessageId = messageId
+    }
+  }
+
+  function updateParticipantPresence(
+    userId: string,
+    presence: PresenceStatus,
+    lastSeenAt: string
+  ) {
+    const participant = participants.value.find((p) => p.userId === userId)
+    if (participant) {
+      participant.presence = presence
+      participant.isOnline = presence !== 'offline'
+      participant.lastSeenAt = lastSeenAt
+    }
+  }
+
+  function setParticipantPublicKey(userId: string, publicKey: string) {
+    const participant = participants.value.find((p) => p.userId === userId)
+    if (participant) {
+      participant.publicKey = publicKey
+    }
+  }
+
+  /**
+   * Share our public key if the server doesn't have it yet, and derive the
+   * message key once the other participant has shared theirs.
+   * Returns null until both keys are known.
+   */
+  async function setupEncryption(userId: string): Promise<CryptoKey | null> {
+    if (!currentRoom.value?.encrypted) return null
+
+    const roomIdToSetup = currentRoom.value.roomId
+    const keyPair = await getOrCreateRoomKeyPair(roomIdToSetup)
+
+    const self = participants.value.find((p) => p.userId === userId)
+    if (self && self.publicKey !== keyPair.publicKey) {
+      const { getSocket } = await import('@/services/socket')
+      const socket = getSocket()
+      if (socket.connected) {
+        socket.emit('share_public_key', {
+          roomId: roomIdToSetup,
+          publicKey: keyPair.publicKey,
+        })
+      }
+    }
+
+    const peer = participants.value.find((p) => p.userId !== userId && p.publicKey)
+    if (!peer?.publicKey) {
+      safetyCode.value = null
+      return null
+    }
+
+    safetyCode.value = await getSafetyCode(keyPair.publicKey, peer.publicKey)
+    return deriveMessageKey(keyPair.privateKey, peer.publicKey)
+  }
+
+  function setExpiry(newExpiresAt: string | null) {
+    if (currentRoom.value) {
+      currentRoom.value.expiresAt = newExpiresAt
+    }
+  }
+
+  // The server broadcasts room_expiry_extended to everyone once it's applied
+  async function extendExpiry(hours: number): Promise<void> {
+    if (!currentRoom.value) return
+
+    const { getSocket } = await import('@/services/socket')
+    const socket = getSocket()
+    if (socket.connected) {
+      socket.emit('extend_room', { roomId: currentRoom.value.roomId, hours })
+    }
+  }
+
+  // Only the host may kick; the server broadcasts participant_kicked once applied
+  async function kickParticipant(userId: string): Promise<void> {
+    if (!currentRoom.value) return
+
+    const { getSocket } = await import('@/services/socket')
+    const socket = getSocket()
+    if (socket.connected) {
+      socket.emit('kick_participant', { roomId: currentRoom.value.roomId, userId })
+    }
+  }
+
+  async function createInvite(maxUses = 1): Promise<InviteResponse> {
+    if (!currentRoom.value) {
+      throw new Error('Not in a room')
+    }
+    return roomApi.createInvite(currentRoom.value.roomId, { maxUses })
+  }
+
   function setRoomClosed() {
     if (currentRoom.value) {
       currentRoom.value.status = 'closed'
@@ -162,6 +298,7 @@ export const useRoomStore = defineStore('room', () => {
     currentRoom.value = null
     participants.value = []
     error.value = null
+    safetyCode.value = null
   }
 
   function clearError() {
@@ -174,11 +311,18 @@ export const useRoomStore = defineStore('room', () => {
     participants,
     isLoading,
     error,
+    safetyCode,
     // Getters
     roomId,
     roomCode,
     isRoomActive,
     isInRoom,
+    maxParticipants,
+    isGroup,
+    expiresAt,
+    hasPassphrase,
+    isEncrypted,
+    messageTtl,
     otherParticipant,
     activeParticipants,
     // Actions
@@ -191,6 +335,14 @@ export const useRoomStore = defineStore('room', () => {
     updateParticipants,
     addParticipant,
     removeParticipant,
+    updateReadCursor,
+    updateParticipantPresence,
+    setParticipantPublicKey,
+    setupEncryption,
+    setExpiry,
+    extendExpiry,
+    kickParticipant,
+    createInvite,
     setRoomClosed,
     clearRoom,
     clearError,
@@ -1,19 +1,34 @@
 // API Response Types - matching backend DTOs
 
 // Room Types
+// Online while active, idle and then away as activity stops
+export type PresenceStatus = 'online' | 'idle' | 'away' | 'offline'
+
 export interface Participant {
   userId: string
   displayName: string
+  role?: 'host' | 'member'
   isActive: boolean
   joinedAt: string
   isOnline?: boolean
-  lastSeenAt?: string
+  presence?: PresenceStatus
+  lastSeenAt?: string | null
+  lastReadMessageId?: string | null
+  // Shared in end-to-end encrypted rooms (base64url ECDH P-256 key)
+  publicKey?: string | null
 }
 
+// When a disappearing message's timer starts
+export type MessageTtlStart = 'sent' | 'read'
+
 export interface CreateRoomRequest {
   displayName: string
   maxParticipants?: number
   expiresInHours?: number
+  passphrase?: string
+  encrypted?: boolean
+  messageTtlSeconds?: number
+  messageTtlStart?: MessageTtlStart
 }
 
 export interface CreateRoomResponse {
@@ -21,20 +36,45 @@ export interface CreateRoomResponse {
   roomCode: string
   createdAt: string
   expiresAt: string | null
+  hasPassphrase: boolean
+  encrypted: boolean
+  messageTtlSeconds: number | null
+  messageTtlStart: MessageTtlStart
 }
 
 export interface JoinRoomRequest {
   roomCode: string
   displayName: string
+  passphrase?: string
+  inviteToken?: string
+}
+
+export interface CreateInviteRequest {
+  maxUses?: number
+  expiresInHours?: number
+}
+
+export interface InviteResponse {
+  token: string
+  roomCode: string
+  maxUses: number
+  expiresAt: string
 }
 
 export interface RoomResponse {
   roomId: string
   roomCode: string
   participants: Participant[]
+  maxParticipants: number
   status: 'active' | 'closed'
   createdAt: string
   closedAt?: string
+  expiresAt: string | null
+  hasPassphrase: boolean
+  encrypted: boolean
+  // Default lifetime of new messages (null keeps them)
+  messageTtlSeconds: number | null
+  messageTtlStart: MessageTtlStart
 }
 
 // Message Types
@@ -46,23 +86,89 @@ export interface ReactionCount {
 
 export type ReactionType = 'like' | 'love' | 'laugh' | 'wow' | 'sad' | 'angry'
 
+export type ReportReason =
+  | 'spam'
+  | 'harassment'
+  | 'hate'
+  | 'sexual'
+  | 'violence'
+  | 'other'
+
+// Local delivery state of messages sent from this client
+export type MessageDeliveryStatus = 'pending' | 'sent' | 'failed'
+
+export type MessageContentType = 'text' | 'emoji' | 'image' | 'file' | 'audio'
+
 export interface Message {
   messageId: string
   roomId: string
+  clientMessageId?: string
   senderId: string
   senderName: string
   content: string
-  contentType: 'text' | 'emoji'
+  // Content is ciphertext on the wire; the store replaces it with plaintext
+  encrypted?: boolean
+  decryptionFailed?: boolean
+  contentType: MessageContentType
+  attachment?: MessageAttachment
   isDeleted: boolean
   deletedByName?: string
+  isEdited?: boolean
+  editedAt?: string
+  revisions?: MessageRevision[]
+  replyTo?: ReplyPreview
   reactions: ReactionCount[]
+  // Disappearing messages; expiresAt stays null until a read-started timer runs
+  ttlSeconds?: number | null
+  ttlStart?: MessageTtlStart | null
+  expiresAt?: string | null
+  createdAt: string
+  status?: MessageDeliveryStatus
+}
+
+export interface ReplyPreview {
+  messageId: string
+  senderId: string
+  senderName: string
+  snippet: string
+  isDeleted: boolean
+  // Snippet is left empty by the server; filled in from the decrypted parent
+  encrypted?: boolean
+}
+
+export interface MessageRevision {
+  content: string
+  createdAt: string
+}
+
+// Attachment Types
+export interface MessageAttachment {
+  attachmentId: string
+  fileName: string
+  mimeType: string
+  size: number
+  width?: number
+  height?: number
+  hasThumbnail: boolean
+  // Voice notes only
+  durationMs?: number
+  waveform?: number[]
+}
+
+export interface Attachment extends MessageAttachment {
+  roomId: string
   createdAt: string
 }
 
 export interface SendMessageRequest {
   roomId: string
   content: string
-  contentType?: 'text' | 'emoji'
+  contentType?: MessageContentType
+  replyTo?: string
+  clientMessageId?: string
+  attachmentId?: string
+  ttlSeconds?: number
+  ttlStart?: MessageTtlStart
 }
 
 export interface GetMessagesQuery {
@@ -81,6 +187,32 @@ export interface PaginatedMessages {
   }
 }
 
+// Search Types
+export interface SearchHighlight {
+  start: number
+  end: number
+}
+
+export interface MessageSearchResult {
+  messageId: string
+  roomId: string
+  roomCode?: string
+  senderId: string
+  senderName: string
+  snippet: string
+  highlights: SearchHighlight[]
+  createdAt: string
+}
+
+export interface MessageSearchResponse {
+  query: string
+  results: MessageSearchResult[]
+  pagination: {
+    hasMore: boolean
+    nextCursor?: string
+  }
+}
+
 export interface AddReactionRequest {
   type: ReactionType
 }
@@ -90,6 +222,17 @@ export interface ReactionResponse {
   reactions: ReactionCount[]
 }
 
+export interface EditMessageRequest {
+  content: string
+}
+
+export interface EditMessageResponse {
+  messageId: string
+  content: string
+  editedAt: string
+  revisions: MessageRevision[]
+}
+
 export interface DeleteMessageResponse {
   messageId: string
   isDeleted: boolean
@@ -106,6 +249,8 @@ export interface ChatHistoryItem {
   lastMessageAt: string | null
   status: 'active' | 'closed'
   isArchived: boolean
+  encrypted: boolean
+  imported: boolean
   createdAt: string
   messageCount: number
   unreadCount: number
@@ -135,6 +280,58 @@ export interface DeleteChatResponse {
   deletedAt: string
 }
 
+export type ExportFormat = 'json' | 'txt' | 'html'
+
+export interface ImportChatResponse {
+  roomId: string
+  roomCode: string
+  messageCount: number
+  importedAt: string
+}
+
+// Session Token Types
+export interface SessionTokenResponse {
+  sessionId: string
+  token: string
+  expiresAt: string
+}
+
+// Identity Types
+export interface IdentityStatus {
+  linked: boolean
+  linkedSessions: number
+  createdAt: string | null
+}
+
+export interface RecoveryKeyResponse {
+  recoveryKey: string
+  createdAt: string
+}
+
+export interface ClaimIdentityResponse {
+  userId: string
+  linked: boolean
+  linkedSessions: number
+}
+
+export type ErasureStatus = 'pending' | 'running' | 'completed' | 'failed'
+
+export interface SessionErasureResult {
+  contentErased: boolean
+  messagesErased: number
+  attachmentsDeleted: number
+  roomsUpdated: number
+  reportsAnonymized: number
+}
+
+export interface SessionErasureStatus {
+  jobId: string
+  status: ErasureStatus
+  requestedAt: string
+  completedAt: string | null
+  result: SessionErasureResult | null
+}
+
 // Generic API Response wrapper
 export interface ApiResponse<T> {
   data: T
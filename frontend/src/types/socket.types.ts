@@ -1,16 +1,35 @@
 // Socket.io Event Types - matching backend gateway
 
-import type { Message, Participant, ReactionCount } from './api.types'
+import type {
+  Message,
+  MessageContentType,
+  MessageRevision,
+  MessageTtlStart,
+  Participant,
+  PresenceStatus,
+  ReactionCount,
+  ReportReason,
+} from './api.types'
 
 // Client -> Server Events
 export interface ClientToServerEvents {
   join_room: (payload: JoinRoomPayload) => void
   leave_room: (payload: LeaveRoomPayload) => void
-  send_message: (payload: SendMessagePayload) => void
+  send_message: (
+    payload: SendMessagePayload,
+    callback: (ack: SendMessageAck) => void
+  ) => void
   typing: (payload: TypingPayload) => void
+  edit_message: (payload: EditMessagePayload) => void
   delete_message: (payload: DeleteMessagePayload) => void
+  report_message: (payload: ReportMessagePayload) => void
   add_reaction: (payload: AddReactionPayload) => void
   remove_reaction: (payload: RemoveReactionPayload) => void
+  mark_read: (payload: MarkReadPayload) => void
+  extend_room: (payload: ExtendRoomPayload) => void
+  kick_participant: (payload: KickParticipantPayload) => void
+  share_public_key: (payload: SharePublicKeyPayload) => void
+  heartbeat: () => void
 }
 
 // Server -> Client Events
@@ -21,9 +40,23 @@ export interface ServerToClientEvents {
   participants_updated: (payload: ParticipantsUpdatedPayload) => void
   new_message: (payload: Message) => void
   user_typing: (payload: UserTypingPayload) => void
+  message_edited: (payload: MessageEditedPayload) => void
   message_deleted: (payload: MessageDeletedPayload) => void
+  message_reported: (payload: MessageReportedPayload) => void
   reaction_updated: (payload: ReactionUpdatedPayload) => void
+  messages_read: (payload: MessagesReadPayload) => void
+  message_timers_started: (payload: MessageTimersStartedPayload) => void
+  message_expired: (payload: MessageExpiredPayload) => void
+  room_expiry_extended: (payload: RoomExpiryExtendedPayload) => void
+  participant_kicked: (payload: ParticipantKickedPayload) => void
+  kicked: (payload: KickedPayload) => void
+  public_key_shared: (payload: PublicKeySharedPayload) => void
   room_closed: (payload: RoomClosedPayload) => void
+  messages_purged: (payload: MessagesPurgedPayload) => void
+  participant_erased: (payload: ParticipantErasedPayload) => void
+  presence_changed: (payload: PresenceChangedPayload) => void
+  session_room_joined: (payload: SessionRoomJoinedPayload) => void
+  session_room_left: (payload: SessionRoomLeftPayload) => void
   error: (payload: SocketErrorPayload) => void
 }
 
@@ -39,7 +72,21 @@ export interface LeaveRoomPayload {
 export interface SendMessagePayload {
   roomId: string
   content: string
-  contentType?: 'text' | 'emoji'
+  encrypted?: boolean
+  contentType?: MessageContentType
+  replyTo?: string
+  clientMessageId: string
+  attachmentId?: string
+  ttlSeconds?: number
+  ttlStart?: MessageTtlStart
+}
+
+// Acknowledgement for send_message
+export interface SendMessageAck {
+  status: 'sent' | 'failed'
+  clientMessageId?: string
+  messageId?: string
+  error?: string
 }
 
 export interface TypingPayload {
@@ -47,11 +94,23 @@ export interface TypingPayload {
   isTyping: boolean
 }
 
+export interface EditMessagePayload {
+  messageId: string
+  content: string
+  encrypted?: boolean
+}
+
 export interface DeleteMessagePayload {
   roomId?: string
   messageId: string
 }
 
+export interface ReportMessagePayload {
+  messageId: string
+  reason: ReportReason
+  details?: string
+}
+
 export interface AddReactionPayload {
   roomId?: string
   messageId: string
@@ -64,18 +123,41 @@ export interface RemoveReactionPayload {
   type: string
 }
 
+export interface MarkReadPayload {
+  roomId: string
+  messageId: string
+}
+
+export interface ExtendRoomPayload {
+  roomId: string
+  hours: number
+}
+
+export interface KickParticipantPayload {
+  roomId: string
+  userId: string
+}
+
+export interface SharePublicKeyPayload {
+  roomId: string
+  publicKey: string
+}
+
 // Payload Types for Server -> Client
 export interface RoomJoinedPayload {
   roomId: string
   userId: string
   roomCode: string
+  expiresAt: string | null
+  encrypted: boolean
   participants: ParticipantWithOnline[]
   recentMessages: Message[]
 }
 
 export interface ParticipantWithOnline extends Participant {
   isOnline: boolean
-  lastSeenAt: string
+  presence: PresenceStatus
+  lastSeenAt: string | null
 }
 
 export interface UserJoinedPayload {
@@ -105,6 +187,15 @@ export interface UserTypingPayload {
   isTyping: boolean
 }
 
+export interface MessageEditedPayload {
+  messageId: string
+  content: string
+  encrypted?: boolean
+  editedAt: string
+  revisions: MessageRevision[]
+  timestamp: string
+}
+
 export interface MessageDeletedPayload {
   messageId: string
   deletedBy: string
@@ -118,12 +209,102 @@ export interface ReactionUpdatedPayload {
   reactions: ReactionCount[]
 }
 
+// Only sent to the reporter
+export interface MessageReportedPayload {
+  messageId: string
+  reportId: string
+  timestamp: string
+}
+
+export interface MessagesReadPayload {
+  roomId: string
+  userId: string
+  lastReadMessageId: string
+  readAt: string
+  timestamp: string
+}
+
+export interface MessageTimersStartedPayload {
+  roomId: string
+  messages: { messageId: string; expiresAt: string }[]
+  timestamp: string
+}
+
+export interface MessageExpiredPayload {
+  roomId: string
+  messageId: string
+  timestamp: string
+}
+
+export interface RoomExpiryExtendedPayload {
+  roomId: string
+  expiresAt: string
+  timestamp: string
+}
+
+export interface ParticipantKickedPayload {
+  roomId: string
+  userId: string
+  displayName: string
+  timestamp: string
+}
+
+export interface PublicKeySharedPayload {
+  roomId: string
+  userId: string
+  publicKey: string
+  timestamp: string
+}
+
+export interface KickedPayload {
+  roomId: string
+  timestamp: string
+}
+
 export interface RoomClosedPayload {
   roomId: string
+  reason?: string
   closedAt: string
 }
 
+export interface MessagesPurgedPayload {
+  roomId: string
+  timestamp: string
+}
+
+export interface ParticipantErasedPayload {
+  roomId: string
+  userId: string
+  displayName: string
+  timestamp: string
+}
+
+export interface PresenceChangedPayload {
+  roomId: string
+  userId: string
+  status: PresenceStatus
+  lastSeenAt: string
+  timestamp: string
+}
+
+// Another tab of the same session joined or left a room
+export interface SessionRoomJoinedPayload {
+  roomId: string
+  roomCode: string
+  timestamp: string
+}
+
+export interface SessionRoomLeftPayload {
+  roomId: string
+  timestamp: string
+}
+
 export interface SocketErrorPayload {
   message: string
   code?: string
+  type?: 'RATE_LIMIT'
+  // Escalation step for a new rate limit violation
+  action?: 'warn' | 'block' | 'disconnect'
+  // Seconds until events are accepted again
+  retryAfter?: number
 }
@@ -1,3 +1,6 @@
+// REST API base URL
+export const API_URL = import.meta.env.VITE_API_URL || '/api'
+
 // Reaction emoji mappings
 export const REACTION_EMOJIS: Record<string, string> = {
   like: '👍',
@@ -11,15 +14,101 @@ export const REACTION_EMOJIS: Record<string, string> = {
 // Reaction types in display order
 export const REACTION_TYPES = ['like', 'love', 'laugh', 'wow', 'sad', 'angry'] as const
 
-// Room code length
-export const ROOM_CODE_LENGTH = 6
+// Reasons offered when reporting a message (matches backend)
+export const REPORT_REASONS = [
+  { value: 'spam', label: 'Spam' },
+  { value: 'harassment', label: 'Harassment' },
+  { value: 'hate', label: 'Hate speech' },
+  { value: 'sexual', label: 'Sexual content' },
+  { value: 'violence', label: 'Violence' },
+  { value: 'other', label: 'Something else' },
+] as const
+export const MAX_REPORT_DETAILS_LENGTH = 500
+
+// Room codes: random characters or hyphen-separated words (matches backend)
+export const MIN_ROOM_CODE_LENGTH = 4
+export const MAX_ROOM_CODE_LENGTH = 64
+export const ROOM_CODE_PATTERN = /^[A-Z0-9]+(?:-[A-Z0-9]+)*$/
+
+// Room sizes offered when creating a room (backend allows 2-100)
+export const ROOM_SIZE_OPTIONS = [2, 5, 10, 25, 50] as const
+export const DEFAULT_ROOM_SIZE = 2
+
+// Room passphrases (matches backend)
+export const MIN_PASSPHRASE_LENGTH = 4
+export const MAX_PASSPHRASE_LENGTH = 128
+
+// Hours added per extension, and when to start warning about expiry
+export const ROOM_EXTENSION_HOURS = 24
+export const ROOM_EXPIRY_WARNING = 60 * 60 * 1000
 
 // Message limits
 export const MAX_MESSAGE_LENGTH = 2000
 
+// Disappearing message lifetimes offered in the composer and when creating
+// a room, in seconds (backend allows 5 seconds to 7 days)
+export const MESSAGE_TTL_OPTIONS = [
+  { label: '30 seconds', seconds: 30 },
+  { label: '5 minutes', seconds: 5 * 60 },
+  { label: '1 hour', seconds: 60 * 60 },
+  { label: '1 day', seconds: 24 * 60 * 60 },
+  { label: '7 days', seconds: 7 * 24 * 60 * 60 },
+] as const
+
+// Quoted parent length in reply previews (matches backend)
+export const REPLY_SNIPPET_LENGTH = 100
+
+// Attachments (matches backend defaults)
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024
+export const ATTACHMENT_ACCEPT =
+  'image/jpeg,image/png,image/gif,image/webp,application/pdf,text/plain,application/zip'
+
+// Voice notes (matches backend defaults)
+export const MAX_VOICE_NOTE_DURATION = 5 * 60 * 1000
+export const WAVEFORM_SAMPLES = 64
+
+// Recording formats in order of preference; Safari only records MP4
+export const VOICE_NOTE_MIME_TYPES = [
+  'audio/webm;codecs=opus',
+  'audio/ogg;codecs=opus',
+  'audio/mp4',
+]
+
+// Refresh the session token this long before it expires (ms)
+export const SESSION_TOKEN_REFRESH_MARGIN = 60 * 1000
+
+// Uploads can take much longer than regular API calls (ms)
+export const ATTACHMENT_UPLOAD_TIMEOUT = 60000
+
+// Exports of long conversations are streamed in pages (ms)
+export const CHAT_EXPORT_TIMEOUT = 120000
+
+// Imports are validated and written in one request (ms)
+export const CHAT_IMPORT_TIMEOUT = 120000
+
+// How often to check on a session erasure while it runs (ms)
+export const SESSION_ERASURE_POLL_INTERVAL = 2000
+
+// Conversation export formats (matches backend)
+export const EXPORT_FORMATS = [
+  { value: 'html', label: 'Web page (.html)' },
+  { value: 'txt', label: 'Plain text (.txt)' },
+  { value: 'json', label: 'JSON (.json)' },
+] as const
+
 // Pagination
 export const MESSAGES_PER_PAGE = 50
 
+// Search
+export const MIN_SEARCH_LENGTH = 2
+export const SEARCH_DEBOUNCE = 300
+
+// How long to wait for the server to acknowledge a sent message (ms)
+export const MESSAGE_ACK_TIMEOUT = 10000
+
+// Minimum gap between activity heartbeats while the user is active (ms)
+export const PRESENCE_HEARTBEAT_INTERVAL = 30 * 1000
+
 // Typing indicator timeout (ms)
 export const TYPING_TIMEOUT = 3000
 
@@ -1,5 +1,6 @@
 import {
   format,
+  formatDistance,
   formatDistanceToNow,
   isToday,
   isYesterday,
@@ -44,6 +45,13 @@ export function formatRelativeTime(dateString: string): string {
   return formatDistanceToNow(date, { addSuffix: true })
 }
 
+/**
+ * Format when someone was last active (e.g., "active 5 minutes ago")
+ */
+export function formatLastActive(dateString: string, now = Date.now()): string {
+  return `active ${formatDistance(parseISO(dateString), now, { addSuffix: true })}`
+}
+
 /**
  * Format a date for chat history list
  * - Today: "Today"
@@ -82,3 +90,93 @@ export function getMessageDateGroup(dateString: string): string {
 
   return format(date, 'MMMM d, yyyy')
 }
+
+/**
+ * Format a file size for display
+ * - "512 B", "18 KB", "2.4 MB"
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`
+  }
+
+  const kilobytes = bytes / 1024
+  if (kilobytes < 1024) {
+    return `${Math.round(kilobytes)} KB`
+  }
+
+  return `${(kilobytes / 1024).toFixed(1)} MB`
+}
+
+/**
+ * Format a playback duration for display
+ * - "0:07", "1:42", "12:05"
+ */
+export function formatDuration(milliseconds: number): string {
+  const totalSeconds = Math.max(0, Math.round(milliseconds / 1000))
+  const minutes = Math.floor(totalSeconds / 60)
+  const seconds = totalSeconds % 60
+
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`
+}
+
+/**
+ * Format a list of names for display, collapsing long lists
+ * - "Alice", "Alice and Bob", "Alice, Bob and Carol", "Alice, Bob and 3 others"
+ */
+export function formatNameList(names: string[], limit = 3): string {
+  if (names.length <= 1) {
+    return names[0] ?? ''
+  }
+
+  if (names.length <= limit) {
+    return `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`
+  }
+
+  const shown = names.slice(0, limit - 1)
+  return `${shown.join(', ')} and ${names.length - shown.length} others`
+}
+
+/**
+ * Format the time left until a date, to the second
+ * - "1d 4h", "2h 5m", "4m 10s", "9s", "0s"
+ */
+export function formatCountdown(dateString: string, now = Date.now()): string {
+  const totalSeconds = Math.max(
+    0,
+    Math.ceil((parseISO(dateString).getTime() - now) / 1000)
+  )
+
+  const days = Math.floor(totalSeconds / (60 * 60 * 24))
+  const hours = Math.floor(totalSeconds / (60 * 60)) % 24
+  const minutes = Math.floor(totalSeconds / 60) % 60
+  const seconds = totalSeconds % 60
+
+  if (days > 0) {
+    return `${days}d ${hours}h`
+  }
+  if (hours > 0) {
+    return `${hours}h ${minutes}m`
+  }
+  return minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`
+}
+
+/**
+ * Format the time left until a date, to the nearest minute
+ * - "2d 4h", "5h 12m", "12m", "<1m"
+ */
+export function formatTimeRemaining(dateString: string, now = Date.now()): string {
+  const totalMinutes = Math.floor((parseISO(dateString).getTime() - now) / 60000)
+  if (totalMinutes < 1) {
+    return '<1m'
+  }
+
+  const days = Math.floor(totalMinutes / (60 * 24))
+  const hours = Math.floor(totalMinutes / 60) % 24
+  const minutes = totalMinutes % 60
+
+  if (days > 0) {
+    return `${days}d ${hours}h`
+  }
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`
+}
@@ -1,9 +1,12 @@
 const SESSION_ID_KEY = 'chat_session_id'
 const DISPLAY_NAME_KEY = 'chat_display_name'
 const USER_ID_KEY = 'chat_user_id'
+const SESSION_TOKEN_KEY = 'chat_session_token'
+const ROOM_KEY_PAIR_PREFIX = 'chat_room_keys_'
 
 // Fallback in-memory storage if localStorage is unavailable
 let memorySessionId: string | null = null
+let memorySessionToken: StoredSessionToken | null = null
 
 /**
  * Generate a random session ID
@@ -34,6 +37,17 @@ export function getSessionId(): string {
   }
 }
 
+/**
+ * Save a session ID assigned by the server
+ */
+export function setSessionId(id: string): void {
+  try {
+    localStorage.setItem(SESSION_ID_KEY, id)
+  } catch {
+    memorySessionId = id
+  }
+}
+
 /**
  * Clear the session ID (for logout/reset)
  */
@@ -41,6 +55,46 @@ export function clearSessionId(): void {
   localStorage.removeItem(SESSION_ID_KEY)
 }
 
+export interface StoredSessionToken {
+  token: string
+  expiresAt: string
+}
+
+/**
+ * Get the saved session token
+ */
+export function getSessionToken(): StoredSessionToken | null {
+  try {
+    const raw = localStorage.getItem(SESSION_TOKEN_KEY)
+    return raw ? (JSON.parse(raw) as StoredSessionToken) : null
+  } catch {
+    return memorySessionToken
+  }
+}
+
+/**
+ * Save the session token
+ */
+export function setSessionToken(token: StoredSessionToken): void {
+  try {
+    localStorage.setItem(SESSION_TOKEN_KEY, JSON.stringify(token))
+  } catch {
+    memorySessionToken = token
+  }
+}
+
+/**
+ * Clear the session token
+ */
+export function clearSessionToken(): void {
+  memorySessionToken = null
+  try {
+    localStorage.removeItem(SESSION_TOKEN_KEY)
+  } catch {
+    // Nothing stored
+  }
+}
+
 /**
  * Get the saved display name
  */
@@ -82,3 +136,43 @@ export function setUserId(id: string): void {
 export function clearUserId(): void {
   localStorage.removeItem(USER_ID_KEY)
 }
+
+/**
+ * Get the saved end-to-end encryption key pair for a room (serialized)
+ */
+export function getRoomKeyPair(roomId: string): string | null {
+  return localStorage.getItem(`${ROOM_KEY_PAIR_PREFIX}${roomId}`)
+}
+
+/**
+ * Save the end-to-end encryption key pair for a room
+ */
+export function setRoomKeyPair(roomId: string, keyPair: string): void {
+  localStorage.setItem(`${ROOM_KEY_PAIR_PREFIX}${roomId}`, keyPair)
+}
+
+/**
+ * Clear the end-to-end encryption key pair for a room
+ */
+export function clearRoomKeyPair(roomId: string): void {
+  localStorage.removeItem(`${ROOM_KEY_PAIR_PREFIX}${roomId}`)
+}
+
+/**
+ * Forget everything this browser stored for its session, including room
+ * encryption keys (after the session was erased on the server)
+ */
+export function clearStoredSession(): void {
+  memorySessionId = null
+  clearSessionToken()
+  try {
+    clearSessionId()
+    clearUserId()
+    clearDisplayName()
+    Object.keys(localStorage)
+      .filter((key) => key.startsWith(ROOM_KEY_PAIR_PREFIX))
+      .forEach((key) => localStorage.removeItem(key))
+  } catch {
+    // localStorage unavailable: nothing stored
+  }
+}